@@ -104,7 +104,7 @@ const Dashboard: React.FC = () => {
             <CardContent>
               <Typography color="textSecondary" gutterBottom>Power Factor</Typography>
               <Typography variant="h4" sx={{ color: theme.palette.warning.contrastText }}>
-                {powerData.length > 0 ? formatValue(powerData[powerData.length - 1].powerFactor) : '0'}
+                {powerData.length > 0 ? formatValue(powerData[powerData.length - 1].powerFactor ?? 0) : '0'}
               </Typography>
             </CardContent>
           </Card>
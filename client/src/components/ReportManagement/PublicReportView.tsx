@@ -0,0 +1,186 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Paper,
+  TextField,
+  Typography
+} from '@mui/material';
+import {
+  Lock as LockIcon,
+  Print as PrintIcon
+} from '@mui/icons-material';
+import { useParams } from 'react-router-dom';
+import reportService from '../../services/reportService';
+import { SharedReport, SharedReportInfo } from '../../types/reports';
+import ReportDocument from './ReportDocument';
+import { getErrorMessage } from '../../utils/errorMessages';
+
+const getErrorCode = (error: any): string | undefined => error?.response?.data?.code;
+
+/**
+ * Read-only report opened through a share link, for people without an account. Asks for the
+ * link's password first when it has one.
+ */
+const PublicReportView: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const [info, setInfo] = useState<SharedReportInfo | null>(null);
+  const [report, setReport] = useState<SharedReport | null>(null);
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [opening, setOpening] = useState(false);
+  // Errors that end the visit, such as an expired or revoked link
+  const [fatalError, setFatalError] = useState<string | null>(null);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  // Every open counts as a view, so open at most once per page load
+  const openedRef = useRef(false);
+
+  const openReport = useCallback(async (linkPassword?: string) => {
+    if (!token) return;
+    setOpening(true);
+    try {
+      setReport(await reportService.viewSharedReport(token, linkPassword));
+      setPasswordError(null);
+    } catch (err) {
+      const code = getErrorCode(err);
+      if (code === 'INVALID_PASSWORD' || code === 'PASSWORD_REQUIRED' || code === 'LINK_LOCKED') {
+        setPasswordError(getErrorMessage(err, 'Incorrect password.'));
+      } else {
+        setFatalError(getErrorMessage(err, 'This report could not be opened.'));
+      }
+    } finally {
+      setOpening(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    if (!token || openedRef.current) return;
+    openedRef.current = true;
+
+    const loadInfo = async () => {
+      try {
+        const linkInfo = await reportService.getSharedReportInfo(token);
+        setInfo(linkInfo);
+        if (!linkInfo.requires_password) {
+          await openReport();
+        }
+      } catch (err) {
+        setFatalError(getErrorMessage(err, 'This link is not valid.'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadInfo();
+  }, [token, openReport]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) {
+      openReport(password);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 5 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (fatalError) {
+    return (
+      <Box sx={{ maxWidth: 480, mx: 'auto', mt: 8, px: 2 }}>
+        <Alert severity="warning">{fatalError}</Alert>
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+          Ask the person who shared this report for a new link.
+        </Typography>
+      </Box>
+    );
+  }
+
+  if (!report) {
+    return (
+      <Box sx={{ maxWidth: 420, mx: 'auto', mt: 8, px: 2 }}>
+        <Paper sx={{ p: 3, borderRadius: 2 }}>
+          <form onSubmit={handleSubmit}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+              <LockIcon color="action" />
+              <Typography variant="h6" component="h1">
+                Protected Report
+              </Typography>
+            </Box>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Enter the password you received with this link.
+            </Typography>
+            {passwordError && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {passwordError}
+              </Alert>
+            )}
+            <TextField
+              label="Password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+              autoFocus
+              fullWidth
+              sx={{ mb: 2 }}
+            />
+            <Button
+              type="submit"
+              variant="contained"
+              fullWidth
+              disabled={opening || !password}
+              startIcon={opening ? <CircularProgress size={20} color="inherit" /> : undefined}
+            >
+              Open Report
+            </Button>
+            {info?.expires_at && (
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 2 }}>
+                This link expires on {new Date(info.expires_at).toLocaleString()}.
+              </Typography>
+            )}
+          </form>
+        </Paper>
+      </Box>
+    );
+  }
+
+  return (
+    <Box className="report-view" sx={{ maxWidth: 1100, mx: 'auto', p: 3, '@media print': { p: 0 } }}>
+      <Box sx={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        mb: 2,
+        '@media print': {
+          display: 'none'
+        }
+      }}>
+        <Typography variant="body2" color="text.secondary">
+          Shared read-only copy{info?.expires_at ? ` · available until ${new Date(info.expires_at).toLocaleDateString()}` : ''}
+        </Typography>
+        <Button variant="outlined" size="small" startIcon={<PrintIcon />} onClick={() => window.print()}>
+          Print
+        </Button>
+      </Box>
+
+      <ReportDocument report={report} />
+
+      <Typography
+        variant="body2"
+        color="text.secondary"
+        sx={{ mt: 3, '@media print': { display: 'none' } }}
+      >
+        Last Updated: {new Date(report.updated_at).toLocaleDateString()} | Version: {report.version}
+      </Typography>
+    </Box>
+  );
+};
+
+export default PublicReportView;
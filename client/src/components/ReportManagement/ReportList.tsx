@@ -86,7 +86,7 @@ interface ReportListProps {
   onEditReport?: (report: Report) => void;
   onViewReport?: (report: Report) => void;
   onCreateReport?: () => void;
-  reportsType?: 'owned' | 'shared' | 'templates' | 'all';
+  reportsType?: 'owned' | 'shared' | 'templates' | 'client' | 'all';
   showActions?: boolean;
   showFilters?: boolean;
   maxItems?: number;
@@ -135,6 +135,8 @@ const ReportList: React.FC<ReportListProps> = ({
         
         if (reportsType === 'shared') {
           url = '/api/reports/shared/list';
+        } else if (reportsType === 'client') {
+          url = '/api/reports/client/list';
         } else if (reportsType === 'templates') {
           url = '/api/reports?is_template=true';
         } else if (reportsType === 'all') {
@@ -0,0 +1,179 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  LinearProgress,
+  Paper,
+  Typography
+} from '@mui/material';
+import {
+  CloudDownload as DownloadIcon,
+  PictureAsPdf as PdfIcon
+} from '@mui/icons-material';
+import reportService from '../../services/reportService';
+import { useSocket } from '../../contexts/SocketContext';
+import { ReportRenderJob } from '../../types/reports';
+import { getErrorMessage } from '../../utils/errorMessages';
+
+interface ReportRenderPanelProps {
+  reportId: number;
+  reportTitle: string;
+}
+
+const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+/**
+ * Renders the report to PDF on the server as a background job, showing its progress from
+ * reportRenderProgress socket events, and downloads the last rendered file
+ */
+const ReportRenderPanel: React.FC<ReportRenderPanelProps> = ({ reportId, reportTitle }) => {
+  const { socket } = useSocket();
+  const [job, setJob] = useState<ReportRenderJob | null>(null);
+  const [renderedAt, setRenderedAt] = useState<string | null>(null);
+  const [fileSize, setFileSize] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const result = await reportService.getRenderJobs(reportId);
+      setJob(result.jobs[0] || null);
+      setRenderedAt(result.rendered_at);
+      setFileSize(result.rendered_file_size);
+    } catch (err) {
+      console.error('Error loading render jobs:', err);
+    }
+  }, [reportId]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  useEffect(() => {
+    if (!socket) return;
+    const handleProgress = (update: ReportRenderJob) => {
+      if (update.report_id !== reportId) return;
+      setJob(update);
+      if (update.status === 'completed') {
+        setRenderedAt(update.completed_at);
+        setFileSize(update.file_size);
+      }
+    };
+    socket.on('reportRenderProgress', handleProgress);
+    return () => {
+      socket.off('reportRenderProgress', handleProgress);
+    };
+  }, [socket, reportId]);
+
+  const handleRender = async () => {
+    setBusy(true);
+    try {
+      setJob(await reportService.renderReport(reportId));
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to queue report for rendering'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!job) return;
+    setBusy(true);
+    try {
+      await reportService.cancelRenderJob(reportId, job.id);
+      setError(null);
+      await loadJobs();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to cancel rendering'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    setBusy(true);
+    try {
+      const blob = await reportService.downloadRenderedReport(reportId);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${reportTitle.replace(/\s+/g, '_')}_${(renderedAt || new Date().toISOString()).split('T')[0]}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to download rendered PDF'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inProgress = job?.status === 'queued' || job?.status === 'running';
+
+  return (
+    <Paper sx={{ p: 2, mb: 3, '@media print': { display: 'none' } }} variant="outlined">
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1 }}>
+        <Box>
+          <Typography variant="subtitle1">Server PDF</Typography>
+          <Typography variant="body2" color="text.secondary">
+            {renderedAt
+              ? `Last rendered ${new Date(renderedAt).toLocaleString()}${fileSize ? ` (${formatFileSize(fileSize)})` : ''}`
+              : 'Not rendered yet'}
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          {job?.status === 'queued' && (
+            <Button size="small" onClick={handleCancel} disabled={busy}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<PdfIcon />}
+            onClick={handleRender}
+            disabled={busy || inProgress}
+          >
+            {renderedAt ? 'Render Again' : 'Render PDF'}
+          </Button>
+          <Button
+            size="small"
+            variant="contained"
+            startIcon={<DownloadIcon />}
+            onClick={handleDownload}
+            disabled={busy || !renderedAt}
+          >
+            Download
+          </Button>
+        </Box>
+      </Box>
+
+      {inProgress && job && (
+        <Box sx={{ mt: 2 }}>
+          <LinearProgress
+            variant={job.status === 'queued' ? 'indeterminate' : 'determinate'}
+            value={job.progress}
+          />
+          <Typography variant="caption" color="text.secondary">
+            {job.message || (job.status === 'queued' ? 'Waiting in queue' : 'Rendering')}
+            {job.status === 'running' ? ` · ${job.progress}%` : ''}
+          </Typography>
+        </Box>
+      )}
+
+      {job?.status === 'failed' && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          Rendering failed{job.error ? `: ${job.error}` : ''}
+        </Alert>
+      )}
+      {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+    </Paper>
+  );
+};
+
+export default ReportRenderPanel;
@@ -30,6 +30,7 @@ import {
 } from '@mui/icons-material';
 import { useNavigate, useParams } from 'react-router-dom';
 import { Report } from '../../types/reports';
+import ReportShareLinks from './ReportShareLinks';
 
 interface UserShare {
   id: number;
@@ -353,6 +354,8 @@ const ReportShare: React.FC = () => {
           </Box>
         )}
       </Paper>
+      
+      <ReportShareLinks reportId={report.id} />
     </Box>
   );
 };
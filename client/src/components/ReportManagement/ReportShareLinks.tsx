@@ -0,0 +1,353 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  IconButton,
+  InputAdornment,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Block as RevokeIcon,
+  ContentCopy as CopyIcon,
+  Link as LinkIcon
+} from '@mui/icons-material';
+import reportService from '../../services/reportService';
+import { useAuthContext } from '../../contexts/AuthContext';
+import {
+  ReportShareLink,
+  ReportShareLinkAction,
+  ReportShareLinkEvent,
+  ReportShareLinkStatus
+} from '../../types/reports';
+import { getErrorMessage } from '../../utils/errorMessages';
+
+interface ReportShareLinksProps {
+  reportId: number;
+}
+
+const STATUS_COLORS: Record<ReportShareLinkStatus, 'success' | 'warning' | 'default' | 'error'> = {
+  active: 'success',
+  expired: 'warning',
+  exhausted: 'default',
+  revoked: 'error'
+};
+
+const ACTION_LABELS: Record<ReportShareLinkAction, string> = {
+  REPORT_LINK_CREATED: 'Created',
+  REPORT_LINK_REVOKED: 'Revoked',
+  REPORT_LINK_VIEWED: 'Viewed',
+  REPORT_LINK_DENIED: 'Denied',
+  REPORT_LINK_PASSWORD_FAILED: 'Wrong password'
+};
+
+const getShareLinkUrl = (token: string) => `${window.location.origin}/shared/reports/${token}`;
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const describeLink = (links: ReportShareLink[], event: ReportShareLinkEvent) => {
+  const link = links.find(item => item.id === event.details.linkId);
+  return event.details.label || link?.label || `Link #${event.details.linkId}`;
+};
+
+/**
+ * Links that open the report read-only for people without an account, such as building owners.
+ * A link's URL is shown once, when it is created; the server keeps only a hash of its token.
+ */
+const ReportShareLinks: React.FC<ReportShareLinksProps> = ({ reportId }) => {
+  const { hasPermission } = useAuthContext();
+  const canShare = hasPermission('report.share');
+  const [links, setLinks] = useState<ReportShareLink[]>([]);
+  const [accessLog, setAccessLog] = useState<ReportShareLinkEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // New link form
+  const [label, setLabel] = useState('');
+  const [password, setPassword] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [maxViews, setMaxViews] = useState('');
+
+  const loadLinks = useCallback(async () => {
+    try {
+      const result = await reportService.getShareLinks(reportId);
+      setLinks(result.links);
+      setAccessLog(result.access_log);
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load share links'));
+    } finally {
+      setLoading(false);
+    }
+  }, [reportId]);
+
+  useEffect(() => {
+    if (canShare) loadLinks();
+  }, [canShare, loadLinks]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const { token } = await reportService.createShareLink(reportId, {
+        label: label.trim() || undefined,
+        password: password || undefined,
+        // The link stays valid until the end of the chosen day
+        expires_at: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : undefined,
+        max_views: maxViews ? parseInt(maxViews, 10) : undefined
+      });
+      setCreatedUrl(getShareLinkUrl(token));
+      setCopied(false);
+      setLabel('');
+      setPassword('');
+      setExpiresOn('');
+      setMaxViews('');
+      await loadLinks();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create share link'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (link: ReportShareLink) => {
+    if (!window.confirm('Revoke this link? Anyone using it will lose access to the report.')) return;
+    try {
+      await reportService.revokeShareLink(reportId, link.id);
+      await loadLinks();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to revoke share link'));
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdUrl) return;
+    try {
+      await navigator.clipboard.writeText(createdUrl);
+      setCopied(true);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to copy link'));
+    }
+  };
+
+  if (!canShare) {
+    return null;
+  }
+
+  return (
+    <Paper sx={{ p: 3, mt: 3, borderRadius: 2 }}>
+      <Typography variant="h6" gutterBottom>
+        Share Links
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Anyone with a link can read the report without an account. Protect links with a password,
+        an expiry date or a view limit, and revoke them when they are no longer needed.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {createdUrl && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setCreatedUrl(null)}>
+          <Typography variant="body2" gutterBottom>
+            Link created. Copy it now; it cannot be shown again.
+          </Typography>
+          <TextField
+            value={createdUrl}
+            size="small"
+            fullWidth
+            helperText={copied ? 'Link copied to clipboard' : undefined}
+            InputProps={{
+              readOnly: true,
+              endAdornment: (
+                <InputAdornment position="end">
+                  <Tooltip title={copied ? 'Copied' : 'Copy Link'}>
+                    <IconButton size="small" onClick={handleCopy} aria-label="Copy share link">
+                      <CopyIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </InputAdornment>
+              )
+            }}
+          />
+        </Alert>
+      )}
+
+      <form onSubmit={handleCreate}>
+        <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'flex-start', mb: 3 }}>
+          <TextField
+            label="Label"
+            size="small"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="e.g. Building owner"
+            inputProps={{ maxLength: 255 }}
+            sx={{ flex: '1 1 200px' }}
+          />
+          <TextField
+            label="Password (optional)"
+            type="password"
+            size="small"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            error={password.length > 0 && password.length < 6}
+            helperText={password.length > 0 && password.length < 6 ? 'At least 6 characters' : ' '}
+            autoComplete="new-password"
+            sx={{ flex: '1 1 180px' }}
+          />
+          <TextField
+            label="Expires on"
+            type="date"
+            size="small"
+            value={expiresOn}
+            onChange={(e) => setExpiresOn(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            inputProps={{ min: new Date().toISOString().split('T')[0] }}
+            sx={{ flex: '0 1 170px' }}
+          />
+          <TextField
+            label="View limit"
+            type="number"
+            size="small"
+            value={maxViews}
+            onChange={(e) => setMaxViews(e.target.value)}
+            inputProps={{ min: 1 }}
+            sx={{ flex: '0 1 120px' }}
+          />
+          <Button
+            type="submit"
+            variant="contained"
+            startIcon={saving ? <CircularProgress size={20} color="inherit" /> : <LinkIcon />}
+            disabled={saving || (password.length > 0 && password.length < 6)}
+          >
+            Create Link
+          </Button>
+        </Box>
+      </form>
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : links.length > 0 ? (
+        <TableContainer sx={{ mb: 3 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Link</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell>Views</TableCell>
+                <TableCell>Expires</TableCell>
+                <TableCell>Last Viewed</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {links.map((link) => (
+                <TableRow key={link.id}>
+                  <TableCell>
+                    <Typography variant="body2">{link.label || `Link #${link.id}`}</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {link.has_password ? 'Password protected · ' : ''}
+                      Created {formatDateTime(link.created_at)}
+                      {link.created_by_name ? ` by ${link.created_by_name}` : ''}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Chip label={link.status} color={STATUS_COLORS[link.status]} size="small" />
+                  </TableCell>
+                  <TableCell>
+                    {link.view_count}{link.max_views !== null ? ` / ${link.max_views}` : ''}
+                  </TableCell>
+                  <TableCell>{link.expires_at ? formatDateTime(link.expires_at) : 'Never'}</TableCell>
+                  <TableCell>{formatDateTime(link.last_viewed_at)}</TableCell>
+                  <TableCell align="right">
+                    {link.status !== 'revoked' && (
+                      <Tooltip title="Revoke Link">
+                        <IconButton
+                          size="small"
+                          color="error"
+                          onClick={() => handleRevoke(link)}
+                          aria-label={`Revoke ${link.label || `link #${link.id}`}`}
+                        >
+                          <RevokeIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      ) : (
+        <Box sx={{ p: 2, textAlign: 'center' }}>
+          <Typography variant="body2" color="text.secondary">
+            No share links have been created for this report.
+          </Typography>
+        </Box>
+      )}
+
+      {accessLog.length > 0 && (
+        <>
+          <Typography variant="subtitle1" gutterBottom>
+            Access Log
+          </Typography>
+          <TableContainer sx={{ maxHeight: 320 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell>When</TableCell>
+                  <TableCell>Link</TableCell>
+                  <TableCell>Event</TableCell>
+                  <TableCell>By</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {accessLog.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell>{formatDateTime(event.created_at)}</TableCell>
+                    <TableCell>{describeLink(links, event)}</TableCell>
+                    <TableCell>
+                      {ACTION_LABELS[event.action] || event.action}
+                      {event.details.reason ? ` (${event.details.reason})` : ''}
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">
+                        {event.username || event.details.ip || 'Anonymous'}
+                      </Typography>
+                      {!event.username && event.details.userAgent && (
+                        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', maxWidth: 280 }} noWrap>
+                          {event.details.userAgent}
+                        </Typography>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default ReportShareLinks;
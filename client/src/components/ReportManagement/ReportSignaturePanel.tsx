@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Link,
+  Paper,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { Draw as SignIcon } from '@mui/icons-material';
+import reportService from '../../services/reportService';
+import { useAuthContext } from '../../contexts/AuthContext';
+import SignatureDialog from '../../pages/Energy Audit/components/Analytics/components/SignatureDialog';
+import type { DigitalSignature } from '../../types/energy-audit';
+import { ReportSignature, ReportSignatureStatus } from '../../types/reports';
+import { getErrorMessage } from '../../utils/errorMessages';
+
+interface ReportSignaturePanelProps {
+  reportId: number;
+  status: ReportSignatureStatus | null;
+  onSigned: () => void;
+}
+
+const getSignatureState = (signature: ReportSignature) => {
+  if (!signature.seal_valid) {
+    return { label: 'Record altered', color: 'error' as const };
+  }
+  if (!signature.content_matches) {
+    return { label: 'Modified after signing', color: 'warning' as const };
+  }
+  return { label: 'Valid', color: 'success' as const };
+};
+
+/**
+ * Sign-offs on the report. Signing stores a hash of the current content on the server, so later
+ * edits show up here, in exported PDFs and on the public verification page.
+ */
+const ReportSignaturePanel: React.FC<ReportSignaturePanelProps> = ({ reportId, status, onSigned }) => {
+  const { user, hasPermission } = useAuthContext();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [signing, setSigning] = useState(false);
+
+  const canSign = hasPermission('report.sign');
+  const signatures = status?.signatures || [];
+
+  const handleSign = async (signature: Partial<DigitalSignature>) => {
+    if (!status) return;
+    setSigning(true);
+    try {
+      // The server refuses the signature if the report changed after this status was loaded
+      await reportService.signReport(reportId, {
+        content_hash: status.content_hash,
+        signature_image: signature.signatureData || undefined,
+        comments: signature.comments || undefined
+      });
+      setError(null);
+      onSigned();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to sign report'));
+    } finally {
+      setSigning(false);
+    }
+  };
+
+  if (signatures.length === 0 && !canSign) {
+    return null;
+  }
+
+  return (
+    <Paper sx={{ p: 2, mb: 3, '@media print': { display: 'none' } }} variant="outlined">
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1 }}>
+        <Box>
+          <Typography variant="subtitle1">Signatures</Typography>
+          <Typography variant="body2" color="text.secondary">
+            {signatures.length > 0
+              ? `Signed ${signatures.length} time${signatures.length === 1 ? '' : 's'}`
+              : 'Not signed yet'}
+          </Typography>
+        </Box>
+        {canSign && (
+          <Button
+            size="small"
+            variant="contained"
+            startIcon={<SignIcon />}
+            onClick={() => setDialogOpen(true)}
+            disabled={signing || !status}
+          >
+            Approve &amp; Sign
+          </Button>
+        )}
+      </Box>
+
+      {status?.modified_after_signing && (
+        <Alert severity="warning" sx={{ mt: 2 }}>
+          This report was modified after it was last signed. It needs to be signed again.
+        </Alert>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mt: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {signatures.map((signature) => {
+        const state = getSignatureState(signature);
+        return (
+          <Box
+            key={signature.id}
+            sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 2, pt: 2, borderTop: 1, borderColor: 'divider' }}
+          >
+            {signature.signature_image && (
+              <Box
+                component="img"
+                src={signature.signature_image}
+                alt={`Signature of ${signature.signer_name}`}
+                sx={{ height: 40, maxWidth: 120, objectFit: 'contain' }}
+              />
+            )}
+            <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+              <Typography variant="body2">
+                {signature.signer_name} ({signature.signer_role})
+              </Typography>
+              <Typography variant="caption" color="text.secondary" component="div">
+                {new Date(signature.signed_at).toLocaleString()}
+                {signature.report_version ? ` · version ${signature.report_version}` : ''}
+                {' · '}
+                <Tooltip title={signature.content_hash}>
+                  <span>SHA-256 {signature.content_hash.slice(0, 12)}…</span>
+                </Tooltip>
+                {' · '}
+                <Link href={signature.verification_url} target="_blank" rel="noopener noreferrer">
+                  Verify
+                </Link>
+              </Typography>
+              {signature.comments && (
+                <Typography variant="caption" component="div" sx={{ fontStyle: 'italic' }}>
+                  {signature.comments}
+                </Typography>
+              )}
+            </Box>
+            <Chip label={state.label} color={state.color} size="small" />
+          </Box>
+        );
+      })}
+
+      <SignatureDialog
+        open={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        onSave={handleSign}
+        userName={user?.username || ''}
+        userRole={user?.role || ''}
+      />
+    </Paper>
+  );
+};
+
+export default ReportSignaturePanel;
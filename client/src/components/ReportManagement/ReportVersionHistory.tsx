@@ -0,0 +1,367 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Grid,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+  alpha,
+  useTheme
+} from '@mui/material';
+import { Restore as RestoreIcon } from '@mui/icons-material';
+import reportService from '../../services/reportService';
+import { Report, ReportContent, ReportVersion, ReportVersionDetail } from '../../types/reports';
+import { ContentBlockDiff, DiffStatus, diffReports } from '../../utils/reportDiff';
+import { getErrorMessage } from '../../utils/errorMessages';
+
+interface ReportVersionHistoryProps {
+  open: boolean;
+  reportId: number;
+  onClose: () => void;
+  onRestored: (report: Report) => void;
+}
+
+const stripHtml = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Lists the saved versions of a report and compares two of them side by side, highlighting
+ * added, removed and changed content blocks and table cells. Any older version can be restored.
+ */
+const ReportVersionHistory: React.FC<ReportVersionHistoryProps> = ({ open, reportId, onClose, onRestored }) => {
+  const theme = useTheme();
+  const [versions, setVersions] = useState<ReportVersion[]>([]);
+  const [details, setDetails] = useState<Record<number, ReportVersionDetail>>({});
+  const [fromVersion, setFromVersion] = useState<number | ''>('');
+  const [toVersion, setToVersion] = useState<number | ''>('');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const statusColor = (status: DiffStatus) => ({
+    added: theme.palette.success.main,
+    removed: theme.palette.error.main,
+    changed: theme.palette.warning.main,
+    unchanged: theme.palette.divider
+  })[status];
+
+  const loadVersions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await reportService.getReportVersions(reportId);
+      setVersions(result);
+      setToVersion(result[0]?.version ?? '');
+      setFromVersion(result[1]?.version ?? result[0]?.version ?? '');
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load version history'));
+    } finally {
+      setLoading(false);
+    }
+  }, [reportId]);
+
+  useEffect(() => {
+    if (open) {
+      loadVersions();
+    }
+  }, [open, loadVersions]);
+
+  // Snapshots are immutable, so each one is fetched once
+  useEffect(() => {
+    const missing = [fromVersion, toVersion].filter(
+      (version): version is number => version !== '' && !details[version]
+    );
+    if (missing.length === 0) return;
+
+    Promise.all(missing.map(version => reportService.getReportVersion(reportId, version)))
+      .then(loaded => setDetails(current => ({
+        ...current,
+        ...Object.fromEntries(loaded.map(detail => [detail.version, detail]))
+      })))
+      .catch(err => setError(getErrorMessage(err, 'Failed to load report version')));
+  }, [reportId, fromVersion, toVersion, details]);
+
+  const diff = useMemo(() => {
+    const from = fromVersion !== '' ? details[fromVersion] : undefined;
+    const to = toVersion !== '' ? details[toVersion] : undefined;
+    return from && to ? diffReports(from.snapshot, to.snapshot) : null;
+  }, [details, fromVersion, toVersion]);
+
+  const handleSelectVersion = (index: number) => {
+    setToVersion(versions[index].version);
+    setFromVersion(versions[index + 1]?.version ?? versions[index].version);
+  };
+
+  const handleRestore = async (version: number) => {
+    if (!window.confirm(`Restore version ${version}? It will be saved as a new version; later versions stay in the history.`)) {
+      return;
+    }
+    setRestoring(version);
+    try {
+      const report = await reportService.restoreReportVersion(reportId, version);
+      onRestored(report);
+      await loadVersions();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to restore version'));
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const renderTable = (block: ReportContent, cells?: DiffStatus[][]) => {
+    const headers: unknown[] = block.content?.headers || [];
+    const rows: unknown[][] = block.content?.rows || [];
+    const cellSx = (row: number, column: number) => {
+      const status = cells?.[row]?.[column];
+      return status && status !== 'unchanged' ? { bgcolor: alpha(statusColor(status), 0.3) } : {};
+    };
+
+    return (
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            {headers.map((header, column) => (
+              <TableCell key={column} sx={{ fontWeight: 'bold', ...cellSx(0, column) }}>{String(header ?? '')}</TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map((row, rowIndex) => (
+            <TableRow key={rowIndex}>
+              {row.map((cell, column) => (
+                <TableCell key={column} sx={cellSx(rowIndex + 1, column)}>{String(cell ?? '')}</TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  const renderBlock = (block: ReportContent, cells?: DiffStatus[][]) => {
+    const content = block.content || {};
+    switch (block.content_type) {
+      case 'section_header':
+        return <Typography variant="subtitle1" fontWeight="bold">{`H${content.level || 1} · ${content.title || ''}`}</Typography>;
+      case 'text':
+        return <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>{stripHtml(String(content.text || ''))}</Typography>;
+      case 'table':
+        return (
+          <>
+            {content.caption && <Typography variant="caption" fontWeight="bold">{content.caption}</Typography>}
+            {renderTable(block, cells)}
+          </>
+        );
+      case 'chart':
+        return <Typography variant="body2">{`Chart (${content.chartType || 'unknown'})${content.caption ? `: ${content.caption}` : ''}`}</Typography>;
+      case 'image':
+        return (
+          <Box>
+            {content.url && <Box component="img" src={content.url} alt={content.altText || ''} sx={{ maxHeight: 80, maxWidth: '100%' }} />}
+            <Typography variant="caption" display="block">{content.caption || content.url}</Typography>
+          </Box>
+        );
+      case 'toc':
+        return <Typography variant="body2" fontStyle="italic">{content.title || 'Table of Contents'}</Typography>;
+      case 'page_break':
+        return <Typography variant="body2" fontStyle="italic">Page break</Typography>;
+      default:
+        return <Typography variant="body2" fontStyle="italic">{block.content_type}</Typography>;
+    }
+  };
+
+  const renderSide = (blockDiff: ContentBlockDiff, side: 'before' | 'after') => {
+    const block = blockDiff[side];
+    if (!block) {
+      return <Box sx={{ height: '100%', minHeight: 32, border: `1px dashed ${theme.palette.divider}`, borderRadius: 1 }} />;
+    }
+    return (
+      <Box
+        sx={{
+          p: 1,
+          height: '100%',
+          borderLeft: `4px solid ${statusColor(blockDiff.status)}`,
+          borderRadius: 1,
+          bgcolor: blockDiff.status === 'unchanged' ? 'transparent' : alpha(statusColor(blockDiff.status), 0.08),
+          overflowX: 'auto'
+        }}
+      >
+        {renderBlock(block, blockDiff.cells?.[side])}
+      </Box>
+    );
+  };
+
+  const visibleBlocks = diff ? diff.blocks.filter(block => showUnchanged || block.status !== 'unchanged') : [];
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xl" fullWidth>
+      <DialogTitle>Version History</DialogTitle>
+      <DialogContent dividers>
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+        {loading && versions.length === 0 ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : versions.length === 0 ? (
+          <Typography color="text.secondary">No versions have been saved for this report yet.</Typography>
+        ) : (
+          <Grid container spacing={2}>
+            <Grid item xs={12} md={3}>
+              <List dense disablePadding>
+                {versions.map((version, index) => (
+                  <ListItemButton
+                    key={version.id}
+                    selected={version.version === toVersion}
+                    onClick={() => handleSelectVersion(index)}
+                  >
+                    <ListItemText
+                      primary={
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          {`Version ${version.version}`}
+                          <Chip size="small" label={version.status} color={version.status === 'published' ? 'success' : 'default'} />
+                        </Box>
+                      }
+                      secondary={[
+                        `${new Date(version.created_at).toLocaleString()}${version.created_by_name ? ` · ${version.created_by_name}` : ''}`,
+                        version.change_note
+                      ].filter(Boolean).join(' — ')}
+                    />
+                    {index > 0 && (
+                      <Tooltip title="Restore this version">
+                        <span>
+                          <IconButton
+                            edge="end"
+                            size="small"
+                            aria-label={`Restore version ${version.version}`}
+                            disabled={restoring !== null}
+                            onClick={(event) => {
+                              event.stopPropagation();
+                              handleRestore(version.version);
+                            }}
+                          >
+                            {restoring === version.version ? <CircularProgress size={18} /> : <RestoreIcon fontSize="small" />}
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    )}
+                  </ListItemButton>
+                ))}
+              </List>
+            </Grid>
+
+            <Grid item xs={12} md={9}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap', mb: 2 }}>
+                <TextField
+                  select
+                  size="small"
+                  label="Compare"
+                  value={fromVersion}
+                  onChange={(e) => setFromVersion(Number(e.target.value))}
+                  sx={{ minWidth: 140 }}
+                >
+                  {versions.map(version => (
+                    <MenuItem key={version.id} value={version.version}>{`Version ${version.version}`}</MenuItem>
+                  ))}
+                </TextField>
+                <TextField
+                  select
+                  size="small"
+                  label="With"
+                  value={toVersion}
+                  onChange={(e) => setToVersion(Number(e.target.value))}
+                  sx={{ minWidth: 140 }}
+                >
+                  {versions.map(version => (
+                    <MenuItem key={version.id} value={version.version}>{`Version ${version.version}`}</MenuItem>
+                  ))}
+                </TextField>
+                <FormControlLabel
+                  control={<Switch checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />}
+                  label="Show unchanged"
+                />
+                {diff && (
+                  <Box sx={{ display: 'flex', gap: 1 }}>
+                    <Chip size="small" label={`${diff.summary.added} added`} sx={{ bgcolor: alpha(statusColor('added'), 0.15) }} />
+                    <Chip size="small" label={`${diff.summary.removed} removed`} sx={{ bgcolor: alpha(statusColor('removed'), 0.15) }} />
+                    <Chip size="small" label={`${diff.summary.changed} changed`} sx={{ bgcolor: alpha(statusColor('changed'), 0.15) }} />
+                  </Box>
+                )}
+              </Box>
+
+              {!diff ? (
+                <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+                  <CircularProgress size={28} />
+                </Box>
+              ) : (
+                <>
+                  {diff.fields.length > 0 && (
+                    <Table size="small" sx={{ mb: 2 }}>
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>Field</TableCell>
+                          <TableCell>{`Version ${fromVersion}`}</TableCell>
+                          <TableCell>{`Version ${toVersion}`}</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {diff.fields.map(field => (
+                          <TableRow key={field.field}>
+                            <TableCell>{field.label}</TableCell>
+                            <TableCell sx={{ bgcolor: alpha(statusColor('removed'), 0.08) }}>{field.before || '—'}</TableCell>
+                            <TableCell sx={{ bgcolor: alpha(statusColor('added'), 0.08) }}>{field.after || '—'}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+
+                  {visibleBlocks.length === 0 ? (
+                    <Typography color="text.secondary">
+                      {diff.blocks.length === 0 ? 'Neither version has content.' : 'The content of these versions is the same.'}
+                    </Typography>
+                  ) : (
+                    <Grid container spacing={1}>
+                      <Grid item xs={6}><Typography variant="subtitle2">{`Version ${fromVersion}`}</Typography></Grid>
+                      <Grid item xs={6}><Typography variant="subtitle2">{`Version ${toVersion}`}</Typography></Grid>
+                      {visibleBlocks.map((blockDiff, index) => (
+                        <React.Fragment key={index}>
+                          <Grid item xs={6}>{renderSide(blockDiff, 'before')}</Grid>
+                          <Grid item xs={6}>{renderSide(blockDiff, 'after')}</Grid>
+                        </React.Fragment>
+                      ))}
+                    </Grid>
+                  )}
+                </>
+              )}
+            </Grid>
+          </Grid>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ReportVersionHistory;
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  AlertTitle,
+  Box,
+  CircularProgress,
+  Paper,
+  Typography
+} from '@mui/material';
+import { useParams } from 'react-router-dom';
+import reportService from '../../services/reportService';
+import { SignatureVerification as SignatureCheck } from '../../types/reports';
+import { getErrorMessage } from '../../utils/errorMessages';
+
+const getResult = (check: SignatureCheck) => {
+  if (!check.seal_valid) {
+    return {
+      severity: 'error' as const,
+      title: 'Signature record altered',
+      message: 'This signature record was changed after it was written and cannot be trusted.'
+    };
+  }
+  if (!check.content_matches) {
+    return {
+      severity: 'warning' as const,
+      title: 'Modified after signing',
+      message: 'The signature is genuine, but the report has been changed since it was signed.'
+    };
+  }
+  return {
+    severity: 'success' as const,
+    title: 'Valid signature',
+    message: 'The report has not been changed since it was signed.'
+  };
+};
+
+/**
+ * Public page opened from the QR code on an exported report; shows who signed it and whether
+ * the report still matches what was signed
+ */
+const SignatureVerification: React.FC = () => {
+  const { code } = useParams<{ code: string }>();
+  const [check, setCheck] = useState<SignatureCheck | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!code) return;
+    const verify = async () => {
+      try {
+        setCheck(await reportService.verifySignature(code));
+      } catch (err) {
+        setError(getErrorMessage(err, 'This signature could not be verified.'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    verify();
+  }, [code]);
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 5 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const result = check ? getResult(check) : null;
+
+  return (
+    <Box sx={{ maxWidth: 560, mx: 'auto', mt: 8, px: 2 }}>
+      <Typography variant="h5" component="h1" gutterBottom>
+        Report Signature Verification
+      </Typography>
+
+      {error && <Alert severity="warning">{error}</Alert>}
+
+      {check && result && (
+        <Paper sx={{ p: 3, borderRadius: 2 }}>
+          <Alert severity={result.severity} sx={{ mb: 2 }}>
+            <AlertTitle>{result.title}</AlertTitle>
+            {result.message}
+          </Alert>
+          {check.report_title && (
+            <Typography variant="subtitle1" gutterBottom>
+              {check.report_title}
+            </Typography>
+          )}
+          <Typography variant="body2">
+            Signed by {check.signer_name} ({check.signer_role})
+          </Typography>
+          <Typography variant="body2">
+            on {new Date(check.signed_at).toLocaleString()}
+            {check.report_version ? `, version ${check.report_version}` : ''}
+          </Typography>
+          <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 2, wordBreak: 'break-all' }}>
+            SHA-256 of the signed content: {check.content_hash}
+          </Typography>
+        </Paper>
+      )}
+    </Box>
+  );
+};
+
+export default SignatureVerification;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import PublicReportView from '../PublicReportView';
+import reportService from '../../../services/reportService';
+
+// Mock the services
+jest.mock('../../../services/reportService', () => ({
+  __esModule: true,
+  default: {
+    getSharedReportInfo: jest.fn(),
+    viewSharedReport: jest.fn(),
+  },
+}));
+
+// The document itself is covered by ReportView
+jest.mock('../ReportDocument', () => ({
+  __esModule: true,
+  default: ({ report }: { report: { title: string } }) => <div>Document: {report.title}</div>,
+}));
+
+const mockSharedReport = {
+  title: 'Test Report',
+  description: 'Test description',
+  type: 'energy_audit',
+  status: 'published',
+  version: 2,
+  created_at: '2023-01-01T00:00:00Z',
+  updated_at: '2023-01-02T00:00:00Z',
+  contents: [],
+  metadata: {},
+};
+
+const renderAtToken = () =>
+  render(
+    <MemoryRouter initialEntries={['/shared/reports/abc123']}>
+      <Routes>
+        <Route path="/shared/reports/:token" element={<PublicReportView />} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+const apiError = (status: number, code: string, message: string) =>
+  Object.assign(new Error(message), { response: { status, data: { success: false, code, message } } });
+
+describe('PublicReportView Component', () => {
+  beforeEach(() => {
+    (reportService.getSharedReportInfo as jest.Mock).mockResolvedValue({
+      title: null,
+      requires_password: true,
+      expires_at: null,
+      views_remaining: null,
+    });
+    (reportService.viewSharedReport as jest.Mock).mockResolvedValue(mockSharedReport);
+  });
+
+  test('opens links without a password straight away', async () => {
+    (reportService.getSharedReportInfo as jest.Mock).mockResolvedValue({
+      title: 'Test Report',
+      requires_password: false,
+      expires_at: null,
+      views_remaining: 3,
+    });
+
+    renderAtToken();
+
+    expect(await screen.findByText('Document: Test Report')).toBeInTheDocument();
+    expect(reportService.viewSharedReport).toHaveBeenCalledTimes(1);
+    expect(reportService.viewSharedReport).toHaveBeenCalledWith('abc123', undefined);
+  });
+
+  test('asks for the password and shows the report once it is accepted', async () => {
+    (reportService.viewSharedReport as jest.Mock)
+      .mockRejectedValueOnce(apiError(401, 'INVALID_PASSWORD', 'Incorrect password.'))
+      .mockResolvedValueOnce(mockSharedReport);
+
+    renderAtToken();
+
+    const passwordInput = await screen.findByLabelText('Password');
+    expect(reportService.viewSharedReport).not.toHaveBeenCalled();
+
+    fireEvent.change(passwordInput, { target: { value: 'wrong-one' } });
+    fireEvent.click(screen.getByText('Open Report'));
+    expect(await screen.findByText('Incorrect password.')).toBeInTheDocument();
+
+    fireEvent.change(passwordInput, { target: { value: 'secret1' } });
+    fireEvent.click(screen.getByText('Open Report'));
+
+    expect(await screen.findByText('Document: Test Report')).toBeInTheDocument();
+    expect(reportService.viewSharedReport).toHaveBeenLastCalledWith('abc123', 'secret1');
+  });
+
+  test('explains when a link can no longer be used', async () => {
+    (reportService.getSharedReportInfo as jest.Mock).mockRejectedValue(
+      apiError(410, 'LINK_EXPIRED', 'This link has expired.')
+    );
+
+    renderAtToken();
+
+    expect(await screen.findByText('This link has expired.')).toBeInTheDocument();
+    await waitFor(() => {
+      expect(screen.queryByLabelText('Password')).not.toBeInTheDocument();
+    });
+  });
+});
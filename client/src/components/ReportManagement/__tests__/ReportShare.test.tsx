@@ -10,11 +10,17 @@ jest.mock('../../../services/reportService', () => ({
   getReportById: jest.fn(),
   shareReport: jest.fn(),
   revokeReportAccess: jest.fn(),
-  generatePublicLink: jest.fn(),
-  revokePublicLink: jest.fn(),
+  getShareLinks: jest.fn(),
+  createShareLink: jest.fn(),
+  revokeShareLink: jest.fn(),
   updateReport: jest.fn(),
 }));
 
+// Share links are only shown to users allowed to share reports publicly
+jest.mock('../../../contexts/AuthContext', () => ({
+  useAuthContext: () => ({ hasPermission: () => true }),
+}));
+
 jest.mock('../../../services/userService', () => ({
   getAllUsers: jest.fn(),
 }));
@@ -62,8 +68,12 @@ describe('ReportShare Component', () => {
     (reportService.getReportById as jest.Mock).mockResolvedValue(mockReport);
     (reportService.shareReport as jest.Mock).mockResolvedValue(true);
     (reportService.revokeReportAccess as jest.Mock).mockResolvedValue(true);
-    (reportService.generatePublicLink as jest.Mock).mockResolvedValue('https://example.com/reports/public/abc123');
-    (reportService.revokePublicLink as jest.Mock).mockResolvedValue(true);
+    (reportService.getShareLinks as jest.Mock).mockResolvedValue({ links: [], access_log: [] });
+    (reportService.createShareLink as jest.Mock).mockResolvedValue({
+      link: { id: 5, report_id: 1, status: 'active', has_password: false },
+      token: 'abc123'
+    });
+    (reportService.revokeShareLink as jest.Mock).mockResolvedValue(true);
     (reportService.updateReport as jest.Mock).mockResolvedValue({...mockReport, is_public: true});
     (userService.getAllUsers as jest.Mock).mockResolvedValue(mockUsers);
   });
@@ -275,7 +285,7 @@ describe('ReportShare Component', () => {
     expect(screen.getByText('Access revoked successfully')).toBeInTheDocument();
   });
 
-  test('generates public link for the report', async () => {
+  test('creates a share link for the report', async () => {
     renderWithRouter(<ReportShare />);
     
     // Wait for data to load
@@ -283,17 +293,17 @@ describe('ReportShare Component', () => {
       expect(screen.queryByRole('progressbar')).not.toBeInTheDocument();
     });
     
-    // Find and click the generate public link button
-    const publicLinkButton = screen.getByText('Generate Public Link');
-    fireEvent.click(publicLinkButton);
+    // Fill in a label and create the link
+    fireEvent.change(screen.getByLabelText('Label'), { target: { value: 'Building owner' } });
+    fireEvent.click(screen.getByText('Create Link'));
     
-    // Check if generatePublicLink was called with correct args
+    // Check if createShareLink was called with correct args
     await waitFor(() => {
-      expect(reportService.generatePublicLink).toHaveBeenCalledWith(1);
+      expect(reportService.createShareLink).toHaveBeenCalledWith(1, expect.objectContaining({ label: 'Building owner' }));
     });
     
-    // Check if the public link is displayed
-    expect(screen.getByText('https://example.com/reports/public/abc123')).toBeInTheDocument();
+    // Check if the link is displayed once
+    expect(await screen.findByDisplayValue(`${window.location.origin}/shared/reports/abc123`)).toBeInTheDocument();
   });
 
   test('makes report public', async () => {
@@ -325,14 +335,6 @@ describe('ReportShare Component', () => {
       }
     });
 
-    // Update mock report to include public link
-    const reportWithPublicLink = {
-      ...mockReport,
-      public_link: 'https://example.com/reports/public/abc123'
-    };
-    
-    (reportService.getReportById as jest.Mock).mockResolvedValue(reportWithPublicLink);
-    
     renderWithRouter(<ReportShare />);
     
     // Wait for data to load
@@ -340,13 +342,14 @@ describe('ReportShare Component', () => {
       expect(screen.queryByRole('progressbar')).not.toBeInTheDocument();
     });
     
-    // Find and click the copy link button
-    const copyButton = screen.getByLabelText('Copy Link');
+    // Create a link, then click the copy button
+    fireEvent.click(screen.getByText('Create Link'));
+    const copyButton = await screen.findByLabelText('Copy share link');
     fireEvent.click(copyButton);
     
     // Check if clipboard API was called with correct args
     await waitFor(() => {
-      expect(navigator.clipboard.writeText).toHaveBeenCalledWith('https://example.com/reports/public/abc123');
+      expect(navigator.clipboard.writeText).toHaveBeenCalledWith(`${window.location.origin}/shared/reports/abc123`);
     });
     
     // Check success message
@@ -0,0 +1,71 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import SignatureVerification from '../SignatureVerification';
+import reportService from '../../../services/reportService';
+
+// Mock the services
+jest.mock('../../../services/reportService', () => ({
+  __esModule: true,
+  default: {
+    verifySignature: jest.fn(),
+  },
+}));
+
+const mockCheck = {
+  valid: true,
+  seal_valid: true,
+  content_matches: true,
+  report_title: 'Test Report',
+  report_version: 3,
+  content_hash: 'a'.repeat(64),
+  signer_name: 'jane',
+  signer_role: 'MANAGER',
+  signed_at: '2023-01-02T00:00:00Z',
+};
+
+const renderAtCode = () =>
+  render(
+    <MemoryRouter initialEntries={[`/verify/signatures/${'b'.repeat(32)}`]}>
+      <Routes>
+        <Route path="/verify/signatures/:code" element={<SignatureVerification />} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('SignatureVerification Component', () => {
+  test('confirms a signature that still matches the report', async () => {
+    (reportService.verifySignature as jest.Mock).mockResolvedValue(mockCheck);
+
+    renderAtCode();
+
+    expect(await screen.findByText('Valid signature')).toBeInTheDocument();
+    expect(screen.getByText('Signed by jane (MANAGER)')).toBeInTheDocument();
+    expect(reportService.verifySignature).toHaveBeenCalledWith('b'.repeat(32));
+  });
+
+  test('warns when the report was modified after signing', async () => {
+    (reportService.verifySignature as jest.Mock).mockResolvedValue({
+      ...mockCheck,
+      valid: false,
+      content_matches: false,
+    });
+
+    renderAtCode();
+
+    expect(await screen.findByText('Modified after signing')).toBeInTheDocument();
+  });
+
+  test('rejects an altered signature record', async () => {
+    (reportService.verifySignature as jest.Mock).mockResolvedValue({
+      ...mockCheck,
+      valid: false,
+      seal_valid: false,
+    });
+
+    renderAtCode();
+
+    expect(await screen.findByText('Signature record altered')).toBeInTheDocument();
+  });
+});
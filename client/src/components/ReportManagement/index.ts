@@ -6,5 +6,7 @@ export { default as ReportList } from './ReportList';
 export { default as ReportView } from './ReportView';
 export { default as ReportEditor } from './ReportEditor';
 export { default as ReportShare } from './ReportShare';
+export { default as PublicReportView } from './PublicReportView';
+export { default as SignatureVerification } from './SignatureVerification';
 export { default as ReportTemplates } from './ReportTemplates';
 export { MOCK_TEMPLATES } from './ReportTemplates'; 
\ No newline at end of file
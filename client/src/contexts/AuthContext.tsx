@@ -1,8 +1,13 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useState, useEffect, ReactNode } from 'react';
 import { useNavigate } from 'react-router-dom';
 import * as authService from '../services/authService';
 import * as userService from '../services/userService';
+import { Permission } from '../services/roleService';
 import { UserRole, NotificationPreferences, NotificationType } from '../types';
+import {
+  syncCalculationsWithServer,
+  stopCalculationSync
+} from '../pages/Energy Audit/components/Calculators/utils/calculationSync';
 
 // Define user interface
 export interface User {
@@ -20,6 +25,9 @@ export interface User {
   createdAt: Date;
   updatedAt: Date;
   notificationPreferences?: NotificationPreferences;
+  // Custom role replacing the built-in role's permissions
+  roleId?: number | null;
+  permissions?: string[];
 }
 
 // Define auth context type
@@ -28,9 +36,21 @@ interface AuthContextType {
   user: User | null; // Alias for currentUser for compatibility
   isAuthenticated: boolean;
   hasRole: (role: UserRole) => boolean;
+  // What the user's role allows, as enforced by the server
+  permissions: Permission[];
+  // True until the signed-in user's permissions have been fetched
+  permissionsLoading: boolean;
+  hasPermission: (permission: Permission) => boolean;
+  refreshPermissions: () => Promise<void>;
   loading: boolean;
   error: string | null;
   login: (username: string, password: string) => Promise<boolean>;
+  // Set while a login waits for its second factor
+  twoFactorChallenge: string | null;
+  verifyTwoFactor: (code: string, isRecoveryCode?: boolean) => Promise<boolean>;
+  cancelTwoFactor: () => void;
+  // The user's role requires two-factor authentication and they have not set it up
+  twoFactorSetupRequired: boolean;
   logout: () => Promise<void>;
   register: (userData: Partial<User>, password: string) => Promise<boolean>;
   updateUser: (userData: Partial<User>) => Promise<boolean>;
@@ -44,9 +64,17 @@ const AuthContext = createContext<AuthContextType>({
   user: null,
   isAuthenticated: false,
   hasRole: () => false,
+  permissions: [],
+  permissionsLoading: false,
+  hasPermission: () => false,
+  refreshPermissions: async () => {},
   loading: false,
   error: null,
   login: async () => false,
+  twoFactorChallenge: null,
+  verifyTwoFactor: async () => false,
+  cancelTwoFactor: () => {},
+  twoFactorSetupRequired: false,
   logout: async () => {},
   register: async () => false,
   updateUser: async () => false,
@@ -66,6 +94,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<string | null>(null);
+  const [twoFactorSetupRequired, setTwoFactorSetupRequired] = useState(false);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [permissionsLoaded, setPermissionsLoaded] = useState(false);
   const navigate = useNavigate();
 
   // Check if user has a specific role
@@ -73,6 +105,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     return currentUser?.role === role;
   };
 
+  const hasPermission = (permission: Permission): boolean => permissions.includes(permission);
+
+  const refreshPermissions = useCallback(async () => {
+    try {
+      setPermissions(await authService.getPermissions());
+    } catch (err) {
+      console.error('Error loading permissions:', err);
+    } finally {
+      setPermissionsLoaded(true);
+    }
+  }, []);
+
   // Check authentication status on mount
   useEffect(() => {
     const initAuth = async () => {
@@ -112,6 +156,28 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     initAuth();
   }, []);
 
+  // The cached user may predate a role change, so permissions are always fetched again
+  const currentUserId = currentUser?.id;
+  useEffect(() => {
+    if (!currentUserId) {
+      setPermissions([]);
+      return;
+    }
+    refreshPermissions();
+  }, [currentUserId, refreshPermissions]);
+
+  // Mirror saved calculations to the server while a user is signed in
+  useEffect(() => {
+    if (!currentUserId) {
+      stopCalculationSync();
+      return;
+    }
+
+    syncCalculationsWithServer(String(currentUserId)).catch(err => {
+      console.warn('Saved calculations will sync when the server is reachable:', err);
+    });
+  }, [currentUserId]);
+
   // Login function
   const login = async (username: string, password: string): Promise<boolean> => {
     setLoading(true);
@@ -120,7 +186,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     try {
       console.log('Logging in with username:', username);
       const response = await authService.login(username, password);
+      if ('twoFactorRequired' in response) {
+        setTwoFactorChallenge(response.challengeToken);
+        return false;
+      }
       setCurrentUser(response.user);
+      setPermissions((response.user.permissions ?? []) as Permission[]);
+      setPermissionsLoaded(true);
+      setTwoFactorSetupRequired(!!response.twoFactorSetupRequired);
       return true;
     } catch (err: any) {
       console.error('Login error:', err);
@@ -131,6 +204,37 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Second login step
+  const verifyTwoFactor = async (code: string, isRecoveryCode: boolean = false): Promise<boolean> => {
+    if (!twoFactorChallenge) return false;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await authService.verifyTwoFactorLogin(
+        twoFactorChallenge,
+        isRecoveryCode ? { recoveryCode: code } : { code }
+      );
+      setTwoFactorChallenge(null);
+      setCurrentUser(response.user);
+      setPermissions((response.user.permissions ?? []) as Permission[]);
+      setPermissionsLoaded(true);
+      setTwoFactorSetupRequired(false);
+      return true;
+    } catch (err: any) {
+      console.error('Two-factor verification error:', err);
+      setError(err.message || 'Verification failed. Please try again.');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const cancelTwoFactor = () => {
+    setTwoFactorChallenge(null);
+    setError(null);
+  };
+
   // Logout function
   const logout = async (): Promise<void> => {
     setLoading(true);
@@ -138,6 +242,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     try {
       await authService.logout();
       setCurrentUser(null);
+      setTwoFactorSetupRequired(false);
       navigate('/login');
     } catch (err) {
       console.error('Logout error:', err);
@@ -223,7 +328,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   // Check authentication function
   const checkAuth = async (): Promise<boolean> => {
-    if (authService.isTokenExpired()) {
+    if (authService.isTokenExpired() && !(await authService.refreshAccessToken())) {
       setCurrentUser(null);
       return false;
     }
@@ -237,9 +342,17 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     user: currentUser, // Add alias for currentUser
     isAuthenticated: !!currentUser,
     hasRole,
+    permissions,
+    permissionsLoading: !!currentUser && !permissionsLoaded,
+    hasPermission,
+    refreshPermissions,
     loading,
     error,
     login,
+    twoFactorChallenge,
+    verifyTwoFactor,
+    cancelTwoFactor,
+    twoFactorSetupRequired,
     logout,
     register,
     updateUser,
@@ -0,0 +1,40 @@
+import { useMemo } from 'react';
+import { useAuthContext } from '../contexts/AuthContext';
+import { Permission } from '../services/roleService';
+import { RoleBasedAccess } from '../types/energy-audit';
+
+interface UsePermissions {
+  permissions: Permission[];
+  hasPermission: (permission: Permission) => boolean;
+  hasAnyPermission: (...permissions: Permission[]) => boolean;
+  // The energy audit UI's access flags, derived from the same permissions the server checks
+  access: RoleBasedAccess['permissions'];
+}
+
+/**
+ * Custom hook to check the signed-in user's permissions, so actions the server would refuse are hidden
+ * @returns The permission list, checks against it and the energy audit access flags
+ */
+function usePermissions(): UsePermissions {
+  const { permissions, hasPermission } = useAuthContext();
+
+  const access = useMemo(
+    () => ({
+      canEdit: permissions.includes('audit.edit'),
+      canDelete: permissions.includes('audit.archive'),
+      canSign: permissions.includes('report.sign'),
+      canExport: permissions.includes('report.export'),
+      canManageBenchmarks: permissions.includes('benchmarks.manage')
+    }),
+    [permissions]
+  );
+
+  return {
+    permissions,
+    hasPermission,
+    hasAnyPermission: (...required: Permission[]) => required.some(permission => permissions.includes(permission)),
+    access
+  };
+}
+
+export default usePermissions;
@@ -28,10 +28,11 @@ import {
   Assessment as ReportsIcon,
   MenuBook as StandardsIcon,
   Rule as ComplianceIcon,
+  RequestQuote as TariffIcon,
 } from '@mui/icons-material';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { useAuthContext } from '../../contexts/AuthContext';
-import { UserRole } from '../../types';
+import usePermissions from '../../hooks/usePermissions';
+import { Permission } from '../../services/roleService';
 import { useThemeMode } from '../../contexts/ThemeContext';
 import { alpha } from '@mui/material/styles';
 
@@ -48,11 +49,12 @@ const menuItems = [
   { text: 'Admin', icon: <AdminIcon />, path: '/admin' },
 ];
 
-// Admin submenu items
-const adminSubMenuItems = [
-  { text: 'Standards Management', icon: <ComplianceIcon />, path: '/admin/standards-management' },
-  { text: 'User Management', icon: <UsersIcon />, path: '/user-management' },
-  { text: 'System Settings', icon: <SettingsIcon />, path: '/settings/system' },
+// Admin submenu items, each shown to users with its permission
+const adminSubMenuItems: { text: string; icon: React.ReactNode; path: string; permission: Permission }[] = [
+  { text: 'Standards Management', icon: <ComplianceIcon />, path: '/admin/standards-management', permission: 'standards.manage' },
+  { text: 'Tariff Management', icon: <TariffIcon />, path: '/admin/tariffs', permission: 'tariffs.manage' },
+  { text: 'User Management', icon: <UsersIcon />, path: '/user-management', permission: 'users.manage' },
+  { text: 'System Settings', icon: <SettingsIcon />, path: '/settings/system', permission: 'settings.manage' },
 ];
 
 interface SidebarProps {
@@ -63,7 +65,7 @@ interface SidebarProps {
 const Sidebar: React.FC<SidebarProps> = ({ collapsed, setCollapsed }) => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { user } = useAuthContext();
+  const { hasPermission } = usePermissions();
   const theme = useTheme();
   const { mode } = useThemeMode();
   const [adminMenuOpen, setAdminMenuOpen] = useState(false);
@@ -83,7 +85,7 @@ const Sidebar: React.FC<SidebarProps> = ({ collapsed, setCollapsed }) => {
   };
 
   const isOpen = !collapsed;
-  const isAdmin = user?.role === UserRole.ADMIN;
+  const visibleAdminItems = adminSubMenuItems.filter(item => hasPermission(item.permission));
 
   // Calculate colors based on theme
   const getThemeColors = () => {
@@ -274,9 +276,9 @@ const Sidebar: React.FC<SidebarProps> = ({ collapsed, setCollapsed }) => {
         ))}
 
         {/* Admin Submenu */}
-        {isAdmin && adminMenuOpen && isOpen && (
+        {visibleAdminItems.length > 0 && adminMenuOpen && isOpen && (
           <Box pl={2}>
-            {adminSubMenuItems.map((item) => (
+            {visibleAdminItems.map((item) => (
               <Tooltip title={isOpen ? '' : item.text} placement="right" key={item.text}>
                 <ListItem
                   button
@@ -42,7 +42,11 @@ const SystemSettingsPage: React.FC = () => {
       requireLowercase: true
     },
     sessionTimeout: 30,
-    maxLoginAttempts: 5
+    maxLoginAttempts: 5,
+    twoFactorPolicy: {
+      requireForAdmins: false,
+      requireForManagers: false
+    }
   });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -106,6 +110,17 @@ const SystemSettingsPage: React.FC = () => {
     }));
   };
 
+  const handleTwoFactorPolicyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, checked } = e.target;
+    setSettings(prev => ({
+      ...prev,
+      twoFactorPolicy: {
+        ...prev.twoFactorPolicy,
+        [name]: checked
+      }
+    }));
+  };
+
   const handleRoleChange = (event: SelectChangeEvent<UserRole>) => {
     const { value } = event.target;
     setSettings(prev => ({
@@ -256,6 +271,33 @@ const SystemSettingsPage: React.FC = () => {
                   onChange={handleInputChange}
                   margin="normal"
                 />
+                <Typography variant="subtitle2" sx={{ mt: 2 }}>
+                  Require Two-Factor Authentication
+                </Typography>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={settings.twoFactorPolicy.requireForAdmins}
+                      onChange={handleTwoFactorPolicyChange}
+                      name="requireForAdmins"
+                    />
+                  }
+                  label="Administrators"
+                />
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={settings.twoFactorPolicy.requireForManagers}
+                      onChange={handleTwoFactorPolicyChange}
+                      name="requireForManagers"
+                    />
+                  }
+                  label="Managers"
+                />
+                <Typography variant="caption" color="textSecondary" sx={{ display: 'block' }}>
+                  Users in these roles must set up an authenticator app before they can manage users or change
+                  system settings
+                </Typography>
               </CardContent>
             </Card>
           </Grid>
@@ -0,0 +1,815 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  Grid,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Snackbar,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Refresh as RefreshIcon,
+  Star as StarIcon
+} from '@mui/icons-material';
+import tariffService, {
+  CustomerClass,
+  Tariff,
+  TariffCharge,
+  TariffChargeUnit,
+  TariffComponent,
+  TariffVersion,
+  TimeOfUsePeriod
+} from '../../services/tariffService';
+
+const COMPONENTS: TariffComponent[] = [
+  'generation',
+  'transmission',
+  'system_loss',
+  'distribution',
+  'supply',
+  'metering',
+  'subsidy',
+  'universal',
+  'other'
+];
+const UNITS: { value: TariffChargeUnit; label: string }[] = [
+  { value: 'kwh', label: 'PHP/kWh' },
+  { value: 'kw', label: 'PHP/kW' },
+  { value: 'month', label: 'PHP/month' }
+];
+const CUSTOMER_CLASSES: { value: CustomerClass; label: string }[] = [
+  { value: 'residential', label: 'Residential' },
+  { value: 'general_service', label: 'General Service' },
+  { value: 'industrial', label: 'Industrial' }
+];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyVersion = (): TariffVersion => ({
+  effectiveFrom: today(),
+  charges: [
+    { key: 'generation', label: 'Generation Charge', component: 'generation', unit: 'kwh', rate: 0, vatable: true, discountable: true }
+  ],
+  timeOfUsePeriods: [],
+  vatRate: 0.12,
+  lifeline: null,
+  seniorCitizen: null,
+  notes: null
+});
+
+// New versions start as a copy of the one in force, so admins only edit the rates that changed
+const copyVersion = (version: TariffVersion | null | undefined): TariffVersion => (
+  version
+    ? {
+      effectiveFrom: today(),
+      charges: version.charges.map(charge => ({ ...charge })),
+      timeOfUsePeriods: version.timeOfUsePeriods.map(period => ({ ...period, weekdays: [...period.weekdays] })),
+      vatRate: version.vatRate,
+      lifeline: version.lifeline ? { brackets: version.lifeline.brackets.map(bracket => ({ ...bracket })) } : null,
+      seniorCitizen: version.seniorCitizen ? { ...version.seniorCitizen } : null,
+      notes: null
+    }
+    : emptyVersion()
+);
+
+interface VersionEditorProps {
+  version: TariffVersion;
+  onChange: (version: TariffVersion) => void;
+}
+
+const VersionEditor: React.FC<VersionEditorProps> = ({ version, onChange }) => {
+  const updateCharge = (index: number, changes: Partial<TariffCharge>) => {
+    onChange({
+      ...version,
+      charges: version.charges.map((charge, i) => (i === index ? { ...charge, ...changes } : charge))
+    });
+  };
+
+  const updatePeriod = (index: number, changes: Partial<TimeOfUsePeriod>) => {
+    onChange({
+      ...version,
+      timeOfUsePeriods: version.timeOfUsePeriods.map((period, i) => (i === index ? { ...period, ...changes } : period))
+    });
+  };
+
+  const removePeriod = (index: number) => {
+    const removed = version.timeOfUsePeriods[index];
+    onChange({
+      ...version,
+      timeOfUsePeriods: version.timeOfUsePeriods.filter((_, i) => i !== index),
+      // Charges limited to the removed period would otherwise fail validation
+      charges: version.charges.map(charge => {
+        if (charge.period !== removed.key) return charge;
+        const { period, ...rest } = charge;
+        return rest;
+      })
+    });
+  };
+
+  const lifelineBrackets = version.lifeline?.brackets || [];
+
+  return (
+    <Box>
+      <Grid container spacing={2} sx={{ mb: 2 }}>
+        <Grid item xs={12} sm={4}>
+          <TextField
+            fullWidth
+            type="date"
+            label="Effective From"
+            value={version.effectiveFrom}
+            onChange={(e) => onChange({ ...version, effectiveFrom: e.target.value })}
+            InputLabelProps={{ shrink: true }}
+          />
+        </Grid>
+        <Grid item xs={12} sm={4}>
+          <TextField
+            fullWidth
+            type="number"
+            label="VAT (%)"
+            value={Math.round(version.vatRate * 10000) / 100}
+            onChange={(e) => onChange({ ...version, vatRate: Number(e.target.value) / 100 })}
+          />
+        </Grid>
+        <Grid item xs={12} sm={4}>
+          <TextField
+            fullWidth
+            label="Notes"
+            value={version.notes || ''}
+            onChange={(e) => onChange({ ...version, notes: e.target.value || null })}
+            placeholder="e.g. ERC order or rate advisory"
+          />
+        </Grid>
+      </Grid>
+
+      <Typography variant="subtitle1" gutterBottom>Charges</Typography>
+      <TableContainer component={Paper} variant="outlined" sx={{ mb: 1 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Key</TableCell>
+              <TableCell>Label</TableCell>
+              <TableCell>Component</TableCell>
+              <TableCell>Unit</TableCell>
+              <TableCell>Rate</TableCell>
+              <TableCell>Period</TableCell>
+              <TableCell>VAT</TableCell>
+              <TableCell>Discounts</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {version.charges.map((charge, index) => (
+              <TableRow key={index}>
+                <TableCell>
+                  <TextField size="small" value={charge.key} onChange={(e) => updateCharge(index, { key: e.target.value })} />
+                </TableCell>
+                <TableCell>
+                  <TextField size="small" value={charge.label} onChange={(e) => updateCharge(index, { label: e.target.value })} />
+                </TableCell>
+                <TableCell>
+                  <Select
+                    size="small"
+                    value={charge.component}
+                    onChange={(e) => updateCharge(index, { component: e.target.value as TariffComponent })}
+                  >
+                    {COMPONENTS.map(component => (
+                      <MenuItem key={component} value={component}>{component.replace('_', ' ')}</MenuItem>
+                    ))}
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Select
+                    size="small"
+                    value={charge.unit}
+                    onChange={(e) => updateCharge(index, { unit: e.target.value as TariffChargeUnit })}
+                  >
+                    {UNITS.map(unit => (
+                      <MenuItem key={unit.value} value={unit.value}>{unit.label}</MenuItem>
+                    ))}
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <TextField
+                    size="small"
+                    type="number"
+                    value={charge.rate}
+                    onChange={(e) => updateCharge(index, { rate: Number(e.target.value) })}
+                    inputProps={{ step: 0.0001 }}
+                    sx={{ width: 110 }}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Select
+                    size="small"
+                    value={charge.period || ''}
+                    displayEmpty
+                    disabled={charge.unit === 'month'}
+                    onChange={(e) => updateCharge(index, { period: e.target.value || undefined })}
+                  >
+                    <MenuItem value="">All hours</MenuItem>
+                    {version.timeOfUsePeriods.map(period => (
+                      <MenuItem key={period.key} value={period.key}>{period.label}</MenuItem>
+                    ))}
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Checkbox checked={charge.vatable} onChange={(e) => updateCharge(index, { vatable: e.target.checked })} />
+                </TableCell>
+                <TableCell>
+                  <Checkbox
+                    checked={charge.discountable}
+                    onChange={(e) => updateCharge(index, { discountable: e.target.checked })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <IconButton
+                    size="small"
+                    onClick={() => onChange({ ...version, charges: version.charges.filter((_, i) => i !== index) })}
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <Button
+        size="small"
+        startIcon={<AddIcon />}
+        sx={{ mb: 3 }}
+        onClick={() => onChange({
+          ...version,
+          charges: [
+            ...version.charges,
+            { key: '', label: '', component: 'other', unit: 'kwh', rate: 0, vatable: true, discountable: true }
+          ]
+        })}
+      >
+        Add Charge
+      </Button>
+
+      <Typography variant="subtitle1" gutterBottom>Time-of-Use Periods</Typography>
+      <Typography variant="body2" color="text.secondary" paragraph>
+        The first matching period applies, so list peak periods before a catch-all off-peak period.
+      </Typography>
+      {version.timeOfUsePeriods.map((period, index) => (
+        <Grid container spacing={1} alignItems="center" key={index} sx={{ mb: 1 }}>
+          <Grid item xs={6} sm={2}>
+            <TextField size="small" label="Key" value={period.key} onChange={(e) => updatePeriod(index, { key: e.target.value })} />
+          </Grid>
+          <Grid item xs={6} sm={2}>
+            <TextField size="small" label="Label" value={period.label} onChange={(e) => updatePeriod(index, { label: e.target.value })} />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            {WEEKDAYS.map((day, dayIndex) => (
+              <Chip
+                key={day}
+                label={day}
+                size="small"
+                sx={{ mr: 0.5 }}
+                color={period.weekdays.includes(dayIndex) ? 'primary' : 'default'}
+                onClick={() => updatePeriod(index, {
+                  weekdays: period.weekdays.includes(dayIndex)
+                    ? period.weekdays.filter(d => d !== dayIndex)
+                    : [...period.weekdays, dayIndex].sort()
+                })}
+              />
+            ))}
+          </Grid>
+          <Grid item xs={5} sm={1.5}>
+            <TextField
+              size="small"
+              type="number"
+              label="From (h)"
+              value={period.startHour}
+              onChange={(e) => updatePeriod(index, { startHour: Number(e.target.value) })}
+            />
+          </Grid>
+          <Grid item xs={5} sm={1.5}>
+            <TextField
+              size="small"
+              type="number"
+              label="To (h)"
+              value={period.endHour}
+              onChange={(e) => updatePeriod(index, { endHour: Number(e.target.value) })}
+            />
+          </Grid>
+          <Grid item xs={2} sm={1}>
+            <IconButton size="small" onClick={() => removePeriod(index)}>
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Grid>
+        </Grid>
+      ))}
+      <Button
+        size="small"
+        startIcon={<AddIcon />}
+        sx={{ mb: 3 }}
+        onClick={() => onChange({
+          ...version,
+          timeOfUsePeriods: [
+            ...version.timeOfUsePeriods,
+            { key: '', label: '', weekdays: [1, 2, 3, 4, 5], startHour: 0, endHour: 24 }
+          ]
+        })}
+      >
+        Add Period
+      </Button>
+
+      <Typography variant="subtitle1" gutterBottom>Discounts</Typography>
+      <FormControlLabel
+        control={
+          <Switch
+            checked={!!version.lifeline}
+            onChange={(e) => onChange({
+              ...version,
+              lifeline: e.target.checked ? { brackets: [{ maxKwh: 20, discountPercent: 100 }] } : null
+            })}
+          />
+        }
+        label="Lifeline rate brackets"
+      />
+      {lifelineBrackets.map((bracket, index) => (
+        <Grid container spacing={1} alignItems="center" key={index} sx={{ mb: 1 }}>
+          <Grid item xs={5} sm={3}>
+            <TextField
+              size="small"
+              type="number"
+              label="Up to (kWh)"
+              value={bracket.maxKwh}
+              onChange={(e) => onChange({
+                ...version,
+                lifeline: {
+                  brackets: lifelineBrackets.map((b, i) => (i === index ? { ...b, maxKwh: Number(e.target.value) } : b))
+                }
+              })}
+            />
+          </Grid>
+          <Grid item xs={5} sm={3}>
+            <TextField
+              size="small"
+              type="number"
+              label="Discount (%)"
+              value={bracket.discountPercent}
+              onChange={(e) => onChange({
+                ...version,
+                lifeline: {
+                  brackets: lifelineBrackets.map((b, i) => (i === index ? { ...b, discountPercent: Number(e.target.value) } : b))
+                }
+              })}
+            />
+          </Grid>
+          <Grid item xs={2} sm={1}>
+            <IconButton
+              size="small"
+              disabled={lifelineBrackets.length === 1}
+              onClick={() => onChange({ ...version, lifeline: { brackets: lifelineBrackets.filter((_, i) => i !== index) } })}
+            >
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Grid>
+        </Grid>
+      ))}
+      {version.lifeline && (
+        <Button
+          size="small"
+          startIcon={<AddIcon />}
+          sx={{ mb: 2, display: 'block' }}
+          onClick={() => onChange({
+            ...version,
+            lifeline: { brackets: [...lifelineBrackets, { maxKwh: 0, discountPercent: 0 }] }
+          })}
+        >
+          Add Bracket
+        </Button>
+      )}
+
+      <FormControlLabel
+        control={
+          <Switch
+            checked={!!version.seniorCitizen}
+            onChange={(e) => onChange({
+              ...version,
+              seniorCitizen: e.target.checked ? { maxKwh: 100, discountPercent: 5 } : null
+            })}
+          />
+        }
+        label="Senior citizen discount"
+      />
+      {version.seniorCitizen && (
+        <Grid container spacing={1}>
+          <Grid item xs={6} sm={3}>
+            <TextField
+              size="small"
+              type="number"
+              label="Up to (kWh)"
+              value={version.seniorCitizen.maxKwh}
+              onChange={(e) => onChange({
+                ...version,
+                seniorCitizen: { ...version.seniorCitizen!, maxKwh: Number(e.target.value) }
+              })}
+            />
+          </Grid>
+          <Grid item xs={6} sm={3}>
+            <TextField
+              size="small"
+              type="number"
+              label="Discount (%)"
+              value={version.seniorCitizen.discountPercent}
+              onChange={(e) => onChange({
+                ...version,
+                seniorCitizen: { ...version.seniorCitizen!, discountPercent: Number(e.target.value) }
+              })}
+            />
+          </Grid>
+        </Grid>
+      )}
+    </Box>
+  );
+};
+
+interface TariffForm {
+  code: string;
+  name: string;
+  utility: string;
+  customerClass: CustomerClass;
+  description: string;
+  isDefault: boolean;
+}
+
+const EMPTY_FORM: TariffForm = {
+  code: '',
+  name: '',
+  utility: '',
+  customerClass: 'residential',
+  description: '',
+  isDefault: false
+};
+
+const TariffManagement: React.FC = () => {
+  const [tariffs, setTariffs] = useState<Tariff[]>([]);
+  const [selected, setSelected] = useState<Tariff | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notification, setNotification] = useState<{ open: boolean; message: string; severity: 'success' | 'error' }>({
+    open: false,
+    message: '',
+    severity: 'success'
+  });
+
+  // Dialog state; a form means a new tariff, otherwise the version is added to the selected tariff
+  const [dialogOpen, setDialogOpen] = useState<boolean>(false);
+  const [tariffForm, setTariffForm] = useState<TariffForm | null>(null);
+  const [versionDraft, setVersionDraft] = useState<TariffVersion>(emptyVersion());
+  const [saving, setSaving] = useState<boolean>(false);
+  const [dialogError, setDialogError] = useState<string | null>(null);
+
+  const notify = (message: string, severity: 'success' | 'error' = 'success') => {
+    setNotification({ open: true, message, severity });
+  };
+
+  const loadTariffs = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setTariffs(await tariffService.getTariffs());
+    } catch (err: any) {
+      setError(err?.response?.data?.message || 'Failed to load tariffs');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadTariff = async (id: number) => {
+    try {
+      setSelected(await tariffService.getTariff(id));
+    } catch (err: any) {
+      notify(err?.response?.data?.message || 'Failed to load tariff', 'error');
+    }
+  };
+
+  useEffect(() => {
+    loadTariffs();
+  }, [loadTariffs]);
+
+  const handleUpdate = async (tariff: Tariff, changes: Partial<Pick<Tariff, 'isDefault' | 'isActive'>>) => {
+    try {
+      await tariffService.updateTariff(tariff.id, changes);
+      await loadTariffs();
+      if (selected?.id === tariff.id) await loadTariff(tariff.id);
+    } catch (err: any) {
+      notify(err?.response?.data?.message || 'Failed to update tariff', 'error');
+    }
+  };
+
+  const openNewTariff = () => {
+    setTariffForm({ ...EMPTY_FORM });
+    setVersionDraft(emptyVersion());
+    setDialogError(null);
+    setDialogOpen(true);
+  };
+
+  const openNewVersion = () => {
+    if (!selected) return;
+    setTariffForm(null);
+    setVersionDraft(copyVersion(selected.versions?.[0] || selected.currentVersion));
+    setDialogError(null);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setDialogError(null);
+    try {
+      if (tariffForm) {
+        const created = await tariffService.createTariff({
+          ...tariffForm,
+          utility: tariffForm.utility || null,
+          description: tariffForm.description || null,
+          version: versionDraft
+        });
+        notify(`Tariff ${created.code} created`);
+        await loadTariff(created.id);
+      } else if (selected) {
+        await tariffService.addVersion(selected.id, versionDraft);
+        notify(`Rates effective ${versionDraft.effectiveFrom} added`);
+        await loadTariff(selected.id);
+      }
+      setDialogOpen(false);
+      await loadTariffs();
+    } catch (err: any) {
+      setDialogError(err?.response?.data?.message || 'Failed to save tariff');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteVersion = async (version: TariffVersion) => {
+    if (!selected || !version.id) return;
+    if (!window.confirm(`Delete the rates effective ${version.effectiveFrom}?`)) return;
+    try {
+      await tariffService.deleteVersion(selected.id, version.id);
+      notify('Tariff version deleted');
+      await loadTariff(selected.id);
+      await loadTariffs();
+    } catch (err: any) {
+      notify(err?.response?.data?.message || 'Failed to delete tariff version', 'error');
+    }
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Box>
+          <Typography variant="h4" gutterBottom>
+            Tariff Management
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Utility rate schedules used by the bill, ROI, economic sizing and energy calculators.
+            Each rate change is added as a new version from its effective date.
+          </Typography>
+        </Box>
+        <Box>
+          <Button startIcon={<RefreshIcon />} onClick={loadTariffs} sx={{ mr: 1 }}>
+            Refresh
+          </Button>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={openNewTariff}>
+            New Tariff
+          </Button>
+        </Box>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      <TableContainer component={Paper} sx={{ mb: 3 }}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Code</TableCell>
+              <TableCell>Name</TableCell>
+              <TableCell>Utility</TableCell>
+              <TableCell>Class</TableCell>
+              <TableCell>Current Rates</TableCell>
+              <TableCell align="center">Default</TableCell>
+              <TableCell align="center">Active</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {loading && (
+              <TableRow>
+                <TableCell colSpan={7} align="center"><CircularProgress size={24} /></TableCell>
+              </TableRow>
+            )}
+            {!loading && tariffs.map(tariff => (
+              <TableRow
+                key={tariff.id}
+                hover
+                selected={selected?.id === tariff.id}
+                onClick={() => loadTariff(tariff.id)}
+                sx={{ cursor: 'pointer' }}
+              >
+                <TableCell>{tariff.code}</TableCell>
+                <TableCell>{tariff.name}</TableCell>
+                <TableCell>{tariff.utility || '-'}</TableCell>
+                <TableCell>{CUSTOMER_CLASSES.find(c => c.value === tariff.customerClass)?.label}</TableCell>
+                <TableCell>
+                  {tariff.currentVersion ? `Effective ${tariff.currentVersion.effectiveFrom}` : 'No rates in effect'}
+                </TableCell>
+                <TableCell align="center">
+                  <Tooltip title={tariff.isDefault ? 'Default tariff' : 'Make default'}>
+                    <span>
+                      <IconButton
+                        size="small"
+                        color={tariff.isDefault ? 'warning' : 'default'}
+                        disabled={tariff.isDefault || !tariff.isActive}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleUpdate(tariff, { isDefault: true });
+                        }}
+                      >
+                        <StarIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                </TableCell>
+                <TableCell align="center">
+                  <Switch
+                    size="small"
+                    checked={tariff.isActive}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) => handleUpdate(tariff, { isActive: e.target.checked })}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {selected && (
+        <Paper sx={{ p: 2 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+            <Typography variant="h6">{selected.name} Rate History</Typography>
+            <Button variant="outlined" startIcon={<AddIcon />} onClick={openNewVersion}>
+              New Version
+            </Button>
+          </Box>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Effective From</TableCell>
+                <TableCell>Charges</TableCell>
+                <TableCell>Time-of-Use Periods</TableCell>
+                <TableCell>VAT</TableCell>
+                <TableCell>Notes</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {(selected.versions || []).map(version => (
+                <TableRow key={version.id}>
+                  <TableCell>
+                    {version.effectiveFrom}
+                    {selected.currentVersion?.id === version.id && (
+                      <Chip label="Current" size="small" color="primary" sx={{ ml: 1 }} />
+                    )}
+                  </TableCell>
+                  <TableCell>{version.charges.length}</TableCell>
+                  <TableCell>{version.timeOfUsePeriods.map(period => period.label).join(', ') || 'None'}</TableCell>
+                  <TableCell>{Math.round(version.vatRate * 10000) / 100}%</TableCell>
+                  <TableCell>{version.notes || '-'}</TableCell>
+                  <TableCell align="right">
+                    {version.effectiveFrom > today() && (
+                      <IconButton size="small" onClick={() => handleDeleteVersion(version)}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Paper>
+      )}
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="lg" fullWidth>
+        <DialogTitle>{tariffForm ? 'New Tariff' : `New Rates for ${selected?.name}`}</DialogTitle>
+        <DialogContent dividers>
+          {dialogError && <Alert severity="error" sx={{ mb: 2 }}>{dialogError}</Alert>}
+          {tariffForm && (
+            <Grid container spacing={2} sx={{ mb: 3 }}>
+              <Grid item xs={12} sm={3}>
+                <TextField
+                  fullWidth
+                  required
+                  label="Code"
+                  value={tariffForm.code}
+                  onChange={(e) => setTariffForm({ ...tariffForm, code: e.target.value })}
+                />
+              </Grid>
+              <Grid item xs={12} sm={5}>
+                <TextField
+                  fullWidth
+                  required
+                  label="Name"
+                  value={tariffForm.name}
+                  onChange={(e) => setTariffForm({ ...tariffForm, name: e.target.value })}
+                />
+              </Grid>
+              <Grid item xs={12} sm={4}>
+                <FormControl fullWidth>
+                  <InputLabel id="tariff-class-label">Customer Class</InputLabel>
+                  <Select
+                    labelId="tariff-class-label"
+                    label="Customer Class"
+                    value={tariffForm.customerClass}
+                    onChange={(e) => setTariffForm({ ...tariffForm, customerClass: e.target.value as CustomerClass })}
+                  >
+                    {CUSTOMER_CLASSES.map(option => (
+                      <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  label="Utility"
+                  value={tariffForm.utility}
+                  onChange={(e) => setTariffForm({ ...tariffForm, utility: e.target.value })}
+                />
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      checked={tariffForm.isDefault}
+                      onChange={(e) => setTariffForm({ ...tariffForm, isDefault: e.target.checked })}
+                    />
+                  }
+                  label="Default tariff for live cost metrics"
+                />
+              </Grid>
+              <Grid item xs={12}>
+                <TextField
+                  fullWidth
+                  multiline
+                  rows={2}
+                  label="Description"
+                  value={tariffForm.description}
+                  onChange={(e) => setTariffForm({ ...tariffForm, description: e.target.value })}
+                />
+              </Grid>
+            </Grid>
+          )}
+          <VersionEditor version={versionDraft} onChange={setVersionDraft} />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Snackbar
+        open={notification.open}
+        autoHideDuration={6000}
+        onClose={() => setNotification({ ...notification, open: false })}
+      >
+        <Alert severity={notification.severity} onClose={() => setNotification({ ...notification, open: false })}>
+          {notification.message}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
+
+export default TariffManagement;
@@ -99,7 +99,11 @@ const AdminSettings: React.FC = () => {
       requireUppercase: true,
       requireLowercase: true
     },
-    maxLoginAttempts: 5
+    maxLoginAttempts: 5,
+    twoFactorPolicy: {
+      requireForAdmins: false,
+      requireForManagers: false
+    }
   });
   
   // State for various operations
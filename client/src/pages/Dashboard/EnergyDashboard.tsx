@@ -151,9 +151,9 @@ const EnergyDashboard: React.FC = () => {
             <CardHeader title="Power Factor" />
             <CardContent>
               <Typography variant="h3">
-                {powerData[powerData.length - 1]?.powerFactor.toFixed(2) || '0'}
+                {powerData[powerData.length - 1]?.powerFactor?.toFixed(2) || '0'}
               </Typography>
-              {powerData[powerData.length - 1]?.powerFactor < 0.85 && (
+              {(powerData[powerData.length - 1]?.powerFactor ?? 1) < 0.85 && (
                 <Box sx={{ display: 'flex', alignItems: 'center', mt: 1 }}>
                   <WarningIcon color="warning" />
                   <Typography variant="body2" color="warning.main" sx={{ ml: 1 }}>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   Box,
   Paper,
@@ -49,126 +49,75 @@ import {
   Person as PersonIcon
 } from '@mui/icons-material';
 
-// Define types for our task data
-interface TaskComment {
-  id: string;
-  text: string;
-  author: string;
-  date: string;
-}
+import energyAuditService, {
+  AssignableUser,
+  AuditRecord,
+  AuditTask,
+  AuditTaskInput
+} from '../../../services/energyAuditService';
+import { useAuthContext } from '../../../contexts/AuthContext';
+import usePermissions from '../../../hooks/usePermissions';
+import { getErrorMessage } from '../../../utils/errorMessages';
 
-interface AuditTask {
-  id: string;
-  title: string;
-  description: string;
-  assignedTo: string;
-  status: string;
-  priority: string;
-  dueDate: string;
-  completedDate?: string;
-  approvalStatus: string;
-  approvedBy?: string;
-  comments: TaskComment[];
-}
-
-// Type for new tasks that don't yet have all required fields
-type NewAuditTask = Partial<AuditTask> & { comments: TaskComment[] };
-
-// Mock data - in a real app this would come from your API
-const mockAuditTasks = [
-  {
-    id: '1',
-    title: 'Initial Site Assessment',
-    description: 'Perform initial walkthrough and identify key areas for detailed audit',
-    assignedTo: 'John Doe',
-    status: 'completed',
-    priority: 'high',
-    dueDate: '2023-10-15',
-    completedDate: '2023-10-14',
-    approvalStatus: 'approved',
-    approvedBy: 'Jane Smith',
-    comments: [
-      { id: '1', text: 'Completed on schedule', author: 'John Doe', date: '2023-10-14' },
-      { id: '2', text: 'Approved - good work', author: 'Jane Smith', date: '2023-10-15' }
-    ]
-  },
-  {
-    id: '2',
-    title: 'HVAC System Evaluation',
-    description: 'Conduct detailed assessment of HVAC efficiency and performance',
-    assignedTo: 'Sarah Johnson',
-    status: 'in_progress',
-    priority: 'high',
-    dueDate: '2023-10-20',
-    approvalStatus: 'pending',
-    comments: [
-      { id: '3', text: 'Started evaluation, found several inefficiencies', author: 'Sarah Johnson', date: '2023-10-16' }
-    ]
-  },
-  {
-    id: '3',
-    title: 'Lighting System Audit',
-    description: 'Evaluate lighting systems and recommend energy efficient alternatives',
-    assignedTo: 'Michael Brown',
-    status: 'not_started',
-    priority: 'medium',
-    dueDate: '2023-10-25',
-    approvalStatus: 'not_submitted',
-    comments: []
-  },
-  {
-    id: '4',
-    title: 'Building Envelope Assessment',
-    description: 'Inspect insulation, windows, and building envelope for energy loss',
-    assignedTo: 'Emma Wilson',
-    status: 'in_progress',
-    priority: 'medium',
-    dueDate: '2023-10-22',
-    approvalStatus: 'pending',
-    comments: [
-      { id: '4', text: 'Found significant air leakage around windows', author: 'Emma Wilson', date: '2023-10-17' }
-    ]
-  },
-  {
-    id: '5',
-    title: 'Final Report Compilation',
-    description: 'Compile findings from all assessments into final audit report',
-    assignedTo: 'John Doe',
-    status: 'not_started',
-    priority: 'high',
-    dueDate: '2023-11-01',
-    approvalStatus: 'not_submitted',
-    comments: []
-  }
-];
-
-const mockUsers = [
-  { id: '1', name: 'John Doe', role: 'Energy Auditor' },
-  { id: '2', name: 'Jane Smith', role: 'Audit Manager' },
-  { id: '3', name: 'Sarah Johnson', role: 'HVAC Specialist' },
-  { id: '4', name: 'Michael Brown', role: 'Lighting Specialist' },
-  { id: '5', name: 'Emma Wilson', role: 'Building Inspector' }
-];
+// Task being created or edited in the dialog
+type EditableTask = AuditTaskInput & { id?: number; auditId?: number };
 
 const AuditManagementWorkflow: React.FC = () => {
   const theme = useTheme();
+  const { currentUser } = useAuthContext();
+  const { hasPermission } = usePermissions();
   const [currentTab, setCurrentTab] = useState(0);
-  const [tasks, setTasks] = useState<any[]>(mockAuditTasks);
+  const [tasks, setTasks] = useState<AuditTask[]>([]);
+  const [audits, setAudits] = useState<AuditRecord[]>([]);
+  const [assignees, setAssignees] = useState<AssignableUser[]>([]);
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [taskDialogOpen, setTaskDialogOpen] = useState(false);
-  const [currentTask, setCurrentTask] = useState<any>(null);
+  const [currentTask, setCurrentTask] = useState<EditableTask | null>(null);
   const [filterStatus, setFilterStatus] = useState('all');
   const [searchQuery, setSearchQuery] = useState('');
 
-  // Fetch data - in a real app, this would be an API call
-  useEffect(() => {
+  const currentUserId = currentUser ? Number(currentUser.id) : null;
+  const canEdit = hasPermission('audit.edit');
+  const canAssign = hasPermission('audit.assign');
+  const canApprove = hasPermission('audit.approve');
+
+  const loadData = useCallback(async () => {
     setLoading(true);
-    // Simulate API fetch
-    setTimeout(() => {
-      setTasks(mockAuditTasks);
+    setError(null);
+    try {
+      const [taskData, auditData, assigneeData] = await Promise.all([
+        energyAuditService.getTasks(),
+        energyAuditService.listAudits(),
+        canAssign ? energyAuditService.getAssignableUsers() : Promise.resolve([])
+      ]);
+      setTasks(taskData);
+      setAudits(auditData);
+      setAssignees(assigneeData);
+    } catch (err) {
+      console.error('Error loading audit tasks:', err);
+      setError(getErrorMessage(err, 'Failed to load audit tasks'));
+    } finally {
       setLoading(false);
-    }, 1000);
-  }, []);
+    }
+  }, [canAssign]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const replaceTask = (updated: AuditTask) => {
+    setTasks(prev => prev.map(task => task.id === updated.id ? updated : task));
+  };
+
+  const runTaskAction = async (action: () => Promise<AuditTask>, failureMessage: string) => {
+    try {
+      replaceTask(await action());
+    } catch (err) {
+      console.error(failureMessage, err);
+      setError(getErrorMessage(err, failureMessage));
+    }
+  };
 
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setCurrentTab(newValue);
@@ -176,112 +125,63 @@ const AuditManagementWorkflow: React.FC = () => {
 
   const handleCreateTask = () => {
     setCurrentTask({
-      id: '',
+      auditId: audits.length === 1 ? audits[0].id : undefined,
       title: '',
       description: '',
-      assignedTo: '',
+      assigneeId: null,
       status: 'not_started',
       priority: 'medium',
-      dueDate: '',
-      approvalStatus: 'not_submitted',
-      comments: []
+      dueDate: ''
     });
     setTaskDialogOpen(true);
   };
 
   const handleEditTask = (task: AuditTask) => {
-    setCurrentTask(task);
+    setCurrentTask({
+      id: task.id,
+      auditId: task.auditId,
+      title: task.title,
+      description: task.description,
+      assigneeId: task.assigneeId,
+      status: task.status,
+      priority: task.priority,
+      dueDate: task.dueDate || ''
+    });
     setTaskDialogOpen(true);
   };
 
-  const handleSaveTask = () => {
-    if (!currentTask) return;
-    
+  const handleSaveTask = async () => {
+    if (!currentTask || !currentTask.auditId) return;
+
+    const { id, auditId, ...changes } = currentTask;
     setLoading(true);
-    // Simulate API call
-    setTimeout(() => {
-      if (currentTask.id) {
-        // Edit existing task
-        setTasks(tasks.map(task => 
-          task.id === currentTask.id ? 
-            // Ensure all required fields are present
-            {
-              id: currentTask.id,
-              title: currentTask.title || '',
-              description: currentTask.description || '',
-              assignedTo: currentTask.assignedTo || '',
-              status: currentTask.status || 'not_started',
-              priority: currentTask.priority || 'medium',
-              dueDate: currentTask.dueDate || '',
-              completedDate: currentTask.completedDate,
-              approvalStatus: currentTask.approvalStatus || 'not_submitted',
-              approvedBy: currentTask.approvedBy,
-              comments: currentTask.comments || []
-            } as AuditTask
-            : task
-        ));
+    try {
+      if (id) {
+        replaceTask(await energyAuditService.updateTask(id, changes));
       } else {
-        // Create new task with all required fields
-        const newTask: AuditTask = {
-          id: Date.now().toString(),
-          title: currentTask.title || '',
-          description: currentTask.description || '',
-          assignedTo: currentTask.assignedTo || '',
-          status: currentTask.status || 'not_started',
-          priority: currentTask.priority || 'medium',
-          dueDate: currentTask.dueDate || '',
-          approvalStatus: currentTask.approvalStatus || 'not_submitted',
-          comments: currentTask.comments || []
-        };
-        setTasks([...tasks, newTask]);
+        const created = await energyAuditService.createTask(auditId, changes);
+        setTasks(prev => [...prev, created]);
       }
       setTaskDialogOpen(false);
+    } catch (err) {
+      console.error('Error saving task:', err);
+      setError(getErrorMessage(err, 'Failed to save task'));
+    } finally {
       setLoading(false);
-    }, 1000);
+    }
   };
 
-  const handleUpdateTaskStatus = (taskId: string, newStatus: string) => {
-    setTasks(tasks.map(task => 
-      task.id === taskId ? { ...task, status: newStatus } : task
-    ));
-  };
+  const handleUpdateTaskStatus = (taskId: number, newStatus: AuditTask['status']) =>
+    runTaskAction(() => energyAuditService.updateTask(taskId, { status: newStatus }), 'Failed to update task status');
 
-  const handleApproveTask = (taskId: string) => {
-    setTasks(tasks.map(task => {
-      if (task.id === taskId) {
-        return { 
-          ...task, 
-          approvalStatus: 'approved',
-          approvedBy: 'Jane Smith', // In real app, this would be the current user
-          comments: [...task.comments, {
-            id: Date.now().toString(),
-            text: 'Task approved',
-            author: 'Jane Smith', // In real app, this would be the current user
-            date: new Date().toISOString().split('T')[0]
-          }]
-        };
-      }
-      return task;
-    }));
-  };
+  const handleSubmitTask = (taskId: number) =>
+    runTaskAction(() => energyAuditService.submitTask(taskId), 'Failed to submit task for approval');
 
-  const handleRejectTask = (taskId: string) => {
-    setTasks(tasks.map(task => {
-      if (task.id === taskId) {
-        return { 
-          ...task, 
-          approvalStatus: 'rejected',
-          comments: [...task.comments, {
-            id: Date.now().toString(),
-            text: 'Task rejected - needs revisions',
-            author: 'Jane Smith', // In real app, this would be the current user
-            date: new Date().toISOString().split('T')[0]
-          }]
-        };
-      }
-      return task;
-    }));
-  };
+  const handleApproveTask = (taskId: number) =>
+    runTaskAction(() => energyAuditService.approveTask(taskId), 'Failed to approve task');
+
+  const handleRejectTask = (taskId: number) =>
+    runTaskAction(() => energyAuditService.rejectTask(taskId), 'Failed to reject task');
 
   // Filter tasks based on current tab and search query
   const filteredTasks = tasks.filter(task => {
@@ -291,7 +191,7 @@ const AuditManagementWorkflow: React.FC = () => {
       return true;
     } else if (currentTab === 1) {
       // My tasks
-      return task.assignedTo === 'John Doe'; // In real app, this would be the current user
+      return task.assigneeId === currentUserId;
     } else if (currentTab === 2) {
       // Pending approval
       return task.approvalStatus === 'pending';
@@ -321,6 +221,7 @@ const AuditManagementWorkflow: React.FC = () => {
     notStarted: tasks.filter(t => t.status === 'not_started').length,
     pendingApproval: tasks.filter(t => t.approvalStatus === 'pending').length,
     overdue: tasks.filter(t => {
+      if (!t.dueDate) return false;
       const dueDate = new Date(t.dueDate);
       const today = new Date();
       return dueDate < today && t.status !== 'completed';
@@ -335,6 +236,8 @@ const AuditManagementWorkflow: React.FC = () => {
         return <Chip label="In Progress" color="primary" size="small" />;
       case 'not_started':
         return <Chip label="Not Started" color="default" size="small" />;
+      case 'blocked':
+        return <Chip label="Blocked" color="error" size="small" />;
       default:
         return <Chip label={status} size="small" />;
     }
@@ -372,15 +275,24 @@ const AuditManagementWorkflow: React.FC = () => {
     <Box sx={{ mb: 6 }}>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
         <Typography variant="h5" fontWeight="bold">Audit Management Workflow</Typography>
-        <Button 
-          variant="contained" 
-          startIcon={<AddIcon />}
-          onClick={handleCreateTask}
-        >
-          New Task
-        </Button>
+        {canEdit && (
+          <Button 
+            variant="contained" 
+            startIcon={<AddIcon />}
+            onClick={handleCreateTask}
+            disabled={audits.length === 0}
+          >
+            New Task
+          </Button>
+        )}
       </Box>
 
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
       {/* Dashboard Overview */}
       <Grid container spacing={3} sx={{ mb: 3 }}>
         <Grid item xs={12} md={4} lg={2}>
@@ -508,10 +420,7 @@ const AuditManagementWorkflow: React.FC = () => {
           <Button
             variant="outlined"
             startIcon={<RefreshIcon />}
-            onClick={() => {
-              setLoading(true);
-              setTimeout(() => setLoading(false), 500);
-            }}
+            onClick={loadData}
           >
             Refresh
           </Button>
@@ -534,7 +443,7 @@ const AuditManagementWorkflow: React.FC = () => {
                   <ListItem
                     secondaryAction={
                       <Box sx={{ display: 'flex', gap: 1 }}>
-                        {task.status !== 'completed' && (
+                        {task.status !== 'completed' && (canEdit || task.assigneeId === currentUserId) && (
                           <Button 
                             size="small" 
                             variant="outlined" 
@@ -544,7 +453,19 @@ const AuditManagementWorkflow: React.FC = () => {
                             Mark Complete
                           </Button>
                         )}
-                        {task.approvalStatus === 'pending' && (
+                        {task.status === 'completed' &&
+                          (task.approvalStatus === 'not_submitted' || task.approvalStatus === 'rejected') &&
+                          (canEdit || task.assigneeId === currentUserId) && (
+                          <Button 
+                            size="small" 
+                            variant="outlined" 
+                            color="warning"
+                            onClick={() => handleSubmitTask(task.id)}
+                          >
+                            Submit for Approval
+                          </Button>
+                        )}
+                        {task.approvalStatus === 'pending' && canApprove && (
                           <>
                             <Button 
                               size="small" 
@@ -566,9 +487,11 @@ const AuditManagementWorkflow: React.FC = () => {
                             </Button>
                           </>
                         )}
-                        <IconButton edge="end" onClick={() => handleEditTask(task)}>
-                          <EditIcon />
-                        </IconButton>
+                        {canEdit && (
+                          <IconButton edge="end" onClick={() => handleEditTask(task)}>
+                            <EditIcon />
+                          </IconButton>
+                        )}
                       </Box>
                     }
                   >
@@ -592,9 +515,14 @@ const AuditManagementWorkflow: React.FC = () => {
                             <Typography variant="body2" sx={{ mr: 2 }}>
                               {task.assignedTo}
                             </Typography>
-                            <Typography variant="body2">
-                              Due: {task.dueDate}
+                            <Typography variant="body2" sx={{ mr: 2 }}>
+                              Due: {task.dueDate || 'Not set'}
                             </Typography>
+                            {task.auditTitle && (
+                              <Typography variant="body2">
+                                Audit: {task.auditTitle}
+                              </Typography>
+                            )}
                           </Box>
                         </Box>
                       }
@@ -614,6 +542,23 @@ const AuditManagementWorkflow: React.FC = () => {
         </DialogTitle>
         <DialogContent>
           <Grid container spacing={2} sx={{ mt: 1 }}>
+            <Grid item xs={12}>
+              <FormControl fullWidth>
+                <InputLabel>Audit</InputLabel>
+                <Select
+                  value={currentTask?.auditId ?? ''}
+                  label="Audit"
+                  disabled={Boolean(currentTask?.id)}
+                  onChange={(e) => setCurrentTask({ ...currentTask, auditId: Number(e.target.value) })}
+                >
+                  {audits.map(audit => (
+                    <MenuItem key={audit.id} value={audit.id}>
+                      {audit.title}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
             <Grid item xs={12}>
               <TextField
                 fullWidth
@@ -636,13 +581,13 @@ const AuditManagementWorkflow: React.FC = () => {
               <FormControl fullWidth>
                 <InputLabel>Assigned To</InputLabel>
                 <Select
-                  value={currentTask?.assignedTo || ''}
+                  value={currentTask?.assigneeId ?? ''}
                   label="Assigned To"
-                  onChange={(e) => setCurrentTask({ ...currentTask, assignedTo: e.target.value })}
+                  onChange={(e) => setCurrentTask({ ...currentTask, assigneeId: Number(e.target.value) })}
                 >
-                  {mockUsers.map(user => (
-                    <MenuItem key={user.id} value={user.name}>
-                      {user.name} ({user.role})
+                  {assignees.map(user => (
+                    <MenuItem key={user.id} value={user.id}>
+                      {user.name} ({user.position || user.role})
                     </MenuItem>
                   ))}
                 </Select>
@@ -654,7 +599,7 @@ const AuditManagementWorkflow: React.FC = () => {
                 <Select
                   value={currentTask?.priority || 'medium'}
                   label="Priority"
-                  onChange={(e) => setCurrentTask({ ...currentTask, priority: e.target.value })}
+                  onChange={(e) => setCurrentTask({ ...currentTask, priority: e.target.value as AuditTask['priority'] })}
                 >
                   <MenuItem value="low">Low</MenuItem>
                   <MenuItem value="medium">Medium</MenuItem>
@@ -678,11 +623,12 @@ const AuditManagementWorkflow: React.FC = () => {
                 <Select
                   value={currentTask?.status || 'not_started'}
                   label="Status"
-                  onChange={(e) => setCurrentTask({ ...currentTask, status: e.target.value })}
+                  onChange={(e) => setCurrentTask({ ...currentTask, status: e.target.value as AuditTask['status'] })}
                 >
                   <MenuItem value="not_started">Not Started</MenuItem>
                   <MenuItem value="in_progress">In Progress</MenuItem>
                   <MenuItem value="completed">Completed</MenuItem>
+                  <MenuItem value="blocked">Blocked</MenuItem>
                 </Select>
               </FormControl>
             </Grid>
@@ -693,7 +639,7 @@ const AuditManagementWorkflow: React.FC = () => {
           <Button 
             variant="contained" 
             onClick={handleSaveTask}
-            disabled={!currentTask?.title || !currentTask?.assignedTo || !currentTask?.dueDate}
+            disabled={!currentTask?.auditId || !currentTask?.title || !currentTask?.assigneeId || !currentTask?.dueDate}
           >
             Save
           </Button>
@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import {
   Box,
   Paper,
@@ -8,30 +8,15 @@ import {
   Card,
   CardContent,
   Button,
-  Tabs,
-  Tab,
   Divider,
   Chip,
-  List,
-  ListItem,
   ListItemText,
   ListItemIcon,
   IconButton,
   TextField,
-  Dialog,
-  DialogTitle,
-  DialogContent,
-  DialogActions,
-  FormControl,
-  InputLabel,
-  Select,
   MenuItem,
-  LinearProgress,
-  Badge,
-  Tooltip,
   CircularProgress,
   Alert,
-  useTheme,
   Stepper,
   Step,
   StepLabel,
@@ -40,16 +25,12 @@ import {
 } from '@mui/material';
 
 import {
-  Assignment as AssignmentIcon,
   Check as CheckIcon,
   Close as CloseIcon,
   Add as AddIcon,
   Edit as EditIcon,
   Delete as DeleteIcon,
-  Refresh as RefreshIcon,
-  Search as SearchIcon,
   Person as PersonIcon,
-  CheckCircle as CheckCircleIcon,
   MoreVert as MoreVertIcon,
   CalendarToday as CalendarIcon,
   Save as SaveIcon,
@@ -57,127 +38,17 @@ import {
   Calculate as CalculateIcon
 } from '@mui/icons-material';
 
-// Define interfaces at the top, after the imports
-
-// Define comment type
-interface TaskComment {
-  id: string;
-  text: string;
-  author: string;
-  date: string;
-}
-
-// Define task interface with all possible properties
-interface AuditTask {
-  id: string;
-  title: string;
-  description: string;
-  assignedTo: string;
-  status: string;
-  priority: string;
-  dueDate: string;
-  completedDate?: string;
-  approvalStatus: string;
-  approvedBy?: string;
-  comments: TaskComment[];
-}
-
-const mockAuditTasks: AuditTask[] = [
-  {
-    id: '1',
-    title: 'Initial Site Assessment',
-    description: 'Perform initial walkthrough and identify key areas for detailed audit',
-    assignedTo: 'John Doe',
-    status: 'completed',
-    priority: 'high',
-    dueDate: '2023-10-15',
-    completedDate: '2023-10-14',
-    approvalStatus: 'approved',
-    approvedBy: 'Jane Smith',
-    comments: [
-      { id: '1', text: 'Completed on schedule', author: 'John Doe', date: '2023-10-14' },
-      { id: '2', text: 'Approved - good work', author: 'Jane Smith', date: '2023-10-15' }
-    ]
-  },
-  {
-    id: '2',
-    title: 'HVAC System Evaluation',
-    description: 'Conduct detailed assessment of HVAC efficiency and performance',
-    assignedTo: 'Sarah Johnson',
-    status: 'in_progress',
-    priority: 'high',
-    dueDate: '2023-10-20',
-    approvalStatus: 'pending',
-    comments: [
-      { id: '3', text: 'Started evaluation, found several inefficiencies', author: 'Sarah Johnson', date: '2023-10-16' }
-    ]
-  },
-  {
-    id: '3',
-    title: 'Lighting System Audit',
-    description: 'Evaluate lighting systems and recommend energy efficient alternatives',
-    assignedTo: 'Michael Brown',
-    status: 'not_started',
-    priority: 'medium',
-    dueDate: '2023-10-25',
-    approvalStatus: 'not_submitted',
-    comments: []
-  },
-  {
-    id: '4',
-    title: 'Building Envelope Assessment',
-    description: 'Inspect insulation, windows, and building envelope for energy loss',
-    assignedTo: 'Emma Wilson',
-    status: 'in_progress',
-    priority: 'medium',
-    dueDate: '2023-10-22',
-    approvalStatus: 'pending',
-    comments: [
-      { id: '4', text: 'Found significant air leakage around windows', author: 'Emma Wilson', date: '2023-10-17' }
-    ]
-  },
-  {
-    id: '5',
-    title: 'Final Report Compilation',
-    description: 'Compile findings from all assessments into final audit report',
-    assignedTo: 'John Doe',
-    status: 'not_started',
-    priority: 'high',
-    dueDate: '2023-11-01',
-    approvalStatus: 'not_submitted',
-    comments: []
-  }
-];
-
-const mockUsers = [
-  { id: '1', name: 'John Doe', role: 'Energy Auditor' },
-  { id: '2', name: 'Jane Smith', role: 'Audit Manager' },
-  { id: '3', name: 'Sarah Johnson', role: 'HVAC Specialist' },
-  { id: '4', name: 'Michael Brown', role: 'Lighting Specialist' },
-  { id: '5', name: 'Emma Wilson', role: 'Building Inspector' }
-];
-
-// Add this helper function before the AuditWorkflow component
-const updateTask = (task: AuditTask | null, updates: Partial<AuditTask>): AuditTask => {
-  if (!task) {
-    // Create a new task with default values and apply updates
-    return {
-      id: '',
-      title: '',
-      description: '',
-      assignedTo: '',
-      status: 'not_started',
-      priority: 'medium',
-      dueDate: '',
-      approvalStatus: 'not_submitted',
-      comments: [],
-      ...updates
-    };
-  }
-  
-  // Update existing task
-  return { ...task, ...updates };
-};
+import energyAuditService, {
+  AssignableUser,
+  AuditRecord,
+  AuditTask
+} from '../../../services/energyAuditService';
+import { useAuthContext } from '../../../contexts/AuthContext';
+import usePermissions from '../../../hooks/usePermissions';
+import ApprovalWorkflow from '../components/ApprovalWorkflow';
+import AuditTeamPanel from '../components/AuditTeamPanel';
+import AuditInvitations from '../components/AuditInvitations';
+import { getErrorMessage } from '../../../utils/errorMessages';
 
 // Audit phases for the stepper
 const auditPhases = [
@@ -190,22 +61,37 @@ const auditPhases = [
   'Follow-up'
 ];
 
+// Blank task shown in the details panel while a new task is being created
+const createBlankTask = (auditId: number): AuditTask => ({
+  id: 0,
+  auditId,
+  title: '',
+  description: '',
+  assigneeId: null,
+  assignedTo: 'Unassigned',
+  status: 'not_started',
+  priority: 'medium',
+  dueDate: '',
+  completedDate: null,
+  approvalStatus: 'not_submitted',
+  comments: []
+});
+
 const AuditWorkflow: React.FC = () => {
-  const theme = useTheme();
   const navigate = useNavigate();
-  const [currentTab, setCurrentTab] = useState(0);
-  const [tasks, setTasks] = useState<AuditTask[]>(mockAuditTasks);
+  const { currentUser } = useAuthContext();
+  const { hasPermission } = usePermissions();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [audits, setAudits] = useState<AuditRecord[]>([]);
+  const [tasks, setTasks] = useState<AuditTask[]>([]);
+  const [assignees, setAssignees] = useState<AssignableUser[]>([]);
   const [loading, setLoading] = useState(false);
-  const [taskDialogOpen, setTaskDialogOpen] = useState(false);
   const [currentTask, setCurrentTask] = useState<AuditTask | null>(null);
-  const [filterStatus, setFilterStatus] = useState('all');
-  const [searchQuery, setSearchQuery] = useState('');
-  const [activePhase, setActivePhase] = useState(1); // 0-based index
-  const [newTaskOpen, setNewTaskOpen] = useState(false);
+  const [activePhase, setActivePhase] = useState(0); // 0-based index
   const [editMode, setEditMode] = useState(false);
   const [newComment, setNewComment] = useState('');
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
-  const [menuTaskId, setMenuTaskId] = useState<string | null>(null);
+  const [menuTaskId, setMenuTaskId] = useState<number | null>(null);
   const menuOpen = Boolean(anchorEl);
   const [notification, setNotification] = useState<{
     open: boolean;
@@ -216,7 +102,17 @@ const AuditWorkflow: React.FC = () => {
     message: '',
     type: 'info'
   });
-  
+
+  // The selected audit is kept in the URL so a refresh reopens it
+  const auditId = Number(searchParams.get('auditId')) || null;
+  const currentUserId = currentUser ? Number(currentUser.id) : null;
+  const canEdit = hasPermission('audit.edit');
+  const canAssign = hasPermission('audit.assign');
+  const canApprove = hasPermission('audit.approve');
+  const canDeleteTasks = hasPermission('audit.archive');
+  const selectedAudit = audits.find(audit => audit.id === auditId);
+  const canChangePhase = canEdit || (selectedAudit?.createdBy ?? null) === currentUserId;
+
   // Function to launch calculators based on task type
   const launchRelatedCalculator = (taskTitle: string) => {
     let calculatorType = '';
@@ -277,209 +173,158 @@ const AuditWorkflow: React.FC = () => {
     navigate(`/energy-audit/calculators?tab=${calculatorIndex}`);
   };
   
-  // Fetch data - in a real app, this would be an API call
+  // Load the audits visible to the current user
+  const loadAudits = async (selectId?: number) => {
+    try {
+      const auditData = await energyAuditService.listAudits();
+      setAudits(auditData);
+      if (selectId) {
+        setSearchParams({ auditId: String(selectId) });
+      } else if (!searchParams.get('auditId') && auditData.length > 0) {
+        setSearchParams({ auditId: String(auditData[0].id) }, { replace: true });
+      }
+    } catch (err) {
+      console.error('Error loading audits:', err);
+      showNotification(getErrorMessage(err, 'Failed to load audits'), 'error');
+    }
+  };
+
+  useEffect(() => {
+    loadAudits();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   useEffect(() => {
+    if (!canAssign) return;
+    energyAuditService.getAssignableUsers()
+      .then(setAssignees)
+      .catch(err => console.error('Error loading assignable users:', err));
+  }, [canAssign]);
+
+  const loadAudit = useCallback(async (id: number) => {
     setLoading(true);
-    // Simulate API fetch
-    setTimeout(() => {
-      setTasks(mockAuditTasks);
+    try {
+      const audit = await energyAuditService.getAuditWithTasks(id);
+      setTasks(audit.tasks || []);
+      setActivePhase(audit.currentPhase);
+      setCurrentTask(null);
+      setEditMode(false);
+    } catch (err) {
+      console.error('Error loading audit tasks:', err);
+      setTasks([]);
+      showNotification(getErrorMessage(err, 'Failed to load audit tasks'), 'error');
+    } finally {
       setLoading(false);
-    }, 1000);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const handleTabChange = (_event: React.SyntheticEvent, newValue: number) => {
-    setCurrentTab(newValue);
+  useEffect(() => {
+    if (auditId) {
+      loadAudit(auditId);
+    }
+  }, [auditId, loadAudit]);
+
+  const replaceTask = (updated: AuditTask) => {
+    setTasks(prev => prev.map(task => task.id === updated.id ? updated : task));
+    setCurrentTask(prev => prev && prev.id === updated.id ? updated : prev);
   };
 
-  const handleCreateTask = () => {
-    const newTask: AuditTask = {
-      id: '',
-      title: '',
-      description: '',
-      assignedTo: '',
-      status: 'not_started',
-      priority: 'medium',
-      dueDate: '',
-      approvalStatus: 'not_submitted',
-      comments: []
-    };
-    setCurrentTask(newTask);
-    setTaskDialogOpen(true);
+  const handleSelectAudit = (id: number) => {
+    setSearchParams({ auditId: String(id) });
   };
 
-  const handleEditTask = (task: AuditTask) => {
-    setCurrentTask(task);
-    setTaskDialogOpen(true);
+  const handleCreateTask = () => {
+    if (!auditId) return;
+    setCurrentTask(createBlankTask(auditId));
+    setEditMode(true);
   };
 
-  const handleSaveTask = () => {
-    if (!currentTask) return;
-    
-    setLoading(true);
-    // Simulate API call
-    setTimeout(() => {
+  const handleSaveTask = async () => {
+    if (!currentTask || !auditId) return;
+
+    const changes = {
+      title: currentTask.title,
+      description: currentTask.description,
+      assigneeId: currentTask.assigneeId,
+      status: currentTask.status,
+      priority: currentTask.priority,
+      dueDate: currentTask.dueDate || null
+    };
+
+    try {
       if (currentTask.id) {
-        // Edit existing task
-        setTasks(tasks.map(task => 
-          task.id === currentTask.id ? currentTask : task
-        ));
+        const updated = await energyAuditService.updateTask(currentTask.id, changes);
+        replaceTask(updated);
       } else {
-        // Create new task
-        const newTask = {
-          ...currentTask,
-          id: Date.now().toString()
-        };
-        setTasks([...tasks, newTask]);
+        const created = await energyAuditService.createTask(auditId, changes);
+        setTasks(prev => [...prev, created]);
+        setCurrentTask(created);
       }
-      setTaskDialogOpen(false);
-      setLoading(false);
-    }, 1000);
+      setEditMode(false);
+      showNotification('Task saved', 'success');
+    } catch (err) {
+      console.error('Error saving task:', err);
+      showNotification(getErrorMessage(err, 'Failed to save task'), 'error');
+    }
   };
 
-  const handleUpdateTaskStatus = (taskId: string, newStatus: string) => {
-    setTasks(tasks.map(task => {
-      if (task.id === taskId) {
-        return { ...task, status: newStatus };
-      }
-      return task;
-    }));
+  const runTaskAction = async (action: () => Promise<AuditTask>, successMessage: string, failureMessage: string) => {
+    try {
+      replaceTask(await action());
+      showNotification(successMessage, 'success');
+    } catch (err) {
+      console.error(failureMessage, err);
+      showNotification(getErrorMessage(err, failureMessage), 'error');
+    }
   };
 
-  const handleApproveTask = (taskId: string) => {
-    setTasks(tasks.map(task => {
-      if (task.id === taskId) {
-        // Create a properly typed object
-        const updatedTask: AuditTask = { 
-          ...task, 
-          approvalStatus: 'approved',
-          approvedBy: 'Jane Smith', // In real app, this would be the current user
-          comments: [...task.comments, {
-            id: Date.now().toString(),
-            text: 'Task approved',
-            author: 'Jane Smith', // In real app, this would be the current user
-            date: new Date().toISOString().split('T')[0]
-          }]
-        };
-        return updatedTask;
-      }
-      return task;
-    }));
-  };
+  const handleUpdateTaskStatus = (taskId: number, newStatus: AuditTask['status']) =>
+    runTaskAction(() => energyAuditService.updateTask(taskId, { status: newStatus }), 'Task updated', 'Failed to update task');
 
-  const handleRejectTask = (taskId: string) => {
-    setTasks(tasks.map(task => {
-      if (task.id === taskId) {
-        // Create a properly typed object
-        const updatedTask: AuditTask = { 
-          ...task, 
-          approvalStatus: 'rejected',
-          comments: [...task.comments, {
-            id: Date.now().toString(),
-            text: 'Task rejected - needs revisions',
-            author: 'Jane Smith', // In real app, this would be the current user
-            date: new Date().toISOString().split('T')[0]
-          }]
-        };
-        return updatedTask;
-      }
-      return task;
-    }));
-  };
+  const handleSubmitTask = (taskId: number) =>
+    runTaskAction(() => energyAuditService.submitTask(taskId), 'Task submitted for approval', 'Failed to submit task');
 
-  // Filter tasks based on current tab and search query
-  const filteredTasks = tasks.filter(task => {
-    // Filter by tab
-    if (currentTab === 0) {
-      // All tasks
-      return true;
-    } else if (currentTab === 1) {
-      // My tasks
-      return task.assignedTo === 'John Doe'; // In real app, this would be the current user
-    } else if (currentTab === 2) {
-      // Pending approval
-      return task.approvalStatus === 'pending';
-    } else if (currentTab === 3) {
-      // Completed
-      return task.status === 'completed';
-    }
-    
-    // Filter by status if selected
-    if (filterStatus !== 'all' && task.status !== filterStatus) {
-      return false;
-    }
-    
-    // Filter by search query
-    if (searchQuery && !task.title.toLowerCase().includes(searchQuery.toLowerCase())) {
-      return false;
-    }
-    
-    return true;
-  });
+  const handleApproveTask = (taskId: number) =>
+    runTaskAction(() => energyAuditService.approveTask(taskId), 'Task approved', 'Failed to approve task');
 
-  // Statistics for dashboard
-  const taskStats = {
-    total: tasks.length,
-    completed: tasks.filter(t => t.status === 'completed').length,
-    inProgress: tasks.filter(t => t.status === 'in_progress').length,
-    notStarted: tasks.filter(t => t.status === 'not_started').length,
-    pendingApproval: tasks.filter(t => t.approvalStatus === 'pending').length,
-    overdue: tasks.filter(t => {
-      const dueDate = new Date(t.dueDate);
-      const today = new Date();
-      return dueDate < today && t.status !== 'completed';
-    }).length
-  };
-
-  const renderTaskStatus = (status: string) => {
-    switch(status) {
-      case 'completed':
-        return <Chip label="Completed" color="success" size="small" />;
-      case 'in_progress':
-        return <Chip label="In Progress" color="primary" size="small" />;
-      case 'not_started':
-        return <Chip label="Not Started" color="default" size="small" />;
-      default:
-        return <Chip label={status} size="small" />;
-    }
-  };
+  const handleRejectTask = (taskId: number) =>
+    runTaskAction(() => energyAuditService.rejectTask(taskId), 'Task rejected', 'Failed to reject task');
 
   const renderApprovalStatus = (status: string) => {
     switch(status) {
       case 'approved':
-        return <Chip label="Approved" color="success" size="small" />;
+        return <Chip label="Approved" color="success" />;
       case 'rejected':
-        return <Chip label="Rejected" color="error" size="small" />;
+        return <Chip label="Rejected" color="error" />;
       case 'pending':
-        return <Chip label="Pending Approval" color="warning" size="small" />;
+        return <Chip label="Pending Approval" color="warning" />;
       case 'not_submitted':
-        return <Chip label="Not Submitted" color="default" size="small" />;
+        return <Chip label="Not Submitted" color="default" />;
       default:
-        return <Chip label={status} size="small" />;
+        return <Chip label={status} />;
     }
   };
 
-  const renderPriority = (priority: string) => {
-    switch(priority) {
-      case 'high':
-        return <Chip label="High" color="error" size="small" />;
-      case 'medium':
-        return <Chip label="Medium" color="warning" size="small" />;
-      case 'low':
-        return <Chip label="Low" color="info" size="small" />;
-      default:
-        return <Chip label={priority} size="small" />;
+  // Handle phase change
+  const handlePhaseChange = async (phase: number) => {
+    if (!auditId || !canChangePhase || phase < 0 || phase >= auditPhases.length) {
+      return;
     }
-  };
 
-  // Handle phase change
-  const handlePhaseChange = (phase: number) => {
-    if (phase >= 0 && phase < auditPhases.length) {
-      setActivePhase(phase);
+    const previousPhase = activePhase;
+    setActivePhase(phase);
+    try {
+      await energyAuditService.updateAuditRecord(auditId, { currentPhase: phase });
+    } catch (err) {
+      console.error('Error updating audit phase:', err);
+      setActivePhase(previousPhase);
+      showNotification(getErrorMessage(err, 'Failed to update audit phase'), 'error');
     }
   };
 
   // Open task menu
-  const handleMenuOpen = (event: React.MouseEvent<HTMLButtonElement>, taskId: string) => {
+  const handleMenuOpen = (event: React.MouseEvent<HTMLButtonElement>, taskId: number) => {
     setAnchorEl(event.currentTarget);
     setMenuTaskId(taskId);
   };
@@ -504,41 +349,52 @@ const AuditWorkflow: React.FC = () => {
 
   // Edit task
   const handleEditTaskDetails = () => {
+    const menuTask = tasks.find(task => task.id === menuTaskId);
+    if (menuTask) {
+      setCurrentTask(menuTask);
+    }
     setEditMode(true);
     handleMenuClose();
   };
 
+  // Cancel editing; a new task that was never saved is discarded
+  const handleCancelEdit = () => {
+    if (currentTask && !currentTask.id) {
+      setCurrentTask(null);
+    }
+    setEditMode(false);
+  };
+
   // Delete task
-  const handleDeleteTask = () => {
-    if (menuTaskId) {
-      setTasks(tasks.filter(task => task.id !== menuTaskId));
-      if (currentTask && currentTask.id === menuTaskId) {
+  const handleDeleteTask = async () => {
+    const taskId = menuTaskId;
+    handleMenuClose();
+    if (!taskId) return;
+
+    try {
+      await energyAuditService.deleteTask(taskId);
+      setTasks(prev => prev.filter(task => task.id !== taskId));
+      if (currentTask && currentTask.id === taskId) {
         setCurrentTask(null);
       }
+      showNotification('Task deleted', 'success');
+    } catch (err) {
+      console.error('Error deleting task:', err);
+      showNotification(getErrorMessage(err, 'Failed to delete task'), 'error');
     }
-    handleMenuClose();
   };
 
   // Add new comment
-  const handleAddComment = () => {
-    if (currentTask && newComment.trim()) {
-      const newCommentObj: TaskComment = {
-        id: `c${Date.now()}`,
-        author: 'Current User', // In a real app, this would come from auth context
-        text: newComment,
-        date: new Date().toISOString().split('T')[0]
-      };
-      
-      const updatedTask = {
-        ...currentTask,
-        comments: [...currentTask.comments, newCommentObj]
-      };
-      
-      setCurrentTask(updatedTask);
-      setTasks(tasks.map(task => 
-        task.id === currentTask.id ? updatedTask : task
-      ));
+  const handleAddComment = async () => {
+    if (!currentTask || !currentTask.id || !newComment.trim()) return;
+
+    try {
+      const comment = await energyAuditService.addTaskComment(currentTask.id, newComment);
+      replaceTask({ ...currentTask, comments: [...currentTask.comments, comment] });
       setNewComment('');
+    } catch (err) {
+      console.error('Error adding comment:', err);
+      showNotification(getErrorMessage(err, 'Failed to add comment'), 'error');
     }
   };
 
@@ -564,7 +420,8 @@ const AuditWorkflow: React.FC = () => {
   };
 
   // Formatted date
-  const formatDate = (dateString: string) => {
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return 'Not set';
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'short',
@@ -590,15 +447,55 @@ const AuditWorkflow: React.FC = () => {
     <Box sx={{ mb: 6 }}>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
         <Typography variant="h5" fontWeight="bold">Audit Management Workflow</Typography>
-        <Button 
-          variant="contained" 
-          startIcon={<AddIcon />}
-          onClick={() => setNewTaskOpen(true)}
-        >
-          New Task
-        </Button>
+        {canEdit && (
+          <Button 
+            variant="contained" 
+            startIcon={<AddIcon />}
+            onClick={handleCreateTask}
+            disabled={!auditId}
+          >
+            New Task
+          </Button>
+        )}
       </Box>
 
+      {/* Invitations to join other audit teams */}
+      <AuditInvitations onAccepted={(acceptedId) => loadAudits(acceptedId)} />
+
+      {/* Audit Selection */}
+      <Paper sx={{ p: 2, mb: 3 }}>
+        {audits.length > 0 ? (
+          <TextField
+            fullWidth
+            select
+            size="small"
+            label="Audit"
+            value={auditId ?? ''}
+            onChange={(e) => handleSelectAudit(Number(e.target.value))}
+          >
+            {audits.map(audit => (
+              <MenuItem key={audit.id} value={audit.id}>
+                {audit.title} ({audit.completedTaskCount}/{audit.taskCount} tasks completed)
+              </MenuItem>
+            ))}
+          </TextField>
+        ) : (
+          <Alert severity="info">No audits are available to you yet.</Alert>
+        )}
+      </Paper>
+
+      {/* Audit lifecycle driven by the server-side workflow definition */}
+      <ApprovalWorkflow
+        entityType="audit"
+        entityId={auditId}
+        onStatusChange={(status) =>
+          setAudits(prev => prev.map(audit => audit.id === auditId ? { ...audit, status } : audit))
+        }
+      />
+
+      {/* Team membership scopes who sees the audit's data */}
+      <AuditTeamPanel auditId={auditId} />
+
       {/* Audit Phases Stepper */}
       <Paper sx={{ p: 3, mb: 3 }}>
         <Stepper activeStep={activePhase} alternativeLabel>
@@ -608,7 +505,7 @@ const AuditWorkflow: React.FC = () => {
                 StepIconProps={{
                   onClick: () => handlePhaseChange(index)
                 }}
-                sx={{ cursor: 'pointer' }}
+                sx={{ cursor: canChangePhase ? 'pointer' : 'default' }}
               >
                 {label}
               </StepLabel>
@@ -617,14 +514,14 @@ const AuditWorkflow: React.FC = () => {
         </Stepper>
         <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 2 }}>
           <Button
-            disabled={activePhase === 0}
+            disabled={!canChangePhase || activePhase === 0}
             onClick={() => handlePhaseChange(activePhase - 1)}
           >
             Back
           </Button>
           <Button
             variant="contained"
-            disabled={activePhase === auditPhases.length - 1}
+            disabled={!canChangePhase || activePhase === auditPhases.length - 1}
             onClick={() => handlePhaseChange(activePhase + 1)}
           >
             Next Phase
@@ -639,7 +536,12 @@ const AuditWorkflow: React.FC = () => {
             <Box sx={{ p: 2, borderBottom: '1px solid', borderColor: 'divider' }}>
               <Typography variant="h6">Tasks - {auditPhases[activePhase]} Phase</Typography>
             </Box>
-            {tasks.map(task => (
+            {loading && (
+              <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+                <CircularProgress />
+              </Box>
+            )}
+            {!loading && tasks.map(task => (
               <Box 
                 key={task.id}
                 sx={{ 
@@ -680,19 +582,21 @@ const AuditWorkflow: React.FC = () => {
                       />
                     </Box>
                   </Box>
-                  <IconButton 
-                    size="small" 
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleMenuOpen(e, task.id);
-                    }}
-                  >
-                    <MoreVertIcon />
-                  </IconButton>
+                  {canEdit && (
+                    <IconButton 
+                      size="small" 
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleMenuOpen(e, task.id);
+                      }}
+                    >
+                      <MoreVertIcon />
+                    </IconButton>
+                  )}
                 </Box>
               </Box>
             ))}
-            {tasks.length === 0 && (
+            {!loading && tasks.length === 0 && (
               <Box sx={{ p: 3, textAlign: 'center' }}>
                 <Typography variant="body1" color="text.secondary">
                   No tasks found for this phase. Click "New Task" to create one.
@@ -718,6 +622,7 @@ const AuditWorkflow: React.FC = () => {
                         variant="contained" 
                         size="small"
                         onClick={handleSaveTask}
+                        disabled={!currentTask.title}
                         sx={{ mr: 1 }}
                       >
                         Save
@@ -726,22 +631,24 @@ const AuditWorkflow: React.FC = () => {
                         startIcon={<CancelIcon />} 
                         variant="outlined" 
                         size="small"
-                        onClick={() => setEditMode(false)}
+                        onClick={handleCancelEdit}
                       >
                         Cancel
                       </Button>
                     </>
                   ) : (
                     <>
-                      <Button 
-                        startIcon={<EditIcon />} 
-                        variant="outlined" 
-                        size="small"
-                        onClick={handleEditTaskDetails}
-                        sx={{ mr: 1 }}
-                      >
-                        Edit
-                      </Button>
+                      {canEdit && (
+                        <Button 
+                          startIcon={<EditIcon />} 
+                          variant="outlined" 
+                          size="small"
+                          onClick={handleEditTaskDetails}
+                          sx={{ mr: 1 }}
+                        >
+                          Edit
+                        </Button>
+                      )}
                       <Button 
                         variant="outlined" 
                         color="secondary" 
@@ -810,17 +717,32 @@ const AuditWorkflow: React.FC = () => {
                     <Grid item xs={12} sm={6}>
                       <TextField
                         fullWidth
+                        select
                         label="Assignee"
-                        value={currentTask.assignedTo}
-                        onChange={(e) => setCurrentTask({ ...currentTask, assignedTo: e.target.value })}
-                      />
+                        value={currentTask.assigneeId ?? ''}
+                        onChange={(e) => {
+                          const assignee = assignees.find(user => user.id === Number(e.target.value));
+                          setCurrentTask({
+                            ...currentTask,
+                            assigneeId: assignee ? assignee.id : null,
+                            assignedTo: assignee ? assignee.name : 'Unassigned'
+                          });
+                        }}
+                      >
+                        <MenuItem value="">Unassigned</MenuItem>
+                        {assignees.map(user => (
+                          <MenuItem key={user.id} value={user.id}>
+                            {user.name} ({user.position || user.role})
+                          </MenuItem>
+                        ))}
+                      </TextField>
                     </Grid>
                     <Grid item xs={12} sm={6}>
                       <TextField
                         fullWidth
                         label="Due Date"
                         type="date"
-                        value={currentTask.dueDate}
+                        value={currentTask.dueDate || ''}
                         onChange={(e) => setCurrentTask({ ...currentTask, dueDate: e.target.value })}
                         InputLabelProps={{ shrink: true }}
                       />
@@ -863,7 +785,67 @@ const AuditWorkflow: React.FC = () => {
                         {formatDate(currentTask.dueDate)}
                       </Typography>
                     </Grid>
+                    <Grid item xs={12}>
+                      <Typography variant="subtitle2" color="text.secondary">Approval</Typography>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 0.5, flexWrap: 'wrap' }}>
+                        {renderApprovalStatus(currentTask.approvalStatus)}
+                        {currentTask.approvalStatus === 'approved' && currentTask.approvedBy && (
+                          <Typography variant="body2" color="text.secondary">
+                            by {currentTask.approvedBy}
+                          </Typography>
+                        )}
+                      </Box>
+                    </Grid>
                   </Grid>
+
+                  {/* Task Actions */}
+                  <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                    {currentTask.status !== 'completed' &&
+                      (canEdit || currentTask.assigneeId === currentUserId) && (
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        startIcon={<CheckIcon />}
+                        onClick={() => handleUpdateTaskStatus(currentTask.id, 'completed')}
+                      >
+                        Mark Complete
+                      </Button>
+                    )}
+                    {currentTask.status === 'completed' &&
+                      (currentTask.approvalStatus === 'not_submitted' || currentTask.approvalStatus === 'rejected') &&
+                      (canEdit || currentTask.assigneeId === currentUserId) && (
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        color="warning"
+                        onClick={() => handleSubmitTask(currentTask.id)}
+                      >
+                        Submit for Approval
+                      </Button>
+                    )}
+                    {currentTask.approvalStatus === 'pending' && canApprove && (
+                      <>
+                        <Button
+                          size="small"
+                          variant="contained"
+                          color="success"
+                          startIcon={<CheckIcon />}
+                          onClick={() => handleApproveTask(currentTask.id)}
+                        >
+                          Approve
+                        </Button>
+                        <Button
+                          size="small"
+                          variant="outlined"
+                          color="error"
+                          startIcon={<CloseIcon />}
+                          onClick={() => handleRejectTask(currentTask.id)}
+                        >
+                          Reject
+                        </Button>
+                      </>
+                    )}
+                  </Box>
                   
                   <Divider sx={{ my: 2 }} />
                   
@@ -941,12 +923,14 @@ const AuditWorkflow: React.FC = () => {
           </ListItemIcon>
           <ListItemText>Edit</ListItemText>
         </MenuItem>
-        <MenuItem onClick={handleDeleteTask}>
-          <ListItemIcon>
-            <DeleteIcon fontSize="small" />
-          </ListItemIcon>
-          <ListItemText>Delete</ListItemText>
-        </MenuItem>
+        {canDeleteTasks && (
+          <MenuItem onClick={handleDeleteTask}>
+            <ListItemIcon>
+              <DeleteIcon fontSize="small" />
+            </ListItemIcon>
+            <ListItemText>Delete</ListItemText>
+          </MenuItem>
+        )}
       </Menu>
 
       {/* Notification Snackbar */}
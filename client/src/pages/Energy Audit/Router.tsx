@@ -20,7 +20,8 @@ import {
   Rule as RuleIcon,
   ViewInAr as ViewInArIcon,
   CheckBox as CheckBoxIcon,
-  OfflineBolt as OfflineBoltIcon
+  OfflineBolt as OfflineBoltIcon,
+  ReceiptLong as ReceiptIcon
 } from '@mui/icons-material';
 
 // Import Dashboard component
@@ -35,6 +36,7 @@ import InspectionChecklistComponent from './components/InspectionChecklist/Inspe
 import AuditWorkflowComponent from './components/AuditWorkflow/AuditWorkflowComponent';
 import BasicEnergyCalculator from './components/EnergyCalculators/BasicEnergyCalculator';
 import ChecklistDetail from './components/StandardsReference/Compliance/ChecklistDetail';
+import UtilityBillsComponent from './components/UtilityBills';
 
 // For placeholder components that haven't been fully implemented yet,
 // create simple functional components directly in this file
@@ -154,6 +156,12 @@ const EnergyAuditRouter: React.FC = () => {
       icon: <AnalyticsIcon />,
       component: <EnergyConsumptionAnalytics />
     },
+    {
+      label: 'Utility Bills',
+      value: 'utility-bills',
+      icon: <ReceiptIcon />,
+      component: <UtilityBillsComponent />
+    },
     {
       label: 'Inspection Checklist',
       value: 'inspection-checklist',
@@ -35,6 +35,9 @@ import {
   Area,
   AreaChart
 } from 'recharts';
+import { MeteredEnergyChart } from './charts/MeteredEnergyChart';
+import { EndUseBreakdownChart } from './charts/EndUseBreakdownChart';
+import MeasurementVerificationComponent from '../MeasurementVerification';
 
 // Mock data for energy consumption
 const MOCK_DATA = {
@@ -154,6 +157,7 @@ const EnergyConsumptionAnalytics: React.FC = () => {
         <Tab label="Detailed Analysis" />
         <Tab label="Benchmarking" />
         <Tab label="Anomaly Detection" />
+        <Tab label="Measurement & Verification" />
       </Tabs>
       
       {activeTab === 0 && (
@@ -329,10 +333,14 @@ const EnergyConsumptionAnalytics: React.FC = () => {
           {/* Detailed Analysis Tab Content */}
           <Typography variant="h6" gutterBottom>Detailed Energy Analysis</Typography>
           <Typography variant="body2" paragraph>
-            This section would contain detailed energy analysis including time-series decomposition, correlation analysis, 
-            and drill-down capabilities for specific buildings and systems.
-            </Typography>
-            </Box>
+            Energy and demand recorded by each meter. Longer ranges are served from 15-minute, hourly or daily rollups.
+            The end-use breakdown shares each metered hour among circuit types in proportion to the schedules of loads.
+          </Typography>
+          <MeteredEnergyChart />
+          <Box sx={{ mt: 3 }}>
+            <EndUseBreakdownChart />
+          </Box>
+        </Box>
       )}
       
       {activeTab === 2 && (
@@ -447,6 +455,17 @@ const EnergyConsumptionAnalytics: React.FC = () => {
             </Paper>
         </Box>
       )}
+
+      {activeTab === 4 && (
+        <Box>
+          <Typography variant="h6" gutterBottom>Measurement & Verification</Typography>
+          <Typography variant="body2" paragraph>
+            Model baseline consumption against weather and occupancy, check the fit against ASHRAE Guideline 14, and
+            compute the energy avoided in the reporting period (IPMVP Option C).
+          </Typography>
+          <MeasurementVerificationComponent />
+        </Box>
+      )}
     </Box>
   );
 };
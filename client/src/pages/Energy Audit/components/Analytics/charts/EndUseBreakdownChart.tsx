@@ -0,0 +1,298 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Card,
+  CardContent,
+  Checkbox,
+  CircularProgress,
+  FormControl,
+  FormControlLabel,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+  Typography
+} from '@mui/material';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import energyService, { EnergySeries, MeterSummary } from '../../../../../services/energyService';
+import { LoadSchedule } from '../../Calculators/ScheduleOfLoads/types';
+import { loadSavedLoadSchedules } from '../../Calculators/utils/storage';
+import {
+  disaggregateLoad,
+  END_USE_LABELS,
+  END_USES,
+  EndUse,
+  getEndUseProfiles
+} from '../../Calculators/utils/loadDisaggregationUtils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGES: Array<{ value: string; label: string; days: number }> = [
+  { value: '7d', label: 'Last 7 days', days: 7 },
+  { value: '30d', label: 'Last 30 days', days: 30 },
+  { value: '90d', label: 'Last 90 days', days: 90 }
+];
+
+const END_USE_COLORS: Record<EndUse, string> = {
+  hvac: '#0088FE',
+  lighting: '#FFBB28',
+  receptacle: '#00C49F',
+  motor: '#FF8042',
+  special: '#8884d8',
+  other: '#9e9e9e'
+};
+
+// Unoccupied-hour demand as a share of scheduled demand
+const UNOCCUPIED_LOAD_FACTOR = 0.1;
+
+/**
+ * Metered consumption broken down by end use, using the schedules of loads to shape the split
+ */
+export const EndUseBreakdownChart: React.FC = () => {
+  const [meters, setMeters] = useState<MeterSummary[]>([]);
+  const [meterId, setMeterId] = useState<number | ''>('');
+  const [range, setRange] = useState('7d');
+  const [series, setSeries] = useState<EnergySeries | null>(null);
+  const [schedules, setSchedules] = useState<LoadSchedule[]>([]);
+  const [selectedScheduleIds, setSelectedScheduleIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const saved = loadSavedLoadSchedules();
+    setSchedules(saved);
+    setSelectedScheduleIds(saved.map(schedule => schedule.id));
+
+    energyService.getMeters()
+      .then(result => {
+        setMeters(result);
+        if (result.length > 0) setMeterId(result[0].id);
+      })
+      .catch((err: any) => setError(err?.response?.data?.message || 'Failed to load meters'));
+  }, []);
+
+  useEffect(() => {
+    if (meterId === '') return;
+    let cancelled = false;
+    const to = new Date();
+    const days = RANGES.find(option => option.value === range)?.days ?? 7;
+
+    setLoading(true);
+    setError(null);
+    energyService.getSeries({ meterId, from: new Date(to.getTime() - days * DAY_MS), to, resolution: 'hour' })
+      .then(result => {
+        if (!cancelled) setSeries(result);
+      })
+      .catch((err: any) => {
+        if (!cancelled) {
+          setSeries(null);
+          setError(err?.response?.data?.message || 'Failed to load energy data');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [meterId, range]);
+
+  const result = useMemo(() => {
+    const selected = schedules.filter(schedule => selectedScheduleIds.includes(schedule.id));
+    if (!series || selected.length === 0) return null;
+    const hours = series.points
+      .filter(point => point.energyKwh !== null)
+      .map(point => ({ timestamp: point.timestamp, energyKwh: point.energyKwh as number }));
+    return disaggregateLoad(getEndUseProfiles(selected, UNOCCUPIED_LOAD_FACTOR), hours);
+  }, [series, schedules, selectedScheduleIds]);
+
+  // Hourly detail for a week; daily totals beyond that
+  const chartData = useMemo(() => {
+    if (!result) return [];
+    if (range === '7d') {
+      return result.hours.map(hour => ({
+        label: new Date(hour.timestamp).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' }),
+        ...hour.endUses
+      }));
+    }
+    const days = new Map<string, Record<string, number | string>>();
+    result.hours.forEach(hour => {
+      const label = new Date(hour.timestamp).toLocaleDateString();
+      const day = days.get(label) ?? { label };
+      END_USES.forEach(endUse => {
+        day[endUse] = ((day[endUse] as number) || 0) + hour.endUses[endUse];
+      });
+      days.set(label, day);
+    });
+    return Array.from(days.values());
+  }, [result, range]);
+
+  const pieData = result
+    ? END_USES.filter(endUse => result.totals[endUse] > 0).map(endUse => ({ endUse, value: result.totals[endUse] }))
+    : [];
+
+  const toggleSchedule = (scheduleId: string) => {
+    setSelectedScheduleIds(prev =>
+      prev.includes(scheduleId) ? prev.filter(id => id !== scheduleId) : [...prev, scheduleId]
+    );
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          End-Use Breakdown
+        </Typography>
+
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid item xs={12} sm={6}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="end-use-meter-label">Meter</InputLabel>
+              <Select
+                labelId="end-use-meter-label"
+                value={meterId}
+                label="Meter"
+                onChange={(e) => setMeterId(Number(e.target.value))}
+              >
+                {meters.map(meter => (
+                  <MenuItem key={meter.id} value={meter.id}>
+                    {meter.buildingName} – {meter.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="end-use-range-label">Time Range</InputLabel>
+              <Select
+                labelId="end-use-range-label"
+                value={range}
+                label="Time Range"
+                onChange={(e) => setRange(e.target.value)}
+              >
+                {RANGES.map(option => (
+                  <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12}>
+            <Typography variant="subtitle2" gutterBottom>
+              Schedules of Loads on this Meter
+            </Typography>
+            {schedules.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No saved load schedules found. Save the building's panels from the Schedule of Loads calculator,
+                with their operating hours, to break metered consumption down by end use.
+              </Typography>
+            ) : (
+              schedules.map(schedule => (
+                <FormControlLabel
+                  key={schedule.id}
+                  control={
+                    <Checkbox
+                      size="small"
+                      checked={selectedScheduleIds.includes(schedule.id)}
+                      onChange={() => toggleSchedule(schedule.id)}
+                    />
+                  }
+                  label={`${schedule.panelName} (${(schedule.totalDemandLoad / 1000).toFixed(1)} kW)`}
+                />
+              ))
+            )}
+          </Grid>
+        </Grid>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {result && result.scaleFactor !== null && (result.scaleFactor < 0.5 || result.scaleFactor > 2) && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            The meter recorded {result.scaleFactor.toFixed(1)}× the consumption the selected schedules predict. Check
+            that the schedules cover the loads on this meter before relying on the breakdown.
+          </Alert>
+        )}
+
+        <Grid container spacing={2}>
+          <Grid item xs={12} md={8}>
+            <Box sx={{ height: 350, position: 'relative' }}>
+              {loading && (
+                <Box sx={{ position: 'absolute', inset: 0, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                  <CircularProgress />
+                </Box>
+              )}
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="label" minTickGap={24} />
+                  <YAxis unit=" kWh" width={80} />
+                  <RechartsTooltip formatter={(value: number) => `${value.toFixed(1)} kWh`} />
+                  <Legend />
+                  {END_USES.map(endUse => (
+                    <Area
+                      key={endUse}
+                      type="monotone"
+                      dataKey={endUse}
+                      name={END_USE_LABELS[endUse]}
+                      stackId="end-use"
+                      stroke={END_USE_COLORS[endUse]}
+                      fill={END_USE_COLORS[endUse]}
+                    />
+                  ))}
+                </AreaChart>
+              </ResponsiveContainer>
+            </Box>
+          </Grid>
+          <Grid item xs={12} md={4}>
+            {result && result.meteredKwh > 0 && (
+              <>
+                <Box sx={{ height: 200 }}>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <PieChart>
+                      <Pie data={pieData} dataKey="value" nameKey="endUse" outerRadius={80}>
+                        {pieData.map(entry => (
+                          <Cell key={entry.endUse} fill={END_USE_COLORS[entry.endUse]} />
+                        ))}
+                      </Pie>
+                      <RechartsTooltip
+                        formatter={(value: number, name: string) => [`${Math.round(value).toLocaleString()} kWh`, END_USE_LABELS[name as EndUse]]}
+                      />
+                    </PieChart>
+                  </ResponsiveContainer>
+                </Box>
+                <Table size="small">
+                  <TableBody>
+                    {END_USES.filter(endUse => result.totals[endUse] > 0).map(endUse => (
+                      <TableRow key={endUse}>
+                        <TableCell>{END_USE_LABELS[endUse]}</TableCell>
+                        <TableCell align="right">{Math.round(result.totals[endUse]).toLocaleString()} kWh</TableCell>
+                        <TableCell align="right">{(result.shares[endUse] * 100).toFixed(1)}%</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </Grid>
+        </Grid>
+      </CardContent>
+    </Card>
+  );
+};
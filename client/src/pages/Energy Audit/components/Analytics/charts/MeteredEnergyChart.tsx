@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Card,
+  CardContent,
+  CircularProgress,
+  FormControl,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Select,
+  Typography
+} from '@mui/material';
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import energyService, { EnergySeries, MeterSummary, SeriesResolution } from '../../../../../services/energyService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGES: Array<{ value: string; label: string; days: number }> = [
+  { value: '1d', label: 'Last 24 hours', days: 1 },
+  { value: '7d', label: 'Last 7 days', days: 7 },
+  { value: '30d', label: 'Last 30 days', days: 30 },
+  { value: '1y', label: 'Last year', days: 365 },
+  { value: '3y', label: 'Last 3 years', days: 3 * 365 }
+];
+
+const RESOLUTIONS: Array<{ value: SeriesResolution | 'auto'; label: string }> = [
+  { value: 'auto', label: 'Automatic' },
+  { value: 'raw', label: 'Raw readings' },
+  { value: '15min', label: '15 minutes' },
+  { value: 'hour', label: 'Hourly' },
+  { value: 'day', label: 'Daily' }
+];
+
+const formatBucket = (timestamp: string, resolution: SeriesResolution) =>
+  resolution === 'day'
+    ? new Date(timestamp).toLocaleDateString()
+    : new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const MeteredEnergyChart: React.FC = () => {
+  const [meters, setMeters] = useState<MeterSummary[]>([]);
+  const [meterId, setMeterId] = useState<number | ''>('');
+  const [range, setRange] = useState('7d');
+  const [resolution, setResolution] = useState<SeriesResolution | 'auto'>('auto');
+  const [series, setSeries] = useState<EnergySeries | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    energyService.getMeters()
+      .then(result => {
+        setMeters(result);
+        if (result.length > 0) setMeterId(result[0].id);
+      })
+      .catch((err: any) => setError(err?.response?.data?.message || 'Failed to load meters'));
+  }, []);
+
+  useEffect(() => {
+    if (meterId === '') return;
+    let cancelled = false;
+    const to = new Date();
+    const days = RANGES.find(option => option.value === range)?.days ?? 7;
+
+    setLoading(true);
+    setError(null);
+    energyService.getSeries({ meterId, from: new Date(to.getTime() - days * DAY_MS), to, resolution })
+      .then(result => {
+        if (!cancelled) setSeries(result);
+      })
+      .catch((err: any) => {
+        if (!cancelled) {
+          setSeries(null);
+          setError(err?.response?.data?.message || 'Failed to load energy data');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [meterId, range, resolution]);
+
+  const chartData = useMemo(
+    () => (series?.points || []).map(point => ({
+      ...point,
+      label: formatBucket(point.timestamp, series!.resolution)
+    })),
+    [series]
+  );
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          Metered Energy Consumption
+        </Typography>
+
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid item xs={12} sm={4}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="metered-energy-meter-label">Meter</InputLabel>
+              <Select
+                labelId="metered-energy-meter-label"
+                value={meterId}
+                label="Meter"
+                onChange={(e) => setMeterId(Number(e.target.value))}
+              >
+                {meters.map(meter => (
+                  <MenuItem key={meter.id} value={meter.id}>
+                    {meter.buildingName} – {meter.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="metered-energy-range-label">Time Range</InputLabel>
+              <Select
+                labelId="metered-energy-range-label"
+                value={range}
+                label="Time Range"
+                onChange={(e) => setRange(e.target.value)}
+              >
+                {RANGES.map(option => (
+                  <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="metered-energy-resolution-label">Resolution</InputLabel>
+              <Select
+                labelId="metered-energy-resolution-label"
+                value={resolution}
+                label="Resolution"
+                onChange={(e) => setResolution(e.target.value as SeriesResolution | 'auto')}
+              >
+                {RESOLUTIONS.map(option => (
+                  <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+        </Grid>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {!error && meters.length === 0 && (
+          <Alert severity="info" sx={{ mb: 2 }}>No meters have been set up yet.</Alert>
+        )}
+
+        {series && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            {series.totals.energyKwh.toLocaleString()} kWh
+            {series.totals.peakDemandKw !== null && ` · peak demand ${series.totals.peakDemandKw.toLocaleString()} kW`}
+            {` · ${RESOLUTIONS.find(option => option.value === series.resolution)?.label.toLowerCase()} resolution`}
+          </Typography>
+        )}
+
+        <Box sx={{ height: 350, position: 'relative' }}>
+          {loading && (
+            <Box sx={{ position: 'absolute', inset: 0, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+              <CircularProgress />
+            </Box>
+          )}
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" minTickGap={24} />
+              <YAxis yAxisId="energy" />
+              <YAxis yAxisId="demand" orientation="right" />
+              <RechartsTooltip />
+              <Legend />
+              <Bar yAxisId="energy" dataKey="energyKwh" name="Energy (kWh)" fill="#8884d8" />
+              <Line yAxisId="demand" type="monotone" dataKey="averageKw" name="Average demand (kW)" stroke="#82ca9d" dot={false} />
+              {series?.resolution !== 'raw' && (
+                <Line yAxisId="demand" type="monotone" dataKey="peakDemandKw" name="Peak demand (kW)" stroke="#ff7300" dot={false} />
+              )}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
@@ -37,7 +37,8 @@ const SignatureDialog: React.FC<Props> = ({
 
   const handleSave = () => {
     if (signatureRef.current) {
-      const signatureData = signatureRef.current.toDataURL();
+      // An untouched pad is saved as no drawing rather than a blank image
+      const signatureData = signatureRef.current.isEmpty() ? '' : signatureRef.current.toDataURL('image/png');
       onSave({
         userName,
         userRole,
@@ -9,6 +9,8 @@ export * from './utils';
 
 // Charts
 export * from './charts/HistoricalComparisonChart';
+export * from './charts/MeteredEnergyChart';
+export * from './charts/EndUseBreakdownChart';
 
 // Dialogs
 export * from './dialogs/CustomBenchmarkDialog';
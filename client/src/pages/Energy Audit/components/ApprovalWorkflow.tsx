@@ -1,3 +1,219 @@
-import React from 'react';
-const ApprovalWorkflow = () => <div>Approval Workflow Coming Soon!</div>;
-export default ApprovalWorkflow; 
\ No newline at end of file
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Step,
+  StepLabel,
+  Stepper,
+  TextField,
+  Typography
+} from '@mui/material';
+import workflowService, {
+  WorkflowDefinition,
+  WorkflowEntityType,
+  WorkflowStatus,
+  WorkflowTransition
+} from '../../../services/workflowService';
+import { getErrorMessage } from '../../../utils/errorMessages';
+
+interface ApprovalWorkflowProps {
+  entityType?: WorkflowEntityType;
+  entityId: number | null;
+  // Called after a transition succeeds with the entity's new state
+  onStatusChange?: (status: string) => void;
+}
+
+/**
+ * Lifecycle stepper and approval actions for an audit or finding.
+ * States, transitions and who may trigger them all come from the server-side workflow definition.
+ */
+const ApprovalWorkflow: React.FC<ApprovalWorkflowProps> = ({ entityType = 'audit', entityId, onStatusChange }) => {
+  const [definition, setDefinition] = useState<WorkflowDefinition | null>(null);
+  const [status, setStatus] = useState<WorkflowStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<WorkflowTransition | null>(null);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    workflowService.getDefinition(entityType)
+      .then(setDefinition)
+      .catch(err => setError(getErrorMessage(err, 'Failed to load workflow')));
+  }, [entityType]);
+
+  const loadStatus = useCallback(async () => {
+    if (!entityId) {
+      setStatus(null);
+      return;
+    }
+    setLoading(true);
+    try {
+      setStatus(await workflowService.getStatus(entityType, entityId));
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load workflow status'));
+    } finally {
+      setLoading(false);
+    }
+  }, [entityType, entityId]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const stateLabel = (key: string) => definition?.states.find(state => state.key === key)?.label || key;
+
+  const handleOpenTransition = (transition: WorkflowTransition) => {
+    setPending(transition);
+    setComment('');
+  };
+
+  const handleConfirmTransition = async () => {
+    if (!pending || !entityId) return;
+    setSubmitting(true);
+    try {
+      await workflowService.transition(entityType, entityId, pending.to, comment.trim() || undefined);
+      setPending(null);
+      await loadStatus();
+      onStatusChange?.(pending.to);
+    } catch (err) {
+      setError(getErrorMessage(err, `Failed to ${pending.label.toLowerCase()}`));
+      setPending(null);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!entityId) {
+    return null;
+  }
+
+  const states = definition?.states || [];
+  const currentIndex = states.findIndex(state => state.key === status?.status);
+  const currentState = currentIndex >= 0 ? states[currentIndex] : null;
+  const isForward = (transition: WorkflowTransition) =>
+    states.findIndex(state => state.key === transition.to) > currentIndex;
+
+  return (
+    <Paper sx={{ p: 3, mb: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h6">Approval Workflow</Typography>
+        {status && (
+          <Chip
+            label={stateLabel(status.status)}
+            color={currentState?.isFinal ? 'success' : 'primary'}
+          />
+        )}
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && !status ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : (
+        <>
+          <Stepper activeStep={currentIndex} alternativeLabel>
+            {states.map((state, index) => (
+              <Step key={state.key} completed={index < currentIndex || (index === currentIndex && state.isFinal)}>
+                <StepLabel>{state.label}</StepLabel>
+              </Step>
+            ))}
+          </Stepper>
+
+          {currentState?.description && (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+              {currentState.description}
+            </Typography>
+          )}
+
+          {status && (
+            <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mt: 2 }}>
+              {status.availableTransitions.map(transition => (
+                <Button
+                  key={`${transition.from}-${transition.to}`}
+                  variant={isForward(transition) ? 'contained' : 'outlined'}
+                  color={isForward(transition) ? 'primary' : 'warning'}
+                  onClick={() => handleOpenTransition(transition)}
+                >
+                  {transition.label}
+                </Button>
+              ))}
+              {status.availableTransitions.length === 0 && !currentState?.isFinal && (
+                <Typography variant="body2" color="text.secondary">
+                  Waiting for someone with the required role to move this {entityType} forward.
+                </Typography>
+              )}
+            </Box>
+          )}
+
+          {status && status.history.length > 0 && (
+            <>
+              <Typography variant="subtitle2" sx={{ mt: 3 }}>History</Typography>
+              <List dense>
+                {status.history.slice().reverse().map(entry => (
+                  <ListItem key={entry.id} disableGutters>
+                    <ListItemText
+                      primary={`${entry.label}: ${stateLabel(entry.from)} → ${stateLabel(entry.to)}`}
+                      secondary={[
+                        entry.user,
+                        new Date(entry.date).toLocaleString(),
+                        entry.comment
+                      ].filter(Boolean).join(' · ')}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </>
+          )}
+        </>
+      )}
+
+      <Dialog open={Boolean(pending)} onClose={() => setPending(null)} fullWidth maxWidth="sm">
+        <DialogTitle>{pending?.label}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            Move from {pending && stateLabel(pending.from)} to {pending && stateLabel(pending.to)}.
+          </Typography>
+          <TextField
+            fullWidth
+            multiline
+            rows={3}
+            label={pending?.requiresComment ? 'Comment (required)' : 'Comment (optional)'}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPending(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleConfirmTransition}
+            disabled={submitting || (pending?.requiresComment && !comment.trim())}
+          >
+            {submitting ? <CircularProgress size={20} /> : 'Confirm'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default ApprovalWorkflow;
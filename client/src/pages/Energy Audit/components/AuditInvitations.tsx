@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Button, Stack } from '@mui/material';
+import energyAuditService, { AuditTeamInvitation } from '../../../services/energyAuditService';
+import { TEAM_ROLE_LABELS } from './AuditTeamPanel';
+import { getErrorMessage } from '../../../utils/errorMessages';
+
+interface AuditInvitationsProps {
+  // Called with the audit id after the user joins its team
+  onAccepted?: (auditId: number) => void;
+}
+
+/**
+ * Pending invitations to join an audit team, with accept and decline actions
+ */
+const AuditInvitations: React.FC<AuditInvitationsProps> = ({ onAccepted }) => {
+  const [invitations, setInvitations] = useState<AuditTeamInvitation[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  useEffect(() => {
+    energyAuditService.getMyInvitations()
+      .then(setInvitations)
+      .catch(err => console.error('Error loading invitations:', err));
+  }, []);
+
+  const respond = async (invitation: AuditTeamInvitation, accept: boolean) => {
+    setBusyId(invitation.id);
+    try {
+      if (accept) {
+        await energyAuditService.acceptInvitation(invitation.id);
+      } else {
+        await energyAuditService.declineInvitation(invitation.id);
+      }
+      setInvitations(prev => prev.filter(item => item.id !== invitation.id));
+      setError(null);
+      if (accept) {
+        onAccepted?.(invitation.auditId);
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to respond to invitation'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (invitations.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <Stack spacing={1} sx={{ mb: 3 }}>
+      {error && <Alert severity="error">{error}</Alert>}
+      {invitations.map(invitation => (
+        <Alert
+          key={invitation.id}
+          severity="info"
+          action={
+            <Stack direction="row" spacing={1}>
+              <Button size="small" onClick={() => respond(invitation, false)} disabled={busyId === invitation.id}>
+                Decline
+              </Button>
+              <Button
+                size="small"
+                variant="contained"
+                onClick={() => respond(invitation, true)}
+                disabled={busyId === invitation.id}
+              >
+                Accept
+              </Button>
+            </Stack>
+          }
+        >
+          {invitation.invitedBy || 'Someone'} invited you to join "{invitation.auditTitle}" as{' '}
+          {TEAM_ROLE_LABELS[invitation.role].toLowerCase()}.
+        </Alert>
+      ))}
+    </Stack>
+  );
+};
+
+export default AuditInvitations;
@@ -7,7 +7,7 @@ import { saveAs } from 'file-saver';
 import Papa from 'papaparse';
 import { FixedSizeList as List, ListChildComponentProps } from 'react-window';
 import * as XLSX from 'xlsx';
-import { useUserRole } from '../../contexts/UserRoleContext';
+import usePermissions from '../../../../hooks/usePermissions';
 import UndoIcon from '@mui/icons-material/Undo';
 import RedoIcon from '@mui/icons-material/Redo';
 import LiveTvIcon from '@mui/icons-material/LiveTv';
@@ -358,8 +358,8 @@ const AuditTableContainer: React.FC<AuditTableContainerProps> = ({
   onAddRow,
   onDeleteRow,
 }) => {
-  // Get user role for permissions
-  const { role, permissions } = useUserRole();
+  // Actions follow the signed-in user's permissions, which the server also enforces
+  const { access: permissions } = usePermissions();
   
   // State for audits and filtering
   const [audits, setAudits] = useState<AuditEntry[]>([]);
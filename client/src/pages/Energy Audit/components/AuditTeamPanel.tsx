@@ -0,0 +1,225 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Paper,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { Close as CancelIcon, PersonRemove as RemoveIcon } from '@mui/icons-material';
+import energyAuditService, { AuditTeam, AuditTeamRole } from '../../../services/energyAuditService';
+import { getErrorMessage } from '../../../utils/errorMessages';
+
+interface AuditTeamPanelProps {
+  auditId: number | null;
+}
+
+export const TEAM_ROLE_LABELS: Record<AuditTeamRole, string> = {
+  lead_auditor: 'Lead Auditor',
+  auditor: 'Auditor',
+  client_viewer: 'Client Viewer'
+};
+
+/**
+ * Members of an audit team and, for lead auditors and users with audit.assign, invitations and
+ * role changes. Team membership decides who sees the audit's findings, reports and calculations.
+ */
+const AuditTeamPanel: React.FC<AuditTeamPanelProps> = ({ auditId }) => {
+  const [team, setTeam] = useState<AuditTeam | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [invitee, setInvitee] = useState('');
+  const [inviteRole, setInviteRole] = useState<AuditTeamRole>('auditor');
+  const [busy, setBusy] = useState(false);
+
+  const loadTeam = useCallback(async () => {
+    if (!auditId) {
+      setTeam(null);
+      return;
+    }
+    setLoading(true);
+    try {
+      setTeam(await energyAuditService.getTeam(auditId));
+      setError(null);
+    } catch (err) {
+      setTeam(null);
+      setError(getErrorMessage(err, 'Failed to load audit team'));
+    } finally {
+      setLoading(false);
+    }
+  }, [auditId]);
+
+  useEffect(() => {
+    loadTeam();
+  }, [loadTeam]);
+
+  const runAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+    setBusy(true);
+    try {
+      await action();
+      setError(null);
+      await loadTeam();
+    } catch (err) {
+      setError(getErrorMessage(err, failureMessage));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleInvite = () => {
+    if (!auditId || !invitee.trim()) return;
+    runAction(async () => {
+      await energyAuditService.inviteTeamMember(auditId, invitee.trim(), inviteRole);
+      setInvitee('');
+    }, 'Failed to send invitation');
+  };
+
+  if (!auditId) {
+    return null;
+  }
+
+  return (
+    <Paper sx={{ p: 3, mb: 3 }}>
+      <Typography variant="h6" gutterBottom>Audit Team</Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      {loading && !team ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', my: 2 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : team && (
+        <>
+          <List dense>
+            {team.members.map(member => (
+              <ListItem
+                key={member.userId}
+                disableGutters
+                secondaryAction={team.canManage && (
+                  <Tooltip title="Remove from team">
+                    <span>
+                      <IconButton
+                        edge="end"
+                        size="small"
+                        disabled={busy}
+                        onClick={() => runAction(
+                          () => energyAuditService.removeTeamMember(auditId, member.userId),
+                          'Failed to remove team member'
+                        )}
+                      >
+                        <RemoveIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                )}
+              >
+                <ListItemText primary={member.name} secondary={member.email || member.username} />
+                {team.canManage ? (
+                  <TextField
+                    select
+                    size="small"
+                    value={member.role}
+                    disabled={busy}
+                    onChange={(e) => runAction(
+                      () => energyAuditService.updateTeamMember(auditId, member.userId, e.target.value as AuditTeamRole),
+                      'Failed to change team role'
+                    )}
+                    sx={{ minWidth: 160, mr: 4 }}
+                  >
+                    {Object.entries(TEAM_ROLE_LABELS).map(([role, label]) => (
+                      <MenuItem key={role} value={role}>{label}</MenuItem>
+                    ))}
+                  </TextField>
+                ) : (
+                  <Chip label={TEAM_ROLE_LABELS[member.role]} size="small" variant="outlined" />
+                )}
+              </ListItem>
+            ))}
+          </List>
+
+          {team.canManage && (
+            <>
+              {team.invitations.length > 0 && (
+                <Box sx={{ mt: 1 }}>
+                  <Typography variant="subtitle2" color="textSecondary">Pending invitations</Typography>
+                  <List dense>
+                    {team.invitations.map(invitation => (
+                      <ListItem
+                        key={invitation.id}
+                        disableGutters
+                        secondaryAction={
+                          <Tooltip title="Cancel invitation">
+                            <span>
+                              <IconButton
+                                edge="end"
+                                size="small"
+                                disabled={busy}
+                                onClick={() => runAction(
+                                  () => energyAuditService.cancelInvitation(auditId, invitation.id),
+                                  'Failed to cancel invitation'
+                                )}
+                              >
+                                <CancelIcon fontSize="small" />
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                        }
+                      >
+                        <ListItemText
+                          primary={invitation.email}
+                          secondary={`${TEAM_ROLE_LABELS[invitation.role]} · expires ${new Date(invitation.expiresAt).toLocaleDateString()}`}
+                        />
+                      </ListItem>
+                    ))}
+                  </List>
+                </Box>
+              )}
+
+              <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1} sx={{ mt: 2 }}>
+                <TextField
+                  size="small"
+                  label="Username or email"
+                  value={invitee}
+                  onChange={(e) => setInvitee(e.target.value)}
+                  disabled={busy}
+                  sx={{ flexGrow: 1 }}
+                />
+                <TextField
+                  select
+                  size="small"
+                  label="Role"
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as AuditTeamRole)}
+                  disabled={busy}
+                  sx={{ minWidth: 160 }}
+                >
+                  {Object.entries(TEAM_ROLE_LABELS).map(([role, label]) => (
+                    <MenuItem key={role} value={role}>{label}</MenuItem>
+                  ))}
+                </TextField>
+                <Button variant="outlined" onClick={handleInvite} disabled={busy || !invitee.trim()}>
+                  Invite
+                </Button>
+              </Stack>
+              <Typography variant="caption" color="textSecondary">
+                Client viewers only see the audit's published reports.
+              </Typography>
+            </>
+          )}
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default AuditTeamPanel;
@@ -32,6 +32,10 @@ import VoltageRegulationCalculator from './VoltageRegulationCalculator';
 import LightingPowerDensityCalculator from './LightingPowerDensityCalculator';
 import VoltageDropCalculator from './VoltageDropCalculator';
 import WaterDropIcon from '@mui/icons-material/WaterDrop';
+import SolarPowerIcon from '@mui/icons-material/SolarPower';
+import SolarPVCalculator from './SolarPVCalculator';
+import ReceiptLongIcon from '@mui/icons-material/ReceiptLong';
+import TariffBillCalculator from './TariffBillCalculator';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -100,6 +104,8 @@ const Calculators: React.FC = () => {
             <Tab icon={<ElectricMeterIcon />} label="Voltage Regulation" {...a11yProps(9)} />
             <Tab icon={<HighlightIcon />} label="Lighting Power Density" {...a11yProps(10)} />
             <Tab icon={<WaterDropIcon />} label="Voltage Drop" {...a11yProps(11)} />
+            <Tab icon={<SolarPowerIcon />} label="Solar PV" {...a11yProps(12)} />
+            <Tab icon={<ReceiptLongIcon />} label="Utility Bill" {...a11yProps(13)} />
           </Tabs>
           
           {/* Overview Tab */}
@@ -293,6 +299,40 @@ const Calculators: React.FC = () => {
                   </CardActionArea>
                 </Card>
               </Grid>
+
+              <Grid item xs={12} sm={6} md={4}>
+                <Card>
+                  <CardActionArea onClick={() => setTabValue(12)}>
+                    <CardContent>
+                      <SolarPowerIcon color="primary" sx={{ fontSize: 40, mb: 1 }} />
+                      <Typography variant="h6" gutterBottom>
+                        Solar PV Calculator
+                      </Typography>
+                      <Typography variant="body2" color="text.secondary">
+                        Size rooftop solar from the building roof area, estimate self-consumption
+                        and net-metering exports, and evaluate payback, NPV and IRR.
+                      </Typography>
+                    </CardContent>
+                  </CardActionArea>
+                </Card>
+              </Grid>
+
+              <Grid item xs={12} sm={6} md={4}>
+                <Card>
+                  <CardActionArea onClick={() => setTabValue(13)}>
+                    <CardContent>
+                      <ReceiptLongIcon color="primary" sx={{ fontSize: 40, mb: 1 }} />
+                      <Typography variant="h6" gutterBottom>
+                        Utility Bill Calculator
+                      </Typography>
+                      <Typography variant="body2" color="text.secondary">
+                        Price monthly usage or metered interval data against a utility tariff, with
+                        demand and time-of-use charges, VAT and lifeline or senior citizen discounts.
+                      </Typography>
+                    </CardContent>
+                  </CardActionArea>
+                </Card>
+              </Grid>
             </Grid>
             
             <Box sx={{ mt: 4 }}>
@@ -404,6 +444,16 @@ const Calculators: React.FC = () => {
           <TabPanel value={tabValue} index={11}>
             <VoltageDropCalculator />
           </TabPanel>
+
+          {/* Solar PV Tab */}
+          <TabPanel value={tabValue} index={12}>
+            <SolarPVCalculator />
+          </TabPanel>
+
+          {/* Utility Bill Tab */}
+          <TabPanel value={tabValue} index={13}>
+            <TariffBillCalculator />
+          </TabPanel>
         </Paper>
         
         <Paper sx={{ p: 3, mt: 3 }}>
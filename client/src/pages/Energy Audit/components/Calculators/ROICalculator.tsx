@@ -26,6 +26,8 @@ import SaveIcon from '@mui/icons-material/Save';
 import CalculateIcon from '@mui/icons-material/Calculate';
 import TrendingUpIcon from '@mui/icons-material/TrendingUp';
 import MonetizationOnIcon from '@mui/icons-material/MonetizationOn';
+import { analyzeCashFlows, CashFlowMetrics } from './utils/roiUtils';
+import TariffRateSelector from './TariffRateSelector';
 
 interface ROICalculationInputs {
   initialCost: string;
@@ -37,23 +39,6 @@ interface ROICalculationInputs {
   electricityEscalationRate: string;
 }
 
-interface ROICalculationResults {
-  simplePayback: number;
-  npv: number;
-  irr: number;
-  roi: number;
-  savingsToInvestmentRatio: number;
-  yearlyResults: YearlyResult[];
-}
-
-interface YearlyResult {
-  year: number;
-  cashFlow: number;
-  discountedCashFlow: number;
-  cumulativeCashFlow: number;
-  cumulativeDiscountedCashFlow: number;
-}
-
 interface ProjectOption {
   name: string;
   description: string;
@@ -109,8 +94,11 @@ const ROICalculator: React.FC = () => {
     electricityEscalationRate: '5'
   });
   
-  const [results, setResults] = useState<ROICalculationResults | null>(null);
+  const [results, setResults] = useState<CashFlowMetrics | null>(null);
   const [selectedProject, setSelectedProject] = useState<string>('');
+  // With a tariff selected, savings are entered in kWh and priced at the tariff's energy rate
+  const [tariffRate, setTariffRate] = useState<number | null>(null);
+  const [savedKwh, setSavedKwh] = useState<string>('');
   
   // Handle input changes
   const handleInputChange = (field: keyof ROICalculationInputs) => (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -120,6 +108,21 @@ const ROICalculator: React.FC = () => {
     });
   };
   
+  const priceSavings = (kwh: string, rate: number | null) => {
+    if (rate === null || kwh === '') return;
+    setInputs(prev => ({ ...prev, annualSavings: (parseFloat(kwh) * rate).toFixed(2) }));
+  };
+
+  const handleTariffRateChange = (rate: number | null) => {
+    setTariffRate(rate);
+    priceSavings(savedKwh, rate);
+  };
+
+  const handleSavedKwhChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setSavedKwh(event.target.value);
+    priceSavings(event.target.value, tariffRate);
+  };
+
   // Handle project selection
   const handleProjectSelect = (event: SelectChangeEvent) => {
     setSelectedProject(event.target.value);
@@ -145,23 +148,12 @@ const ROICalculator: React.FC = () => {
     const discountRate = parseFloat(inputs.discountRate) / 100;
     const inflationRate = parseFloat(inputs.inflationRate) / 100;
     const electricityEscalationRate = parseFloat(inputs.electricityEscalationRate) / 100;
-    
-    // Simple payback period
-    const simplePayback = initialCost / (annualSavings - maintenanceCost);
-    
-    // Calculate yearly results
-    const yearlyResults: YearlyResult[] = [];
-    let npv = -initialCost;
-    let cumulativeCashFlow = -initialCost;
-    let cumulativeDiscountedCashFlow = -initialCost;
-    
-    yearlyResults.push({
-      year: 0,
-      cashFlow: -initialCost,
-      discountedCashFlow: -initialCost,
-      cumulativeCashFlow,
-      cumulativeDiscountedCashFlow
-    });
+
+    if (!(initialCost > 0) || !(projectLifespan > 0)) {
+      return;
+    }
+
+    const cashFlows = [-initialCost];
     
     for (let year = 1; year <= projectLifespan; year++) {
       // Apply escalation rate to savings
@@ -171,46 +163,10 @@ const ROICalculator: React.FC = () => {
       const adjustedMaintenance = maintenanceCost * Math.pow(1 + inflationRate, year - 1);
       
       // Net cash flow for the year
-      const cashFlow = adjustedSavings - adjustedMaintenance;
-      
-      // Discounted cash flow
-      const discountedCashFlow = cashFlow / Math.pow(1 + discountRate, year);
-      
-      // Update NPV
-      npv += discountedCashFlow;
-      
-      // Update cumulative values
-      cumulativeCashFlow += cashFlow;
-      cumulativeDiscountedCashFlow += discountedCashFlow;
-      
-      yearlyResults.push({
-        year,
-        cashFlow,
-        discountedCashFlow,
-        cumulativeCashFlow,
-        cumulativeDiscountedCashFlow
-      });
+      cashFlows.push(adjustedSavings - adjustedMaintenance);
     }
     
-    // Calculate IRR (simplified approximation)
-    // For a more accurate IRR, you would use an iterative method
-    const irr = (annualSavings - maintenanceCost) / initialCost * 100;
-    
-    // ROI over project lifespan
-    const totalSavings = yearlyResults.reduce((acc, year) => acc + year.cashFlow, 0) + initialCost;
-    const roi = (totalSavings / initialCost) * 100;
-    
-    // Savings to Investment Ratio (SIR)
-    const savingsToInvestmentRatio = npv / initialCost + 1;
-    
-    setResults({
-      simplePayback,
-      npv,
-      irr,
-      roi,
-      savingsToInvestmentRatio,
-      yearlyResults
-    });
+    setResults(analyzeCashFlows(cashFlows, discountRate));
   };
   
   // Calculate on mount and when inputs change
@@ -278,6 +234,22 @@ const ROICalculator: React.FC = () => {
                   InputProps={{ inputProps: { min: 0 } }}
                 />
               </Grid>
+              <Grid item xs={12}>
+                <TariffRateSelector onRateChange={handleTariffRateChange} />
+              </Grid>
+              {tariffRate !== null && (
+                <Grid item xs={12}>
+                  <TextField
+                    label="Annual Energy Savings (kWh)"
+                    type="number"
+                    value={savedKwh}
+                    onChange={handleSavedKwhChange}
+                    fullWidth
+                    InputProps={{ inputProps: { min: 0 } }}
+                    helperText={`Priced at ₱${tariffRate.toFixed(2)}/kWh`}
+                  />
+                </Grid>
+              )}
               <Grid item xs={12}>
                 <TextField
                   label="Annual Energy Savings (₱)"
@@ -286,6 +258,7 @@ const ROICalculator: React.FC = () => {
                   onChange={handleInputChange('annualSavings')}
                   fullWidth
                   InputProps={{ inputProps: { min: 0 } }}
+                  disabled={tariffRate !== null && savedKwh !== ''}
                 />
               </Grid>
               <Grid item xs={12}>
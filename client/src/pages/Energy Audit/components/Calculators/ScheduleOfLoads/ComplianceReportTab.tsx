@@ -37,6 +37,8 @@ import {
 } from '@mui/icons-material';
 import { LoadSchedule, LoadItem } from './types';
 import { updateLoadScheduleCompliance } from '../utils/pecComplianceUtils';
+import { analyzePanelCoordination, CoordinationPairResult } from '../utils/coordinationUtils';
+import CoordinationStatusChip from './CoordinationStatusChip';
 
 interface ComplianceReportTabProps {
   loadSchedule: LoadSchedule;
@@ -102,6 +104,18 @@ const ComplianceReportTab: React.FC<ComplianceReportTabProps> = ({
     };
   }, [loadSchedule]);
 
+  // Selectivity between branch, main and feeder breakers
+  const coordination = React.useMemo(() => analyzePanelCoordination(loadSchedule), [loadSchedule]);
+  const coordinationByLoad = React.useMemo(() => {
+    const pairs: Record<string, CoordinationPairResult> = {};
+    coordination.pairs.forEach(pair => {
+      if (pair.loadId) {
+        pairs[pair.loadId] = pair;
+      }
+    });
+    return pairs;
+  }, [coordination]);
+
   return (
     <Box sx={{ mt: 2 }}>
       <Grid container spacing={3}>
@@ -262,6 +276,62 @@ const ComplianceReportTab: React.FC<ComplianceReportTabProps> = ({
           </Paper>
         </Grid>
 
+        {/* Protective Device Coordination Section */}
+        <Grid item xs={12}>
+          <Paper variant="outlined" sx={{ p: 2 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+              <Typography variant="subtitle1">
+                Protective Device Coordination
+              </Typography>
+              <CoordinationStatusChip verdict={coordination.verdict} size="medium" />
+            </Box>
+
+            {coordination.pairs.length > 0 && (
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                {coordination.selectiveCount} selective, {coordination.partialCount} partially selective and{' '}
+                {coordination.notSelectiveCount} not selective breaker pairs
+                {coordination.maxFaultCurrentKA !== null && ` up to ${coordination.maxFaultCurrentKA.toFixed(2)} kA`}
+              </Typography>
+            )}
+
+            {coordination.issues.length > 0 && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                <Typography variant="subtitle2">
+                  Coordination Issues:
+                </Typography>
+                <List dense>
+                  {coordination.issues.map((issue, index) => (
+                    <ListItem key={index}>
+                      <ListItemIcon sx={{ minWidth: 36 }}>
+                        <WarningIcon color="warning" fontSize="small" />
+                      </ListItemIcon>
+                      <ListItemText primary={issue} />
+                    </ListItem>
+                  ))}
+                </List>
+              </Alert>
+            )}
+
+            {coordination.recommendations.length > 0 && (
+              <Alert severity="info">
+                <Typography variant="subtitle2">
+                  Coordination Recommendations:
+                </Typography>
+                <List dense>
+                  {coordination.recommendations.map((rec, index) => (
+                    <ListItem key={index}>
+                      <ListItemIcon sx={{ minWidth: 36 }}>
+                        <BuildIcon color="info" fontSize="small" />
+                      </ListItemIcon>
+                      <ListItemText primary={rec} />
+                    </ListItem>
+                  ))}
+                </List>
+              </Alert>
+            )}
+          </Paper>
+        </Grid>
+
         {/* Load Items Compliance */}
         <Grid item xs={12}>
           <Paper variant="outlined" sx={{ p: 2 }}>
@@ -287,6 +357,7 @@ const ComplianceReportTab: React.FC<ComplianceReportTabProps> = ({
                     <TableCell>Circuit Breaker</TableCell>
                     <TableCell>Conductor</TableCell>
                     <TableCell>Status</TableCell>
+                    <TableCell>Coordination</TableCell>
                     <TableCell>Actions</TableCell>
                   </TableRow>
                 </TableHead>
@@ -329,6 +400,14 @@ const ComplianceReportTab: React.FC<ComplianceReportTabProps> = ({
                             />
                           )}
                         </TableCell>
+                        <TableCell>
+                          {coordinationByLoad[load.id] ? (
+                            <CoordinationStatusChip
+                              verdict={coordinationByLoad[load.id].verdict}
+                              selectivityLimit={coordinationByLoad[load.id].selectivityLimit}
+                            />
+                          ) : '-'}
+                        </TableCell>
                         <TableCell>
                           <Tooltip title="Edit Circuit Details">
                             <IconButton 
@@ -347,7 +426,7 @@ const ComplianceReportTab: React.FC<ComplianceReportTabProps> = ({
                       {/* Expanded row with compliance details */}
                       {expandedItems[load.id] && load.pecCompliance && (
                         <TableRow>
-                          <TableCell colSpan={6} sx={{ py: 0 }}>
+                          <TableCell colSpan={7} sx={{ py: 0 }}>
                             <Box sx={{ p: 2, backgroundColor: 'rgba(0, 0, 0, 0.02)' }}>
                               {!load.isPECCompliant && load.pecCompliance.issues.length > 0 && (
                                 <Alert severity="warning" sx={{ mb: 2 }}>
@@ -0,0 +1,384 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Alert,
+  IconButton,
+  Grid,
+  Card,
+  CardContent,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Checkbox,
+  LinearProgress,
+  Tooltip
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Save as SaveIcon
+} from '@mui/icons-material';
+import { LoadSchedule, CONDUCTOR_SIZE_OPTIONS, INSULATION_TYPE_OPTIONS } from './types';
+import {
+  applyConduitFillResults,
+  ConductorGroup,
+  ConductorInsulationType,
+  ConduitFillResult,
+  formatTradeSize,
+  getLoadItemConductors,
+  RacewayType,
+  sizeRacewayForLoadItems
+} from '../utils/conduitFillUtils';
+
+interface ConduitFillDialogProps {
+  open: boolean;
+  onClose: () => void;
+  loadSchedule: LoadSchedule;
+  onSaveResults?: (updatedLoadSchedule: LoadSchedule) => void;
+}
+
+const RACEWAY_TYPE_OPTIONS: { value: RacewayType; label: string }[] = [
+  { value: 'PVC', label: 'PVC Schedule 40' },
+  { value: 'EMT', label: 'EMT' },
+  { value: 'RMC', label: 'Rigid Metal Conduit' }
+];
+
+const ConduitFillDialog: React.FC<ConduitFillDialogProps> = ({
+  open,
+  onClose,
+  loadSchedule,
+  onSaveResults
+}) => {
+  const [racewayType, setRacewayType] = useState<RacewayType>('PVC');
+  const [selectedLoadIds, setSelectedLoadIds] = useState<string[]>([]);
+  const [additionalConductors, setAdditionalConductors] = useState<ConductorGroup[]>([]);
+
+  // Start with no circuits grouped whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setSelectedLoadIds([]);
+      setAdditionalConductors([]);
+    }
+  }, [open]);
+
+  const selectedLoads = useMemo(
+    () => loadSchedule.loads.filter(load => selectedLoadIds.includes(load.id)),
+    [loadSchedule.loads, selectedLoadIds]
+  );
+
+  const { results, error } = useMemo((): { results: ConduitFillResult | null; error: string | null } => {
+    if (!open || (selectedLoads.length === 0 && additionalConductors.length === 0)) {
+      return { results: null, error: null };
+    }
+    try {
+      return {
+        results: sizeRacewayForLoadItems(selectedLoads, racewayType, additionalConductors),
+        error: null
+      };
+    } catch (err) {
+      return {
+        results: null,
+        error: err instanceof Error ? err.message : 'Unable to calculate conduit fill'
+      };
+    }
+  }, [open, selectedLoads, racewayType, additionalConductors]);
+
+  const toggleLoad = (loadId: string) => {
+    setSelectedLoadIds(prev =>
+      prev.includes(loadId) ? prev.filter(id => id !== loadId) : [...prev, loadId]
+    );
+  };
+
+  const handleAddConductor = () => {
+    setAdditionalConductors(prev => [
+      ...prev,
+      { description: 'Additional conductors', size: '12 AWG', insulationType: 'THHN', count: 2, isCurrentCarrying: true }
+    ]);
+  };
+
+  const handleConductorChange = (index: number, changes: Partial<ConductorGroup>) => {
+    setAdditionalConductors(prev => prev.map((group, i) => (i === index ? { ...group, ...changes } : group)));
+  };
+
+  const handleRemoveConductor = (index: number) => {
+    setAdditionalConductors(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    if (results && onSaveResults) {
+      onSaveResults(applyConduitFillResults(loadSchedule, selectedLoadIds, results));
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="lg"
+      fullWidth
+    >
+      <DialogTitle>
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          <Typography variant="h6">
+            Conduit Fill - {loadSchedule.panelName}
+          </Typography>
+          <IconButton onClick={onClose} size="small">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid item xs={12} sm={6} md={4}>
+            <FormControl fullWidth margin="normal">
+              <InputLabel id="raceway-type-label">Raceway Type</InputLabel>
+              <Select
+                labelId="raceway-type-label"
+                value={racewayType}
+                label="Raceway Type"
+                onChange={(e) => setRacewayType(e.target.value as RacewayType)}
+              >
+                {RACEWAY_TYPE_OPTIONS.map(option => (
+                  <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+        </Grid>
+
+        <Typography variant="subtitle1" gutterBottom>
+          Circuits in the Raceway
+        </Typography>
+        <TableContainer component={Paper} variant="outlined" sx={{ mb: 3, maxHeight: 300 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox" />
+                <TableCell>Description</TableCell>
+                <TableCell>Conductor</TableCell>
+                <TableCell>Insulation</TableCell>
+                <TableCell align="right">Conductors</TableCell>
+                <TableCell>Current Raceway</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {loadSchedule.loads.map(load => {
+                const conductors = getLoadItemConductors(load);
+                return (
+                  <TableRow
+                    key={load.id}
+                    hover
+                    onClick={() => load.conductorSize && toggleLoad(load.id)}
+                    sx={{ cursor: load.conductorSize ? 'pointer' : 'default' }}
+                  >
+                    <TableCell padding="checkbox">
+                      <Checkbox
+                        checked={selectedLoadIds.includes(load.id)}
+                        disabled={!load.conductorSize}
+                      />
+                    </TableCell>
+                    <TableCell>{load.description}</TableCell>
+                    <TableCell>{load.conductorSize || 'N/A'}</TableCell>
+                    <TableCell>{load.insulationType || 'THHN'}</TableCell>
+                    <TableCell align="right">
+                      {conductors.reduce((sum, group) => sum + group.count, 0) || '-'}
+                    </TableCell>
+                    <TableCell>{load.conduitSize || '-'}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="subtitle1">
+            Additional Conductors
+          </Typography>
+          <Button size="small" startIcon={<AddIcon />} onClick={handleAddConductor}>
+            Add Conductors
+          </Button>
+        </Box>
+        {additionalConductors.map((group, index) => (
+          <Grid container spacing={2} key={index} alignItems="center" sx={{ mb: 1 }}>
+            <Grid item xs={12} sm={3}>
+              <FormControl fullWidth size="small">
+                <InputLabel id={`extra-size-${index}`}>Size</InputLabel>
+                <Select
+                  labelId={`extra-size-${index}`}
+                  value={group.size}
+                  label="Size"
+                  onChange={(e) => handleConductorChange(index, { size: e.target.value })}
+                >
+                  {CONDUCTOR_SIZE_OPTIONS.map(size => (
+                    <MenuItem key={size} value={size}>{size}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} sm={3}>
+              <FormControl fullWidth size="small">
+                <InputLabel id={`extra-insulation-${index}`}>Insulation</InputLabel>
+                <Select
+                  labelId={`extra-insulation-${index}`}
+                  value={group.insulationType}
+                  label="Insulation"
+                  onChange={(e) => handleConductorChange(index, { insulationType: e.target.value as ConductorInsulationType })}
+                >
+                  {INSULATION_TYPE_OPTIONS.map(option => (
+                    <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={6} sm={2}>
+              <TextField
+                size="small"
+                type="number"
+                label="Count"
+                value={group.count}
+                onChange={(e) => handleConductorChange(index, { count: Math.max(0, Number(e.target.value)) })}
+                inputProps={{ min: 0 }}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={6} sm={3}>
+              <FormControl fullWidth size="small">
+                <InputLabel id={`extra-type-${index}`}>Type</InputLabel>
+                <Select
+                  labelId={`extra-type-${index}`}
+                  value={group.isCurrentCarrying ? 'current' : 'ground'}
+                  label="Type"
+                  onChange={(e) => handleConductorChange(index, { isCurrentCarrying: e.target.value === 'current' })}
+                >
+                  <MenuItem value="current">Current-carrying</MenuItem>
+                  <MenuItem value="ground">Grounding / other</MenuItem>
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} sm={1}>
+              <IconButton size="small" onClick={() => handleRemoveConductor(index)}>
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Grid>
+          </Grid>
+        ))}
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {!results && !error && (
+          <Alert severity="info" sx={{ mt: 2 }}>
+            Select the circuits that share one raceway to size it.
+          </Alert>
+        )}
+
+        {results && (
+          <>
+            <Grid container spacing={2} sx={{ mt: 1, mb: 2 }}>
+              <Grid item xs={12} md={4}>
+                <Card>
+                  <CardContent sx={{ textAlign: 'center' }}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                      Minimum Trade Size
+                    </Typography>
+                    <Typography variant="h4">
+                      {results.tradeSize ? formatTradeSize(results.tradeSize) : 'N/A'}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {results.racewayType}
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+              <Grid item xs={12} md={4}>
+                <Card>
+                  <CardContent sx={{ textAlign: 'center' }}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                      Fill
+                    </Typography>
+                    <Typography variant="h4">
+                      {results.fillPercent.toFixed(1)}%
+                    </Typography>
+                    <Tooltip title={`Chapter 9 Table 1 limit for ${results.conductorCount} conductors`}>
+                      <Box sx={{ mt: 1 }}>
+                        <LinearProgress
+                          variant="determinate"
+                          value={Math.min(100, (results.fillPercent / results.maxFillPercent) * 100)}
+                        />
+                        <Typography variant="body2" color="text.secondary">
+                          {results.conductorCount} conductors, {results.totalConductorArea.toFixed(1)} mm² of {results.maxFillPercent}% max
+                        </Typography>
+                      </Box>
+                    </Tooltip>
+                  </CardContent>
+                </Card>
+              </Grid>
+              <Grid item xs={12} md={4}>
+                <Card>
+                  <CardContent sx={{ textAlign: 'center' }}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                      Ampacity Adjustment
+                    </Typography>
+                    <Typography variant="h4" color={results.bundleAdjustmentFactor < 1 ? 'warning.main' : 'text.primary'}>
+                      {(results.bundleAdjustmentFactor * 100).toFixed(0)}%
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {results.currentCarryingCount} current-carrying conductors
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+            </Grid>
+
+            {results.issues.length > 0 && (
+              <Alert severity="warning">
+                {results.issues.join('. ')}
+              </Alert>
+            )}
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose} color="primary">
+          Close
+        </Button>
+        {onSaveResults && (
+          <Button
+            variant="contained"
+            color="primary"
+            startIcon={<SaveIcon />}
+            onClick={handleSave}
+            disabled={!results || !results.tradeSize || selectedLoadIds.length === 0}
+          >
+            Apply to Circuits
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ConduitFillDialog;
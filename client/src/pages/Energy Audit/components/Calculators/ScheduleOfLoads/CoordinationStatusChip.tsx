@@ -0,0 +1,48 @@
+import React from 'react';
+import { Chip, Tooltip } from '@mui/material';
+import {
+  CheckCircle as CheckCircleIcon,
+  Warning as WarningIcon,
+  Error as ErrorIcon,
+  Info as InfoIcon
+} from '@mui/icons-material';
+import { SelectivityVerdict } from '../utils/coordinationUtils';
+
+interface CoordinationStatusChipProps {
+  verdict: SelectivityVerdict | null;
+  selectivityLimit?: number | null; // A
+  size?: 'small' | 'medium';
+}
+
+/**
+ * Status chip for a selectivity verdict
+ */
+const CoordinationStatusChip: React.FC<CoordinationStatusChipProps> = ({
+  verdict,
+  selectivityLimit,
+  size = 'small'
+}) => {
+  if (verdict === null) {
+    return <Chip size={size} label="No Data" icon={<InfoIcon />} />;
+  }
+
+  if (verdict === 'selective') {
+    return <Chip size={size} color="success" icon={<CheckCircleIcon />} label="Selective" />;
+  }
+
+  const limitText = selectivityLimit
+    ? `Both breakers may trip above ${(selectivityLimit / 1000).toFixed(2)} kA`
+    : '';
+
+  return (
+    <Tooltip title={limitText}>
+      {verdict === 'partial' ? (
+        <Chip size={size} color="warning" icon={<WarningIcon />} label="Partial" />
+      ) : (
+        <Chip size={size} color="error" icon={<ErrorIcon />} label="Not Selective" />
+      )}
+    </Tooltip>
+  );
+};
+
+export default CoordinationStatusChip;
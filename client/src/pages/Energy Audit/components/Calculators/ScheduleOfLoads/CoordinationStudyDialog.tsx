@@ -0,0 +1,371 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Alert,
+  IconButton,
+  Grid,
+  Card,
+  CardContent,
+  TextField,
+  InputAdornment,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Info as InfoIcon,
+  Warning as WarningIcon,
+  Save as SaveIcon
+} from '@mui/icons-material';
+import { LoadSchedule } from './types';
+import TCCChart from './TCCChart';
+import CoordinationStatusChip from './CoordinationStatusChip';
+import {
+  analyzePanelCoordination,
+  BreakerCurveType,
+  BREAKER_CURVES,
+  getDefaultCurveType,
+  PanelCoordinationResult
+} from '../utils/coordinationUtils';
+import { getBreakerSizeValue } from '../utils/pecComplianceUtils';
+
+interface CoordinationStudyDialogProps {
+  open: boolean;
+  onClose: () => void;
+  loadSchedule: LoadSchedule;
+  onSaveResults?: (updatedLoadSchedule: LoadSchedule) => void;
+}
+
+const CURVE_TYPES = Object.keys(BREAKER_CURVES) as BreakerCurveType[];
+
+const CoordinationStudyDialog: React.FC<CoordinationStudyDialogProps> = ({
+  open,
+  onClose,
+  loadSchedule,
+  onSaveResults
+}) => {
+  const [faultCurrentKA, setFaultCurrentKA] = useState<string>('');
+  // Curve types entered in this dialog, keyed by load item ID ('main' and 'feeder' for the panel devices)
+  const [curveTypes, setCurveTypes] = useState<Record<string, BreakerCurveType>>({});
+  const [selectedPairId, setSelectedPairId] = useState<string | null>(null);
+
+  // Seed curve types and fault current from the schedule whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      const types: Record<string, BreakerCurveType> = {};
+      const mainRating = getBreakerSizeValue(loadSchedule.circuitBreaker || '');
+      const feederRating = getBreakerSizeValue(loadSchedule.feederProtectionSize || '');
+      types.main = loadSchedule.breakerCurveType || getDefaultCurveType(mainRating);
+      types.feeder = loadSchedule.feederProtectionCurveType || getDefaultCurveType(feederRating);
+      loadSchedule.loads.forEach(load => {
+        types[load.id] = load.breakerCurveType || getDefaultCurveType(getBreakerSizeValue(load.circuitBreaker || ''));
+      });
+      setCurveTypes(types);
+      setFaultCurrentKA(loadSchedule.availableFaultCurrentKA ? loadSchedule.availableFaultCurrentKA.toFixed(2) : '');
+      setSelectedPairId(null);
+    }
+  }, [open, loadSchedule]);
+
+  // Schedule with the curve types entered in this dialog
+  const scheduleWithCurves: LoadSchedule = useMemo(() => ({
+    ...loadSchedule,
+    breakerCurveType: curveTypes.main,
+    feederProtectionCurveType: curveTypes.feeder,
+    loads: loadSchedule.loads.map(load => ({
+      ...load,
+      breakerCurveType: curveTypes[load.id]
+    }))
+  }), [loadSchedule, curveTypes]);
+
+  const results: PanelCoordinationResult | null = useMemo(() => {
+    if (!open) {
+      return null;
+    }
+    return analyzePanelCoordination(scheduleWithCurves, {
+      maxFaultCurrentKA: faultCurrentKA ? Number(faultCurrentKA) : undefined
+    });
+  }, [open, scheduleWithCurves, faultCurrentKA]);
+
+  // Plot the selected pair, or the worst pair when none is selected
+  const selectedPair = useMemo(() => {
+    if (!results || results.pairs.length === 0) {
+      return null;
+    }
+    const rank = { 'not-selective': 0, partial: 1, selective: 2 };
+    return results.pairs.find(pair => pair.id === selectedPairId) ||
+      [...results.pairs].sort((a, b) => rank[a.verdict] - rank[b.verdict])[0];
+  }, [results, selectedPairId]);
+
+  const chartDevices = useMemo(
+    () => (selectedPair ? [selectedPair.downstream, selectedPair.upstream] : []),
+    [selectedPair]
+  );
+
+  const handleCurveChange = (key: string, value: BreakerCurveType) => {
+    setCurveTypes(prev => ({
+      ...prev,
+      [key]: value
+    }));
+  };
+
+  const handleSave = () => {
+    if (onSaveResults) {
+      onSaveResults(scheduleWithCurves);
+    }
+    onClose();
+  };
+
+  const renderCurveSelect = (key: string, label: string, disabled: boolean) => (
+    <FormControl fullWidth size="small" disabled={disabled}>
+      {label && <InputLabel id={`tcc-curve-${key}-label`}>{label}</InputLabel>}
+      <Select
+        labelId={`tcc-curve-${key}-label`}
+        value={curveTypes[key] || 'C'}
+        label={label || undefined}
+        onChange={(e) => handleCurveChange(key, e.target.value as BreakerCurveType)}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {CURVE_TYPES.map(type => (
+          <MenuItem key={type} value={type}>{type}</MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="lg"
+      fullWidth
+    >
+      <DialogTitle>
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          <Typography variant="h6">
+            Protective Device Coordination - {loadSchedule.panelName}
+          </Typography>
+          <IconButton onClick={onClose} size="small">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Box sx={{ mb: 3, p: 2, bgcolor: 'background.paper', borderRadius: 1 }}>
+          <Typography variant="subtitle1" gutterBottom>
+            Study Parameters
+          </Typography>
+
+          <Grid container spacing={2} alignItems="center">
+            <Grid item xs={12} sm={6} md={4}>
+              <TextField
+                label="Available Fault Current"
+                type="number"
+                value={faultCurrentKA}
+                onChange={(e) => setFaultCurrentKA(e.target.value)}
+                fullWidth
+                margin="normal"
+                helperText="Blank = typical kAIC of the upstream breaker"
+                InputProps={{
+                  endAdornment: <InputAdornment position="end">kA</InputAdornment>,
+                  inputProps: { min: 0, step: 0.5 }
+                }}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6} md={4}>
+              {renderCurveSelect(
+                'main',
+                `Main Breaker Curve ${loadSchedule.circuitBreaker ? `(${loadSchedule.circuitBreaker})` : ''}`,
+                !loadSchedule.circuitBreaker
+              )}
+            </Grid>
+            <Grid item xs={12} sm={6} md={4}>
+              {renderCurveSelect(
+                'feeder',
+                `Feeder Protection Curve ${loadSchedule.feederProtectionSize ? `(${loadSchedule.feederProtectionSize})` : ''}`,
+                !loadSchedule.feederProtectionSize
+              )}
+            </Grid>
+          </Grid>
+        </Box>
+
+        {results && (
+          <>
+            <Grid container spacing={2} sx={{ mb: 3 }}>
+              <Grid item xs={12} md={3}>
+                <Card>
+                  <CardContent sx={{ textAlign: 'center' }}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                      Panel Verdict
+                    </Typography>
+                    <Box sx={{ mt: 2 }}>
+                      <CoordinationStatusChip verdict={results.verdict} size="medium" />
+                    </Box>
+                  </CardContent>
+                </Card>
+              </Grid>
+              <Grid item xs={12} md={3}>
+                <Card>
+                  <CardContent sx={{ textAlign: 'center' }}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                      Selective
+                    </Typography>
+                    <Typography variant="h4" color="success.main">
+                      {results.selectiveCount}
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+              <Grid item xs={12} md={3}>
+                <Card>
+                  <CardContent sx={{ textAlign: 'center' }}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                      Partially Selective
+                    </Typography>
+                    <Typography variant="h4" color="warning.main">
+                      {results.partialCount}
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+              <Grid item xs={12} md={3}>
+                <Card>
+                  <CardContent sx={{ textAlign: 'center' }}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                      Not Selective
+                    </Typography>
+                    <Typography variant="h4" color={results.notSelectiveCount > 0 ? 'error.main' : 'text.primary'}>
+                      {results.notSelectiveCount}
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+            </Grid>
+
+            {(results.issues.length > 0 || results.recommendations.length > 0) && (
+              <Alert severity={results.notSelectiveCount > 0 ? 'warning' : 'info'} sx={{ mb: 2 }}>
+                <List dense>
+                  {results.issues.map((issue, index) => (
+                    <ListItem key={`issue-${index}`}>
+                      <ListItemIcon sx={{ minWidth: 36 }}>
+                        <WarningIcon color="warning" fontSize="small" />
+                      </ListItemIcon>
+                      <ListItemText primary={issue} />
+                    </ListItem>
+                  ))}
+                  {results.recommendations.map((recommendation, index) => (
+                    <ListItem key={`recommendation-${index}`}>
+                      <ListItemIcon sx={{ minWidth: 36 }}>
+                        <InfoIcon color="info" fontSize="small" />
+                      </ListItemIcon>
+                      <ListItemText primary={recommendation} />
+                    </ListItem>
+                  ))}
+                </List>
+              </Alert>
+            )}
+
+            {selectedPair && (
+              <Box sx={{ mb: 3 }}>
+                <TCCChart
+                  devices={chartDevices}
+                  faultCurrent={selectedPair.maxFaultCurrent}
+                  subtitle={`${selectedPair.downstream.label} vs ${selectedPair.upstream.label}`}
+                />
+              </Box>
+            )}
+
+            <Typography variant="subtitle1" gutterBottom>
+              Device Pairs
+            </Typography>
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Description</TableCell>
+                    <TableCell align="right">Downstream</TableCell>
+                    <TableCell>Curve</TableCell>
+                    <TableCell align="right">Upstream</TableCell>
+                    <TableCell align="right">Selective Up To (kA)</TableCell>
+                    <TableCell align="center">Status</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {results.pairs.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} align="center">
+                        No breaker pairs to check
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    results.pairs.map(pair => (
+                      <TableRow
+                        key={pair.id}
+                        hover
+                        selected={selectedPair?.id === pair.id}
+                        onClick={() => setSelectedPairId(pair.id)}
+                        sx={{ cursor: 'pointer' }}
+                      >
+                        <TableCell>{pair.description}</TableCell>
+                        <TableCell align="right">{pair.downstream.rating}A</TableCell>
+                        <TableCell sx={{ width: 110 }}>
+                          {pair.loadId ? renderCurveSelect(pair.loadId, '', false) : pair.downstream.curveType}
+                        </TableCell>
+                        <TableCell align="right">{pair.upstream.rating}A ({pair.upstream.curveType})</TableCell>
+                        <TableCell align="right">
+                          {pair.selectivityLimit === null
+                            ? `≥ ${(pair.maxFaultCurrent / 1000).toFixed(2)}`
+                            : (pair.selectivityLimit / 1000).toFixed(2)}
+                        </TableCell>
+                        <TableCell align="center">
+                          <CoordinationStatusChip verdict={pair.verdict} selectivityLimit={pair.selectivityLimit} />
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose} color="primary">
+          Close
+        </Button>
+        {onSaveResults && (
+          <Button
+            variant="contained"
+            color="primary"
+            startIcon={<SaveIcon />}
+            onClick={handleSave}
+          >
+            Save Curve Types
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CoordinationStudyDialog;
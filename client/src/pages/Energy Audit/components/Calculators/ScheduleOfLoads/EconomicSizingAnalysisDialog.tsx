@@ -50,6 +50,7 @@ import {
 } from '@mui/icons-material';
 import { LoadItem, LoadSchedule } from './types';
 import { analyzeLoadScheduleForEconomicSizing, compareConductorLifecycleCosts } from '../utils/economicSizingUtils';
+import TariffRateSelector from '../TariffRateSelector';
 
 interface EconomicSizingAnalysisDialogProps {
   open: boolean;
@@ -538,6 +539,15 @@ const EconomicSizingAnalysisDialog: React.FC<EconomicSizingAnalysisDialogProps>
               </Typography>
               
               <Grid container spacing={2}>
+                <Grid item xs={12}>
+                  <TariffRateSelector
+                    size="small"
+                    onRateChange={(rate) => {
+                      if (rate !== null) setElectricityRate(rate);
+                    }}
+                  />
+                </Grid>
+
                 <Grid item xs={12} sm={4}>
                   <TextField
                     label="Electricity Rate"
@@ -0,0 +1,453 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Alert,
+  IconButton,
+  Grid,
+  Card,
+  CardContent,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  InputAdornment,
+  Checkbox,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Info as InfoIcon,
+  Warning as WarningIcon,
+  PictureAsPdf as PdfIcon,
+  Save as SaveIcon
+} from '@mui/icons-material';
+import { LoadSchedule } from './types';
+import { loadSavedLoadSchedules } from '../utils/storage';
+import { BuildingSizingResult, sizeBuildingEquipment } from '../utils/equipmentSizingUtils';
+import { generateEquipmentSizingSheet } from '../utils/integratedReportGenerator';
+
+interface EquipmentSizingDialogProps {
+  open: boolean;
+  onClose: () => void;
+  loadSchedule: LoadSchedule;
+  onSaveResults?: (updatedLoadSchedule: LoadSchedule) => void;
+}
+
+const EquipmentSizingDialog: React.FC<EquipmentSizingDialogProps> = ({
+  open,
+  onClose,
+  loadSchedule,
+  onSaveResults
+}) => {
+  const [panels, setPanels] = useState<LoadSchedule[]>([]);
+  const [selectedPanelIds, setSelectedPanelIds] = useState<string[]>([]);
+  const [diversityFactor, setDiversityFactor] = useState<number>(loadSchedule.diversityFactor || 1.0);
+  const [phaseConfiguration, setPhaseConfiguration] = useState<'single-phase' | 'three-phase'>(
+    loadSchedule.phaseConfiguration || 'three-phase'
+  );
+  const [growthMarginPercent, setGrowthMarginPercent] = useState<number>(25);
+  const [noLoadLossPercent, setNoLoadLossPercent] = useState<number>(0.25);
+  const [loadLossPercent, setLoadLossPercent] = useState<number>(1.2);
+  const [subtransientReactance, setSubtransientReactance] = useState<number>(0.15);
+  const [maxGeneratorVoltageDipPercent, setMaxGeneratorVoltageDipPercent] = useState<number>(15);
+
+  // Offer the current panel plus every saved panel, with the current panel selected
+  useEffect(() => {
+    if (open) {
+      const saved = loadSavedLoadSchedules().filter(schedule => schedule.id !== loadSchedule.id);
+      setPanels([loadSchedule, ...saved]);
+      setSelectedPanelIds([loadSchedule.id]);
+    }
+  }, [open, loadSchedule]);
+
+  const selectedPanels = useMemo(
+    () => panels.filter(panel => selectedPanelIds.includes(panel.id)),
+    [panels, selectedPanelIds]
+  );
+
+  const { results, error } = useMemo((): { results: BuildingSizingResult | null; error: string | null } => {
+    if (!open || selectedPanels.length === 0) {
+      return { results: null, error: null };
+    }
+    try {
+      return {
+        results: sizeBuildingEquipment(selectedPanels, {
+          diversityFactor,
+          phaseConfiguration,
+          growthMarginPercent,
+          noLoadLossPercent,
+          loadLossPercent,
+          subtransientReactance,
+          maxGeneratorVoltageDipPercent
+        }),
+        error: null
+      };
+    } catch (err) {
+      return {
+        results: null,
+        error: err instanceof Error ? err.message : 'Unable to size the service equipment'
+      };
+    }
+  }, [open, selectedPanels, diversityFactor, phaseConfiguration, growthMarginPercent, noLoadLossPercent, loadLossPercent, subtransientReactance, maxGeneratorVoltageDipPercent]);
+
+  const togglePanel = (panelId: string) => {
+    setSelectedPanelIds(prev =>
+      prev.includes(panelId) ? prev.filter(id => id !== panelId) : [...prev, panelId]
+    );
+  };
+
+  const handleExport = () => {
+    if (results) {
+      generateEquipmentSizingSheet({
+        sizing: results,
+        options: {
+          project: loadSchedule.floorName || loadSchedule.name
+        }
+      });
+    }
+  };
+
+  const handleSave = () => {
+    if (results && results.transformer.recommendedKVA && onSaveResults) {
+      onSaveResults({
+        ...loadSchedule,
+        serviceTransformer: {
+          impedancePercent: 5.75,
+          secondaryVoltage: loadSchedule.voltage,
+          ...loadSchedule.serviceTransformer,
+          kva: results.transformer.recommendedKVA
+        },
+        lastUpdated: Date.now()
+      });
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="lg"
+      fullWidth
+    >
+      <DialogTitle>
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          <Typography variant="h6">
+            Transformer and Generator Sizing
+          </Typography>
+          <IconButton onClick={onClose} size="small">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Typography variant="subtitle1" gutterBottom>
+          Panels Supplied by the Service
+        </Typography>
+        <TableContainer component={Paper} variant="outlined" sx={{ mb: 2, maxHeight: 260 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox" />
+                <TableCell>Panel</TableCell>
+                <TableCell>Floor</TableCell>
+                <TableCell align="right">Demand Load (kW)</TableCell>
+                <TableCell align="right">Power Factor</TableCell>
+                <TableCell align="right">Loads</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {panels.map(panel => (
+                <TableRow
+                  key={panel.id}
+                  hover
+                  onClick={() => togglePanel(panel.id)}
+                  sx={{ cursor: 'pointer' }}
+                >
+                  <TableCell padding="checkbox">
+                    <Checkbox checked={selectedPanelIds.includes(panel.id)} />
+                  </TableCell>
+                  <TableCell>{panel.panelName}{panel.id === loadSchedule.id ? ' (current)' : ''}</TableCell>
+                  <TableCell>{panel.floorName || '-'}</TableCell>
+                  <TableCell align="right">{(panel.totalDemandLoad / 1000).toFixed(2)}</TableCell>
+                  <TableCell align="right">{panel.powerFactor.toFixed(2)}</TableCell>
+                  <TableCell align="right">{panel.loads.length}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid item xs={6} sm={4} md={3}>
+            <TextField
+              fullWidth
+              margin="normal"
+              label="Diversity Factor"
+              type="number"
+              value={diversityFactor}
+              onChange={(e) => setDiversityFactor(Number(e.target.value))}
+              inputProps={{ min: 0.1, max: 1, step: 0.05 }}
+              helperText="Coincident / sum of panel demands"
+            />
+          </Grid>
+          <Grid item xs={6} sm={4} md={3}>
+            <TextField
+              fullWidth
+              margin="normal"
+              label="Growth Margin"
+              type="number"
+              value={growthMarginPercent}
+              onChange={(e) => setGrowthMarginPercent(Number(e.target.value))}
+              InputProps={{ endAdornment: <InputAdornment position="end">%</InputAdornment> }}
+              inputProps={{ min: 0, step: 5 }}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4} md={3}>
+            <FormControl fullWidth margin="normal">
+              <InputLabel id="service-phase-label">Transformer</InputLabel>
+              <Select
+                labelId="service-phase-label"
+                value={phaseConfiguration}
+                label="Transformer"
+                onChange={(e) => setPhaseConfiguration(e.target.value as 'single-phase' | 'three-phase')}
+              >
+                <MenuItem value="single-phase">Single-phase</MenuItem>
+                <MenuItem value="three-phase">Three-phase</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={6} sm={4} md={3}>
+            <TextField
+              fullWidth
+              margin="normal"
+              label="No-Load Loss"
+              type="number"
+              value={noLoadLossPercent}
+              onChange={(e) => setNoLoadLossPercent(Number(e.target.value))}
+              InputProps={{ endAdornment: <InputAdornment position="end">% kVA</InputAdornment> }}
+              inputProps={{ min: 0, step: 0.05 }}
+            />
+          </Grid>
+          <Grid item xs={6} sm={4} md={3}>
+            <TextField
+              fullWidth
+              margin="normal"
+              label="Full-Load Winding Loss"
+              type="number"
+              value={loadLossPercent}
+              onChange={(e) => setLoadLossPercent(Number(e.target.value))}
+              InputProps={{ endAdornment: <InputAdornment position="end">% kVA</InputAdornment> }}
+              inputProps={{ min: 0, step: 0.1 }}
+            />
+          </Grid>
+          <Grid item xs={6} sm={4} md={3}>
+            <TextField
+              fullWidth
+              margin="normal"
+              label="Generator Xd''"
+              type="number"
+              value={subtransientReactance}
+              onChange={(e) => setSubtransientReactance(Number(e.target.value))}
+              InputProps={{ endAdornment: <InputAdornment position="end">pu</InputAdornment> }}
+              inputProps={{ min: 0.05, max: 0.4, step: 0.01 }}
+            />
+          </Grid>
+          <Grid item xs={6} sm={4} md={3}>
+            <TextField
+              fullWidth
+              margin="normal"
+              label="Max Generator Dip"
+              type="number"
+              value={maxGeneratorVoltageDipPercent}
+              onChange={(e) => setMaxGeneratorVoltageDipPercent(Number(e.target.value))}
+              InputProps={{ endAdornment: <InputAdornment position="end">%</InputAdornment> }}
+              inputProps={{ min: 5, max: 40, step: 1 }}
+            />
+          </Grid>
+        </Grid>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {!results && !error && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Select the panels supplied by the service to size the transformer and generator.
+          </Alert>
+        )}
+
+        {results && (
+          <>
+            <Grid container spacing={2} sx={{ mb: 2 }}>
+              <Grid item xs={12} sm={6} md={3}>
+                <Card>
+                  <CardContent sx={{ textAlign: 'center' }}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                      Coincident Demand
+                    </Typography>
+                    <Typography variant="h4">
+                      {results.demand.coincidentDemandKVA.toFixed(1)} kVA
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {results.demand.coincidentDemandKW.toFixed(1)} kW at {results.demand.powerFactor.toFixed(2)} PF
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+              <Grid item xs={12} sm={6} md={3}>
+                <Card>
+                  <CardContent sx={{ textAlign: 'center' }}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                      Service Transformer
+                    </Typography>
+                    <Typography variant="h4" color={results.transformer.recommendedKVA ? 'text.primary' : 'error.main'}>
+                      {results.transformer.recommendedKVA ? `${results.transformer.recommendedKVA} kVA` : 'N/A'}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {results.transformer.loadingPercent !== null
+                        ? `${results.transformer.loadingPercent.toFixed(0)}% loaded, ${results.transformer.requiredKVA.toFixed(1)} kVA required`
+                        : `${results.transformer.requiredKVA.toFixed(1)} kVA required`}
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+              <Grid item xs={12} sm={6} md={3}>
+                <Card>
+                  <CardContent sx={{ textAlign: 'center' }}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                      Standby Generator
+                    </Typography>
+                    <Typography variant="h4" color={results.generator.recommendedKVA ? 'text.primary' : 'error.main'}>
+                      {results.generator.recommendedKVA ? `${results.generator.recommendedKVA} kVA` : 'N/A'}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {results.generator.startingVoltageDipPercent !== null
+                        ? `${results.generator.startingVoltageDipPercent.toFixed(1)}% dip starting ${results.generator.largestMotor?.description}`
+                        : 'No motor starting step'}
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+              <Grid item xs={12} sm={6} md={3}>
+                <Card>
+                  <CardContent sx={{ textAlign: 'center' }}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                      All-Day Efficiency
+                    </Typography>
+                    <Typography variant="h4">
+                      {results.transformer.allDayEfficiencyPercent !== null
+                        ? `${results.transformer.allDayEfficiencyPercent.toFixed(2)}%`
+                        : 'N/A'}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {results.transformer.annualLossKWh.toFixed(0)} kWh/year transformer losses
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+            </Grid>
+
+            {(results.issues.length > 0 || results.recommendations.length > 0) && (
+              <Alert severity={results.issues.length === 0 ? 'info' : 'warning'} sx={{ mb: 2 }}>
+                <List dense>
+                  {results.issues.map((issue, index) => (
+                    <ListItem key={`issue-${index}`}>
+                      <ListItemIcon sx={{ minWidth: 36 }}>
+                        <WarningIcon color="warning" fontSize="small" />
+                      </ListItemIcon>
+                      <ListItemText primary={issue} />
+                    </ListItem>
+                  ))}
+                  {results.recommendations.map((recommendation, index) => (
+                    <ListItem key={`recommendation-${index}`}>
+                      <ListItemIcon sx={{ minWidth: 36 }}>
+                        <InfoIcon color="info" fontSize="small" />
+                      </ListItemIcon>
+                      <ListItemText primary={recommendation} />
+                    </ListItem>
+                  ))}
+                </List>
+              </Alert>
+            )}
+
+            <Typography variant="subtitle1" gutterBottom>
+              Demand by Panel
+            </Typography>
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Panel</TableCell>
+                    <TableCell align="right">Demand (kW)</TableCell>
+                    <TableCell align="right">Power Factor</TableCell>
+                    <TableCell align="right">Demand (kVA)</TableCell>
+                    <TableCell>Occupancy Profile</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {results.demand.panels.map(panel => (
+                    <TableRow key={panel.panelId}>
+                      <TableCell>{panel.panelName}</TableCell>
+                      <TableCell align="right">{(panel.demandLoad / 1000).toFixed(2)}</TableCell>
+                      <TableCell align="right">{panel.powerFactor.toFixed(2)}</TableCell>
+                      <TableCell align="right">{panel.demandKVA.toFixed(2)}</TableCell>
+                      <TableCell>{panel.hasOccupancyProfile ? 'Yes' : 'Full demand assumed'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose} color="primary">
+          Close
+        </Button>
+        <Button
+          color="primary"
+          startIcon={<PdfIcon />}
+          onClick={handleExport}
+          disabled={!results}
+        >
+          Export Sizing Sheet
+        </Button>
+        {onSaveResults && (
+          <Button
+            variant="contained"
+            color="primary"
+            startIcon={<SaveIcon />}
+            onClick={handleSave}
+            disabled={!results || !results.transformer.recommendedKVA}
+          >
+            Apply to Schedule
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default EquipmentSizingDialog;
@@ -0,0 +1,377 @@
+import React, { useState, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Alert,
+  IconButton,
+  Grid,
+  Card,
+  CardContent,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Switch,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Chip,
+  Tooltip
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Info as InfoIcon,
+  Warning as WarningIcon,
+  CheckCircle as CheckCircleIcon,
+  Save as SaveIcon
+} from '@mui/icons-material';
+import { LoadSchedule } from './types';
+import {
+  analyzePanelGrounding,
+  applyGroundingResults,
+  ConductorMaterial,
+  GroundingElectrodeType,
+  PanelGroundingResult
+} from '../utils/groundingUtils';
+
+interface GroundingCalculatorDialogProps {
+  open: boolean;
+  onClose: () => void;
+  loadSchedule: LoadSchedule;
+  onSaveResults?: (updatedLoadSchedule: LoadSchedule) => void;
+}
+
+const ELECTRODE_TYPE_OPTIONS: { value: GroundingElectrodeType; label: string }[] = [
+  { value: 'rod', label: 'Rod / Pipe Electrode' },
+  { value: 'concrete-encased', label: 'Concrete-Encased Electrode' },
+  { value: 'ground-ring', label: 'Ground Ring' },
+  { value: 'water-pipe', label: 'Metal Water Pipe' },
+  { value: 'building-steel', label: 'Building Steel' }
+];
+
+const GroundingCalculatorDialog: React.FC<GroundingCalculatorDialogProps> = ({
+  open,
+  onClose,
+  loadSchedule,
+  onSaveResults
+}) => {
+  const [egcMaterial, setEgcMaterial] = useState<ConductorMaterial>('copper');
+  const [gecMaterial, setGecMaterial] = useState<ConductorMaterial>('copper');
+  const [isServiceEquipment, setIsServiceEquipment] = useState<boolean>(false);
+  const [electrodeType, setElectrodeType] = useState<GroundingElectrodeType>('rod');
+  const [useOptimalConductorSize, setUseOptimalConductorSize] = useState<boolean>(true);
+
+  const { results, error } = useMemo((): { results: PanelGroundingResult | null; error: string | null } => {
+    if (!open) {
+      return { results: null, error: null };
+    }
+    try {
+      return {
+        results: analyzePanelGrounding(loadSchedule, {
+          egcMaterial,
+          gecMaterial,
+          isServiceEquipment,
+          electrodeType,
+          useOptimalConductorSize
+        }),
+        error: null
+      };
+    } catch (err) {
+      return {
+        results: null,
+        error: err instanceof Error ? err.message : 'Unable to size grounding conductors'
+      };
+    }
+  }, [open, loadSchedule, egcMaterial, gecMaterial, isServiceEquipment, electrodeType, useOptimalConductorSize]);
+
+  const handleSave = () => {
+    if (results && onSaveResults) {
+      onSaveResults(applyGroundingResults(loadSchedule, results));
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="lg"
+      fullWidth
+    >
+      <DialogTitle>
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          <Typography variant="h6">
+            Grounding Conductor Sizing - {loadSchedule.panelName}
+          </Typography>
+          <IconButton onClick={onClose} size="small">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Box sx={{ mb: 3, p: 2, bgcolor: 'background.paper', borderRadius: 1 }}>
+          <Typography variant="subtitle1" gutterBottom>
+            Grounding Parameters
+          </Typography>
+
+          <Grid container spacing={2} alignItems="center">
+            <Grid item xs={12} sm={6} md={3}>
+              <FormControl fullWidth margin="normal">
+                <InputLabel id="egc-material-label">EGC Material</InputLabel>
+                <Select
+                  labelId="egc-material-label"
+                  value={egcMaterial}
+                  label="EGC Material"
+                  onChange={(e) => setEgcMaterial(e.target.value as ConductorMaterial)}
+                >
+                  <MenuItem value="copper">Copper</MenuItem>
+                  <MenuItem value="aluminum">Aluminum</MenuItem>
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} sm={6} md={3}>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={useOptimalConductorSize}
+                    onChange={(e) => setUseOptimalConductorSize(e.target.checked)}
+                  />
+                }
+                label="Use optimized conductor sizes"
+              />
+            </Grid>
+            <Grid item xs={12} sm={6} md={2}>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={isServiceEquipment}
+                    onChange={(e) => setIsServiceEquipment(e.target.checked)}
+                  />
+                }
+                label="Service equipment"
+              />
+            </Grid>
+            <Grid item xs={12} sm={6} md={2}>
+              <FormControl fullWidth margin="normal" disabled={!isServiceEquipment}>
+                <InputLabel id="gec-material-label">GEC Material</InputLabel>
+                <Select
+                  labelId="gec-material-label"
+                  value={gecMaterial}
+                  label="GEC Material"
+                  onChange={(e) => setGecMaterial(e.target.value as ConductorMaterial)}
+                >
+                  <MenuItem value="copper">Copper</MenuItem>
+                  <MenuItem value="aluminum">Aluminum</MenuItem>
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} sm={6} md={2}>
+              <FormControl fullWidth margin="normal" disabled={!isServiceEquipment}>
+                <InputLabel id="electrode-type-label">Electrode</InputLabel>
+                <Select
+                  labelId="electrode-type-label"
+                  value={electrodeType}
+                  label="Electrode"
+                  onChange={(e) => setElectrodeType(e.target.value as GroundingElectrodeType)}
+                >
+                  {ELECTRODE_TYPE_OPTIONS.map(option => (
+                    <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+          </Grid>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {results && (
+          <>
+            <Grid container spacing={2} sx={{ mb: 3 }}>
+              <Grid item xs={12} md={4}>
+                <Card>
+                  <CardContent sx={{ textAlign: 'center' }}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                      Feeder EGC
+                    </Typography>
+                    <Typography variant="h4">
+                      {results.feederEGC ? results.feederEGC.requiredEGCSize : 'N/A'}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {results.feederEGC
+                        ? `${results.feederEGC.overcurrentDeviceRating}A protection, ${results.feederEGC.phaseConductorSize} phase`
+                        : 'Feeder protection or conductor not entered'}
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+              <Grid item xs={12} md={4}>
+                <Card>
+                  <CardContent sx={{ textAlign: 'center' }}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                      Grounding Electrode Conductor
+                    </Typography>
+                    <Typography variant="h4">
+                      {results.gec ? results.gec.requiredGECSize : 'N/A'}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {results.gec
+                        ? results.gec.isLimitedByElectrode
+                          ? 'Limited by the electrode type (Section 2.50.66)'
+                          : `From ${results.gec.parallelSets} x ${results.gec.serviceConductorSize} service conductors`
+                        : 'Only sized for service equipment'}
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+              <Grid item xs={12} md={4}>
+                <Card>
+                  <CardContent sx={{ textAlign: 'center' }}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                      Upsized Branch EGCs
+                    </Typography>
+                    <Typography variant="h4">
+                      {results.loadResults.filter(result => result.egc?.isUpsized).length}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      Increased for larger phase conductors
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+            </Grid>
+
+            {(results.issues.length > 0 || results.recommendations.length > 0) && (
+              <Alert severity={results.isCompliant ? 'info' : 'warning'} sx={{ mb: 2 }}>
+                <List dense>
+                  {results.issues.map((issue, index) => (
+                    <ListItem key={`issue-${index}`}>
+                      <ListItemIcon sx={{ minWidth: 36 }}>
+                        <WarningIcon color="warning" fontSize="small" />
+                      </ListItemIcon>
+                      <ListItemText primary={issue} />
+                    </ListItem>
+                  ))}
+                  {results.recommendations.map((recommendation, index) => (
+                    <ListItem key={`recommendation-${index}`}>
+                      <ListItemIcon sx={{ minWidth: 36 }}>
+                        <InfoIcon color="info" fontSize="small" />
+                      </ListItemIcon>
+                      <ListItemText primary={recommendation} />
+                    </ListItem>
+                  ))}
+                </List>
+              </Alert>
+            )}
+
+            <Typography variant="subtitle1" gutterBottom>
+              Branch Circuits
+            </Typography>
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Description</TableCell>
+                    <TableCell align="right">Breaker</TableCell>
+                    <TableCell>Phase Conductor</TableCell>
+                    <TableCell>Minimum Phase</TableCell>
+                    <TableCell>Table 2.50.122</TableCell>
+                    <TableCell>Required EGC</TableCell>
+                    <TableCell>Installed EGC</TableCell>
+                    <TableCell align="center">Status</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {results.loadResults.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} align="center">
+                        No load items in this schedule
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    results.loadResults.map(result => (
+                      <TableRow key={result.loadId} hover>
+                        <TableCell>{result.description}</TableCell>
+                        <TableCell align="right">{result.egc ? `${result.egc.overcurrentDeviceRating}A` : 'N/A'}</TableCell>
+                        <TableCell>{result.egc?.phaseConductorSize || 'N/A'}</TableCell>
+                        <TableCell>{result.egc?.minimumPhaseConductorSize || 'N/A'}</TableCell>
+                        <TableCell>{result.egc?.tableEGCSize || 'N/A'}</TableCell>
+                        <TableCell>
+                          {result.egc ? (
+                            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                              {result.egc.requiredEGCSize}
+                              {result.egc.isUpsized && (
+                                <Tooltip title={`Phase conductor area is ${result.egc.upsizeRatio.toFixed(2)} x the minimum`}>
+                                  <Chip size="small" color="info" label="Upsized" />
+                                </Tooltip>
+                              )}
+                            </Box>
+                          ) : 'N/A'}
+                        </TableCell>
+                        <TableCell>{result.installedEGCSize || '-'}</TableCell>
+                        <TableCell align="center">
+                          {!result.egc ? (
+                            <Chip size="small" label="Missing Details" />
+                          ) : result.isCompliant ? (
+                            <Chip
+                              size="small"
+                              color={result.installedEGCSize ? 'success' : 'default'}
+                              icon={<CheckCircleIcon />}
+                              label={result.installedEGCSize ? 'Adequate' : 'Not Entered'}
+                            />
+                          ) : (
+                            <Tooltip title={result.issues.join('; ')}>
+                              <Chip size="small" color="error" icon={<WarningIcon />} label="Undersized" />
+                            </Tooltip>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose} color="primary">
+          Close
+        </Button>
+        {onSaveResults && (
+          <Button
+            variant="contained"
+            color="primary"
+            startIcon={<SaveIcon />}
+            onClick={handleSave}
+            disabled={!results}
+          >
+            Apply to Schedule
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default GroundingCalculatorDialog;
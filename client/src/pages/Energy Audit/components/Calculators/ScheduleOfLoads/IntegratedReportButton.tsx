@@ -3,6 +3,8 @@ import { Button, Tooltip } from '@mui/material';
 import DescriptionIcon from '@mui/icons-material/Description';
 import IntegratedReportDialog from './IntegratedReportDialog';
 import { LoadSchedule } from './types';
+import { PanelShortCircuitResult } from '../utils/shortCircuitUtils';
+import { BuildingSizingResult } from '../utils/equipmentSizingUtils';
 
 interface IntegratedReportButtonProps {
   loadSchedule: LoadSchedule;
@@ -13,12 +15,16 @@ interface IntegratedReportButtonProps {
       optimizedSize: string | null;
     };
   };
+  shortCircuitData?: PanelShortCircuitResult;
+  equipmentSizingData?: BuildingSizingResult;
   disabled?: boolean;
 }
 
 const IntegratedReportButton: React.FC<IntegratedReportButtonProps> = ({
   loadSchedule,
   voltageDropData,
+  shortCircuitData,
+  equipmentSizingData,
   disabled = false
 }) => {
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -52,6 +58,8 @@ const IntegratedReportButton: React.FC<IntegratedReportButtonProps> = ({
         onClose={handleCloseDialog}
         loadSchedule={loadSchedule}
         voltageDropData={voltageDropData}
+        shortCircuitData={shortCircuitData}
+        equipmentSizingData={equipmentSizingData}
       />
     </>
   );
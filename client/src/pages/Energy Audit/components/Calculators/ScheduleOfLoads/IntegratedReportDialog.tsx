@@ -32,6 +32,8 @@ import {
 import { LoadSchedule } from './types';
 import { generateIntegratedReport, IntegratedReportOptions } from '../utils/integratedReportGenerator';
 import { CircuitOptimizationResult } from '../utils/circuitOptimizationUtils';
+import { PanelShortCircuitResult } from '../utils/shortCircuitUtils';
+import { BuildingSizingResult } from '../utils/equipmentSizingUtils';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -67,6 +69,8 @@ interface IntegratedReportDialogProps {
       optimizationResult?: CircuitOptimizationResult | null;
     };
   };
+  shortCircuitData?: PanelShortCircuitResult;
+  equipmentSizingData?: BuildingSizingResult;
   optimizationParams?: {
     operatingHoursPerYear: number;
     energyCostPerKwh: number;
@@ -78,6 +82,8 @@ const IntegratedReportDialog: React.FC<IntegratedReportDialogProps> = ({
   onClose,
   loadSchedule,
   voltageDropData,
+  shortCircuitData,
+  equipmentSizingData,
   optimizationParams
 }) => {
   const [tabValue, setTabValue] = useState(0);
@@ -91,6 +97,8 @@ const IntegratedReportDialog: React.FC<IntegratedReportDialogProps> = ({
     includePowerCalculations: true,
     includeLoadDetails: true,
     includeOptimizationSuggestions: true,
+    includeShortCircuitAnalysis: true,
+    includeEquipmentSizing: true,
     paperSize: 'a4',
     orientation: 'portrait',
     includeLogo: false,
@@ -154,6 +162,8 @@ const IntegratedReportDialog: React.FC<IntegratedReportDialogProps> = ({
     generateIntegratedReport({
       loadSchedule,
       voltageDropData,
+      shortCircuitData,
+      equipmentSizingData,
       options: {
         ...reportOptions,
         optimizationParams: optimizationParams
@@ -508,6 +518,58 @@ const IntegratedReportDialog: React.FC<IntegratedReportDialogProps> = ({
                     label="Include Power Consumption Analysis"
                   />
                 </Grid>
+
+                <Grid item xs={12}>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={reportOptions.includeShortCircuitAnalysis}
+                        onChange={handleBooleanOptionChange('includeShortCircuitAnalysis')}
+                        color="primary"
+                        disabled={!shortCircuitData}
+                      />
+                    }
+                    label={
+                      <Box display="flex" alignItems="center">
+                        <span>Include Short-Circuit Analysis</span>
+                        {!shortCircuitData && (
+                          <Chip 
+                            label="No Data" 
+                            size="small" 
+                            color="warning" 
+                            sx={{ ml: 1 }} 
+                          />
+                        )}
+                      </Box>
+                    }
+                  />
+                </Grid>
+
+                <Grid item xs={12}>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={reportOptions.includeEquipmentSizing}
+                        onChange={handleBooleanOptionChange('includeEquipmentSizing')}
+                        color="primary"
+                        disabled={!equipmentSizingData}
+                      />
+                    }
+                    label={
+                      <Box display="flex" alignItems="center">
+                        <span>Include Transformer and Generator Sizing</span>
+                        {!equipmentSizingData && (
+                          <Chip 
+                            label="No Data" 
+                            size="small" 
+                            color="warning" 
+                            sx={{ ml: 1 }} 
+                          />
+                        )}
+                      </Box>
+                    }
+                  />
+                </Grid>
               </Grid>
             </CardContent>
           </Card>
@@ -539,6 +601,8 @@ const IntegratedReportDialog: React.FC<IntegratedReportDialogProps> = ({
                 {reportOptions.includeVoltageDropAnalysis && voltageDropData && <Chip label="Voltage Drop Analysis" size="small" color="primary" />}
                 {reportOptions.includeOptimizationSuggestions && voltageDropData && reportOptions.includeVoltageDropAnalysis && <Chip label="Optimization Recommendations" size="small" color="primary" />}
                 {reportOptions.includePowerCalculations && <Chip label="Power Consumption" size="small" color="primary" />}
+                {reportOptions.includeShortCircuitAnalysis && shortCircuitData && <Chip label="Short-Circuit Analysis" size="small" color="primary" />}
+                {reportOptions.includeEquipmentSizing && equipmentSizingData && <Chip label="Transformer and Generator Sizing" size="small" color="primary" />}
               </Box>
             </Box>
           </Box>
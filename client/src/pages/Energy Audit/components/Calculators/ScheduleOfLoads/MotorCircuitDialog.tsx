@@ -0,0 +1,450 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableRow,
+  Paper,
+  Alert,
+  IconButton,
+  Grid,
+  Card,
+  CardContent,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  InputAdornment,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Info as InfoIcon,
+  Warning as WarningIcon,
+  Save as SaveIcon
+} from '@mui/icons-material';
+import { LoadSchedule } from './types';
+import {
+  analyzeMotorStarting,
+  applyMotorCircuitResults,
+  getPanelSourceFaultCurrentKA,
+  MOTOR_STARTING_METHOD_LABELS,
+  MotorCircuitInputs,
+  MotorProtectiveDevice,
+  MotorStartingAnalysisResult,
+  MotorStartingMethod
+} from '../utils/motorUtils';
+
+interface MotorCircuitDialogProps {
+  open: boolean;
+  onClose: () => void;
+  loadSchedule: LoadSchedule;
+  onSaveResults?: (updatedLoadSchedule: LoadSchedule) => void;
+}
+
+const PROTECTIVE_DEVICE_OPTIONS: { value: MotorProtectiveDevice; label: string }[] = [
+  { value: 'inverse-time-breaker', label: 'Inverse Time Breaker (250%)' },
+  { value: 'dual-element-fuse', label: 'Dual Element Fuse (175%)' },
+  { value: 'non-time-delay-fuse', label: 'Non-Time Delay Fuse (300%)' }
+];
+
+const MotorCircuitDialog: React.FC<MotorCircuitDialogProps> = ({
+  open,
+  onClose,
+  loadSchedule,
+  onSaveResults
+}) => {
+  const [loadId, setLoadId] = useState<string>('');
+  const [ratingUnit, setRatingUnit] = useState<'hp' | 'kW'>('hp');
+  const [ratingValue, setRatingValue] = useState<number>(1);
+  const [phaseConfiguration, setPhaseConfiguration] = useState<'single-phase' | 'three-phase'>('three-phase');
+  const [serviceFactor, setServiceFactor] = useState<number>(1.0);
+  const [startingMethod, setStartingMethod] = useState<MotorStartingMethod>('dol');
+  const [lockedRotorMultiplier, setLockedRotorMultiplier] = useState<number>(6);
+  const [protectiveDevice, setProtectiveDevice] = useState<MotorProtectiveDevice>('inverse-time-breaker');
+  const [maxVoltageDipPercent, setMaxVoltageDipPercent] = useState<number>(10);
+  const [sourceFaultCurrentKA, setSourceFaultCurrentKA] = useState<number>(0);
+
+  // Default to the first motor circuit and the panel's fault current whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      const motor = loadSchedule.loads.find(load => load.circuitDetails?.type === 'motor') || loadSchedule.loads[0];
+      setLoadId(motor ? motor.id : '');
+
+      let panelFaultCurrentKA: number | null = null;
+      try {
+        panelFaultCurrentKA = getPanelSourceFaultCurrentKA(loadSchedule);
+      } catch (err) {
+        panelFaultCurrentKA = null;
+      }
+      setSourceFaultCurrentKA(panelFaultCurrentKA ? Number(panelFaultCurrentKA.toFixed(2)) : 0);
+    }
+  }, [open, loadSchedule]);
+
+  // Load the motor's saved details, or estimate its rating from the load
+  useEffect(() => {
+    const load = loadSchedule.loads.find(item => item.id === loadId);
+    if (!load) {
+      return;
+    }
+
+    if (load.motorDetails) {
+      setRatingUnit('hp');
+      setRatingValue(load.motorDetails.horsepower);
+      setServiceFactor(load.motorDetails.serviceFactor);
+      setStartingMethod(load.motorDetails.startingMethod);
+      setLockedRotorMultiplier(load.motorDetails.lockedRotorMultiplier);
+    } else {
+      setRatingUnit('kW');
+      setRatingValue(Number((load.rating / 1000).toFixed(2)));
+    }
+
+    setPhaseConfiguration(
+      load.circuitDetails?.poles === 3 || (!load.circuitDetails && loadSchedule.phaseConfiguration === 'three-phase')
+        ? 'three-phase'
+        : 'single-phase'
+    );
+  }, [loadId, loadSchedule.loads, loadSchedule.phaseConfiguration]);
+
+  const inputs = useMemo((): MotorCircuitInputs => ({
+    horsepower: ratingUnit === 'hp' ? ratingValue : undefined,
+    kilowatts: ratingUnit === 'kW' ? ratingValue : undefined,
+    voltage: loadSchedule.voltage,
+    phaseConfiguration,
+    serviceFactor,
+    startingMethod,
+    lockedRotorMultiplier,
+    protectiveDevice
+  }), [ratingUnit, ratingValue, loadSchedule.voltage, phaseConfiguration, serviceFactor, startingMethod, lockedRotorMultiplier, protectiveDevice]);
+
+  const { results, error } = useMemo((): { results: MotorStartingAnalysisResult | null; error: string | null } => {
+    if (!open || !loadId) {
+      return { results: null, error: null };
+    }
+    try {
+      return {
+        results: analyzeMotorStarting(loadSchedule, loadId, inputs, {
+          maxVoltageDipPercent,
+          sourceFaultCurrentKA: sourceFaultCurrentKA > 0 ? sourceFaultCurrentKA : undefined
+        }),
+        error: null
+      };
+    } catch (err) {
+      return {
+        results: null,
+        error: err instanceof Error ? err.message : 'Unable to analyze the motor circuit'
+      };
+    }
+  }, [open, loadSchedule, loadId, inputs, maxVoltageDipPercent, sourceFaultCurrentKA]);
+
+  const handleSave = () => {
+    if (results && onSaveResults) {
+      onSaveResults(applyMotorCircuitResults(loadSchedule, results, inputs));
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="lg"
+      fullWidth
+    >
+      <DialogTitle>
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          <Typography variant="h6">
+            Motor Circuit - {loadSchedule.panelName}
+          </Typography>
+          <IconButton onClick={onClose} size="small">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid item xs={12} sm={6} md={4}>
+            <FormControl fullWidth margin="normal">
+              <InputLabel id="motor-load-label">Motor Load</InputLabel>
+              <Select
+                labelId="motor-load-label"
+                value={loadId}
+                label="Motor Load"
+                onChange={(e) => setLoadId(e.target.value)}
+              >
+                {loadSchedule.loads.map(load => (
+                  <MenuItem key={load.id} value={load.id}>{load.description}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={8} sm={4} md={2}>
+            <TextField
+              fullWidth
+              margin="normal"
+              label="Motor Rating"
+              type="number"
+              value={ratingValue}
+              onChange={(e) => setRatingValue(Number(e.target.value))}
+              inputProps={{ min: 0, step: 0.25 }}
+            />
+          </Grid>
+          <Grid item xs={4} sm={2} md={2}>
+            <FormControl fullWidth margin="normal">
+              <InputLabel id="rating-unit-label">Unit</InputLabel>
+              <Select
+                labelId="rating-unit-label"
+                value={ratingUnit}
+                label="Unit"
+                onChange={(e) => setRatingUnit(e.target.value as 'hp' | 'kW')}
+              >
+                <MenuItem value="hp">hp</MenuItem>
+                <MenuItem value="kW">kW</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={6} md={4}>
+            <FormControl fullWidth margin="normal">
+              <InputLabel id="motor-phase-label">Phase</InputLabel>
+              <Select
+                labelId="motor-phase-label"
+                value={phaseConfiguration}
+                label="Phase"
+                onChange={(e) => setPhaseConfiguration(e.target.value as 'single-phase' | 'three-phase')}
+              >
+                <MenuItem value="single-phase">Single-phase</MenuItem>
+                <MenuItem value="three-phase">Three-phase</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={6} md={4}>
+            <FormControl fullWidth margin="normal">
+              <InputLabel id="starting-method-label">Starting Method</InputLabel>
+              <Select
+                labelId="starting-method-label"
+                value={startingMethod}
+                label="Starting Method"
+                onChange={(e) => setStartingMethod(e.target.value as MotorStartingMethod)}
+              >
+                {(Object.keys(MOTOR_STARTING_METHOD_LABELS) as MotorStartingMethod[]).map(method => (
+                  <MenuItem key={method} value={method}>{MOTOR_STARTING_METHOD_LABELS[method]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={6} md={4}>
+            <FormControl fullWidth margin="normal">
+              <InputLabel id="motor-protection-label">Short-Circuit Protection</InputLabel>
+              <Select
+                labelId="motor-protection-label"
+                value={protectiveDevice}
+                label="Short-Circuit Protection"
+                onChange={(e) => setProtectiveDevice(e.target.value as MotorProtectiveDevice)}
+              >
+                {PROTECTIVE_DEVICE_OPTIONS.map(option => (
+                  <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={6} sm={3} md={2}>
+            <TextField
+              fullWidth
+              margin="normal"
+              label="Service Factor"
+              type="number"
+              value={serviceFactor}
+              onChange={(e) => setServiceFactor(Number(e.target.value))}
+              inputProps={{ min: 1, step: 0.05 }}
+            />
+          </Grid>
+          <Grid item xs={6} sm={3} md={2}>
+            <TextField
+              fullWidth
+              margin="normal"
+              label="Locked Rotor / FLC"
+              type="number"
+              value={lockedRotorMultiplier}
+              onChange={(e) => setLockedRotorMultiplier(Number(e.target.value))}
+              inputProps={{ min: 1, step: 0.5 }}
+            />
+          </Grid>
+          <Grid item xs={6} sm={3} md={2}>
+            <TextField
+              fullWidth
+              margin="normal"
+              label="Bus Fault Current"
+              type="number"
+              value={sourceFaultCurrentKA}
+              onChange={(e) => setSourceFaultCurrentKA(Number(e.target.value))}
+              InputProps={{ endAdornment: <InputAdornment position="end">kA</InputAdornment> }}
+              inputProps={{ min: 0, step: 0.1 }}
+              helperText="From the short-circuit study"
+            />
+          </Grid>
+          <Grid item xs={6} sm={3} md={2}>
+            <TextField
+              fullWidth
+              margin="normal"
+              label="Max Voltage Dip"
+              type="number"
+              value={maxVoltageDipPercent}
+              onChange={(e) => setMaxVoltageDipPercent(Number(e.target.value))}
+              InputProps={{ endAdornment: <InputAdornment position="end">%</InputAdornment> }}
+              inputProps={{ min: 1, max: 50, step: 1 }}
+            />
+          </Grid>
+        </Grid>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {results && (
+          <>
+            <Grid container spacing={2} sx={{ mb: 2 }}>
+              <Grid item xs={12} md={4}>
+                <Card>
+                  <CardContent sx={{ textAlign: 'center' }}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                      Full-Load Current
+                    </Typography>
+                    <Typography variant="h4">
+                      {results.circuit.fullLoadCurrent.toFixed(1)} A
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {results.circuit.horsepower.toFixed(2).replace(/\.?0+$/, '')} hp, PEC 2017 Table {phaseConfiguration === 'three-phase' ? '4.30.250' : '4.30.248'}
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+              <Grid item xs={12} md={4}>
+                <Card>
+                  <CardContent sx={{ textAlign: 'center' }}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                      Starting Current
+                    </Typography>
+                    <Typography variant="h4">
+                      {results.circuit.startingCurrent.toFixed(0)} A
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {results.circuit.startingCurrentMultiplier.toFixed(1)} × FLC, {MOTOR_STARTING_METHOD_LABELS[results.circuit.startingMethod]}
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+              <Grid item xs={12} md={4}>
+                <Card>
+                  <CardContent sx={{ textAlign: 'center' }}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                      Bus Voltage Dip
+                    </Typography>
+                    <Typography variant="h4" color={results.exceedsLimit ? 'error.main' : 'success.main'}>
+                      {results.voltageDipPercent !== null ? `${results.voltageDipPercent.toFixed(1)}%` : 'N/A'}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {results.busVoltageDuringStart !== null
+                        ? `${results.busVoltageDuringStart.toFixed(0)}V during start, ${results.maxVoltageDipPercent}% limit`
+                        : 'Bus fault current required'}
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+            </Grid>
+
+            {(results.issues.length > 0 || results.recommendations.length > 0) && (
+              <Alert severity={results.isCompliant ? 'info' : 'warning'} sx={{ mb: 2 }}>
+                <List dense>
+                  {results.issues.map((issue, index) => (
+                    <ListItem key={`issue-${index}`}>
+                      <ListItemIcon sx={{ minWidth: 36 }}>
+                        <WarningIcon color="warning" fontSize="small" />
+                      </ListItemIcon>
+                      <ListItemText primary={issue} />
+                    </ListItem>
+                  ))}
+                  {results.recommendations.map((recommendation, index) => (
+                    <ListItem key={`recommendation-${index}`}>
+                      <ListItemIcon sx={{ minWidth: 36 }}>
+                        <InfoIcon color="info" fontSize="small" />
+                      </ListItemIcon>
+                      <ListItemText primary={recommendation} />
+                    </ListItem>
+                  ))}
+                </List>
+              </Alert>
+            )}
+
+            <Typography variant="subtitle1" gutterBottom>
+              Branch Circuit per PEC 2017 Article 4.30
+            </Typography>
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableBody>
+                  <TableRow>
+                    <TableCell>Conductors (Section 4.30.22)</TableCell>
+                    <TableCell>
+                      {results.circuit.conductorSize} for {results.circuit.conductorAmpacityRequired.toFixed(1)}A (125% FLC)
+                    </TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>Overload (Section 4.30.32)</TableCell>
+                    <TableCell>
+                      {results.circuit.overloadSetting.toFixed(1)}A ({results.circuit.overloadPercent}% FLC), up to {results.circuit.overloadMaxSetting.toFixed(1)}A
+                    </TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>Short-Circuit and Ground-Fault (Table 4.30.52)</TableCell>
+                    <TableCell>
+                      {results.circuit.shortCircuitDeviceRating}A ({results.circuit.shortCircuitPercent}% FLC = {results.circuit.shortCircuitMaxRating.toFixed(1)}A)
+                    </TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>Other Loads on the Panel</TableCell>
+                    <TableCell>
+                      {results.affectedLoads.length > 0 ? results.affectedLoads.join(', ') : 'None'}
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose} color="primary">
+          Close
+        </Button>
+        {onSaveResults && (
+          <Button
+            variant="contained"
+            color="primary"
+            startIcon={<SaveIcon />}
+            onClick={handleSave}
+            disabled={!results}
+          >
+            Apply to Schedule
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default MotorCircuitDialog;
@@ -68,7 +68,12 @@ import {
   InsightsOutlined as InsightsIcon,
   FolderOpen as FolderOpenIcon,
   TrendingUp as TrendingUpIcon,
-  Upgrade as UpgradeIcon
+  Upgrade as UpgradeIcon,
+  FlashOn as FlashOnIcon,
+  Timeline as TimelineIcon,
+  Power as PowerIcon,
+  ViewStream as ViewStreamIcon,
+  Settings as SettingsIcon
 } from '@mui/icons-material';
 import { LoadItem, LoadSchedule, PowerCalculationResults, CIRCUIT_BREAKER_OPTIONS, CONDUCTOR_SIZE_OPTIONS, CIRCUIT_TYPE_OPTIONS } from './types';
 import { v4 as uuidv4 } from 'uuid';
@@ -91,6 +96,12 @@ import RecalculationStatusIndicator from './RecalculationStatusIndicator';
 import CircuitInsightsDashboardDialog from './CircuitInsightsDashboardDialog';
 import { exportScheduleOfLoadsToPdf } from '../utils/enhancedScheduleOfLoadsPdfExport';
 import BatchSizingOptimizationDialog from './BatchSizingOptimizationDialog';
+import ShortCircuitAnalysisDialog from './ShortCircuitAnalysisDialog';
+import CoordinationStudyDialog from './CoordinationStudyDialog';
+import GroundingCalculatorDialog from './GroundingCalculatorDialog';
+import ConduitFillDialog from './ConduitFillDialog';
+import MotorCircuitDialog from './MotorCircuitDialog';
+import EquipmentSizingDialog from './EquipmentSizingDialog';
 import { VoltageDropRecalculator } from '../utils/voltageDropRecalculator';
 import { 
   saveCalculatorState, 
@@ -231,6 +242,24 @@ const ScheduleOfLoadsCalculator: React.FC<ScheduleOfLoadsCalculatorProps> = ({
   // Add state for batch sizing optimization
   const [batchSizingOptimizationOpen, setBatchSizingOptimizationOpen] = useState<boolean>(false);
 
+  // Add state for short-circuit analysis
+  const [shortCircuitDialogOpen, setShortCircuitDialogOpen] = useState<boolean>(false);
+
+  // Add state for protective device coordination study
+  const [coordinationDialogOpen, setCoordinationDialogOpen] = useState<boolean>(false);
+
+  // Add state for grounding conductor sizing
+  const [groundingDialogOpen, setGroundingDialogOpen] = useState<boolean>(false);
+
+  // Add state for conduit fill
+  const [conduitFillDialogOpen, setConduitFillDialogOpen] = useState<boolean>(false);
+
+  // Add state for motor circuit analysis
+  const [motorDialogOpen, setMotorDialogOpen] = useState<boolean>(false);
+
+  // Add state for transformer and generator sizing
+  const [equipmentSizingDialogOpen, setEquipmentSizingDialogOpen] = useState<boolean>(false);
+
   // Add state variables for draft recovery
   const [recoveryDialogOpen, setRecoveryDialogOpen] = useState<boolean>(false);
   const [isInitialLoad, setIsInitialLoad] = useState<boolean>(true);
@@ -932,6 +961,90 @@ const ScheduleOfLoadsCalculator: React.FC<ScheduleOfLoadsCalculatorProps> = ({
                 </Button>
               </Tooltip>
               
+              <Tooltip title="Short-Circuit Analysis">
+                <Button
+                  variant="outlined"
+                  color="primary"
+                  startIcon={<FlashOnIcon />}
+                  onClick={() => setShortCircuitDialogOpen(true)}
+                  size="small"
+                  sx={{ mr: 1 }}
+                  disabled={loadSchedule.loads.length === 0}
+                >
+                  Short Circuit
+                </Button>
+              </Tooltip>
+              
+              <Tooltip title="Protective Device Coordination">
+                <Button
+                  variant="outlined"
+                  color="primary"
+                  startIcon={<TimelineIcon />}
+                  onClick={() => setCoordinationDialogOpen(true)}
+                  size="small"
+                  sx={{ mr: 1 }}
+                  disabled={loadSchedule.loads.length === 0}
+                >
+                  Coordination
+                </Button>
+              </Tooltip>
+              
+              <Tooltip title="Grounding Conductor Sizing">
+                <Button
+                  variant="outlined"
+                  color="primary"
+                  startIcon={<PowerIcon />}
+                  onClick={() => setGroundingDialogOpen(true)}
+                  size="small"
+                  sx={{ mr: 1 }}
+                  disabled={loadSchedule.loads.length === 0}
+                >
+                  Grounding
+                </Button>
+              </Tooltip>
+              
+              <Tooltip title="Conduit Fill and Raceway Sizing">
+                <Button
+                  variant="outlined"
+                  color="primary"
+                  startIcon={<ViewStreamIcon />}
+                  onClick={() => setConduitFillDialogOpen(true)}
+                  size="small"
+                  sx={{ mr: 1 }}
+                  disabled={loadSchedule.loads.length === 0}
+                >
+                  Conduit Fill
+                </Button>
+              </Tooltip>
+              
+              <Tooltip title="Motor Branch Circuit and Starting Voltage Dip">
+                <Button
+                  variant="outlined"
+                  color="primary"
+                  startIcon={<SettingsIcon />}
+                  onClick={() => setMotorDialogOpen(true)}
+                  size="small"
+                  sx={{ mr: 1 }}
+                  disabled={loadSchedule.loads.length === 0}
+                >
+                  Motors
+                </Button>
+              </Tooltip>
+              
+              <Tooltip title="Transformer and Generator Sizing">
+                <Button
+                  variant="outlined"
+                  color="primary"
+                  startIcon={<ElectricalServicesIcon />}
+                  onClick={() => setEquipmentSizingDialogOpen(true)}
+                  size="small"
+                  sx={{ mr: 1 }}
+                  disabled={loadSchedule.loads.length === 0}
+                >
+                  Transformer / Generator
+                </Button>
+              </Tooltip>
+              
               <Tooltip title="Saved Calculations">
                 <Button
                   variant="outlined"
@@ -1752,6 +1865,84 @@ const ScheduleOfLoadsCalculator: React.FC<ScheduleOfLoadsCalculatorProps> = ({
         />
       )}
       
+      {/* Short-Circuit Analysis Dialog */}
+      {shortCircuitDialogOpen && (
+        <ShortCircuitAnalysisDialog
+          open={shortCircuitDialogOpen}
+          onClose={() => setShortCircuitDialogOpen(false)}
+          loadSchedule={loadSchedule}
+          onSaveResults={(updatedLoadSchedule) => {
+            setLoadSchedule(updatedLoadSchedule);
+            enqueueSnackbar('Short-circuit results applied to schedule', { variant: 'success' });
+          }}
+        />
+      )}
+      
+      {/* Protective Device Coordination Dialog */}
+      {coordinationDialogOpen && (
+        <CoordinationStudyDialog
+          open={coordinationDialogOpen}
+          onClose={() => setCoordinationDialogOpen(false)}
+          loadSchedule={loadSchedule}
+          onSaveResults={(updatedLoadSchedule) => {
+            setLoadSchedule(updatedLoadSchedule);
+            enqueueSnackbar('Breaker curve types saved to schedule', { variant: 'success' });
+          }}
+        />
+      )}
+      
+      {/* Grounding Conductor Sizing Dialog */}
+      {groundingDialogOpen && (
+        <GroundingCalculatorDialog
+          open={groundingDialogOpen}
+          onClose={() => setGroundingDialogOpen(false)}
+          loadSchedule={loadSchedule}
+          onSaveResults={(updatedLoadSchedule) => {
+            setLoadSchedule(updateLoadScheduleCompliance(updatedLoadSchedule));
+            enqueueSnackbar('Grounding conductor sizes applied to schedule', { variant: 'success' });
+          }}
+        />
+      )}
+      
+      {/* Conduit Fill Dialog */}
+      {conduitFillDialogOpen && (
+        <ConduitFillDialog
+          open={conduitFillDialogOpen}
+          onClose={() => setConduitFillDialogOpen(false)}
+          loadSchedule={loadSchedule}
+          onSaveResults={(updatedLoadSchedule) => {
+            setLoadSchedule(updatedLoadSchedule);
+            enqueueSnackbar('Raceway size and ampacity adjustment applied to circuits', { variant: 'success' });
+          }}
+        />
+      )}
+      
+      {/* Motor Circuit Dialog */}
+      {motorDialogOpen && (
+        <MotorCircuitDialog
+          open={motorDialogOpen}
+          onClose={() => setMotorDialogOpen(false)}
+          loadSchedule={loadSchedule}
+          onSaveResults={(updatedLoadSchedule) => {
+            setLoadSchedule(updateLoadScheduleCompliance(updatedLoadSchedule));
+            enqueueSnackbar('Motor branch circuit applied to schedule', { variant: 'success' });
+          }}
+        />
+      )}
+      
+      {/* Transformer and Generator Sizing Dialog */}
+      {equipmentSizingDialogOpen && (
+        <EquipmentSizingDialog
+          open={equipmentSizingDialogOpen}
+          onClose={() => setEquipmentSizingDialogOpen(false)}
+          loadSchedule={loadSchedule}
+          onSaveResults={(updatedLoadSchedule) => {
+            setLoadSchedule(updatedLoadSchedule);
+            enqueueSnackbar('Service transformer rating applied to schedule', { variant: 'success' });
+          }}
+        />
+      )}
+      
       {/* Edit Load Item Dialog */}
       <Dialog
         open={editingLoad !== null}
@@ -0,0 +1,448 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Alert,
+  IconButton,
+  Grid,
+  Card,
+  CardContent,
+  TextField,
+  InputAdornment,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Chip,
+  Tooltip
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Info as InfoIcon,
+  Warning as WarningIcon,
+  CheckCircle as CheckCircleIcon,
+  FlashOn as FlashOnIcon,
+  Save as SaveIcon
+} from '@mui/icons-material';
+import { LoadSchedule } from './types';
+import IntegratedReportButton from './IntegratedReportButton';
+import {
+  analyzePanelShortCircuit,
+  applyShortCircuitResults,
+  PanelShortCircuitResult,
+  TransformerParameters
+} from '../utils/shortCircuitUtils';
+
+interface ShortCircuitAnalysisDialogProps {
+  open: boolean;
+  onClose: () => void;
+  loadSchedule: LoadSchedule;
+  onSaveResults?: (updatedLoadSchedule: LoadSchedule) => void;
+}
+
+const ShortCircuitAnalysisDialog: React.FC<ShortCircuitAnalysisDialogProps> = ({
+  open,
+  onClose,
+  loadSchedule,
+  onSaveResults
+}) => {
+  const [transformerKva, setTransformerKva] = useState<number>(loadSchedule.serviceTransformer?.kva || 500);
+  const [impedancePercent, setImpedancePercent] = useState<number>(loadSchedule.serviceTransformer?.impedancePercent || 5.75);
+  const [secondaryVoltage, setSecondaryVoltage] = useState<number>(
+    loadSchedule.serviceTransformer?.secondaryVoltage || loadSchedule.voltage
+  );
+  const [utilityFaultMVA, setUtilityFaultMVA] = useState<string>(
+    loadSchedule.serviceTransformer?.utilityFaultMVA ? String(loadSchedule.serviceTransformer.utilityFaultMVA) : ''
+  );
+  const [feederMaterial, setFeederMaterial] = useState<'copper' | 'aluminum'>('copper');
+  const [conduitMaterial, setConduitMaterial] = useState<'PVC' | 'steel' | 'aluminum'>('PVC');
+  // Interrupting ratings entered in this dialog, keyed by load item ID ('main' for the main breaker)
+  const [interruptingRatings, setInterruptingRatings] = useState<Record<string, number | undefined>>({});
+
+  // Seed interrupting ratings from the schedule whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      const ratings: Record<string, number | undefined> = { main: loadSchedule.interruptingRatingKA };
+      loadSchedule.loads.forEach(load => {
+        ratings[load.id] = load.interruptingRatingKA;
+      });
+      setInterruptingRatings(ratings);
+    }
+  }, [open, loadSchedule]);
+
+  const transformer: TransformerParameters = useMemo(() => ({
+    kva: transformerKva,
+    impedancePercent,
+    secondaryVoltage,
+    phaseConfiguration: loadSchedule.phaseConfiguration || 'single-phase',
+    utilityFaultMVA: utilityFaultMVA ? Number(utilityFaultMVA) : undefined
+  }), [transformerKva, impedancePercent, secondaryVoltage, utilityFaultMVA, loadSchedule.phaseConfiguration]);
+
+  // Schedule with the kAIC values entered in this dialog
+  const scheduleWithRatings: LoadSchedule = useMemo(() => ({
+    ...loadSchedule,
+    serviceTransformer: {
+      kva: transformer.kva,
+      impedancePercent: transformer.impedancePercent,
+      secondaryVoltage: transformer.secondaryVoltage,
+      utilityFaultMVA: transformer.utilityFaultMVA
+    },
+    interruptingRatingKA: interruptingRatings.main,
+    loads: loadSchedule.loads.map(load => ({
+      ...load,
+      interruptingRatingKA: interruptingRatings[load.id]
+    }))
+  }), [loadSchedule, transformer, interruptingRatings]);
+
+  const { results, error } = useMemo((): { results: PanelShortCircuitResult | null; error: string | null } => {
+    if (!open) {
+      return { results: null, error: null };
+    }
+    try {
+      return {
+        results: analyzePanelShortCircuit(scheduleWithRatings, transformer, {
+          conductorMaterial: feederMaterial,
+          conduitMaterial
+        }),
+        error: null
+      };
+    } catch (err) {
+      return {
+        results: null,
+        error: err instanceof Error ? err.message : 'Unable to calculate fault current'
+      };
+    }
+  }, [open, scheduleWithRatings, transformer, feederMaterial, conduitMaterial]);
+
+  const handleRatingChange = (key: string) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value;
+    setInterruptingRatings(prev => ({
+      ...prev,
+      [key]: value === '' ? undefined : Number(value)
+    }));
+  };
+
+  const handleSave = () => {
+    if (results && onSaveResults) {
+      onSaveResults(applyShortCircuitResults(scheduleWithRatings, results));
+    }
+    onClose();
+  };
+
+  const renderStatusChip = (isAdequate: boolean | undefined, isAssumed?: boolean) => {
+    if (isAdequate === undefined) {
+      return <Chip size="small" label="No Breaker" />;
+    }
+    return (
+      <Tooltip title={isAssumed ? 'Typical interrupting rating assumed' : ''}>
+        <Chip
+          size="small"
+          color={isAdequate ? (isAssumed ? 'info' : 'success') : 'error'}
+          icon={isAdequate ? <CheckCircleIcon /> : <WarningIcon />}
+          label={isAdequate ? 'Adequate' : 'Inadequate'}
+        />
+      </Tooltip>
+    );
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="lg"
+      fullWidth
+    >
+      <DialogTitle>
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          <Typography variant="h6">
+            Short-Circuit Analysis - {loadSchedule.panelName}
+          </Typography>
+          <IconButton onClick={onClose} size="small">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Box sx={{ mb: 3, p: 2, bgcolor: 'background.paper', borderRadius: 1 }}>
+          <Typography variant="subtitle1" gutterBottom>
+            Service Transformer
+          </Typography>
+
+          <Grid container spacing={2}>
+            <Grid item xs={12} sm={6} md={2}>
+              <TextField
+                label="Rating"
+                type="number"
+                value={transformerKva}
+                onChange={(e) => setTransformerKva(Number(e.target.value))}
+                fullWidth
+                margin="normal"
+                InputProps={{
+                  endAdornment: <InputAdornment position="end">kVA</InputAdornment>,
+                  inputProps: { min: 1, step: 25 }
+                }}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6} md={2}>
+              <TextField
+                label="Impedance"
+                type="number"
+                value={impedancePercent}
+                onChange={(e) => setImpedancePercent(Number(e.target.value))}
+                fullWidth
+                margin="normal"
+                InputProps={{
+                  endAdornment: <InputAdornment position="end">%Z</InputAdornment>,
+                  inputProps: { min: 0.5, step: 0.25 }
+                }}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6} md={2}>
+              <TextField
+                label="Secondary Voltage"
+                type="number"
+                value={secondaryVoltage}
+                onChange={(e) => setSecondaryVoltage(Number(e.target.value))}
+                fullWidth
+                margin="normal"
+                InputProps={{
+                  endAdornment: <InputAdornment position="end">V</InputAdornment>,
+                  inputProps: { min: 1 }
+                }}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6} md={2}>
+              <TextField
+                label="Utility Fault Level"
+                type="number"
+                value={utilityFaultMVA}
+                onChange={(e) => setUtilityFaultMVA(e.target.value)}
+                fullWidth
+                margin="normal"
+                helperText="Blank = infinite bus"
+                InputProps={{
+                  endAdornment: <InputAdornment position="end">MVA</InputAdornment>,
+                  inputProps: { min: 0 }
+                }}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6} md={2}>
+              <FormControl fullWidth margin="normal">
+                <InputLabel id="sc-feeder-material-label">Feeder Material</InputLabel>
+                <Select
+                  labelId="sc-feeder-material-label"
+                  value={feederMaterial}
+                  label="Feeder Material"
+                  onChange={(e) => setFeederMaterial(e.target.value as 'copper' | 'aluminum')}
+                >
+                  <MenuItem value="copper">Copper</MenuItem>
+                  <MenuItem value="aluminum">Aluminum</MenuItem>
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} sm={6} md={2}>
+              <FormControl fullWidth margin="normal">
+                <InputLabel id="sc-conduit-material-label">Conduit</InputLabel>
+                <Select
+                  labelId="sc-conduit-material-label"
+                  value={conduitMaterial}
+                  label="Conduit"
+                  onChange={(e) => setConduitMaterial(e.target.value as 'PVC' | 'steel' | 'aluminum')}
+                >
+                  <MenuItem value="PVC">PVC</MenuItem>
+                  <MenuItem value="steel">Steel</MenuItem>
+                  <MenuItem value="aluminum">Aluminum</MenuItem>
+                </Select>
+              </FormControl>
+            </Grid>
+          </Grid>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {results && (
+          <>
+            <Grid container spacing={2} sx={{ mb: 3 }}>
+              <Grid item xs={12} md={4}>
+                <Card>
+                  <CardContent sx={{ textAlign: 'center' }}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                      Transformer Secondary
+                    </Typography>
+                    <Typography variant="h4">
+                      {results.transformerFaultCurrentKA.toFixed(2)}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      kA available (FLA {results.transformerFullLoadCurrent.toFixed(0)} A)
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+              <Grid item xs={12} md={4}>
+                <Card>
+                  <CardContent sx={{ textAlign: 'center' }}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                      Panel Bus
+                    </Typography>
+                    <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center' }}>
+                      <FlashOnIcon color="warning" sx={{ fontSize: 32, mr: 1 }} />
+                      <Typography variant="h4">
+                        {results.panelFaultCurrentKA.toFixed(2)}
+                      </Typography>
+                    </Box>
+                    <Typography variant="body2" color="text.secondary">
+                      kA available {results.feeder ? `(M = ${results.feeder.multiplier.toFixed(3)})` : ''}
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+              <Grid item xs={12} md={4}>
+                <Card>
+                  <CardContent sx={{ textAlign: 'center' }}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                      Main Breaker {loadSchedule.circuitBreaker ? `(${loadSchedule.circuitBreaker})` : ''}
+                    </Typography>
+                    <TextField
+                      size="small"
+                      type="number"
+                      label="kAIC"
+                      value={interruptingRatings.main ?? ''}
+                      onChange={handleRatingChange('main')}
+                      placeholder={results.mainBreaker ? String(results.mainBreaker.interruptingRatingKA) : ''}
+                      disabled={!loadSchedule.circuitBreaker}
+                      sx={{ width: 100, mb: 1 }}
+                    />
+                    <Box>
+                      {renderStatusChip(results.mainBreaker?.isAdequate, results.mainBreaker?.isAssumedRating)}
+                    </Box>
+                  </CardContent>
+                </Card>
+              </Grid>
+            </Grid>
+
+            {(results.issues.length > 0 || results.recommendations.length > 0) && (
+              <Alert severity={results.isCompliant ? 'info' : 'warning'} sx={{ mb: 2 }}>
+                <List dense>
+                  {results.issues.map((issue, index) => (
+                    <ListItem key={`issue-${index}`}>
+                      <ListItemIcon sx={{ minWidth: 36 }}>
+                        <WarningIcon color="warning" fontSize="small" />
+                      </ListItemIcon>
+                      <ListItemText primary={issue} />
+                    </ListItem>
+                  ))}
+                  {results.recommendations.map((recommendation, index) => (
+                    <ListItem key={`recommendation-${index}`}>
+                      <ListItemIcon sx={{ minWidth: 36 }}>
+                        <InfoIcon color="info" fontSize="small" />
+                      </ListItemIcon>
+                      <ListItemText primary={recommendation} />
+                    </ListItem>
+                  ))}
+                </List>
+              </Alert>
+            )}
+
+            <Typography variant="subtitle1" gutterBottom>
+              Branch Circuits
+            </Typography>
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Description</TableCell>
+                    <TableCell>Conductor</TableCell>
+                    <TableCell align="right">Length (m)</TableCell>
+                    <TableCell align="right">Fault at Load (kA)</TableCell>
+                    <TableCell align="right">Breaker</TableCell>
+                    <TableCell align="right">kAIC</TableCell>
+                    <TableCell align="center">Status</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {results.loadResults.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} align="center">
+                        No load items in this schedule
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    results.loadResults.map(result => (
+                      <TableRow key={result.loadId} hover>
+                        <TableCell>{result.description}</TableCell>
+                        <TableCell>{result.conductorSize || 'N/A'}</TableCell>
+                        <TableCell align="right">{result.conductorLength ?? 'N/A'}</TableCell>
+                        <TableCell align="right">{result.faultCurrentKA.toFixed(2)}</TableCell>
+                        <TableCell align="right">{result.breaker ? `${result.breaker.breakerRating}A` : 'N/A'}</TableCell>
+                        <TableCell align="right">
+                          <TextField
+                            size="small"
+                            type="number"
+                            value={interruptingRatings[result.loadId] ?? ''}
+                            onChange={handleRatingChange(result.loadId)}
+                            placeholder={result.breaker ? String(result.breaker.interruptingRatingKA) : ''}
+                            disabled={!result.breaker}
+                            sx={{ width: 80 }}
+                          />
+                        </TableCell>
+                        <TableCell align="center">
+                          {renderStatusChip(result.breaker?.isAdequate, result.breaker?.isAssumedRating)}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <IntegratedReportButton
+          loadSchedule={scheduleWithRatings}
+          shortCircuitData={results || undefined}
+          disabled={!results}
+        />
+        <Box sx={{ flexGrow: 1 }} />
+        <Button onClick={onClose} color="primary">
+          Close
+        </Button>
+        {onSaveResults && (
+          <Button
+            variant="contained"
+            color="primary"
+            startIcon={<SaveIcon />}
+            onClick={handleSave}
+            disabled={!results}
+          >
+            Apply to Schedule
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ShortCircuitAnalysisDialog;
@@ -0,0 +1,128 @@
+import React, { useMemo } from 'react';
+import { ChartConfiguration } from 'chart.js';
+import ZoomableChart from '../../../../../utils/reportGenerator/ZoomableChart';
+import {
+  generateTCCCurve,
+  ProtectiveDevice,
+  INSTANTANEOUS_MIN_TIME,
+  TCC_MAX_TIME
+} from '../utils/coordinationUtils';
+
+interface TCCChartProps {
+  devices: ProtectiveDevice[];
+  faultCurrent?: number; // A, drawn as a vertical marker
+  title?: string;
+  subtitle?: string;
+}
+
+/**
+ * Band colors, downstream devices first
+ */
+const DEVICE_COLORS = ['#1976d2', '#d32f2f', '#388e3c', '#f57c00'];
+
+/**
+ * Log-log time-current curve chart for breakers in series
+ */
+const TCCChart: React.FC<TCCChartProps> = ({
+  devices,
+  faultCurrent,
+  title = 'Time-Current Curves',
+  subtitle
+}) => {
+  // Memoized so ZoomableChart only rebuilds when the devices change
+  const configuration = useMemo((): ChartConfiguration => {
+    const largestRating = Math.max(...devices.map(device => device.rating), 1);
+    const maxCurrent = Math.max(faultCurrent || 0, largestRating * 30);
+    const minCurrent = Math.min(...devices.map(device => device.rating), maxCurrent);
+
+    const datasets: any[] = [];
+    devices.forEach((device, index) => {
+      const color = DEVICE_COLORS[index % DEVICE_COLORS.length];
+      const curve = generateTCCCurve(device, maxCurrent);
+
+      datasets.push({
+        label: `${device.label} (${device.curveType}) min`,
+        data: curve.minCurve,
+        borderColor: color,
+        borderWidth: 1.5,
+        pointRadius: 0,
+        showLine: true,
+        fill: false
+      });
+      // Fill back to the previous dataset to shade the tolerance band
+      datasets.push({
+        label: `${device.label} (${device.curveType}) max`,
+        data: curve.maxCurve,
+        borderColor: color,
+        backgroundColor: `${color}33`,
+        borderWidth: 1.5,
+        pointRadius: 0,
+        showLine: true,
+        fill: '-1'
+      });
+    });
+
+    if (faultCurrent && faultCurrent > 0) {
+      datasets.push({
+        label: `Available Fault Current (${(faultCurrent / 1000).toFixed(2)} kA)`,
+        data: [
+          { x: faultCurrent, y: INSTANTANEOUS_MIN_TIME },
+          { x: faultCurrent, y: TCC_MAX_TIME }
+        ],
+        borderColor: '#616161',
+        borderDash: [6, 4],
+        borderWidth: 1.5,
+        pointRadius: 0,
+        showLine: true,
+        fill: false
+      });
+    }
+
+    return {
+      type: 'scatter',
+      data: { datasets },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        scales: {
+          x: {
+            type: 'logarithmic',
+            min: minCurrent,
+            max: maxCurrent,
+            title: {
+              display: true,
+              text: 'Current (A)'
+            }
+          },
+          y: {
+            type: 'logarithmic',
+            min: INSTANTANEOUS_MIN_TIME / 2,
+            max: TCC_MAX_TIME,
+            title: {
+              display: true,
+              text: 'Time (s)'
+            }
+          }
+        },
+        plugins: {
+          legend: {
+            position: 'bottom'
+          }
+        }
+      }
+    };
+  }, [devices, faultCurrent]);
+
+  return (
+    <ZoomableChart
+      title={title}
+      subtitle={subtitle}
+      configuration={configuration}
+      sizePreset="large"
+      showExportOptions={false}
+      ariaLabel="Log-log time-current curves of the protective devices"
+    />
+  );
+};
+
+export default TCCChart;
@@ -35,6 +35,7 @@ export interface LoadItem {
   harmonicFactor?: number;
   parallelSets?: number;
   bundleAdjustmentFactor?: number;
+  conduitSize?: string; // Raceway from the conduit fill calculator, e.g. "PVC 21 mm (3/4")"
   distanceToFurthestOutlet?: number;
   startingCurrentMultiplier?: number;
   // Optimization metadata
@@ -58,6 +59,23 @@ export interface LoadItem {
     wireType: 'THHN_COPPER' | 'THWN_COPPER' | 'XHHW_COPPER' | 'THHN_ALUMINUM' | 'THWN_ALUMINUM' | 'XHHW_ALUMINUM';
     maxVoltageDropAllowed: number; // in percent
   };
+  // Short-circuit analysis fields
+  interruptingRatingKA?: number; // Breaker interrupting rating (kAIC)
+  availableFaultCurrentKA?: number; // Fault current at the end of the branch circuit
+  breakerCurveType?: 'B' | 'C' | 'D' | 'MCCB'; // Trip curve used in the coordination study
+  // Grounding fields
+  equipmentGroundingConductorSize?: string; // Installed EGC
+  requiredEGCSize?: string; // EGC required per PEC 2017 Section 2.50.122, from the grounding calculator
+  // Motor circuit fields, from the motor calculator
+  motorDetails?: {
+    horsepower: number;
+    fullLoadCurrent: number; // PEC 2017 Table 4.30.248/4.30.250
+    serviceFactor: number;
+    startingMethod: 'dol' | 'star-delta' | 'soft-start' | 'vfd';
+    lockedRotorMultiplier: number;
+    overloadSetting: number; // amps
+    voltageDipPercent?: number; // Panel bus dip during starting
+  };
   // Tracking when the load item was last updated
   lastUpdated?: number;
 }
@@ -115,6 +133,21 @@ export interface LoadSchedule {
     recommendations: string[];
     loadBalancePercentage?: number; // Phase balance for 3-phase panels
   };
+  // Short-circuit analysis fields
+  serviceTransformer?: {
+    kva: number;
+    impedancePercent: number;
+    secondaryVoltage: number;
+    utilityFaultMVA?: number;
+  };
+  interruptingRatingKA?: number; // Main breaker interrupting rating (kAIC)
+  availableFaultCurrentKA?: number; // Fault current at the panel bus
+  breakerCurveType?: 'B' | 'C' | 'D' | 'MCCB'; // Main breaker trip curve
+  feederProtectionCurveType?: 'B' | 'C' | 'D' | 'MCCB'; // Feeder protection trip curve
+  // Grounding fields
+  equipmentGroundingConductorSize?: string; // Feeder EGC
+  requiredEGCSize?: string; // Feeder EGC required per PEC 2017 Section 2.50.122
+  groundingElectrodeConductorSize?: string; // GEC when the panel is service equipment
   // Tracking when the load schedule was last updated
   lastUpdated?: number;
 }
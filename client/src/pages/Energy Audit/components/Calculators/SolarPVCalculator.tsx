@@ -0,0 +1,548 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  Grid,
+  InputAdornment,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import {
+  Apartment as ApartmentIcon,
+  Info as InfoIcon,
+  Save as SaveIcon,
+  Warning as WarningIcon
+} from '@mui/icons-material';
+import { useSnackbar } from 'notistack';
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { LoadSchedule } from './ScheduleOfLoads/types';
+import { loadSavedLoadSchedules, saveCalculation } from './utils/storage';
+import { PHILIPPINE_IRRADIANCE_DATA } from './utils/philippineIrradiance';
+import {
+  analyzeSolarPV,
+  DEFAULT_SOLAR_PV_OPTIONS,
+  estimateRoofArea,
+  ResolvedSolarPVOptions,
+  SolarPVResult
+} from './utils/solarPVUtils';
+import { buildingDataService } from '../BuildingVisualization/services/buildingDataService';
+import TariffRateSelector from './TariffRateSelector';
+
+type NumericOption = Exclude<keyof ResolvedSolarPVOptions, 'locationId' | 'netMetering'>;
+
+// Format currency values
+const formatCurrency = (value: number): string => {
+  return new Intl.NumberFormat('en-PH', {
+    style: 'currency',
+    currency: 'PHP',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(value);
+};
+
+const formatKWh = (value: number): string => `${Math.round(value).toLocaleString()} kWh`;
+
+const SolarPVCalculator: React.FC = () => {
+  const { enqueueSnackbar } = useSnackbar();
+
+  const [panels, setPanels] = useState<LoadSchedule[]>([]);
+  const [selectedPanelIds, setSelectedPanelIds] = useState<string[]>([]);
+  const [roofFootprintArea, setRoofFootprintArea] = useState<number>(0);
+  const [roofSource, setRoofSource] = useState<string | null>(null);
+  const [usableRoofFraction, setUsableRoofFraction] = useState<number>(0.7);
+  const [systemSizeKWp, setSystemSizeKWp] = useState<string>('');
+  const [options, setOptions] = useState<ResolvedSolarPVOptions>(DEFAULT_SOLAR_PV_OPTIONS);
+  const [loadingBuilding, setLoadingBuilding] = useState<boolean>(false);
+
+  // Offer every panel saved from the Schedule of Loads calculator
+  useEffect(() => {
+    const saved = loadSavedLoadSchedules();
+    setPanels(saved);
+    setSelectedPanelIds(saved.map(panel => panel.id));
+  }, []);
+
+  const selectedPanels = useMemo(
+    () => panels.filter(panel => selectedPanelIds.includes(panel.id)),
+    [panels, selectedPanelIds]
+  );
+
+  const usableRoofArea = roofFootprintArea * usableRoofFraction;
+
+  const { results, error } = useMemo((): { results: SolarPVResult | null; error: string | null } => {
+    if (usableRoofArea <= 0 || selectedPanels.length === 0) {
+      return { results: null, error: null };
+    }
+    try {
+      return {
+        results: analyzeSolarPV(usableRoofArea, selectedPanels, {
+          ...options,
+          systemSizeKWp: systemSizeKWp ? Number(systemSizeKWp) : undefined
+        }),
+        error: null
+      };
+    } catch (err) {
+      return {
+        results: null,
+        error: err instanceof Error ? err.message : 'Unable to analyze the PV system'
+      };
+    }
+  }, [usableRoofArea, selectedPanels, options, systemSizeKWp]);
+
+  const togglePanel = (panelId: string) => {
+    setSelectedPanelIds(prev =>
+      prev.includes(panelId) ? prev.filter(id => id !== panelId) : [...prev, panelId]
+    );
+  };
+
+  const handleOptionChange = (key: NumericOption) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    setOptions(prev => ({ ...prev, [key]: Number(event.target.value) }));
+  };
+
+  // Take the roof footprint from the building visualization room data
+  const handleLoadBuildingRoof = async () => {
+    setLoadingBuilding(true);
+    try {
+      const buildingData = await buildingDataService.fetchBuildingData();
+      const roof = estimateRoofArea(buildingData, 1);
+      setRoofFootprintArea(Math.round(roof.footprintArea));
+      setRoofSource(`${buildingData.name} - ${roof.floorName}`);
+    } catch (err) {
+      enqueueSnackbar(err instanceof Error ? err.message : 'Unable to load building data', { variant: 'error' });
+    } finally {
+      setLoadingBuilding(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (results) {
+      saveCalculation(
+        'solar-pv',
+        `Solar PV - ${results.systemSizeKWp.toFixed(1)} kWp ${results.location.name} - ${new Date().toLocaleDateString()}`,
+        {
+          inputs: { roofFootprintArea, usableRoofFraction, systemSizeKWp, options, panelIds: selectedPanelIds },
+          results
+        }
+      );
+      enqueueSnackbar('Solar PV calculation saved', { variant: 'success' });
+    }
+  };
+
+  const renderNumberField = (key: NumericOption, label: string, unit?: string, step: number = 1) => (
+    <Grid item xs={6} sm={4} md={3}>
+      <TextField
+        fullWidth
+        margin="normal"
+        label={label}
+        type="number"
+        value={options[key]}
+        onChange={handleOptionChange(key)}
+        inputProps={{ min: 0, step }}
+        InputProps={unit ? { endAdornment: <InputAdornment position="end">{unit}</InputAdornment> } : undefined}
+      />
+    </Grid>
+  );
+
+  return (
+    <Box sx={{ width: '100%' }}>
+      <Typography variant="h5" gutterBottom>
+        Solar PV Rooftop Calculator
+      </Typography>
+      <Typography variant="body2" color="text.secondary" paragraph>
+        Size a rooftop solar PV system from the building roof area and typical-year irradiance for major
+        Philippine cities, then estimate self-consumption, exports credited under net-metering (RA 9513)
+        and the project cash flow against the hourly load profile of the saved load schedules.
+      </Typography>
+
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Site and System
+        </Typography>
+        <Grid container spacing={2} alignItems="center">
+          <Grid item xs={12} sm={6} md={3}>
+            <FormControl fullWidth margin="normal">
+              <InputLabel>Location</InputLabel>
+              <Select
+                value={options.locationId}
+                label="Location"
+                onChange={(e) => setOptions(prev => ({ ...prev, locationId: e.target.value as string }))}
+              >
+                {PHILIPPINE_IRRADIANCE_DATA.map(location => (
+                  <MenuItem key={location.id} value={location.id}>
+                    {location.name} ({location.region})
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={6} sm={6} md={3}>
+            <TextField
+              fullWidth
+              margin="normal"
+              label="Roof Footprint"
+              type="number"
+              value={roofFootprintArea}
+              onChange={(e) => {
+                setRoofFootprintArea(Number(e.target.value));
+                setRoofSource(null);
+              }}
+              inputProps={{ min: 0 }}
+              InputProps={{ endAdornment: <InputAdornment position="end">m²</InputAdornment> }}
+              helperText={roofSource ? `From ${roofSource}` : 'Enter or load from the building'}
+            />
+          </Grid>
+          <Grid item xs={6} sm={6} md={2}>
+            <TextField
+              fullWidth
+              margin="normal"
+              label="Usable Roof Fraction"
+              type="number"
+              value={usableRoofFraction}
+              onChange={(e) => setUsableRoofFraction(Number(e.target.value))}
+              inputProps={{ min: 0.1, max: 1, step: 0.05 }}
+              helperText={`${usableRoofArea.toFixed(0)} m² usable`}
+            />
+          </Grid>
+          <Grid item xs={6} sm={6} md={2}>
+            <TextField
+              fullWidth
+              margin="normal"
+              label="System Size"
+              type="number"
+              value={systemSizeKWp}
+              onChange={(e) => setSystemSizeKWp(e.target.value)}
+              inputProps={{ min: 0, step: 0.5 }}
+              InputProps={{ endAdornment: <InputAdornment position="end">kWp</InputAdornment> }}
+              helperText="Blank to fill the roof"
+            />
+          </Grid>
+          <Grid item xs={6} sm={6} md={2}>
+            <Button
+              variant="outlined"
+              startIcon={<ApartmentIcon />}
+              onClick={handleLoadBuildingRoof}
+              disabled={loadingBuilding}
+            >
+              Use Building Roof
+            </Button>
+          </Grid>
+          {renderNumberField('moduleEfficiencyPercent', 'Module Efficiency', '%', 0.5)}
+          {renderNumberField('performanceRatio', 'Performance Ratio', undefined, 0.01)}
+          {renderNumberField('unoccupiedLoadFactor', 'Unoccupied Load Factor', undefined, 0.05)}
+          {renderNumberField('degradationPercent', 'Degradation', '%/yr', 0.1)}
+        </Grid>
+      </Paper>
+
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Tariff and Financials
+        </Typography>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={options.netMetering}
+              onChange={(e) => setOptions(prev => ({ ...prev, netMetering: e.target.checked }))}
+            />
+          }
+          label="Net-metering (credit exports at the blended generation charge)"
+        />
+        <Grid container spacing={2}>
+          <Grid item xs={12}>
+            <TariffRateSelector
+              onRateChange={(rate) => {
+                if (rate !== null) setOptions(prev => ({ ...prev, importRate: rate }));
+              }}
+            />
+          </Grid>
+          {renderNumberField('importRate', 'Retail Rate', 'PHP/kWh', 0.1)}
+          {renderNumberField('exportRate', 'Export Credit Rate', 'PHP/kWh', 0.1)}
+          {renderNumberField('installedCostPerKWp', 'Installed Cost', 'PHP/kWp', 1000)}
+          {renderNumberField('annualOMPercent', 'Annual O&M', '% of cost', 0.1)}
+          {renderNumberField('inverterReplacementYear', 'Inverter Replacement Year')}
+          {renderNumberField('inverterReplacementCostPerKWp', 'Inverter Replacement', 'PHP/kWp', 500)}
+          {renderNumberField('tariffEscalationPercent', 'Tariff Escalation', '%/yr', 0.5)}
+          {renderNumberField('inflationPercent', 'O&M Inflation', '%/yr', 0.5)}
+          {renderNumberField('discountRatePercent', 'Discount Rate', '%', 0.5)}
+          {renderNumberField('projectLifespan', 'Project Lifespan', 'years')}
+        </Grid>
+      </Paper>
+
+      <Typography variant="subtitle1" gutterBottom>
+        Load Schedules in the Building Load Profile
+      </Typography>
+      {panels.length === 0 ? (
+        <Alert severity="info" sx={{ mb: 3 }}>
+          No saved load schedules found. Save panels from the Schedule of Loads calculator, with their
+          operating hours and occupancy factors, to build the hourly load profile.
+        </Alert>
+      ) : (
+        <TableContainer component={Paper} variant="outlined" sx={{ mb: 3, maxHeight: 260 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox" />
+                <TableCell>Panel</TableCell>
+                <TableCell>Floor</TableCell>
+                <TableCell align="right">Demand Load (kW)</TableCell>
+                <TableCell>Operating Hours</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {panels.map(panel => (
+                <TableRow
+                  key={panel.id}
+                  hover
+                  onClick={() => togglePanel(panel.id)}
+                  sx={{ cursor: 'pointer' }}
+                >
+                  <TableCell padding="checkbox">
+                    <Checkbox checked={selectedPanelIds.includes(panel.id)} />
+                  </TableCell>
+                  <TableCell>{panel.panelName}</TableCell>
+                  <TableCell>{panel.floorName || '-'}</TableCell>
+                  <TableCell align="right">{(panel.totalDemandLoad / 1000).toFixed(2)}</TableCell>
+                  <TableCell>
+                    {panel.hours && Object.keys(panel.hours).length > 0
+                      ? `${Object.keys(panel.hours).length} days/week`
+                      : 'Continuous'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {results && (
+        <>
+          <Grid container spacing={2} sx={{ mb: 3 }}>
+            <Grid item xs={6} md={3}>
+              <Card>
+                <CardContent sx={{ textAlign: 'center' }}>
+                  <Typography variant="body2" color="text.secondary">System Size</Typography>
+                  <Typography variant="h5">{results.systemSizeKWp.toFixed(1)} kWp</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {results.arrayArea.toFixed(0)} m² of modules, roof holds {results.roofCapacityKWp.toFixed(1)} kWp
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={6} md={3}>
+              <Card>
+                <CardContent sx={{ textAlign: 'center' }}>
+                  <Typography variant="body2" color="text.secondary">Annual Generation</Typography>
+                  <Typography variant="h5">{formatKWh(results.energy.annualGenerationKWh)}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {results.energy.specificYield.toFixed(0)} kWh/kWp
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={6} md={3}>
+              <Card>
+                <CardContent sx={{ textAlign: 'center' }}>
+                  <Typography variant="body2" color="text.secondary">Self-Consumption</Typography>
+                  <Typography variant="h5">{results.energy.selfConsumptionPercent.toFixed(0)}%</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    Covers {results.energy.solarFractionPercent.toFixed(0)}% of the load
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={6} md={3}>
+              <Card>
+                <CardContent sx={{ textAlign: 'center' }}>
+                  <Typography variant="body2" color="text.secondary">Year 1 Savings</Typography>
+                  <Typography variant="h5">{formatCurrency(results.financial.yearOneSavings)}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {results.netMeteringEligible ? 'Net-metering eligible' : 'No export credit'}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={6} md={3}>
+              <Card>
+                <CardContent sx={{ textAlign: 'center' }}>
+                  <Typography variant="body2" color="text.secondary">Installed Cost</Typography>
+                  <Typography variant="h5">{formatCurrency(results.financial.capitalCost)}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    LCOE PHP {results.financial.levelizedCostPerKWh.toFixed(2)}/kWh
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={6} md={3}>
+              <Card>
+                <CardContent sx={{ textAlign: 'center' }}>
+                  <Typography variant="body2" color="text.secondary">Simple Payback</Typography>
+                  <Typography variant="h5">{results.financial.metrics.simplePayback.toFixed(1)} years</Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={6} md={3}>
+              <Card>
+                <CardContent sx={{ textAlign: 'center' }}>
+                  <Typography variant="body2" color="text.secondary">Net Present Value</Typography>
+                  <Typography variant="h5" color={results.financial.metrics.npv >= 0 ? 'success.main' : 'error.main'}>
+                    {formatCurrency(results.financial.metrics.npv)}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={6} md={3}>
+              <Card>
+                <CardContent sx={{ textAlign: 'center' }}>
+                  <Typography variant="body2" color="text.secondary">Internal Rate of Return</Typography>
+                  <Typography variant="h5">{results.financial.metrics.irr.toFixed(1)}%</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    SIR {results.financial.metrics.savingsToInvestmentRatio.toFixed(2)}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+          </Grid>
+
+          {(results.issues.length > 0 || results.recommendations.length > 0) && (
+            <Alert severity={results.issues.length > 0 ? 'warning' : 'info'} sx={{ mb: 3 }}>
+              <List dense>
+                {results.issues.map((issue, index) => (
+                  <ListItem key={`issue-${index}`}>
+                    <ListItemIcon sx={{ minWidth: 36 }}>
+                      <WarningIcon color="warning" />
+                    </ListItemIcon>
+                    <ListItemText primary={issue} />
+                  </ListItem>
+                ))}
+                {results.recommendations.map((recommendation, index) => (
+                  <ListItem key={`rec-${index}`}>
+                    <ListItemIcon sx={{ minWidth: 36 }}>
+                      <InfoIcon color="info" />
+                    </ListItemIcon>
+                    <ListItemText primary={recommendation} />
+                  </ListItem>
+                ))}
+              </List>
+            </Alert>
+          )}
+
+          <Grid container spacing={2} sx={{ mb: 3 }}>
+            <Grid item xs={12} md={6}>
+              <Paper variant="outlined" sx={{ p: 2 }}>
+                <Typography variant="subtitle1" gutterBottom>
+                  Average Day Profile (kW)
+                </Typography>
+                <Box sx={{ height: 280 }}>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={results.energy.averageDayProfile}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="hour" />
+                      <YAxis />
+                      <RechartsTooltip formatter={(value: number) => `${value.toFixed(1)} kW`} />
+                      <Legend />
+                      <Area type="monotone" dataKey="loadKW" name="Load" stroke="#1976d2" fill="#1976d2" fillOpacity={0.2} />
+                      <Area type="monotone" dataKey="generationKW" name="PV Output" stroke="#f9a825" fill="#f9a825" fillOpacity={0.4} />
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </Box>
+              </Paper>
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <Paper variant="outlined" sx={{ p: 2 }}>
+                <Typography variant="subtitle1" gutterBottom>
+                  Monthly Energy Balance (kWh)
+                </Typography>
+                <Box sx={{ height: 280 }}>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={results.energy.monthly}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="month" />
+                      <YAxis />
+                      <RechartsTooltip formatter={(value: number) => formatKWh(value)} />
+                      <Legend />
+                      <Bar dataKey="selfConsumedKWh" name="Self-Consumed" stackId="pv" fill="#43a047" />
+                      <Bar dataKey="exportedKWh" name="Exported" stackId="pv" fill="#f9a825" />
+                      <Bar dataKey="importedKWh" name="Imported" fill="#1976d2" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </Box>
+              </Paper>
+            </Grid>
+          </Grid>
+
+          <Typography variant="subtitle1" gutterBottom>
+            Project Cash Flow
+          </Typography>
+          <TableContainer component={Paper} variant="outlined" sx={{ mb: 2, maxHeight: 360 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Year</TableCell>
+                  <TableCell align="right">Cash Flow</TableCell>
+                  <TableCell align="right">Discounted Cash Flow</TableCell>
+                  <TableCell align="right">Cumulative Cash Flow</TableCell>
+                  <TableCell align="right">Cumulative Discounted</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {results.financial.metrics.yearlyResults.map(row => (
+                  <TableRow key={row.year}>
+                    <TableCell>{row.year}</TableCell>
+                    <TableCell align="right">{formatCurrency(row.cashFlow)}</TableCell>
+                    <TableCell align="right">{formatCurrency(row.discountedCashFlow)}</TableCell>
+                    <TableCell align="right">{formatCurrency(row.cumulativeCashFlow)}</TableCell>
+                    <TableCell align="right">{formatCurrency(row.cumulativeDiscountedCashFlow)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+            <Button variant="contained" startIcon={<SaveIcon />} onClick={handleSave}>
+              Save Calculation
+            </Button>
+          </Box>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default SolarPVCalculator;
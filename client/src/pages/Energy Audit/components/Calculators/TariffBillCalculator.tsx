@@ -0,0 +1,415 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  Grid,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableFooter,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography
+} from '@mui/material';
+import { Calculate as CalculateIcon } from '@mui/icons-material';
+import tariffService, { Bill, BillRequest, Tariff } from '../../../../services/tariffService';
+import energyService, { MeterSummary } from '../../../../services/energyService';
+
+type UsageSource = 'monthly' | 'meter';
+
+// Format currency values
+const formatCurrency = (value: number): string => {
+  return new Intl.NumberFormat('en-PH', {
+    style: 'currency',
+    currency: 'PHP',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(value);
+};
+
+const toDateInput = (date: Date): string => date.toISOString().slice(0, 10);
+
+const UNIT_LABELS: Record<string, string> = {
+  kwh: 'kWh',
+  kw: 'kW',
+  month: 'month'
+};
+
+const TariffBillCalculator: React.FC = () => {
+  const [tariffs, setTariffs] = useState<Tariff[]>([]);
+  const [tariffId, setTariffId] = useState<number | ''>('');
+  const [source, setSource] = useState<UsageSource>('monthly');
+  const [kwh, setKwh] = useState<string>('1000');
+  const [kw, setKw] = useState<string>('');
+  const [kwhByPeriod, setKwhByPeriod] = useState<Record<string, string>>({});
+  const [billingDate, setBillingDate] = useState<string>(toDateInput(new Date()));
+  const [meters, setMeters] = useState<MeterSummary[]>([]);
+  const [meterId, setMeterId] = useState<number | ''>('');
+  const [from, setFrom] = useState<string>(toDateInput(new Date(Date.now() - 30 * 24 * 3600 * 1000)));
+  const [to, setTo] = useState<string>(toDateInput(new Date()));
+  const [lifeline, setLifeline] = useState<boolean>(false);
+  const [seniorCitizen, setSeniorCitizen] = useState<boolean>(false);
+  const [bill, setBill] = useState<Bill | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [calculating, setCalculating] = useState<boolean>(false);
+
+  useEffect(() => {
+    tariffService.getTariffs()
+      .then(result => {
+        const active = result.filter(tariff => tariff.isActive && tariff.currentVersion);
+        setTariffs(active);
+        const preferred = active.find(tariff => tariff.isDefault) || active[0];
+        if (preferred) setTariffId(preferred.id);
+      })
+      .catch((err: any) => setError(err?.response?.data?.message || 'Failed to load tariffs'));
+
+    // Meters are optional; monthly billing still works without them
+    energyService.getMeters()
+      .then(result => setMeters(result))
+      .catch(() => setMeters([]));
+  }, []);
+
+  const tariff = useMemo(() => tariffs.find(candidate => candidate.id === tariffId) || null, [tariffs, tariffId]);
+  const periods = tariff?.currentVersion?.timeOfUsePeriods || [];
+  const isResidential = tariff?.customerClass === 'residential';
+
+  const periodLabel = (key: string | null) => periods.find(period => period.key === key)?.label || key;
+
+  const handleCalculate = async () => {
+    if (!tariff) return;
+
+    const request: BillRequest = { lifeline, seniorCitizen };
+    if (source === 'meter') {
+      if (meterId === '') {
+        setError('Select a meter to bill');
+        return;
+      }
+      request.meterId = meterId;
+      request.from = `${from}T00:00:00`;
+      request.to = `${to}T00:00:00`;
+    } else {
+      const splitEntries = Object.entries(kwhByPeriod).filter(([, value]) => value !== '');
+      if (splitEntries.length > 0) {
+        request.kwhByPeriod = splitEntries.reduce<Record<string, number>>((acc, [key, value]) => {
+          acc[key] = Number(value);
+          return acc;
+        }, {});
+        request.kwh = Object.values(request.kwhByPeriod).reduce((sum, value) => sum + value, 0);
+      } else {
+        request.kwh = Number(kwh);
+      }
+      if (kw !== '') request.kw = Number(kw);
+      request.billingDate = billingDate;
+    }
+
+    setCalculating(true);
+    setError(null);
+    try {
+      setBill(await tariffService.calculateBill(tariff.id, request));
+    } catch (err: any) {
+      setBill(null);
+      setError(err?.response?.data?.message || 'Failed to calculate the bill');
+    } finally {
+      setCalculating(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="h5" gutterBottom>
+        Utility Bill Calculator
+      </Typography>
+      <Typography variant="body1" paragraph>
+        Price a month of usage, or a meter's interval data, against a utility tariff with its generation,
+        transmission, system loss, distribution and demand charges, time-of-use blocks, VAT and discounts.
+      </Typography>
+
+      {tariffs.length === 0 && !error && (
+        <Alert severity="info" sx={{ mb: 3 }}>
+          No active tariffs are configured. An administrator can add them under Admin Settings, Tariffs.
+        </Alert>
+      )}
+      {error && <Alert severity="error" sx={{ mb: 3 }}>{error}</Alert>}
+
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Grid container spacing={2} alignItems="center">
+          <Grid item xs={12} md={6}>
+            <FormControl fullWidth>
+              <InputLabel id="bill-tariff-label">Tariff</InputLabel>
+              <Select
+                labelId="bill-tariff-label"
+                value={tariffId}
+                label="Tariff"
+                onChange={(e) => {
+                  setTariffId(e.target.value === '' ? '' : Number(e.target.value));
+                  setKwhByPeriod({});
+                  setBill(null);
+                }}
+              >
+                {tariffs.map(option => (
+                  <MenuItem key={option.id} value={option.id}>
+                    {option.name}{option.utility ? ` – ${option.utility}` : ''}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <ToggleButtonGroup
+              exclusive
+              value={source}
+              onChange={(_, value: UsageSource | null) => value && setSource(value)}
+              size="small"
+            >
+              <ToggleButton value="monthly">Monthly kWh/kW</ToggleButton>
+              <ToggleButton value="meter" disabled={meters.length === 0}>Meter Interval Data</ToggleButton>
+            </ToggleButtonGroup>
+          </Grid>
+
+          {source === 'monthly' ? (
+            <>
+              <Grid item xs={12} sm={4}>
+                <TextField
+                  fullWidth
+                  type="number"
+                  label="Monthly Energy"
+                  value={kwh}
+                  onChange={(e) => setKwh(e.target.value)}
+                  disabled={Object.values(kwhByPeriod).some(value => value !== '')}
+                  InputProps={{ endAdornment: <InputAdornment position="end">kWh</InputAdornment> }}
+                />
+              </Grid>
+              <Grid item xs={12} sm={4}>
+                <TextField
+                  fullWidth
+                  type="number"
+                  label="Peak Demand"
+                  value={kw}
+                  onChange={(e) => setKw(e.target.value)}
+                  helperText="Required for tariffs with demand charges"
+                  InputProps={{ endAdornment: <InputAdornment position="end">kW</InputAdornment> }}
+                />
+              </Grid>
+              <Grid item xs={12} sm={4}>
+                <TextField
+                  fullWidth
+                  type="date"
+                  label="Billing Date"
+                  value={billingDate}
+                  onChange={(e) => setBillingDate(e.target.value)}
+                  helperText="Picks the tariff version in effect"
+                  InputLabelProps={{ shrink: true }}
+                />
+              </Grid>
+              {periods.length > 0 && (
+                <>
+                  <Grid item xs={12}>
+                    <Typography variant="body2" color="text.secondary">
+                      Energy by time-of-use period. Leave blank to split the monthly kWh by hours in each period.
+                    </Typography>
+                  </Grid>
+                  {periods.map(period => (
+                    <Grid item xs={12} sm={4} key={period.key}>
+                      <TextField
+                        fullWidth
+                        type="number"
+                        label={`${period.label} Energy`}
+                        value={kwhByPeriod[period.key] ?? ''}
+                        onChange={(e) => setKwhByPeriod(prev => ({ ...prev, [period.key]: e.target.value }))}
+                        InputProps={{ endAdornment: <InputAdornment position="end">kWh</InputAdornment> }}
+                      />
+                    </Grid>
+                  ))}
+                </>
+              )}
+            </>
+          ) : (
+            <>
+              <Grid item xs={12} sm={4}>
+                <FormControl fullWidth>
+                  <InputLabel id="bill-meter-label">Meter</InputLabel>
+                  <Select
+                    labelId="bill-meter-label"
+                    value={meterId}
+                    label="Meter"
+                    onChange={(e) => setMeterId(e.target.value === '' ? '' : Number(e.target.value))}
+                  >
+                    {meters.map(meter => (
+                      <MenuItem key={meter.id} value={meter.id}>
+                        {meter.name} ({meter.buildingName})
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid item xs={12} sm={4}>
+                <TextField
+                  fullWidth
+                  type="date"
+                  label="From"
+                  value={from}
+                  onChange={(e) => setFrom(e.target.value)}
+                  InputLabelProps={{ shrink: true }}
+                />
+              </Grid>
+              <Grid item xs={12} sm={4}>
+                <TextField
+                  fullWidth
+                  type="date"
+                  label="To"
+                  value={to}
+                  onChange={(e) => setTo(e.target.value)}
+                  helperText="Billing periods are limited to 45 days"
+                  InputLabelProps={{ shrink: true }}
+                />
+              </Grid>
+            </>
+          )}
+
+          <Grid item xs={12}>
+            <FormControlLabel
+              control={<Checkbox checked={lifeline} onChange={(e) => setLifeline(e.target.checked)} />}
+              label="Lifeline rate customer"
+              disabled={!isResidential}
+            />
+            <FormControlLabel
+              control={<Checkbox checked={seniorCitizen} onChange={(e) => setSeniorCitizen(e.target.checked)} />}
+              label="Senior citizen discount"
+              disabled={!isResidential}
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <Button
+              variant="contained"
+              startIcon={<CalculateIcon />}
+              onClick={handleCalculate}
+              disabled={!tariff || calculating}
+            >
+              {calculating ? 'Calculating...' : 'Calculate Bill'}
+            </Button>
+          </Grid>
+        </Grid>
+      </Paper>
+
+      {bill && (
+        <>
+          <Grid container spacing={2} sx={{ mb: 3 }}>
+            <Grid item xs={12} sm={6} md={3}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">Total Bill</Typography>
+                  <Typography variant="h5">{formatCurrency(bill.total)}</Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={12} sm={6} md={3}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">Average Rate</Typography>
+                  <Typography variant="h5">
+                    {bill.averageRate !== null ? `${formatCurrency(bill.averageRate)}/kWh` : 'N/A'}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={12} sm={6} md={3}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">Energy Rate (per extra kWh)</Typography>
+                  <Typography variant="h5">{formatCurrency(bill.energyRate)}/kWh</Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={12} sm={6} md={3}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">Usage Billed</Typography>
+                  <Typography variant="h5">
+                    {Math.round(bill.usage.kwh).toLocaleString()} kWh
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {bill.usage.kw.toLocaleString()} kW demand
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+          </Grid>
+
+          <TableContainer component={Paper} sx={{ mb: 3 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Charge</TableCell>
+                  <TableCell align="right">Quantity</TableCell>
+                  <TableCell align="right">Rate</TableCell>
+                  <TableCell align="right">Amount</TableCell>
+                  <TableCell align="right">Discount</TableCell>
+                  <TableCell align="right">VAT</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {bill.lines.map(line => (
+                  <TableRow key={line.key}>
+                    <TableCell>
+                      {line.label}
+                      {line.period && (
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          {periodLabel(line.period)}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">
+                      {line.quantity.toLocaleString()} {UNIT_LABELS[line.unit]}
+                    </TableCell>
+                    <TableCell align="right">{line.rate.toFixed(4)}</TableCell>
+                    <TableCell align="right">{formatCurrency(line.amount)}</TableCell>
+                    <TableCell align="right">{line.discount ? `-${formatCurrency(line.discount)}` : ''}</TableCell>
+                    <TableCell align="right">{formatCurrency(line.vat)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={3}>Subtotal</TableCell>
+                  <TableCell align="right">{formatCurrency(bill.subtotal)}</TableCell>
+                  <TableCell align="right">
+                    {bill.discounts.total ? `-${formatCurrency(bill.discounts.total)}` : ''}
+                  </TableCell>
+                  <TableCell align="right">{formatCurrency(bill.vat)}</TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell colSpan={5}><strong>Total Amount Due</strong></TableCell>
+                  <TableCell align="right"><strong>{formatCurrency(bill.total)}</strong></TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </TableContainer>
+
+          <Typography variant="body2" color="text.secondary">
+            {bill.tariff.name}, rates effective {bill.effectiveFrom}.
+          </Typography>
+          {bill.assumptions.map(assumption => (
+            <Alert severity="info" key={assumption} sx={{ mt: 1 }}>{assumption}</Alert>
+          ))}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default TariffBillCalculator;
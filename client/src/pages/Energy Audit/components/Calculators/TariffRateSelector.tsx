@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { FormControl, FormHelperText, InputLabel, MenuItem, Select } from '@mui/material';
+import tariffService, { Tariff } from '../../../../services/tariffService';
+
+interface TariffRateSelectorProps {
+  // Called with the PHP/kWh rate whenever a tariff is chosen or the usage profile changes,
+  // and with nulls when the user switches back to entering the rate manually
+  onRateChange: (rate: number | null, tariff: Tariff | null) => void;
+  // Monthly usage the rate is priced at; matters for discounts and time-of-use splits
+  monthlyKwh?: number;
+  monthlyKw?: number;
+  // 'energy' prices one more kWh (for savings); 'average' spreads demand and fixed charges over every kWh
+  rateType?: 'energy' | 'average';
+  size?: 'small' | 'medium';
+  fullWidth?: boolean;
+}
+
+/**
+ * Lets a calculator take its electricity rate from a utility tariff instead of a typed-in number.
+ * Leaving it on "Enter rate manually" keeps the calculator's own rate field in charge.
+ */
+const TariffRateSelector: React.FC<TariffRateSelectorProps> = ({
+  onRateChange,
+  monthlyKwh = 1000,
+  monthlyKw,
+  rateType = 'energy',
+  size = 'medium',
+  fullWidth = true
+}) => {
+  const [tariffs, setTariffs] = useState<Tariff[]>([]);
+  const [tariffId, setTariffId] = useState<number | ''>('');
+  const [summary, setSummary] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    tariffService.getTariffs()
+      .then(result => setTariffs(result.filter(tariff => tariff.isActive && tariff.currentVersion)))
+      .catch(() => setError('Tariffs could not be loaded'));
+  }, []);
+
+  useEffect(() => {
+    const tariff = tariffs.find(candidate => candidate.id === tariffId);
+    if (!tariff) {
+      setSummary(null);
+      return;
+    }
+
+    let cancelled = false;
+    setError(null);
+    tariffService.calculateBill(tariff.id, { kwh: monthlyKwh, kw: monthlyKw })
+      .then(bill => {
+        if (cancelled) return;
+        const rate = rateType === 'average' && bill.averageRate !== null ? bill.averageRate : bill.energyRate;
+        setSummary(`₱${rate.toFixed(2)}/kWh ${rateType === 'average' ? 'average' : 'energy'} rate, effective ${bill.effectiveFrom}`);
+        onRateChange(Number(rate.toFixed(4)), tariff);
+      })
+      .catch((err: any) => {
+        if (!cancelled) setError(err?.response?.data?.message || 'Rate could not be calculated');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // onRateChange is usually an inline callback; re-pricing only depends on the tariff and usage
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tariffId, tariffs, monthlyKwh, monthlyKw, rateType]);
+
+  return (
+    <FormControl fullWidth={fullWidth} size={size} error={!!error}>
+      <InputLabel id="tariff-rate-selector-label">Rate Source</InputLabel>
+      <Select
+        labelId="tariff-rate-selector-label"
+        value={tariffId}
+        label="Rate Source"
+        onChange={(e) => {
+          if (e.target.value === '') {
+            setTariffId('');
+            onRateChange(null, null);
+          } else {
+            setTariffId(Number(e.target.value));
+          }
+        }}
+      >
+        <MenuItem value="">Enter rate manually</MenuItem>
+        {tariffs.map(tariff => (
+          <MenuItem key={tariff.id} value={tariff.id}>
+            {tariff.name}{tariff.utility ? ` – ${tariff.utility}` : ''}
+          </MenuItem>
+        ))}
+      </Select>
+      {(error || summary) && <FormHelperText>{error || summary}</FormHelperText>}
+    </FormControl>
+  );
+};
+
+export default TariffRateSelector;
@@ -0,0 +1,123 @@
+import calculationService from '../../../../../services/calculationService';
+import { syncCalculationsWithServer, stopCalculationSync } from '../utils/calculationSync';
+import { deleteCalculation, getStoredCalculations, saveCalculation, StoredCalculation } from '../utils/storage';
+
+jest.mock('../../../../../services/calculationService', () => ({
+  __esModule: true,
+  default: {
+    getCalculations: jest.fn(),
+    createCalculation: jest.fn(),
+    updateCalculation: jest.fn(),
+    deleteCalculation: jest.fn(),
+    importCalculations: jest.fn()
+  }
+}));
+
+const mockService = calculationService as jest.Mocked<typeof calculationService>;
+
+const localCalculation: StoredCalculation = {
+  id: 'calc_voltagedrop_1',
+  name: 'Feeder 1',
+  timestamp: 1000,
+  type: 'voltage-drop',
+  data: { length: 30 }
+};
+
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('calculationSync', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    jest.resetAllMocks();
+    stopCalculationSync();
+    mockService.getCalculations.mockResolvedValue([]);
+    mockService.importCalculations.mockResolvedValue({ message: 'ok', imported: 1, skipped: 0 });
+  });
+
+  afterEach(() => {
+    stopCalculationSync();
+  });
+
+  test('imports local calculations only on the first sync for a user', async () => {
+    localStorage.setItem('energy-audit-calculations', JSON.stringify([localCalculation]));
+
+    const first = await syncCalculationsWithServer('7');
+    await syncCalculationsWithServer('7');
+
+    expect(first.imported).toBe(1);
+    expect(mockService.importCalculations).toHaveBeenCalledTimes(1);
+    expect(mockService.importCalculations).toHaveBeenCalledWith([localCalculation]);
+  });
+
+  test('replaces the local cache with the server copies', async () => {
+    localStorage.setItem('energy-audit-calculations-migrated-7', 'done');
+    localStorage.setItem('energy-audit-calculations', JSON.stringify([localCalculation]));
+    mockService.getCalculations.mockResolvedValue([
+      { ...localCalculation, id: 'calc_server', name: 'From server', version: 3, auditId: null, userId: 7, updatedAt: '' }
+    ]);
+
+    const result = await syncCalculationsWithServer('7');
+
+    expect(result.total).toBe(1);
+    expect(getStoredCalculations().map(calc => calc.id)).toEqual(['calc_server']);
+    expect(getStoredCalculations()[0].version).toBe(3);
+  });
+
+  test('does not import calculations cached for a different user', async () => {
+    localStorage.setItem('energy-audit-calculations-owner', '7');
+    localStorage.setItem('energy-audit-calculations', JSON.stringify([localCalculation]));
+
+    await syncCalculationsWithServer('8');
+
+    expect(mockService.importCalculations).not.toHaveBeenCalled();
+    expect(getStoredCalculations()).toEqual([]);
+  });
+
+  test('sends saves and deletes to the server while synced', async () => {
+    localStorage.setItem('energy-audit-calculations-migrated-7', 'done');
+    await syncCalculationsWithServer('7');
+    mockService.createCalculation.mockResolvedValue({} as any);
+    mockService.deleteCalculation.mockResolvedValue();
+
+    saveCalculation('voltage-drop', 'Feeder 2', { length: 45 });
+    await flushPromises();
+    const saved = getStoredCalculations()[0];
+    deleteCalculation('voltage-drop', saved.id);
+    await flushPromises();
+
+    expect(mockService.createCalculation).toHaveBeenCalledWith(
+      expect.objectContaining({ id: saved.id, type: 'voltage-drop', name: 'Feeder 2' })
+    );
+    expect(mockService.deleteCalculation).toHaveBeenCalledWith(saved.id);
+  });
+
+  test('updates an existing calculation when the server reports a conflict', async () => {
+    localStorage.setItem('energy-audit-calculations-migrated-7', 'done');
+    await syncCalculationsWithServer('7');
+    mockService.createCalculation.mockRejectedValue({ response: { status: 409 } });
+    mockService.updateCalculation.mockResolvedValue({} as any);
+
+    saveCalculation('voltage-drop', 'Feeder 2', { length: 45 });
+    await flushPromises();
+
+    const saved = getStoredCalculations()[0];
+    expect(mockService.updateCalculation).toHaveBeenCalledWith(saved.id, { name: 'Feeder 2', data: { length: 45 } });
+  });
+
+  test('keeps unsent saves queued and local when the server is unreachable', async () => {
+    localStorage.setItem('energy-audit-calculations-migrated-7', 'done');
+    await syncCalculationsWithServer('7');
+    mockService.createCalculation.mockRejectedValue(new Error('Network Error'));
+
+    saveCalculation('voltage-drop', 'Offline', { length: 45 });
+    await flushPromises();
+    const saved = getStoredCalculations()[0];
+
+    await syncCalculationsWithServer('7');
+
+    expect(JSON.parse(localStorage.getItem('energy-audit-calculations-pending') || '[]')).toEqual([
+      { action: 'save', id: saved.id }
+    ]);
+    expect(getStoredCalculations().map(calc => calc.id)).toEqual([saved.id]);
+  });
+});
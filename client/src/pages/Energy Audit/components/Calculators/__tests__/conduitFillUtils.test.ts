@@ -0,0 +1,176 @@
+import {
+  applyConduitFillResults,
+  calculateConduitFill,
+  getBundleAdjustmentFactor,
+  getConductorArea,
+  getLoadItemConductors,
+  getMaxFillPercent,
+  getRacewayTypeForConduitMaterial,
+  sizeRacewayForLoadItems
+} from '../utils/conduitFillUtils';
+import { calculateAmpacityRating, VoltageDropInputs } from '../utils/voltageDropUtils';
+import { LoadItem, LoadSchedule } from '../ScheduleOfLoads/types';
+
+describe('Conduit Fill Utilities', () => {
+  const lighting: LoadItem = {
+    id: 'load-1',
+    description: 'Lighting',
+    quantity: 10,
+    rating: 40,
+    demandFactor: 1,
+    connectedLoad: 400,
+    demandLoad: 400,
+    circuitBreaker: '20A',
+    conductorSize: '12 AWG',
+    equipmentGroundingConductorSize: '12 AWG'
+  };
+
+  const aircon: LoadItem = {
+    id: 'load-2',
+    description: 'Aircon',
+    quantity: 1,
+    rating: 3000,
+    demandFactor: 1,
+    connectedLoad: 3000,
+    demandLoad: 3000,
+    circuitBreaker: '30A',
+    conductorSize: '10 AWG',
+    insulationType: 'XHHW',
+    circuitDetails: {
+      type: 'hvac',
+      poles: 2,
+      phase: 'A-B',
+      wireType: 'XHHW_COPPER',
+      maxVoltageDropAllowed: 3
+    }
+  };
+
+  describe('getConductorArea', () => {
+    test('should return Table 5 areas in mm²', () => {
+      expect(getConductorArea('12 AWG', 'THHN')).toBeCloseTo(0.0133 * 645.16, 3);
+      expect(getConductorArea('12 AWG', 'THWN')).toBe(getConductorArea('12 AWG', 'THHN'));
+      expect(getConductorArea('250 MCM', 'XHHW')).toBeCloseTo(0.3904 * 645.16, 3);
+      expect(getConductorArea('1000 kcmil', 'THHN')).toBe(0);
+    });
+  });
+
+  describe('fill and adjustment factors', () => {
+    test('should apply Chapter 9 Table 1 fill percentages', () => {
+      expect(getMaxFillPercent(1)).toBe(53);
+      expect(getMaxFillPercent(2)).toBe(31);
+      expect(getMaxFillPercent(5)).toBe(40);
+    });
+
+    test('should derate for more than three current-carrying conductors', () => {
+      expect(getBundleAdjustmentFactor(3)).toBe(1);
+      expect(getBundleAdjustmentFactor(4)).toBe(0.8);
+      expect(getBundleAdjustmentFactor(9)).toBe(0.7);
+      expect(getBundleAdjustmentFactor(12)).toBe(0.5);
+      expect(getBundleAdjustmentFactor(50)).toBe(0.35);
+    });
+
+    test('should map voltage drop conduit materials to raceway types', () => {
+      expect(getRacewayTypeForConduitMaterial('PVC')).toBe('PVC');
+      expect(getRacewayTypeForConduitMaterial('steel')).toBe('EMT');
+    });
+  });
+
+  describe('calculateConduitFill', () => {
+    test('should pick the smallest trade size within the fill limit', () => {
+      const small = calculateConduitFill([
+        { size: '12 AWG', insulationType: 'THHN', count: 3, isCurrentCarrying: true }
+      ]);
+      const larger = calculateConduitFill([
+        { size: '10 AWG', insulationType: 'THHN', count: 9, isCurrentCarrying: true }
+      ]);
+
+      expect(small.tradeSize?.metricDesignator).toBe(16);
+      expect(larger.tradeSize?.metricDesignator).toBe(21);
+      expect(larger.fillPercent).toBeLessThanOrEqual(40);
+      expect(larger.bundleAdjustmentFactor).toBe(0.7);
+    });
+
+    test('should not count grounding conductors as current-carrying', () => {
+      const result = calculateConduitFill([
+        { size: '12 AWG', insulationType: 'THHN', count: 3, isCurrentCarrying: true },
+        { size: '12 AWG', insulationType: 'THHN', count: 2, isCurrentCarrying: false }
+      ]);
+
+      expect(result.conductorCount).toBe(5);
+      expect(result.currentCarryingCount).toBe(3);
+      expect(result.bundleAdjustmentFactor).toBe(1);
+    });
+
+    test('should report conductors that exceed the largest trade size', () => {
+      const result = calculateConduitFill([
+        { size: '750 kcmil', insulationType: 'RHW', count: 12, isCurrentCarrying: true }
+      ], 'EMT');
+
+      expect(result.tradeSize).toBeNull();
+      expect(result.issues.length).toBeGreaterThan(0);
+    });
+
+    test('should throw for an unlisted conductor size', () => {
+      expect(() => calculateConduitFill([
+        { size: 'bad', insulationType: 'THHN', count: 1, isCurrentCarrying: true }
+      ])).toThrow();
+    });
+  });
+
+  describe('load item raceways', () => {
+    test('should build line, neutral and EGC conductors for a load item', () => {
+      const groups = getLoadItemConductors(lighting);
+
+      expect(groups).toHaveLength(2);
+      expect(groups[0].count).toBe(2);
+      expect(groups[1].isCurrentCarrying).toBe(false);
+      expect(getLoadItemConductors(aircon)[0].count).toBe(2);
+      expect(getLoadItemConductors(aircon)[0].insulationType).toBe('XHHW');
+    });
+
+    test('should size a shared raceway and feed the adjustment factor back', () => {
+      const loadSchedule: LoadSchedule = {
+        id: 'panel-1',
+        name: 'Ground Floor',
+        panelName: 'LP-1',
+        voltage: 230,
+        powerFactor: 0.9,
+        totalConnectedLoad: 3400,
+        totalDemandLoad: 3400,
+        current: 14.8,
+        loads: [lighting, aircon, { ...lighting, id: 'load-3', description: 'Receptacles' }]
+      };
+
+      const result = sizeRacewayForLoadItems(loadSchedule.loads, 'PVC');
+      expect(result.currentCarryingCount).toBe(6);
+      expect(result.bundleAdjustmentFactor).toBe(0.8);
+
+      const updated = applyConduitFillResults(loadSchedule, ['load-1', 'load-2'], result);
+      expect(updated.loads[0].bundleAdjustmentFactor).toBe(0.8);
+      expect(updated.loads[0].conduitSize).toContain('PVC');
+      expect(updated.loads[2].bundleAdjustmentFactor).toBeUndefined();
+    });
+  });
+
+  describe('calculateAmpacityRating', () => {
+    test('should apply the bundle adjustment factor', () => {
+      const inputs: VoltageDropInputs = {
+        circuitConfiguration: { circuitType: 'branch' },
+        systemVoltage: 230,
+        loadCurrent: 16,
+        conductorLength: 20,
+        conductorSize: '12 AWG',
+        conductorMaterial: 'copper',
+        conduitMaterial: 'PVC',
+        phaseConfiguration: 'single-phase',
+        temperature: 30
+      };
+
+      expect(calculateAmpacityRating(inputs).isAdequate).toBe(true);
+
+      const derated = calculateAmpacityRating({ ...inputs, bundleAdjustmentFactor: 0.7 });
+      expect(derated.ampacity).toBeCloseTo(14, 10);
+      expect(derated.isAdequate).toBe(false);
+    });
+  });
+});
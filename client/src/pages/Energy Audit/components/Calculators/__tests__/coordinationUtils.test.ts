@@ -0,0 +1,173 @@
+import {
+  analyzePanelCoordination,
+  checkSelectivity,
+  generateTCCCurve,
+  getDefaultCurveType,
+  getTripTimeBand,
+  INSTANTANEOUS_MAX_TIME,
+  INSTANTANEOUS_MIN_TIME,
+  ProtectiveDevice
+} from '../utils/coordinationUtils';
+import { LoadSchedule } from '../ScheduleOfLoads/types';
+
+describe('Coordination Utilities', () => {
+  const branch: ProtectiveDevice = { label: 'Branch 20A', rating: 20, curveType: 'C' };
+  const main: ProtectiveDevice = { label: 'Main 100A', rating: 100, curveType: 'MCCB' };
+
+  const loadSchedule: LoadSchedule = {
+    id: 'panel-1',
+    name: 'Ground Floor',
+    panelName: 'LP-1',
+    voltage: 230,
+    powerFactor: 0.9,
+    totalConnectedLoad: 5000,
+    totalDemandLoad: 4000,
+    current: 17.4,
+    circuitBreaker: '100A',
+    feederProtectionSize: '225A',
+    loads: [
+      {
+        id: 'load-1',
+        description: 'Lighting',
+        quantity: 10,
+        rating: 40,
+        demandFactor: 1,
+        connectedLoad: 400,
+        demandLoad: 400,
+        circuitBreaker: '20A'
+      },
+      {
+        id: 'load-2',
+        description: 'Aircon',
+        quantity: 1,
+        rating: 20000,
+        demandFactor: 1,
+        connectedLoad: 20000,
+        demandLoad: 20000,
+        circuitBreaker: '100A'
+      },
+      {
+        id: 'load-3',
+        description: 'Spare',
+        quantity: 1,
+        rating: 0,
+        demandFactor: 1,
+        connectedLoad: 0,
+        demandLoad: 0
+      }
+    ]
+  };
+
+  describe('getTripTimeBand', () => {
+    test('should not trip below the conventional non-tripping current', () => {
+      const band = getTripTimeBand(branch, 20);
+
+      expect(band.minTime).toBe(Infinity);
+      expect(band.maxTime).toBe(Infinity);
+    });
+
+    test('should trip faster as current increases in the thermal region', () => {
+      const low = getTripTimeBand(branch, 40);
+      const high = getTripTimeBand(branch, 80);
+
+      expect(high.maxTime).toBeLessThan(low.maxTime);
+      expect(low.minTime).toBeLessThan(low.maxTime);
+    });
+
+    test('should trip instantaneously above the magnetic pickup', () => {
+      const band = getTripTimeBand(branch, 250);
+
+      expect(band.minTime).toBe(INSTANTANEOUS_MIN_TIME);
+      expect(band.maxTime).toBe(INSTANTANEOUS_MAX_TIME);
+    });
+  });
+
+  describe('generateTCCCurve', () => {
+    test('should drop to the instantaneous time at the magnetic pickup', () => {
+      const curve = generateTCCCurve(branch, 10000);
+      const lastMax = curve.maxCurve[curve.maxCurve.length - 1];
+
+      expect(lastMax).toEqual({ x: 10000, y: INSTANTANEOUS_MAX_TIME });
+      expect(curve.minCurve).toContainEqual({ x: 100, y: INSTANTANEOUS_MIN_TIME });
+      curve.maxCurve.forEach(point => {
+        expect(Number.isFinite(point.y)).toBe(true);
+      });
+    });
+  });
+
+  describe('checkSelectivity', () => {
+    test('should be partially selective up to the upstream instantaneous pickup', () => {
+      const result = checkSelectivity(main, branch, 10000);
+
+      expect(result.verdict).toBe('partial');
+      expect(result.selectivityLimit).toBeGreaterThanOrEqual(800);
+      expect(result.selectivityLimit).toBeLessThan(900);
+    });
+
+    test('should be selective when the fault current stays below the overlap', () => {
+      const result = checkSelectivity(main, branch, 500);
+
+      expect(result.verdict).toBe('selective');
+      expect(result.selectivityLimit).toBeNull();
+    });
+
+    test('should not be selective when the upstream breaker is not larger', () => {
+      const result = checkSelectivity(main, { ...branch, rating: 100 }, 10000);
+
+      expect(result.verdict).toBe('not-selective');
+    });
+
+    test('should not be selective when thermal bands overlap', () => {
+      const result = checkSelectivity({ ...main, rating: 80 }, { ...branch, rating: 63 }, 10000);
+
+      expect(result.verdict).toBe('not-selective');
+    });
+
+    test('should reject invalid ratings', () => {
+      expect(() => checkSelectivity(main, { ...branch, rating: 0 }, 10000)).toThrow();
+    });
+  });
+
+  describe('analyzePanelCoordination', () => {
+    test('should check every branch breaker and the main breaker', () => {
+      const result = analyzePanelCoordination(loadSchedule, { maxFaultCurrentKA: 10 });
+
+      // Spare has no breaker, so two branch pairs plus main-to-feeder
+      expect(result.pairs).toHaveLength(3);
+      expect(result.pairs.find(pair => pair.loadId === 'load-1')?.verdict).toBe('partial');
+      expect(result.pairs.find(pair => pair.loadId === 'load-2')?.verdict).toBe('not-selective');
+      expect(result.pairs.find(pair => pair.level === 'main')?.upstream.rating).toBe(225);
+      expect(result.verdict).toBe('not-selective');
+      expect(result.issues).toHaveLength(result.notSelectiveCount);
+    });
+
+    test('should use the schedule fault current and saved curve types', () => {
+      const result = analyzePanelCoordination({
+        ...loadSchedule,
+        availableFaultCurrentKA: 0.5,
+        loads: [{ ...loadSchedule.loads[0], breakerCurveType: 'B' }]
+      });
+
+      expect(result.maxFaultCurrentKA).toBe(0.5);
+      expect(result.pairs[0].downstream.curveType).toBe('B');
+      expect(result.pairs[0].verdict).toBe('selective');
+    });
+
+    test('should report missing upstream protection', () => {
+      const result = analyzePanelCoordination({
+        ...loadSchedule,
+        circuitBreaker: undefined,
+        feederProtectionSize: undefined
+      });
+
+      expect(result.pairs).toHaveLength(0);
+      expect(result.verdict).toBeNull();
+      expect(result.issues.length).toBeGreaterThan(0);
+    });
+
+    test('should default to miniature breaker curves for small ratings', () => {
+      expect(getDefaultCurveType(20)).toBe('C');
+      expect(getDefaultCurveType(225)).toBe('MCCB');
+    });
+  });
+});
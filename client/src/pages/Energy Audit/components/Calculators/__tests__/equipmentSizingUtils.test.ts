@@ -0,0 +1,185 @@
+import {
+  aggregateBuildingDemand,
+  getHourlyLoadFactors,
+  getMotorStartingLoad,
+  getNextStandardRating,
+  sizeBuildingEquipment,
+  sizeGenerator,
+  sizeTransformer,
+  STANDARD_GENERATOR_KVA
+} from '../utils/equipmentSizingUtils';
+import { LoadSchedule } from '../ScheduleOfLoads/types';
+
+describe('Equipment Sizing Utilities', () => {
+  const lightingPanel: LoadSchedule = {
+    id: 'panel-1',
+    name: 'Ground Floor',
+    panelName: 'LP-1',
+    voltage: 230,
+    powerFactor: 1.0,
+    totalConnectedLoad: 50000,
+    totalDemandLoad: 40000,
+    current: 100,
+    phaseConfiguration: 'three-phase',
+    occupancyFactors: { '0': 0, '8': 1, '12:00': 0.5 },
+    loads: []
+  };
+
+  const pumpPanel: LoadSchedule = {
+    id: 'panel-2',
+    name: 'Pump Room',
+    panelName: 'MCC-1',
+    voltage: 230,
+    powerFactor: 0.8,
+    totalConnectedLoad: 60000,
+    totalDemandLoad: 60000,
+    current: 188,
+    phaseConfiguration: 'three-phase',
+    loads: [
+      {
+        id: 'load-1',
+        description: 'Fire Pump',
+        quantity: 1,
+        rating: 11200,
+        demandFactor: 1,
+        connectedLoad: 11200,
+        demandLoad: 11200,
+        motorDetails: {
+          horsepower: 10,
+          fullLoadCurrent: 28,
+          serviceFactor: 1,
+          startingMethod: 'dol',
+          lockedRotorMultiplier: 6,
+          overloadSetting: 32.2
+        }
+      },
+      {
+        id: 'load-2',
+        description: 'Booster Pump',
+        quantity: 1,
+        rating: 3700,
+        demandFactor: 1,
+        connectedLoad: 3700,
+        demandLoad: 3700,
+        current: 12,
+        startingCurrentMultiplier: 2,
+        circuitDetails: {
+          type: 'motor',
+          poles: 3,
+          phase: 'A-B-C',
+          wireType: 'THHN_COPPER',
+          maxVoltageDropAllowed: 3
+        }
+      }
+    ]
+  };
+
+  describe('getNextStandardRating', () => {
+    test('should round up to a standard rating', () => {
+      expect(getNextStandardRating(101, STANDARD_GENERATOR_KVA)).toBe(125);
+      expect(getNextStandardRating(100, STANDARD_GENERATOR_KVA)).toBe(100);
+      expect(getNextStandardRating(10000, STANDARD_GENERATOR_KVA)).toBeNull();
+    });
+  });
+
+  describe('aggregateBuildingDemand', () => {
+    test('should read hourly occupancy factors', () => {
+      const factors = getHourlyLoadFactors(lightingPanel);
+
+      expect(factors[0]).toBe(0);
+      expect(factors[12]).toBe(0.5);
+      expect(factors[20]).toBe(1);
+    });
+
+    test('should sum panel demand in kVA and apply diversity', () => {
+      const demand = aggregateBuildingDemand([lightingPanel, pumpPanel], 0.9);
+
+      expect(demand.totalDemandKW).toBe(100);
+      expect(demand.totalDemandKVA).toBeCloseTo(115, 10);
+      expect(demand.coincidentDemandKVA).toBeCloseTo(103.5, 10);
+      expect(demand.powerFactor).toBeCloseTo(100 / 115, 10);
+      // Midnight: lighting off, pumps at full demand
+      expect(demand.hourlyLoadKVA[0]).toBeCloseTo(75 * 0.9, 10);
+    });
+
+    test('should reject a diversity factor above 1', () => {
+      expect(() => aggregateBuildingDemand([lightingPanel], 1.2)).toThrow();
+    });
+  });
+
+  describe('sizeTransformer', () => {
+    test('should pick the next standard rating above demand plus margin', () => {
+      const demand = aggregateBuildingDemand([lightingPanel, pumpPanel]);
+      const result = sizeTransformer(demand);
+
+      expect(result.requiredKVA).toBeCloseTo(143.75, 10);
+      expect(result.recommendedKVA).toBe(150);
+      expect(result.noLoadLoss).toBeCloseTo(375, 10);
+      expect(result.fullLoadLoss).toBeCloseTo(1800, 10);
+    });
+
+    test('should compute losses over the occupancy profile', () => {
+      const demand = aggregateBuildingDemand([{ ...lightingPanel, occupancyFactors: undefined }]);
+      const result = sizeTransformer(demand, { growthMarginPercent: 0, phaseConfiguration: 'single-phase' });
+
+      // 40 kVA on a 50 kVA unit around the clock
+      expect(result.recommendedKVA).toBe(50);
+      const hourlyLoss = 125 + 600 * 0.8 * 0.8;
+      expect(result.dailyLossKWh).toBeCloseTo(hourlyLoss * 24 / 1000, 10);
+      expect(result.allDayEfficiencyPercent).toBeCloseTo(960 / (960 + hourlyLoss * 24 / 1000) * 100, 10);
+    });
+
+    test('should report no rating above the largest standard size', () => {
+      const demand = aggregateBuildingDemand([{ ...lightingPanel, totalDemandLoad: 5000000 }]);
+      expect(sizeTransformer(demand).recommendedKVA).toBeNull();
+    });
+  });
+
+  describe('sizeGenerator', () => {
+    test('should estimate motor starting kVA', () => {
+      const fire = getMotorStartingLoad(pumpPanel.loads[0], pumpPanel);
+      const booster = getMotorStartingLoad(pumpPanel.loads[1], pumpPanel);
+
+      expect(fire.runningKVA).toBeCloseTo(Math.sqrt(3) * 230 * 28 / 1000, 10);
+      expect(fire.startingKVA).toBeCloseTo(fire.runningKVA * 6, 10);
+      expect(booster.startingKVA).toBeCloseTo(booster.runningKVA * 2, 10);
+    });
+
+    test('should size for the running load when starting is not limiting', () => {
+      const demand = aggregateBuildingDemand([lightingPanel, pumpPanel]);
+      const motors = pumpPanel.loads.map(load => getMotorStartingLoad(load, pumpPanel));
+      const result = sizeGenerator(demand, motors);
+
+      // 100 kW at 0.8 PF needs 125 kVA, plus 25% margin
+      expect(result.requiredKVAForRunning).toBeCloseTo(156.25, 10);
+      expect(result.largestMotor?.description).toBe('Fire Pump');
+      expect(result.recommendedKVA).toBe(175);
+      expect(result.recommendedKW).toBe(140);
+      expect(result.startingVoltageDipPercent).toBeLessThan(15);
+    });
+
+    test('should size for the largest motor starting step', () => {
+      const demand = aggregateBuildingDemand([{ ...pumpPanel, totalDemandLoad: 4000 }]);
+      const motors = pumpPanel.loads.map(load => getMotorStartingLoad(load, pumpPanel));
+      const result = sizeGenerator(demand, motors, { maxGeneratorVoltageDipPercent: 10 });
+
+      expect(result.requiredKVAForStarting).toBeGreaterThan(result.requiredKVAForRunning);
+      expect(result.startingVoltageDipPercent).toBeLessThanOrEqual(10);
+    });
+  });
+
+  describe('sizeBuildingEquipment', () => {
+    test('should produce a sizing sheet with findings', () => {
+      const result = sizeBuildingEquipment([lightingPanel, pumpPanel]);
+
+      expect(result.transformer.recommendedKVA).toBe(150);
+      expect(result.generator.largestMotor?.loadId).toBe('load-1');
+      expect(result.options.growthMarginPercent).toBe(25);
+      expect(result.recommendations.some(rec => rec.includes('MCC-1'))).toBe(true);
+    });
+
+    test('should throw without load schedules', () => {
+      expect(() => sizeBuildingEquipment([])).toThrow();
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import {
+  analyzePanelGrounding,
+  applyGroundingResults,
+  calculateEGCSize,
+  calculateGECSize,
+  getMinimumPhaseConductorSize,
+  getTableEGCSize
+} from '../utils/groundingUtils';
+import { checkLoadItemCompliance } from '../utils/pecComplianceUtils';
+import { LoadSchedule } from '../ScheduleOfLoads/types';
+
+describe('Grounding Utilities', () => {
+  const loadSchedule: LoadSchedule = {
+    id: 'panel-1',
+    name: 'Ground Floor',
+    panelName: 'LP-1',
+    voltage: 230,
+    powerFactor: 0.9,
+    totalConnectedLoad: 5000,
+    totalDemandLoad: 4000,
+    current: 17.4,
+    circuitBreaker: '100A',
+    conductorSize: '3 AWG',
+    loads: [
+      {
+        id: 'load-1',
+        description: 'Lighting',
+        quantity: 10,
+        rating: 40,
+        demandFactor: 1,
+        connectedLoad: 400,
+        demandLoad: 400,
+        circuitBreaker: '20A',
+        conductorSize: '12 AWG'
+      },
+      {
+        id: 'load-2',
+        description: 'Far Receptacles',
+        quantity: 5,
+        rating: 180,
+        demandFactor: 1,
+        connectedLoad: 900,
+        demandLoad: 900,
+        circuitBreaker: '20A',
+        conductorSize: '12 AWG',
+        optimalConductorSize: '8 AWG',
+        equipmentGroundingConductorSize: '12 AWG'
+      },
+      {
+        id: 'load-3',
+        description: 'Spare',
+        quantity: 1,
+        rating: 0,
+        demandFactor: 1,
+        connectedLoad: 0,
+        demandLoad: 0
+      }
+    ]
+  };
+
+  describe('getTableEGCSize', () => {
+    test('should follow Table 2.50.122', () => {
+      expect(getTableEGCSize(15)).toBe('14 AWG');
+      expect(getTableEGCSize(20)).toBe('12 AWG');
+      expect(getTableEGCSize(100)).toBe('8 AWG');
+      expect(getTableEGCSize(225)).toBe('4 AWG');
+      expect(getTableEGCSize(100, 'aluminum')).toBe('6 AWG');
+    });
+
+    test('should reject a zero rating', () => {
+      expect(() => getTableEGCSize(0)).toThrow();
+    });
+  });
+
+  describe('calculateEGCSize', () => {
+    test('should use the table size for minimum phase conductors', () => {
+      const result = calculateEGCSize(20, '12 AWG');
+
+      expect(getMinimumPhaseConductorSize(20)).toBe('14 AWG');
+      expect(result.isUpsized).toBe(false);
+      expect(result.requiredEGCSize).toBe('12 AWG');
+    });
+
+    test('should increase the EGC in proportion to upsized phase conductors', () => {
+      // 8 AWG over 14 AWG is about 4x the area, so 12 AWG grows to at least 26,120 cmil
+      const result = calculateEGCSize(20, '8 AWG');
+
+      expect(result.upsizeRatio).toBeCloseTo(16510 / 4110, 3);
+      expect(result.isUpsized).toBe(true);
+      expect(result.requiredEGCSize).toBe('8 AWG');
+    });
+
+    test('should not require an EGC larger than the phase conductors', () => {
+      // Table 2.50.122 gives 12 AWG for 20A, but 14 AWG phase conductors are enough
+      const result = calculateEGCSize(20, '14 AWG');
+
+      expect(result.tableEGCSize).toBe('12 AWG');
+      expect(result.requiredEGCSize).toBe('14 AWG');
+    });
+
+    test('should accept MCM sizes from the voltage drop optimizer', () => {
+      const result = calculateEGCSize(200, '250 MCM');
+
+      // 250 kcmil over the 3/0 AWG minimum grows the 6 AWG table size to 4 AWG
+      expect(result.phaseConductorSize).toBe('250 kcmil');
+      expect(result.requiredEGCSize).toBe('4 AWG');
+    });
+
+    test('should throw for an invalid conductor size', () => {
+      expect(() => calculateEGCSize(20, 'bad')).toThrow();
+    });
+  });
+
+  describe('calculateGECSize', () => {
+    test('should follow Table 2.50.66', () => {
+      expect(calculateGECSize('2 AWG', 'copper', 'copper', 1, 'building-steel').requiredGECSize).toBe('8 AWG');
+      expect(calculateGECSize('3/0 AWG', 'copper', 'copper', 1, 'building-steel').requiredGECSize).toBe('4 AWG');
+      expect(calculateGECSize('500 kcmil', 'copper', 'copper', 1, 'building-steel').requiredGECSize).toBe('1/0 AWG');
+      expect(calculateGECSize('250 kcmil', 'aluminum', 'copper', 1, 'building-steel').requiredGECSize).toBe('4 AWG');
+    });
+
+    test('should size parallel sets on their equivalent area', () => {
+      const result = calculateGECSize('500 kcmil', 'copper', 'copper', 3, 'building-steel');
+
+      expect(result.equivalentCircularMils).toBe(1500000);
+      expect(result.requiredGECSize).toBe('3/0 AWG');
+    });
+
+    test('should cap the GEC to a rod electrode at 6 AWG copper', () => {
+      const result = calculateGECSize('500 kcmil', 'copper', 'copper', 1, 'rod');
+
+      expect(result.requiredGECSize).toBe('6 AWG');
+      expect(result.isLimitedByElectrode).toBe(true);
+    });
+  });
+
+  describe('analyzePanelGrounding', () => {
+    test('should size the feeder and branch EGCs', () => {
+      const result = analyzePanelGrounding(loadSchedule);
+
+      expect(result.feederEGC?.requiredEGCSize).toBe('8 AWG');
+      expect(result.gec).toBeNull();
+      expect(result.loadResults).toHaveLength(3);
+      expect(result.loadResults[2].egc).toBeNull();
+    });
+
+    test('should flag an EGC left small after voltage drop upsizing', () => {
+      const result = analyzePanelGrounding(loadSchedule);
+      const upsized = result.loadResults[1];
+
+      expect(upsized.egc?.phaseConductorSize).toBe('8 AWG');
+      expect(upsized.egc?.requiredEGCSize).toBe('8 AWG');
+      expect(upsized.isCompliant).toBe(false);
+      expect(result.isCompliant).toBe(false);
+    });
+
+    test('should ignore optimized sizes when requested', () => {
+      const result = analyzePanelGrounding(loadSchedule, { useOptimalConductorSize: false });
+
+      expect(result.loadResults[1].egc?.requiredEGCSize).toBe('12 AWG');
+      expect(result.isCompliant).toBe(true);
+    });
+
+    test('should size the GEC for service equipment', () => {
+      const result = analyzePanelGrounding(loadSchedule, { isServiceEquipment: true, electrodeType: 'building-steel' });
+
+      expect(result.gec?.requiredGECSize).toBe('8 AWG');
+    });
+  });
+
+  describe('applyGroundingResults', () => {
+    test('should write EGC sizes into the load items', () => {
+      const result = analyzePanelGrounding(loadSchedule);
+      const updated = applyGroundingResults(loadSchedule, result);
+
+      expect(updated.equipmentGroundingConductorSize).toBe('8 AWG');
+      expect(updated.loads[0].equipmentGroundingConductorSize).toBe('12 AWG');
+      expect(updated.loads[1].equipmentGroundingConductorSize).toBe('8 AWG');
+      expect(updated.loads[1].requiredEGCSize).toBe('8 AWG');
+      expect(updated.loads[2].requiredEGCSize).toBeUndefined();
+    });
+
+    test('should report an undersized EGC in the PEC compliance issues', () => {
+      const loadItem = {
+        ...loadSchedule.loads[1],
+        current: 10,
+        requiredEGCSize: '8 AWG',
+        circuitDetails: {
+          type: 'receptacle' as const,
+          poles: 1 as const,
+          phase: 'A' as const,
+          wireType: 'THHN_COPPER' as const,
+          maxVoltageDropAllowed: 3
+        }
+      };
+
+      const compliance = checkLoadItemCompliance(loadItem, 230);
+
+      expect(compliance.isCompliant).toBe(false);
+      expect(compliance.issues.some(issue => issue.includes('grounding conductor'))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  classifyLoad,
+  disaggregateLoad,
+  getEndUseProfiles
+} from '../utils/loadDisaggregationUtils';
+import { LoadItem, LoadSchedule } from '../ScheduleOfLoads/types';
+
+describe('Load Disaggregation Utilities', () => {
+  const load = (description: string, demandLoad: number, overrides: Partial<LoadItem> = {}): LoadItem => ({
+    id: description,
+    description,
+    quantity: 1,
+    rating: demandLoad,
+    demandFactor: 1,
+    connectedLoad: demandLoad,
+    demandLoad,
+    ...overrides
+  });
+
+  const weekdayHours = { start: '08:00', end: '17:00' };
+
+  // 30 kW of air-conditioning and 10 kW of lighting, weekdays 08:00 to 17:00
+  const officePanel: LoadSchedule = {
+    id: 'panel-1',
+    name: 'Office',
+    panelName: 'LP-1',
+    voltage: 230,
+    powerFactor: 0.9,
+    totalConnectedLoad: 40000,
+    totalDemandLoad: 40000,
+    current: 190,
+    loads: [
+      load('Split-type aircon 2.5 TR', 30000),
+      load('LED troffers', 10000)
+    ],
+    hours: {
+      Monday: [weekdayHours],
+      Tuesday: [weekdayHours],
+      Wednesday: [weekdayHours],
+      Thursday: [weekdayHours],
+      Friday: [weekdayHours]
+    }
+  };
+
+  // Local time, so the weekday and hour do not depend on the time zone the tests run in
+  const at = (day: number, hour: number) => new Date(2026, 8, day, hour).toISOString();
+
+  describe('classifyLoad', () => {
+    test('should prefer the circuit type', () => {
+      const circuitDetails = { type: 'hvac', poles: 2, phase: 'A-B', wireType: 'THHN_COPPER', maxVoltageDropAllowed: 3 } as LoadItem['circuitDetails'];
+      expect(classifyLoad(load('Lighting', 100, { circuitDetails }))).toBe('hvac');
+    });
+
+    test('should fall back to the description', () => {
+      expect(classifyLoad(load('ACU-1 window type', 1500))).toBe('hvac');
+      expect(classifyLoad(load('Fluorescent lamps', 400))).toBe('lighting');
+      expect(classifyLoad(load('Convenience outlets', 1800))).toBe('receptacle');
+      expect(classifyLoad(load('Booster pump', 2200))).toBe('motor');
+      expect(classifyLoad(load('Spare', 0))).toBe('other');
+    });
+  });
+
+  describe('getEndUseProfiles', () => {
+    test('should split panel demand among end uses by load demand', () => {
+      const profiles = getEndUseProfiles([officePanel], 0.1);
+      // Monday 10:00 and 22:00
+      expect(profiles.hvac[0][10]).toBeCloseTo(30);
+      expect(profiles.lighting[0][10]).toBeCloseTo(10);
+      expect(profiles.hvac[0][22]).toBeCloseTo(3);
+      // Sunday has no operating hours
+      expect(profiles.lighting[6][10]).toBeCloseTo(1);
+      expect(profiles.motor[0][10]).toBe(0);
+    });
+  });
+
+  describe('disaggregateLoad', () => {
+    test('should scale the end uses to the metered consumption', () => {
+      const profiles = getEndUseProfiles([officePanel], 0.1);
+      // Monday 7 September 2026, 10:00 and 22:00
+      const result = disaggregateLoad(profiles, [
+        { timestamp: at(7, 10), energyKwh: 48 },
+        { timestamp: at(7, 22), energyKwh: 2 }
+      ]);
+
+      expect(result.hours[0].endUses.hvac).toBeCloseTo(36);
+      expect(result.hours[0].endUses.lighting).toBeCloseTo(12);
+      expect(result.totals.hvac).toBeCloseTo(37.5);
+      expect(result.meteredKwh).toBe(50);
+      expect(result.estimatedKwh).toBeCloseTo(44);
+      expect(result.shares.hvac).toBeCloseTo(0.75);
+      expect(result.scaleFactor).toBeCloseTo(50 / 44);
+    });
+
+    test('should count hours without scheduled load as other', () => {
+      const profiles = getEndUseProfiles([officePanel], 0);
+      const result = disaggregateLoad(profiles, [{ timestamp: at(13, 3), energyKwh: 5 }]);
+
+      expect(result.totals.other).toBe(5);
+      expect(result.shares.other).toBe(1);
+      expect(result.scaleFactor).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { analyzeCashFlows, calculateIRR } from '../utils/roiUtils';
+
+describe('ROI Utilities', () => {
+  describe('calculateIRR', () => {
+    test('should find the rate that zeroes the NPV', () => {
+      expect(calculateIRR([-100, 110])).toBeCloseTo(0.1, 6);
+      expect(calculateIRR([-1000, 500, 500, 500])).toBeCloseTo(0.2338, 4);
+    });
+  });
+
+  describe('analyzeCashFlows', () => {
+    test('should compute payback, NPV, ROI and SIR', () => {
+      const metrics = analyzeCashFlows([-1000, 500, 500, 500], 0.1);
+
+      expect(metrics.simplePayback).toBe(2);
+      expect(metrics.npv).toBeCloseTo(243.426, 3);
+      expect(metrics.roi).toBeCloseTo(150, 10);
+      expect(metrics.savingsToInvestmentRatio).toBeCloseTo(1.243426, 6);
+      expect(metrics.yearlyResults).toHaveLength(4);
+      expect(metrics.yearlyResults[3].cumulativeCashFlow).toBe(500);
+    });
+
+    test('should reject cash flows without an initial cost', () => {
+      expect(() => analyzeCashFlows([1000, 500], 0.1)).toThrow();
+      expect(() => analyzeCashFlows([-1000], 0.1)).toThrow();
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import {
+  analyzePanelShortCircuit,
+  applyShortCircuitResults,
+  calculatePointToPointFaultCurrent,
+  calculateTransformerFaultCurrent,
+  checkInterruptingRating,
+  getConductorCircularMils,
+  getRequiredInterruptingRating,
+  getStartFaultCurrent,
+  LINE_TO_LINE_FAULT_MULTIPLIER,
+  TransformerParameters
+} from '../utils/shortCircuitUtils';
+import { LoadSchedule } from '../ScheduleOfLoads/types';
+
+describe('Short-Circuit Utilities', () => {
+  const transformer: TransformerParameters = {
+    kva: 500,
+    impedancePercent: 5.75,
+    secondaryVoltage: 230,
+    phaseConfiguration: 'three-phase',
+    applyImpedanceTolerance: false
+  };
+
+  const loadSchedule: LoadSchedule = {
+    id: 'panel-1',
+    name: 'Ground Floor',
+    panelName: 'LP-1',
+    voltage: 230,
+    powerFactor: 0.9,
+    totalConnectedLoad: 5000,
+    totalDemandLoad: 4000,
+    current: 17.4,
+    circuitBreaker: '100A',
+    conductorSize: '2 AWG',
+    conductorLength: 30,
+    phaseConfiguration: 'three-phase',
+    loads: [
+      {
+        id: 'load-1',
+        description: 'Lighting',
+        quantity: 10,
+        rating: 40,
+        demandFactor: 1,
+        connectedLoad: 400,
+        demandLoad: 400,
+        circuitBreaker: '20A',
+        conductorSize: '12 AWG',
+        conductorLength: 25
+      },
+      {
+        id: 'load-2',
+        description: 'Receptacles',
+        quantity: 5,
+        rating: 180,
+        demandFactor: 1,
+        connectedLoad: 900,
+        demandLoad: 900,
+        circuitBreaker: '20A',
+        conductorSize: '12 AWG',
+        conductorLength: 20,
+        interruptingRatingKA: 22
+      }
+    ]
+  };
+
+  describe('getConductorCircularMils', () => {
+    test('should accept both MCM and kcmil labels', () => {
+      expect(getConductorCircularMils('250 MCM')).toBe(250000);
+      expect(getConductorCircularMils('250 kcmil')).toBe(250000);
+      expect(getConductorCircularMils('700 kcmil')).toBe(700000);
+      expect(getConductorCircularMils('12 AWG')).toBe(6530);
+      expect(getConductorCircularMils('unknown')).toBe(0);
+    });
+  });
+
+  describe('calculateTransformerFaultCurrent', () => {
+    test('should calculate secondary fault current from kVA and %Z', () => {
+      const { fullLoadCurrent, faultCurrent } = calculateTransformerFaultCurrent(transformer);
+
+      expect(fullLoadCurrent).toBeCloseTo(1255.1, 0);
+      expect(faultCurrent).toBeCloseTo(fullLoadCurrent * 100 / 5.75, 3);
+    });
+
+    test('should increase fault current when the impedance tolerance is applied', () => {
+      const nominal = calculateTransformerFaultCurrent(transformer).faultCurrent;
+      const worstCase = calculateTransformerFaultCurrent({ ...transformer, applyImpedanceTolerance: true }).faultCurrent;
+
+      expect(worstCase).toBeCloseTo(nominal / 0.9, 3);
+    });
+
+    test('should reduce fault current for a finite utility source', () => {
+      const infiniteBus = calculateTransformerFaultCurrent(transformer).faultCurrent;
+      const finiteSource = calculateTransformerFaultCurrent({ ...transformer, utilityFaultMVA: 50 }).faultCurrent;
+
+      expect(finiteSource).toBeLessThan(infiniteBus);
+    });
+
+    test('should reject invalid transformer data', () => {
+      expect(() => calculateTransformerFaultCurrent({ ...transformer, impedancePercent: 0 })).toThrow();
+    });
+  });
+
+  describe('calculatePointToPointFaultCurrent', () => {
+    const run = {
+      conductorSize: '2 AWG',
+      conductorLength: 30,
+      conductorMaterial: 'copper' as const,
+      conduitMaterial: 'PVC' as const,
+      phaseConfiguration: 'three-phase' as const,
+      voltage: 230
+    };
+
+    test('should reduce fault current along the conductor run', () => {
+      const result = calculatePointToPointFaultCurrent(20000, run);
+
+      expect(result.multiplier).toBeCloseTo(1 / (1 + result.fFactor), 10);
+      expect(result.faultCurrent).toBeLessThan(20000);
+      expect(result.faultCurrent).toBeGreaterThan(0);
+    });
+
+    test('should carry more fault current with larger or parallel conductors', () => {
+      const base = calculatePointToPointFaultCurrent(20000, run).faultCurrent;
+      const larger = calculatePointToPointFaultCurrent(20000, { ...run, conductorSize: '4/0 AWG' }).faultCurrent;
+      const parallel = calculatePointToPointFaultCurrent(20000, { ...run, parallelSets: 2 }).faultCurrent;
+
+      expect(larger).toBeGreaterThan(base);
+      expect(parallel).toBeGreaterThan(base);
+    });
+
+    test('should throw for an invalid conductor size', () => {
+      expect(() => calculatePointToPointFaultCurrent(20000, { ...run, conductorSize: 'bad' })).toThrow();
+    });
+  });
+
+  describe('getStartFaultCurrent', () => {
+    test('should reduce three-phase fault current for single-phase runs only', () => {
+      expect(getStartFaultCurrent(10000, 'three-phase', 'single-phase')).toBeCloseTo(8660, 0);
+      expect(getStartFaultCurrent(10000, 'three-phase', 'three-phase')).toBe(10000);
+      expect(getStartFaultCurrent(10000, 'single-phase', 'single-phase')).toBe(10000);
+    });
+  });
+
+  describe('checkInterruptingRating', () => {
+    test('should assume a typical rating when none is entered', () => {
+      const check = checkInterruptingRating('20A', undefined, 12);
+
+      expect(check?.isAssumedRating).toBe(true);
+      expect(check?.interruptingRatingKA).toBe(10);
+      expect(check?.isAdequate).toBe(false);
+    });
+
+    test('should return null without a breaker', () => {
+      expect(checkInterruptingRating(undefined, 10, 5)).toBeNull();
+    });
+
+    test('should pick the next standard interrupting rating', () => {
+      expect(getRequiredInterruptingRating(12.4)).toBe(14);
+      expect(getRequiredInterruptingRating(25)).toBe(25);
+    });
+  });
+
+  describe('analyzePanelShortCircuit', () => {
+    test('should report fault current at the panel and every load item', () => {
+      const result = analyzePanelShortCircuit(loadSchedule, transformer);
+
+      expect(result.feeder).not.toBeNull();
+      expect(result.panelFaultCurrentKA).toBeLessThan(result.transformerFaultCurrentKA);
+      expect(result.loadResults).toHaveLength(2);
+      result.loadResults.forEach(loadResult => {
+        expect(loadResult.faultCurrentKA).toBeLessThan(result.panelFaultCurrentKA);
+      });
+    });
+
+    test('should flag breakers rated below the panel fault current', () => {
+      // A short feeder keeps the panel close to the transformer fault level
+      const result = analyzePanelShortCircuit({ ...loadSchedule, conductorLength: 3 }, transformer);
+      const [assumed, specified] = result.loadResults;
+
+      // Between 10 kA and 22 kA: the assumed 10 kA rating fails, the entered 22 kA passes
+      expect(result.panelFaultCurrentKA).toBeGreaterThan(10);
+      expect(result.panelFaultCurrentKA).toBeLessThan(22);
+      expect(assumed.breaker?.isAdequate).toBe(false);
+      expect(specified.breaker?.isAdequate).toBe(true);
+      expect(result.isCompliant).toBe(false);
+    });
+
+    test('should check the main breaker against the fault current at the panel', () => {
+      const result = analyzePanelShortCircuit(loadSchedule, transformer);
+
+      expect(result.mainBreaker?.availableFaultCurrentKA).toBeCloseTo(result.panelFaultCurrentKA, 10);
+    });
+
+    test('should start single-phase branch circuits from the line-to-line fault current', () => {
+      const result = analyzePanelShortCircuit(loadSchedule, transformer);
+      const expected = calculatePointToPointFaultCurrent(result.panelFaultCurrentKA * 1000 * LINE_TO_LINE_FAULT_MULTIPLIER, {
+        conductorSize: '12 AWG',
+        conductorLength: 25,
+        conductorMaterial: 'copper',
+        conduitMaterial: 'PVC',
+        phaseConfiguration: 'single-phase',
+        voltage: 230
+      });
+
+      expect(result.loadResults[0].faultCurrentKA).toBeCloseTo(expected.faultCurrent / 1000, 10);
+    });
+
+    test('should use transformer fault current when the feeder is not defined', () => {
+      const result = analyzePanelShortCircuit({ ...loadSchedule, conductorLength: undefined }, transformer);
+
+      expect(result.feeder).toBeNull();
+      expect(result.panelFaultCurrentKA).toBeCloseTo(result.transformerFaultCurrentKA, 10);
+    });
+  });
+
+  describe('applyShortCircuitResults', () => {
+    test('should write fault currents back into the schedule', () => {
+      const result = analyzePanelShortCircuit(loadSchedule, transformer);
+      const updated = applyShortCircuitResults(loadSchedule, result);
+
+      expect(updated.availableFaultCurrentKA).toBe(result.panelFaultCurrentKA);
+      expect(updated.loads[0].availableFaultCurrentKA).toBe(result.loadResults[0].faultCurrentKA);
+    });
+  });
+});
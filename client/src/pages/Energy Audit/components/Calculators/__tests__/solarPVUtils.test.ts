@@ -0,0 +1,161 @@
+import {
+  analyzeSolarPV,
+  calculateSolarPVCashFlow,
+  DEFAULT_SOLAR_PV_OPTIONS,
+  estimateRoofArea,
+  getHourlyIrradiance,
+  getOperatingFractions,
+  getWeeklyLoadProfile,
+  NET_METERING_MAX_KWP,
+  simulateEnergyBalance
+} from '../utils/solarPVUtils';
+import { getIrradianceLocation } from '../utils/philippineIrradiance';
+import { BuildingData } from '../../BuildingVisualization/interfaces';
+import { LoadSchedule } from '../ScheduleOfLoads/types';
+
+describe('Solar PV Utilities', () => {
+  const schoolPanel: LoadSchedule = {
+    id: 'panel-1',
+    name: 'Academic Building',
+    panelName: 'LP-1',
+    voltage: 230,
+    powerFactor: 0.9,
+    totalConnectedLoad: 60000,
+    totalDemandLoad: 40000,
+    current: 100,
+    hours: {
+      Monday: [{ start: '07:00', end: '17:00' }],
+      Tuesday: [{ start: '07:00', end: '17:00' }],
+      Wednesday: [{ start: '07:00', end: '17:00' }],
+      Thursday: [{ start: '07:00', end: '17:00' }],
+      Friday: [{ start: '07:00', end: '17:00' }]
+    },
+    occupancyFactors: { '12': 0.5 },
+    loads: []
+  };
+
+  const manila = getIrradianceLocation('manila');
+
+  describe('estimateRoofArea', () => {
+    test('should use the floor with the largest room area', () => {
+      const building = {
+        name: 'School',
+        floors: {
+          ground: { name: 'Ground Floor', rooms: [{ area: 300 }, { area: 200 }], loadSchedules: [] },
+          second: { name: 'Second Floor', rooms: [{ area: 400 }], loadSchedules: [] }
+        }
+      } as unknown as BuildingData;
+
+      const roof = estimateRoofArea(building);
+      expect(roof.floorName).toBe('Ground Floor');
+      expect(roof.footprintArea).toBe(500);
+      expect(roof.usableArea).toBeCloseTo(350, 10);
+    });
+
+    test('should throw without room areas', () => {
+      expect(() => estimateRoofArea({ name: 'Empty', floors: {} } as BuildingData)).toThrow();
+    });
+  });
+
+  describe('load and irradiance profiles', () => {
+    test('should distribute daily irradiation over daylight hours', () => {
+      const hourly = getHourlyIrradiance(6);
+
+      expect(hourly.reduce((sum, value) => sum + value, 0)).toBeCloseTo(6, 10);
+      expect(hourly[5]).toBe(0);
+      expect(hourly[18]).toBe(0);
+      expect(hourly[6]).toBeCloseTo(hourly[17], 10);
+      expect(hourly[11]).toBeGreaterThan(hourly[8]);
+    });
+
+    test('should compute partial operating hours', () => {
+      const fractions = getOperatingFractions([{ start: '08:00', end: '12:30' }]);
+
+      expect(fractions[7]).toBe(0);
+      expect(fractions[8]).toBe(1);
+      expect(fractions[12]).toBeCloseTo(0.5, 10);
+      expect(fractions[13]).toBe(0);
+    });
+
+    test('should apply operating hours, occupancy and unoccupied load', () => {
+      const week = getWeeklyLoadProfile([schoolPanel], 0.1);
+
+      expect(week[0][10]).toBeCloseTo(40, 10);
+      expect(week[0][12]).toBeCloseTo(20, 10);
+      expect(week[0][20]).toBeCloseTo(4, 10);
+      expect(week[6][10]).toBeCloseTo(4, 10);
+    });
+  });
+
+  describe('simulateEnergyBalance', () => {
+    test('should self-consume everything when the load exceeds generation', () => {
+      const week = Array.from({ length: 7 }, () => new Array(24).fill(1000));
+      const energy = simulateEnergyBalance(10, manila, week, { performanceRatio: 0.8, importRate: 10, exportRate: 5 });
+      const expected = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
+        .reduce((sum, days, month) => sum + days * manila.monthlyGHI[month] * 10 * 0.8, 0);
+
+      expect(energy.annualGenerationKWh).toBeCloseTo(expected, 6);
+      expect(energy.annualExportedKWh).toBeCloseTo(0, 6);
+      expect(energy.selfConsumptionPercent).toBeCloseTo(100, 6);
+      expect(energy.annualLoadKWh).toBeCloseTo(1000 * 24 * 365, 3);
+    });
+
+    test('should credit exports against imports and carry the excess forward', () => {
+      const week = Array.from({ length: 7 }, () => new Array(24).fill(0));
+      const energy = simulateEnergyBalance(10, manila, week, { performanceRatio: 0.8, importRate: 10, exportRate: 5 });
+
+      expect(energy.annualExportedKWh).toBeCloseTo(energy.annualGenerationKWh, 6);
+      expect(energy.annualCreditApplied).toBe(0);
+      expect(energy.unusedCredit).toBeCloseTo(energy.annualExportedKWh * 5, 6);
+    });
+  });
+
+  describe('calculateSolarPVCashFlow', () => {
+    test('should value self-consumption and applied credit', () => {
+      const week = getWeeklyLoadProfile([schoolPanel]);
+      const energy = simulateEnergyBalance(20, manila, week, { performanceRatio: 0.78, importRate: 11.5, exportRate: 5.5 });
+      const financial = calculateSolarPVCashFlow(20, energy, DEFAULT_SOLAR_PV_OPTIONS);
+
+      expect(financial.capitalCost).toBe(1000000);
+      expect(financial.yearOneSavings).toBeCloseTo(energy.annualSelfConsumedKWh * 11.5 + energy.annualCreditApplied, 6);
+      expect(financial.cashFlows).toHaveLength(26);
+      expect(financial.cashFlows[1]).toBeCloseTo(financial.yearOneSavings - 10000, 6);
+      // Inverter replacement in year 12
+      expect(financial.cashFlows[12]).toBeLessThan(financial.cashFlows[11]);
+      expect(financial.metrics.irr).toBeGreaterThan(0);
+    });
+  });
+
+  describe('analyzeSolarPV', () => {
+    test('should size the system to the roof', () => {
+      const result = analyzeSolarPV(200, [schoolPanel]);
+
+      expect(result.roofCapacityKWp).toBeCloseTo(40, 10);
+      expect(result.systemSizeKWp).toBeCloseTo(40, 10);
+      expect(result.netMeteringEligible).toBe(true);
+      expect(result.energy.specificYield).toBeGreaterThan(1000);
+    });
+
+    test('should limit a requested size to the roof capacity', () => {
+      const result = analyzeSolarPV(100, [schoolPanel], { systemSizeKWp: 50 });
+
+      expect(result.systemSizeKWp).toBeCloseTo(20, 10);
+      expect(result.issues.some(issue => issue.includes('roof capacity'))).toBe(true);
+    });
+
+    test('should not credit exports above the net-metering limit', () => {
+      const result = analyzeSolarPV(1000, [schoolPanel], { locationId: 'cebu' });
+
+      expect(result.systemSizeKWp).toBeGreaterThan(NET_METERING_MAX_KWP);
+      expect(result.netMeteringEligible).toBe(false);
+      expect(result.energy.annualCreditApplied).toBe(0);
+      expect(result.recommendations.some(rec => rec.includes('net-metering'))).toBe(true);
+    });
+
+    test('should reject missing inputs', () => {
+      expect(() => analyzeSolarPV(0, [schoolPanel])).toThrow();
+      expect(() => analyzeSolarPV(100, [])).toThrow();
+      expect(() => analyzeSolarPV(100, [schoolPanel], { locationId: 'atlantis' })).toThrow();
+    });
+  });
+});
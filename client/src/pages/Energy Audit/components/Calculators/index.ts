@@ -7,4 +7,7 @@ export { default as HarmonicDistortionCalculator } from './HarmonicDistortionCal
 export { default as SavedCalculationsViewer } from './SavedCalculationsViewer';
 export { default as VoltageRegulationCalculator } from './VoltageRegulationCalculator';
 export { default as LightingPowerDensityCalculator } from './LightingPowerDensityCalculator';
+export { default as SolarPVCalculator } from './SolarPVCalculator';
+export { default as TariffBillCalculator } from './TariffBillCalculator';
+export { default as TariffRateSelector } from './TariffRateSelector';
 export * from './utils/storage'; 
\ No newline at end of file
@@ -0,0 +1,237 @@
+/**
+ * Server sync for saved calculator results
+ *
+ * Once the user is signed in, saved calculations are mirrored to the /api/calculations resource.
+ * On a user's first sign-in, calculations already saved in this browser are imported to the
+ * server; from then on the server copy is authoritative and localStorage is kept as a cache, so
+ * the calculators and SavedCalculationsViewer keep reading calculations synchronously.
+ * Saves and deletes made while offline are queued and sent on the next sync.
+ */
+
+import calculationService, { ServerCalculation } from '../../../../../services/calculationService';
+import {
+  CalculationRemoteStore,
+  getStoredCalculations,
+  replaceStoredCalculations,
+  setCalculationRemoteStore,
+  StoredCalculation
+} from './storage';
+
+const MIGRATED_KEY_PREFIX = 'energy-audit-calculations-migrated-';
+const OWNER_KEY = 'energy-audit-calculations-owner';
+const PENDING_KEY = 'energy-audit-calculations-pending';
+
+/**
+ * Interface for a save or delete waiting to be sent to the server
+ */
+export interface PendingCalculationOperation {
+  action: 'save' | 'remove';
+  id: string;
+}
+
+/**
+ * Interface for the outcome of a sync
+ */
+export interface CalculationSyncResult {
+  imported: number;
+  total: number;
+}
+
+const getPendingOperations = (): PendingCalculationOperation[] => {
+  try {
+    const stored = localStorage.getItem(PENDING_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn('Error reading pending calculation operations:', error);
+    return [];
+  }
+};
+
+const setPendingOperations = (operations: PendingCalculationOperation[]): void => {
+  localStorage.setItem(PENDING_KEY, JSON.stringify(operations));
+};
+
+/**
+ * Queue an operation, replacing any earlier operation for the same calculation
+ */
+const queueOperation = (operation: PendingCalculationOperation): void => {
+  setPendingOperations([
+    ...getPendingOperations().filter(pending => pending.id !== operation.id),
+    operation
+  ]);
+};
+
+/**
+ * Get every calculation saved in this browser, from the unified list and the type-specific lists
+ */
+const getLocalCalculations = (): StoredCalculation[] => {
+  const calculations = new Map<string, StoredCalculation>();
+
+  getStoredCalculations().forEach(calc => calculations.set(calc.id, calc));
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !key.endsWith('_calculations')) {
+      continue;
+    }
+    try {
+      const parsed = JSON.parse(localStorage.getItem(key) || '[]');
+      if (Array.isArray(parsed)) {
+        parsed
+          .filter(calc => calc && typeof calc.id === 'string' && !calculations.has(calc.id))
+          .forEach(calc => calculations.set(calc.id, calc));
+      }
+    } catch (error) {
+      console.warn(`Error parsing calculations from ${key}:`, error);
+    }
+  }
+
+  return Array.from(calculations.values());
+};
+
+const toStoredCalculation = (calculation: ServerCalculation): StoredCalculation => ({
+  id: calculation.id,
+  name: calculation.name,
+  timestamp: calculation.timestamp,
+  type: calculation.type,
+  data: calculation.data,
+  version: calculation.version,
+  auditId: calculation.auditId
+});
+
+const isConflict = (error: any): boolean => error?.response?.status === 409 || error?.status === 409;
+const isNotFound = (error: any): boolean => error?.response?.status === 404 || error?.status === 404;
+
+/**
+ * Send one queued operation to the server
+ */
+const sendOperation = async (operation: PendingCalculationOperation): Promise<void> => {
+  if (operation.action === 'remove') {
+    try {
+      await calculationService.deleteCalculation(operation.id);
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+    return;
+  }
+
+  const calculation = getStoredCalculations().find(calc => calc.id === operation.id);
+  if (!calculation) {
+    return;
+  }
+
+  try {
+    await calculationService.createCalculation({
+      id: calculation.id,
+      type: calculation.type,
+      name: calculation.name,
+      data: calculation.data,
+      timestamp: calculation.timestamp,
+      auditId: calculation.auditId
+    });
+  } catch (error) {
+    if (!isConflict(error)) {
+      throw error;
+    }
+    await calculationService.updateCalculation(calculation.id, {
+      name: calculation.name,
+      data: calculation.data
+    });
+  }
+};
+
+/**
+ * Send queued operations in order, stopping at the first failure so nothing is lost
+ * @returns Number of operations still pending
+ */
+export const flushPendingCalculations = async (): Promise<number> => {
+  const pending = getPendingOperations();
+
+  for (let i = 0; i < pending.length; i++) {
+    try {
+      await sendOperation(pending[i]);
+    } catch (error) {
+      console.warn('Calculation sync deferred, server unavailable:', error);
+      // Keep the failed operation and anything queued while the flush was running
+      const remaining = getPendingOperations().filter(
+        operation => !pending.slice(0, i).some(sent => sent.id === operation.id && sent.action === operation.action)
+      );
+      setPendingOperations(remaining);
+      return remaining.length;
+    }
+  }
+
+  const remaining = getPendingOperations().filter(
+    operation => !pending.some(sent => sent.id === operation.id && sent.action === operation.action)
+  );
+  setPendingOperations(remaining);
+  return remaining.length;
+};
+
+/**
+ * Remote store that queues each local save or delete and sends it straight away
+ */
+const serverRemoteStore: CalculationRemoteStore = {
+  save: (calculation) => {
+    queueOperation({ action: 'save', id: calculation.id });
+    flushPendingCalculations();
+  },
+  remove: (id) => {
+    queueOperation({ action: 'remove', id });
+    flushPendingCalculations();
+  }
+};
+
+/**
+ * Start mirroring saved calculations to the server for a signed-in user
+ * Imports this browser's calculations on the user's first sign-in, sends queued operations,
+ * then refreshes the local cache from the server
+ * @param userId The signed-in user's ID
+ * @returns Number of calculations imported and held on the server
+ */
+export const syncCalculationsWithServer = async (userId: string): Promise<CalculationSyncResult> => {
+  const owner = localStorage.getItem(OWNER_KEY);
+
+  // Calculations cached for a different user must not be imported into this account
+  if (owner && owner !== userId) {
+    setPendingOperations([]);
+    replaceStoredCalculations([]);
+  }
+
+  let imported = 0;
+  const migratedKey = `${MIGRATED_KEY_PREFIX}${userId}`;
+  if (!localStorage.getItem(migratedKey)) {
+    const localCalculations = getLocalCalculations();
+    if (localCalculations.length > 0) {
+      const result = await calculationService.importCalculations(localCalculations);
+      imported = result.imported;
+    }
+    localStorage.setItem(migratedKey, new Date().toISOString());
+  }
+
+  localStorage.setItem(OWNER_KEY, userId);
+  setCalculationRemoteStore(serverRemoteStore);
+
+  await flushPendingCalculations();
+
+  // Keep local saves that have not reached the server yet alongside the server copies
+  const serverCalculations = (await calculationService.getCalculations()).map(toStoredCalculation);
+  const pendingIds = new Set(getPendingOperations().filter(op => op.action === 'save').map(op => op.id));
+  const unsent = getStoredCalculations().filter(
+    calc => pendingIds.has(calc.id) && !serverCalculations.some(server => server.id === calc.id)
+  );
+
+  replaceStoredCalculations([...serverCalculations, ...unsent].sort((a, b) => b.timestamp - a.timestamp));
+
+  return { imported, total: serverCalculations.length };
+};
+
+/**
+ * Stop mirroring saved calculations, e.g. on sign-out
+ */
+export const stopCalculationSync = (): void => {
+  setCalculationRemoteStore(null);
+};
@@ -0,0 +1,344 @@
+/**
+ * Conduit Fill Utilities
+ *
+ * This module provides utility functions for sizing raceways from the conductors they
+ * carry per PEC 2017 Chapter 9 (Table 1 fill percentages, Table 4 raceway areas and
+ * Table 5 conductor areas), and for deriving the ampacity adjustment factor for the
+ * number of current-carrying conductors per PEC 2017 Table 3.10.15(B)(3)(a)
+ */
+
+import { LoadItem, LoadSchedule } from '../ScheduleOfLoads/types';
+
+/**
+ * Square inches to square millimeters
+ */
+const SQ_IN_TO_SQ_MM = 645.16;
+
+export type RacewayType = 'PVC' | 'EMT' | 'RMC';
+
+export type ConductorInsulationType = 'THHN' | 'THWN' | 'XHHW' | 'RHW' | 'USE';
+
+/**
+ * Conductor areas including insulation in square inches per PEC 2017 Chapter 9 Table 5
+ * THHN and THWN share dimensions; USE uses the RHW dimensions (same insulation thickness)
+ */
+const CONDUCTOR_AREAS_SQ_IN: Record<'THHN' | 'XHHW' | 'RHW', Record<string, number>> = {
+  THHN: {
+    '14 AWG': 0.0097, '12 AWG': 0.0133, '10 AWG': 0.0211, '8 AWG': 0.0366,
+    '6 AWG': 0.0507, '4 AWG': 0.0824, '3 AWG': 0.0973, '2 AWG': 0.1158,
+    '1 AWG': 0.1562, '1/0 AWG': 0.1855, '2/0 AWG': 0.2223, '3/0 AWG': 0.2679,
+    '4/0 AWG': 0.3237, '250 kcmil': 0.3970, '300 kcmil': 0.4608, '350 kcmil': 0.5242,
+    '400 kcmil': 0.5863, '500 kcmil': 0.7073, '600 kcmil': 0.8676, '700 kcmil': 0.9887,
+    '750 kcmil': 1.0496
+  },
+  XHHW: {
+    '14 AWG': 0.0139, '12 AWG': 0.0181, '10 AWG': 0.0243, '8 AWG': 0.0437,
+    '6 AWG': 0.0590, '4 AWG': 0.0814, '3 AWG': 0.0962, '2 AWG': 0.1146,
+    '1 AWG': 0.1534, '1/0 AWG': 0.1825, '2/0 AWG': 0.2190, '3/0 AWG': 0.2642,
+    '4/0 AWG': 0.3197, '250 kcmil': 0.3904, '300 kcmil': 0.4536, '350 kcmil': 0.5166,
+    '400 kcmil': 0.5782, '500 kcmil': 0.6984, '600 kcmil': 0.8709, '700 kcmil': 0.9923,
+    '750 kcmil': 1.0532
+  },
+  RHW: {
+    '14 AWG': 0.0293, '12 AWG': 0.0353, '10 AWG': 0.0437, '8 AWG': 0.0835,
+    '6 AWG': 0.1041, '4 AWG': 0.1333, '3 AWG': 0.1521, '2 AWG': 0.1750,
+    '1 AWG': 0.2660, '1/0 AWG': 0.3039, '2/0 AWG': 0.3505, '3/0 AWG': 0.4072,
+    '4/0 AWG': 0.4757, '250 kcmil': 0.6291, '300 kcmil': 0.7088, '350 kcmil': 0.7870,
+    '400 kcmil': 0.8626, '500 kcmil': 1.0082, '600 kcmil': 1.2135, '700 kcmil': 1.3561,
+    '750 kcmil': 1.4272
+  }
+};
+
+/**
+ * Interface for a raceway trade size
+ */
+export interface RacewayTradeSize {
+  metricDesignator: number; // mm
+  tradeSize: string; // Inches
+  area: number; // Total internal area in mm²
+}
+
+/**
+ * Total internal raceway areas in square inches per PEC 2017 Chapter 9 Table 4
+ * Keyed by metric designator
+ */
+const RACEWAY_AREAS_SQ_IN: Record<RacewayType, Record<number, number>> = {
+  PVC: { // Schedule 40 PVC (Article 3.52)
+    16: 0.285, 21: 0.508, 27: 0.832, 35: 1.453, 41: 1.986, 53: 3.291,
+    63: 4.695, 78: 7.268, 91: 9.737, 103: 12.554, 129: 19.761, 155: 28.567
+  },
+  EMT: { // Electrical metallic tubing (Article 3.58)
+    16: 0.304, 21: 0.533, 27: 0.864, 35: 1.496, 41: 2.036, 53: 3.356,
+    63: 5.858, 78: 8.846, 91: 11.545, 103: 14.753
+  },
+  RMC: { // Rigid metal conduit (Article 3.44)
+    16: 0.314, 21: 0.549, 27: 0.887, 35: 1.526, 41: 2.071, 53: 3.408,
+    63: 4.866, 78: 7.499, 91: 10.010, 103: 12.882, 129: 20.212, 155: 29.158
+  }
+};
+
+/**
+ * Trade sizes in inches by metric designator
+ */
+const TRADE_SIZES: Record<number, string> = {
+  16: '1/2"', 21: '3/4"', 27: '1"', 35: '1-1/4"', 41: '1-1/2"', 53: '2"',
+  63: '2-1/2"', 78: '3"', 91: '3-1/2"', 103: '4"', 129: '5"', 155: '6"'
+};
+
+/**
+ * Adjustment factors for more than three current-carrying conductors in a raceway
+ * per PEC 2017 Table 3.10.15(B)(3)(a)
+ */
+const BUNDLE_ADJUSTMENT_FACTORS: { maxConductors: number; factor: number }[] = [
+  { maxConductors: 3, factor: 1.0 },
+  { maxConductors: 6, factor: 0.8 },
+  { maxConductors: 9, factor: 0.7 },
+  { maxConductors: 20, factor: 0.5 },
+  { maxConductors: 30, factor: 0.45 },
+  { maxConductors: 40, factor: 0.4 },
+  { maxConductors: Infinity, factor: 0.35 }
+];
+
+/**
+ * Interface for a group of identical conductors in a raceway
+ */
+export interface ConductorGroup {
+  description?: string;
+  size: string; // AWG or kcmil size
+  insulationType: ConductorInsulationType;
+  count: number;
+  isCurrentCarrying: boolean; // False for equipment grounding conductors
+  loadId?: string; // Load item the conductors belong to
+}
+
+/**
+ * Interface for conduit fill results
+ */
+export interface ConduitFillResult {
+  racewayType: RacewayType;
+  tradeSize: RacewayTradeSize | null; // Null when no listed size is large enough
+  conductorCount: number;
+  currentCarryingCount: number;
+  totalConductorArea: number; // mm²
+  maxFillPercent: number; // Chapter 9 Table 1 limit
+  fillPercent: number; // Actual fill of the selected trade size
+  bundleAdjustmentFactor: number;
+  issues: string[];
+}
+
+/**
+ * Get the area of one conductor including insulation
+ * @param size Conductor size (e.g., "12 AWG", "250 kcmil", "250 MCM")
+ * @param insulationType Insulation type
+ * @returns Area in mm², or 0 if the size is not listed
+ */
+export function getConductorArea(size: string, insulationType: ConductorInsulationType): number {
+  const normalized = size.trim().replace(/\s*MCM$/i, ' kcmil');
+  const column = insulationType === 'THWN' ? 'THHN' : insulationType === 'USE' ? 'RHW' : insulationType;
+  const area = CONDUCTOR_AREAS_SQ_IN[column][normalized];
+  return area ? area * SQ_IN_TO_SQ_MM : 0;
+}
+
+/**
+ * Get the maximum fill percentage for a number of conductors per PEC 2017 Chapter 9 Table 1
+ * @param conductorCount Number of conductors in the raceway
+ * @returns Maximum fill in percent
+ */
+export function getMaxFillPercent(conductorCount: number): number {
+  if (conductorCount === 1) return 53;
+  if (conductorCount === 2) return 31;
+  return 40;
+}
+
+/**
+ * Get the ampacity adjustment factor for the number of current-carrying conductors
+ * @param currentCarryingCount Number of current-carrying conductors in the raceway
+ * @returns Adjustment factor (0-1)
+ */
+export function getBundleAdjustmentFactor(currentCarryingCount: number): number {
+  const row = BUNDLE_ADJUSTMENT_FACTORS.find(entry => currentCarryingCount <= entry.maxConductors);
+  return row ? row.factor : BUNDLE_ADJUSTMENT_FACTORS[BUNDLE_ADJUSTMENT_FACTORS.length - 1].factor;
+}
+
+/**
+ * Get the raceway type that matches a voltage drop conduit material
+ * @param conduitMaterial Conduit material used in voltage drop calculations
+ * @returns Raceway type
+ */
+export function getRacewayTypeForConduitMaterial(conduitMaterial: 'PVC' | 'steel' | 'aluminum'): RacewayType {
+  switch (conduitMaterial) {
+    case 'PVC':
+      return 'PVC';
+    case 'steel':
+      return 'EMT';
+    default:
+      return 'RMC';
+  }
+}
+
+/**
+ * Get the listed trade sizes for a raceway type, smallest first
+ * @param racewayType Raceway type
+ * @returns Trade sizes with areas in mm²
+ */
+export function getRacewayTradeSizes(racewayType: RacewayType): RacewayTradeSize[] {
+  return Object.entries(RACEWAY_AREAS_SQ_IN[racewayType])
+    .map(([designator, area]) => ({
+      metricDesignator: Number(designator),
+      tradeSize: TRADE_SIZES[Number(designator)],
+      area: area * SQ_IN_TO_SQ_MM
+    }))
+    .sort((a, b) => a.metricDesignator - b.metricDesignator);
+}
+
+/**
+ * Format a trade size for display
+ * @param tradeSize Raceway trade size
+ * @returns Label such as "21 mm (3/4")"
+ */
+export function formatTradeSize(tradeSize: RacewayTradeSize): string {
+  return `${tradeSize.metricDesignator} mm (${tradeSize.tradeSize})`;
+}
+
+/**
+ * Pick the minimum raceway trade size for a set of conductors
+ * @param conductors Conductor groups in the raceway
+ * @param racewayType Raceway type
+ * @returns Conduit fill result
+ */
+export function calculateConduitFill(conductors: ConductorGroup[], racewayType: RacewayType = 'PVC'): ConduitFillResult {
+  const issues: string[] = [];
+  let conductorCount = 0;
+  let currentCarryingCount = 0;
+  let totalConductorArea = 0;
+
+  conductors.forEach(group => {
+    if (group.count <= 0) return;
+
+    const area = getConductorArea(group.size, group.insulationType);
+    if (!area) {
+      throw new Error(`No ${group.insulationType} area listed for conductor size: ${group.size}`);
+    }
+
+    conductorCount += group.count;
+    totalConductorArea += area * group.count;
+    if (group.isCurrentCarrying) {
+      currentCarryingCount += group.count;
+    }
+  });
+
+  const maxFillPercent = getMaxFillPercent(conductorCount);
+  const tradeSize = getRacewayTradeSizes(racewayType)
+    .find(size => totalConductorArea <= size.area * maxFillPercent / 100) || null;
+
+  if (conductorCount === 0) {
+    issues.push('No conductors selected');
+  } else if (!tradeSize) {
+    issues.push(`Conductors exceed the largest ${racewayType} trade size; split them into parallel raceways`);
+  }
+
+  return {
+    racewayType,
+    tradeSize,
+    conductorCount,
+    currentCarryingCount,
+    totalConductorArea,
+    maxFillPercent,
+    fillPercent: tradeSize ? (totalConductorArea / tradeSize.area) * 100 : 0,
+    bundleAdjustmentFactor: getBundleAdjustmentFactor(currentCarryingCount),
+    issues
+  };
+}
+
+/**
+ * Build the conductor groups carried by a load item circuit
+ * Single-pole circuits carry a current-carrying neutral; multi-pole circuits are
+ * assumed balanced with no current-carrying neutral. Parallel sets multiply the
+ * phase conductors and share one equipment grounding conductor.
+ * @param loadItem Load item
+ * @param defaultInsulation Insulation used when the load item has none
+ * @returns Conductor groups, empty when the load item has no conductor size
+ */
+export function getLoadItemConductors(
+  loadItem: LoadItem,
+  defaultInsulation: ConductorInsulationType = 'THHN'
+): ConductorGroup[] {
+  if (!loadItem.conductorSize) {
+    return [];
+  }
+
+  const insulationType = loadItem.insulationType || defaultInsulation;
+  const poles = loadItem.circuitDetails?.poles || 1;
+  const parallelSets = loadItem.parallelSets || 1;
+  const groups: ConductorGroup[] = [{
+    description: `${loadItem.description} - ${poles === 1 ? 'line and neutral' : `${poles} line conductors`}`,
+    size: loadItem.conductorSize,
+    insulationType,
+    count: (poles === 1 ? 2 : poles) * parallelSets,
+    isCurrentCarrying: true,
+    loadId: loadItem.id
+  }];
+
+  const egcSize = loadItem.equipmentGroundingConductorSize || loadItem.requiredEGCSize;
+  if (egcSize) {
+    groups.push({
+      description: `${loadItem.description} - EGC`,
+      size: egcSize,
+      insulationType,
+      count: 1,
+      isCurrentCarrying: false,
+      loadId: loadItem.id
+    });
+  }
+
+  return groups;
+}
+
+/**
+ * Size one raceway for several load item circuits
+ * @param loadItems Load items sharing the raceway
+ * @param racewayType Raceway type
+ * @param additionalConductors Other conductors in the raceway
+ * @returns Conduit fill result
+ */
+export function sizeRacewayForLoadItems(
+  loadItems: LoadItem[],
+  racewayType: RacewayType = 'PVC',
+  additionalConductors: ConductorGroup[] = []
+): ConduitFillResult {
+  const conductors = loadItems.flatMap(loadItem => getLoadItemConductors(loadItem));
+  const result = calculateConduitFill([...conductors, ...additionalConductors], racewayType);
+
+  const missing = loadItems.filter(loadItem => !loadItem.conductorSize);
+  if (missing.length > 0) {
+    result.issues.push(`${missing.length} selected load items have no conductor size and were left out`);
+  }
+
+  return result;
+}
+
+/**
+ * Write the raceway size and bundle adjustment factor back into the grouped load items
+ * @param loadSchedule Load schedule containing the load items
+ * @param loadIds Load items sharing the raceway
+ * @param result Conduit fill result
+ * @returns Updated load schedule
+ */
+export function applyConduitFillResults(
+  loadSchedule: LoadSchedule,
+  loadIds: string[],
+  result: ConduitFillResult
+): LoadSchedule {
+  return {
+    ...loadSchedule,
+    loads: loadSchedule.loads.map(loadItem => loadIds.includes(loadItem.id)
+      ? {
+          ...loadItem,
+          bundleAdjustmentFactor: result.bundleAdjustmentFactor,
+          conduitSize: result.tradeSize ? `${result.racewayType} ${formatTradeSize(result.tradeSize)}` : loadItem.conduitSize
+        }
+      : loadItem
+    ),
+    lastUpdated: Date.now()
+  };
+}
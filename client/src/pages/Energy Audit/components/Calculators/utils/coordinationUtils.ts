@@ -0,0 +1,487 @@
+/**
+ * Protective Device Coordination Utilities
+ *
+ * This module provides a library of generic thermal-magnetic circuit breaker
+ * time-current curves (TCC) and functions for checking selectivity between a
+ * branch breaker and the main/feeder breaker upstream of it, per PEC 2017 Section 2.40.1.12
+ */
+
+import { LoadSchedule } from '../ScheduleOfLoads/types';
+import { getBreakerSizeValue } from './pecComplianceUtils';
+import { getTypicalInterruptingRating } from './shortCircuitUtils';
+
+/**
+ * Generic breaker trip curve types
+ * B, C and D follow the IEC 60898 instantaneous bands; MCCB is a typical
+ * thermal-magnetic molded case breaker with a fixed magnetic setting
+ */
+export type BreakerCurveType = 'B' | 'C' | 'D' | 'MCCB';
+
+/**
+ * Interface for a generic thermal-magnetic trip curve
+ */
+export interface BreakerCurveDefinition {
+  type: BreakerCurveType;
+  description: string;
+  thermalNoTripMultiple: number; // Conventional non-tripping current (x In)
+  thermalTripMultiple: number; // Conventional tripping current (x In)
+  thermalMinConstant: number; // k in t = k / (M^2 - 1) for the minimum (fast) band edge
+  thermalMaxConstant: number; // k in t = k / (M^2 - 1) for the maximum (slow) band edge
+  magneticMinMultiple: number; // Lowest instantaneous pickup (x In)
+  magneticMaxMultiple: number; // Highest instantaneous pickup (x In)
+}
+
+/**
+ * Library of generic thermal-magnetic breaker curves
+ * Thermal constants put the conventional currents at one hour (3600 s)
+ */
+export const BREAKER_CURVES: Record<BreakerCurveType, BreakerCurveDefinition> = {
+  B: {
+    type: 'B',
+    description: 'Miniature breaker, instantaneous 3-5 x In (resistive loads, long runs)',
+    thermalNoTripMultiple: 1.13,
+    thermalTripMultiple: 1.45,
+    thermalMinConstant: 3600 * (1.13 * 1.13 - 1),
+    thermalMaxConstant: 3600 * (1.45 * 1.45 - 1),
+    magneticMinMultiple: 3,
+    magneticMaxMultiple: 5
+  },
+  C: {
+    type: 'C',
+    description: 'Miniature breaker, instantaneous 5-10 x In (general purpose, lighting, receptacles)',
+    thermalNoTripMultiple: 1.13,
+    thermalTripMultiple: 1.45,
+    thermalMinConstant: 3600 * (1.13 * 1.13 - 1),
+    thermalMaxConstant: 3600 * (1.45 * 1.45 - 1),
+    magneticMinMultiple: 5,
+    magneticMaxMultiple: 10
+  },
+  D: {
+    type: 'D',
+    description: 'Miniature breaker, instantaneous 10-20 x In (motors, transformers)',
+    thermalNoTripMultiple: 1.13,
+    thermalTripMultiple: 1.45,
+    thermalMinConstant: 3600 * (1.13 * 1.13 - 1),
+    thermalMaxConstant: 3600 * (1.45 * 1.45 - 1),
+    magneticMinMultiple: 10,
+    magneticMaxMultiple: 20
+  },
+  MCCB: {
+    type: 'MCCB',
+    description: 'Molded case breaker, fixed instantaneous 8-12 x In (mains and feeders)',
+    thermalNoTripMultiple: 1.05,
+    thermalTripMultiple: 1.3,
+    thermalMinConstant: 3600 * (1.05 * 1.05 - 1),
+    thermalMaxConstant: 3600 * (1.3 * 1.3 - 1),
+    magneticMinMultiple: 8,
+    magneticMaxMultiple: 12
+  }
+};
+
+/**
+ * Instantaneous clearing time band in seconds
+ */
+export const INSTANTANEOUS_MIN_TIME = 0.005;
+export const INSTANTANEOUS_MAX_TIME = 0.025; // About 1.5 cycles at 60 Hz
+
+/**
+ * Time axis limits used when plotting curves
+ */
+export const TCC_MAX_TIME = 10000;
+
+/**
+ * Largest rating normally supplied as a miniature breaker
+ */
+const MINIATURE_BREAKER_MAX_RATING = 63;
+
+/**
+ * Interface for a protective device in the coordination study
+ */
+export interface ProtectiveDevice {
+  label: string;
+  rating: number; // A
+  curveType: BreakerCurveType;
+}
+
+/**
+ * Interface for the trip time band of a device at a given current
+ * Infinity means the device does not trip within that edge of the band
+ */
+export interface TripTimeBand {
+  minTime: number; // s
+  maxTime: number; // s
+}
+
+/**
+ * Interface for a TCC point
+ */
+export interface TCCPoint {
+  x: number; // Current in A
+  y: number; // Time in s
+}
+
+/**
+ * Interface for a plotted TCC band
+ */
+export interface TCCCurve {
+  device: ProtectiveDevice;
+  minCurve: TCCPoint[];
+  maxCurve: TCCPoint[];
+}
+
+/**
+ * Selectivity verdict between two devices in series
+ */
+export type SelectivityVerdict = 'selective' | 'partial' | 'not-selective';
+
+/**
+ * Interface for a selectivity check between an upstream and downstream device
+ */
+export interface SelectivityResult {
+  upstream: ProtectiveDevice;
+  downstream: ProtectiveDevice;
+  verdict: SelectivityVerdict;
+  selectivityLimit: number | null; // A, current above which both devices may trip; null when fully selective
+  maxFaultCurrent: number; // A, upper end of the evaluated range
+}
+
+/**
+ * Interface for a coordination pair in a panel
+ */
+export interface CoordinationPairResult extends SelectivityResult {
+  id: string;
+  level: 'branch' | 'main';
+  loadId?: string;
+  description: string;
+}
+
+/**
+ * Interface for the coordination study of a panel
+ */
+export interface PanelCoordinationResult {
+  panelId: string;
+  panelName: string;
+  maxFaultCurrentKA: number | null; // Null when no fault current was available
+  pairs: CoordinationPairResult[];
+  verdict: SelectivityVerdict | null; // Null when there are no device pairs to check
+  selectiveCount: number;
+  partialCount: number;
+  notSelectiveCount: number;
+  issues: string[];
+  recommendations: string[];
+}
+
+/**
+ * Options for the panel coordination study
+ */
+export interface CoordinationAnalysisOptions {
+  maxFaultCurrentKA?: number; // Overrides the schedule's available fault current
+  branchCurveType?: BreakerCurveType; // Overrides the default curve for branch breakers
+  mainCurveType?: BreakerCurveType;
+  feederCurveType?: BreakerCurveType;
+}
+
+/**
+ * Get the default curve type for a breaker rating
+ * @param rating Breaker rating in amperes
+ * @returns Curve type
+ */
+export function getDefaultCurveType(rating: number): BreakerCurveType {
+  return rating <= MINIATURE_BREAKER_MAX_RATING ? 'C' : 'MCCB';
+}
+
+/**
+ * Calculate the thermal (inverse-time) trip time
+ * @param constant Thermal constant of the band edge
+ * @param multiple Current as a multiple of the breaker rating
+ * @returns Time in seconds
+ */
+function thermalTripTime(constant: number, multiple: number): number {
+  return constant / (multiple * multiple - 1);
+}
+
+/**
+ * Get the trip time band of a device at a given current
+ * @param device Protective device
+ * @param current Current in amperes
+ * @returns Minimum and maximum trip times
+ */
+export function getTripTimeBand(device: ProtectiveDevice, current: number): TripTimeBand {
+  const curve = BREAKER_CURVES[device.curveType];
+  const multiple = current / device.rating;
+
+  let minTime = Infinity;
+  if (multiple >= curve.magneticMinMultiple) {
+    minTime = INSTANTANEOUS_MIN_TIME;
+  } else if (multiple > curve.thermalNoTripMultiple) {
+    minTime = thermalTripTime(curve.thermalMinConstant, multiple);
+  }
+
+  let maxTime = Infinity;
+  if (multiple >= curve.magneticMaxMultiple) {
+    maxTime = INSTANTANEOUS_MAX_TIME;
+  } else if (multiple >= curve.thermalTripMultiple) {
+    maxTime = thermalTripTime(curve.thermalMaxConstant, multiple);
+  }
+
+  return { minTime, maxTime };
+}
+
+/**
+ * Build one edge of a TCC band
+ * @param rating Breaker rating in amperes
+ * @param constant Thermal constant of the edge
+ * @param magneticMultiple Instantaneous pickup for the edge
+ * @param instantaneousTime Clearing time above the pickup
+ * @param maxCurrent Upper current limit of the plot
+ * @param points Number of points on the thermal section
+ */
+function buildCurveEdge(
+  rating: number,
+  constant: number,
+  magneticMultiple: number,
+  instantaneousTime: number,
+  maxCurrent: number,
+  points: number
+): TCCPoint[] {
+  // Thermal section starts where the curve crosses the top of the time axis
+  const startMultiple = Math.sqrt(constant / TCC_MAX_TIME + 1);
+  const curve: TCCPoint[] = [];
+
+  const logStart = Math.log10(startMultiple);
+  const logEnd = Math.log10(magneticMultiple);
+  for (let i = 0; i <= points; i++) {
+    const multiple = Math.pow(10, logStart + ((logEnd - logStart) * i) / points);
+    curve.push({ x: multiple * rating, y: thermalTripTime(constant, multiple) });
+  }
+
+  // Vertical drop at the instantaneous pickup, then flat to the end of the plot
+  curve.push({ x: magneticMultiple * rating, y: instantaneousTime });
+  curve.push({ x: Math.max(maxCurrent, magneticMultiple * rating), y: instantaneousTime });
+
+  return curve;
+}
+
+/**
+ * Generate the TCC band of a device for plotting on log-log axes
+ * @param device Protective device
+ * @param maxCurrent Upper current limit of the plot in amperes
+ * @param points Number of points on each thermal section
+ * @returns Minimum and maximum trip curves
+ */
+export function generateTCCCurve(device: ProtectiveDevice, maxCurrent: number, points: number = 30): TCCCurve {
+  const curve = BREAKER_CURVES[device.curveType];
+
+  return {
+    device,
+    minCurve: buildCurveEdge(
+      device.rating,
+      curve.thermalMinConstant,
+      curve.magneticMinMultiple,
+      INSTANTANEOUS_MIN_TIME,
+      maxCurrent,
+      points
+    ),
+    maxCurve: buildCurveEdge(
+      device.rating,
+      curve.thermalMaxConstant,
+      curve.magneticMaxMultiple,
+      INSTANTANEOUS_MAX_TIME,
+      maxCurrent,
+      points
+    )
+  };
+}
+
+/**
+ * Check selectivity between two devices in series
+ * The downstream device is selective at a current when it always clears
+ * before the upstream device can start to trip
+ * @param upstream Upstream (main or feeder) device
+ * @param downstream Downstream (branch) device
+ * @param maxFaultCurrent Maximum fault current at the downstream device in amperes
+ * @param points Number of currents evaluated on a log scale
+ * @returns Selectivity result
+ */
+export function checkSelectivity(
+  upstream: ProtectiveDevice,
+  downstream: ProtectiveDevice,
+  maxFaultCurrent: number,
+  points: number = 200
+): SelectivityResult {
+  if (upstream.rating <= 0 || downstream.rating <= 0) {
+    throw new Error('Breaker ratings must be greater than zero');
+  }
+
+  const baseResult = { upstream, downstream, maxFaultCurrent };
+
+  // An upstream device no larger than the downstream one overlaps in the overload range
+  if (upstream.rating <= downstream.rating) {
+    return { ...baseResult, verdict: 'not-selective', selectivityLimit: downstream.rating };
+  }
+
+  const downstreamCurve = BREAKER_CURVES[downstream.curveType];
+  const startCurrent = downstream.rating * downstreamCurve.thermalTripMultiple;
+  const endCurrent = Math.max(maxFaultCurrent, startCurrent);
+
+  const logStart = Math.log10(startCurrent);
+  const logEnd = Math.log10(endCurrent);
+  let selectivityLimit: number | null = null;
+
+  for (let i = 0; i <= points; i++) {
+    const current = Math.pow(10, logStart + ((logEnd - logStart) * i) / points);
+    const downstreamBand = getTripTimeBand(downstream, current);
+    const upstreamBand = getTripTimeBand(upstream, current);
+
+    if (downstreamBand.maxTime >= upstreamBand.minTime) {
+      selectivityLimit = current;
+      break;
+    }
+  }
+
+  if (selectivityLimit === null) {
+    return { ...baseResult, verdict: 'selective', selectivityLimit: null };
+  }
+
+  // Overlap before the downstream device is fully instantaneous means the
+  // bands cross in the overload or low-level fault range
+  const downstreamInstantaneous = downstream.rating * downstreamCurve.magneticMaxMultiple;
+  const verdict: SelectivityVerdict = selectivityLimit < downstreamInstantaneous ? 'not-selective' : 'partial';
+
+  return { ...baseResult, verdict, selectivityLimit };
+}
+
+/**
+ * Combine verdicts, keeping the worst one
+ * @param verdicts List of verdicts
+ * @returns Worst verdict, selective for an empty list
+ */
+export function getWorstVerdict(verdicts: SelectivityVerdict[]): SelectivityVerdict {
+  if (verdicts.includes('not-selective')) return 'not-selective';
+  if (verdicts.includes('partial')) return 'partial';
+  return 'selective';
+}
+
+/**
+ * Analyze coordination between the branch breakers, the main breaker and the
+ * feeder protection of a panel
+ * @param loadSchedule Load schedule of the panel
+ * @param options Analysis options
+ * @returns Panel coordination result
+ */
+export function analyzePanelCoordination(
+  loadSchedule: LoadSchedule,
+  options: CoordinationAnalysisOptions = {}
+): PanelCoordinationResult {
+  const issues: string[] = [];
+  const recommendations: string[] = [];
+  const pairs: CoordinationPairResult[] = [];
+
+  const mainRating = getBreakerSizeValue(loadSchedule.circuitBreaker || '');
+  const feederRating = getBreakerSizeValue(loadSchedule.feederProtectionSize || '');
+
+  const mainDevice: ProtectiveDevice | null = mainRating > 0
+    ? {
+        label: `Main ${mainRating}A`,
+        rating: mainRating,
+        curveType: options.mainCurveType || loadSchedule.breakerCurveType || getDefaultCurveType(mainRating)
+      }
+    : null;
+  const feederDevice: ProtectiveDevice | null = feederRating > 0
+    ? {
+        label: `Feeder ${feederRating}A`,
+        rating: feederRating,
+        curveType: options.feederCurveType || loadSchedule.feederProtectionCurveType || getDefaultCurveType(feederRating)
+      }
+    : null;
+
+  // Branch breakers coordinate with the main breaker, or the feeder protection when there is no main
+  const branchUpstream = mainDevice || feederDevice;
+
+  if (!branchUpstream) {
+    issues.push('No main breaker or feeder protection is defined for the panel');
+    recommendations.push('Enter the panel main breaker or feeder protection size to run the coordination study');
+  }
+
+  const maxFaultCurrentKA = options.maxFaultCurrentKA ?? loadSchedule.availableFaultCurrentKA ?? null;
+  if (maxFaultCurrentKA === null && branchUpstream) {
+    recommendations.push(
+      'Available fault current is not known; selectivity was checked up to the typical interrupting rating of each upstream breaker. Run the short-circuit analysis for a panel-specific result'
+    );
+  }
+
+  // Without a fault level, evaluate up to what the upstream device is typically rated to interrupt
+  const getMaxFaultCurrent = (upstream: ProtectiveDevice) =>
+    (maxFaultCurrentKA ?? getTypicalInterruptingRating(upstream.rating)) * 1000;
+
+  if (branchUpstream) {
+    loadSchedule.loads.forEach(load => {
+      const rating = getBreakerSizeValue(load.circuitBreaker || '');
+      if (rating <= 0) return;
+
+      const downstream: ProtectiveDevice = {
+        label: `${load.description} ${rating}A`,
+        rating,
+        curveType: load.breakerCurveType || options.branchCurveType || getDefaultCurveType(rating)
+      };
+
+      pairs.push({
+        ...checkSelectivity(branchUpstream, downstream, getMaxFaultCurrent(branchUpstream)),
+        id: `branch-${load.id}`,
+        level: 'branch',
+        loadId: load.id,
+        description: load.description
+      });
+    });
+  }
+
+  if (mainDevice && feederDevice) {
+    pairs.push({
+      ...checkSelectivity(feederDevice, mainDevice, getMaxFaultCurrent(feederDevice)),
+      id: 'main',
+      level: 'main',
+      description: `${loadSchedule.panelName} main breaker`
+    });
+  }
+
+  const selectiveCount = pairs.filter(pair => pair.verdict === 'selective').length;
+  const partialCount = pairs.filter(pair => pair.verdict === 'partial').length;
+  const notSelectiveCount = pairs.filter(pair => pair.verdict === 'not-selective').length;
+
+  pairs
+    .filter(pair => pair.verdict === 'not-selective')
+    .forEach(pair => {
+      issues.push(
+        `${pair.description}: ${pair.downstream.rating}A breaker does not coordinate with the ${pair.upstream.rating}A upstream breaker`
+      );
+    });
+
+  if (notSelectiveCount > 0) {
+    recommendations.push(
+      'Increase the upstream breaker rating or use a lower curve type (B or C) on the affected branch circuits'
+    );
+  }
+
+  if (partialCount > 0) {
+    recommendations.push(
+      'Partial selectivity is typical for thermal-magnetic breakers in series; where full selectivity is required, use manufacturer-tested selective combinations or an upstream breaker with short-time delay'
+    );
+  }
+
+  if (pairs.length === 0 && branchUpstream) {
+    recommendations.push('Enter branch circuit breaker sizes to run the coordination study');
+  }
+
+  return {
+    panelId: loadSchedule.id,
+    panelName: loadSchedule.panelName,
+    maxFaultCurrentKA,
+    pairs,
+    verdict: pairs.length > 0 ? getWorstVerdict(pairs.map(pair => pair.verdict)) : null,
+    selectiveCount,
+    partialCount,
+    notSelectiveCount,
+    issues,
+    recommendations
+  };
+}
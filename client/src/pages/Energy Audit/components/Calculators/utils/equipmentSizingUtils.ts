@@ -0,0 +1,447 @@
+/**
+ * Transformer and Generator Sizing Utilities
+ *
+ * This module provides utility functions for rolling up the demand of a building's
+ * load schedules, recommending a standard service transformer and standby generator
+ * rating, and estimating transformer losses and efficiency over the daily occupancy profile
+ */
+
+import { LoadItem, LoadSchedule } from '../ScheduleOfLoads/types';
+
+/**
+ * Hours in the daily load profile
+ */
+const HOURS_PER_DAY = 24;
+
+/**
+ * Standard distribution transformer ratings in kVA
+ */
+export const STANDARD_TRANSFORMER_KVA: Record<'single-phase' | 'three-phase', number[]> = {
+  'single-phase': [5, 10, 15, 25, 37.5, 50, 75, 100, 167, 250, 333, 500],
+  'three-phase': [15, 30, 45, 75, 112.5, 150, 225, 300, 500, 750, 1000, 1500, 2000, 2500, 3000]
+};
+
+/**
+ * Standard standby generator ratings in kVA at 0.8 power factor
+ */
+export const STANDARD_GENERATOR_KVA = [
+  10, 15, 20, 25, 30, 40, 50, 60, 80, 100, 125, 150, 175, 200, 250, 300, 350,
+  400, 500, 625, 750, 800, 1000, 1250, 1500, 1875, 2000, 2500
+];
+
+/**
+ * Interface for the demand of one panel in the building roll-up
+ */
+export interface PanelDemandSummary {
+  panelId: string;
+  panelName: string;
+  demandLoad: number; // W
+  powerFactor: number;
+  demandKVA: number;
+  hasOccupancyProfile: boolean;
+}
+
+/**
+ * Interface for the aggregated building demand
+ */
+export interface BuildingDemandResult {
+  panels: PanelDemandSummary[];
+  totalDemandKW: number; // Sum of panel demands
+  totalDemandKVA: number;
+  diversityFactor: number; // Coincidence multiplier applied to the sum (1.0 = no diversity)
+  coincidentDemandKW: number;
+  coincidentDemandKVA: number;
+  powerFactor: number; // Combined power factor
+  hourlyLoadKVA: number[]; // Building load for each hour of the day
+}
+
+/**
+ * Interface for a motor considered in the generator starting step
+ */
+export interface MotorStartingLoad {
+  loadId: string;
+  panelName: string;
+  description: string;
+  runningKVA: number;
+  startingKVA: number;
+}
+
+/**
+ * Interface for transformer sizing results
+ */
+export interface TransformerSizingResult {
+  phaseConfiguration: 'single-phase' | 'three-phase';
+  requiredKVA: number; // Coincident demand with growth margin
+  recommendedKVA: number | null; // Null when above the largest standard rating
+  loadingPercent: number | null; // Coincident demand / recommended rating
+  noLoadLoss: number; // W
+  fullLoadLoss: number; // W
+  fullLoadEfficiencyPercent: number | null;
+  dailyEnergyDeliveredKWh: number;
+  dailyLossKWh: number;
+  annualLossKWh: number;
+  allDayEfficiencyPercent: number | null;
+}
+
+/**
+ * Interface for generator sizing results
+ */
+export interface GeneratorSizingResult {
+  runningKVA: number;
+  runningKW: number;
+  largestMotor: MotorStartingLoad | null;
+  requiredKVAForRunning: number;
+  requiredKVAForStarting: number;
+  requiredKVA: number;
+  recommendedKVA: number | null; // Null when above the largest standard rating
+  recommendedKW: number | null;
+  startingVoltageDipPercent: number | null; // Dip while the largest motor starts on the recommended set
+}
+
+/**
+ * Interface for the building sizing sheet
+ */
+export interface BuildingSizingResult {
+  demand: BuildingDemandResult;
+  transformer: TransformerSizingResult;
+  generator: GeneratorSizingResult;
+  options: Required<BuildingSizingOptions>;
+  issues: string[];
+  recommendations: string[];
+}
+
+/**
+ * Options for building transformer and generator sizing
+ */
+export interface BuildingSizingOptions {
+  diversityFactor?: number; // Default 1.0
+  phaseConfiguration?: 'single-phase' | 'three-phase'; // Default three-phase
+  growthMarginPercent?: number; // Spare capacity, default 25%
+  noLoadLossPercent?: number; // Transformer core loss, % of rated kVA, default 0.25%
+  loadLossPercent?: number; // Transformer winding loss at rated load, % of rated kVA, default 1.2%
+  generatorPowerFactor?: number; // Default 0.8
+  subtransientReactance?: number; // Generator Xd'' in per unit, default 0.15
+  maxGeneratorVoltageDipPercent?: number; // Default 15%
+}
+
+/**
+ * Get the next standard rating at or above a required value
+ * @param required Required rating
+ * @param ratings Standard ratings, smallest to largest
+ * @returns Standard rating, or null when the requirement exceeds the largest rating
+ */
+export function getNextStandardRating(required: number, ratings: number[]): number | null {
+  return ratings.find(rating => rating >= required) ?? null;
+}
+
+/**
+ * Get a panel's load factor for each hour of the day from its occupancy factors
+ * Keys are parsed as hours ("8", "08" or "08:00"); hours without a factor, or all
+ * hours when the panel has no profile, are taken at full demand
+ * @param loadSchedule Load schedule (panel)
+ * @returns 24 hourly factors between 0 and 1
+ */
+export function getHourlyLoadFactors(loadSchedule: LoadSchedule): number[] {
+  const factors = new Array(HOURS_PER_DAY).fill(1);
+
+  Object.entries(loadSchedule.occupancyFactors || {}).forEach(([key, value]) => {
+    const hour = parseInt(key, 10);
+    if (hour >= 0 && hour < HOURS_PER_DAY && Number.isFinite(value)) {
+      factors[hour] = Math.min(1, Math.max(0, value));
+    }
+  });
+
+  return factors;
+}
+
+/**
+ * Aggregate the demand of a building's load schedules
+ * @param loadSchedules Load schedules (panels) to include
+ * @param diversityFactor Coincidence multiplier applied to the sum of panel demands
+ * @returns Building demand
+ */
+export function aggregateBuildingDemand(loadSchedules: LoadSchedule[], diversityFactor: number = 1.0): BuildingDemandResult {
+  if (diversityFactor <= 0 || diversityFactor > 1) {
+    throw new Error('Diversity factor must be greater than 0 and at most 1');
+  }
+
+  const panels: PanelDemandSummary[] = loadSchedules.map(loadSchedule => {
+    const powerFactor = loadSchedule.powerFactor > 0 ? loadSchedule.powerFactor : 1;
+    return {
+      panelId: loadSchedule.id,
+      panelName: loadSchedule.panelName,
+      demandLoad: loadSchedule.totalDemandLoad,
+      powerFactor,
+      demandKVA: loadSchedule.totalDemandLoad / powerFactor / 1000,
+      hasOccupancyProfile: Object.keys(loadSchedule.occupancyFactors || {}).length > 0
+    };
+  });
+
+  const totalDemandKW = panels.reduce((sum, panel) => sum + panel.demandLoad, 0) / 1000;
+  const totalDemandKVA = panels.reduce((sum, panel) => sum + panel.demandKVA, 0);
+
+  const hourlyLoadKVA = new Array(HOURS_PER_DAY).fill(0);
+  loadSchedules.forEach((loadSchedule, index) => {
+    getHourlyLoadFactors(loadSchedule).forEach((factor, hour) => {
+      hourlyLoadKVA[hour] += panels[index].demandKVA * factor * diversityFactor;
+    });
+  });
+
+  return {
+    panels,
+    totalDemandKW,
+    totalDemandKVA,
+    diversityFactor,
+    coincidentDemandKW: totalDemandKW * diversityFactor,
+    coincidentDemandKVA: totalDemandKVA * diversityFactor,
+    powerFactor: totalDemandKVA > 0 ? totalDemandKW / totalDemandKVA : 1,
+    hourlyLoadKVA
+  };
+}
+
+/**
+ * Estimate the running and starting kVA of a motor load
+ * Uses the motor calculator's full-load current when available, otherwise the load
+ * item's current; starting current uses the load's starting current multiplier (default 6)
+ * @param loadItem Motor load item
+ * @param loadSchedule Panel feeding the motor
+ * @returns Running and starting kVA
+ */
+export function getMotorStartingLoad(loadItem: LoadItem, loadSchedule: LoadSchedule): MotorStartingLoad {
+  const voltage = loadSchedule.voltage;
+  const isThreePhase = loadItem.circuitDetails
+    ? loadItem.circuitDetails.poles === 3
+    : loadSchedule.phaseConfiguration === 'three-phase';
+  const phaseMultiplier = isThreePhase ? Math.sqrt(3) : 1;
+
+  const runningCurrent = loadItem.motorDetails?.fullLoadCurrent
+    ?? loadItem.current
+    ?? loadItem.connectedLoad / (phaseMultiplier * voltage * (loadSchedule.powerFactor || 1));
+  const startingMultiplier = loadItem.startingCurrentMultiplier
+    ?? loadItem.motorDetails?.lockedRotorMultiplier
+    ?? 6;
+
+  const runningKVA = phaseMultiplier * voltage * runningCurrent / 1000;
+
+  return {
+    loadId: loadItem.id,
+    panelName: loadSchedule.panelName,
+    description: loadItem.description,
+    runningKVA,
+    startingKVA: runningKVA * startingMultiplier
+  };
+}
+
+/**
+ * Size the service transformer and estimate its losses over the daily load profile
+ *
+ * Losses are the core loss plus the winding loss scaled by the square of the per-unit
+ * load for each hour; all-day efficiency is the energy delivered over energy delivered
+ * plus losses
+ *
+ * @param demand Aggregated building demand
+ * @param options Sizing options
+ * @returns Transformer sizing result
+ */
+export function sizeTransformer(
+  demand: BuildingDemandResult,
+  options: BuildingSizingOptions = {}
+): TransformerSizingResult {
+  const {
+    phaseConfiguration = 'three-phase',
+    growthMarginPercent = 25,
+    noLoadLossPercent = 0.25,
+    loadLossPercent = 1.2
+  } = options;
+
+  const requiredKVA = demand.coincidentDemandKVA * (1 + growthMarginPercent / 100);
+  const recommendedKVA = getNextStandardRating(requiredKVA, STANDARD_TRANSFORMER_KVA[phaseConfiguration]);
+
+  if (!recommendedKVA) {
+    return {
+      phaseConfiguration,
+      requiredKVA,
+      recommendedKVA: null,
+      loadingPercent: null,
+      noLoadLoss: 0,
+      fullLoadLoss: 0,
+      fullLoadEfficiencyPercent: null,
+      dailyEnergyDeliveredKWh: 0,
+      dailyLossKWh: 0,
+      annualLossKWh: 0,
+      allDayEfficiencyPercent: null
+    };
+  }
+
+  const noLoadLoss = recommendedKVA * 1000 * noLoadLossPercent / 100;
+  const fullLoadLoss = recommendedKVA * 1000 * loadLossPercent / 100;
+  const ratedOutput = recommendedKVA * 1000 * demand.powerFactor;
+
+  let dailyEnergyDeliveredKWh = 0;
+  let dailyLossKWh = 0;
+  demand.hourlyLoadKVA.forEach(loadKVA => {
+    const perUnitLoad = loadKVA / recommendedKVA;
+    dailyEnergyDeliveredKWh += loadKVA * demand.powerFactor;
+    dailyLossKWh += (noLoadLoss + fullLoadLoss * perUnitLoad * perUnitLoad) / 1000;
+  });
+
+  return {
+    phaseConfiguration,
+    requiredKVA,
+    recommendedKVA,
+    loadingPercent: (demand.coincidentDemandKVA / recommendedKVA) * 100,
+    noLoadLoss,
+    fullLoadLoss,
+    fullLoadEfficiencyPercent: (ratedOutput / (ratedOutput + noLoadLoss + fullLoadLoss)) * 100,
+    dailyEnergyDeliveredKWh,
+    dailyLossKWh,
+    annualLossKWh: dailyLossKWh * 365,
+    allDayEfficiencyPercent: dailyEnergyDeliveredKWh > 0
+      ? (dailyEnergyDeliveredKWh / (dailyEnergyDeliveredKWh + dailyLossKWh)) * 100
+      : null
+  };
+}
+
+/**
+ * Size a standby generator for the running load and the largest motor starting step
+ *
+ * The starting motor is a locked-rotor impedance across the generator's subtransient
+ * reactance, so the dip is Xd''·S / (Xd''·S + G) for a starting kVA S on a generator
+ * of G kVA; the set must be at least Xd''·S·(1 − d) / d for a dip limit d
+ *
+ * @param demand Aggregated building demand
+ * @param motors Motor loads supplied by the generator
+ * @param options Sizing options
+ * @returns Generator sizing result
+ */
+export function sizeGenerator(
+  demand: BuildingDemandResult,
+  motors: MotorStartingLoad[],
+  options: BuildingSizingOptions = {}
+): GeneratorSizingResult {
+  const {
+    growthMarginPercent = 25,
+    generatorPowerFactor = 0.8,
+    subtransientReactance = 0.15,
+    maxGeneratorVoltageDipPercent = 15
+  } = options;
+
+  if (maxGeneratorVoltageDipPercent <= 0 || maxGeneratorVoltageDipPercent >= 100) {
+    throw new Error('Generator voltage dip limit must be between 0 and 100 percent');
+  }
+
+  const runningKVA = demand.coincidentDemandKVA;
+  const runningKW = demand.coincidentDemandKW;
+
+  // The set must carry both the running kVA and the running kW at its rated power factor
+  const requiredKVAForRunning = Math.max(runningKVA, runningKW / generatorPowerFactor) * (1 + growthMarginPercent / 100);
+
+  const largestMotor = motors.reduce<MotorStartingLoad | null>(
+    (largest, motor) => (!largest || motor.startingKVA > largest.startingKVA ? motor : largest),
+    null
+  );
+
+  const dipLimit = maxGeneratorVoltageDipPercent / 100;
+  const requiredKVAForStarting = largestMotor
+    ? subtransientReactance * largestMotor.startingKVA * (1 - dipLimit) / dipLimit
+    : 0;
+
+  const requiredKVA = Math.max(requiredKVAForRunning, requiredKVAForStarting);
+  const recommendedKVA = getNextStandardRating(requiredKVA, STANDARD_GENERATOR_KVA);
+
+  let startingVoltageDipPercent: number | null = null;
+  if (largestMotor && recommendedKVA) {
+    const startingReactanceKVA = subtransientReactance * largestMotor.startingKVA;
+    startingVoltageDipPercent = (startingReactanceKVA / (startingReactanceKVA + recommendedKVA)) * 100;
+  }
+
+  return {
+    runningKVA,
+    runningKW,
+    largestMotor,
+    requiredKVAForRunning,
+    requiredKVAForStarting,
+    requiredKVA,
+    recommendedKVA,
+    recommendedKW: recommendedKVA ? recommendedKVA * generatorPowerFactor : null,
+    startingVoltageDipPercent
+  };
+}
+
+/**
+ * Produce the transformer and generator sizing sheet for a building
+ * @param loadSchedules Load schedules (panels) supplied by the service
+ * @param options Sizing options
+ * @returns Building sizing result
+ */
+export function sizeBuildingEquipment(
+  loadSchedules: LoadSchedule[],
+  options: BuildingSizingOptions = {}
+): BuildingSizingResult {
+  if (loadSchedules.length === 0) {
+    throw new Error('Select at least one load schedule to size the service equipment');
+  }
+
+  const resolvedOptions: Required<BuildingSizingOptions> = {
+    diversityFactor: options.diversityFactor ?? 1.0,
+    phaseConfiguration: options.phaseConfiguration ?? 'three-phase',
+    growthMarginPercent: options.growthMarginPercent ?? 25,
+    noLoadLossPercent: options.noLoadLossPercent ?? 0.25,
+    loadLossPercent: options.loadLossPercent ?? 1.2,
+    generatorPowerFactor: options.generatorPowerFactor ?? 0.8,
+    subtransientReactance: options.subtransientReactance ?? 0.15,
+    maxGeneratorVoltageDipPercent: options.maxGeneratorVoltageDipPercent ?? 15
+  };
+
+  const demand = aggregateBuildingDemand(loadSchedules, resolvedOptions.diversityFactor);
+
+  const motors = loadSchedules.flatMap(loadSchedule =>
+    loadSchedule.loads
+      .filter(load => load.motorDetails || load.circuitDetails?.type === 'motor')
+      .map(load => getMotorStartingLoad(load, loadSchedule))
+  );
+
+  const transformer = sizeTransformer(demand, resolvedOptions);
+  const generator = sizeGenerator(demand, motors, resolvedOptions);
+
+  const issues: string[] = [];
+  const recommendations: string[] = [];
+
+  if (!transformer.recommendedKVA) {
+    issues.push(
+      `Required transformer capacity of ${transformer.requiredKVA.toFixed(0)} kVA exceeds the largest standard ${resolvedOptions.phaseConfiguration} rating; split the service across multiple transformers`
+    );
+  }
+
+  if (!generator.recommendedKVA) {
+    issues.push(
+      `Required generator capacity of ${generator.requiredKVA.toFixed(0)} kVA exceeds the largest standard rating; consider paralleled generator sets`
+    );
+  } else if (generator.largestMotor && generator.requiredKVAForStarting > generator.requiredKVAForRunning) {
+    recommendations.push(
+      `Generator size is set by starting ${generator.largestMotor.description} (${generator.largestMotor.startingKVA.toFixed(0)} kVA); a reduced-voltage starter or VFD would allow a smaller set`
+    );
+  }
+
+  const panelsWithoutProfile = demand.panels.filter(panel => !panel.hasOccupancyProfile);
+  if (panelsWithoutProfile.length > 0) {
+    recommendations.push(
+      `No occupancy profile for ${panelsWithoutProfile.map(panel => panel.panelName).join(', ')}; transformer losses assume full demand around the clock`
+    );
+  }
+
+  if (demand.powerFactor < 0.85) {
+    recommendations.push(
+      `Combined power factor is ${demand.powerFactor.toFixed(2)}; power factor correction would reduce the required kVA`
+    );
+  }
+
+  return {
+    demand,
+    transformer,
+    generator,
+    options: resolvedOptions,
+    issues,
+    recommendations
+  };
+}
@@ -0,0 +1,503 @@
+/**
+ * Grounding Conductor Sizing Utilities
+ *
+ * This module provides utility functions for sizing equipment grounding conductors (EGC)
+ * per PEC 2017 Table 2.50.122 and grounding electrode conductors (GEC) per PEC 2017
+ * Table 2.50.66, including the proportional EGC increase of Section 2.50.122(B) when
+ * the phase conductors are upsized for voltage drop
+ */
+
+import { LoadItem, LoadSchedule, CONDUCTOR_SIZE_OPTIONS } from '../ScheduleOfLoads/types';
+import { getBreakerSizeValue, getConductorAmpacity } from './pecComplianceUtils';
+import { getConductorCircularMils } from './shortCircuitUtils';
+
+/**
+ * Conductor sizes available for grounding conductors, smallest to largest
+ * Extends the phase conductor options with the larger sizes used in Table 2.50.122
+ */
+export const GROUNDING_CONDUCTOR_SIZES = [
+  ...CONDUCTOR_SIZE_OPTIONS,
+  '800 kcmil', '900 kcmil', '1000 kcmil', '1200 kcmil'
+];
+
+/**
+ * Minimum EGC size based on the rating of the overcurrent device ahead of the circuit
+ * per PEC 2017 Table 2.50.122
+ */
+export const EGC_SIZE_TABLE: { maxRating: number; copper: string; aluminum: string }[] = [
+  { maxRating: 15, copper: '14 AWG', aluminum: '12 AWG' },
+  { maxRating: 20, copper: '12 AWG', aluminum: '10 AWG' },
+  { maxRating: 60, copper: '10 AWG', aluminum: '8 AWG' },
+  { maxRating: 100, copper: '8 AWG', aluminum: '6 AWG' },
+  { maxRating: 200, copper: '6 AWG', aluminum: '4 AWG' },
+  { maxRating: 300, copper: '4 AWG', aluminum: '2 AWG' },
+  { maxRating: 400, copper: '3 AWG', aluminum: '1 AWG' },
+  { maxRating: 500, copper: '2 AWG', aluminum: '1/0 AWG' },
+  { maxRating: 600, copper: '1 AWG', aluminum: '2/0 AWG' },
+  { maxRating: 800, copper: '1/0 AWG', aluminum: '3/0 AWG' },
+  { maxRating: 1000, copper: '2/0 AWG', aluminum: '4/0 AWG' },
+  { maxRating: 1200, copper: '3/0 AWG', aluminum: '250 kcmil' },
+  { maxRating: 1600, copper: '4/0 AWG', aluminum: '350 kcmil' },
+  { maxRating: 2000, copper: '250 kcmil', aluminum: '400 kcmil' },
+  { maxRating: 2500, copper: '350 kcmil', aluminum: '600 kcmil' },
+  { maxRating: 3000, copper: '400 kcmil', aluminum: '600 kcmil' },
+  { maxRating: 4000, copper: '500 kcmil', aluminum: '750 kcmil' },
+  { maxRating: 5000, copper: '700 kcmil', aluminum: '1200 kcmil' },
+  { maxRating: 6000, copper: '800 kcmil', aluminum: '1200 kcmil' }
+];
+
+/**
+ * GEC size based on the area of the largest ungrounded service-entrance conductor
+ * per PEC 2017 Table 2.50.66; each row applies up to the copper or aluminum service
+ * conductor area in circular mils
+ */
+export const GEC_SIZE_TABLE: {
+  maxCopperCircularMils: number;
+  maxAluminumCircularMils: number;
+  copper: string;
+  aluminum: string;
+}[] = [
+  { maxCopperCircularMils: 66360, maxAluminumCircularMils: 105600, copper: '8 AWG', aluminum: '6 AWG' }, // 2 AWG Cu / 1/0 AWG Al or smaller
+  { maxCopperCircularMils: 105600, maxAluminumCircularMils: 167800, copper: '6 AWG', aluminum: '4 AWG' }, // 1/0 AWG Cu / 3/0 AWG Al
+  { maxCopperCircularMils: 167800, maxAluminumCircularMils: 250000, copper: '4 AWG', aluminum: '2 AWG' }, // 3/0 AWG Cu / 250 kcmil Al
+  { maxCopperCircularMils: 350000, maxAluminumCircularMils: 500000, copper: '2 AWG', aluminum: '1/0 AWG' },
+  { maxCopperCircularMils: 600000, maxAluminumCircularMils: 900000, copper: '1/0 AWG', aluminum: '3/0 AWG' },
+  { maxCopperCircularMils: 1100000, maxAluminumCircularMils: 1750000, copper: '2/0 AWG', aluminum: '4/0 AWG' },
+  { maxCopperCircularMils: Infinity, maxAluminumCircularMils: Infinity, copper: '3/0 AWG', aluminum: '250 kcmil' }
+];
+
+/**
+ * Largest GEC required for the sole connection to each electrode type per PEC 2017 Section 2.50.66(A)-(C)
+ */
+const ELECTRODE_GEC_LIMITS: Record<GroundingElectrodeType, { copper: string; aluminum: string } | null> = {
+  'rod': { copper: '6 AWG', aluminum: '4 AWG' },
+  'concrete-encased': { copper: '4 AWG', aluminum: '4 AWG' },
+  'ground-ring': null, // Need not be larger than the ring conductor
+  'water-pipe': null,
+  'building-steel': null
+};
+
+export type ConductorMaterial = 'copper' | 'aluminum';
+
+export type GroundingElectrodeType = 'rod' | 'concrete-encased' | 'ground-ring' | 'water-pipe' | 'building-steel';
+
+/**
+ * Interface for an equipment grounding conductor sizing result
+ */
+export interface EGCSizingResult {
+  overcurrentDeviceRating: number; // A
+  phaseConductorSize: string; // Installed (or voltage-drop optimized) phase conductor
+  minimumPhaseConductorSize: string; // Smallest phase conductor for the overcurrent device
+  tableEGCSize: string; // Table 2.50.122 size
+  requiredEGCSize: string; // After the proportional increase
+  upsizeRatio: number; // Phase conductor area / minimum phase conductor area
+  isUpsized: boolean;
+  material: ConductorMaterial;
+}
+
+/**
+ * Interface for a grounding electrode conductor sizing result
+ */
+export interface GECSizingResult {
+  serviceConductorSize: string;
+  parallelSets: number;
+  equivalentCircularMils: number;
+  requiredGECSize: string;
+  electrodeType: GroundingElectrodeType;
+  isLimitedByElectrode: boolean;
+  material: ConductorMaterial;
+}
+
+/**
+ * Interface for the grounding sizing of a load item
+ */
+export interface LoadItemGroundingResult {
+  loadId: string;
+  description: string;
+  egc: EGCSizingResult | null; // Null when the load has no breaker or conductor
+  installedEGCSize?: string;
+  isCompliant: boolean;
+  issues: string[];
+}
+
+/**
+ * Interface for the grounding study of a panel
+ */
+export interface PanelGroundingResult {
+  panelId: string;
+  panelName: string;
+  feederEGC: EGCSizingResult | null;
+  gec: GECSizingResult | null; // Only when the panel is service equipment
+  loadResults: LoadItemGroundingResult[];
+  isCompliant: boolean;
+  issues: string[];
+  recommendations: string[];
+}
+
+/**
+ * Options for the panel grounding study
+ */
+export interface GroundingAnalysisOptions {
+  egcMaterial?: ConductorMaterial; // Default copper
+  gecMaterial?: ConductorMaterial; // Default copper
+  isServiceEquipment?: boolean; // Size a GEC from the panel feeder, default false
+  electrodeType?: GroundingElectrodeType; // Default rod
+  useOptimalConductorSize?: boolean; // Treat a larger voltage-drop optimized size as installed, default true
+}
+
+/**
+ * Normalize a conductor size to the labels used by the schedule of loads
+ * @param conductorSize Conductor size (e.g., "250 MCM", "250 kcmil", "12 AWG")
+ * @returns Size label or the original string when not recognized
+ */
+export function normalizeConductorSize(conductorSize: string): string {
+  return conductorSize.trim().replace(/\s*MCM$/i, ' kcmil');
+}
+
+/**
+ * Get the smallest standard grounding conductor size with at least the given area
+ * @param circularMils Required area in circular mils
+ * @returns Conductor size, or the largest size when the area exceeds all sizes
+ */
+export function getNextConductorSizeByArea(circularMils: number): string {
+  for (const size of GROUNDING_CONDUCTOR_SIZES) {
+    if (getConductorCircularMils(size) >= circularMils) {
+      return size;
+    }
+  }
+  return GROUNDING_CONDUCTOR_SIZES[GROUNDING_CONDUCTOR_SIZES.length - 1];
+}
+
+/**
+ * Get the Table 2.50.122 EGC size for an overcurrent device rating
+ * @param rating Overcurrent device rating in amperes
+ * @param material EGC material
+ * @returns EGC size
+ */
+export function getTableEGCSize(rating: number, material: ConductorMaterial = 'copper'): string {
+  if (rating <= 0) {
+    throw new Error('Overcurrent device rating must be greater than zero');
+  }
+
+  const row = EGC_SIZE_TABLE.find(entry => rating <= entry.maxRating) || EGC_SIZE_TABLE[EGC_SIZE_TABLE.length - 1];
+  return row[material];
+}
+
+/**
+ * Get the smallest phase conductor with ampacity for the overcurrent device
+ * @param rating Overcurrent device rating in amperes
+ * @param material Phase conductor material
+ * @returns Conductor size, or the largest size when no conductor is large enough
+ */
+export function getMinimumPhaseConductorSize(rating: number, material: ConductorMaterial = 'copper'): string {
+  const candidates = CONDUCTOR_SIZE_OPTIONS.filter(size => getConductorAmpacity(size, material) > 0);
+  return candidates.find(size => getConductorAmpacity(size, material) >= rating) || candidates[candidates.length - 1];
+}
+
+/**
+ * Size an equipment grounding conductor per PEC 2017 Section 2.50.122
+ * When the phase conductors are larger than the minimum for the overcurrent device,
+ * the EGC is increased in proportion to their circular mil area
+ * @param rating Overcurrent device rating in amperes
+ * @param phaseConductorSize Installed phase conductor size
+ * @param phaseMaterial Phase conductor material
+ * @param egcMaterial EGC material
+ * @returns EGC sizing result
+ */
+export function calculateEGCSize(
+  rating: number,
+  phaseConductorSize: string,
+  phaseMaterial: ConductorMaterial = 'copper',
+  egcMaterial: ConductorMaterial = phaseMaterial
+): EGCSizingResult {
+  const phaseCircularMils = getConductorCircularMils(phaseConductorSize);
+  if (!phaseCircularMils) {
+    throw new Error(`Invalid conductor size: ${phaseConductorSize}`);
+  }
+
+  const tableEGCSize = getTableEGCSize(rating, egcMaterial);
+  const minimumPhaseConductorSize = getMinimumPhaseConductorSize(rating, phaseMaterial);
+  const minimumCircularMils = getConductorCircularMils(minimumPhaseConductorSize);
+
+  const upsizeRatio = Math.max(1, phaseCircularMils / minimumCircularMils);
+  let requiredEGCSize = tableEGCSize;
+
+  if (upsizeRatio > 1) {
+    requiredEGCSize = getNextConductorSizeByArea(getConductorCircularMils(tableEGCSize) * upsizeRatio);
+  }
+
+  // The EGC need not be larger than the circuit conductors (Section 2.50.122(A))
+  if (phaseMaterial === egcMaterial && getConductorCircularMils(requiredEGCSize) > phaseCircularMils) {
+    requiredEGCSize = normalizeConductorSize(phaseConductorSize);
+  }
+
+  return {
+    overcurrentDeviceRating: rating,
+    phaseConductorSize: normalizeConductorSize(phaseConductorSize),
+    minimumPhaseConductorSize,
+    tableEGCSize,
+    requiredEGCSize,
+    upsizeRatio,
+    isUpsized: getConductorCircularMils(requiredEGCSize) > getConductorCircularMils(tableEGCSize),
+    material: egcMaterial
+  };
+}
+
+/**
+ * Size a grounding electrode conductor per PEC 2017 Section 2.50.66
+ * @param serviceConductorSize Largest ungrounded service-entrance conductor
+ * @param serviceMaterial Service conductor material
+ * @param gecMaterial GEC material
+ * @param parallelSets Number of parallel service conductor sets
+ * @param electrodeType Electrode the GEC connects to
+ * @returns GEC sizing result
+ */
+export function calculateGECSize(
+  serviceConductorSize: string,
+  serviceMaterial: ConductorMaterial = 'copper',
+  gecMaterial: ConductorMaterial = 'copper',
+  parallelSets: number = 1,
+  electrodeType: GroundingElectrodeType = 'rod'
+): GECSizingResult {
+  const circularMils = getConductorCircularMils(serviceConductorSize);
+  if (!circularMils) {
+    throw new Error(`Invalid conductor size: ${serviceConductorSize}`);
+  }
+
+  // Parallel sets are sized on their equivalent area
+  const equivalentCircularMils = circularMils * Math.max(1, parallelSets);
+
+  // The row is selected by the service conductor material, the column by the GEC material
+  const row = GEC_SIZE_TABLE.find(entry =>
+    equivalentCircularMils <= (serviceMaterial === 'copper' ? entry.maxCopperCircularMils : entry.maxAluminumCircularMils)
+  ) || GEC_SIZE_TABLE[GEC_SIZE_TABLE.length - 1];
+  let requiredGECSize = row[gecMaterial];
+
+  let isLimitedByElectrode = false;
+  const electrodeLimit = ELECTRODE_GEC_LIMITS[electrodeType];
+  if (electrodeLimit && getConductorCircularMils(requiredGECSize) > getConductorCircularMils(electrodeLimit[gecMaterial])) {
+    requiredGECSize = electrodeLimit[gecMaterial];
+    isLimitedByElectrode = true;
+  }
+
+  return {
+    serviceConductorSize: normalizeConductorSize(serviceConductorSize),
+    parallelSets: Math.max(1, parallelSets),
+    equivalentCircularMils,
+    requiredGECSize,
+    electrodeType,
+    isLimitedByElectrode,
+    material: gecMaterial
+  };
+}
+
+/**
+ * Get the phase conductor material of a load item from its wire type
+ * @param loadItem Load item
+ * @returns Conductor material, copper when not specified
+ */
+function getLoadItemMaterial(loadItem: LoadItem): ConductorMaterial {
+  return loadItem.circuitDetails?.wireType.includes('ALUMINUM') ? 'aluminum' : 'copper';
+}
+
+/**
+ * Get the phase conductor size used for EGC sizing
+ * A voltage-drop optimized size larger than the installed size is treated as installed
+ * @param conductorSize Installed conductor size
+ * @param optimalConductorSize Optimized conductor size
+ * @param useOptimalConductorSize Whether to consider the optimized size
+ * @returns Conductor size
+ */
+function getEffectivePhaseConductorSize(
+  conductorSize: string,
+  optimalConductorSize: string | undefined,
+  useOptimalConductorSize: boolean
+): string {
+  if (
+    useOptimalConductorSize &&
+    optimalConductorSize &&
+    getConductorCircularMils(optimalConductorSize) > getConductorCircularMils(conductorSize)
+  ) {
+    return normalizeConductorSize(optimalConductorSize);
+  }
+  return conductorSize;
+}
+
+/**
+ * Check an installed EGC against the required size
+ * @param installedSize Installed EGC size
+ * @param requiredSize Required EGC size
+ * @returns True when the installed EGC is at least the required size
+ */
+export function isEGCAdequate(installedSize: string, requiredSize: string): boolean {
+  return getConductorCircularMils(installedSize) >= getConductorCircularMils(requiredSize);
+}
+
+/**
+ * Size the grounding conductors for a panel and its branch circuits
+ * @param loadSchedule Load schedule of the panel
+ * @param options Analysis options
+ * @returns Panel grounding result
+ */
+export function analyzePanelGrounding(
+  loadSchedule: LoadSchedule,
+  options: GroundingAnalysisOptions = {}
+): PanelGroundingResult {
+  const {
+    egcMaterial = 'copper',
+    gecMaterial = 'copper',
+    isServiceEquipment = false,
+    electrodeType = 'rod',
+    useOptimalConductorSize = true
+  } = options;
+
+  const issues: string[] = [];
+  const recommendations: string[] = [];
+
+  // Feeder EGC from the feeder protection, or the main breaker when no feeder protection is entered
+  let feederEGC: EGCSizingResult | null = null;
+  const feederRating = getBreakerSizeValue(loadSchedule.feederProtectionSize || loadSchedule.circuitBreaker || '');
+  const feederConductorSize = loadSchedule.conductorSize
+    ? getEffectivePhaseConductorSize(loadSchedule.conductorSize, loadSchedule.optimalConductorSize, useOptimalConductorSize)
+    : '';
+
+  if (feederRating > 0 && getConductorCircularMils(feederConductorSize) > 0) {
+    feederEGC = calculateEGCSize(feederRating, feederConductorSize, 'copper', egcMaterial);
+
+    if (loadSchedule.equipmentGroundingConductorSize &&
+        !isEGCAdequate(loadSchedule.equipmentGroundingConductorSize, feederEGC.requiredEGCSize)) {
+      issues.push(
+        `Feeder EGC (${loadSchedule.equipmentGroundingConductorSize}) is smaller than the required ${feederEGC.requiredEGCSize}`
+      );
+    }
+  } else {
+    recommendations.push('Enter the feeder protection or main breaker and feeder conductor size to size the feeder EGC');
+  }
+
+  let gec: GECSizingResult | null = null;
+  if (isServiceEquipment && loadSchedule.conductorSize && getConductorCircularMils(loadSchedule.conductorSize) > 0) {
+    gec = calculateGECSize(loadSchedule.conductorSize, 'copper', gecMaterial, loadSchedule.parallelSets || 1, electrodeType);
+
+    if (loadSchedule.groundingElectrodeConductorSize &&
+        !isEGCAdequate(loadSchedule.groundingElectrodeConductorSize, gec.requiredGECSize)) {
+      issues.push(
+        `Grounding electrode conductor (${loadSchedule.groundingElectrodeConductorSize}) is smaller than the required ${gec.requiredGECSize}`
+      );
+    }
+  }
+
+  const loadResults: LoadItemGroundingResult[] = loadSchedule.loads.map(loadItem => {
+    const itemIssues: string[] = [];
+    const rating = getBreakerSizeValue(loadItem.circuitBreaker || '');
+
+    if (rating <= 0 || !loadItem.conductorSize || !getConductorCircularMils(loadItem.conductorSize)) {
+      return {
+        loadId: loadItem.id,
+        description: loadItem.description,
+        egc: null,
+        installedEGCSize: loadItem.equipmentGroundingConductorSize,
+        isCompliant: true,
+        issues: itemIssues
+      };
+    }
+
+    const phaseSize = getEffectivePhaseConductorSize(
+      loadItem.conductorSize,
+      loadItem.optimalConductorSize,
+      useOptimalConductorSize
+    );
+    const egc = calculateEGCSize(rating, phaseSize, getLoadItemMaterial(loadItem), egcMaterial);
+
+    if (loadItem.equipmentGroundingConductorSize && !isEGCAdequate(loadItem.equipmentGroundingConductorSize, egc.requiredEGCSize)) {
+      itemIssues.push(
+        `EGC (${loadItem.equipmentGroundingConductorSize}) is smaller than the required ${egc.requiredEGCSize}` +
+        (egc.isUpsized ? ' after the proportional increase for upsized phase conductors' : '')
+      );
+    }
+
+    return {
+      loadId: loadItem.id,
+      description: loadItem.description,
+      egc,
+      installedEGCSize: loadItem.equipmentGroundingConductorSize,
+      isCompliant: itemIssues.length === 0,
+      issues: itemIssues
+    };
+  });
+
+  const undersizedCount = loadResults.filter(result => !result.isCompliant).length;
+  if (undersizedCount > 0) {
+    issues.push(`${undersizedCount} branch circuits have an undersized equipment grounding conductor`);
+  }
+
+  const upsizedCount = loadResults.filter(result => result.egc?.isUpsized).length;
+  if (upsizedCount > 0) {
+    recommendations.push(
+      `${upsizedCount} branch circuits have phase conductors larger than the minimum; their EGC was increased proportionally per Section 2.50.122(B)`
+    );
+  }
+
+  if (issues.length > 0) {
+    recommendations.push('Apply the calculated grounding conductor sizes to the schedule');
+  }
+
+  return {
+    panelId: loadSchedule.id,
+    panelName: loadSchedule.panelName,
+    feederEGC,
+    gec,
+    loadResults,
+    isCompliant: issues.length === 0,
+    issues,
+    recommendations
+  };
+}
+
+/**
+ * Get the EGC size to record for a conductor, keeping an installed size that is already adequate
+ * @param installedSize Installed EGC size
+ * @param requiredSize Required EGC size
+ * @returns EGC size
+ */
+function getAppliedEGCSize(installedSize: string | undefined, requiredSize: string): string {
+  return installedSize && isEGCAdequate(installedSize, requiredSize) ? installedSize : requiredSize;
+}
+
+/**
+ * Write the required grounding conductor sizes back into a load schedule
+ * Undersized or missing EGCs are replaced with the required size
+ * @param loadSchedule Load schedule that was analyzed
+ * @param result Panel grounding result
+ * @returns Updated load schedule
+ */
+export function applyGroundingResults(
+  loadSchedule: LoadSchedule,
+  result: PanelGroundingResult
+): LoadSchedule {
+  const feederEGC = result.feederEGC;
+
+  return {
+    ...loadSchedule,
+    requiredEGCSize: feederEGC?.requiredEGCSize ?? loadSchedule.requiredEGCSize,
+    equipmentGroundingConductorSize: feederEGC
+      ? getAppliedEGCSize(loadSchedule.equipmentGroundingConductorSize, feederEGC.requiredEGCSize)
+      : loadSchedule.equipmentGroundingConductorSize,
+    groundingElectrodeConductorSize: result.gec
+      ? getAppliedEGCSize(loadSchedule.groundingElectrodeConductorSize, result.gec.requiredGECSize)
+      : loadSchedule.groundingElectrodeConductorSize,
+    loads: loadSchedule.loads.map(loadItem => {
+      const loadResult = result.loadResults.find(item => item.loadId === loadItem.id);
+      return loadResult?.egc
+        ? {
+            ...loadItem,
+            requiredEGCSize: loadResult.egc.requiredEGCSize,
+            equipmentGroundingConductorSize: getAppliedEGCSize(
+              loadItem.equipmentGroundingConductorSize,
+              loadResult.egc.requiredEGCSize
+            )
+          }
+        : loadItem;
+    }),
+    lastUpdated: Date.now()
+  };
+}
@@ -10,6 +10,8 @@ import { LoadSchedule, LoadItem } from '../ScheduleOfLoads/types';
 import { exportBatchVoltageDropToPdf } from './batchVoltageDropReport';
 import { VoltageDropResult } from './voltageDropUtils';
 import { CircuitOptimizationResult } from './circuitOptimizationUtils';
+import { PanelShortCircuitResult } from './shortCircuitUtils';
+import { BuildingSizingResult } from './equipmentSizingUtils';
 
 export interface IntegratedReportOptions {
   title?: string;
@@ -21,6 +23,8 @@ export interface IntegratedReportOptions {
   includePowerCalculations?: boolean;
   includeLoadDetails?: boolean;
   includeOptimizationSuggestions?: boolean;
+  includeShortCircuitAnalysis?: boolean;
+  includeEquipmentSizing?: boolean;
   paperSize?: 'a4' | 'letter';
   orientation?: 'portrait' | 'landscape';
   includeLogo?: boolean;
@@ -58,13 +62,15 @@ interface VoltageDropDataForSchedule {
 export function generateIntegratedReport(params: {
   loadSchedule: LoadSchedule;
   voltageDropData?: VoltageDropDataForSchedule;
+  shortCircuitData?: PanelShortCircuitResult;
+  equipmentSizingData?: BuildingSizingResult;
   options?: IntegratedReportOptions;
   optimizationParams?: {
     operatingHoursPerYear: number;
     energyCostPerKwh: number;
   };
 }): void {
-  const { loadSchedule, voltageDropData, options = {}, optimizationParams } = params;
+  const { loadSchedule, voltageDropData, shortCircuitData, equipmentSizingData, options = {}, optimizationParams } = params;
 
   const {
     title = `Electrical Analysis Report - ${loadSchedule.panelName}`,
@@ -76,6 +82,8 @@ export function generateIntegratedReport(params: {
     includePowerCalculations = true,
     includeLoadDetails = true,
     includeOptimizationSuggestions = true,
+    includeShortCircuitAnalysis = true,
+    includeEquipmentSizing = true,
     paperSize = 'a4',
     orientation = 'portrait',
     includeLogo = false,
@@ -119,7 +127,9 @@ export function generateIntegratedReport(params: {
     scheduleOfLoads: 0,
     voltageDropAnalysis: 0,
     powerCalculations: 0,
-    optimizationSuggestions: 0
+    optimizationSuggestions: 0,
+    shortCircuitAnalysis: 0,
+    equipmentSizing: 0
   };
 
   // Add document info
@@ -193,6 +203,32 @@ export function generateIntegratedReport(params: {
     }, voltageDropData);
   }
 
+  // Generate Short-Circuit Analysis section if requested
+  if (includeShortCircuitAnalysis && shortCircuitData) {
+    pdf.addPage();
+    tocReferences.shortCircuitAnalysis = pdf.getNumberOfPages();
+    addShortCircuitSection(pdf, loadSchedule, {
+      margin,
+      contentWidth,
+      pageWidth,
+      pageHeight,
+      customFooter
+    }, shortCircuitData);
+  }
+
+  // Generate Transformer and Generator Sizing section if requested
+  if (includeEquipmentSizing && equipmentSizingData) {
+    pdf.addPage();
+    tocReferences.equipmentSizing = pdf.getNumberOfPages();
+    addEquipmentSizingSection(pdf, {
+      margin,
+      contentWidth,
+      pageWidth,
+      pageHeight,
+      customFooter
+    }, equipmentSizingData);
+  }
+
   // Generate Power Calculations section if requested
   if (includePowerCalculations) {
     pdf.addPage();
@@ -226,6 +262,14 @@ export function generateIntegratedReport(params: {
       pdf.text(`4. Power Consumption Analysis .............................. Page ${tocReferences.powerCalculations}`, margin, margin + 60);
     }
     
+    if (includeShortCircuitAnalysis && shortCircuitData) {
+      pdf.text(`5. Short-Circuit Analysis ........................................ Page ${tocReferences.shortCircuitAnalysis}`, margin, margin + 70);
+    }
+    
+    if (includeEquipmentSizing && equipmentSizingData) {
+      pdf.text(`6. Transformer and Generator Sizing ...................... Page ${tocReferences.equipmentSizing}`, margin, margin + 80);
+    }
+    
     pdf.setPage(currentPage);
   }
 
@@ -247,6 +291,97 @@ export function generateIntegratedReport(params: {
   pdf.save(`${loadSchedule.panelName.replace(/\s+/g, '_')}_integrated_report.pdf`);
 }
 
+/**
+ * Generate a standalone transformer and generator sizing sheet for a building
+ * 
+ * @param params Sizing sheet parameters
+ */
+export function generateEquipmentSizingSheet(params: {
+  sizing: BuildingSizingResult;
+  options?: IntegratedReportOptions;
+}): void {
+  const { sizing, options = {} } = params;
+
+  const {
+    title = 'Transformer and Generator Sizing Sheet',
+    client = 'Client Name',
+    project = 'Project Name',
+    preparedBy = 'Engineer Name',
+    date = new Date().toLocaleDateString(),
+    paperSize = 'a4',
+    orientation = 'portrait',
+    includeLogo = false,
+    logoUrl = '',
+    includeCompanyInfo = false,
+    companyInfo = {},
+    customFooter = ''
+  } = options;
+
+  const pdf = new jsPDF({
+    orientation,
+    unit: 'mm',
+    format: paperSize
+  });
+
+  const pageWidth = orientation === 'portrait' ? (paperSize === 'a4' ? 210 : 216) : (paperSize === 'a4' ? 297 : 279);
+  const pageHeight = orientation === 'portrait' ? (paperSize === 'a4' ? 297 : 279) : (paperSize === 'a4' ? 210 : 216);
+  const margin = 15;
+  const contentWidth = pageWidth - (margin * 2);
+
+  pdf.setProperties({
+    title: title,
+    subject: 'Service transformer and standby generator sizing',
+    author: preparedBy,
+    keywords: 'Transformer Sizing, Generator Sizing, Schedule of Loads',
+    creator: 'Energy Audit Platform'
+  });
+
+  addCoverPage(pdf, {
+    title,
+    client,
+    project,
+    preparedBy,
+    date,
+    includeLogo,
+    logoUrl,
+    includeCompanyInfo,
+    companyInfo: {
+      name: 'Company Name',
+      address: 'Company Address',
+      contact: 'Contact Number',
+      email: 'Email Address',
+      website: 'Website',
+      ...companyInfo
+    },
+    pageWidth,
+    pageHeight,
+    margin
+  });
+
+  pdf.addPage();
+  addEquipmentSizingSection(pdf, {
+    margin,
+    contentWidth,
+    pageWidth,
+    pageHeight,
+    customFooter
+  }, sizing);
+
+  // Add page numbers, skipping the cover page
+  const totalPages = pdf.getNumberOfPages();
+  for (let i = 2; i <= totalPages; i++) {
+    pdf.setPage(i);
+    pdf.setFontSize(10);
+    pdf.text(`Page ${i} of ${totalPages}`, pageWidth - margin - 30, pageHeight - margin);
+
+    if (customFooter) {
+      pdf.text(customFooter, margin, pageHeight - margin);
+    }
+  }
+
+  pdf.save(`${project.replace(/\s+/g, '_')}_equipment_sizing.pdf`);
+}
+
 /**
  * Add the cover page to the report
  */
@@ -789,4 +924,255 @@ function addPowerCalculationsSection(
     margin,
     margin + 170
   );
-} 
\ No newline at end of file
+} 
+
+/**
+ * Add the Short-Circuit Analysis section to the report
+ */
+function addShortCircuitSection(
+  pdf: jsPDF,
+  loadSchedule: LoadSchedule,
+  options: {
+    margin: number;
+    contentWidth: number;
+    pageWidth: number;
+    pageHeight: number;
+    customFooter: string;
+  },
+  shortCircuitData: PanelShortCircuitResult
+) {
+  const { margin } = options;
+  
+  // Add section title
+  pdf.setFontSize(18);
+  pdf.text('Short-Circuit Analysis', margin, margin + 10);
+  
+  // Add source information
+  pdf.setFontSize(12);
+  pdf.text('Available Fault Current (Point-to-Point Method):', margin, margin + 25);
+  
+  pdf.setFontSize(10);
+  if (loadSchedule.serviceTransformer) {
+    pdf.text(
+      `Service Transformer: ${loadSchedule.serviceTransformer.kva} kVA, ${loadSchedule.serviceTransformer.impedancePercent}%Z, ${loadSchedule.serviceTransformer.secondaryVoltage}V`,
+      margin,
+      margin + 35
+    );
+  }
+  pdf.text(`Transformer Full-Load Current: ${shortCircuitData.transformerFullLoadCurrent.toFixed(1)} A`, margin, margin + 43);
+  pdf.text(`Fault Current at Transformer Secondary: ${shortCircuitData.transformerFaultCurrentKA.toFixed(2)} kA`, margin, margin + 51);
+  pdf.text(`Fault Current at ${shortCircuitData.panelName}: ${shortCircuitData.panelFaultCurrentKA.toFixed(2)} kA`, margin, margin + 59);
+  
+  if (shortCircuitData.mainBreaker) {
+    pdf.text(
+      `Main Breaker: ${shortCircuitData.mainBreaker.breakerRating}A, ${shortCircuitData.mainBreaker.interruptingRatingKA} kAIC${shortCircuitData.mainBreaker.isAssumedRating ? ' (assumed)' : ''} - ${shortCircuitData.mainBreaker.isAdequate ? 'Adequate' : 'INADEQUATE'}`,
+      margin,
+      margin + 67
+    );
+  }
+  
+  // Add per-circuit results table
+  pdf.setFontSize(12);
+  pdf.text('Branch Circuit Interrupting Ratings:', margin, margin + 83);
+  
+  const tableData = shortCircuitData.loadResults.map(result => [
+    result.loadId.split('-')[0] || 'N/A',
+    result.description,
+    result.conductorSize || 'N/A',
+    result.conductorLength !== undefined ? `${result.conductorLength} m` : 'N/A',
+    `${result.faultCurrentKA.toFixed(2)} kA`,
+    result.breaker ? `${result.breaker.breakerRating}A` : 'N/A',
+    result.breaker ? `${result.breaker.interruptingRatingKA} kA${result.breaker.isAssumedRating ? '*' : ''}` : 'N/A',
+    result.breaker ? (result.breaker.isAdequate ? 'Yes' : 'No') : 'N/A'
+  ]);
+  
+  const tableColumns = [
+    'Circuit',
+    'Description',
+    'Wire Size',
+    'Length',
+    'Fault at Load',
+    'Breaker',
+    'kAIC',
+    'Adequate'
+  ];
+  
+  (pdf as any).autoTable({
+    head: [tableColumns],
+    body: tableData,
+    startY: margin + 89,
+    margin: { left: margin, right: margin },
+    styles: { overflow: 'linebreak', cellWidth: 'wrap' },
+    columnStyles: {
+      0: { cellWidth: 15 },
+      1: { cellWidth: 40 },
+      2: { cellWidth: 18 },
+      3: { cellWidth: 15 },
+      4: { cellWidth: 20 },
+      5: { cellWidth: 15 },
+      6: { cellWidth: 18 },
+      7: { cellWidth: 18 }
+    }
+  });
+  
+  let yOffset = (pdf as any).lastAutoTable.finalY + 10;
+  
+  pdf.setFontSize(8);
+  pdf.text('* Interrupting rating not entered; typical molded-case value assumed.', margin, yOffset);
+  yOffset += 10;
+  
+  // Add findings
+  if (shortCircuitData.issues.length > 0 || shortCircuitData.recommendations.length > 0) {
+    pdf.setFontSize(12);
+    pdf.text('Findings and Recommendations:', margin, yOffset);
+    
+    pdf.setFontSize(10);
+    [...shortCircuitData.issues, ...shortCircuitData.recommendations].forEach((line, index) => {
+      const wrapped = pdf.splitTextToSize(`${index + 1}. ${line}`, options.contentWidth);
+      yOffset += 8;
+      pdf.text(wrapped, margin, yOffset);
+      yOffset += (wrapped.length - 1) * 5;
+    });
+  }
+}
+
+/**
+ * Add the Transformer and Generator Sizing section to the report
+ */
+function addEquipmentSizingSection(
+  pdf: jsPDF,
+  options: {
+    margin: number;
+    contentWidth: number;
+    pageWidth: number;
+    pageHeight: number;
+    customFooter: string;
+  },
+  sizing: BuildingSizingResult
+) {
+  const { margin } = options;
+  const { demand, transformer, generator } = sizing;
+  
+  // Add section title
+  pdf.setFontSize(18);
+  pdf.text('Transformer and Generator Sizing', margin, margin + 10);
+  
+  // Add panel demand table
+  pdf.setFontSize(12);
+  pdf.text('Building Demand by Panel:', margin, margin + 25);
+  
+  const panelData = demand.panels.map(panel => [
+    panel.panelName,
+    `${(panel.demandLoad / 1000).toFixed(2)} kW`,
+    panel.powerFactor.toFixed(2),
+    `${panel.demandKVA.toFixed(2)} kVA`,
+    panel.hasOccupancyProfile ? 'Yes' : 'No'
+  ]);
+  panelData.push([
+    'Total',
+    `${demand.totalDemandKW.toFixed(2)} kW`,
+    demand.powerFactor.toFixed(2),
+    `${demand.totalDemandKVA.toFixed(2)} kVA`,
+    ''
+  ]);
+  
+  (pdf as any).autoTable({
+    head: [['Panel', 'Demand', 'Power Factor', 'Demand kVA', 'Occupancy Profile']],
+    body: panelData,
+    startY: margin + 31,
+    margin: { left: margin, right: margin },
+    styles: { overflow: 'linebreak', cellWidth: 'wrap' }
+  });
+  
+  let yOffset = (pdf as any).lastAutoTable.finalY + 10;
+  
+  pdf.setFontSize(10);
+  pdf.text(`Diversity Factor: ${demand.diversityFactor.toFixed(2)}`, margin, yOffset);
+  yOffset += 8;
+  pdf.text(`Coincident Demand: ${demand.coincidentDemandKW.toFixed(2)} kW / ${demand.coincidentDemandKVA.toFixed(2)} kVA`, margin, yOffset);
+  yOffset += 8;
+  pdf.text(`Growth Margin: ${sizing.options.growthMarginPercent}%`, margin, yOffset);
+  yOffset += 14;
+  
+  // Add transformer sizing
+  pdf.setFontSize(12);
+  pdf.text('Service Transformer:', margin, yOffset);
+  
+  const transformerData = [
+    ['Configuration', transformer.phaseConfiguration === 'three-phase' ? 'Three-phase' : 'Single-phase'],
+    ['Required Capacity', `${transformer.requiredKVA.toFixed(1)} kVA`],
+    ['Recommended Rating', transformer.recommendedKVA ? `${transformer.recommendedKVA} kVA` : 'Exceeds standard ratings'],
+    ['Loading at Coincident Demand', transformer.loadingPercent !== null ? `${transformer.loadingPercent.toFixed(1)}%` : 'N/A'],
+    ['No-Load / Full-Load Losses', `${transformer.noLoadLoss.toFixed(0)} W / ${transformer.fullLoadLoss.toFixed(0)} W`],
+    ['Full-Load Efficiency', transformer.fullLoadEfficiencyPercent !== null ? `${transformer.fullLoadEfficiencyPercent.toFixed(2)}%` : 'N/A'],
+    ['All-Day Efficiency', transformer.allDayEfficiencyPercent !== null ? `${transformer.allDayEfficiencyPercent.toFixed(2)}%` : 'N/A'],
+    ['Annual Losses', `${transformer.annualLossKWh.toFixed(0)} kWh`]
+  ];
+  
+  (pdf as any).autoTable({
+    body: transformerData,
+    startY: yOffset + 6,
+    margin: { left: margin, right: margin },
+    styles: { overflow: 'linebreak', cellWidth: 'wrap' },
+    columnStyles: { 0: { cellWidth: 70 } }
+  });
+  
+  yOffset = (pdf as any).lastAutoTable.finalY + 12;
+  
+  // Add generator sizing
+  pdf.setFontSize(12);
+  pdf.text('Standby Generator:', margin, yOffset);
+  
+  const generatorData = [
+    ['Running Load', `${generator.runningKW.toFixed(1)} kW / ${generator.runningKVA.toFixed(1)} kVA`],
+    ['Required for Running Load', `${generator.requiredKVAForRunning.toFixed(1)} kVA`],
+    [
+      'Largest Motor Starting Step',
+      generator.largestMotor
+        ? `${generator.largestMotor.description} (${generator.largestMotor.panelName}), ${generator.largestMotor.startingKVA.toFixed(1)} kVA`
+        : 'No motor loads'
+    ],
+    ['Required for Motor Starting', `${generator.requiredKVAForStarting.toFixed(1)} kVA`],
+    [
+      'Recommended Rating',
+      generator.recommendedKVA && generator.recommendedKW
+        ? `${generator.recommendedKVA} kVA / ${generator.recommendedKW.toFixed(0)} kW`
+        : 'Exceeds standard ratings'
+    ],
+    [
+      'Starting Voltage Dip',
+      generator.startingVoltageDipPercent !== null
+        ? `${generator.startingVoltageDipPercent.toFixed(1)}% (limit ${sizing.options.maxGeneratorVoltageDipPercent}%)`
+        : 'N/A'
+    ]
+  ];
+  
+  (pdf as any).autoTable({
+    body: generatorData,
+    startY: yOffset + 6,
+    margin: { left: margin, right: margin },
+    styles: { overflow: 'linebreak', cellWidth: 'wrap' },
+    columnStyles: { 0: { cellWidth: 70 } }
+  });
+  
+  yOffset = (pdf as any).lastAutoTable.finalY + 10;
+  
+  // Add findings
+  if (sizing.issues.length > 0 || sizing.recommendations.length > 0) {
+    if (yOffset > options.pageHeight - margin - 40) {
+      pdf.addPage();
+      yOffset = margin + 10;
+    }
+    
+    pdf.setFontSize(12);
+    pdf.text('Findings and Recommendations:', margin, yOffset);
+    
+    pdf.setFontSize(10);
+    [...sizing.issues, ...sizing.recommendations].forEach((line, index) => {
+      const wrapped = pdf.splitTextToSize(`${index + 1}. ${line}`, options.contentWidth);
+      yOffset += 8;
+      pdf.text(wrapped, margin, yOffset);
+      yOffset += (wrapped.length - 1) * 5;
+    });
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Load Disaggregation Utilities
+ *
+ * Splits a building's metered consumption into end uses. A bottom-up weekly profile is built for
+ * each circuit type from the schedules of loads (load demand, panel operating hours and occupancy
+ * factors), and every metered hour is shared among the end uses in proportion to that profile, so
+ * the end uses always add up to what the meter recorded.
+ */
+
+import { LoadItem, LoadSchedule } from '../ScheduleOfLoads/types';
+import { getWeeklyLoadFactors } from './solarPVUtils';
+
+/**
+ * End uses, matching the circuit types of the schedule of loads
+ */
+export type EndUse = 'lighting' | 'receptacle' | 'motor' | 'hvac' | 'special' | 'other';
+
+export const END_USES: EndUse[] = ['hvac', 'lighting', 'receptacle', 'motor', 'special', 'other'];
+
+export const END_USE_LABELS: Record<EndUse, string> = {
+  hvac: 'Air-conditioning',
+  lighting: 'Lighting',
+  receptacle: 'Receptacles',
+  motor: 'Motors & pumps',
+  special: 'Special equipment',
+  other: 'Other'
+};
+
+/**
+ * Description keywords used for loads whose circuit type was never set
+ */
+const END_USE_KEYWORDS: Array<{ endUse: EndUse; pattern: RegExp }> = [
+  { endUse: 'hvac', pattern: /\b(acu|aircon|air[- ]?con\w*|a\/c|ahu|fcu|chiller|split[- ]type|window[- ]type|hvac|cooling tower|condensing)\b/i },
+  { endUse: 'lighting', pattern: /\b(light\w*|lamps?|led|fluorescent|luminaires?|downlights?|floodlights?)\b/i },
+  { endUse: 'receptacle', pattern: /\b(receptacles?|outlets?|convenience|co|plug)\b/i },
+  { endUse: 'motor', pattern: /\b(motors?|pumps?|fans?|blowers?|compressors?|elevators?|lifts?)\b/i }
+];
+
+export type EndUseProfiles = Record<EndUse, number[][]>;
+
+/**
+ * An hour of metered consumption
+ */
+export interface MeteredHour {
+  timestamp: string; // start of the hour
+  energyKwh: number;
+}
+
+export interface DisaggregatedHour {
+  timestamp: string;
+  meteredKwh: number;
+  // Consumption the schedules of loads predict for the hour
+  estimatedKwh: number;
+  endUses: Record<EndUse, number>;
+}
+
+export interface DisaggregationResult {
+  hours: DisaggregatedHour[];
+  meteredKwh: number;
+  estimatedKwh: number;
+  totals: Record<EndUse, number>;
+  // Share of metered consumption, between 0 and 1
+  shares: Record<EndUse, number>;
+  // Metered over estimated consumption; how far the schedules had to be scaled to match the meter
+  scaleFactor: number | null;
+}
+
+const emptyEndUses = (): Record<EndUse, number> =>
+  END_USES.reduce((totals, endUse) => ({ ...totals, [endUse]: 0 }), {} as Record<EndUse, number>);
+
+/**
+ * Get the end use of a load item, from its circuit type or, failing that, its description
+ * @param load Load item
+ * @returns End use
+ */
+export function classifyLoad(load: LoadItem): EndUse {
+  if (load.circuitDetails?.type) return load.circuitDetails.type;
+  if (load.motorDetails) return 'motor';
+  return END_USE_KEYWORDS.find(({ pattern }) => pattern.test(load.description))?.endUse ?? 'other';
+}
+
+/**
+ * Build the weekly load profile of each end use from the schedules of loads
+ * A panel's demand is shared among its end uses by the demand of their loads
+ * @param loadSchedules Load schedules (panels) to include
+ * @param unoccupiedLoadFactor Fraction of demand drawn outside operating hours
+ * @returns For each end use, seven days (Monday to Sunday) of 24 hourly loads in kW
+ */
+export function getEndUseProfiles(loadSchedules: LoadSchedule[], unoccupiedLoadFactor: number = 0.1): EndUseProfiles {
+  const profiles = END_USES.reduce(
+    (result, endUse) => ({ ...result, [endUse]: Array.from({ length: 7 }, () => new Array(24).fill(0)) }),
+    {} as EndUseProfiles
+  );
+
+  loadSchedules.forEach(loadSchedule => {
+    const loadDemand = emptyEndUses();
+    loadSchedule.loads.forEach(load => {
+      loadDemand[classifyLoad(load)] += Math.max(0, load.demandLoad || 0);
+    });
+    const totalLoadDemand = END_USES.reduce((sum, endUse) => sum + loadDemand[endUse], 0);
+    // A panel without itemized loads is counted as other
+    if (totalLoadDemand === 0) loadDemand.other = 1;
+    const shareTotal = totalLoadDemand || 1;
+
+    const demandKW = loadSchedule.totalDemandLoad / 1000;
+    const factors = getWeeklyLoadFactors(loadSchedule, unoccupiedLoadFactor);
+    END_USES.forEach(endUse => {
+      const endUseKW = demandKW * (loadDemand[endUse] / shareTotal);
+      if (endUseKW === 0) return;
+      factors.forEach((day, dayIndex) => {
+        day.forEach((factor, hour) => {
+          profiles[endUse][dayIndex][hour] += endUseKW * factor;
+        });
+      });
+    });
+  });
+
+  return profiles;
+}
+
+/**
+ * Share metered hourly consumption among end uses
+ * Each hour is split in proportion to the end-use profile for that weekday and hour. Hours the
+ * schedules leave empty are counted as other.
+ * @param profiles End-use profiles from getEndUseProfiles
+ * @param meteredHours Hourly metered consumption
+ * @returns Consumption of each end use, hour by hour and in total
+ */
+export function disaggregateLoad(profiles: EndUseProfiles, meteredHours: MeteredHour[]): DisaggregationResult {
+  const totals = emptyEndUses();
+  let meteredKwh = 0;
+  let estimatedKwh = 0;
+
+  const hours = meteredHours.map(({ timestamp, energyKwh }) => {
+    const date = new Date(timestamp);
+    // Date.getDay() counts from Sunday; the weekly profiles start on Monday
+    const dayIndex = (date.getDay() + 6) % 7;
+    const hour = date.getHours();
+    const estimates = END_USES.map(endUse => profiles[endUse][dayIndex][hour]);
+    const estimate = estimates.reduce((sum, kwh) => sum + kwh, 0);
+
+    const endUses = emptyEndUses();
+    END_USES.forEach((endUse, index) => {
+      endUses[endUse] = estimate > 0 ? energyKwh * (estimates[index] / estimate) : 0;
+    });
+    if (estimate === 0) endUses.other = energyKwh;
+
+    END_USES.forEach(endUse => {
+      totals[endUse] += endUses[endUse];
+    });
+    meteredKwh += energyKwh;
+    estimatedKwh += estimate;
+
+    return { timestamp, meteredKwh: energyKwh, estimatedKwh: estimate, endUses };
+  });
+
+  const shares = emptyEndUses();
+  END_USES.forEach(endUse => {
+    shares[endUse] = meteredKwh > 0 ? totals[endUse] / meteredKwh : 0;
+  });
+
+  return {
+    hours,
+    meteredKwh,
+    estimatedKwh,
+    totals,
+    shares,
+    scaleFactor: estimatedKwh > 0 ? meteredKwh / estimatedKwh : null
+  };
+}
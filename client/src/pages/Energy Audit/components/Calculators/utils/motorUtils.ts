@@ -0,0 +1,473 @@
+/**
+ * Motor Branch Circuit Utilities
+ *
+ * This module provides utility functions for sizing motor branch circuits per PEC 2017
+ * Article 4.30 (full-load current, conductors, overload and short-circuit protection)
+ * and for estimating the voltage dip on the panel bus while a motor is starting
+ */
+
+import { LoadItem, LoadSchedule } from '../ScheduleOfLoads/types';
+import { getBreakerSizeValue, getNextStandardBreakerSize, isConductorSmaller } from './pecComplianceUtils';
+import { analyzePanelShortCircuit } from './shortCircuitUtils';
+import { ConductorMaterial, getMinimumPhaseConductorSize } from './groundingUtils';
+
+/**
+ * Horsepower to kilowatt conversion factor
+ */
+const KW_PER_HP = 0.746;
+
+/**
+ * Voltage of the full-load current tables below
+ */
+const TABLE_VOLTAGE = 230;
+
+/**
+ * Full-load current of single-phase AC motors at 230V per PEC 2017 Table 4.30.248
+ */
+export const SINGLE_PHASE_MOTOR_FLC: { horsepower: number; current: number }[] = [
+  { horsepower: 1 / 6, current: 2.2 },
+  { horsepower: 0.25, current: 2.9 },
+  { horsepower: 1 / 3, current: 3.6 },
+  { horsepower: 0.5, current: 4.9 },
+  { horsepower: 0.75, current: 6.9 },
+  { horsepower: 1, current: 8 },
+  { horsepower: 1.5, current: 10 },
+  { horsepower: 2, current: 12 },
+  { horsepower: 3, current: 17 },
+  { horsepower: 5, current: 28 },
+  { horsepower: 7.5, current: 40 },
+  { horsepower: 10, current: 50 }
+];
+
+/**
+ * Full-load current of three-phase induction motors at 230V per PEC 2017 Table 4.30.250
+ */
+export const THREE_PHASE_MOTOR_FLC: { horsepower: number; current: number }[] = [
+  { horsepower: 0.5, current: 2.2 },
+  { horsepower: 0.75, current: 3.2 },
+  { horsepower: 1, current: 4.2 },
+  { horsepower: 1.5, current: 6.0 },
+  { horsepower: 2, current: 6.8 },
+  { horsepower: 3, current: 9.6 },
+  { horsepower: 5, current: 15.2 },
+  { horsepower: 7.5, current: 22 },
+  { horsepower: 10, current: 28 },
+  { horsepower: 15, current: 42 },
+  { horsepower: 20, current: 54 },
+  { horsepower: 25, current: 68 },
+  { horsepower: 30, current: 80 },
+  { horsepower: 40, current: 104 },
+  { horsepower: 50, current: 130 },
+  { horsepower: 60, current: 154 },
+  { horsepower: 75, current: 192 },
+  { horsepower: 100, current: 248 },
+  { horsepower: 125, current: 312 },
+  { horsepower: 150, current: 360 },
+  { horsepower: 200, current: 480 }
+];
+
+export type MotorStartingMethod = 'dol' | 'star-delta' | 'soft-start' | 'vfd';
+
+export type MotorProtectiveDevice = 'inverse-time-breaker' | 'dual-element-fuse' | 'non-time-delay-fuse';
+
+/**
+ * Display labels for the motor starting methods
+ */
+export const MOTOR_STARTING_METHOD_LABELS: Record<MotorStartingMethod, string> = {
+  'dol': 'Direct-on-Line',
+  'star-delta': 'Star-Delta',
+  'soft-start': 'Soft Starter',
+  'vfd': 'Variable Frequency Drive'
+};
+
+/**
+ * Maximum short-circuit and ground-fault protective device rating as a percent of
+ * full-load current per PEC 2017 Table 4.30.52
+ */
+export const MOTOR_SCPD_PERCENT: Record<MotorProtectiveDevice, number> = {
+  'inverse-time-breaker': 250,
+  'dual-element-fuse': 175,
+  'non-time-delay-fuse': 300
+};
+
+/**
+ * Soft starter current limit as a multiple of full-load current
+ */
+const SOFT_START_CURRENT_LIMIT = 3.5;
+
+/**
+ * VFD starting current as a multiple of full-load current (drive current limit)
+ */
+const VFD_CURRENT_LIMIT = 1.5;
+
+/**
+ * Interface for motor branch circuit inputs
+ */
+export interface MotorCircuitInputs {
+  horsepower?: number; // Nameplate output, hp
+  kilowatts?: number; // Nameplate output, kW (used when horsepower is not given)
+  voltage: number; // Line-to-line voltage
+  phaseConfiguration: 'single-phase' | 'three-phase';
+  serviceFactor?: number; // Default 1.0
+  startingMethod?: MotorStartingMethod; // Default direct-on-line
+  lockedRotorMultiplier?: number; // Locked-rotor current / FLC, default 6
+  conductorMaterial?: ConductorMaterial; // Default copper
+  protectiveDevice?: MotorProtectiveDevice; // Default inverse-time breaker
+}
+
+/**
+ * Interface for motor branch circuit sizing results
+ */
+export interface MotorCircuitResult {
+  horsepower: number; // Standard rating used for the table lookup
+  fullLoadCurrent: number; // A
+  conductorAmpacityRequired: number; // A, 125% of FLC
+  conductorSize: string;
+  overloadPercent: number; // 115 or 125
+  overloadSetting: number; // A
+  overloadMaxSetting: number; // A, 130% or 140% of FLC
+  shortCircuitPercent: number;
+  shortCircuitMaxRating: number; // A, before rounding to a standard size
+  shortCircuitDeviceRating: number; // A, standard size
+  startingMethod: MotorStartingMethod;
+  startingCurrentMultiplier: number; // Starting current / FLC
+  startingCurrent: number; // A
+}
+
+/**
+ * Interface for the motor starting analysis of a load item
+ */
+export interface MotorStartingAnalysisResult {
+  loadId: string;
+  description: string;
+  circuit: MotorCircuitResult;
+  sourceFaultCurrentKA: number | null; // Fault current at the panel bus, null when unknown
+  voltageDipPercent: number | null;
+  busVoltageDuringStart: number | null; // V
+  maxVoltageDipPercent: number;
+  exceedsLimit: boolean;
+  affectedLoads: string[]; // Other loads on the panel that see the dip
+  isCompliant: boolean;
+  issues: string[];
+  recommendations: string[];
+}
+
+/**
+ * Options for a motor starting analysis
+ */
+export interface MotorStartingAnalysisOptions {
+  maxVoltageDipPercent?: number; // Default 10%
+  sourceFaultCurrentKA?: number; // Overrides the panel's fault current
+}
+
+/**
+ * Convert a motor rating in kilowatts to horsepower
+ * @param kilowatts Motor rating in kW
+ * @returns Motor rating in hp
+ */
+export function kilowattsToHorsepower(kilowatts: number): number {
+  return kilowatts / KW_PER_HP;
+}
+
+/**
+ * Get the full-load current of a motor from PEC 2017 Table 4.30.248 or 4.30.250
+ * Ratings between table entries use the next larger rating; currents are scaled
+ * from the 230V column in inverse proportion to the voltage
+ * @param horsepower Motor rating in hp
+ * @param voltage Line-to-line voltage
+ * @param phaseConfiguration Single or three phase
+ * @returns The standard rating used and its full-load current in amperes
+ */
+export function getMotorFullLoadCurrent(
+  horsepower: number,
+  voltage: number,
+  phaseConfiguration: 'single-phase' | 'three-phase'
+): { horsepower: number; current: number } {
+  if (horsepower <= 0 || voltage <= 0) {
+    throw new Error('Motor rating and voltage must be greater than zero');
+  }
+
+  const table = phaseConfiguration === 'three-phase' ? THREE_PHASE_MOTOR_FLC : SINGLE_PHASE_MOTOR_FLC;
+  // Allow for rounding of fractional ratings such as 1/3 hp
+  const row = table.find(entry => entry.horsepower >= horsepower - 0.001);
+
+  if (!row) {
+    const largest = table[table.length - 1].horsepower;
+    throw new Error(`Motor rating ${horsepower} hp exceeds the ${largest} hp limit of the ${phaseConfiguration} full-load current table`);
+  }
+
+  return {
+    horsepower: row.horsepower,
+    current: row.current * (TABLE_VOLTAGE / voltage)
+  };
+}
+
+/**
+ * Get the starting current of a motor as a multiple of its full-load current
+ * @param startingMethod Starting method
+ * @param lockedRotorMultiplier Locked-rotor current / FLC for across-the-line starting
+ * @returns Starting current multiplier
+ */
+export function getStartingCurrentMultiplier(
+  startingMethod: MotorStartingMethod,
+  lockedRotorMultiplier: number = 6
+): number {
+  switch (startingMethod) {
+    case 'star-delta':
+      // Star connection applies 1/√3 of the line voltage, giving 1/3 of the DOL line current
+      return lockedRotorMultiplier / 3;
+    case 'soft-start':
+      return Math.min(SOFT_START_CURRENT_LIMIT, lockedRotorMultiplier);
+    case 'vfd':
+      return VFD_CURRENT_LIMIT;
+    case 'dol':
+    default:
+      return lockedRotorMultiplier;
+  }
+}
+
+/**
+ * Size a motor branch circuit per PEC 2017 Article 4.30
+ *
+ * Conductors are sized at 125% of FLC (Section 4.30.22), overloads at 125% of FLC for
+ * a service factor of 1.15 or more and 115% otherwise (Section 4.30.32), and the
+ * short-circuit and ground-fault device at the Table 4.30.52 percentage rounded up to
+ * the next standard size (Section 4.30.52(C)(1) Exception No. 1)
+ *
+ * @param inputs Motor circuit inputs
+ * @returns Motor circuit sizing results
+ */
+export function calculateMotorBranchCircuit(inputs: MotorCircuitInputs): MotorCircuitResult {
+  const {
+    voltage,
+    phaseConfiguration,
+    serviceFactor = 1.0,
+    startingMethod = 'dol',
+    lockedRotorMultiplier = 6,
+    conductorMaterial = 'copper',
+    protectiveDevice = 'inverse-time-breaker'
+  } = inputs;
+
+  const ratedHorsepower = inputs.horsepower ?? (inputs.kilowatts !== undefined ? kilowattsToHorsepower(inputs.kilowatts) : 0);
+  if (lockedRotorMultiplier < 1) {
+    throw new Error('Locked-rotor multiplier must be at least 1');
+  }
+
+  const { horsepower, current: fullLoadCurrent } = getMotorFullLoadCurrent(ratedHorsepower, voltage, phaseConfiguration);
+
+  const conductorAmpacityRequired = fullLoadCurrent * 1.25;
+  const conductorSize = getMinimumPhaseConductorSize(conductorAmpacityRequired, conductorMaterial);
+
+  const hasHighServiceFactor = serviceFactor >= 1.15;
+  const overloadPercent = hasHighServiceFactor ? 125 : 115;
+  const overloadMaxPercent = hasHighServiceFactor ? 140 : 130;
+
+  const shortCircuitPercent = MOTOR_SCPD_PERCENT[protectiveDevice];
+  const shortCircuitMaxRating = fullLoadCurrent * shortCircuitPercent / 100;
+
+  const startingCurrentMultiplier = getStartingCurrentMultiplier(startingMethod, lockedRotorMultiplier);
+
+  return {
+    horsepower,
+    fullLoadCurrent,
+    conductorAmpacityRequired,
+    conductorSize,
+    overloadPercent,
+    overloadSetting: fullLoadCurrent * overloadPercent / 100,
+    overloadMaxSetting: fullLoadCurrent * overloadMaxPercent / 100,
+    shortCircuitPercent,
+    shortCircuitMaxRating,
+    shortCircuitDeviceRating: getNextStandardBreakerSize(shortCircuitMaxRating),
+    startingMethod,
+    startingCurrentMultiplier,
+    startingCurrent: fullLoadCurrent * startingCurrentMultiplier
+  };
+}
+
+/**
+ * Calculate the transient voltage dip on a bus while a motor starts
+ *
+ * The source is represented by its fault current and the starting motor by its
+ * starting current at rated voltage; the dip is the source impedance share of the
+ * series divider, Zs / (Zs + Zm) = Ist / (Isc + Ist). Treating both impedances as
+ * in phase gives a slightly conservative (high) estimate
+ *
+ * @param startingCurrent Motor starting current in amperes
+ * @param sourceFaultCurrent Available fault current at the bus in amperes
+ * @returns Voltage dip in percent of the nominal voltage
+ */
+export function calculateStartingVoltageDip(startingCurrent: number, sourceFaultCurrent: number): number {
+  if (startingCurrent < 0 || sourceFaultCurrent <= 0) {
+    throw new Error('Starting current must not be negative and fault current must be greater than zero');
+  }
+
+  return (startingCurrent / (sourceFaultCurrent + startingCurrent)) * 100;
+}
+
+/**
+ * Get the available fault current at a panel bus in kA
+ * Uses the result of the short-circuit study when present, otherwise computes it
+ * from the panel's service transformer
+ * @param loadSchedule Load schedule (panel)
+ * @returns Fault current in kA, or null when neither is available
+ */
+export function getPanelSourceFaultCurrentKA(loadSchedule: LoadSchedule): number | null {
+  if (loadSchedule.availableFaultCurrentKA && loadSchedule.availableFaultCurrentKA > 0) {
+    return loadSchedule.availableFaultCurrentKA;
+  }
+
+  if (loadSchedule.serviceTransformer) {
+    const result = analyzePanelShortCircuit(loadSchedule, {
+      ...loadSchedule.serviceTransformer,
+      phaseConfiguration: loadSchedule.phaseConfiguration || 'single-phase'
+    });
+    return result.panelFaultCurrentKA;
+  }
+
+  return null;
+}
+
+/**
+ * Analyze the branch circuit and starting voltage dip of a motor load item
+ * @param loadSchedule Load schedule (panel) containing the motor
+ * @param loadId ID of the motor load item
+ * @param inputs Motor circuit inputs
+ * @param options Analysis options
+ * @returns Motor starting analysis result
+ */
+export function analyzeMotorStarting(
+  loadSchedule: LoadSchedule,
+  loadId: string,
+  inputs: MotorCircuitInputs,
+  options: MotorStartingAnalysisOptions = {}
+): MotorStartingAnalysisResult {
+  const { maxVoltageDipPercent = 10 } = options;
+  const loadItem = loadSchedule.loads.find(load => load.id === loadId);
+
+  if (!loadItem) {
+    throw new Error(`Load item ${loadId} not found in ${loadSchedule.panelName}`);
+  }
+
+  const circuit = calculateMotorBranchCircuit(inputs);
+  const issues: string[] = [];
+  const recommendations: string[] = [];
+
+  // Installed conductors and protection against Article 4.30
+  if (loadItem.conductorSize && isConductorSmaller(loadItem.conductorSize, circuit.conductorSize)) {
+    issues.push(
+      `${loadItem.description}: ${loadItem.conductorSize} conductors are below the ${circuit.conductorSize} required for 125% of the ${circuit.fullLoadCurrent.toFixed(1)}A full-load current (PEC 2017 Section 4.30.22)`
+    );
+  }
+
+  const installedBreaker = loadItem.circuitBreaker ? getBreakerSizeValue(loadItem.circuitBreaker) : 0;
+  if (installedBreaker > circuit.shortCircuitDeviceRating) {
+    issues.push(
+      `${loadItem.description}: ${loadItem.circuitBreaker} protection exceeds the ${circuit.shortCircuitDeviceRating}A maximum of PEC 2017 Table 4.30.52`
+    );
+  } else if (installedBreaker > 0 && installedBreaker < circuit.conductorAmpacityRequired) {
+    recommendations.push(
+      `${loadItem.description}: ${loadItem.circuitBreaker} protection may trip during starting; up to ${circuit.shortCircuitDeviceRating}A is permitted`
+    );
+  }
+
+  // Voltage dip on the panel bus
+  const sourceFaultCurrentKA = options.sourceFaultCurrentKA ?? getPanelSourceFaultCurrentKA(loadSchedule);
+  let voltageDipPercent: number | null = null;
+  let busVoltageDuringStart: number | null = null;
+  let exceedsLimit = false;
+
+  const affectedLoads = loadSchedule.loads
+    .filter(load => load.id !== loadId && load.connectedLoad > 0)
+    .map(load => load.description);
+
+  if (sourceFaultCurrentKA && sourceFaultCurrentKA > 0) {
+    voltageDipPercent = calculateStartingVoltageDip(circuit.startingCurrent, sourceFaultCurrentKA * 1000);
+    busVoltageDuringStart = inputs.voltage * (1 - voltageDipPercent / 100);
+    exceedsLimit = voltageDipPercent > maxVoltageDipPercent;
+
+    if (exceedsLimit) {
+      issues.push(
+        `Starting ${loadItem.description} (${MOTOR_STARTING_METHOD_LABELS[circuit.startingMethod]}) dips the ${loadSchedule.panelName} bus by ${voltageDipPercent.toFixed(1)}%, above the ${maxVoltageDipPercent}% limit for the ${affectedLoads.length} other load(s) on the panel`
+      );
+
+      const alternative = (['star-delta', 'soft-start', 'vfd'] as MotorStartingMethod[])
+        .filter(method => method !== circuit.startingMethod)
+        .find(method => {
+          const multiplier = getStartingCurrentMultiplier(method, inputs.lockedRotorMultiplier);
+          const dip = calculateStartingVoltageDip(circuit.fullLoadCurrent * multiplier, sourceFaultCurrentKA * 1000);
+          return dip <= maxVoltageDipPercent;
+        });
+
+      recommendations.push(
+        alternative
+          ? `Use a ${MOTOR_STARTING_METHOD_LABELS[alternative]} starter for ${loadItem.description} to keep the dip within ${maxVoltageDipPercent}%`
+          : `Supply ${loadItem.description} from a separate panel or a larger transformer; no reduced-voltage starter keeps the dip within ${maxVoltageDipPercent}%`
+      );
+    }
+  } else {
+    recommendations.push(
+      `Run the short-circuit analysis or enter the service transformer for ${loadSchedule.panelName} to estimate the starting voltage dip`
+    );
+  }
+
+  return {
+    loadId,
+    description: loadItem.description,
+    circuit,
+    sourceFaultCurrentKA,
+    voltageDipPercent,
+    busVoltageDuringStart,
+    maxVoltageDipPercent,
+    exceedsLimit,
+    affectedLoads,
+    isCompliant: issues.length === 0,
+    issues,
+    recommendations
+  };
+}
+
+/**
+ * Apply motor branch circuit results to a load item
+ * Sets the protective device to the Table 4.30.52 size and upsizes conductors below
+ * 125% of FLC; conductors already large enough are kept
+ * @param loadSchedule Load schedule to update
+ * @param result Motor starting analysis result
+ * @param inputs Motor circuit inputs used for the analysis
+ * @returns Updated load schedule
+ */
+export function applyMotorCircuitResults(
+  loadSchedule: LoadSchedule,
+  result: MotorStartingAnalysisResult,
+  inputs: MotorCircuitInputs
+): LoadSchedule {
+  const { circuit } = result;
+
+  return {
+    ...loadSchedule,
+    loads: loadSchedule.loads.map((load): LoadItem => {
+      if (load.id !== result.loadId) {
+        return load;
+      }
+
+      const keepConductor = load.conductorSize && !isConductorSmaller(load.conductorSize, circuit.conductorSize);
+
+      return {
+        ...load,
+        circuitBreaker: `${circuit.shortCircuitDeviceRating}A`,
+        conductorSize: keepConductor ? load.conductorSize : circuit.conductorSize,
+        startingCurrentMultiplier: circuit.startingCurrentMultiplier,
+        motorDetails: {
+          horsepower: circuit.horsepower,
+          fullLoadCurrent: circuit.fullLoadCurrent,
+          serviceFactor: inputs.serviceFactor ?? 1.0,
+          startingMethod: circuit.startingMethod,
+          lockedRotorMultiplier: inputs.lockedRotorMultiplier ?? 6,
+          overloadSetting: circuit.overloadSetting,
+          voltageDipPercent: result.voltageDipPercent ?? undefined
+        },
+        circuitDetails: load.circuitDetails ? { ...load.circuitDetails, type: 'motor' } : load.circuitDetails,
+        lastUpdated: Date.now()
+      };
+    })
+  };
+}
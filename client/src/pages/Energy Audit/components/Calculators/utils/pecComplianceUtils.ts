@@ -1,4 +1,4 @@
-import { LoadItem, LoadSchedule } from '../ScheduleOfLoads/types';
+import { LoadItem, LoadSchedule, CONDUCTOR_SIZE_OPTIONS } from '../ScheduleOfLoads/types';
 
 /**
  * Ampacity table for copper conductors (in amperes) based on PEC 2017 Table 2.5
@@ -117,6 +117,18 @@ export function getNextStandardBreakerSize(current: number): number {
   return STANDARD_BREAKER_SIZES[STANDARD_BREAKER_SIZES.length - 1];
 }
 
+/**
+ * Check whether an installed conductor is smaller than a required size
+ * @param installedSize Installed conductor size
+ * @param requiredSize Required conductor size
+ * @returns True if the installed conductor is smaller; false when either size is not a listed size
+ */
+export function isConductorSmaller(installedSize: string, requiredSize: string): boolean {
+  const installedIndex = CONDUCTOR_SIZE_OPTIONS.indexOf(installedSize);
+  const requiredIndex = CONDUCTOR_SIZE_OPTIONS.indexOf(requiredSize);
+  return installedIndex >= 0 && requiredIndex >= 0 && installedIndex < requiredIndex;
+}
+
 /**
  * Check if a load item complies with PEC 2017 standards
  * @param loadItem The load item to check
@@ -151,6 +163,12 @@ export function checkLoadItemCompliance(loadItem: LoadItem, voltage: number): {
     requiredCurrent *= 1.25;
   }
   
+  // Motor branch circuit conductors carry 125% of the table full-load current (PEC 2017 Section 4.30.22)
+  const motorDetails = loadItem.motorDetails;
+  if (motorDetails) {
+    requiredCurrent = Math.max(requiredCurrent, motorDetails.fullLoadCurrent * 1.25);
+  }
+  
   // Check conductor ampacity
   const conductorAmpacity = getConductorAmpacity(conductorSize, isCopper ? 'copper' : 'aluminum');
   if (conductorAmpacity === 0) {
@@ -175,12 +193,32 @@ export function checkLoadItemCompliance(loadItem: LoadItem, voltage: number): {
     recommendations.push(`Increase circuit breaker size to ${nextSize}A`);
   }
   
-  // Check circuit breaker vs conductor ampacity
-  if (breakerSize > conductorAmpacity) {
+  // Check circuit breaker vs conductor ampacity; motor circuits may exceed it up to
+  // the inverse time breaker limit of Table 4.30.52 (PEC 2017 Section 2.40.4(G))
+  if (motorDetails) {
+    const maxMotorBreakerSize = getNextStandardBreakerSize(motorDetails.fullLoadCurrent * 2.5);
+    if (breakerSize > maxMotorBreakerSize) {
+      issues.push(`Circuit breaker size (${breakerSize}A) exceeds the ${maxMotorBreakerSize}A motor short-circuit protection limit`);
+      recommendations.push(`Reduce circuit breaker size to maximum ${maxMotorBreakerSize}A`);
+    }
+  } else if (breakerSize > conductorAmpacity) {
     issues.push(`Circuit breaker size (${breakerSize}A) exceeds conductor ampacity (${conductorAmpacity}A)`);
     recommendations.push(`Reduce circuit breaker size to maximum ${conductorAmpacity}A or increase conductor size`);
   }
   
+  // Check equipment grounding conductor against the size from the grounding calculator (PEC 2017 Section 2.50.122)
+  if (loadItem.requiredEGCSize) {
+    if (!loadItem.equipmentGroundingConductorSize) {
+      issues.push(`No equipment grounding conductor specified (${loadItem.requiredEGCSize} required)`);
+      recommendations.push(`Provide a ${loadItem.requiredEGCSize} equipment grounding conductor`);
+    } else if (isConductorSmaller(loadItem.equipmentGroundingConductorSize, loadItem.requiredEGCSize)) {
+      issues.push(`Equipment grounding conductor (${loadItem.equipmentGroundingConductorSize}) is smaller than required (${loadItem.requiredEGCSize})`);
+      recommendations.push(`Increase equipment grounding conductor to at least ${loadItem.requiredEGCSize}`);
+    }
+  } else if (!loadItem.equipmentGroundingConductorSize) {
+    recommendations.push('Run the grounding calculator to size the equipment grounding conductor');
+  }
+  
   // Check voltage drop if available
   if (loadItem.voltageDropPercent !== undefined) {
     const maxVoltageDropAllowed = loadItem.circuitDetails.maxVoltageDropAllowed || 3; // Default 3% per PEC 2017
@@ -229,6 +267,13 @@ export function checkLoadScheduleCompliance(loadSchedule: LoadSchedule): { isCom
     }
   }
   
+  // Check feeder equipment grounding conductor against the size from the grounding calculator
+  if (loadSchedule.requiredEGCSize && loadSchedule.equipmentGroundingConductorSize &&
+      isConductorSmaller(loadSchedule.equipmentGroundingConductorSize, loadSchedule.requiredEGCSize)) {
+    issues.push(`Feeder equipment grounding conductor (${loadSchedule.equipmentGroundingConductorSize}) is smaller than required (${loadSchedule.requiredEGCSize})`);
+    recommendations.push(`Increase feeder equipment grounding conductor to at least ${loadSchedule.requiredEGCSize}`);
+  }
+  
   // Check phase balance for 3-phase panels
   if (loadSchedule.phaseConfiguration === 'three-phase') {
     // Implement phase balance calculation here when phase details are available
@@ -236,6 +281,19 @@ export function checkLoadScheduleCompliance(loadSchedule: LoadSchedule): { isCom
     recommendations.push('Ensure proper phase balance for three-phase panel');
   }
   
+  // Check breaker interrupting ratings against the fault current from the last short-circuit analysis
+  if (loadSchedule.availableFaultCurrentKA !== undefined) {
+    const faultCurrentKA = loadSchedule.availableFaultCurrentKA;
+    const underratedItems = loadSchedule.loads.filter(
+      loadItem => loadItem.interruptingRatingKA !== undefined && loadItem.interruptingRatingKA < faultCurrentKA
+    );
+    
+    if (underratedItems.length > 0) {
+      issues.push(`${underratedItems.length} breakers have an interrupting rating below the available fault current (${faultCurrentKA.toFixed(2)} kA)`);
+      recommendations.push('Replace underrated breakers with breakers of adequate interrupting rating (kAIC)');
+    }
+  }
+  
   // Check total load items compliance
   let nonCompliantItems = 0;
   for (const loadItem of loadSchedule.loads) {
@@ -0,0 +1,143 @@
+/**
+ * Philippine Solar Irradiance Data
+ *
+ * Typical-meteorological-year global horizontal irradiance (GHI) for major Philippine
+ * cities, given as the mean daily total for each month in kWh/m²/day. Values are rounded
+ * monthly means of long-term satellite-derived climatology; hourly values are synthesized
+ * from these means by the solar PV utilities.
+ */
+
+/**
+ * Interface for a location in the irradiance dataset
+ */
+export interface IrradianceLocation {
+  id: string;
+  name: string;
+  region: string;
+  latitude: number; // degrees north
+  longitude: number; // degrees east
+  monthlyGHI: number[]; // kWh/m²/day, January to December
+}
+
+/**
+ * Monthly mean daily GHI for major Philippine cities
+ */
+export const PHILIPPINE_IRRADIANCE_DATA: IrradianceLocation[] = [
+  {
+    id: 'laoag',
+    name: 'Laoag',
+    region: 'Ilocos Region',
+    latitude: 18.20,
+    longitude: 120.59,
+    monthlyGHI: [4.70, 5.45, 6.30, 6.80, 6.30, 5.40, 4.90, 4.45, 4.80, 5.05, 4.60, 4.30]
+  },
+  {
+    id: 'tuguegarao',
+    name: 'Tuguegarao',
+    region: 'Cagayan Valley',
+    latitude: 17.61,
+    longitude: 121.73,
+    monthlyGHI: [3.90, 4.60, 5.60, 6.30, 6.25, 5.70, 5.55, 5.10, 5.00, 4.45, 3.70, 3.40]
+  },
+  {
+    id: 'baguio',
+    name: 'Baguio',
+    region: 'Cordillera Administrative Region',
+    latitude: 16.41,
+    longitude: 120.60,
+    monthlyGHI: [5.05, 5.62, 6.15, 6.20, 5.40, 4.35, 3.70, 3.45, 3.95, 4.55, 4.70, 4.75]
+  },
+  {
+    id: 'manila',
+    name: 'Manila',
+    region: 'National Capital Region',
+    latitude: 14.60,
+    longitude: 120.98,
+    monthlyGHI: [4.55, 5.32, 6.08, 6.52, 5.91, 4.89, 4.38, 4.12, 4.37, 4.49, 4.38, 4.16]
+  },
+  {
+    id: 'quezon-city',
+    name: 'Quezon City',
+    region: 'National Capital Region',
+    latitude: 14.68,
+    longitude: 121.04,
+    monthlyGHI: [4.40, 5.15, 5.92, 6.38, 5.78, 4.80, 4.30, 4.05, 4.30, 4.40, 4.25, 4.02]
+  },
+  {
+    id: 'legazpi',
+    name: 'Legazpi',
+    region: 'Bicol Region',
+    latitude: 13.14,
+    longitude: 123.74,
+    monthlyGHI: [3.85, 4.45, 5.25, 5.95, 5.95, 5.45, 5.15, 5.20, 5.05, 4.50, 3.95, 3.60]
+  },
+  {
+    id: 'iloilo',
+    name: 'Iloilo City',
+    region: 'Western Visayas',
+    latitude: 10.72,
+    longitude: 122.56,
+    monthlyGHI: [4.60, 5.30, 6.05, 6.45, 5.85, 4.95, 4.55, 4.50, 4.80, 4.80, 4.55, 4.30]
+  },
+  {
+    id: 'cebu',
+    name: 'Cebu City',
+    region: 'Central Visayas',
+    latitude: 10.32,
+    longitude: 123.89,
+    monthlyGHI: [4.45, 5.05, 5.85, 6.30, 5.95, 5.25, 5.05, 5.20, 5.15, 4.80, 4.45, 4.20]
+  },
+  {
+    id: 'tacloban',
+    name: 'Tacloban',
+    region: 'Eastern Visayas',
+    latitude: 11.24,
+    longitude: 125.00,
+    monthlyGHI: [3.90, 4.45, 5.20, 5.80, 5.75, 5.30, 5.10, 5.20, 5.10, 4.60, 4.10, 3.75]
+  },
+  {
+    id: 'cagayan-de-oro',
+    name: 'Cagayan de Oro',
+    region: 'Northern Mindanao',
+    latitude: 8.48,
+    longitude: 124.65,
+    monthlyGHI: [4.55, 5.00, 5.60, 5.80, 5.30, 4.80, 4.70, 4.85, 4.95, 4.75, 4.55, 4.35]
+  },
+  {
+    id: 'davao',
+    name: 'Davao City',
+    region: 'Davao Region',
+    latitude: 7.19,
+    longitude: 125.46,
+    monthlyGHI: [4.85, 5.20, 5.65, 5.65, 5.20, 4.75, 4.70, 4.90, 5.00, 4.90, 4.80, 4.65]
+  },
+  {
+    id: 'zamboanga',
+    name: 'Zamboanga City',
+    region: 'Zamboanga Peninsula',
+    latitude: 6.92,
+    longitude: 122.08,
+    monthlyGHI: [5.05, 5.45, 5.85, 5.85, 5.30, 4.85, 4.85, 5.05, 5.15, 5.00, 4.95, 4.80]
+  },
+  {
+    id: 'general-santos',
+    name: 'General Santos',
+    region: 'SOCCSKSARGEN',
+    latitude: 6.12,
+    longitude: 125.17,
+    monthlyGHI: [5.10, 5.45, 5.85, 5.80, 5.35, 4.90, 4.85, 5.05, 5.20, 5.10, 5.00, 4.90]
+  }
+];
+
+/**
+ * Find a location in the irradiance dataset
+ * @param locationId Location ID
+ * @returns The location
+ */
+export function getIrradianceLocation(locationId: string): IrradianceLocation {
+  const location = PHILIPPINE_IRRADIANCE_DATA.find(item => item.id === locationId);
+  if (!location) {
+    throw new Error(`No irradiance data for location "${locationId}"`);
+  }
+  return location;
+}
@@ -0,0 +1,104 @@
+/**
+ * Return on Investment Utilities
+ *
+ * This module provides the discounted cash-flow metrics (NPV, IRR, payback, ROI and
+ * savings-to-investment ratio) shared by the ROI calculator and the project calculators
+ * that produce their own yearly cash flows
+ */
+
+/**
+ * Interface for one year of a project cash flow
+ */
+export interface YearlyResult {
+  year: number;
+  cashFlow: number;
+  discountedCashFlow: number;
+  cumulativeCashFlow: number;
+  cumulativeDiscountedCashFlow: number;
+}
+
+/**
+ * Interface for the cash-flow metrics of a project
+ */
+export interface CashFlowMetrics {
+  simplePayback: number; // years, initial cost over the first-year net cash flow
+  npv: number;
+  irr: number; // percent
+  roi: number; // percent
+  savingsToInvestmentRatio: number;
+  yearlyResults: YearlyResult[];
+}
+
+/**
+ * Calculate the internal rate of return using the Newton-Raphson method
+ * @param cashFlows Cash flows from year 0 (the negative initial cost) onward
+ * @param guess Starting rate
+ * @returns Internal rate of return as a fraction
+ */
+export function calculateIRR(cashFlows: number[], guess: number = 0.1): number {
+  const maxIterations = 1000;
+  const tolerance = 0.00001;
+  let irr = guess;
+
+  for (let i = 0; i < maxIterations; i++) {
+    let npv = 0;
+    let derivativeNpv = 0;
+
+    for (let j = 0; j < cashFlows.length; j++) {
+      const factor = Math.pow(1 + irr, j);
+      npv += cashFlows[j] / factor;
+      derivativeNpv -= j * cashFlows[j] / Math.pow(1 + irr, j + 1);
+    }
+
+    if (Math.abs(npv) < tolerance) {
+      return irr;
+    }
+
+    irr = irr - npv / derivativeNpv;
+  }
+
+  return irr;
+}
+
+/**
+ * Calculate the discounted cash-flow metrics of a project
+ * @param cashFlows Cash flows from year 0 (the negative initial cost) onward
+ * @param discountRate Discount rate as a fraction
+ * @returns Cash-flow metrics
+ */
+export function analyzeCashFlows(cashFlows: number[], discountRate: number): CashFlowMetrics {
+  if (cashFlows.length < 2 || cashFlows[0] >= 0) {
+    throw new Error('Cash flows must start with a negative initial cost followed by at least one year');
+  }
+
+  const initialCost = -cashFlows[0];
+  const yearlyResults: YearlyResult[] = [];
+  let npv = 0;
+  let cumulativeCashFlow = 0;
+  let cumulativeDiscountedCashFlow = 0;
+
+  cashFlows.forEach((cashFlow, year) => {
+    const discountedCashFlow = cashFlow / Math.pow(1 + discountRate, year);
+
+    npv += discountedCashFlow;
+    cumulativeCashFlow += cashFlow;
+    cumulativeDiscountedCashFlow += discountedCashFlow;
+
+    yearlyResults.push({
+      year,
+      cashFlow,
+      discountedCashFlow,
+      cumulativeCashFlow,
+      cumulativeDiscountedCashFlow
+    });
+  });
+
+  return {
+    simplePayback: initialCost / cashFlows[1],
+    npv,
+    irr: calculateIRR(cashFlows) * 100,
+    roi: ((cumulativeCashFlow + initialCost) / initialCost) * 100,
+    savingsToInvestmentRatio: (cumulativeDiscountedCashFlow + initialCost) / initialCost,
+    yearlyResults
+  };
+}
@@ -0,0 +1,470 @@
+/**
+ * Short-Circuit Calculation Utilities
+ *
+ * This module provides utility functions for estimating the available fault current
+ * at panels and branch circuits using the point-to-point method, and for checking
+ * circuit breaker interrupting ratings (kAIC) against it per PEC 2017 Section 1.10.1.9
+ */
+
+import { LoadItem, LoadSchedule } from '../ScheduleOfLoads/types';
+import { CONDUCTOR_SIZES } from './voltageRegulationUtils';
+import { RESISTIVITY, REACTANCE } from './voltageDropUtils';
+import { getBreakerSizeValue } from './pecComplianceUtils';
+
+/**
+ * Meters to feet conversion factor
+ */
+const FEET_PER_METER = 3.28084;
+
+/**
+ * Line-to-line fault current as a fraction of the three-phase fault current (√3/2),
+ * the starting current for single-phase runs fed from a three-phase system
+ */
+export const LINE_TO_LINE_FAULT_MULTIPLIER = Math.sqrt(3) / 2;
+
+/**
+ * Interface for the service transformer feeding the panels
+ */
+export interface TransformerParameters {
+  kva: number;
+  impedancePercent: number; // Nameplate %Z
+  secondaryVoltage: number; // Line-to-line secondary voltage
+  phaseConfiguration: 'single-phase' | 'three-phase';
+  applyImpedanceTolerance?: boolean; // Use 90% of nameplate %Z (ANSI -10% tolerance), default true
+  utilityFaultMVA?: number; // Available utility fault MVA, infinite bus when omitted
+}
+
+/**
+ * Interface for a conductor run between two points of the distribution system
+ */
+export interface ConductorRunParameters {
+  conductorSize: string; // AWG or MCM/kcmil size
+  conductorLength: number; // In meters
+  conductorMaterial: 'copper' | 'aluminum';
+  conduitMaterial: 'PVC' | 'steel' | 'aluminum';
+  phaseConfiguration: 'single-phase' | 'three-phase';
+  voltage: number; // Voltage used in the point-to-point f factor
+  parallelSets?: number;
+}
+
+/**
+ * Interface for point-to-point calculation results
+ */
+export interface PointToPointResult {
+  startFaultCurrent: number; // A
+  fFactor: number;
+  multiplier: number;
+  faultCurrent: number; // A
+}
+
+/**
+ * Interface for a protective device interrupting rating check
+ */
+export interface InterruptingRatingCheck {
+  breakerRating: number; // A
+  interruptingRatingKA: number;
+  isAssumedRating: boolean; // True when the kAIC was not entered and a typical value was used
+  availableFaultCurrentKA: number;
+  isAdequate: boolean;
+}
+
+/**
+ * Interface for short-circuit results of a single load item
+ */
+export interface LoadItemShortCircuitResult {
+  loadId: string;
+  description: string;
+  conductorSize?: string;
+  conductorLength?: number;
+  faultCurrentKA: number;
+  breaker: InterruptingRatingCheck | null;
+  issues: string[];
+}
+
+/**
+ * Interface for short-circuit results of a whole panel
+ */
+export interface PanelShortCircuitResult {
+  panelId: string;
+  panelName: string;
+  transformerFullLoadCurrent: number; // A
+  transformerFaultCurrentKA: number;
+  panelFaultCurrentKA: number;
+  feeder: PointToPointResult | null;
+  mainBreaker: InterruptingRatingCheck | null;
+  loadResults: LoadItemShortCircuitResult[];
+  isCompliant: boolean;
+  issues: string[];
+  recommendations: string[];
+}
+
+/**
+ * Options for a panel short-circuit analysis
+ */
+export interface ShortCircuitAnalysisOptions {
+  conductorMaterial?: 'copper' | 'aluminum'; // Feeder material, default copper
+  conduitMaterial?: 'PVC' | 'steel' | 'aluminum'; // Default PVC
+}
+
+/**
+ * Typical molded-case circuit breaker interrupting ratings (kA symmetrical)
+ * used when a breaker's kAIC has not been entered. Values are conservative
+ * ratings for standard-frame breakers at 240V and below
+ */
+export const TYPICAL_INTERRUPTING_RATINGS: { maxAmps: number; ratingKA: number }[] = [
+  { maxAmps: 100, ratingKA: 10 },
+  { maxAmps: 250, ratingKA: 25 },
+  { maxAmps: 600, ratingKA: 35 },
+  { maxAmps: 1200, ratingKA: 50 },
+  { maxAmps: Infinity, ratingKA: 65 }
+];
+
+/**
+ * Standard interrupting ratings offered by manufacturers (kA)
+ */
+export const STANDARD_INTERRUPTING_RATINGS = [10, 14, 18, 22, 25, 35, 42, 50, 65, 85, 100, 150, 200];
+
+/**
+ * Get the circular mil area of a conductor size
+ *
+ * Accepts both the "MCM" keys of CONDUCTOR_SIZES and the "kcmil" labels
+ * used in the Schedule of Loads options
+ *
+ * @param conductorSize - Conductor size (e.g. "12 AWG", "250 kcmil")
+ * @returns Circular mils, or 0 if the size is unknown
+ */
+export function getConductorCircularMils(conductorSize: string): number {
+  const normalized = conductorSize.trim().replace(/\s*kcmil$/i, ' MCM');
+  if (CONDUCTOR_SIZES[normalized]) {
+    return CONDUCTOR_SIZES[normalized];
+  }
+
+  const kcmilMatch = normalized.match(/^(\d+)\s*MCM$/i);
+  return kcmilMatch ? parseInt(kcmilMatch[1], 10) * 1000 : 0;
+}
+
+/**
+ * Calculate the impedance of one conductor per foot of run
+ *
+ * @param run - Conductor run parameters
+ * @returns Impedance in ohms per foot
+ */
+export function calculateConductorImpedancePerFoot(run: ConductorRunParameters): number {
+  const circularMils = getConductorCircularMils(run.conductorSize);
+  if (!circularMils) {
+    throw new Error(`Invalid conductor size: ${run.conductorSize}`);
+  }
+
+  const resistance = RESISTIVITY[run.conductorMaterial] / circularMils;
+  const reactance = REACTANCE[run.conduitMaterial][run.phaseConfiguration] / 1000;
+
+  return Math.sqrt(resistance * resistance + reactance * reactance);
+}
+
+/**
+ * Calculate the full-load and available fault current at the transformer secondary
+ *
+ * @param transformer - Transformer parameters
+ * @returns Full-load current and fault current in amperes
+ */
+export function calculateTransformerFaultCurrent(transformer: TransformerParameters): {
+  fullLoadCurrent: number;
+  faultCurrent: number;
+} {
+  const {
+    kva,
+    impedancePercent,
+    secondaryVoltage,
+    phaseConfiguration,
+    applyImpedanceTolerance = true,
+    utilityFaultMVA
+  } = transformer;
+
+  if (kva <= 0 || impedancePercent <= 0 || secondaryVoltage <= 0) {
+    throw new Error('Transformer kVA, impedance and secondary voltage must be greater than zero');
+  }
+
+  const fullLoadCurrent = phaseConfiguration === 'three-phase'
+    ? (kva * 1000) / (Math.sqrt(3) * secondaryVoltage)
+    : (kva * 1000) / secondaryVoltage;
+
+  // Transformer impedance, reduced by the manufacturing tolerance for a worst case value
+  let totalImpedancePercent = applyImpedanceTolerance ? impedancePercent * 0.9 : impedancePercent;
+
+  // Utility source impedance expressed on the transformer kVA base
+  if (utilityFaultMVA && utilityFaultMVA > 0) {
+    totalImpedancePercent += (kva / (utilityFaultMVA * 1000)) * 100;
+  }
+
+  return {
+    fullLoadCurrent,
+    faultCurrent: fullLoadCurrent * (100 / totalImpedancePercent)
+  };
+}
+
+/**
+ * Calculate the fault current at the end of a conductor run using the point-to-point method
+ *
+ * f = 1.732 × L × I / (C × n × E) for three-phase faults
+ * f = 2 × L × I / (C × n × E) for single-phase faults
+ * M = 1 / (1 + f)
+ *
+ * where C is the conductor constant (the reciprocal of its impedance per foot)
+ *
+ * @param startFaultCurrent - Available fault current at the start of the run (A)
+ * @param run - Conductor run parameters
+ * @returns Point-to-point calculation results
+ */
+export function calculatePointToPointFaultCurrent(
+  startFaultCurrent: number,
+  run: ConductorRunParameters
+): PointToPointResult {
+  const lengthFeet = run.conductorLength * FEET_PER_METER;
+  const parallelSets = run.parallelSets && run.parallelSets > 0 ? run.parallelSets : 1;
+  const conductorConstant = 1 / calculateConductorImpedancePerFoot(run);
+  const phaseMultiplier = run.phaseConfiguration === 'three-phase' ? Math.sqrt(3) : 2;
+
+  const fFactor = (phaseMultiplier * lengthFeet * startFaultCurrent) /
+    (conductorConstant * parallelSets * run.voltage);
+  const multiplier = 1 / (1 + fFactor);
+
+  return {
+    startFaultCurrent,
+    fFactor,
+    multiplier,
+    faultCurrent: startFaultCurrent * multiplier
+  };
+}
+
+/**
+ * Get the typical interrupting rating of a breaker when none has been specified
+ *
+ * @param breakerRating - Breaker trip rating in amperes
+ * @returns Interrupting rating in kA
+ */
+export function getTypicalInterruptingRating(breakerRating: number): number {
+  const entry = TYPICAL_INTERRUPTING_RATINGS.find(item => breakerRating <= item.maxAmps);
+  return entry ? entry.ratingKA : TYPICAL_INTERRUPTING_RATINGS[TYPICAL_INTERRUPTING_RATINGS.length - 1].ratingKA;
+}
+
+/**
+ * Get the smallest standard interrupting rating that can clear a fault
+ *
+ * @param faultCurrentKA - Available fault current in kA
+ * @returns Standard interrupting rating in kA
+ */
+export function getRequiredInterruptingRating(faultCurrentKA: number): number {
+  for (const rating of STANDARD_INTERRUPTING_RATINGS) {
+    if (rating >= faultCurrentKA) {
+      return rating;
+    }
+  }
+  return STANDARD_INTERRUPTING_RATINGS[STANDARD_INTERRUPTING_RATINGS.length - 1];
+}
+
+/**
+ * Check a breaker's interrupting rating against the available fault current
+ *
+ * @param circuitBreaker - Breaker size string (e.g. "20A")
+ * @param interruptingRatingKA - Entered kAIC, typical value used when undefined
+ * @param faultCurrentKA - Available fault current at the breaker line side in kA
+ * @returns Interrupting rating check, or null if no breaker is specified
+ */
+export function checkInterruptingRating(
+  circuitBreaker: string | undefined,
+  interruptingRatingKA: number | undefined,
+  faultCurrentKA: number
+): InterruptingRatingCheck | null {
+  if (!circuitBreaker) {
+    return null;
+  }
+
+  const breakerRating = getBreakerSizeValue(circuitBreaker);
+  const isAssumedRating = !interruptingRatingKA;
+  const rating = interruptingRatingKA || getTypicalInterruptingRating(breakerRating);
+
+  return {
+    breakerRating,
+    interruptingRatingKA: rating,
+    isAssumedRating,
+    availableFaultCurrentKA: faultCurrentKA,
+    isAdequate: rating >= faultCurrentKA
+  };
+}
+
+/**
+ * Get the fault current at the start of a run for the kind of fault the run can carry
+ *
+ * @param faultCurrent - Fault current at the source, of the source's phase configuration (A)
+ * @param sourcePhaseConfiguration - Phase configuration of the system feeding the run
+ * @param runPhaseConfiguration - Phase configuration of the run
+ * @returns Starting fault current for the point-to-point calculation (A)
+ */
+export function getStartFaultCurrent(
+  faultCurrent: number,
+  sourcePhaseConfiguration: 'single-phase' | 'three-phase',
+  runPhaseConfiguration: 'single-phase' | 'three-phase'
+): number {
+  return sourcePhaseConfiguration === 'three-phase' && runPhaseConfiguration === 'single-phase'
+    ? faultCurrent * LINE_TO_LINE_FAULT_MULTIPLIER
+    : faultCurrent;
+}
+
+/**
+ * Get the phase configuration of a branch circuit
+ */
+function getLoadItemPhaseConfiguration(
+  loadItem: LoadItem,
+  panelPhaseConfiguration: 'single-phase' | 'three-phase'
+): 'single-phase' | 'three-phase' {
+  if (panelPhaseConfiguration === 'single-phase') {
+    return 'single-phase';
+  }
+  return loadItem.circuitDetails?.poles === 3 ? 'three-phase' : 'single-phase';
+}
+
+/**
+ * Calculate the available fault current at a panel and at every load item
+ *
+ * The panel feeder is the load schedule's conductorSize/conductorLength; each
+ * branch circuit uses the load item's conductorSize/conductorLength. Runs with
+ * missing size or length are treated as zero length (fault current carried through)
+ *
+ * @param loadSchedule - Load schedule (panel) to analyze
+ * @param transformer - Service transformer parameters
+ * @param options - Analysis options
+ * @returns Panel short-circuit results
+ */
+export function analyzePanelShortCircuit(
+  loadSchedule: LoadSchedule,
+  transformer: TransformerParameters,
+  options: ShortCircuitAnalysisOptions = {}
+): PanelShortCircuitResult {
+  const { conductorMaterial = 'copper', conduitMaterial = 'PVC' } = options;
+  const phaseConfiguration = loadSchedule.phaseConfiguration || transformer.phaseConfiguration;
+  const issues: string[] = [];
+  const recommendations: string[] = [];
+
+  const { fullLoadCurrent, faultCurrent: transformerFaultCurrent } = calculateTransformerFaultCurrent(transformer);
+
+  // Fault current at the panel bus through the feeder; a single-phase panel on a three-phase
+  // transformer sees a line-to-line fault
+  let feeder: PointToPointResult | null = null;
+  const feederStartFaultCurrent = getStartFaultCurrent(transformerFaultCurrent, transformer.phaseConfiguration, phaseConfiguration);
+  let panelFaultCurrent = feederStartFaultCurrent;
+
+  if (loadSchedule.conductorSize && loadSchedule.conductorLength && getConductorCircularMils(loadSchedule.conductorSize)) {
+    feeder = calculatePointToPointFaultCurrent(feederStartFaultCurrent, {
+      conductorSize: loadSchedule.conductorSize,
+      conductorLength: loadSchedule.conductorLength,
+      conductorMaterial,
+      conduitMaterial,
+      phaseConfiguration,
+      voltage: transformer.secondaryVoltage,
+      parallelSets: loadSchedule.parallelSets
+    });
+    panelFaultCurrent = feeder.faultCurrent;
+  } else {
+    recommendations.push('Enter the feeder conductor size and length to account for feeder impedance; transformer secondary fault current was used for the panel');
+  }
+
+  const panelFaultCurrentKA = panelFaultCurrent / 1000;
+
+  // The main breaker is installed in the panel, at the load end of the feeder
+  const mainBreaker = checkInterruptingRating(
+    loadSchedule.circuitBreaker,
+    loadSchedule.interruptingRatingKA,
+    panelFaultCurrentKA
+  );
+
+  if (mainBreaker && !mainBreaker.isAdequate) {
+    issues.push(`Main breaker interrupting rating (${mainBreaker.interruptingRatingKA} kA) is below the available fault current (${mainBreaker.availableFaultCurrentKA.toFixed(2)} kA)`);
+    recommendations.push(`Use a main breaker rated at least ${getRequiredInterruptingRating(mainBreaker.availableFaultCurrentKA)} kAIC`);
+  }
+
+  // Fault current at the end of each branch circuit
+  const loadResults: LoadItemShortCircuitResult[] = loadSchedule.loads.map(loadItem => {
+    const itemIssues: string[] = [];
+    const itemPhaseConfiguration = getLoadItemPhaseConfiguration(loadItem, phaseConfiguration);
+    const itemMaterial = loadItem.circuitDetails?.wireType?.includes('ALUMINUM') ? 'aluminum' : 'copper';
+
+    let faultCurrent = panelFaultCurrent;
+    if (loadItem.conductorSize && loadItem.conductorLength && getConductorCircularMils(loadItem.conductorSize)) {
+      // Single-pole and two-pole circuits of a three-phase panel carry a line-to-line fault
+      const startFaultCurrent = getStartFaultCurrent(panelFaultCurrent, phaseConfiguration, itemPhaseConfiguration);
+      faultCurrent = calculatePointToPointFaultCurrent(startFaultCurrent, {
+        conductorSize: loadItem.conductorSize,
+        conductorLength: loadItem.conductorLength,
+        conductorMaterial: itemMaterial,
+        conduitMaterial,
+        phaseConfiguration: itemPhaseConfiguration,
+        voltage: loadSchedule.voltage,
+        parallelSets: loadItem.parallelSets
+      }).faultCurrent;
+    }
+
+    // Branch breakers are installed in the panel, so they see the panel bus fault current
+    const breaker = checkInterruptingRating(loadItem.circuitBreaker, loadItem.interruptingRatingKA, panelFaultCurrentKA);
+    if (breaker && !breaker.isAdequate) {
+      itemIssues.push(`Breaker interrupting rating (${breaker.interruptingRatingKA} kA) is below the available fault current at the panel (${panelFaultCurrentKA.toFixed(2)} kA)`);
+    }
+
+    return {
+      loadId: loadItem.id,
+      description: loadItem.description,
+      conductorSize: loadItem.conductorSize,
+      conductorLength: loadItem.conductorLength,
+      faultCurrentKA: faultCurrent / 1000,
+      breaker,
+      issues: itemIssues
+    };
+  });
+
+  const inadequateBranches = loadResults.filter(result => result.breaker && !result.breaker.isAdequate).length;
+  if (inadequateBranches > 0) {
+    issues.push(`${inadequateBranches} branch breakers have an interrupting rating below the available fault current`);
+    recommendations.push(`Use branch breakers rated at least ${getRequiredInterruptingRating(panelFaultCurrentKA)} kAIC or apply a series-rated combination`);
+  }
+
+  if (loadResults.some(result => result.breaker?.isAssumedRating) || mainBreaker?.isAssumedRating) {
+    recommendations.push('Some interrupting ratings were not entered and typical molded-case values were assumed; verify against breaker nameplates');
+  }
+
+  return {
+    panelId: loadSchedule.id,
+    panelName: loadSchedule.panelName,
+    transformerFullLoadCurrent: fullLoadCurrent,
+    transformerFaultCurrentKA: transformerFaultCurrent / 1000,
+    panelFaultCurrentKA,
+    feeder,
+    mainBreaker,
+    loadResults,
+    isCompliant: issues.length === 0,
+    issues,
+    recommendations
+  };
+}
+
+/**
+ * Write short-circuit results back into a load schedule
+ *
+ * @param loadSchedule - Load schedule that was analyzed
+ * @param result - Panel short-circuit results
+ * @returns Updated load schedule
+ */
+export function applyShortCircuitResults(
+  loadSchedule: LoadSchedule,
+  result: PanelShortCircuitResult
+): LoadSchedule {
+  return {
+    ...loadSchedule,
+    availableFaultCurrentKA: result.panelFaultCurrentKA,
+    loads: loadSchedule.loads.map(loadItem => {
+      const loadResult = result.loadResults.find(item => item.loadId === loadItem.id);
+      return loadResult
+        ? { ...loadItem, availableFaultCurrentKA: loadResult.faultCurrentKA }
+        : loadItem;
+    }),
+    lastUpdated: Date.now()
+  };
+}
@@ -0,0 +1,522 @@
+/**
+ * Solar PV Rooftop Sizing and Net-Metering Utilities
+ *
+ * This module provides utility functions for sizing a rooftop solar PV system from the
+ * building's roof area, simulating its hourly output against the load profile of the
+ * building's load schedules, valuing self-consumption and exports under the Philippine
+ * net-metering program (RA 9513, ERC net-metering rules), and building the project cash flow
+ */
+
+import { BuildingData } from '../../BuildingVisualization/interfaces';
+import { LoadSchedule } from '../ScheduleOfLoads/types';
+import { getHourlyLoadFactors } from './equipmentSizingUtils';
+import { getIrradianceLocation, IrradianceLocation } from './philippineIrradiance';
+import { analyzeCashFlows, CashFlowMetrics } from './roiUtils';
+
+/**
+ * Hours in the daily profile
+ */
+const HOURS_PER_DAY = 24;
+
+/**
+ * Days of the week as used by LoadSchedule.hours
+ */
+export const DAYS_OF_WEEK = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+/**
+ * Days in each month of a typical year
+ */
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/**
+ * Month labels
+ */
+export const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Sunrise and sunset hours used to shape the daily irradiance profile
+ */
+const SUNRISE_HOUR = 6;
+const SUNSET_HOUR = 18;
+
+/**
+ * Largest system eligible for net-metering under the ERC rules in kWp
+ */
+export const NET_METERING_MAX_KWP = 100;
+
+/**
+ * Interface for the roof area taken from the building data
+ */
+export interface RoofAreaEstimate {
+  floorName: string; // floor with the largest footprint
+  footprintArea: number; // m²
+  usableArea: number; // m²
+}
+
+/**
+ * Interface for solar PV sizing, tariff and financial options
+ */
+export interface SolarPVOptions {
+  locationId?: string;
+  moduleEfficiencyPercent?: number;
+  performanceRatio?: number;
+  systemSizeKWp?: number; // defaults to the largest system the roof can hold
+  unoccupiedLoadFactor?: number; // fraction of demand drawn outside operating hours
+  netMetering?: boolean;
+  importRate?: number; // PHP/kWh
+  exportRate?: number; // PHP/kWh, net-metering credit (blended generation charge)
+  installedCostPerKWp?: number; // PHP/kWp
+  annualOMPercent?: number; // percent of installed cost
+  inverterReplacementYear?: number;
+  inverterReplacementCostPerKWp?: number; // PHP/kWp
+  degradationPercent?: number; // per year
+  tariffEscalationPercent?: number; // per year
+  inflationPercent?: number; // per year, applied to O&M
+  discountRatePercent?: number;
+  projectLifespan?: number; // years
+}
+
+/**
+ * Solar PV options with every default filled in
+ */
+export type ResolvedSolarPVOptions = Required<Omit<SolarPVOptions, 'systemSizeKWp'>>;
+
+/**
+ * Default solar PV options
+ */
+export const DEFAULT_SOLAR_PV_OPTIONS: ResolvedSolarPVOptions = {
+  locationId: 'manila',
+  moduleEfficiencyPercent: 20,
+  performanceRatio: 0.78,
+  unoccupiedLoadFactor: 0.1,
+  netMetering: true,
+  importRate: 11.5,
+  exportRate: 5.5,
+  installedCostPerKWp: 50000,
+  annualOMPercent: 1,
+  inverterReplacementYear: 12,
+  inverterReplacementCostPerKWp: 7000,
+  degradationPercent: 0.5,
+  tariffEscalationPercent: 3,
+  inflationPercent: 3,
+  discountRatePercent: 8,
+  projectLifespan: 25
+};
+
+/**
+ * Interface for one month of the energy balance
+ */
+export interface MonthlyEnergyBalance {
+  month: string;
+  generationKWh: number;
+  loadKWh: number;
+  selfConsumedKWh: number;
+  exportedKWh: number;
+  importedKWh: number;
+  exportCredit: number; // PHP earned this month
+  creditApplied: number; // PHP applied against this month's energy charge
+}
+
+/**
+ * Interface for one hour of the average daily profile
+ */
+export interface HourlyProfilePoint {
+  hour: number;
+  generationKW: number;
+  loadKW: number;
+}
+
+/**
+ * Interface for the annual energy balance of the PV system
+ */
+export interface EnergyBalanceResult {
+  monthly: MonthlyEnergyBalance[];
+  averageDayProfile: HourlyProfilePoint[];
+  annualGenerationKWh: number;
+  annualLoadKWh: number;
+  annualSelfConsumedKWh: number;
+  annualExportedKWh: number;
+  annualImportedKWh: number;
+  annualCreditApplied: number; // PHP
+  unusedCredit: number; // PHP carried beyond the year
+  specificYield: number; // kWh/kWp
+  selfConsumptionPercent: number; // share of generation used on site
+  solarFractionPercent: number; // share of load met by PV
+}
+
+/**
+ * Interface for the solar PV cash flow
+ */
+export interface SolarPVFinancialResult {
+  capitalCost: number; // PHP
+  yearOneSavings: number; // PHP
+  yearOneOMCost: number; // PHP
+  cashFlows: number[]; // PHP, year 0 onward
+  metrics: CashFlowMetrics;
+  levelizedCostPerKWh: number; // PHP/kWh
+}
+
+/**
+ * Interface for the complete solar PV analysis
+ */
+export interface SolarPVResult {
+  location: IrradianceLocation;
+  roofCapacityKWp: number;
+  systemSizeKWp: number;
+  arrayArea: number; // m²
+  netMeteringEligible: boolean;
+  energy: EnergyBalanceResult;
+  financial: SolarPVFinancialResult;
+  options: ResolvedSolarPVOptions;
+  issues: string[];
+  recommendations: string[];
+}
+
+/**
+ * Estimate the usable roof area from the building's room data
+ * The roof footprint is taken as the floor with the largest total room area
+ * @param buildingData Building data from the building visualization
+ * @param usableRoofFraction Fraction of the roof free of setbacks, equipment and shading
+ * @returns Roof area estimate
+ */
+export function estimateRoofArea(buildingData: BuildingData, usableRoofFraction: number = 0.7): RoofAreaEstimate {
+  if (usableRoofFraction <= 0 || usableRoofFraction > 1) {
+    throw new Error('Usable roof fraction must be greater than 0 and at most 1');
+  }
+
+  let floorName = '';
+  let footprintArea = 0;
+
+  Object.values(buildingData.floors || {}).forEach(floor => {
+    const area = (floor.rooms || []).reduce((sum, room) => sum + (room.area || room.length * room.width || 0), 0);
+    if (area > footprintArea) {
+      footprintArea = area;
+      floorName = floor.name;
+    }
+  });
+
+  if (footprintArea <= 0) {
+    throw new Error('Building data has no room areas to estimate the roof from');
+  }
+
+  return {
+    floorName,
+    footprintArea,
+    usableArea: footprintArea * usableRoofFraction
+  };
+}
+
+/**
+ * Distribute a daily irradiation total over the hours of the day
+ * Uses a half-sine profile between sunrise and sunset, integrated over each hour
+ * @param dailyIrradiation Daily irradiation in kWh/m²
+ * @returns 24 hourly irradiation values in kWh/m²
+ */
+export function getHourlyIrradiance(dailyIrradiation: number): number[] {
+  const dayLength = SUNSET_HOUR - SUNRISE_HOUR;
+  const profileTotal = (2 * dayLength) / Math.PI;
+
+  return Array.from({ length: HOURS_PER_DAY }, (_, hour) => {
+    if (hour < SUNRISE_HOUR || hour >= SUNSET_HOUR) {
+      return 0;
+    }
+    const start = Math.PI * (hour - SUNRISE_HOUR) / dayLength;
+    const end = Math.PI * (hour + 1 - SUNRISE_HOUR) / dayLength;
+    const weight = (dayLength / Math.PI) * (Math.cos(start) - Math.cos(end));
+    return dailyIrradiation * weight / profileTotal;
+  });
+}
+
+/**
+ * Parse an "HH:MM" time into fractional hours
+ */
+const parseTime = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  return (hours || 0) + (minutes || 0) / 60;
+};
+
+/**
+ * Get the fraction of each hour of a day covered by the operating periods
+ * @param periods Operating periods for the day
+ * @returns 24 hourly fractions between 0 and 1
+ */
+export function getOperatingFractions(periods: { start: string; end: string }[]): number[] {
+  const fractions = new Array(HOURS_PER_DAY).fill(0);
+
+  periods.forEach(period => {
+    const start = parseTime(period.start);
+    // An end of 00:00 means the period runs to midnight
+    const end = period.end === '00:00' ? HOURS_PER_DAY : parseTime(period.end);
+
+    for (let hour = 0; hour < HOURS_PER_DAY; hour++) {
+      const overlap = Math.min(end, hour + 1) - Math.max(start, hour);
+      if (overlap > 0) {
+        fractions[hour] = Math.min(1, fractions[hour] + overlap);
+      }
+    }
+  });
+
+  return fractions;
+}
+
+/**
+ * Get the share of a panel's demand drawn in each hour of the week
+ * Panels with operating hours run at their occupancy factors during those hours and at the
+ * unoccupied load factor outside them; panels without operating hours follow their occupancy
+ * factors every day
+ * @param loadSchedule Load schedule (panel)
+ * @param unoccupiedLoadFactor Fraction of demand drawn outside operating hours
+ * @returns Seven days (Monday to Sunday) of 24 hourly factors between 0 and 1
+ */
+export function getWeeklyLoadFactors(loadSchedule: LoadSchedule, unoccupiedLoadFactor: number = 0.1): number[][] {
+  const factors = getHourlyLoadFactors(loadSchedule);
+  const hasHours = !!loadSchedule.hours && Object.keys(loadSchedule.hours).length > 0;
+
+  return DAYS_OF_WEEK.map(day => {
+    const operating = hasHours
+      ? getOperatingFractions(loadSchedule.hours?.[day] || [])
+      : new Array(HOURS_PER_DAY).fill(1);
+
+    return operating.map((fraction, hour) => fraction * factors[hour] + (1 - fraction) * unoccupiedLoadFactor);
+  });
+}
+
+/**
+ * Build the hourly building load for each day of the week
+ * @param loadSchedules Load schedules (panels) to include
+ * @param unoccupiedLoadFactor Fraction of demand drawn outside operating hours
+ * @returns Seven days (Monday to Sunday) of 24 hourly loads in kW
+ */
+export function getWeeklyLoadProfile(loadSchedules: LoadSchedule[], unoccupiedLoadFactor: number = 0.1): number[][] {
+  const week = DAYS_OF_WEEK.map(() => new Array(HOURS_PER_DAY).fill(0));
+
+  loadSchedules.forEach(loadSchedule => {
+    const demandKW = loadSchedule.totalDemandLoad / 1000;
+    getWeeklyLoadFactors(loadSchedule, unoccupiedLoadFactor).forEach((day, dayIndex) => {
+      day.forEach((factor, hour) => {
+        week[dayIndex][hour] += demandKW * factor;
+      });
+    });
+  });
+
+  return week;
+}
+
+/**
+ * Simulate a year of PV generation against the weekly load profile
+ * Each month is simulated on its mean irradiance day, with its days spread evenly over the
+ * week. Export credits are applied against the month's energy import charge and any excess
+ * carries forward to later months
+ * @param systemSizeKWp PV system size
+ * @param location Irradiance location
+ * @param weeklyLoad Weekly load profile from getWeeklyLoadProfile
+ * @param options Tariff and performance options
+ * @returns Annual energy balance
+ */
+export function simulateEnergyBalance(
+  systemSizeKWp: number,
+  location: IrradianceLocation,
+  weeklyLoad: number[][],
+  options: { performanceRatio: number; importRate: number; exportRate: number }
+): EnergyBalanceResult {
+  const averageDay = Array.from({ length: HOURS_PER_DAY }, (_, hour) => ({ hour, generationKW: 0, loadKW: 0 }));
+  let creditBalance = 0;
+
+  const monthly: MonthlyEnergyBalance[] = location.monthlyGHI.map((ghi, monthIndex) => {
+    const daysPerWeekday = DAYS_IN_MONTH[monthIndex] / DAYS_OF_WEEK.length;
+    const generation = getHourlyIrradiance(ghi).map(irradiation => systemSizeKWp * irradiation * options.performanceRatio);
+    const balance = { generationKWh: 0, loadKWh: 0, selfConsumedKWh: 0, exportedKWh: 0, importedKWh: 0 };
+
+    weeklyLoad.forEach(dayLoad => {
+      dayLoad.forEach((load, hour) => {
+        const selfConsumed = Math.min(generation[hour], load);
+        balance.generationKWh += generation[hour] * daysPerWeekday;
+        balance.loadKWh += load * daysPerWeekday;
+        balance.selfConsumedKWh += selfConsumed * daysPerWeekday;
+        balance.exportedKWh += (generation[hour] - selfConsumed) * daysPerWeekday;
+        balance.importedKWh += (load - selfConsumed) * daysPerWeekday;
+
+        averageDay[hour].generationKW += generation[hour] * daysPerWeekday / 365;
+        averageDay[hour].loadKW += load * daysPerWeekday / 365;
+      });
+    });
+
+    const exportCredit = balance.exportedKWh * options.exportRate;
+    creditBalance += exportCredit;
+    const creditApplied = Math.min(creditBalance, balance.importedKWh * options.importRate);
+    creditBalance -= creditApplied;
+
+    return { month: MONTH_LABELS[monthIndex], ...balance, exportCredit, creditApplied };
+  });
+
+  const sum = (key: keyof Omit<MonthlyEnergyBalance, 'month'>) => monthly.reduce((total, month) => total + month[key], 0);
+  const annualGenerationKWh = sum('generationKWh');
+  const annualLoadKWh = sum('loadKWh');
+  const annualSelfConsumedKWh = sum('selfConsumedKWh');
+
+  return {
+    monthly,
+    averageDayProfile: averageDay,
+    annualGenerationKWh,
+    annualLoadKWh,
+    annualSelfConsumedKWh,
+    annualExportedKWh: sum('exportedKWh'),
+    annualImportedKWh: sum('importedKWh'),
+    annualCreditApplied: sum('creditApplied'),
+    unusedCredit: creditBalance,
+    specificYield: systemSizeKWp > 0 ? annualGenerationKWh / systemSizeKWp : 0,
+    selfConsumptionPercent: annualGenerationKWh > 0 ? (annualSelfConsumedKWh / annualGenerationKWh) * 100 : 0,
+    solarFractionPercent: annualLoadKWh > 0 ? (annualSelfConsumedKWh / annualLoadKWh) * 100 : 0
+  };
+}
+
+/**
+ * Build the PV project cash flow and its ROI metrics
+ * Yearly savings follow module degradation and tariff escalation; O&M follows inflation
+ * @param systemSizeKWp PV system size
+ * @param energy Annual energy balance
+ * @param options Tariff and financial options
+ * @returns Cash flow and metrics
+ */
+export function calculateSolarPVCashFlow(
+  systemSizeKWp: number,
+  energy: EnergyBalanceResult,
+  options: ResolvedSolarPVOptions
+): SolarPVFinancialResult {
+  const capitalCost = systemSizeKWp * options.installedCostPerKWp;
+  const yearOneSavings = energy.annualSelfConsumedKWh * options.importRate + energy.annualCreditApplied;
+  const yearOneOMCost = capitalCost * options.annualOMPercent / 100;
+  const discountRate = options.discountRatePercent / 100;
+
+  const cashFlows = [-capitalCost];
+  let discountedCosts = capitalCost;
+  let discountedEnergy = 0;
+
+  for (let year = 1; year <= options.projectLifespan; year++) {
+    const degradation = Math.pow(1 - options.degradationPercent / 100, year - 1);
+    const escalation = Math.pow(1 + options.tariffEscalationPercent / 100, year - 1);
+    let cost = yearOneOMCost * Math.pow(1 + options.inflationPercent / 100, year - 1);
+
+    if (year === options.inverterReplacementYear && year < options.projectLifespan) {
+      cost += systemSizeKWp * options.inverterReplacementCostPerKWp;
+    }
+
+    cashFlows.push(yearOneSavings * degradation * escalation - cost);
+
+    const discountFactor = Math.pow(1 + discountRate, year);
+    discountedCosts += cost / discountFactor;
+    discountedEnergy += energy.annualGenerationKWh * degradation / discountFactor;
+  }
+
+  return {
+    capitalCost,
+    yearOneSavings,
+    yearOneOMCost,
+    cashFlows,
+    metrics: analyzeCashFlows(cashFlows, discountRate),
+    levelizedCostPerKWh: discountedEnergy > 0 ? discountedCosts / discountedEnergy : 0
+  };
+}
+
+/**
+ * Size a rooftop PV system and evaluate it under net-metering
+ * @param usableRoofArea Usable roof area in m²
+ * @param loadSchedules Load schedules (panels) that make up the building load
+ * @param options Sizing, tariff and financial options
+ * @returns Solar PV analysis with findings
+ */
+export function analyzeSolarPV(
+  usableRoofArea: number,
+  loadSchedules: LoadSchedule[],
+  options: SolarPVOptions = {}
+): SolarPVResult {
+  if (usableRoofArea <= 0) {
+    throw new Error('Usable roof area must be greater than 0');
+  }
+  if (loadSchedules.length === 0) {
+    throw new Error('At least one load schedule is required to build the load profile');
+  }
+
+  const resolved: ResolvedSolarPVOptions = {
+    locationId: options.locationId ?? DEFAULT_SOLAR_PV_OPTIONS.locationId,
+    moduleEfficiencyPercent: options.moduleEfficiencyPercent ?? DEFAULT_SOLAR_PV_OPTIONS.moduleEfficiencyPercent,
+    performanceRatio: options.performanceRatio ?? DEFAULT_SOLAR_PV_OPTIONS.performanceRatio,
+    unoccupiedLoadFactor: options.unoccupiedLoadFactor ?? DEFAULT_SOLAR_PV_OPTIONS.unoccupiedLoadFactor,
+    netMetering: options.netMetering ?? DEFAULT_SOLAR_PV_OPTIONS.netMetering,
+    importRate: options.importRate ?? DEFAULT_SOLAR_PV_OPTIONS.importRate,
+    exportRate: options.exportRate ?? DEFAULT_SOLAR_PV_OPTIONS.exportRate,
+    installedCostPerKWp: options.installedCostPerKWp ?? DEFAULT_SOLAR_PV_OPTIONS.installedCostPerKWp,
+    annualOMPercent: options.annualOMPercent ?? DEFAULT_SOLAR_PV_OPTIONS.annualOMPercent,
+    inverterReplacementYear: options.inverterReplacementYear ?? DEFAULT_SOLAR_PV_OPTIONS.inverterReplacementYear,
+    inverterReplacementCostPerKWp: options.inverterReplacementCostPerKWp ?? DEFAULT_SOLAR_PV_OPTIONS.inverterReplacementCostPerKWp,
+    degradationPercent: options.degradationPercent ?? DEFAULT_SOLAR_PV_OPTIONS.degradationPercent,
+    tariffEscalationPercent: options.tariffEscalationPercent ?? DEFAULT_SOLAR_PV_OPTIONS.tariffEscalationPercent,
+    inflationPercent: options.inflationPercent ?? DEFAULT_SOLAR_PV_OPTIONS.inflationPercent,
+    discountRatePercent: options.discountRatePercent ?? DEFAULT_SOLAR_PV_OPTIONS.discountRatePercent,
+    projectLifespan: options.projectLifespan ?? DEFAULT_SOLAR_PV_OPTIONS.projectLifespan
+  };
+
+  if (resolved.moduleEfficiencyPercent <= 0 || resolved.moduleEfficiencyPercent > 100) {
+    throw new Error('Module efficiency must be greater than 0 and at most 100 percent');
+  }
+  if (resolved.performanceRatio <= 0 || resolved.performanceRatio > 1) {
+    throw new Error('Performance ratio must be greater than 0 and at most 1');
+  }
+
+  const location = getIrradianceLocation(resolved.locationId);
+  const issues: string[] = [];
+  const recommendations: string[] = [];
+
+  // 1 kW/m² at standard test conditions
+  const roofCapacityKWp = usableRoofArea * resolved.moduleEfficiencyPercent / 100;
+  let systemSizeKWp = roofCapacityKWp;
+
+  const requestedSizeKWp = options.systemSizeKWp;
+  if (requestedSizeKWp !== undefined && requestedSizeKWp > 0) {
+    systemSizeKWp = Math.min(requestedSizeKWp, roofCapacityKWp);
+    if (requestedSizeKWp > roofCapacityKWp) {
+      issues.push(`Requested ${requestedSizeKWp.toFixed(1)} kWp exceeds the roof capacity of ${roofCapacityKWp.toFixed(1)} kWp; system limited to the roof`);
+    }
+  }
+
+  const netMeteringEligible = resolved.netMetering && systemSizeKWp <= NET_METERING_MAX_KWP;
+  if (resolved.netMetering && !netMeteringEligible) {
+    issues.push(`System of ${systemSizeKWp.toFixed(1)} kWp exceeds the ${NET_METERING_MAX_KWP} kWp net-metering limit; exports are not credited`);
+    recommendations.push(`Limit the system to ${NET_METERING_MAX_KWP} kWp to qualify for net-metering, or arrange a separate export agreement with the distribution utility`);
+  }
+
+  const weeklyLoad = getWeeklyLoadProfile(loadSchedules, resolved.unoccupiedLoadFactor);
+  const energy = simulateEnergyBalance(systemSizeKWp, location, weeklyLoad, {
+    performanceRatio: resolved.performanceRatio,
+    importRate: resolved.importRate,
+    exportRate: netMeteringEligible ? resolved.exportRate : 0
+  });
+  const financial = calculateSolarPVCashFlow(systemSizeKWp, energy, resolved);
+
+  if (energy.selfConsumptionPercent < 70 && energy.annualExportedKWh > 0) {
+    recommendations.push(`Only ${energy.selfConsumptionPercent.toFixed(0)}% of generation is used on site; a smaller system or shifting loads into daylight hours improves returns since exports earn ${netMeteringEligible ? `PHP ${resolved.exportRate.toFixed(2)}` : 'nothing'} per kWh against PHP ${resolved.importRate.toFixed(2)} for self-consumption`);
+  }
+  if (energy.unusedCredit > 0) {
+    issues.push(`PHP ${energy.unusedCredit.toFixed(0)} of net-metering credit is left unused at year end`);
+  }
+  if (financial.metrics.npv < 0) {
+    issues.push('Project NPV is negative at the selected discount rate');
+  }
+  if (financial.metrics.simplePayback > resolved.projectLifespan || !Number.isFinite(financial.metrics.simplePayback) || financial.metrics.simplePayback < 0) {
+    issues.push('Savings do not recover the installed cost within the project lifespan');
+  }
+  recommendations.push(`Tilt modules about ${Math.max(5, Math.round(location.latitude))}° facing south to match the ${location.name} latitude while allowing rain to clean the panels`);
+
+  return {
+    location,
+    roofCapacityKWp,
+    systemSizeKWp,
+    arrayArea: systemSizeKWp / (resolved.moduleEfficiencyPercent / 100),
+    netMeteringEligible,
+    energy,
+    financial,
+    options: resolved,
+    issues,
+    recommendations
+  };
+}
@@ -2,8 +2,10 @@
  * Utility functions for saving and loading calculator results to/from local storage
  */
 
+import { LoadSchedule } from '../ScheduleOfLoads/types';
+
 // Storage utility for calculator results
-export type CalculatorType = 'illumination' | 'roi' | 'powerfactor' | 'power-factor' | 'hvac' | 'equipment' | 'harmonic' | 'harmonic-distortion' | 'lighting' | 'schedule-of-loads' | 'voltage-regulation' | 'voltage-drop';
+export type CalculatorType = 'illumination' | 'roi' | 'powerfactor' | 'power-factor' | 'hvac' | 'equipment' | 'harmonic' | 'harmonic-distortion' | 'lighting' | 'schedule-of-loads' | 'voltage-regulation' | 'voltage-drop' | 'solar-pv';
 
 export interface StoredCalculation {
   id: string;
@@ -11,10 +13,30 @@ export interface StoredCalculation {
   timestamp: number;
   type: CalculatorType;
   data: any;
+  version?: number; // server version, once synced
+  auditId?: number | null;
+}
+
+/**
+ * Remote store that mirrors local saves and deletes, registered once the user is signed in
+ */
+export interface CalculationRemoteStore {
+  save: (calculation: StoredCalculation) => void;
+  remove: (id: string) => void;
 }
 
 const STORAGE_KEY = 'energy-audit-calculations';
 
+let remoteStore: CalculationRemoteStore | null = null;
+
+/**
+ * Register the remote store that saved calculations are mirrored to
+ * @param store The remote store, or null to keep calculations in this browser only
+ */
+export const setCalculationRemoteStore = (store: CalculationRemoteStore | null): void => {
+  remoteStore = store;
+};
+
 /**
  * Save a calculation result to localStorage
  * @param type The type of calculator
@@ -72,6 +94,8 @@ export const saveCalculation = (type: CalculatorType, name: string, data: any):
       localStorage.setItem(STORAGE_KEY, JSON.stringify(allCalculations));
       localStorage.setItem(TYPE_STORAGE_KEY, JSON.stringify(typeCalculations));
       
+      remoteStore?.save(calculation);
+      
       return id;
     } catch (storageError) {
       console.error('Error writing to localStorage:', storageError);
@@ -102,7 +126,8 @@ const createDefaultName = (type: CalculatorType): string => {
     'roi': 'ROI',
     'schedule-of-loads': 'Schedule of Loads',
     'voltage-regulation': 'Voltage Regulation',
-    'voltage-drop': 'Voltage Drop'
+    'voltage-drop': 'Voltage Drop',
+    'solar-pv': 'Solar PV'
   };
   
   const typeLabel = typeLabels[type] || type.charAt(0).toUpperCase() + type.slice(1);
@@ -196,6 +221,17 @@ export const loadSavedCalculations = (type: CalculatorType): StoredCalculation[]
   }
 };
 
+/**
+ * Load the load schedules saved from the Schedule of Loads calculator
+ * Saved entries hold either the load schedule itself or { loadSchedule, calculationResults }
+ * @returns Array of saved load schedules
+ */
+export const loadSavedLoadSchedules = (): LoadSchedule[] => {
+  return loadSavedCalculations('schedule-of-loads')
+    .map(calc => (calc.data?.loadSchedule || calc.data) as LoadSchedule)
+    .filter(schedule => schedule && Array.isArray(schedule.loads) && typeof schedule.totalDemandLoad === 'number');
+};
+
 /**
  * Get all stored calculations from unified storage
  * @returns Array of all stored calculations
@@ -277,6 +313,8 @@ export const deleteCalculation = (type: CalculatorType, id: string): boolean =>
       console.warn(`Error updating type-specific storage for ${type}:`, e);
     }
     
+    remoteStore?.remove(id);
+    
     return true;
   } catch (error) {
     console.error(`Error deleting calculation with ID ${id}:`, error);
@@ -297,6 +335,10 @@ export const deleteCalculationsByType = (type: StoredCalculation['type']): boole
     
     localStorage.setItem(STORAGE_KEY, JSON.stringify(filteredCalculations));
     
+    allCalculations
+      .filter(calc => calc.type === type)
+      .forEach(calc => remoteStore?.remove(calc.id));
+    
     return true;
   } catch (error) {
     console.error('Error deleting calculations from local storage:', error);
@@ -304,6 +346,37 @@ export const deleteCalculationsByType = (type: StoredCalculation['type']): boole
   }
 };
 
+/**
+ * Replace the calculations kept in this browser, e.g. with the copies held on the server
+ * Both the unified list and the type-specific lists are rewritten
+ * @param calculations The calculations to keep
+ * @returns true if successful, false otherwise
+ */
+export const replaceStoredCalculations = (calculations: StoredCalculation[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(calculations));
+    
+    // Rewrite every type-specific list, including types that no longer have calculations
+    const typeKeys = new Set<string>(calculations.map(calc => `${calc.type}_calculations`));
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.endsWith('_calculations')) {
+        typeKeys.add(key);
+      }
+    }
+    
+    typeKeys.forEach(key => {
+      const typeCalculations = calculations.filter(calc => `${calc.type}_calculations` === key);
+      localStorage.setItem(key, JSON.stringify(typeCalculations));
+    });
+    
+    return true;
+  } catch (error) {
+    console.error('Error replacing stored calculations:', error);
+    return false;
+  }
+};
+
 /**
  * Clear all stored calculations
  * @returns true if successful, false otherwise
@@ -203,7 +203,8 @@ export function calculateAmpacityRating(inputs: VoltageDropInputs): {
     conductorSize, 
     conductorMaterial, 
     loadCurrent,
-    circuitConfiguration
+    circuitConfiguration,
+    bundleAdjustmentFactor = 1.0
   } = inputs;
   
   // Get the appropriate ampacity table
@@ -213,8 +214,8 @@ export function calculateAmpacityRating(inputs: VoltageDropInputs): {
   // Get the base ampacity for the conductor size
   const baseAmpacity = ampacityTable[conductorSize] || 0;
   
-  // Apply derating factors if necessary (simplified)
-  let deratedAmpacity = baseAmpacity;
+  // Apply the adjustment factor for current-carrying conductors sharing the raceway
+  let deratedAmpacity = baseAmpacity * bundleAdjustmentFactor;
   
   // For motor circuits, we need to compare against the starting current
   let currentToCompare = loadCurrent;
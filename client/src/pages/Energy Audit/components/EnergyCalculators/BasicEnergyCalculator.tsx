@@ -66,6 +66,7 @@ import SavedCalculationsViewer from '../Calculators/SavedCalculationsViewer';
 import { saveCalculation } from '../Calculators/utils/storage';
 import ComplianceCalculatorIntegration from '../Calculators/ComplianceCalculatorIntegration';
 import ComplianceApiTest from '../Calculators/ComplianceApiTest';
+import TariffRateSelector from '../Calculators/TariffRateSelector';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -596,6 +597,13 @@ const LightingCalculator: React.FC = () => {
             helperText={errors.daysPerYear || "Operating days per year"}
           />
         </Grid>
+        <Grid item xs={12} sm={8}>
+          <TariffRateSelector
+            onRateChange={(rate) => {
+              if (rate !== null) setInputs(prev => ({ ...prev, electricityRate: rate.toString() }));
+            }}
+          />
+        </Grid>
         <Grid item xs={12} sm={4}>
           <TextField
             label="Electricity Rate (₱/kWh)"
@@ -1235,6 +1243,13 @@ const HVACCalculator: React.FC = () => {
           />
         </Grid>
         
+        <Grid item xs={12} sm={8}>
+          <TariffRateSelector
+            onRateChange={(rate) => {
+              if (rate !== null) setInputs(prev => ({ ...prev, electricityRate: rate.toString() }));
+            }}
+          />
+        </Grid>
         <Grid item xs={12} sm={4}>
           <TextField
             label="Electricity Rate (₱/kWh)"
@@ -0,0 +1,527 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  FormControl,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Radio,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography
+} from '@mui/material';
+import { alpha, useTheme } from '@mui/material/styles';
+import { Upload as UploadIcon } from '@mui/icons-material';
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import energyService, { BuildingSummary, MeterSummary } from '../../../../services/energyService';
+import utilityBillService from '../../../../services/utilityBillService';
+import {
+  BaselineModel,
+  BaselineModelType,
+  buildPeriodConditions,
+  calculateAvoidedEnergy,
+  ConsumptionPeriod,
+  DataInterval,
+  DEFAULT_CDD_BASE_C,
+  fitBaselineModels,
+  GUIDELINE_14_CRITERIA,
+  MODEL_LABELS,
+  predictConsumption,
+  selectBaselineModel
+} from './utils/baselineRegression';
+import {
+  DailyTemperatures,
+  getTemperatureStation,
+  parseTemperatureCsv,
+  PHILIPPINE_TEMPERATURE_STATIONS,
+  toDateKey
+} from './utils/philippineTemperature';
+
+type DataSource = 'bills' | 'metered';
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const shiftDate = (date: Date, months: number, days = 0) =>
+  new Date(date.getFullYear(), date.getMonth() + months, date.getDate() + days);
+
+const formatKwh = (value: number) => Math.round(value).toLocaleString();
+
+const formatBalancePoints = (model: BaselineModel) => {
+  if (model.type === 'linear') return `CDD base ${model.coolingBalancePoint}°C`;
+  if (model.heatingBalancePoint === null) return `${model.coolingBalancePoint}°C`;
+  return `${model.heatingBalancePoint}°C to ${model.coolingBalancePoint}°C`;
+};
+
+/**
+ * Weather-normalized baseline and avoided energy for a building (IPMVP Option C)
+ */
+const MeasurementVerificationComponent: React.FC = () => {
+  const theme = useTheme();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const today = new Date();
+
+  const [buildings, setBuildings] = useState<BuildingSummary[]>([]);
+  const [buildingId, setBuildingId] = useState<number | ''>('');
+  const [meters, setMeters] = useState<MeterSummary[]>([]);
+  const [meterId, setMeterId] = useState<number | ''>('');
+  const [source, setSource] = useState<DataSource>('bills');
+  const [stationId, setStationId] = useState<string>('manila');
+  const [observed, setObserved] = useState<DailyTemperatures>({});
+  const [occupiedWeekdays, setOccupiedWeekdays] = useState<number[]>([0, 1, 2, 3, 4]);
+  const [cddBase, setCddBase] = useState<number>(DEFAULT_CDD_BASE_C);
+  const [baselineStart, setBaselineStart] = useState<string>(toDateKey(shiftDate(today, -24)));
+  const [baselineEnd, setBaselineEnd] = useState<string>(toDateKey(shiftDate(today, -12, -1)));
+  const [reportingStart, setReportingStart] = useState<string>(toDateKey(shiftDate(today, -12)));
+  const [reportingEnd, setReportingEnd] = useState<string>(toDateKey(today));
+  const [periods, setPeriods] = useState<ConsumptionPeriod[]>([]);
+  const [modelType, setModelType] = useState<BaselineModelType | 'auto'>('auto');
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    energyService.getBuildings()
+      .then(result => {
+        setBuildings(result);
+        if (result.length > 0) setBuildingId(result[0].id);
+      })
+      .catch((err: any) => setError(err?.response?.data?.message || 'Failed to load buildings'));
+  }, []);
+
+  useEffect(() => {
+    if (buildingId === '') return;
+    energyService.getMeters(buildingId)
+      .then(result => {
+        setMeters(result);
+        setMeterId(result.length > 0 ? result[0].id : '');
+      })
+      .catch(() => setMeters([]));
+  }, [buildingId]);
+
+  // Bills are loaded whole; metered days only over the baseline and reporting periods
+  useEffect(() => {
+    if (buildingId === '' || (source === 'metered' && meterId === '')) {
+      setPeriods([]);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    const request: Promise<ConsumptionPeriod[]> = source === 'bills'
+      ? utilityBillService.getBills(buildingId).then(bills =>
+        bills.map(bill => ({ start: bill.periodStart, end: bill.periodEnd, energyKwh: bill.kwh }))
+      )
+      : energyService.getSeries({
+        meterId: meterId as number,
+        from: new Date(`${baselineStart}T00:00:00`),
+        to: new Date(`${reportingEnd}T23:59:59`),
+        resolution: 'day'
+      }).then(series =>
+        series.points
+          .filter(point => point.energyKwh !== null)
+          .map(point => {
+            const day = toDateKey(new Date(point.timestamp));
+            return { start: day, end: day, energyKwh: point.energyKwh as number };
+          })
+      );
+
+    request
+      .then(result => {
+        if (!cancelled) setPeriods(result);
+      })
+      .catch((err: any) => {
+        if (!cancelled) setError(err?.response?.data?.message || 'Failed to load consumption data');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [buildingId, source, meterId, baselineStart, reportingEnd]);
+
+  const interval: DataInterval = source === 'bills' ? 'monthly' : 'daily';
+  const station = getTemperatureStation(stationId);
+
+  const { baseline, reporting } = useMemo(() => {
+    const occupancy = { weekdays: occupiedWeekdays };
+    const within = (from: string, to: string) =>
+      periods.filter(period => period.start >= from && period.end <= to);
+    return {
+      baseline: buildPeriodConditions(within(baselineStart, baselineEnd), station, observed, occupancy),
+      reporting: buildPeriodConditions(within(reportingStart, reportingEnd), station, observed, occupancy)
+    };
+  }, [periods, station, observed, occupiedWeekdays, baselineStart, baselineEnd, reportingStart, reportingEnd]);
+
+  const models = useMemo(() => fitBaselineModels(baseline, interval, cddBase), [baseline, interval, cddBase]);
+  const model = modelType === 'auto'
+    ? selectBaselineModel(models)
+    : models.find(candidate => candidate.type === modelType) ?? null;
+  const savings = useMemo(
+    () => (model && reporting.length > 0 ? calculateAvoidedEnergy(model, reporting) : null),
+    [model, reporting]
+  );
+
+  const chartData = [
+    ...baseline.map(period => ({
+      period: interval === 'monthly' ? period.end.slice(0, 7) : period.start,
+      Actual: period.energyKwh,
+      Baseline: model ? predictConsumption(model, period) : undefined
+    })),
+    ...(savings?.periods ?? []).map(period => ({
+      period: interval === 'monthly' ? period.end.slice(0, 7) : period.start,
+      Actual: period.actualKwh,
+      'Adjusted Baseline': period.adjustedBaselineKwh
+    }))
+  ];
+
+  const handleTemperatureFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const { temperatures, skipped } = parseTemperatureCsv(await file.text());
+      setObserved(temperatures);
+      setNotice(
+        `Imported ${Object.keys(temperatures).length} daily temperatures`
+        + (skipped > 0 ? `; ${skipped} rows could not be read` : '')
+      );
+    } catch (err: any) {
+      setNotice(err?.message || 'Failed to read the temperature file');
+    }
+  };
+
+  const criteria = GUIDELINE_14_CRITERIA[interval];
+
+  return (
+    <Box>
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Grid container spacing={2}>
+          <Grid item xs={12} sm={6} md={3}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="mv-building-label">Building</InputLabel>
+              <Select
+                labelId="mv-building-label"
+                value={buildingId}
+                label="Building"
+                onChange={(e) => setBuildingId(Number(e.target.value))}
+              >
+                {buildings.map(building => (
+                  <MenuItem key={building.id} value={building.id}>{building.name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={6} md={3}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="mv-source-label">Consumption Data</InputLabel>
+              <Select
+                labelId="mv-source-label"
+                value={source}
+                label="Consumption Data"
+                onChange={(e) => setSource(e.target.value as DataSource)}
+              >
+                <MenuItem value="bills">Utility bills (monthly)</MenuItem>
+                <MenuItem value="metered">Metered energy (daily)</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+          {source === 'metered' && (
+            <Grid item xs={12} sm={6} md={3}>
+              <FormControl fullWidth size="small">
+                <InputLabel id="mv-meter-label">Meter</InputLabel>
+                <Select
+                  labelId="mv-meter-label"
+                  value={meterId}
+                  label="Meter"
+                  onChange={(e) => setMeterId(Number(e.target.value))}
+                >
+                  {meters.map(meter => (
+                    <MenuItem key={meter.id} value={meter.id}>{meter.name}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+          )}
+          <Grid item xs={12} sm={6} md={3}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="mv-station-label">Weather Station</InputLabel>
+              <Select
+                labelId="mv-station-label"
+                value={stationId}
+                label="Weather Station"
+                onChange={(e) => setStationId(e.target.value)}
+              >
+                {PHILIPPINE_TEMPERATURE_STATIONS.map(item => (
+                  <MenuItem key={item.id} value={item.id}>{item.name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={6} md={3}>
+            <TextField
+              fullWidth
+              size="small"
+              type="date"
+              label="Baseline From"
+              value={baselineStart}
+              onChange={(e) => setBaselineStart(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={3}>
+            <TextField
+              fullWidth
+              size="small"
+              type="date"
+              label="Baseline To"
+              value={baselineEnd}
+              onChange={(e) => setBaselineEnd(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={3}>
+            <TextField
+              fullWidth
+              size="small"
+              type="date"
+              label="Reporting From"
+              value={reportingStart}
+              onChange={(e) => setReportingStart(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={3}>
+            <TextField
+              fullWidth
+              size="small"
+              type="date"
+              label="Reporting To"
+              value={reportingEnd}
+              onChange={(e) => setReportingEnd(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <Typography variant="subtitle2" gutterBottom>Occupied Days</Typography>
+            <ToggleButtonGroup
+              size="small"
+              value={occupiedWeekdays}
+              onChange={(_, value: number[]) => setOccupiedWeekdays(value)}
+            >
+              {WEEKDAY_LABELS.map((label, index) => (
+                <ToggleButton key={label} value={index}>{label}</ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+          </Grid>
+          <Grid item xs={12} sm={6} md={3}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label="CDD Base (linear model)"
+              value={cddBase}
+              onChange={(e) => setCddBase(Number(e.target.value))}
+              InputProps={{ endAdornment: <Typography variant="body2">°C</Typography> }}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={3}>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              hidden
+              onChange={handleTemperatureFile}
+            />
+            <Button
+              fullWidth
+              variant="outlined"
+              startIcon={<UploadIcon />}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Import Observed Temperatures
+            </Button>
+            <Typography variant="caption" color="text.secondary">
+              {Object.keys(observed).length > 0
+                ? `${Object.keys(observed).length} observed days; typical values elsewhere`
+                : 'Using typical daily temperatures for the station'}
+            </Typography>
+          </Grid>
+        </Grid>
+      </Paper>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+      {notice && <Alert severity="info" sx={{ mb: 2 }} onClose={() => setNotice(null)}>{notice}</Alert>}
+      {loading && <Box sx={{ textAlign: 'center', py: 3 }}><CircularProgress /></Box>}
+
+      {!loading && !error && models.length === 0 && (
+        <Alert severity="info">
+          {baseline.length === 0
+            ? 'No consumption data falls within the baseline period.'
+            : `The baseline has ${baseline.length} ${interval === 'monthly' ? 'bills' : 'days'}, too few to fit a model. `
+              + 'ASHRAE Guideline 14 recommends a full year of data.'}
+        </Alert>
+      )}
+
+      {!loading && models.length > 0 && (
+        <>
+          <TableContainer component={Paper} sx={{ mb: 3 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell padding="checkbox" />
+                  <TableCell>Model</TableCell>
+                  <TableCell>Balance Point</TableCell>
+                  <TableCell align="right">Base Load (kWh/day)</TableCell>
+                  <TableCell align="right">Cooling Slope (kWh/°C-day)</TableCell>
+                  <TableCell align="right">Occupied Day (kWh)</TableCell>
+                  <TableCell align="right">R²</TableCell>
+                  <TableCell align="right">CV(RMSE)</TableCell>
+                  <TableCell align="right">NMBE</TableCell>
+                  <TableCell>Guideline 14</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {models.map(candidate => (
+                  <TableRow
+                    key={candidate.type}
+                    hover
+                    onClick={() => setModelType(candidate.type)}
+                    sx={candidate === model ? { bgcolor: alpha(theme.palette.primary.main, 0.08) } : undefined}
+                  >
+                    <TableCell padding="checkbox">
+                      <Radio size="small" checked={candidate === model} />
+                    </TableCell>
+                    <TableCell>{MODEL_LABELS[candidate.type]}</TableCell>
+                    <TableCell>{formatBalancePoints(candidate)}</TableCell>
+                    <TableCell align="right">{candidate.baseLoadPerDay.toFixed(1)}</TableCell>
+                    <TableCell align="right">{candidate.coolingSlope.toFixed(2)}</TableCell>
+                    <TableCell align="right">
+                      {candidate.usesOccupancy ? candidate.occupancySlope.toFixed(1) : '-'}
+                    </TableCell>
+                    <TableCell align="right">{candidate.statistics.rSquared.toFixed(3)}</TableCell>
+                    <TableCell align="right">{candidate.statistics.cvRmse.toFixed(1)}%</TableCell>
+                    <TableCell align="right">{candidate.statistics.nmbe.toFixed(2)}%</TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        variant="outlined"
+                        label={candidate.statistics.compliant ? 'Meets criteria' : 'Does not meet'}
+                        color={candidate.statistics.compliant ? 'success' : 'error'}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+          <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: -2, mb: 3 }}>
+            {interval === 'monthly' ? 'Monthly' : 'Daily'} data must reach CV(RMSE) ≤ {criteria.cvRmse}% and
+            NMBE within ±{criteria.nmbe}%.{' '}
+            {modelType !== 'auto' && (
+              <Button size="small" onClick={() => setModelType('auto')}>Choose automatically</Button>
+            )}
+          </Typography>
+
+          {model && !model.statistics.compliant && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              The selected model does not meet ASHRAE Guideline 14 calibration criteria, so savings computed from
+              it should not be reported as measured savings.
+            </Alert>
+          )}
+
+          {savings && (
+            <Grid container spacing={2} sx={{ mb: 3 }}>
+              <Grid item xs={12} sm={6} md={3}>
+                <Card>
+                  <CardContent>
+                    <Typography variant="body2" color="text.secondary">Adjusted Baseline</Typography>
+                    <Typography variant="h5">{formatKwh(savings.adjustedBaselineKwh)} kWh</Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+              <Grid item xs={12} sm={6} md={3}>
+                <Card>
+                  <CardContent>
+                    <Typography variant="body2" color="text.secondary">Reporting Period Use</Typography>
+                    <Typography variant="h5">{formatKwh(savings.actualKwh)} kWh</Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {savings.periods.length} {interval === 'monthly' ? 'bills' : 'days'}
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+              <Grid item xs={12} sm={6} md={3}>
+                <Card>
+                  <CardContent>
+                    <Typography variant="body2" color="text.secondary">Avoided Energy</Typography>
+                    <Typography variant="h5" color={savings.avoidedKwh >= 0 ? 'success.main' : 'error'}>
+                      {formatKwh(savings.avoidedKwh)} kWh
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+              <Grid item xs={12} sm={6} md={3}>
+                <Card>
+                  <CardContent>
+                    <Typography variant="body2" color="text.secondary">Savings</Typography>
+                    <Typography variant="h5">
+                      {savings.savingsPercent !== null ? `${savings.savingsPercent.toFixed(1)}%` : '-'}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">of the adjusted baseline</Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+            </Grid>
+          )}
+
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="h6" gutterBottom>Actual vs Modeled Consumption</Typography>
+            <Box sx={{ height: 320 }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="period" />
+                  <YAxis unit=" kWh" width={90} />
+                  <RechartsTooltip formatter={(value: number) => `${formatKwh(value)} kWh`} />
+                  <Legend />
+                  <Bar dataKey="Actual" fill={theme.palette.primary.main} />
+                  <Line type="monotone" dataKey="Baseline" stroke={theme.palette.success.main} dot={false} />
+                  <Line type="monotone" dataKey="Adjusted Baseline" stroke={theme.palette.warning.main} dot={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </Box>
+          </Paper>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default MeasurementVerificationComponent;
@@ -0,0 +1,139 @@
+import {
+  buildPeriodConditions,
+  calculateAvoidedEnergy,
+  calculateModelStatistics,
+  fitBaselineModel,
+  fitBaselineModels,
+  PeriodConditions,
+  predictConsumption,
+  selectBaselineModel
+} from '../utils/baselineRegression';
+import {
+  getTemperatureStation,
+  getTypicalDailyTemperature,
+  parseTemperatureCsv
+} from '../utils/philippineTemperature';
+
+describe('Baseline Regression Utilities', () => {
+  // Twelve 30-day periods whose days warm from 24°C to 30°C across the year
+  const periodTemperatures = (index: number, offset = 0) =>
+    Array.from({ length: 30 }, (_, day) => 24 + index * 0.5 + (day % 3) * 0.5 + offset);
+
+  // 500 kWh/day base load, 80 kWh per °C-day above 27°C and 200 kWh per occupied day
+  const coolingLoad = (temperatures: number[], occupiedDays: number) =>
+    500 * temperatures.length
+    + 80 * temperatures.reduce((sum, t) => sum + Math.max(0, t - 27), 0)
+    + 200 * occupiedDays;
+
+  const baseline: PeriodConditions[] = Array.from({ length: 12 }, (_, index) => {
+    const temperatures = periodTemperatures(index);
+    const occupiedDays = 20 + (index % 4);
+    return {
+      start: `2024-${String(index + 1).padStart(2, '0')}-01`,
+      end: `2024-${String(index + 1).padStart(2, '0')}-30`,
+      energyKwh: coolingLoad(temperatures, occupiedDays),
+      days: 30,
+      temperatures,
+      meanTemperature: temperatures.reduce((sum, t) => sum + t, 0) / 30,
+      occupiedDays
+    };
+  });
+
+  describe('philippineTemperature', () => {
+    const manila = getTemperatureStation('manila');
+
+    test('should return the monthly normal in the middle of the month', () => {
+      expect(getTypicalDailyTemperature(manila, new Date(2025, 4, 15))).toBeCloseTo(29.6);
+    });
+
+    test('should interpolate across the turn of the year', () => {
+      const newYear = getTypicalDailyTemperature(manila, new Date(2025, 0, 1));
+      expect(newYear).toBeGreaterThan(26.0);
+      expect(newYear).toBeLessThan(26.3);
+    });
+
+    test('should read observed temperatures and average maximum and minimum', () => {
+      const { temperatures, skipped } = parseTemperatureCsv('date,tmax,tmin\n2025-03-01,32,24\n2025-03-02,,\n');
+      expect(temperatures).toEqual({ '2025-03-01': 28 });
+      expect(skipped).toBe(1);
+    });
+  });
+
+  describe('buildPeriodConditions', () => {
+    test('should count occupied weekdays and use observed temperatures', () => {
+      const [period] = buildPeriodConditions(
+        [{ start: '2026-09-01', end: '2026-09-30', energyKwh: 1000 }],
+        getTemperatureStation('cebu'),
+        { '2026-09-01': 35 },
+        { weekdays: [0, 1, 2, 3, 4], holidays: ['2026-09-01'] }
+      );
+      expect(period.days).toBe(30);
+      // September 2026 has 22 weekdays, one of them a holiday
+      expect(period.occupiedDays).toBe(21);
+      expect(period.temperatures[0]).toBe(35);
+    });
+  });
+
+  describe('calculateModelStatistics', () => {
+    test('should apply the Guideline 14 definitions', () => {
+      const stats = calculateModelStatistics([100, 110, 90, 100], [95, 105, 85, 95], 2, 'monthly');
+      // SSE = 100, n - p = 2, mean = 100
+      expect(stats.cvRmse).toBeCloseTo(Math.sqrt(50));
+      expect(stats.nmbe).toBeCloseTo(10);
+      expect(stats.meetsCvRmse).toBe(true);
+      expect(stats.meetsNmbe).toBe(false);
+      expect(stats.compliant).toBe(false);
+    });
+  });
+
+  describe('fitBaselineModel', () => {
+    test('should recover the balance point and slopes of a cooling change-point load', () => {
+      const model = fitBaselineModel('3p', baseline, 'monthly')!;
+      expect(model.coolingBalancePoint).toBeCloseTo(27);
+      expect(model.coolingSlope).toBeCloseTo(80);
+      expect(model.baseLoadPerDay).toBeCloseTo(500);
+      expect(model.occupancySlope).toBeCloseTo(200);
+      expect(model.usesOccupancy).toBe(true);
+      expect(model.statistics.cvRmse).toBeLessThan(0.01);
+      expect(model.statistics.compliant).toBe(true);
+    });
+
+    test('should prefer the change-point model over the linear one for a change-point load', () => {
+      const models = fitBaselineModels(baseline, 'monthly');
+      expect(models.map(model => model.type)).toEqual(['linear', '3p', '5p']);
+      expect(selectBaselineModel(models)!.type).toBe('3p');
+    });
+
+    test('should leave occupancy out when every period has the same share of occupied days', () => {
+      const constant = baseline.map(period => ({ ...period, occupiedDays: 22, energyKwh: coolingLoad(period.temperatures, 22) }));
+      const model = fitBaselineModel('linear', constant, 'monthly')!;
+      expect(model.usesOccupancy).toBe(false);
+      expect(model.statistics.parameterCount).toBe(2);
+    });
+
+    test('should not fit a model with more parameters than periods', () => {
+      expect(fitBaselineModel('5p', baseline.slice(0, 5), 'monthly')).toBeNull();
+    });
+  });
+
+  describe('calculateAvoidedEnergy', () => {
+    test('should compare the adjusted baseline with reporting-period use', () => {
+      const model = fitBaselineModel('3p', baseline, 'monthly')!;
+      // A warmer reporting year after a retrofit that cut consumption by 20%
+      const reporting = baseline.slice(0, 6).map((period, index) => {
+        const temperatures = periodTemperatures(index, 1);
+        return {
+          ...period,
+          temperatures,
+          energyKwh: 0.8 * coolingLoad(temperatures, period.occupiedDays)
+        };
+      });
+
+      const result = calculateAvoidedEnergy(model, reporting);
+      expect(result.periods).toHaveLength(6);
+      expect(result.periods[0].adjustedBaselineKwh).toBeCloseTo(predictConsumption(model, reporting[0]));
+      expect(result.savingsPercent).toBeCloseTo(20);
+      expect(result.avoidedKwh).toBeCloseTo(result.adjustedBaselineKwh * 0.2);
+    });
+  });
+});
@@ -0,0 +1,3 @@
+import MeasurementVerificationComponent from './MeasurementVerificationComponent';
+export { MeasurementVerificationComponent };
+export default MeasurementVerificationComponent;
@@ -0,0 +1,422 @@
+/**
+ * Weather-Normalized Baseline Regression Utilities
+ *
+ * Fits baseline energy models for whole-facility measurement and verification (IPMVP Option C):
+ * consumption is regressed on cooling (and, for the 5-parameter model, heating) degree days and on
+ * occupied days, the fit is checked against the calibration criteria of ASHRAE Guideline 14, and the
+ * model is projected into the reporting period to compute avoided energy.
+ *
+ * Each period is modeled as a total, so bills of different lengths fit together: the coefficient on
+ * the day count is the weather-independent load per day, and the degree-day slopes are kWh per °C-day.
+ */
+import { DailyTemperatures, getDailyTemperatures, TemperatureStation, toDateKey } from './philippineTemperature';
+
+export type BaselineModelType = 'linear' | '3p' | '5p';
+
+export type DataInterval = 'monthly' | 'daily';
+
+/**
+ * Base temperature for cooling degree days in the linear model (65°F)
+ */
+export const DEFAULT_CDD_BASE_C = 18.3;
+
+/**
+ * Calibration criteria from ASHRAE Guideline 14. The guideline gives monthly and hourly criteria;
+ * daily data is held to the hourly ones.
+ */
+export const GUIDELINE_14_CRITERIA: Record<DataInterval, { cvRmse: number; nmbe: number }> = {
+  monthly: { cvRmse: 15, nmbe: 5 },
+  daily: { cvRmse: 30, nmbe: 10 }
+};
+
+/**
+ * Spacing of the balance-point temperatures searched by the change-point models
+ */
+const BALANCE_POINT_STEP_C = 0.5;
+
+export const MODEL_LABELS: Record<BaselineModelType, string> = {
+  linear: 'Linear (degree days)',
+  '3p': '3-parameter cooling change-point',
+  '5p': '5-parameter change-point'
+};
+
+/**
+ * Metered or billed consumption over a period
+ */
+export interface ConsumptionPeriod {
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inclusive
+  energyKwh: number;
+}
+
+/**
+ * A consumption period with the weather and occupancy it saw
+ */
+export interface PeriodConditions extends ConsumptionPeriod {
+  days: number;
+  temperatures: number[]; // daily means, °C
+  meanTemperature: number;
+  occupiedDays: number;
+}
+
+export interface OccupancySchedule {
+  // Occupied days of the week, Monday = 0
+  weekdays: number[];
+  // Dates the building is closed on an otherwise occupied day (YYYY-MM-DD)
+  holidays?: string[];
+}
+
+export interface ModelStatistics {
+  n: number;
+  parameterCount: number;
+  rSquared: number;
+  cvRmse: number; // %
+  nmbe: number; // %
+  meetsCvRmse: boolean;
+  meetsNmbe: boolean;
+  // Both Guideline 14 criteria are met
+  compliant: boolean;
+}
+
+export interface BaselineModel {
+  type: BaselineModelType;
+  interval: DataInterval;
+  baseLoadPerDay: number; // kWh/day
+  coolingSlope: number; // kWh/°C-day
+  heatingSlope: number; // kWh/°C-day, 5-parameter model only
+  occupancySlope: number; // extra kWh per occupied day; 0 when occupancy does not vary
+  coolingBalancePoint: number; // °C
+  heatingBalancePoint: number | null; // °C
+  usesOccupancy: boolean;
+  statistics: ModelStatistics;
+}
+
+export interface SavingsPeriod {
+  start: string;
+  end: string;
+  actualKwh: number;
+  adjustedBaselineKwh: number;
+  avoidedKwh: number;
+}
+
+export interface AvoidedEnergy {
+  periods: SavingsPeriod[];
+  actualKwh: number;
+  adjustedBaselineKwh: number;
+  avoidedKwh: number;
+  // Avoided energy as a share of the adjusted baseline, %
+  savingsPercent: number | null;
+}
+
+const parseDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const degreeDays = (temperatures: number[], base: number, direction: 'cooling' | 'heating') =>
+  temperatures.reduce(
+    (sum, t) => sum + Math.max(0, direction === 'cooling' ? t - base : base - t),
+    0
+  );
+
+/**
+ * Attach daily temperatures and occupied days to consumption periods
+ * @param periods Consumption periods
+ * @param station Weather station supplying typical temperatures
+ * @param observed Observed daily temperatures that replace the typical values
+ * @param occupancy Weekly occupancy and holidays
+ * @returns Periods with their conditions
+ */
+export function buildPeriodConditions(
+  periods: ConsumptionPeriod[],
+  station: TemperatureStation,
+  observed: DailyTemperatures,
+  occupancy: OccupancySchedule
+): PeriodConditions[] {
+  const holidays = new Set(occupancy.holidays ?? []);
+
+  return periods.map(period => {
+    const start = parseDate(period.start);
+    const end = parseDate(period.end);
+    const temperatures = getDailyTemperatures(station, start, end, observed);
+
+    let occupiedDays = 0;
+    for (const date = new Date(start); date <= end; date.setDate(date.getDate() + 1)) {
+      // Date.getDay() counts from Sunday; occupancy weekdays start on Monday
+      const weekday = (date.getDay() + 6) % 7;
+      if (occupancy.weekdays.includes(weekday) && !holidays.has(toDateKey(date))) occupiedDays++;
+    }
+
+    return {
+      ...period,
+      days: temperatures.length,
+      temperatures,
+      meanTemperature: temperatures.reduce((sum, t) => sum + t, 0) / Math.max(temperatures.length, 1),
+      occupiedDays
+    };
+  });
+}
+
+/**
+ * Solve the least-squares problem for the given regressors by the normal equations
+ * @returns Coefficients, or null when the regressors are collinear
+ */
+function leastSquares(rows: number[][], y: number[]): number[] | null {
+  const size = rows[0].length;
+  const matrix = Array.from({ length: size }, (_, i) => {
+    const row = new Array(size + 1).fill(0);
+    rows.forEach((x, k) => {
+      for (let j = 0; j < size; j++) row[j] += x[i] * x[j];
+      row[size] += x[i] * y[k];
+    });
+    return row;
+  });
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < size; r++) {
+      if (Math.abs(matrix[r][col]) > Math.abs(matrix[pivot][col])) pivot = r;
+    }
+    const scale = Math.max(...matrix.map(row => Math.abs(row[col])), 1);
+    if (Math.abs(matrix[pivot][col]) < 1e-9 * scale) return null;
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+
+    for (let r = 0; r < size; r++) {
+      if (r === col) continue;
+      const factor = matrix[r][col] / matrix[col][col];
+      for (let c = col; c <= size; c++) matrix[r][c] -= factor * matrix[col][c];
+    }
+  }
+
+  return matrix.map((row, i) => row[size] / row[i]);
+}
+
+/**
+ * Predict consumption over a period
+ * @param model Baseline model
+ * @param period Period conditions
+ * @returns Predicted kWh
+ */
+export function predictConsumption(model: BaselineModel, period: PeriodConditions): number {
+  return model.baseLoadPerDay * period.days
+    + model.coolingSlope * degreeDays(period.temperatures, model.coolingBalancePoint, 'cooling')
+    + (model.heatingBalancePoint !== null
+      ? model.heatingSlope * degreeDays(period.temperatures, model.heatingBalancePoint, 'heating')
+      : 0)
+    + model.occupancySlope * period.occupiedDays;
+}
+
+/**
+ * Goodness-of-fit statistics as defined by ASHRAE Guideline 14
+ * @param actual Measured consumption
+ * @param predicted Modeled consumption
+ * @param parameterCount Number of model parameters, balance points included
+ * @param interval Data interval, which sets the criteria
+ * @returns Statistics and whether the criteria are met
+ */
+export function calculateModelStatistics(
+  actual: number[],
+  predicted: number[],
+  parameterCount: number,
+  interval: DataInterval
+): ModelStatistics {
+  const n = actual.length;
+  const mean = actual.reduce((sum, y) => sum + y, 0) / n;
+  const residuals = actual.map((y, i) => y - predicted[i]);
+  const sse = residuals.reduce((sum, e) => sum + e * e, 0);
+  const sst = actual.reduce((sum, y) => sum + (y - mean) ** 2, 0);
+  const degreesOfFreedom = Math.max(n - parameterCount, 1);
+
+  const cvRmse = mean !== 0 ? (Math.sqrt(sse / degreesOfFreedom) / mean) * 100 : Infinity;
+  const nmbe = mean !== 0 ? (residuals.reduce((sum, e) => sum + e, 0) / (degreesOfFreedom * mean)) * 100 : Infinity;
+  const criteria = GUIDELINE_14_CRITERIA[interval];
+  const meetsCvRmse = cvRmse <= criteria.cvRmse;
+  const meetsNmbe = Math.abs(nmbe) <= criteria.nmbe;
+
+  return {
+    n,
+    parameterCount,
+    rSquared: sst > 0 ? 1 - sse / sst : 0,
+    cvRmse,
+    nmbe,
+    meetsCvRmse,
+    meetsNmbe,
+    compliant: meetsCvRmse && meetsNmbe
+  };
+}
+
+/**
+ * Candidate balance points spanning the daily temperatures of the baseline
+ */
+function balancePointCandidates(periods: PeriodConditions[]): number[] {
+  const temperatures = periods.flatMap(period => period.temperatures);
+  const low = Math.ceil(Math.min(...temperatures) / BALANCE_POINT_STEP_C) * BALANCE_POINT_STEP_C;
+  const high = Math.floor(Math.max(...temperatures) / BALANCE_POINT_STEP_C) * BALANCE_POINT_STEP_C;
+  const candidates: number[] = [];
+  for (let t = low; t <= high + 1e-9; t += BALANCE_POINT_STEP_C) {
+    candidates.push(Math.round(t * 10) / 10);
+  }
+  return candidates;
+}
+
+/**
+ * Fit one model for fixed balance points
+ */
+function fitForBalancePoints(
+  type: BaselineModelType,
+  periods: PeriodConditions[],
+  interval: DataInterval,
+  coolingBalancePoint: number,
+  heatingBalancePoint: number | null,
+  usesOccupancy: boolean
+): BaselineModel | null {
+  const rows = periods.map(period => {
+    const row = [period.days, degreeDays(period.temperatures, coolingBalancePoint, 'cooling')];
+    if (heatingBalancePoint !== null) row.push(degreeDays(period.temperatures, heatingBalancePoint, 'heating'));
+    if (usesOccupancy) row.push(period.occupiedDays);
+    return row;
+  });
+  const coefficients = leastSquares(rows, periods.map(period => period.energyKwh));
+  if (!coefficients) return null;
+
+  const [baseLoadPerDay, coolingSlope] = coefficients;
+  const heatingSlope = heatingBalancePoint !== null ? coefficients[2] : 0;
+  const occupancySlope = usesOccupancy ? coefficients[coefficients.length - 1] : 0;
+  // Change-point models describe loads that rise away from the balance points
+  if (type !== 'linear' && (coolingSlope <= 0 || heatingSlope < 0)) return null;
+
+  const parameterCount = (type === 'linear' ? 2 : type === '3p' ? 3 : 5) + (usesOccupancy ? 1 : 0);
+  const model: BaselineModel = {
+    type,
+    interval,
+    baseLoadPerDay,
+    coolingSlope,
+    heatingSlope,
+    occupancySlope,
+    coolingBalancePoint,
+    heatingBalancePoint,
+    usesOccupancy,
+    statistics: {} as ModelStatistics
+  };
+  model.statistics = calculateModelStatistics(
+    periods.map(period => period.energyKwh),
+    periods.map(period => predictConsumption(model, period)),
+    parameterCount,
+    interval
+  );
+  return model;
+}
+
+const sumSquaredErrors = (model: BaselineModel, periods: PeriodConditions[]) =>
+  periods.reduce((sum, period) => sum + (period.energyKwh - predictConsumption(model, period)) ** 2, 0);
+
+/**
+ * Fit a baseline model. Change-point models search the balance points for the least squared error.
+ * Occupied days enter the model only when the share of occupied days varies between periods.
+ * @param type Model type
+ * @param periods Baseline periods with their conditions
+ * @param interval Whether the periods are bills or days
+ * @param cddBase Base temperature of the linear model's cooling degree days
+ * @returns The fitted model, or null when the data cannot support it
+ */
+export function fitBaselineModel(
+  type: BaselineModelType,
+  periods: PeriodConditions[],
+  interval: DataInterval,
+  cddBase: number = DEFAULT_CDD_BASE_C
+): BaselineModel | null {
+  const shares = periods.map(period => period.occupiedDays / Math.max(period.days, 1));
+  const usesOccupancy = Math.max(...shares) - Math.min(...shares) > 1e-6;
+  const parameterCount = (type === 'linear' ? 2 : type === '3p' ? 3 : 5) + (usesOccupancy ? 1 : 0);
+  if (periods.length <= parameterCount) return null;
+
+  if (type === 'linear') {
+    return fitForBalancePoints(type, periods, interval, cddBase, null, usesOccupancy);
+  }
+
+  const candidates = balancePointCandidates(periods);
+  let best: BaselineModel | null = null;
+  let bestError = Infinity;
+  const consider = (model: BaselineModel | null) => {
+    if (!model) return;
+    const error = sumSquaredErrors(model, periods);
+    if (error < bestError) {
+      best = model;
+      bestError = error;
+    }
+  };
+
+  candidates.forEach((cooling, i) => {
+    if (type === '3p') {
+      consider(fitForBalancePoints(type, periods, interval, cooling, null, usesOccupancy));
+    } else {
+      // The heating balance point sits at or below the cooling one; between them is the deadband
+      candidates.slice(0, i + 1).forEach(heating =>
+        consider(fitForBalancePoints(type, periods, interval, cooling, heating, usesOccupancy))
+      );
+    }
+  });
+  return best;
+}
+
+/**
+ * Fit every model type
+ * @returns Models that could be fitted, in order of complexity
+ */
+export function fitBaselineModels(
+  periods: PeriodConditions[],
+  interval: DataInterval,
+  cddBase: number = DEFAULT_CDD_BASE_C
+): BaselineModel[] {
+  return (['linear', '3p', '5p'] as BaselineModelType[])
+    .map(type => fitBaselineModel(type, periods, interval, cddBase))
+    .filter((model): model is BaselineModel => model !== null);
+}
+
+/**
+ * Choose the model to report: the lowest CV(RMSE) among models meeting Guideline 14, or among all
+ * models when none does. A simpler model wins unless a complex one is clearly better.
+ * @param models Fitted models, in order of complexity
+ * @returns The chosen model, or null when there are none
+ */
+export function selectBaselineModel(models: BaselineModel[]): BaselineModel | null {
+  const compliant = models.filter(model => model.statistics.compliant);
+  const pool = compliant.length > 0 ? compliant : models;
+  return pool.reduce<BaselineModel | null>((best, model) => {
+    if (!best) return model;
+    // Extra parameters have to buy at least a tenth of a point of CV(RMSE)
+    return model.statistics.cvRmse < best.statistics.cvRmse - 0.1 ? model : best;
+  }, null);
+}
+
+/**
+ * Avoided energy over the reporting period: the baseline model adjusted to reporting-period
+ * conditions, less the energy actually used
+ * @param model Baseline model
+ * @param reportingPeriods Reporting periods with their conditions
+ * @returns Avoided energy for each period and in total
+ */
+export function calculateAvoidedEnergy(model: BaselineModel, reportingPeriods: PeriodConditions[]): AvoidedEnergy {
+  const periods = reportingPeriods.map(period => {
+    const adjustedBaselineKwh = predictConsumption(model, period);
+    return {
+      start: period.start,
+      end: period.end,
+      actualKwh: period.energyKwh,
+      adjustedBaselineKwh,
+      avoidedKwh: adjustedBaselineKwh - period.energyKwh
+    };
+  });
+  const actualKwh = periods.reduce((sum, period) => sum + period.actualKwh, 0);
+  const adjustedBaselineKwh = periods.reduce((sum, period) => sum + period.adjustedBaselineKwh, 0);
+  const avoidedKwh = adjustedBaselineKwh - actualKwh;
+
+  return {
+    periods,
+    actualKwh,
+    adjustedBaselineKwh,
+    avoidedKwh,
+    savingsPercent: adjustedBaselineKwh > 0 ? (avoidedKwh / adjustedBaselineKwh) * 100 : null
+  };
+}
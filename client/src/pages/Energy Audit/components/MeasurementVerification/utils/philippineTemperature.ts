@@ -0,0 +1,230 @@
+/**
+ * Philippine Temperature Data
+ *
+ * Daily mean dry-bulb temperatures for PAGASA synoptic stations, bundled so baselines can be
+ * modeled offline. Each station carries its monthly climatological normals in °C; typical daily
+ * values are interpolated between mid-month normals. Observed daily temperatures imported from
+ * a station record take precedence over the typical values for the dates they cover.
+ */
+
+/**
+ * Interface for a weather station in the temperature dataset
+ */
+export interface TemperatureStation {
+  id: string;
+  name: string;
+  region: string;
+  latitude: number; // degrees north
+  longitude: number; // degrees east
+  monthlyMeanC: number[]; // °C, January to December
+}
+
+/**
+ * Observed daily mean temperatures keyed by date (YYYY-MM-DD)
+ */
+export type DailyTemperatures = Record<string, number>;
+
+/**
+ * Monthly mean temperature normals for PAGASA synoptic stations
+ */
+export const PHILIPPINE_TEMPERATURE_STATIONS: TemperatureStation[] = [
+  {
+    id: 'laoag',
+    name: 'Laoag',
+    region: 'Ilocos Region',
+    latitude: 18.18,
+    longitude: 120.53,
+    monthlyMeanC: [25.2, 25.9, 27.3, 28.8, 29.1, 28.5, 27.8, 27.3, 27.5, 27.7, 26.9, 25.6]
+  },
+  {
+    id: 'tuguegarao',
+    name: 'Tuguegarao',
+    region: 'Cagayan Valley',
+    latitude: 17.65,
+    longitude: 121.75,
+    monthlyMeanC: [23.8, 25.0, 27.0, 29.0, 30.0, 29.6, 29.0, 28.7, 28.4, 27.5, 26.0, 24.1]
+  },
+  {
+    id: 'baguio',
+    name: 'Baguio',
+    region: 'Cordillera Administrative Region',
+    latitude: 16.41,
+    longitude: 120.60,
+    monthlyMeanC: [18.3, 18.9, 20.2, 21.3, 21.3, 20.6, 19.8, 19.6, 19.8, 20.0, 19.6, 18.8]
+  },
+  {
+    id: 'manila',
+    name: 'Manila (Port Area)',
+    region: 'National Capital Region',
+    latitude: 14.59,
+    longitude: 120.97,
+    monthlyMeanC: [26.0, 26.6, 27.8, 29.2, 29.6, 28.7, 27.9, 27.6, 27.5, 27.4, 27.0, 26.3]
+  },
+  {
+    id: 'quezon-city',
+    name: 'Quezon City (Science Garden)',
+    region: 'National Capital Region',
+    latitude: 14.65,
+    longitude: 121.04,
+    monthlyMeanC: [25.4, 26.0, 27.4, 28.9, 29.3, 28.4, 27.6, 27.3, 27.3, 27.1, 26.5, 25.7]
+  },
+  {
+    id: 'legazpi',
+    name: 'Legazpi',
+    region: 'Bicol Region',
+    latitude: 13.14,
+    longitude: 123.73,
+    monthlyMeanC: [25.8, 25.9, 26.6, 27.6, 28.3, 28.5, 28.0, 28.1, 28.0, 27.5, 27.0, 26.4]
+  },
+  {
+    id: 'iloilo',
+    name: 'Iloilo City',
+    region: 'Western Visayas',
+    latitude: 10.70,
+    longitude: 122.57,
+    monthlyMeanC: [26.5, 26.8, 27.7, 28.8, 29.0, 28.1, 27.6, 27.5, 27.5, 27.5, 27.4, 26.9]
+  },
+  {
+    id: 'cebu',
+    name: 'Cebu (Mactan)',
+    region: 'Central Visayas',
+    latitude: 10.31,
+    longitude: 123.98,
+    monthlyMeanC: [26.8, 27.0, 27.7, 28.6, 29.0, 28.5, 28.2, 28.3, 28.2, 28.0, 27.7, 27.2]
+  },
+  {
+    id: 'tacloban',
+    name: 'Tacloban',
+    region: 'Eastern Visayas',
+    latitude: 11.23,
+    longitude: 125.03,
+    monthlyMeanC: [26.3, 26.4, 26.9, 27.7, 28.3, 28.3, 28.0, 28.2, 28.2, 27.9, 27.5, 26.9]
+  },
+  {
+    id: 'cagayan-de-oro',
+    name: 'Cagayan de Oro (Lumbia)',
+    region: 'Northern Mindanao',
+    latitude: 8.41,
+    longitude: 124.61,
+    monthlyMeanC: [26.5, 26.7, 27.3, 28.1, 28.3, 27.7, 27.4, 27.6, 27.6, 27.5, 27.3, 26.9]
+  },
+  {
+    id: 'davao',
+    name: 'Davao City',
+    region: 'Davao Region',
+    latitude: 7.13,
+    longitude: 125.65,
+    monthlyMeanC: [27.0, 27.2, 27.8, 28.2, 28.1, 27.6, 27.4, 27.6, 27.6, 27.6, 27.5, 27.2]
+  },
+  {
+    id: 'zamboanga',
+    name: 'Zamboanga City',
+    region: 'Zamboanga Peninsula',
+    latitude: 6.92,
+    longitude: 122.06,
+    monthlyMeanC: [27.1, 27.1, 27.5, 27.8, 27.9, 27.4, 27.2, 27.3, 27.3, 27.3, 27.4, 27.3]
+  }
+];
+
+/**
+ * Find a station in the temperature dataset
+ * @param stationId Station ID
+ * @returns The station
+ */
+export function getTemperatureStation(stationId: string): TemperatureStation {
+  const station = PHILIPPINE_TEMPERATURE_STATIONS.find(item => item.id === stationId);
+  if (!station) {
+    throw new Error(`No temperature data for station "${stationId}"`);
+  }
+  return station;
+}
+
+/**
+ * Typical daily mean temperature, interpolated linearly between the normals of the months
+ * on either side of the date; each normal is placed on the 15th of its month
+ * @param station Weather station
+ * @param date Date of interest (local time)
+ * @returns Temperature in °C
+ */
+export function getTypicalDailyTemperature(station: TemperatureStation, date: Date): number {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  const day = date.getDate();
+  // Months before and after the date, and the fraction of the way between their midpoints
+  const previousMonth = day >= 15 ? month : month - 1;
+  const previousMid = new Date(year, previousMonth, 15);
+  const nextMid = new Date(year, previousMonth + 1, 15);
+  const fraction = (date.getTime() - previousMid.getTime()) / (nextMid.getTime() - previousMid.getTime());
+
+  const previous = station.monthlyMeanC[(previousMonth + 12) % 12];
+  const next = station.monthlyMeanC[(previousMonth + 13) % 12];
+  return previous + (next - previous) * fraction;
+}
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Daily mean temperatures over a date range, preferring observed values where they exist
+ * @param station Weather station supplying typical values
+ * @param start First day (local time)
+ * @param end Last day, inclusive (local time)
+ * @param observed Observed daily temperatures
+ * @returns One temperature per day, in °C
+ */
+export function getDailyTemperatures(
+  station: TemperatureStation,
+  start: Date,
+  end: Date,
+  observed: DailyTemperatures = {}
+): number[] {
+  const temperatures: number[] = [];
+  for (const date = new Date(start.getFullYear(), start.getMonth(), start.getDate()); date <= end; date.setDate(date.getDate() + 1)) {
+    const key = toDateKey(date);
+    temperatures.push(observed[key] ?? getTypicalDailyTemperature(station, date));
+  }
+  return temperatures;
+}
+
+/**
+ * Parse observed daily temperatures from CSV text with a date column and a temperature column
+ * (°C). Daily maximum and minimum columns are averaged when no mean is given.
+ * @param text CSV text
+ * @returns Temperatures by date, and the number of rows that could not be read
+ */
+export function parseTemperatureCsv(text: string): { temperatures: DailyTemperatures; skipped: number } {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim() !== '');
+  const temperatures: DailyTemperatures = {};
+  if (lines.length === 0) {
+    return { temperatures, skipped: 0 };
+  }
+
+  const headers = lines[0].split(',').map(header => header.trim().toLowerCase());
+  const dateIndex = headers.findIndex(header => header === 'date' || header === 'day');
+  const meanIndex = headers.findIndex(header => ['temperature', 'temp', 'tmean', 'mean', 'mean_temperature'].includes(header));
+  const maxIndex = headers.findIndex(header => ['tmax', 'max', 'max_temperature'].includes(header));
+  const minIndex = headers.findIndex(header => ['tmin', 'min', 'min_temperature'].includes(header));
+  if (dateIndex < 0 || (meanIndex < 0 && (maxIndex < 0 || minIndex < 0))) {
+    throw new Error('The file needs a date column and a temperature column (or tmax and tmin)');
+  }
+
+  let skipped = 0;
+  for (const line of lines.slice(1)) {
+    const cells = line.split(',').map(cell => cell.trim());
+    const date = new Date(cells[dateIndex]);
+    const value = meanIndex >= 0
+      ? parseFloat(cells[meanIndex])
+      : (parseFloat(cells[maxIndex]) + parseFloat(cells[minIndex])) / 2;
+    if (Number.isNaN(date.getTime()) || !Number.isFinite(value)) {
+      skipped++;
+      continue;
+    }
+    // ISO dates parse as UTC midnight, so keep them as written rather than shifting them to local time
+    const key = /^\d{4}-\d{2}-\d{2}$/.test(cells[dateIndex]) ? cells[dateIndex] : toDateKey(date);
+    temperatures[key] = value;
+  }
+  return { temperatures, skipped };
+}
@@ -32,6 +32,7 @@ import TrendingUpIcon from '@mui/icons-material/TrendingUp';
 import MonetizationOnIcon from '@mui/icons-material/MonetizationOn';
 import InfoOutlinedIcon from '@mui/icons-material/InfoOutlined';
 import HelpOutlineIcon from '@mui/icons-material/HelpOutline';
+import { analyzeCashFlows, CashFlowMetrics } from '../Calculators/utils/roiUtils';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend, ResponsiveContainer } from 'recharts';
 
 interface ROICalculationInputs {
@@ -44,23 +45,6 @@ interface ROICalculationInputs {
   electricityEscalationRate: string;
 }
 
-interface ROICalculationResults {
-  simplePayback: number;
-  npv: number;
-  irr: number;
-  roi: number;
-  savingsToInvestmentRatio: number;
-  yearlyResults: YearlyResult[];
-}
-
-interface YearlyResult {
-  year: number;
-  cashFlow: number;
-  discountedCashFlow: number;
-  cumulativeCashFlow: number;
-  cumulativeDiscountedCashFlow: number;
-}
-
 interface ProjectOption {
   name: string;
   description: string;
@@ -133,7 +117,7 @@ const ROICalculatorComponent: React.FC = () => {
     electricityEscalationRate: '5'
   });
   
-  const [results, setResults] = useState<ROICalculationResults | null>(null);
+  const [results, setResults] = useState<CashFlowMetrics | null>(null);
   const [selectedProject, setSelectedProject] = useState<string>('LED Lighting Retrofit');
   const [activeTab, setActiveTab] = useState(0);
   const [calculationError, setCalculationError] = useState<string | null>(null);
@@ -181,49 +165,6 @@ const ROICalculatorComponent: React.FC = () => {
       const inflationRate = parseFloat(inputs.inflationRate) / 100;
       const electricityEscalationRate = parseFloat(inputs.electricityEscalationRate) / 100;
       
-      // Simple payback period
-      const simplePayback = initialCost / (annualSavings - maintenanceCost);
-      
-      // Calculate yearly results
-      const yearlyResults: YearlyResult[] = [];
-      let npv = -initialCost;
-      let cumulativeCashFlow = -initialCost;
-      let cumulativeDiscountedCashFlow = -initialCost;
-      
-      yearlyResults.push({
-        year: 0,
-        cashFlow: -initialCost,
-        discountedCashFlow: -initialCost,
-        cumulativeCashFlow,
-        cumulativeDiscountedCashFlow
-      });
-      
-      // Calculate IRR using Newton-Raphson method
-      const calculateIRR = (cashFlows: number[], guess = 0.1): number => {
-        const maxIterations = 1000;
-        const tolerance = 0.00001;
-        let irr = guess;
-        
-        for (let i = 0; i < maxIterations; i++) {
-          let npv = 0;
-          let derivativeNpv = 0;
-          
-          for (let j = 0; j < cashFlows.length; j++) {
-            const factor = Math.pow(1 + irr, j);
-            npv += cashFlows[j] / factor;
-            derivativeNpv -= j * cashFlows[j] / Math.pow(1 + irr, j + 1);
-          }
-          
-          if (Math.abs(npv) < tolerance) {
-            return irr;
-          }
-          
-          irr = irr - npv / derivativeNpv;
-        }
-        
-        return irr;
-      };
-      
       const cashFlows = [-initialCost];
       
       for (let year = 1; year <= projectLifespan; year++) {
@@ -234,45 +175,10 @@ const ROICalculatorComponent: React.FC = () => {
         const adjustedMaintenance = maintenanceCost * Math.pow(1 + inflationRate, year - 1);
         
         // Net cash flow for the year
-        const cashFlow = adjustedSavings - adjustedMaintenance;
-        cashFlows.push(cashFlow);
-        
-        // Discounted cash flow
-        const discountedCashFlow = cashFlow / Math.pow(1 + discountRate, year);
-        
-        // Update NPV
-        npv += discountedCashFlow;
-        
-        // Update cumulative values
-        cumulativeCashFlow += cashFlow;
-        cumulativeDiscountedCashFlow += discountedCashFlow;
-        
-        yearlyResults.push({
-          year,
-          cashFlow,
-          discountedCashFlow,
-          cumulativeCashFlow,
-          cumulativeDiscountedCashFlow
-        });
+        cashFlows.push(adjustedSavings - adjustedMaintenance);
       }
       
-      // Calculate IRR
-      const irr = calculateIRR(cashFlows) * 100;
-      
-      // ROI over project lifespan
-      const roi = ((cumulativeCashFlow + initialCost) / initialCost) * 100;
-      
-      // Savings to Investment Ratio (SIR)
-      const savingsToInvestmentRatio = (cumulativeDiscountedCashFlow + initialCost) / initialCost;
-      
-      setResults({
-        simplePayback,
-        npv,
-        irr,
-        roi,
-        savingsToInvestmentRatio,
-        yearlyResults
-      });
+      setResults(analyzeCashFlows(cashFlows, discountRate));
     } catch (error) {
       setCalculationError('Error in calculation. Please check your inputs and try again.');
       console.error('ROI calculation error:', error);
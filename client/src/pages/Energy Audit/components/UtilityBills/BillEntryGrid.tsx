@@ -0,0 +1,333 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  IconButton,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Cancel as CancelIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  Save as SaveIcon,
+  UploadFile as UploadFileIcon
+} from '@mui/icons-material';
+import utilityBillService, {
+  BillImportResult,
+  UtilityBill,
+  UtilityBillInput
+} from '../../../../services/utilityBillService';
+import { MeterSummary } from '../../../../services/energyService';
+
+interface BillEntryGridProps {
+  buildingId: number;
+  meters: MeterSummary[];
+  // Called after bills are added, changed or removed
+  onChange?: () => void;
+}
+
+// Text values while a row is being edited; converted to numbers on save
+type BillDraft = Record<keyof UtilityBillInput, string>;
+
+const EMPTY_DRAFT: BillDraft = {
+  meterId: '',
+  accountNumber: '',
+  periodStart: '',
+  periodEnd: '',
+  kwh: '',
+  kwDemand: '',
+  powerFactor: '',
+  amount: '',
+  notes: ''
+};
+
+const toDraft = (bill: UtilityBill): BillDraft => ({
+  meterId: bill.meterId !== null ? String(bill.meterId) : '',
+  accountNumber: bill.accountNumber,
+  periodStart: bill.periodStart,
+  periodEnd: bill.periodEnd,
+  kwh: String(bill.kwh),
+  kwDemand: bill.kwDemand !== null ? String(bill.kwDemand) : '',
+  powerFactor: bill.powerFactor !== null ? String(bill.powerFactor) : '',
+  amount: String(bill.amount),
+  notes: bill.notes || ''
+});
+
+const fromDraft = (draft: BillDraft): UtilityBillInput => ({
+  meterId: draft.meterId ? Number(draft.meterId) : null,
+  accountNumber: draft.accountNumber.trim(),
+  periodStart: draft.periodStart,
+  periodEnd: draft.periodEnd,
+  kwh: Number(draft.kwh),
+  kwDemand: draft.kwDemand !== '' ? Number(draft.kwDemand) : null,
+  powerFactor: draft.powerFactor !== '' ? Number(draft.powerFactor) : null,
+  amount: Number(draft.amount),
+  notes: draft.notes.trim() || null
+});
+
+// Next bill starts the day after the last one ends
+const nextPeriodStart = (bills: UtilityBill[]) => {
+  if (bills.length === 0) return '';
+  const [year, month, day] = bills[bills.length - 1].periodEnd.split('-').map(Number);
+  const next = new Date(year, month - 1, day + 1);
+  return `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}-${String(next.getDate()).padStart(2, '0')}`;
+};
+
+const formatNumber = (value: number | null, digits = 0) =>
+  value !== null ? value.toLocaleString(undefined, { maximumFractionDigits: digits }) : '-';
+
+const BillEntryGrid: React.FC<BillEntryGridProps> = ({ buildingId, meters, onChange }) => {
+  const [bills, setBills] = useState<UtilityBill[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  // 'new' while adding a row, a bill id while editing one
+  const [editing, setEditing] = useState<number | 'new' | null>(null);
+  const [draft, setDraft] = useState<BillDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [importResult, setImportResult] = useState<BillImportResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadBills = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setBills(await utilityBillService.getBills(buildingId));
+    } catch (err: any) {
+      setError(err?.response?.data?.message || 'Failed to load utility bills');
+    } finally {
+      setLoading(false);
+    }
+  }, [buildingId]);
+
+  useEffect(() => {
+    setEditing(null);
+    setImportResult(null);
+    loadBills();
+  }, [loadBills]);
+
+  const startAdd = () => {
+    const previous = bills[bills.length - 1];
+    setDraft({
+      ...EMPTY_DRAFT,
+      accountNumber: previous?.accountNumber || '',
+      meterId: previous?.meterId !== null && previous?.meterId !== undefined ? String(previous.meterId) : '',
+      periodStart: nextPeriodStart(bills)
+    });
+    setEditing('new');
+  };
+
+  const startEdit = (bill: UtilityBill) => {
+    setDraft(toDraft(bill));
+    setEditing(bill.id);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      if (editing === 'new') {
+        await utilityBillService.createBill(buildingId, fromDraft(draft));
+      } else if (editing !== null) {
+        await utilityBillService.updateBill(editing, fromDraft(draft));
+      }
+      setEditing(null);
+      await loadBills();
+      onChange?.();
+    } catch (err: any) {
+      setError(err?.response?.data?.message || 'Failed to save the bill');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (bill: UtilityBill) => {
+    if (!window.confirm(`Delete the bill for ${bill.periodStart} to ${bill.periodEnd}?`)) return;
+    try {
+      await utilityBillService.deleteBill(bill.id);
+      await loadBills();
+      onChange?.();
+    } catch (err: any) {
+      setError(err?.response?.data?.message || 'Failed to delete the bill');
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setImportResult(null);
+    try {
+      setImportResult(await utilityBillService.uploadBills(buildingId, file));
+      await loadBills();
+      onChange?.();
+    } catch (err: any) {
+      setError(err?.response?.data?.message || 'Failed to import bills');
+    }
+  };
+
+  const draftField = (field: keyof BillDraft, props: Record<string, any> = {}) => (
+    <TextField
+      size="small"
+      value={draft[field]}
+      onChange={(e) => setDraft(prev => ({ ...prev, [field]: e.target.value }))}
+      {...props}
+    />
+  );
+
+  const renderEditRow = (key: React.Key) => (
+    <TableRow key={key}>
+      <TableCell>{draftField('accountNumber', { sx: { width: 120 } })}</TableCell>
+      <TableCell>{draftField('periodStart', { type: 'date' })}</TableCell>
+      <TableCell>{draftField('periodEnd', { type: 'date' })}</TableCell>
+      <TableCell />
+      <TableCell>{draftField('kwh', { type: 'number', sx: { width: 110 } })}</TableCell>
+      <TableCell>{draftField('kwDemand', { type: 'number', sx: { width: 90 } })}</TableCell>
+      <TableCell>{draftField('powerFactor', { type: 'number', inputProps: { step: 0.01, min: 0, max: 1 }, sx: { width: 80 } })}</TableCell>
+      <TableCell>{draftField('amount', { type: 'number', sx: { width: 120 } })}</TableCell>
+      <TableCell>
+        <Select
+          size="small"
+          value={draft.meterId}
+          displayEmpty
+          onChange={(e) => setDraft(prev => ({ ...prev, meterId: e.target.value }))}
+        >
+          <MenuItem value="">Main meters</MenuItem>
+          {meters.map(meter => (
+            <MenuItem key={meter.id} value={String(meter.id)}>{meter.name}</MenuItem>
+          ))}
+        </Select>
+      </TableCell>
+      <TableCell>{draftField('notes')}</TableCell>
+      <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+        <IconButton size="small" color="primary" onClick={handleSave} disabled={saving}>
+          <SaveIcon fontSize="small" />
+        </IconButton>
+        <IconButton size="small" onClick={() => setEditing(null)} disabled={saving}>
+          <CancelIcon fontSize="small" />
+        </IconButton>
+      </TableCell>
+    </TableRow>
+  );
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="body2" color="text.secondary">
+          Enter each bill's billing period, consumption, demand and amount, or import a spreadsheet with
+          columns such as Account, Period Start, Period End, kWh, kW, PF and Amount.
+        </Typography>
+        <Box sx={{ whiteSpace: 'nowrap', ml: 2 }}>
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" hidden onChange={handleImport} />
+          <Button startIcon={<UploadFileIcon />} onClick={() => fileInputRef.current?.click()} sx={{ mr: 1 }}>
+            Import CSV
+          </Button>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={startAdd} disabled={editing !== null}>
+            Add Bill
+          </Button>
+        </Box>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+      {importResult && (
+        <Alert
+          severity={importResult.rejected.length > 0 ? 'warning' : 'success'}
+          sx={{ mb: 2 }}
+          onClose={() => setImportResult(null)}
+        >
+          Imported {importResult.inserted} of {importResult.received} bills
+          {importResult.duplicates > 0 && `, ${importResult.duplicates} already recorded`}
+          {importResult.rejected.length > 0 && (
+            <>
+              . Rejected rows:{' '}
+              {importResult.rejected.slice(0, 5).map(rejected => `row ${rejected.row} (${rejected.reason})`).join('; ')}
+              {importResult.rejected.length > 5 && ` and ${importResult.rejected.length - 5} more`}
+            </>
+          )}
+        </Alert>
+      )}
+
+      <TableContainer component={Paper}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Account</TableCell>
+              <TableCell>Period Start</TableCell>
+              <TableCell>Period End</TableCell>
+              <TableCell align="right">Days</TableCell>
+              <TableCell align="right">kWh</TableCell>
+              <TableCell align="right">kW Demand</TableCell>
+              <TableCell align="right">PF</TableCell>
+              <TableCell align="right">Amount (₱)</TableCell>
+              <TableCell>Meter</TableCell>
+              <TableCell>Notes</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {loading && (
+              <TableRow>
+                <TableCell colSpan={11} align="center"><CircularProgress size={24} /></TableCell>
+              </TableRow>
+            )}
+            {!loading && bills.length === 0 && editing !== 'new' && (
+              <TableRow>
+                <TableCell colSpan={11} align="center">
+                  No bills recorded for this building. Collect 12 to 24 months of bills for a reliable baseline.
+                </TableCell>
+              </TableRow>
+            )}
+            {!loading && bills.map(bill => (editing === bill.id ? renderEditRow(bill.id) : (
+              <TableRow key={bill.id} hover>
+                <TableCell>{bill.accountNumber || '-'}</TableCell>
+                <TableCell>{bill.periodStart}</TableCell>
+                <TableCell>{bill.periodEnd}</TableCell>
+                <TableCell align="right">{bill.billingDays}</TableCell>
+                <TableCell align="right">{formatNumber(bill.kwh)}</TableCell>
+                <TableCell align="right">{formatNumber(bill.kwDemand, 1)}</TableCell>
+                <TableCell align="right">{formatNumber(bill.powerFactor, 2)}</TableCell>
+                <TableCell align="right">{formatNumber(bill.amount, 2)}</TableCell>
+                <TableCell>{bill.meterName || 'Main meters'}</TableCell>
+                <TableCell>{bill.notes}</TableCell>
+                <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                  <Tooltip title="Edit">
+                    <span>
+                      <IconButton size="small" onClick={() => startEdit(bill)} disabled={editing !== null}>
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Delete">
+                    <span>
+                      <IconButton size="small" onClick={() => handleDelete(bill)} disabled={editing !== null}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            )))}
+            {editing === 'new' && renderEditRow('new')}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+};
+
+export default BillEntryGrid;
@@ -0,0 +1,327 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Card,
+  CardContent,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  FormControlLabel,
+  Grid,
+  InputAdornment,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { alpha, useTheme } from '@mui/material/styles';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import utilityBillService, {
+  BillReconciliationReport,
+  BillReconciliationStatus
+} from '../../../../services/utilityBillService';
+import { LoadSchedule } from '../Calculators/ScheduleOfLoads/types';
+import { loadSavedLoadSchedules } from '../Calculators/utils/storage';
+import { getWeeklyLoadProfile } from '../Calculators/utils/solarPVUtils';
+import {
+  DEFAULT_ESTIMATE_TOLERANCE_PERCENT,
+  reconcileWithSchedules,
+  summarizeReconciliation
+} from './utils/billReconciliation';
+
+interface BillReconciliationProps {
+  buildingId: number;
+  // Changes whenever bills are edited, so the comparison is reloaded
+  refreshKey?: number;
+}
+
+const STATUS_LABELS: Record<BillReconciliationStatus, { label: string; color: 'success' | 'error' | 'warning' | 'default' }> = {
+  matched: { label: 'Matches meter', color: 'success' },
+  variance: { label: 'Metered variance', color: 'error' },
+  incomplete: { label: 'Incomplete data', color: 'warning' },
+  no_meter: { label: 'No meter', color: 'default' }
+};
+
+const formatKwh = (value: number | null) => (value !== null ? `${Math.round(value).toLocaleString()}` : '-');
+const formatPercent = (value: number | null) => (value !== null ? `${value > 0 ? '+' : ''}${value.toFixed(1)}%` : '-');
+
+const BillReconciliation: React.FC<BillReconciliationProps> = ({ buildingId, refreshKey = 0 }) => {
+  const theme = useTheme();
+  const [report, setReport] = useState<BillReconciliationReport | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [tolerancePercent, setTolerancePercent] = useState<number>(5);
+  const [estimateTolerancePercent, setEstimateTolerancePercent] = useState<number>(DEFAULT_ESTIMATE_TOLERANCE_PERCENT);
+  const [unoccupiedLoadFactor, setUnoccupiedLoadFactor] = useState<number>(0.1);
+  const [schedules, setSchedules] = useState<LoadSchedule[]>([]);
+  const [selectedScheduleIds, setSelectedScheduleIds] = useState<string[]>([]);
+
+  // Offer every panel saved from the Schedule of Loads calculator
+  useEffect(() => {
+    const saved = loadSavedLoadSchedules();
+    setSchedules(saved);
+    setSelectedScheduleIds(saved.map(schedule => schedule.id));
+  }, []);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setReport(await utilityBillService.getReconciliation(buildingId, tolerancePercent));
+    } catch (err: any) {
+      setError(err?.response?.data?.message || 'Failed to reconcile utility bills');
+    } finally {
+      setLoading(false);
+    }
+  }, [buildingId, tolerancePercent]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport, refreshKey]);
+
+  const weeklyLoad = useMemo(() => {
+    const selected = schedules.filter(schedule => selectedScheduleIds.includes(schedule.id));
+    return selected.length > 0 ? getWeeklyLoadProfile(selected, unoccupiedLoadFactor) : null;
+  }, [schedules, selectedScheduleIds, unoccupiedLoadFactor]);
+
+  const bills = useMemo(
+    () => (report ? reconcileWithSchedules(report.bills, weeklyLoad, report.tolerancePercent, estimateTolerancePercent) : []),
+    [report, weeklyLoad, estimateTolerancePercent]
+  );
+  const summary = useMemo(() => summarizeReconciliation(bills), [bills]);
+
+  const chartData = bills.map(row => ({
+    period: row.bill.periodEnd.slice(0, 7),
+    Billed: row.bill.kwh,
+    Metered: row.status === 'matched' || row.status === 'variance' ? row.metered?.energyKwh : undefined,
+    Estimated: row.estimatedKwh ?? undefined
+  }));
+
+  const toggleSchedule = (scheduleId: string) => {
+    setSelectedScheduleIds(prev =>
+      prev.includes(scheduleId) ? prev.filter(id => id !== scheduleId) : [...prev, scheduleId]
+    );
+  };
+
+  return (
+    <Box>
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Grid container spacing={2}>
+          <Grid item xs={12} sm={4}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label="Metered Tolerance"
+              value={tolerancePercent}
+              onChange={(e) => setTolerancePercent(Number(e.target.value))}
+              helperText="Allowed bill vs meter difference"
+              InputProps={{ endAdornment: <InputAdornment position="end">%</InputAdornment> }}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label="Estimate Tolerance"
+              value={estimateTolerancePercent}
+              onChange={(e) => setEstimateTolerancePercent(Number(e.target.value))}
+              helperText="Allowed bill vs schedules of loads difference"
+              InputProps={{ endAdornment: <InputAdornment position="end">%</InputAdornment> }}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label="Unoccupied Load Factor"
+              value={unoccupiedLoadFactor}
+              onChange={(e) => setUnoccupiedLoadFactor(Number(e.target.value))}
+              helperText="Share of demand drawn outside operating hours"
+              inputProps={{ step: 0.05, min: 0, max: 1 }}
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <Typography variant="subtitle2" gutterBottom>
+              Schedules of Loads in the Estimate
+            </Typography>
+            {schedules.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No saved load schedules found. Save this building's panels from the Schedule of Loads
+                calculator, with their operating hours, to estimate consumption for each billing period.
+              </Typography>
+            ) : (
+              schedules.map(schedule => (
+                <FormControlLabel
+                  key={schedule.id}
+                  control={
+                    <Checkbox
+                      size="small"
+                      checked={selectedScheduleIds.includes(schedule.id)}
+                      onChange={() => toggleSchedule(schedule.id)}
+                    />
+                  }
+                  label={`${schedule.panelName} (${(schedule.totalDemandLoad / 1000).toFixed(1)} kW)`}
+                />
+              ))
+            )}
+          </Grid>
+        </Grid>
+      </Paper>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+      {loading && <Box sx={{ textAlign: 'center', py: 3 }}><CircularProgress /></Box>}
+
+      {!loading && report && bills.length === 0 && (
+        <Alert severity="info">Record this building's bills to compare them with metered and estimated consumption.</Alert>
+      )}
+
+      {!loading && bills.length > 0 && (
+        <>
+          <Grid container spacing={2} sx={{ mb: 3 }}>
+            <Grid item xs={12} sm={6} md={3}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">Billed Consumption</Typography>
+                  <Typography variant="h5">{formatKwh(summary.billedKwh)} kWh</Typography>
+                  <Typography variant="body2" color="text.secondary">{summary.billCount} bills</Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={12} sm={6} md={3}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">Metered (covered periods)</Typography>
+                  <Typography variant="h5">{formatKwh(summary.meteredKwh)} kWh</Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    vs {formatKwh(summary.meteredBilledKwh)} kWh billed
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={12} sm={6} md={3}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">Schedules of Loads Estimate</Typography>
+                  <Typography variant="h5">
+                    {summary.estimatedKwh !== null ? `${formatKwh(summary.estimatedKwh)} kWh` : 'N/A'}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={12} sm={6} md={3}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">Unexplained Variances</Typography>
+                  <Typography variant="h5" color={summary.unexplainedCount > 0 ? 'error' : 'inherit'}>
+                    {summary.unexplainedCount}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    Average cost {summary.averageCostPerKwh !== null ? `₱${summary.averageCostPerKwh.toFixed(2)}/kWh` : '-'}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+          </Grid>
+
+          <Paper sx={{ p: 2, mb: 3 }}>
+            <Typography variant="h6" gutterBottom>Billed vs Metered vs Estimated</Typography>
+            <Box sx={{ height: 300 }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="period" />
+                  <YAxis unit=" kWh" width={90} />
+                  <RechartsTooltip formatter={(value: number) => `${Math.round(value).toLocaleString()} kWh`} />
+                  <Legend />
+                  <Bar dataKey="Billed" fill={theme.palette.primary.main} />
+                  <Bar dataKey="Metered" fill={theme.palette.success.main} />
+                  <Bar dataKey="Estimated" fill={theme.palette.warning.main} />
+                </BarChart>
+              </ResponsiveContainer>
+            </Box>
+          </Paper>
+
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Billing Period</TableCell>
+                  <TableCell align="right">Billed kWh</TableCell>
+                  <TableCell align="right">Metered kWh</TableCell>
+                  <TableCell align="right">Coverage</TableCell>
+                  <TableCell align="right">vs Meter</TableCell>
+                  <TableCell align="right">Estimated kWh</TableCell>
+                  <TableCell align="right">vs Estimate</TableCell>
+                  <TableCell align="right">Demand vs Peak</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Findings</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {bills.map(row => (
+                  <TableRow
+                    key={row.bill.id}
+                    sx={row.unexplained ? { bgcolor: alpha(theme.palette.error.main, 0.08) } : undefined}
+                  >
+                    <TableCell>
+                      {row.bill.periodStart} to {row.bill.periodEnd}
+                      {row.bill.accountNumber && (
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          Account {row.bill.accountNumber}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">{formatKwh(row.bill.kwh)}</TableCell>
+                    <TableCell align="right">{formatKwh(row.metered?.energyKwh ?? null)}</TableCell>
+                    <TableCell align="right">
+                      {row.metered ? `${Math.round(row.metered.coverage * 100)}%` : '-'}
+                    </TableCell>
+                    <TableCell align="right">{formatPercent(row.variancePercent)}</TableCell>
+                    <TableCell align="right">{formatKwh(row.estimatedKwh)}</TableCell>
+                    <TableCell align="right">{formatPercent(row.estimateVariancePercent)}</TableCell>
+                    <TableCell align="right">{formatPercent(row.demandVariancePercent)}</TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={STATUS_LABELS[row.status].label}
+                        color={STATUS_LABELS[row.status].color}
+                        variant="outlined"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {row.reasons.map(reason => (
+                        <Typography key={reason} variant="body2" color={row.unexplained ? 'error' : 'text.secondary'}>
+                          {reason}
+                        </Typography>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default BillReconciliation;
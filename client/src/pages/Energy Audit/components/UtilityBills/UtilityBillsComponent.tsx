@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Tab,
+  Tabs,
+  Typography
+} from '@mui/material';
+import energyService, { BuildingSummary, MeterSummary } from '../../../../services/energyService';
+import BillEntryGrid from './BillEntryGrid';
+import BillReconciliation from './BillReconciliation';
+
+/**
+ * Utility bills collected for a building, and how they compare with metered and estimated consumption
+ */
+const UtilityBillsComponent: React.FC = () => {
+  const [buildings, setBuildings] = useState<BuildingSummary[]>([]);
+  const [buildingId, setBuildingId] = useState<number | ''>('');
+  const [meters, setMeters] = useState<MeterSummary[]>([]);
+  const [tab, setTab] = useState<number>(0);
+  const [refreshKey, setRefreshKey] = useState<number>(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    energyService.getBuildings()
+      .then(result => {
+        setBuildings(result);
+        if (result.length > 0) setBuildingId(result[0].id);
+      })
+      .catch((err: any) => setError(err?.response?.data?.message || 'Failed to load buildings'));
+  }, []);
+
+  useEffect(() => {
+    if (buildingId === '') return;
+    energyService.getMeters(buildingId)
+      .then(setMeters)
+      .catch(() => setMeters([]));
+  }, [buildingId]);
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Box>
+          <Typography variant="h4" gutterBottom>
+            Utility Bills
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Record the building's electric bills and reconcile them against metered readings and the
+            consumption estimated from its schedules of loads.
+          </Typography>
+        </Box>
+        <FormControl sx={{ minWidth: 240 }} size="small">
+          <InputLabel id="utility-bills-building-label">Building</InputLabel>
+          <Select
+            labelId="utility-bills-building-label"
+            value={buildingId}
+            label="Building"
+            onChange={(e) => setBuildingId(Number(e.target.value))}
+          >
+            {buildings.map(building => (
+              <MenuItem key={building.id} value={building.id}>{building.name}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+      {!error && buildings.length === 0 && (
+        <Alert severity="info">Add a building with its meters before recording utility bills.</Alert>
+      )}
+
+      {buildingId !== '' && (
+        <Paper sx={{ p: 2 }}>
+          <Tabs value={tab} onChange={(_, value: number) => setTab(value)} sx={{ mb: 2 }}>
+            <Tab label="Bills" />
+            <Tab label="Reconciliation" />
+          </Tabs>
+          {tab === 0 && (
+            <BillEntryGrid buildingId={buildingId} meters={meters} onChange={() => setRefreshKey(key => key + 1)} />
+          )}
+          {tab === 1 && <BillReconciliation buildingId={buildingId} refreshKey={refreshKey} />}
+        </Paper>
+      )}
+    </Box>
+  );
+};
+
+export default UtilityBillsComponent;
@@ -0,0 +1,117 @@
+import {
+  estimateScheduleKwh,
+  reconcileWithSchedules,
+  summarizeReconciliation
+} from '../utils/billReconciliation';
+import { BillReconciliation, UtilityBill } from '../../../../../services/utilityBillService';
+
+describe('Bill Reconciliation Utilities', () => {
+  // 10 kW around the clock on weekdays, nothing on weekends: 240 kWh per weekday
+  const weekdayLoad = [0, 1, 2, 3, 4, 5, 6].map(day => new Array(24).fill(day < 5 ? 10 : 0));
+
+  const bill = (overrides: Partial<UtilityBill> = {}): UtilityBill => ({
+    id: 1,
+    buildingId: 1,
+    meterId: null,
+    meterName: null,
+    accountNumber: '',
+    periodStart: '2026-09-01',
+    periodEnd: '2026-09-30',
+    billingDays: 30,
+    kwh: 5280,
+    kwDemand: 12,
+    powerFactor: null,
+    amount: 52800,
+    notes: null,
+    source: 'manual',
+    ...overrides
+  });
+
+  const row = (overrides: Partial<BillReconciliation> = {}, billOverrides: Partial<UtilityBill> = {}): BillReconciliation => ({
+    bill: bill(billOverrides),
+    metered: { meterIds: [1], energyKwh: 5280, peakDemandKw: 12, powerFactor: 0.9, coverage: 1 },
+    varianceKwh: 0,
+    variancePercent: 0,
+    demandVariancePercent: 0,
+    status: 'matched',
+    ...overrides
+  });
+
+  describe('estimateScheduleKwh', () => {
+    test('should count each day of the period on its weekday', () => {
+      // September 2026 has 22 weekdays
+      expect(estimateScheduleKwh(weekdayLoad, '2026-09-01', '2026-09-30')).toBe(22 * 240);
+    });
+
+    test('should include both the first and last day', () => {
+      // Saturday 2026-09-05 to Monday 2026-09-07
+      expect(estimateScheduleKwh(weekdayLoad, '2026-09-05', '2026-09-07')).toBe(240);
+      expect(estimateScheduleKwh(weekdayLoad, '2026-09-07', '2026-09-07')).toBe(240);
+    });
+  });
+
+  describe('reconcileWithSchedules', () => {
+    test('should leave bills that match the meter and schedules unflagged', () => {
+      const [result] = reconcileWithSchedules([row()], weekdayLoad, 5);
+      expect(result.estimatedKwh).toBe(5280);
+      expect(result.estimateVariancePercent).toBe(0);
+      expect(result.unexplained).toBe(false);
+      expect(result.reasons).toHaveLength(0);
+    });
+
+    test('should flag metered variances as unexplained', () => {
+      const [result] = reconcileWithSchedules(
+        [row({ status: 'variance', variancePercent: 12.5, varianceKwh: 660 })],
+        null,
+        5
+      );
+      expect(result.unexplained).toBe(true);
+      expect(result.reasons[0]).toContain('12.5% above metered');
+    });
+
+    test('should put schedule differences on the schedules when the meter agrees', () => {
+      const [result] = reconcileWithSchedules([row({}, { kwh: 8000 })], weekdayLoad, 5);
+      expect(result.unexplained).toBe(false);
+      expect(result.reasons[0]).toContain('underestimate');
+    });
+
+    test('should fall back to the schedule estimate without reliable metered data', () => {
+      const [incomplete] = reconcileWithSchedules(
+        [row({ status: 'incomplete', metered: { meterIds: [1], energyKwh: 100, peakDemandKw: null, powerFactor: null, coverage: 0.2 } }, { kwh: 8000 })],
+        weekdayLoad,
+        5
+      );
+      expect(incomplete.unexplained).toBe(true);
+      expect(incomplete.reasons).toEqual([
+        'Metered data covers only 20% of the billing period',
+        'Billed kWh is 34% above the schedules of loads estimate'
+      ]);
+
+      const [unmetered] = reconcileWithSchedules([row({ status: 'no_meter', metered: null })], weekdayLoad, 5);
+      expect(unmetered.unexplained).toBe(false);
+    });
+
+    test('should flag billed demand that differs from the metered peak', () => {
+      const [result] = reconcileWithSchedules([row({ demandVariancePercent: -20 })], null, 5);
+      expect(result.unexplained).toBe(true);
+      expect(result.reasons[0]).toContain('20% below the metered peak');
+    });
+  });
+
+  describe('summarizeReconciliation', () => {
+    test('should total only reliable metered data', () => {
+      const summary = summarizeReconciliation(reconcileWithSchedules([
+        row(),
+        row({ status: 'incomplete', metered: { meterIds: [1], energyKwh: 100, peakDemandKw: null, powerFactor: null, coverage: 0.2 } })
+      ], weekdayLoad, 5));
+
+      expect(summary.billCount).toBe(2);
+      expect(summary.billedKwh).toBe(10560);
+      expect(summary.meteredKwh).toBe(5280);
+      expect(summary.meteredBilledKwh).toBe(5280);
+      expect(summary.estimatedKwh).toBe(10560);
+      expect(summary.averageCostPerKwh).toBe(10);
+      expect(summary.unexplainedCount).toBe(0);
+    });
+  });
+});
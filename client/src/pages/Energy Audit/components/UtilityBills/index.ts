@@ -0,0 +1,3 @@
+import UtilityBillsComponent from './UtilityBillsComponent';
+export { UtilityBillsComponent };
+export default UtilityBillsComponent;
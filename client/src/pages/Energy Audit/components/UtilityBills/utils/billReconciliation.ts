@@ -0,0 +1,139 @@
+/**
+ * Bill Reconciliation Utilities
+ *
+ * Adds the consumption estimated from schedules of loads to the server's bill-vs-meter comparison
+ * and decides which variances are left unexplained
+ */
+import { BillReconciliation } from '../../../../../services/utilityBillService';
+
+/**
+ * Default allowed difference between a bill and the schedule estimate
+ * Schedules of loads are design estimates, so they get more room than a meter
+ */
+export const DEFAULT_ESTIMATE_TOLERANCE_PERCENT = 15;
+
+export interface ReconciledBill extends BillReconciliation {
+  estimatedKwh: number | null;
+  // (billed - estimated) / billed
+  estimateVariancePercent: number | null;
+  // True when neither the meter nor the schedules account for the billed consumption
+  unexplained: boolean;
+  reasons: string[];
+}
+
+export interface ReconciliationSummary {
+  billCount: number;
+  billedKwh: number;
+  billedAmount: number;
+  // Only bills whose metered data covers the billing period
+  meteredKwh: number;
+  meteredBilledKwh: number;
+  estimatedKwh: number | null;
+  averageCostPerKwh: number | null;
+  unexplainedCount: number;
+}
+
+const parseDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const percentDifference = (billed: number, other: number) =>
+  billed > 0 ? Math.round(((billed - other) / billed) * 10000) / 100 : null;
+
+/**
+ * Estimate consumption over a billing period from the weekly load profile
+ * @param weeklyLoad Monday to Sunday of 24 hourly loads in kW, from getWeeklyLoadProfile
+ * @param periodStart First day of the period (YYYY-MM-DD)
+ * @param periodEnd Last day of the period, inclusive (YYYY-MM-DD)
+ * @returns Estimated kWh
+ */
+export function estimateScheduleKwh(weeklyLoad: number[][], periodStart: string, periodEnd: string): number {
+  const dailyKwh = weeklyLoad.map(day => day.reduce((sum, kw) => sum + kw, 0));
+  const end = parseDate(periodEnd);
+  let total = 0;
+
+  for (const date = parseDate(periodStart); date <= end; date.setDate(date.getDate() + 1)) {
+    // Date.getDay() counts from Sunday; the weekly profile starts on Monday
+    total += dailyKwh[(date.getDay() + 6) % 7];
+  }
+
+  return total;
+}
+
+/**
+ * Combine the metered comparison with the schedule estimate for each bill
+ * A bill's variance is unexplained when it differs from reliable metered data, or, without
+ * reliable metered data, when it differs from the schedule estimate beyond the tolerance
+ * @param rows Reconciliation rows from the server
+ * @param weeklyLoad Weekly load profile of the building, or null when no schedules are selected
+ * @param tolerancePercent Tolerance used for metered comparisons
+ * @param estimateTolerancePercent Tolerance used for the schedule estimate
+ * @returns Bills with estimate variances and reasons
+ */
+export function reconcileWithSchedules(
+  rows: BillReconciliation[],
+  weeklyLoad: number[][] | null,
+  tolerancePercent: number,
+  estimateTolerancePercent: number = DEFAULT_ESTIMATE_TOLERANCE_PERCENT
+): ReconciledBill[] {
+  return rows.map(row => {
+    const { bill } = row;
+    const estimatedKwh = weeklyLoad
+      ? Math.round(estimateScheduleKwh(weeklyLoad, bill.periodStart, bill.periodEnd) * 10) / 10
+      : null;
+    const estimateVariancePercent = estimatedKwh !== null ? percentDifference(bill.kwh, estimatedKwh) : null;
+    const estimateDiffers = estimateVariancePercent !== null && Math.abs(estimateVariancePercent) > estimateTolerancePercent;
+
+    const reasons: string[] = [];
+    let unexplained = false;
+
+    if (row.status === 'variance') {
+      unexplained = true;
+      reasons.push(`Billed kWh is ${Math.abs(row.variancePercent ?? 0)}% ${(row.variancePercent ?? 0) > 0 ? 'above' : 'below'} metered consumption`);
+    } else if (row.status === 'incomplete') {
+      reasons.push(`Metered data covers only ${Math.round((row.metered?.coverage ?? 0) * 100)}% of the billing period`);
+    }
+
+    if (row.status === 'matched' || row.status === 'variance') {
+      if (row.demandVariancePercent !== null && Math.abs(row.demandVariancePercent) > tolerancePercent) {
+        unexplained = true;
+        reasons.push(`Billed demand is ${Math.abs(row.demandVariancePercent)}% ${row.demandVariancePercent > 0 ? 'above' : 'below'} the metered peak`);
+      }
+      // The meter agrees with the bill, so a difference from the schedules says more about the schedules
+      if (row.status === 'matched' && estimateDiffers) {
+        reasons.push(`Schedules of loads ${estimateVariancePercent! > 0 ? 'underestimate' : 'overestimate'} consumption by ${Math.abs(estimateVariancePercent!)}%`);
+      }
+    }
+
+    if (row.status !== 'matched' && row.status !== 'variance' && estimateDiffers) {
+      unexplained = true;
+      reasons.push(`Billed kWh is ${Math.abs(estimateVariancePercent!)}% ${estimateVariancePercent! > 0 ? 'above' : 'below'} the schedules of loads estimate`);
+    }
+
+    return { ...row, estimatedKwh, estimateVariancePercent, unexplained, reasons };
+  });
+}
+
+/**
+ * Totals across reconciled bills
+ * @param bills Reconciled bills
+ * @returns Summary of billed, metered and estimated consumption
+ */
+export function summarizeReconciliation(bills: ReconciledBill[]): ReconciliationSummary {
+  const reliable = bills.filter(row => row.status === 'matched' || row.status === 'variance');
+  const billedKwh = bills.reduce((sum, row) => sum + row.bill.kwh, 0);
+  const billedAmount = bills.reduce((sum, row) => sum + row.bill.amount, 0);
+  const estimated = bills.filter(row => row.estimatedKwh !== null);
+
+  return {
+    billCount: bills.length,
+    billedKwh,
+    billedAmount,
+    meteredKwh: reliable.reduce((sum, row) => sum + (row.metered?.energyKwh ?? 0), 0),
+    meteredBilledKwh: reliable.reduce((sum, row) => sum + row.bill.kwh, 0),
+    estimatedKwh: estimated.length > 0 ? estimated.reduce((sum, row) => sum + (row.estimatedKwh ?? 0), 0) : null,
+    averageCostPerKwh: billedKwh > 0 ? billedAmount / billedKwh : null,
+    unexplainedCount: bills.filter(row => row.unexplained).length
+  };
+}
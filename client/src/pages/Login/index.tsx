@@ -21,27 +21,38 @@ import { Visibility, VisibilityOff, Warning } from '@mui/icons-material';
 const Login: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { login, loading, error: authError, isAuthenticated } = useAuthContext();
+  const {
+    login,
+    loading,
+    error: authError,
+    isAuthenticated,
+    twoFactorChallenge,
+    verifyTwoFactor,
+    cancelTwoFactor,
+    twoFactorSetupRequired
+  } = useAuthContext();
   const [formData, setFormData] = useState({
     username: '',
     password: ''
   });
   const [formError, setFormError] = useState<string | null>(null);
   const [showPassword, setShowPassword] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const theme = useTheme();
   const isDarkMode = theme.palette.mode === 'dark';
   
   // Check for redirect params in URL
   useEffect(() => {
-    // Auto-redirect if already authenticated
+    // Check if there's a 'from' param in the location state (redirect after login)
+    const from = (location.state as any)?.from?.pathname || '/dashboard';
+
+    // Redirect once authenticated; users whose role requires two-factor authentication set it up first
     if (isAuthenticated) {
-      navigate('/dashboard');
+      navigate(twoFactorSetupRequired ? '/profile?setupTwoFactor=true' : from);
       return;
     }
     
-    // Check if there's a 'from' param in the location state (redirect after login)
-    const from = (location.state as any)?.from?.pathname || '/dashboard';
-    
     // Check for specific error messages in URL params
     const params = new URLSearchParams(location.search);
     const sessionExpired = params.get('sessionExpired');
@@ -52,7 +63,7 @@ const Login: React.FC = () => {
     } else if (unauthorized === 'true') {
       setFormError('You need to log in to access that page.');
     }
-  }, [isAuthenticated, location, navigate]);
+  }, [isAuthenticated, twoFactorSetupRequired, location, navigate]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData({
@@ -79,12 +90,8 @@ const Login: React.FC = () => {
     }
 
     try {
-      const success = await login(formData.username, formData.password);
-      if (success) {
-        // Get the redirect path from location state or default to dashboard
-        const from = (location.state as any)?.from?.pathname || '/dashboard';
-        navigate(from);
-      }
+      // Navigation happens once the user is authenticated
+      await login(formData.username, formData.password);
     } catch (err: any) {
       console.error('Login error:', err);
       setFormError(
@@ -95,6 +102,26 @@ const Login: React.FC = () => {
     }
   };
 
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    if (!twoFactorCode.trim()) {
+      setFormError(useRecoveryCode ? 'Please enter a recovery code' : 'Please enter the code from your authenticator app');
+      return;
+    }
+
+    await verifyTwoFactor(twoFactorCode.trim(), useRecoveryCode);
+    setTwoFactorCode('');
+  };
+
+  const handleTwoFactorCancel = () => {
+    cancelTwoFactor();
+    setTwoFactorCode('');
+    setUseRecoveryCode(false);
+    setFormData(prev => ({ ...prev, password: '' }));
+  };
+
   const togglePasswordVisibility = () => {
     setShowPassword(!showPassword);
   };
@@ -135,7 +162,7 @@ const Login: React.FC = () => {
           </Box>
 
           <Typography component="h1" variant="h5" gutterBottom>
-            Sign In
+            {twoFactorChallenge ? 'Two-Factor Authentication' : 'Sign In'}
           </Typography>
 
           {(formError || authError) && (
@@ -148,77 +175,142 @@ const Login: React.FC = () => {
             </Alert>
           )}
 
-          <Box component="form" onSubmit={handleSubmit} sx={{ width: '100%' }}>
-            <TextField
-              margin="normal"
-              required
-              fullWidth
-              id="username"
-              label="Username or Student ID"
-              name="username"
-              autoComplete="username"
-              autoFocus
-              value={formData.username}
-              onChange={handleChange}
-              disabled={loading}
-              error={!!formError && formError.toLowerCase().includes('username')}
-              InputProps={{
-                spellCheck: false,
-              }}
-            />
-            <TextField
-              margin="normal"
-              required
-              fullWidth
-              name="password"
-              label="Password"
-              type={showPassword ? 'text' : 'password'}
-              id="password"
-              autoComplete="current-password"
-              value={formData.password}
-              onChange={handleChange}
-              disabled={loading}
-              error={!!formError && formError.toLowerCase().includes('password')}
-              InputProps={{
-                endAdornment: (
-                  <InputAdornment position="end">
-                    <IconButton
-                      aria-label="toggle password visibility"
-                      onClick={togglePasswordVisibility}
-                      edge="end"
-                    >
-                      {showPassword ? <VisibilityOff /> : <Visibility />}
-                    </IconButton>
-                  </InputAdornment>
-                ),
-              }}
-            />
-            
-            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 1 }}>
-              <Link 
-                component="button"
-                variant="body2"
-                onClick={handleForgotPassword}
-                sx={{ textDecoration: 'none' }}
+          {twoFactorChallenge ? (
+            <Box component="form" onSubmit={handleTwoFactorSubmit} sx={{ width: '100%' }}>
+              <Typography variant="body2" color="text.secondary" align="center">
+                {useRecoveryCode
+                  ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+                  : 'Enter the 6-digit code from your authenticator app.'}
+              </Typography>
+              <TextField
+                margin="normal"
+                required
+                fullWidth
+                id="twoFactorCode"
+                label={useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}
+                name="twoFactorCode"
+                autoComplete="one-time-code"
+                autoFocus
+                value={twoFactorCode}
+                onChange={(e) => {
+                  setTwoFactorCode(e.target.value);
+                  setFormError(null);
+                }}
+                disabled={loading}
+                inputProps={useRecoveryCode ? { spellCheck: false } : { inputMode: 'numeric', maxLength: 6 }}
+              />
+
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 1 }}>
+                <Link
+                  component="button"
+                  type="button"
+                  variant="body2"
+                  onClick={handleTwoFactorCancel}
+                  sx={{ textDecoration: 'none' }}
+                >
+                  Back
+                </Link>
+                <Link
+                  component="button"
+                  type="button"
+                  variant="body2"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setTwoFactorCode('');
+                  }}
+                  sx={{ textDecoration: 'none' }}
+                >
+                  {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                </Link>
+              </Box>
+
+              <Button
+                type="submit"
+                fullWidth
+                variant="contained"
+                sx={{ mt: 3, mb: 2, py: 1.5 }}
+                disabled={loading}
               >
-                Forgot password?
-              </Link>
+                {loading ? (
+                  <CircularProgress size={24} color="inherit" />
+                ) : (
+                  'Verify'
+                )}
+              </Button>
             </Box>
+          ) : (
+            <Box component="form" onSubmit={handleSubmit} sx={{ width: '100%' }}>
+              <TextField
+                margin="normal"
+                required
+                fullWidth
+                id="username"
+                label="Username or Student ID"
+                name="username"
+                autoComplete="username"
+                autoFocus
+                value={formData.username}
+                onChange={handleChange}
+                disabled={loading}
+                error={!!formError && formError.toLowerCase().includes('username')}
+                InputProps={{
+                  spellCheck: false,
+                }}
+              />
+              <TextField
+                margin="normal"
+                required
+                fullWidth
+                name="password"
+                label="Password"
+                type={showPassword ? 'text' : 'password'}
+                id="password"
+                autoComplete="current-password"
+                value={formData.password}
+                onChange={handleChange}
+                disabled={loading}
+                error={!!formError && formError.toLowerCase().includes('password')}
+                InputProps={{
+                  endAdornment: (
+                    <InputAdornment position="end">
+                      <IconButton
+                        aria-label="toggle password visibility"
+                        onClick={togglePasswordVisibility}
+                        edge="end"
+                      >
+                        {showPassword ? <VisibilityOff /> : <Visibility />}
+                      </IconButton>
+                    </InputAdornment>
+                  ),
+                }}
+              />
             
-            <Button
-              type="submit"
-              fullWidth
-              variant="contained"
-              sx={{ mt: 3, mb: 2, py: 1.5 }}
-              disabled={loading}
-            >
-              {loading ? (
-                <CircularProgress size={24} color="inherit" />
-              ) : (
-                'Sign In'
-              )}
-            </Button>
-          </Box>
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 1 }}>
+                <Link 
+                  component="button"
+                  variant="body2"
+                  onClick={handleForgotPassword}
+                  sx={{ textDecoration: 'none' }}
+                >
+                  Forgot password?
+                </Link>
+              </Box>
+            
+              <Button
+                type="submit"
+                fullWidth
+                variant="contained"
+                sx={{ mt: 3, mb: 2, py: 1.5 }}
+                disabled={loading}
+              >
+                {loading ? (
+                  <CircularProgress size={24} color="inherit" />
+                ) : (
+                  'Sign In'
+                )}
+              </Button>
+            </Box>
+          )}
         </Paper>
       </Container>
     </Box>
@@ -0,0 +1,168 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  CircularProgress,
+  Divider,
+  IconButton,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Computer as ComputerIcon,
+  Logout as LogoutIcon,
+  PhoneAndroid as PhoneIcon
+} from '@mui/icons-material';
+import { ActiveSession, getSessions, revokeOtherSessions, revokeSession } from '../../services/authService';
+
+/**
+ * Short browser and operating system name from a user agent string
+ */
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = [
+    { name: 'Edge', pattern: /Edg\// },
+    { name: 'Opera', pattern: /OPR\// },
+    { name: 'Chrome', pattern: /Chrome\// },
+    { name: 'Firefox', pattern: /Firefox\// },
+    { name: 'Safari', pattern: /Safari\// }
+  ].find(({ pattern }) => pattern.test(userAgent))?.name;
+
+  const os = [
+    { name: 'Android', pattern: /Android/ },
+    { name: 'iOS', pattern: /iPhone|iPad/ },
+    { name: 'Windows', pattern: /Windows/ },
+    { name: 'macOS', pattern: /Mac OS X/ },
+    { name: 'Linux', pattern: /Linux/ }
+  ].find(({ pattern }) => pattern.test(userAgent))?.name;
+
+  if (!browser && !os) return userAgent;
+  return [browser, os].filter(Boolean).join(' on ');
+};
+
+const isMobile = (userAgent: string | null) => !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+
+/**
+ * Devices signed in to the current user's account, with remote sign-out
+ */
+const ActiveSessions: React.FC = () => {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setError(null);
+      setSessions(await getSessions());
+    } catch (err: any) {
+      setError(err?.response?.data?.message || 'Failed to load sessions');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (sessionId: number) => {
+    setBusy(true);
+    try {
+      await revokeSession(sessionId);
+      setSessions(prev => prev.filter(session => session.id !== sessionId));
+    } catch (err: any) {
+      setError(err?.response?.data?.message || 'Failed to sign out the session');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setBusy(true);
+    try {
+      await revokeOtherSessions();
+      setSessions(prev => prev.filter(session => session.current));
+    } catch (err: any) {
+      setError(err?.response?.data?.message || 'Failed to sign out other sessions');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const hasOtherSessions = sessions.some(session => !session.current);
+
+  return (
+    <Card>
+      <CardHeader
+        title="Active Sessions"
+        subheader="Devices signed in to your account"
+        action={
+          <Button
+            color="error"
+            startIcon={<LogoutIcon />}
+            onClick={handleRevokeOthers}
+            disabled={busy || !hasOtherSessions}
+          >
+            Sign out other sessions
+          </Button>
+        }
+      />
+      <Divider />
+      <CardContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {loading ? (
+          <CircularProgress size={24} />
+        ) : sessions.length === 0 ? (
+          <Typography variant="body2" color="textSecondary">
+            No active sessions found.
+          </Typography>
+        ) : (
+          <List disablePadding>
+            {sessions.map(session => (
+              <ListItem
+                key={session.id}
+                divider
+                secondaryAction={
+                  !session.current && (
+                    <Tooltip title="Sign out this session">
+                      <span>
+                        <IconButton edge="end" onClick={() => handleRevoke(session.id)} disabled={busy}>
+                          <LogoutIcon />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  )
+                }
+              >
+                <ListItemIcon>
+                  {isMobile(session.userAgent) ? <PhoneIcon /> : <ComputerIcon />}
+                </ListItemIcon>
+                <ListItemText
+                  primary={
+                    <>
+                      {describeDevice(session.userAgent)}
+                      {session.current && <Chip label="This device" color="primary" size="small" sx={{ ml: 1 }} />}
+                    </>
+                  }
+                  secondary={`${session.ipAddress || 'Unknown IP'} · Last active ${new Date(session.lastUsedAt).toLocaleString()} · Signed in ${new Date(session.createdAt).toLocaleDateString()}`}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActiveSessions;
@@ -0,0 +1,378 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  Grid,
+  TextField,
+  Typography
+} from '@mui/material';
+import {
+  ContentCopy as CopyIcon,
+  Download as DownloadIcon,
+  Security as SecurityIcon
+} from '@mui/icons-material';
+import { QRCodeSVG } from 'qrcode.react';
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup,
+  TwoFactorSetup,
+  TwoFactorStatus
+} from '../../services/authService';
+
+type DialogMode = 'setup' | 'recoveryCodes' | 'regenerate' | 'disable' | null;
+
+/**
+ * Recovery codes with copy and download, shown once after they are generated
+ */
+const RecoveryCodes: React.FC<{ codes: string[] }> = ({ codes }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(codes.join('\n'));
+    setCopied(true);
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([`Energy Audit System recovery codes\n\n${codes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <>
+      <Alert severity="warning" sx={{ mb: 2 }}>
+        Save these recovery codes somewhere safe. Each can be used once to sign in if you lose your
+        authenticator, and they will not be shown again.
+      </Alert>
+      <Grid container spacing={1} sx={{ fontFamily: 'monospace', mb: 2 }}>
+        {codes.map(code => (
+          <Grid item xs={6} key={code}>
+            <Typography sx={{ fontFamily: 'monospace' }}>{code}</Typography>
+          </Grid>
+        ))}
+      </Grid>
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Button size="small" startIcon={<CopyIcon />} onClick={handleCopy}>
+          {copied ? 'Copied' : 'Copy'}
+        </Button>
+        <Button size="small" startIcon={<DownloadIcon />} onClick={handleDownload}>
+          Download
+        </Button>
+      </Box>
+    </>
+  );
+};
+
+/**
+ * Two-factor authentication enrollment and management for the current user
+ */
+const TwoFactorSettings: React.FC = () => {
+  const location = useLocation();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [dialog, setDialog] = useState<DialogMode>(null);
+  const [dialogError, setDialogError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setError(null);
+      setStatus(await getTwoFactorStatus());
+    } catch (err: any) {
+      setError(err?.response?.data?.message || 'Failed to load two-factor authentication status');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const openDialog = (mode: DialogMode) => {
+    setDialog(mode);
+    setDialogError(null);
+    setCode('');
+    setPassword('');
+  };
+
+  const closeDialog = () => {
+    setDialog(null);
+    setSetup(null);
+    setRecoveryCodes([]);
+  };
+
+  const handleStartSetup = async () => {
+    setBusy(true);
+    try {
+      setSetup(await startTwoFactorSetup());
+      openDialog('setup');
+    } catch (err: any) {
+      setError(err?.response?.data?.message || 'Failed to start two-factor setup');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Sent here after signing in when the user's role requires two-factor authentication
+  const setupRequested = new URLSearchParams(location.search).get('setupTwoFactor') === 'true';
+  const [setupPrompted, setSetupPrompted] = useState(false);
+  useEffect(() => {
+    if (setupRequested && !setupPrompted && status && !status.enabled) {
+      setSetupPrompted(true);
+      handleStartSetup();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [setupRequested, setupPrompted, status]);
+
+  const handleEnable = async () => {
+    setBusy(true);
+    setDialogError(null);
+    try {
+      setRecoveryCodes(await enableTwoFactor(code.trim()));
+      setSetup(null);
+      setDialog('recoveryCodes');
+      await loadStatus();
+    } catch (err: any) {
+      setDialogError(err?.response?.data?.message || 'Failed to enable two-factor authentication');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setBusy(true);
+    setDialogError(null);
+    try {
+      setRecoveryCodes(await regenerateRecoveryCodes(code.trim()));
+      setDialog('recoveryCodes');
+      await loadStatus();
+    } catch (err: any) {
+      setDialogError(err?.response?.data?.message || 'Failed to regenerate recovery codes');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setBusy(true);
+    setDialogError(null);
+    try {
+      const trimmed = code.trim();
+      // Six digits is an authenticator code; anything else is treated as a recovery code
+      await disableTwoFactor(password, /^\d{6}$/.test(trimmed) ? { code: trimmed } : { recoveryCode: trimmed });
+      closeDialog();
+      await loadStatus();
+    } catch (err: any) {
+      setDialogError(err?.response?.data?.message || 'Failed to disable two-factor authentication');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader
+        avatar={<SecurityIcon color="primary" />}
+        title="Two-Factor Authentication"
+        subheader="Sign in with a code from an authenticator app as well as your password"
+        action={
+          status && (
+            <Chip
+              label={status.enabled ? 'Enabled' : 'Disabled'}
+              color={status.enabled ? 'success' : 'default'}
+              size="small"
+              sx={{ mt: 1 }}
+            />
+          )
+        }
+      />
+      <Divider />
+      <CardContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {loading ? (
+          <CircularProgress size={24} />
+        ) : status && (
+          <>
+            {status.required && !status.enabled && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                Your role requires two-factor authentication. Set it up to manage users and system settings.
+              </Alert>
+            )}
+            {status.enabled ? (
+              <>
+                <Typography variant="body2" gutterBottom>
+                  Enabled{status.enabledAt ? ` since ${new Date(status.enabledAt).toLocaleDateString()}` : ''}.{' '}
+                  {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} remaining.
+                </Typography>
+                {status.recoveryCodesRemaining <= 2 && (
+                  <Alert severity="info" sx={{ my: 1 }}>
+                    You are running out of recovery codes. Generate a new set.
+                  </Alert>
+                )}
+                <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+                  <Button variant="outlined" onClick={() => openDialog('regenerate')}>
+                    New recovery codes
+                  </Button>
+                  {!status.required && (
+                    <Button variant="outlined" color="error" onClick={() => openDialog('disable')}>
+                      Disable
+                    </Button>
+                  )}
+                </Box>
+              </>
+            ) : (
+              <Button variant="contained" onClick={handleStartSetup} disabled={busy}>
+                Set up two-factor authentication
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={dialog !== null} onClose={() => !busy && closeDialog()} maxWidth="xs" fullWidth>
+        {dialog === 'setup' && setup && (
+          <>
+            <DialogTitle>Set Up Two-Factor Authentication</DialogTitle>
+            <DialogContent>
+              <Typography variant="body2" gutterBottom>
+                Scan this QR code with an authenticator app such as Google Authenticator, Microsoft
+                Authenticator or Authy.
+              </Typography>
+              <Box sx={{ display: 'flex', justifyContent: 'center', my: 2 }}>
+                <QRCodeSVG value={setup.otpauthUrl} size={180} includeMargin />
+              </Box>
+              <Typography variant="body2" color="textSecondary">
+                Or enter this key manually:
+              </Typography>
+              <Typography sx={{ fontFamily: 'monospace', wordBreak: 'break-all', mb: 2 }}>
+                {setup.secret.replace(/(.{4})/g, '$1 ').trim()}
+              </Typography>
+              <TextField
+                fullWidth
+                label="Code from the app"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                inputProps={{ inputMode: 'numeric', maxLength: 6 }}
+                autoComplete="one-time-code"
+                disabled={busy}
+              />
+              {dialogError && <Alert severity="error" sx={{ mt: 2 }}>{dialogError}</Alert>}
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={closeDialog} disabled={busy}>Cancel</Button>
+              <Button variant="contained" onClick={handleEnable} disabled={busy || code.trim().length !== 6}>
+                {busy ? <CircularProgress size={24} /> : 'Enable'}
+              </Button>
+            </DialogActions>
+          </>
+        )}
+
+        {dialog === 'recoveryCodes' && (
+          <>
+            <DialogTitle>Recovery Codes</DialogTitle>
+            <DialogContent>
+              <RecoveryCodes codes={recoveryCodes} />
+            </DialogContent>
+            <DialogActions>
+              <Button variant="contained" onClick={closeDialog}>Done</Button>
+            </DialogActions>
+          </>
+        )}
+
+        {dialog === 'regenerate' && (
+          <>
+            <DialogTitle>New Recovery Codes</DialogTitle>
+            <DialogContent>
+              <Typography variant="body2" gutterBottom>
+                Your current recovery codes will stop working. Enter a code from your authenticator app to continue.
+              </Typography>
+              <TextField
+                fullWidth
+                margin="normal"
+                label="Authentication code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                inputProps={{ inputMode: 'numeric', maxLength: 6 }}
+                autoComplete="one-time-code"
+                disabled={busy}
+              />
+              {dialogError && <Alert severity="error" sx={{ mt: 2 }}>{dialogError}</Alert>}
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={closeDialog} disabled={busy}>Cancel</Button>
+              <Button variant="contained" onClick={handleRegenerate} disabled={busy || code.trim().length !== 6}>
+                {busy ? <CircularProgress size={24} /> : 'Generate'}
+              </Button>
+            </DialogActions>
+          </>
+        )}
+
+        {dialog === 'disable' && (
+          <>
+            <DialogTitle>Disable Two-Factor Authentication</DialogTitle>
+            <DialogContent>
+              <TextField
+                fullWidth
+                margin="normal"
+                type="password"
+                label="Password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+                disabled={busy}
+              />
+              <TextField
+                fullWidth
+                margin="normal"
+                label="Authentication or recovery code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                disabled={busy}
+              />
+              {dialogError && <Alert severity="error" sx={{ mt: 2 }}>{dialogError}</Alert>}
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={closeDialog} disabled={busy}>Cancel</Button>
+              <Button
+                variant="contained"
+                color="error"
+                onClick={handleDisable}
+                disabled={busy || !password || !code.trim()}
+              >
+                {busy ? <CircularProgress size={24} /> : 'Disable'}
+              </Button>
+            </DialogActions>
+          </>
+        )}
+      </Dialog>
+    </Card>
+  );
+};
+
+export default TwoFactorSettings;
@@ -30,6 +30,8 @@ import userServiceObj from '../../services/userService';
 import * as Yup from 'yup';
 import { useFormik } from 'formik';
 import { User } from '../../types/index';
+import ActiveSessions from './ActiveSessions';
+import TwoFactorSettings from './TwoFactorSettings';
 
 const validationSchema = Yup.object({
   name: Yup.string().required('Name is required'),
@@ -387,6 +389,16 @@ const Profile: React.FC = () => {
             </CardContent>
           </Card>
         </Grid>
+
+        {/* Two-Factor Authentication */}
+        <Grid item xs={12}>
+          <TwoFactorSettings />
+        </Grid>
+
+        {/* Active Sessions */}
+        <Grid item xs={12}>
+          <ActiveSessions />
+        </Grid>
       </Grid>
 
       {/* Change Password Dialog */}
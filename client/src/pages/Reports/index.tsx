@@ -67,6 +67,7 @@ const Reports: React.FC = () => {
             <Tab label="My Reports" id="tab-0" aria-controls="tabpanel-0" />
             <Tab label="Shared With Me" id="tab-1" aria-controls="tabpanel-1" />
             <Tab label="Templates" id="tab-2" aria-controls="tabpanel-2" />
+            <Tab label="Client Reports" id="tab-3" aria-controls="tabpanel-3" />
           </Tabs>
         </Box>
         
@@ -101,6 +102,16 @@ const Reports: React.FC = () => {
               onViewReport={(report) => navigate(`/reports/view/${report.id}`)}
             />
           </TabPanel>
+
+          {/* Published reports of audits the user is a client viewer on */}
+          <TabPanel value={tabValue} index={3}>
+            <ReportList 
+              reportsType="client" 
+              showActions={false} 
+              showFilters={true}
+              onViewReport={(report) => navigate(`/reports/view/${report.id}`)}
+            />
+          </TabPanel>
         </Box>
       </Paper>
     </Container>
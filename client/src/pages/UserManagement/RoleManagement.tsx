@@ -0,0 +1,332 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  FormControlLabel,
+  Grid,
+  IconButton,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  Lock as LockIcon
+} from '@mui/icons-material';
+import roleService, { Permission, PermissionDefinition, Role } from '../../services/roleService';
+
+interface RoleManagementProps {
+  // Called after a role is created, changed or deleted
+  onRolesChanged?: (roles: Role[]) => void;
+}
+
+interface RoleForm {
+  name: string;
+  description: string;
+  permissions: Permission[];
+}
+
+const EMPTY_FORM: RoleForm = { name: '', description: '', permissions: [] };
+
+/**
+ * Roles and the permissions each grants, with an editor for custom roles
+ */
+const RoleManagement: React.FC<RoleManagementProps> = ({ onRolesChanged }) => {
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [registry, setRegistry] = useState<PermissionDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Role | 'new' | null>(null);
+  const [form, setForm] = useState<RoleForm>(EMPTY_FORM);
+  const [dialogError, setDialogError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [deleting, setDeleting] = useState<Role | null>(null);
+
+  const loadRoles = useCallback(async () => {
+    try {
+      setError(null);
+      const [roleList, permissionList] = await Promise.all([
+        roleService.getRoles(),
+        roleService.getPermissionRegistry()
+      ]);
+      setRoles(roleList);
+      setRegistry(permissionList);
+      onRolesChanged?.(roleList);
+    } catch (err: any) {
+      setError(err?.response?.data?.message || 'Failed to load roles');
+    } finally {
+      setLoading(false);
+    }
+  }, [onRolesChanged]);
+
+  useEffect(() => {
+    loadRoles();
+  }, [loadRoles]);
+
+  const groups = useMemo(() => {
+    const grouped = new Map<string, PermissionDefinition[]>();
+    registry.forEach(permission => {
+      grouped.set(permission.group, [...(grouped.get(permission.group) || []), permission]);
+    });
+    return Array.from(grouped.entries());
+  }, [registry]);
+
+  const openEditor = (role: Role | 'new') => {
+    setEditing(role);
+    setDialogError(null);
+    setForm(role === 'new'
+      ? EMPTY_FORM
+      : { name: role.name, description: role.description || '', permissions: role.permissions });
+  };
+
+  const togglePermission = (permission: Permission) => {
+    setForm(prev => ({
+      ...prev,
+      permissions: prev.permissions.includes(permission)
+        ? prev.permissions.filter(key => key !== permission)
+        : [...prev.permissions, permission]
+    }));
+  };
+
+  const toggleGroup = (permissions: Permission[], checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      permissions: checked
+        ? Array.from(new Set([...prev.permissions, ...permissions]))
+        : prev.permissions.filter(key => !permissions.includes(key))
+    }));
+  };
+
+  const saveRole = async (restoreDefaults: boolean = false) => {
+    if (!editing) return;
+    setBusy(true);
+    setDialogError(null);
+    try {
+      if (editing === 'new') {
+        await roleService.createRole(form);
+      } else {
+        await roleService.updateRole(editing.id, {
+          // Built-in roles keep their name
+          name: editing.isSystem ? undefined : form.name,
+          description: form.description,
+          permissions: restoreDefaults ? null : form.permissions
+        });
+      }
+      setEditing(null);
+      await loadRoles();
+    } catch (err: any) {
+      setDialogError(err?.response?.data?.message || 'Failed to save role');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const deleteRole = async () => {
+    if (!deleting) return;
+    setBusy(true);
+    try {
+      await roleService.deleteRole(deleting.id);
+      setDeleting(null);
+      await loadRoles();
+    } catch (err: any) {
+      setError(err?.response?.data?.message || 'Failed to delete role');
+      setDeleting(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Box sx={{ mt: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Box>
+          <Typography variant="h6">Roles</Typography>
+          <Typography variant="body2" color="textSecondary">
+            A custom role assigned to a user replaces the permissions of their built-in role.
+          </Typography>
+        </Box>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={() => openEditor('new')}>
+          Add Role
+        </Button>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', my: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Role</TableCell>
+                <TableCell>Description</TableCell>
+                <TableCell>Permissions</TableCell>
+                <TableCell>Users</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {roles.map(role => (
+                <TableRow key={role.id}>
+                  <TableCell>
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <span>{role.name}</span>
+                      {role.isSystem && <Chip label="Built-in" size="small" variant="outlined" />}
+                      {role.isSystem && !role.usesDefaults && role.isEditable && (
+                        <Chip label="Customized" size="small" color="info" variant="outlined" />
+                      )}
+                    </Stack>
+                  </TableCell>
+                  <TableCell>{role.description || '-'}</TableCell>
+                  <TableCell>
+                    {role.isEditable ? `${role.permissions.length} of ${registry.length}` : 'All'}
+                  </TableCell>
+                  <TableCell>{role.userCount}</TableCell>
+                  <TableCell align="right">
+                    {role.isEditable ? (
+                      <Stack direction="row" spacing={1} justifyContent="flex-end">
+                        <Tooltip title="Edit Role">
+                          <IconButton size="small" color="primary" onClick={() => openEditor(role)}>
+                            <EditIcon />
+                          </IconButton>
+                        </Tooltip>
+                        {!role.isSystem && (
+                          <Tooltip title="Delete Role">
+                            <IconButton size="small" color="error" onClick={() => setDeleting(role)}>
+                              <DeleteIcon />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                      </Stack>
+                    ) : (
+                      <Tooltip title="Administrators always have every permission">
+                        <LockIcon fontSize="small" color="disabled" />
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Dialog open={editing !== null} onClose={() => !busy && setEditing(null)} maxWidth="md" fullWidth>
+        <DialogTitle>{editing === 'new' ? 'Add Role' : `Edit Role: ${editing?.name ?? ''}`}</DialogTitle>
+        <DialogContent>
+          <Grid container spacing={2} sx={{ mt: 0 }}>
+            <Grid item xs={12} sm={5}>
+              <TextField
+                fullWidth
+                label="Name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                disabled={busy || (editing !== 'new' && editing?.isSystem)}
+                inputProps={{ maxLength: 50 }}
+                required
+              />
+            </Grid>
+            <Grid item xs={12} sm={7}>
+              <TextField
+                fullWidth
+                label="Description"
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                disabled={busy}
+              />
+            </Grid>
+            {groups.map(([group, permissions]) => {
+              const keys = permissions.map(permission => permission.key);
+              const selected = keys.filter(key => form.permissions.includes(key)).length;
+              return (
+                <Grid item xs={12} sm={6} key={group}>
+                  <FormControlLabel
+                    label={<Typography fontWeight="bold">{group}</Typography>}
+                    control={
+                      <Checkbox
+                        checked={selected === keys.length}
+                        indeterminate={selected > 0 && selected < keys.length}
+                        onChange={(e) => toggleGroup(keys, e.target.checked)}
+                        disabled={busy}
+                      />
+                    }
+                  />
+                  <Box sx={{ display: 'flex', flexDirection: 'column', ml: 3 }}>
+                    {permissions.map(permission => (
+                      <Tooltip title={permission.description} placement="right" key={permission.key}>
+                        <FormControlLabel
+                          label={permission.label}
+                          control={
+                            <Checkbox
+                              size="small"
+                              checked={form.permissions.includes(permission.key)}
+                              onChange={() => togglePermission(permission.key)}
+                              disabled={busy}
+                            />
+                          }
+                        />
+                      </Tooltip>
+                    ))}
+                  </Box>
+                </Grid>
+              );
+            })}
+          </Grid>
+          {dialogError && <Alert severity="error" sx={{ mt: 2 }}>{dialogError}</Alert>}
+        </DialogContent>
+        <DialogActions>
+          {editing !== 'new' && editing?.isSystem && !editing.usesDefaults && (
+            <Button onClick={() => saveRole(true)} disabled={busy} sx={{ mr: 'auto' }}>
+              Restore Defaults
+            </Button>
+          )}
+          <Button onClick={() => setEditing(null)} disabled={busy}>Cancel</Button>
+          <Button variant="contained" onClick={() => saveRole()} disabled={busy || !form.name.trim()}>
+            {busy ? <CircularProgress size={24} /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={deleting !== null} onClose={() => !busy && setDeleting(null)}>
+        <DialogTitle>Delete Role</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Delete the role "{deleting?.name}"?
+            {deleting && deleting.userCount > 0 &&
+              ` Its ${deleting.userCount} user${deleting.userCount === 1 ? '' : 's'} will go back to their built-in role.`}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleting(null)} disabled={busy}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={deleteRole} disabled={busy}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default RoleManagement;
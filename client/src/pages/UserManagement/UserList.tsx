@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   Box,
   Button,
@@ -47,8 +47,10 @@ import {
   History as HistoryIcon
 } from '@mui/icons-material';
 import * as userService from '../../services/userService';
-import { useAuthContext } from '../../contexts/AuthContext';
+import usePermissions from '../../hooks/usePermissions';
+import { Role } from '../../services/roleService';
 import { User, UserRole } from '../../types';
+import RoleManagement from './RoleManagement';
 import { useNavigate } from 'react-router-dom';
 import axios from 'axios';
 import toast from 'react-hot-toast';
@@ -82,7 +84,9 @@ const validateStudentId = (id: string): boolean => {
 
 const UserList: React.FC = () => {
   const navigate = useNavigate();
-  const { hasRole } = useAuthContext();
+  const { hasPermission } = usePermissions();
+  const canManageRoles = hasPermission('roles.manage');
+  const [roles, setRoles] = useState<Role[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [filteredUsers, setFilteredUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
@@ -98,6 +102,7 @@ const UserList: React.FC = () => {
     firstName: '',
     lastName: '',
     role: 'viewer',
+    roleId: '',
     password: '',
     student_id: '',
   });
@@ -213,6 +218,7 @@ const UserList: React.FC = () => {
         firstName: user.firstName,
         lastName: user.lastName,
         role: user.role.toLowerCase(),
+        roleId: user.roleId ? String(user.roleId) : '',
         password: '', // Don't include password when editing
         student_id: user.student_id || '',
       });
@@ -225,6 +231,7 @@ const UserList: React.FC = () => {
         firstName: '',
         lastName: '',
         role: 'viewer',
+        roleId: '',
         password: '',
         student_id: '',
       });
@@ -271,6 +278,9 @@ const UserList: React.FC = () => {
           role: stringToUserRole(formData.role),
           student_id: formData.student_id
         };
+        if (canManageRoles) {
+          updateData.roleId = formData.roleId ? Number(formData.roleId) : null;
+        }
         
         // Handle password separately since it's not part of the User type
         if (formData.password) {
@@ -568,6 +578,9 @@ const UserList: React.FC = () => {
       <Chip label="Inactive" color="error" size="small" />;
   };
 
+  const customRoles = roles.filter(role => !role.isSystem);
+  const handleRolesChanged = useCallback((roleList: Role[]) => setRoles(roleList), []);
+
   // Handle page change
   const handlePageChange = (_event: React.ChangeEvent<unknown>, value: number) => {
     setPage(value);
@@ -578,11 +591,11 @@ const UserList: React.FC = () => {
     navigate(`/user-management/activity/${userId}`);
   };
 
-  if (!hasRole(UserRole.ADMIN)) {
+  if (!hasPermission('users.manage')) {
     return (
       <Box sx={{ p: 3 }}>
         <Typography variant="h5" color="error">
-          Access Denied: Only administrators can access user management.
+          Access Denied: You do not have permission to manage users.
         </Typography>
       </Box>
     );
@@ -690,7 +703,17 @@ const UserList: React.FC = () => {
                       <TableCell>{user.student_id || '-'}</TableCell>
                       <TableCell>{`${user.firstName} ${user.lastName}`}</TableCell>
                       <TableCell>{user.email}</TableCell>
-                      <TableCell>{user.role}</TableCell>
+                      <TableCell>
+                        {user.role}
+                        {user.roleId && (
+                          <Chip
+                            label={roles.find(role => role.id === user.roleId)?.name || 'Custom role'}
+                            size="small"
+                            variant="outlined"
+                            sx={{ ml: 1 }}
+                          />
+                        )}
+                      </TableCell>
                       <TableCell>{getStatusChip(user.isActive)}</TableCell>
                       <TableCell>{new Date(user.createdAt).toLocaleDateString()}</TableCell>
                       <TableCell>
@@ -828,6 +851,24 @@ const UserList: React.FC = () => {
                 ))}
               </Select>
             </FormControl>
+            {selectedUser && canManageRoles && customRoles.length > 0 && (
+              <FormControl fullWidth>
+                <InputLabel>Custom Role</InputLabel>
+                <Select
+                  name="roleId"
+                  value={formData.roleId}
+                  label="Custom Role"
+                  onChange={handleSelectChange}
+                >
+                  <MenuItem value="">None (use the built-in role)</MenuItem>
+                  {customRoles.map((role) => (
+                    <MenuItem key={role.id} value={String(role.id)}>
+                      {role.name}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
             <TextField
               label={selectedUser ? "New Password (leave blank to keep current)" : "Password"}
               name="password"
@@ -943,6 +984,8 @@ const UserList: React.FC = () => {
           {snackbar.message}
         </Alert>
       </Snackbar>
+
+      {canManageRoles && <RoleManagement onRolesChanged={handleRolesChanged} />}
     </Box>
   );
 };
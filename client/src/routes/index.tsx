@@ -12,11 +12,13 @@ import UserManagement from '../pages/UserManagement';
 import { useAuthContext } from '../contexts/AuthContext';
 import PageTransition from '../components/PageTransition';
 import { UserRole } from '../types';
+import { Permission } from '../services/roleService';
 import EnergyAuditV2Router from '../pages/Energy Audit/Router';
 import StandardsReference from '../pages/Energy Audit/components/StandardsReference/StandardsReference';
 import IlluminationLevelCalculator from '../pages/Energy Audit/components/Calculators/IlluminationLevelCalculator';
 import SavedCalculationsViewer from '../pages/Energy Audit/components/Calculators/SavedCalculationsViewer';
 import StandardsManagement from '../pages/AdminSettings/StandardsManagement';
+import TariffManagement from '../pages/AdminSettings/TariffManagement';
 import SystemSettingsPage from '../pages/Admin/Dashboard/SystemSettings';
 import AccessibilityChartExample from '../components/UI/AccessibilityChartExample';
 import AccessibilityTester from '../components/UI/AccessibilityTester';
@@ -34,19 +36,27 @@ import ChartAccessibilityRoadmap from '../components/UI/ChartAccessibilityRoadma
 import EnergyAuditDashboard from '../pages/Energy Audit/Dashboard';
 
 // Report Management Components
-import { ReportList, ReportView, ReportEditor, ReportShare } from '../components/ReportManagement';
+import { ReportList, ReportView, ReportEditor, ReportShare, PublicReportView, SignatureVerification } from '../components/ReportManagement';
 import Reports from '../pages/Reports';
 
 // Auth Components
 const LoginPage = lazy(() => import('../pages/Login'));
 const NotFoundPage = lazy(() => import('../pages/NotFound'));
 
+// Loading component for Suspense
+const LoadingFallback = () => (
+  <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100vh' }}>
+    <CircularProgress />
+  </Box>
+);
+
 // Protected route component
 const ProtectedRoute: React.FC<{ 
   element: React.ReactNode; 
   requiredRole?: UserRole;
-}> = ({ element, requiredRole }) => {
-  const { isAuthenticated, user } = useAuthContext();
+  requiredPermission?: Permission;
+}> = ({ element, requiredRole, requiredPermission }) => {
+  const { isAuthenticated, user, permissionsLoading, hasPermission } = useAuthContext();
   
   if (!isAuthenticated) {
     return <Navigate to="/login" replace />;
@@ -56,16 +66,18 @@ const ProtectedRoute: React.FC<{
     return <Navigate to="/dashboard" replace />;
   }
   
+  if (requiredPermission) {
+    if (permissionsLoading) {
+      return <LoadingFallback />;
+    }
+    if (!hasPermission(requiredPermission)) {
+      return <Navigate to="/dashboard" replace />;
+    }
+  }
+  
   return <>{element}</>;
 };
 
-// Loading component for Suspense
-const LoadingFallback = () => (
-  <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100vh' }}>
-    <CircularProgress />
-  </Box>
-);
-
 const AppRoutes: React.FC = () => {
   const { isAuthenticated } = useAuthContext();
   
@@ -84,6 +96,18 @@ const AppRoutes: React.FC = () => {
         } 
       />
       
+      {/* Reports opened through share links, with or without an account */}
+      <Route 
+        path="/shared/reports/:token" 
+        element={<PublicReportView />} 
+      />
+      
+      {/* Signature checks from the QR code on exported reports */}
+      <Route 
+        path="/verify/signatures/:code" 
+        element={<SignatureVerification />} 
+      />
+      
       {/* Protected routes with MainLayout */}
       <Route 
         element={
@@ -239,9 +263,14 @@ const AppRoutes: React.FC = () => {
         <Route 
           path="/settings/system" 
           element={
-            <PageTransition variant="scale">
-              <SystemSettingsPage />
-            </PageTransition>
+            <ProtectedRoute 
+              element={
+                <PageTransition variant="scale">
+                  <SystemSettingsPage />
+                </PageTransition>
+              }
+              requiredPermission="settings.manage"
+            />
           } 
         />
         
@@ -447,9 +476,14 @@ const AppRoutes: React.FC = () => {
         <Route 
           path="/user-management" 
           element={
-            <PageTransition variant="scale">
-              <UserManagement />
-            </PageTransition>
+            <ProtectedRoute 
+              element={
+                <PageTransition variant="scale">
+                  <UserManagement />
+                </PageTransition>
+              }
+              requiredPermission="users.manage"
+            />
           }
         />
         
@@ -463,7 +497,21 @@ const AppRoutes: React.FC = () => {
                   <StandardsManagement />
                 </PageTransition>
               }
-              requiredRole={UserRole.ADMIN}
+              requiredPermission="standards.manage"
+            />
+          }
+        />
+
+        <Route 
+          path="/admin/tariffs" 
+          element={
+            <ProtectedRoute 
+              element={
+                <PageTransition variant="scale">
+                  <TariffManagement />
+                </PageTransition>
+              }
+              requiredPermission="tariffs.manage"
             />
           }
         />
@@ -0,0 +1,51 @@
+import api from '../api';
+import { login } from '../authService';
+
+jest.mock('../api', () => ({
+  __esModule: true,
+  default: {
+    post: jest.fn(),
+  },
+}));
+
+const mockedPost = api.post as jest.Mock;
+
+describe('authService login', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('makes exactly one request for a wrong password', async () => {
+    mockedPost.mockRejectedValue({ response: { status: 401, data: { message: 'Invalid credentials' } } });
+
+    await expect(login('jane', 'wrong')).rejects.toThrow('Login failed: Invalid username or password');
+    expect(mockedPost).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a locked or deactivated account without trying other endpoints', async () => {
+    mockedPost.mockRejectedValueOnce({ response: { status: 423, data: { message: 'Account locked for 2 minutes' } } });
+    await expect(login('jane', 'wrong')).rejects.toThrow('Account locked for 2 minutes');
+
+    mockedPost.mockRejectedValueOnce({ response: { status: 403, data: { message: 'This account has been deactivated' } } });
+    await expect(login('jane', 'secret')).rejects.toThrow('This account has been deactivated');
+
+    expect(mockedPost).toHaveBeenCalledTimes(2);
+  });
+
+  it('tries the next endpoint when one is missing or unreachable', async () => {
+    mockedPost
+      .mockRejectedValueOnce({ response: { status: 404 } })
+      .mockRejectedValueOnce(new Error('Network Error'))
+      .mockRejectedValueOnce({ response: { status: 401 } });
+
+    await expect(login('jane', 'wrong')).rejects.toThrow('Login failed: Invalid username or password');
+    expect(mockedPost.mock.calls.map(call => call[0])).toEqual(['/auth/login', '/login', 'login']);
+  });
+});
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import api from '../api';
 import reportService from '../reportService';
 import { Report, ReportApiResponse, ReportsApiResponse } from '../../types/reports';
 
@@ -6,6 +7,13 @@ import { Report, ReportApiResponse, ReportsApiResponse } from '../../types/repor
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
+// Share link, signature, render and version calls go through the shared api instance
+jest.mock('../api', () => ({
+  __esModule: true,
+  default: { get: jest.fn(), post: jest.fn(), delete: jest.fn() }
+}));
+const mockedApi = api as jest.Mocked<typeof api>;
+
 describe('reportService', () => {
   // Mock response data
   const mockReport: Report = {
@@ -296,52 +304,55 @@ describe('reportService', () => {
     });
   });
 
-  describe('generatePublicLink', () => {
-    it('should generate a public link successfully', async () => {
+  describe('createShareLink', () => {
+    it('should create a share link and return its token', async () => {
       // Setup
-      const mockLink = 'https://example.com/reports/public/abc123';
-      mockedAxios.post.mockResolvedValueOnce({
+      const link = { id: 5, report_id: 1, status: 'active', has_password: true };
+      mockedApi.post.mockResolvedValueOnce({
         data: {
           success: true,
-          link: mockLink
+          data: { link, token: 'abc123' }
         }
       });
 
       // Execute
-      const result = await reportService.generatePublicLink(1);
+      const result = await reportService.createShareLink(1, { password: 'secret1', max_views: 3 });
 
       // Verify
-      expect(mockedAxios.post).toHaveBeenCalledWith('http://localhost:8000/api/reports/1/public-link');
-      expect(result).toBe(mockLink);
+      expect(mockedApi.post).toHaveBeenCalledWith('/reports/1/share-links', {
+        password: 'secret1',
+        max_views: 3
+      });
+      expect(result).toEqual({ link, token: 'abc123' });
     });
 
-    it('should handle API errors when generating a public link', async () => {
+    it('should handle API errors when creating a share link', async () => {
       // Setup
-      mockedAxios.post.mockResolvedValueOnce({
+      mockedApi.post.mockResolvedValueOnce({
         data: {
           success: false,
-          error: 'Failed to generate public link'
+          message: 'Failed to create share link'
         }
       });
 
       // Execute and verify
-      await expect(reportService.generatePublicLink(1)).rejects.toThrow('Failed to generate public link');
+      await expect(reportService.createShareLink(1, {})).rejects.toThrow('Failed to create share link');
     });
 
-    it('should handle network errors when generating a public link', async () => {
+    it('should handle network errors when creating a share link', async () => {
       // Setup
-      mockedAxios.post.mockRejectedValueOnce(new Error('Network error'));
+      mockedApi.post.mockRejectedValueOnce(new Error('Network error'));
 
       // Execute and verify
-      await expect(reportService.generatePublicLink(1)).rejects.toThrow('Network error');
+      await expect(reportService.createShareLink(1, {})).rejects.toThrow('Network error');
     });
 
-    it('should clear cache for the report after generating a public link', async () => {
+    it('should clear cache for the report after creating a share link', async () => {
       // Setup
-      mockedAxios.post.mockResolvedValueOnce({
+      mockedApi.post.mockResolvedValueOnce({
         data: {
           success: true,
-          link: 'https://example.com/reports/public/abc123'
+          data: { link: { id: 5, report_id: 1, status: 'active', has_password: false }, token: 'abc123' }
         }
       });
       
@@ -349,58 +360,58 @@ describe('reportService', () => {
       const clearCacheSpy = jest.spyOn(reportService, 'clearCache');
 
       // Execute
-      await reportService.generatePublicLink(1);
+      await reportService.createShareLink(1, {});
 
       // Verify
       expect(clearCacheSpy).toHaveBeenCalledWith(1);
     });
   });
 
-  describe('revokePublicLink', () => {
-    it('should revoke a public link successfully', async () => {
+  describe('revokeShareLink', () => {
+    it('should revoke a share link successfully', async () => {
       // Setup
-      mockedAxios.delete.mockResolvedValueOnce({
+      mockedApi.delete.mockResolvedValueOnce({
         data: {
           success: true,
-          message: 'Public link revoked successfully'
+          message: 'Share link revoked successfully'
         }
       });
 
       // Execute
-      const result = await reportService.revokePublicLink(1);
+      const result = await reportService.revokeShareLink(1, 5);
 
       // Verify
-      expect(mockedAxios.delete).toHaveBeenCalledWith('http://localhost:8000/api/reports/1/public-link');
+      expect(mockedApi.delete).toHaveBeenCalledWith('/reports/1/share-links/5');
       expect(result).toBe(true);
     });
 
-    it('should handle API errors when revoking a public link', async () => {
+    it('should handle API errors when revoking a share link', async () => {
       // Setup
-      mockedAxios.delete.mockResolvedValueOnce({
+      mockedApi.delete.mockResolvedValueOnce({
         data: {
           success: false,
-          message: 'Failed to revoke public link'
+          message: 'Failed to revoke share link'
         }
       });
 
       // Execute
-      const result = await reportService.revokePublicLink(1);
+      const result = await reportService.revokeShareLink(1, 5);
       
       // Verify
       expect(result).toBe(false);
     });
 
-    it('should handle network errors when revoking a public link', async () => {
+    it('should handle network errors when revoking a share link', async () => {
       // Setup
-      mockedAxios.delete.mockRejectedValueOnce(new Error('Network error'));
+      mockedApi.delete.mockRejectedValueOnce(new Error('Network error'));
 
       // Execute and verify
-      await expect(reportService.revokePublicLink(1)).rejects.toThrow('Network error');
+      await expect(reportService.revokeShareLink(1, 5)).rejects.toThrow('Network error');
     });
 
-    it('should clear cache for the report after revoking a public link', async () => {
+    it('should clear cache for the report after revoking a share link', async () => {
       // Setup
-      mockedAxios.delete.mockResolvedValueOnce({
+      mockedApi.delete.mockResolvedValueOnce({
         data: {
           success: true
         }
@@ -410,13 +421,43 @@ describe('reportService', () => {
       const clearCacheSpy = jest.spyOn(reportService, 'clearCache');
 
       // Execute
-      await reportService.revokePublicLink(1);
+      await reportService.revokeShareLink(1, 5);
 
       // Verify
       expect(clearCacheSpy).toHaveBeenCalledWith(1);
     });
   });
 
+  describe('viewSharedReport', () => {
+    it('should open a shared report with its password', async () => {
+      // Setup
+      const sharedReport = {
+        title: 'Test Report',
+        type: 'energy_audit',
+        status: 'published',
+        version: 1,
+        created_at: '2023-01-01T00:00:00Z',
+        updated_at: '2023-01-02T00:00:00Z',
+        contents: []
+      };
+      mockedApi.post.mockResolvedValueOnce({
+        data: {
+          success: true,
+          data: sharedReport
+        }
+      });
+
+      // Execute
+      const result = await reportService.viewSharedReport('abc123', 'secret1');
+
+      // Verify
+      expect(mockedApi.post).toHaveBeenCalledWith('/shared/reports/abc123/view', {
+        password: 'secret1'
+      });
+      expect(result).toEqual(sharedReport);
+    });
+  });
+
   describe('getSharedReports', () => {
     test('fetches shared reports successfully', async () => {
       // Setup mock
@@ -1,5 +1,6 @@
 import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
 import { apiConfig } from '../config/database';
+import { refreshAccessToken } from './authService';
 
 // Get base URL from config and clean it up
 const API_URL = apiConfig.baseUrl;
@@ -35,6 +36,7 @@ class EnhancedError extends Error {
 
 interface RetryConfig extends InternalAxiosRequestConfig {
   _retry?: number;
+  _refreshed?: boolean;
 }
 
 interface ErrorResponse {
@@ -151,16 +153,30 @@ api.interceptors.response.use(
 
     // Handle token expiration
     if (error.response?.status === 401) {
+      const isRefreshRequest = originalRequest.url?.includes('/auth/refresh');
+
+      // Renew an expired access token with the refresh token and repeat the request once
+      if (error.response.data?.code === 'TOKEN_EXPIRED' && !isRefreshRequest && !originalRequest._refreshed) {
+        const token = await refreshAccessToken();
+        if (token) {
+          originalRequest._refreshed = true;
+          originalRequest.headers.Authorization = `Bearer ${token}`;
+          return api(originalRequest);
+        }
+      }
+
       const isExpiredToken = error.response.data && 
         (error.response.data.code === 'TOKEN_EXPIRED' || 
+         error.response.data.code === 'SESSION_REVOKED' ||
          error.response.data.message === 'Session expired');
       
-      // Only redirect for token expiration, not missing token
-      if (isExpiredToken && localStorage.getItem('token')) {
+      // Only redirect for token expiration, not missing token; a failed refresh is handled by the request that started it
+      if (isExpiredToken && !isRefreshRequest && localStorage.getItem('token')) {
         console.warn('Session expired, redirecting to login');
         
-        // Clear the token from localStorage
+        // Clear the tokens from localStorage
         localStorage.removeItem('token');
+        localStorage.removeItem('refreshToken');
         localStorage.removeItem('currentUser');
         
         // Show a message to the user
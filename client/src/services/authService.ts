@@ -1,12 +1,91 @@
 import api from './api';
 import { User, UserRole } from '../types';
+import { Permission } from './roleService';
 import jwt_decode from 'jwt-decode';
 
 interface LoginResponse {
   token: string;
   user: User;
+  // The user's role requires two-factor authentication and they have not set it up
+  twoFactorSetupRequired?: boolean;
 }
 
+/**
+ * Returned by login instead of a session when the password was right and a second factor is needed
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  // Whether the system settings require two-factor authentication for the user's role
+  required: boolean;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+interface TokenRefreshResponse {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+/**
+ * A device or browser signed in to the user's account
+ */
+export interface ActiveSession {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+// How long to wait for another tab to save the tokens it received after rotating ours
+const SUPERSEDED_WAIT_MS = 3000;
+const SUPERSEDED_POLL_MS = 200;
+
+/**
+ * Save the tokens and user returned by a login
+ */
+const storeSession = (data: { token: string; refreshToken?: string; user: User }) => {
+  localStorage.setItem('token', data.token);
+  if (data.refreshToken) {
+    localStorage.setItem('refreshToken', data.refreshToken);
+  }
+  localStorage.setItem('currentUser', JSON.stringify(data.user));
+};
+
+/**
+ * Save the session from a login response, or pass on the challenge for the second login step
+ */
+const handleLoginResponse = (data: any): LoginResponse | TwoFactorChallenge => {
+  if (data.twoFactorRequired) {
+    return { twoFactorRequired: true, challengeToken: data.challengeToken };
+  }
+  storeSession(data);
+  return {
+    token: data.token,
+    user: data.user,
+    twoFactorSetupRequired: !!data.twoFactorSetupRequired
+  };
+};
+
+const clearSession = () => {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('currentUser');
+};
+
 interface TokenPayload {
   id: string;
   username: string;
@@ -14,8 +93,26 @@ interface TokenPayload {
   exp: number;
 }
 
+/**
+ * Only a missing endpoint or an unreachable server is worth trying another login URL for; every
+ * URL reaches the same server, so retrying a wrong password would count it as several failures
+ */
+const isMissingEndpoint = (error: any) => !error?.response || error.response.status === 404;
+
+const toLoginError = (error: any) => {
+  const status = error?.response?.status;
+  const message = error?.response?.data?.message;
+  if (status === 423) {
+    return new Error(message || 'Account locked. Please try again later.');
+  }
+  if (status === 403 && message) {
+    return new Error(message);
+  }
+  return new Error('Login failed: Invalid username or password');
+};
+
 // Login function
-export const login = async (username: string, password: string): Promise<LoginResponse> => {
+export const login = async (username: string, password: string): Promise<LoginResponse | TwoFactorChallenge> => {
   const loginData = { username, password };
   console.log('Starting login with credentials:', username);
   
@@ -26,8 +123,6 @@ export const login = async (username: string, password: string): Promise<LoginRe
     'login'            // Direct endpoint without leading slash
   ];
   
-  let lastError = null;
-  
   // Try each endpoint in sequence
   for (const endpoint of endpoints) {
     try {
@@ -35,17 +130,13 @@ export const login = async (username: string, password: string): Promise<LoginRe
       const response = await api.post(endpoint, loginData);
       
       // If successful, store token and return
-      localStorage.setItem('token', response.data.token);
-      localStorage.setItem('currentUser', JSON.stringify(response.data.user));
-      
       console.log(`Login successful using ${endpoint}`);
-      return {
-        token: response.data.token,
-        user: response.data.user
-      };
-    } catch (error) {
+      return handleLoginResponse(response.data);
+    } catch (error: any) {
       console.warn(`Login attempt failed at ${endpoint}:`, error);
-      lastError = error;
+      if (!isMissingEndpoint(error)) {
+        throw toLoginError(error);
+      }
       // Continue to next endpoint
     }
   }
@@ -63,16 +154,25 @@ export const login = async (username: string, password: string): Promise<LoginRe
       baseURL: cleanBaseUrl // Use clean base URL without /api
     });
     
-    localStorage.setItem('token', response.data.token);
-    localStorage.setItem('currentUser', JSON.stringify(response.data.user));
-    
-    return {
-      token: response.data.token,
-      user: response.data.user
-    };
+    return handleLoginResponse(response.data);
   } catch (directError) {
     console.error('All login attempts failed:', directError);
-    throw new Error('Login failed: Invalid username or password');
+    throw toLoginError(directError);
+  }
+};
+
+/**
+ * Finish a login with a code from the authenticator app or a recovery code
+ */
+export const verifyTwoFactorLogin = async (
+  challengeToken: string,
+  verification: { code: string } | { recoveryCode: string }
+): Promise<LoginResponse> => {
+  try {
+    const response = await api.post('/auth/login/2fa', { challengeToken, ...verification });
+    return handleLoginResponse(response.data) as LoginResponse;
+  } catch (error: any) {
+    throw new Error(error?.response?.data?.message || 'Verification failed. Please try again.');
   }
 };
 
@@ -81,16 +181,123 @@ export const login = async (username: string, password: string): Promise<LoginRe
  */
 export const logout = async (): Promise<void> => {
   try {
-    // Call logout API endpoint if it exists
-    await api.post('/auth/logout');
+    // Revoke the session on the server; the refresh token identifies it if the access token has expired
+    await api.post('/auth/logout', { refreshToken: localStorage.getItem('refreshToken') });
   } catch (error) {
     // Continue with logout even if API call fails
     console.warn('Logout API call failed, continuing with local logout');
   } finally {
-    // Remove token and user from localStorage
-    localStorage.removeItem('token');
-    localStorage.removeItem('currentUser');
+    // Remove tokens and user from localStorage
+    clearSession();
+  }
+};
+
+let refreshPromise: Promise<string | null> | null = null;
+
+const requestTokenRefresh = async (): Promise<string | null> => {
+  const refreshToken = localStorage.getItem('refreshToken');
+  if (!refreshToken) {
+    return null;
+  }
+
+  try {
+    const response = await api.post<TokenRefreshResponse>('/auth/refresh', { refreshToken });
+    localStorage.setItem('token', response.data.token);
+    localStorage.setItem('refreshToken', response.data.refreshToken);
+    return response.data.token;
+  } catch (error: any) {
+    // Another tab exchanged the same refresh token first; use the tokens it saves
+    if (error?.response?.data?.code === 'TOKEN_SUPERSEDED') {
+      for (let waited = 0; waited < SUPERSEDED_WAIT_MS; waited += SUPERSEDED_POLL_MS) {
+        if (localStorage.getItem('refreshToken') !== refreshToken) {
+          return localStorage.getItem('token');
+        }
+        await new Promise(resolve => setTimeout(resolve, SUPERSEDED_POLL_MS));
+      }
+    }
+    console.warn('Token refresh failed', error);
+    return null;
+  }
+};
+
+/**
+ * Exchange the refresh token for a new access token
+ * Concurrent callers share one request, since each refresh token can only be used once
+ * @returns The new access token, or null if the session has ended
+ */
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = requestTokenRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+export const getTwoFactorStatus = async (): Promise<TwoFactorStatus> => {
+  const response = await api.get<TwoFactorStatus>('/auth/2fa');
+  return response.data;
+};
+
+/**
+ * Create a new authenticator secret; enrollment completes with enableTwoFactor
+ */
+export const startTwoFactorSetup = async (): Promise<TwoFactorSetup> => {
+  const response = await api.post<TwoFactorSetup>('/auth/2fa/setup');
+  return response.data;
+};
+
+/**
+ * Confirm enrollment with a code from the authenticator app
+ * @returns Recovery codes, shown to the user once
+ */
+export const enableTwoFactor = async (code: string): Promise<string[]> => {
+  const response = await api.post<{ recoveryCodes: string[]; token?: string }>('/auth/2fa/enable', { code });
+  // The server re-issues the access token to show this session has passed two-factor authentication
+  if (response.data.token) {
+    localStorage.setItem('token', response.data.token);
   }
+  return response.data.recoveryCodes;
+};
+
+export const disableTwoFactor = async (password: string, verification: { code: string } | { recoveryCode: string }): Promise<void> => {
+  await api.post('/auth/2fa/disable', { password, ...verification });
+};
+
+export const regenerateRecoveryCodes = async (code: string): Promise<string[]> => {
+  const response = await api.post<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', { code });
+  return response.data.recoveryCodes;
+};
+
+/**
+ * What the current user's role allows; the server enforces the same list
+ */
+export const getPermissions = async (): Promise<Permission[]> => {
+  const response = await api.get<{ permissions: Permission[] }>('/auth/permissions');
+  return response.data.permissions;
+};
+
+/**
+ * List the devices signed in to the current user's account
+ */
+export const getSessions = async (): Promise<ActiveSession[]> => {
+  const response = await api.get<ActiveSession[]>('/auth/sessions');
+  return response.data;
+};
+
+/**
+ * Sign out one of the current user's devices
+ */
+export const revokeSession = async (sessionId: number): Promise<void> => {
+  await api.delete(`/auth/sessions/${sessionId}`);
+};
+
+/**
+ * Sign out every device except this one
+ */
+export const revokeOtherSessions = async (): Promise<number> => {
+  const response = await api.delete<{ count: number }>('/auth/sessions');
+  return response.data.count;
 };
 
 /**
@@ -140,8 +347,8 @@ export const verifyToken = async (): Promise<User | null> => {
       const decoded: any = jwt_decode(token);
       const currentTime = Date.now() / 1000;
       
-      // Check if token is expired
-      if (decoded.exp < currentTime) {
+      // An expired access token is renewed while the session lasts
+      if (decoded.exp < currentTime && !(await refreshAccessToken())) {
         console.log('Token is expired locally');
         throw new Error('Token expired');
       }
@@ -188,8 +395,7 @@ export const verifyToken = async (): Promise<User | null> => {
     console.error('Token verification failed', error);
     
     // Clear authentication data
-    localStorage.removeItem('token');
-    localStorage.removeItem('currentUser');
+    clearSession();
     
     return null;
   }
@@ -274,5 +480,15 @@ export default {
   register,
   logout,
   getCurrentUser,
-  isTokenValid
+  isTokenValid,
+  refreshAccessToken,
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
+  verifyTwoFactorLogin,
+  getTwoFactorStatus,
+  startTwoFactorSetup,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes
 }; 
\ No newline at end of file
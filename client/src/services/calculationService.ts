@@ -0,0 +1,85 @@
+import api from './api';
+import { StoredCalculation } from '../pages/Energy Audit/components/Calculators/utils/storage';
+
+export interface ServerCalculation extends StoredCalculation {
+  version: number;
+  auditId: number | null;
+  userId: number;
+  updatedAt: string;
+}
+
+export interface CalculationVersionSummary {
+  version: number;
+  name: string;
+  createdBy: number | null;
+  createdByUsername?: string;
+  createdAt: string;
+}
+
+export interface CalculationVersionDetail {
+  version: number;
+  name: string;
+  data: any;
+  createdBy: number | null;
+  createdAt: string;
+}
+
+export interface CalculationImportResult {
+  message: string;
+  imported: number;
+  skipped: number;
+}
+
+const calculationService = {
+  getCalculations: async (params: { type?: string; auditId?: number } = {}): Promise<ServerCalculation[]> => {
+    const response = await api.get('/calculations', { params });
+    return response.data;
+  },
+
+  getCalculationById: async (id: string): Promise<ServerCalculation> => {
+    const response = await api.get(`/calculations/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+
+  createCalculation: async (
+    calculation: Pick<StoredCalculation, 'type' | 'name' | 'data'> & Partial<Pick<StoredCalculation, 'id' | 'timestamp' | 'auditId'>>
+  ): Promise<ServerCalculation> => {
+    const response = await api.post('/calculations', calculation);
+    return response.data;
+  },
+
+  updateCalculation: async (
+    id: string,
+    changes: { name?: string; data?: any; auditId?: number | null; expectedVersion?: number }
+  ): Promise<ServerCalculation> => {
+    const response = await api.put(`/calculations/${encodeURIComponent(id)}`, changes);
+    return response.data;
+  },
+
+  deleteCalculation: async (id: string): Promise<void> => {
+    await api.delete(`/calculations/${encodeURIComponent(id)}`);
+  },
+
+  importCalculations: async (calculations: StoredCalculation[]): Promise<CalculationImportResult> => {
+    const response = await api.post('/calculations/import', { calculations });
+    return response.data;
+  },
+
+  // Version history
+  getVersions: async (id: string): Promise<CalculationVersionSummary[]> => {
+    const response = await api.get(`/calculations/${encodeURIComponent(id)}/versions`);
+    return response.data;
+  },
+
+  getVersion: async (id: string, version: number): Promise<CalculationVersionDetail> => {
+    const response = await api.get(`/calculations/${encodeURIComponent(id)}/versions/${version}`);
+    return response.data;
+  },
+
+  restoreVersion: async (id: string, version: number): Promise<ServerCalculation> => {
+    const response = await api.post(`/calculations/${encodeURIComponent(id)}/versions/${version}/restore`);
+    return response.data;
+  }
+};
+
+export default calculationService;
@@ -80,6 +80,108 @@ export interface AuditMetrics {
   };
 }
 
+export type AuditTaskStatus = 'not_started' | 'in_progress' | 'completed' | 'blocked';
+export type AuditTaskPriority = 'low' | 'medium' | 'high';
+export type AuditTaskApprovalStatus = 'not_submitted' | 'pending' | 'approved' | 'rejected';
+
+export interface AuditTaskComment {
+  id: number;
+  text: string;
+  author: string;
+  authorId: number;
+  date: string;
+}
+
+export interface AuditTask {
+  id: number;
+  auditId: number;
+  auditTitle?: string;
+  title: string;
+  description: string;
+  assigneeId: number | null;
+  assignedTo: string;
+  status: AuditTaskStatus;
+  priority: AuditTaskPriority;
+  dueDate: string | null;
+  completedDate: string | null;
+  approvalStatus: AuditTaskApprovalStatus;
+  approvedBy?: string;
+  approvedAt?: string | null;
+  comments: AuditTaskComment[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface AuditTaskInput {
+  title?: string;
+  description?: string;
+  assigneeId?: number | null;
+  status?: AuditTaskStatus;
+  priority?: AuditTaskPriority;
+  dueDate?: string | null;
+}
+
+export interface AuditRecord {
+  id: number;
+  title: string;
+  description: string | null;
+  location: string | null;
+  status: string;
+  currentPhase: number;
+  startDate: string | null;
+  endDate: string | null;
+  archived: boolean;
+  archivedAt: string | null;
+  createdBy: number | null;
+  createdByUsername?: string;
+  taskCount: number;
+  completedTaskCount: number;
+  createdAt: string;
+  updatedAt: string;
+  tasks?: AuditTask[];
+}
+
+export interface AssignableUser {
+  id: number;
+  username: string;
+  name: string;
+  role: string;
+  position?: string;
+}
+
+export type AuditTeamRole = 'lead_auditor' | 'auditor' | 'client_viewer';
+
+export interface AuditTeamMember {
+  userId: number;
+  username: string;
+  email: string;
+  name: string;
+  role: AuditTeamRole;
+  addedAt: string;
+}
+
+export interface AuditTeamInvitation {
+  id: number;
+  auditId: number;
+  auditTitle?: string;
+  email: string;
+  userId: number | null;
+  role: AuditTeamRole;
+  status: 'pending' | 'accepted' | 'declined' | 'cancelled';
+  invitedBy?: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface AuditTeam {
+  auditId: number;
+  // null when the user sees the audit through audit.view_all rather than membership
+  myRole: AuditTeamRole | null;
+  canManage: boolean;
+  members: AuditTeamMember[];
+  invitations: AuditTeamInvitation[];
+}
+
 /**
  * Energy Audit Service
  * 
@@ -149,6 +251,126 @@ const energyAuditService = {
     return response.data;
   },
 
+  // Audit records and tasks
+  listAudits: async (params: { status?: string; search?: string; includeArchived?: boolean } = {}): Promise<AuditRecord[]> => {
+    const response = await api.get('/energy-audit', { params });
+    return response.data;
+  },
+
+  getAuditWithTasks: async (id: number | string): Promise<AuditRecord> => {
+    const response = await api.get(`/energy-audit/${id}`);
+    return response.data;
+  },
+
+  updateAuditRecord: async (id: number | string, changes: Partial<AuditRecord>): Promise<AuditRecord> => {
+    const response = await api.put(`/energy-audit/${id}`, changes);
+    return response.data;
+  },
+
+  archiveAudit: async (id: number | string): Promise<AuditRecord> => {
+    const response = await api.post(`/energy-audit/${id}/archive`);
+    return response.data;
+  },
+
+  restoreAudit: async (id: number | string): Promise<AuditRecord> => {
+    const response = await api.post(`/energy-audit/${id}/restore`);
+    return response.data;
+  },
+
+  // Audit teams
+
+  getTeam: async (auditId: number | string): Promise<AuditTeam> => {
+    const response = await api.get(`/energy-audit/${auditId}/team`);
+    return response.data;
+  },
+
+  inviteTeamMember: async (auditId: number | string, invitee: string, role: AuditTeamRole): Promise<AuditTeamInvitation> => {
+    const response = await api.post(`/energy-audit/${auditId}/team/invitations`, { invitee, role });
+    return response.data;
+  },
+
+  cancelInvitation: async (auditId: number | string, invitationId: number) => {
+    const response = await api.delete(`/energy-audit/${auditId}/team/invitations/${invitationId}`);
+    return response.data;
+  },
+
+  updateTeamMember: async (auditId: number | string, userId: number, role: AuditTeamRole): Promise<AuditTeamMember[]> => {
+    const response = await api.put(`/energy-audit/${auditId}/team/members/${userId}`, { role });
+    return response.data;
+  },
+
+  removeTeamMember: async (auditId: number | string, userId: number): Promise<AuditTeamMember[]> => {
+    const response = await api.delete(`/energy-audit/${auditId}/team/members/${userId}`);
+    return response.data;
+  },
+
+  getMyInvitations: async (): Promise<AuditTeamInvitation[]> => {
+    const response = await api.get('/energy-audit/invitations');
+    return response.data;
+  },
+
+  acceptInvitation: async (invitationId: number): Promise<{ auditId: number; role: AuditTeamRole }> => {
+    const response = await api.post(`/energy-audit/invitations/${invitationId}/accept`);
+    return response.data;
+  },
+
+  declineInvitation: async (invitationId: number) => {
+    const response = await api.post(`/energy-audit/invitations/${invitationId}/decline`);
+    return response.data;
+  },
+
+  getAssignableUsers: async (): Promise<AssignableUser[]> => {
+    const response = await api.get('/energy-audit/assignees');
+    return response.data;
+  },
+
+  getTasks: async (
+    params: { auditId?: number; assignee?: 'me'; approvalStatus?: AuditTaskApprovalStatus; status?: AuditTaskStatus } = {}
+  ): Promise<AuditTask[]> => {
+    const response = await api.get('/energy-audit/tasks', { params });
+    return response.data;
+  },
+
+  createTask: async (auditId: number | string, task: AuditTaskInput): Promise<AuditTask> => {
+    const response = await api.post(`/energy-audit/${auditId}/tasks`, task);
+    return response.data;
+  },
+
+  updateTask: async (taskId: number, changes: AuditTaskInput): Promise<AuditTask> => {
+    const response = await api.put(`/energy-audit/tasks/${taskId}`, changes);
+    return response.data;
+  },
+
+  deleteTask: async (taskId: number) => {
+    const response = await api.delete(`/energy-audit/tasks/${taskId}`);
+    return response.data;
+  },
+
+  submitTask: async (taskId: number, comment?: string): Promise<AuditTask> => {
+    const response = await api.post(`/energy-audit/tasks/${taskId}/submit`, { comment });
+    return response.data;
+  },
+
+  approveTask: async (taskId: number, comment?: string): Promise<AuditTask> => {
+    const response = await api.post(`/energy-audit/tasks/${taskId}/approve`, { comment });
+    return response.data;
+  },
+
+  rejectTask: async (taskId: number, comment?: string): Promise<AuditTask> => {
+    const response = await api.post(`/energy-audit/tasks/${taskId}/reject`, { comment });
+    return response.data;
+  },
+
+  getTaskComments: async (taskId: number): Promise<AuditTaskComment[]> => {
+    const response = await api.get(`/energy-audit/tasks/${taskId}/comments`);
+    return response.data;
+  },
+
+  addTaskComment: async (taskId: number, content: string): Promise<AuditTaskComment> => {
+    const response = await api.post(`/energy-audit/tasks/${taskId}/comments`, { content });
+    return response.data;
+  },
+
   // Findings
   getFindings: async (auditId?: string) => {
     try {
@@ -0,0 +1,85 @@
+import api from './api';
+
+export type SeriesResolution = 'raw' | '15min' | 'hour' | 'day';
+
+export interface BuildingSummary {
+  id: number;
+  name: string;
+  address: string | null;
+  buildingType: string | null;
+  floorArea: number | null;
+}
+
+export interface MeterSummary {
+  id: number;
+  name: string;
+  buildingId: number;
+  buildingName: string;
+  protocol: 'manual' | 'modbus_tcp';
+  intervalMinutes: number;
+  isActive: boolean;
+  lastReadingAt: string | null;
+}
+
+export interface EnergySeriesPoint {
+  timestamp: string;
+  energyKwh: number | null;
+  averageKw: number | null;
+  minKw: number | null;
+  maxKw: number | null;
+  // Highest 15-minute average demand in the bucket; null for raw readings
+  peakDemandKw: number | null;
+  powerFactor: number | null;
+  samples: number;
+}
+
+export interface EnergySeries {
+  meterId: number;
+  resolution: SeriesResolution;
+  from: string;
+  to: string;
+  points: EnergySeriesPoint[];
+  totals: {
+    energyKwh: number;
+    peakDemandKw: number | null;
+  };
+}
+
+export interface EnergySeriesQuery {
+  meterId: number;
+  from?: Date;
+  to?: Date;
+  // Omit to let the server pick a resolution that suits the range
+  resolution?: SeriesResolution | 'auto';
+}
+
+/**
+ * Energy Service
+ *
+ * Reads metered energy series, served from rollups so long ranges stay fast
+ */
+const energyService = {
+  getBuildings: async (): Promise<BuildingSummary[]> => {
+    const response = await api.get('/meters/buildings');
+    return response.data;
+  },
+
+  getMeters: async (buildingId?: number): Promise<MeterSummary[]> => {
+    const response = await api.get('/meters', { params: { buildingId } });
+    return response.data;
+  },
+
+  getSeries: async ({ meterId, from, to, resolution = 'auto' }: EnergySeriesQuery): Promise<EnergySeries> => {
+    const response = await api.get('/energy/series', {
+      params: {
+        meterId,
+        from: from?.toISOString(),
+        to: to?.toISOString(),
+        resolution
+      }
+    });
+    return response.data;
+  }
+};
+
+export default energyService;
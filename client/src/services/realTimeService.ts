@@ -1,14 +1,21 @@
 import { io, Socket } from 'socket.io-client';
 
+// A stored meter reading; quantities the meter does not report are null
 export interface PowerUsageData {
+  id?: number;
+  meterId?: number | null;
+  source?: string;
   timestamp: string;
   powerUsage: number;
-  voltage: number;
-  current: number;
-  powerFactor: number;
-  frequency: number;
-  temperature: number;
-  humidity: number;
+  // Seconds of demand the reading stands for
+  intervalSeconds?: number | null;
+  energyKwh?: number | null;
+  voltage: number | null;
+  current: number | null;
+  powerFactor: number | null;
+  frequency: number | null;
+  temperature: number | null;
+  humidity: number | null;
 }
 
 export interface EnergyMetrics {
@@ -28,6 +35,8 @@ class RealTimeService {
     if (!this.socket) {
       this.socket = io(this.serverUrl, {
         transports: ['websocket'],
+        // Read on every attempt so a reconnect uses the latest refreshed token
+        auth: (cb) => cb({ token: localStorage.getItem('token') }),
         reconnection: true,
         reconnectionAttempts: 5,
         reconnectionDelay: 1000,
@@ -57,10 +66,11 @@ class RealTimeService {
 
   startMonitoring(
     onPowerData: (data: PowerUsageData) => void,
-    onMetrics: (data: EnergyMetrics) => void
+    onMetrics: (data: EnergyMetrics) => void,
+    meterId?: number
   ) {
     const socket = this.connect();
-    socket.emit('startMonitoring');
+    socket.emit('startMonitoring', { meterId });
 
     socket.on('powerUsage', onPowerData);
     socket.on('energyMetrics', onMetrics);
@@ -74,14 +84,14 @@ class RealTimeService {
     }
   }
 
-  async getHistoricalData(startDate: Date, endDate: Date): Promise<PowerUsageData[]> {
+  async getHistoricalData(startDate: Date, endDate: Date, meterId?: number): Promise<PowerUsageData[]> {
     return new Promise((resolve, reject) => {
       if (!this.socket) {
         reject(new Error('Not connected to server'));
         return;
       }
 
-      this.socket.emit('getHistoricalData', { startDate, endDate }, (response: any) => {
+      this.socket.emit('getHistoricalData', { startDate, endDate, meterId }, (response: any) => {
         if (response.error) {
           reject(new Error(response.error));
         } else {
@@ -91,14 +101,14 @@ class RealTimeService {
     });
   }
 
-  async getEnergyMetrics(): Promise<EnergyMetrics> {
+  async getEnergyMetrics(meterId?: number): Promise<EnergyMetrics> {
     return new Promise((resolve, reject) => {
       if (!this.socket) {
         reject(new Error('Not connected to server'));
         return;
       }
 
-      this.socket.emit('getEnergyMetrics', (response: any) => {
+      this.socket.emit('getEnergyMetrics', { meterId }, (response: any) => {
         if (response.error) {
           reject(new Error(response.error));
         } else {
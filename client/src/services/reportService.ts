@@ -1,11 +1,23 @@
 import axios from 'axios';
+import api from './api';
 import { 
   Report, 
   ReportApiResponse, 
   ReportsApiResponse, 
   ReportContent, 
   ReportMetadata, 
-  ReportSharing
+  ReportSharing,
+  ReportRenderJob,
+  ReportVersion,
+  ReportVersionDetail,
+  ReportShareLink,
+  ReportShareLinkEvent,
+  ReportShareLinkInput,
+  SharedReport,
+  SharedReportInfo,
+  ReportSignature,
+  ReportSignatureStatus,
+  SignatureVerification
 } from '../types/reports';
 
 // API base URL
@@ -151,7 +163,8 @@ const reportService = {
       is_template?: boolean;
       is_public?: boolean;
       status?: string;
-      version?: number;
+      // Shown against the version this save creates
+      version_note?: string;
       contents?: ReportContent[];
       metadata?: ReportMetadata;
     }
@@ -285,52 +298,348 @@ const reportService = {
   },
 
   /**
-   * Generate a public link for a report
+   * Get the share links of a report with their access log
    * @param reportId Report ID
-   * @returns Promise with the public link URL
+   * @returns Promise with the links and the log, newest first
    */
-  generatePublicLink: async (reportId: number): Promise<string> => {
+  getShareLinks: async (reportId: number): Promise<{ links: ReportShareLink[]; access_log: ReportShareLinkEvent[] }> => {
     try {
-      const response = await axios.post<{
+      const response = await api.get<{
         success: boolean;
         message?: string;
-        link?: string;
-        error?: string;
-      }>(
-        `${API_URL}/reports/${reportId}/public-link`
-      );
-      
-      if (!response.data.success || !response.data.link) {
-        throw new Error(response.data.error || 'Failed to generate public link');
+        data?: { links: ReportShareLink[]; access_log: ReportShareLinkEvent[] };
+      }>(`/reports/${reportId}/share-links`);
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || 'Failed to get share links');
       }
-      
+
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error getting share links of report ${reportId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Create a link that opens a report without an account
+   * @param reportId Report ID
+   * @param input Optional label, password, expiry date and view limit
+   * @returns Promise with the link and its token; the token is only returned here
+   */
+  createShareLink: async (
+    reportId: number,
+    input: ReportShareLinkInput
+  ): Promise<{ link: ReportShareLink; token: string }> => {
+    try {
+      const response = await api.post<{
+        success: boolean;
+        message?: string;
+        data?: { link: ReportShareLink; token: string };
+      }>(`/reports/${reportId}/share-links`, input);
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || 'Failed to create share link');
+      }
+
       // Clear the cache for this report
       reportService.clearCache(reportId);
-      
-      return response.data.link;
+
+      return response.data.data;
     } catch (error) {
-      console.error(`Error generating public link for report ${reportId}:`, error);
+      console.error(`Error creating share link for report ${reportId}:`, error);
       throw error;
     }
   },
 
   /**
-   * Revoke the public link for a report
+   * Revoke a share link
    * @param reportId Report ID
+   * @param linkId Share link ID
    * @returns Promise with success status
    */
-  revokePublicLink: async (reportId: number): Promise<boolean> => {
+  revokeShareLink: async (reportId: number, linkId: number): Promise<boolean> => {
     try {
-      const response = await axios.delete<ReportApiResponse>(
-        `${API_URL}/reports/${reportId}/public-link`
+      const response = await api.delete<ReportApiResponse>(
+        `/reports/${reportId}/share-links/${linkId}`
       );
-      
+
       // Clear the cache for this report
       reportService.clearCache(reportId);
-      
+
+      return response.data.success;
+    } catch (error) {
+      console.error(`Error revoking share link ${linkId} of report ${reportId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Describe a share link before opening it; works without signing in
+   * @param token Token from the share link
+   * @returns Promise with whether the link needs a password
+   */
+  getSharedReportInfo: async (token: string): Promise<SharedReportInfo> => {
+    try {
+      const response = await api.get<{ success: boolean; message?: string; data?: SharedReportInfo }>(
+        `/shared/reports/${token}`
+      );
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || 'Failed to open shared report');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Error opening share link:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Open a report through a share link; each call counts as one view
+   * @param token Token from the share link
+   * @param password Password, for protected links
+   * @returns Promise with the read-only report
+   */
+  viewSharedReport: async (token: string, password?: string): Promise<SharedReport> => {
+    try {
+      const response = await api.post<{ success: boolean; message?: string; data?: SharedReport }>(
+        `/shared/reports/${token}/view`,
+        { password }
+      );
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || 'Failed to open shared report');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Error viewing shared report:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the signatures of a report and whether it changed after being signed
+   * @param reportId Report ID
+   * @returns Promise with the signatures, oldest first
+   */
+  getReportSignatures: async (reportId: number): Promise<ReportSignatureStatus> => {
+    try {
+      const response = await api.get<{ success: boolean; message?: string; data?: ReportSignatureStatus }>(
+        `/reports/${reportId}/signatures`
+      );
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || 'Failed to get report signatures');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error getting signatures of report ${reportId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Approve a report by signing its content
+   * @param reportId Report ID
+   * @param signature Hash of the reviewed content, drawn signature as a PNG data URL, and comments
+   * @returns Promise with the stored signature; refused if the report changed since it was reviewed
+   */
+  signReport: async (
+    reportId: number,
+    signature: { content_hash: string; signature_image?: string; comments?: string }
+  ): Promise<ReportSignature> => {
+    try {
+      const response = await api.post<{ success: boolean; message?: string; data?: ReportSignature }>(
+        `/reports/${reportId}/signatures`,
+        signature
+      );
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || 'Failed to sign report');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error signing report ${reportId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Check a signature from the code on an exported report; works without signing in
+   * @param code Verification code
+   * @returns Promise with the result of the check
+   */
+  verifySignature: async (code: string): Promise<SignatureVerification> => {
+    try {
+      const response = await api.get<{ success: boolean; message?: string; data?: SignatureVerification }>(
+        `/shared/reports/signatures/${code}`
+      );
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || 'Failed to verify signature');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Error verifying signature:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Queue a report to be rendered to PDF on the server
+   * @param reportId Report ID
+   * @returns Promise with the queued job, or the one already pending
+   */
+  renderReport: async (reportId: number): Promise<ReportRenderJob> => {
+    try {
+      const response = await api.post<{ success: boolean; message?: string; data?: ReportRenderJob }>(
+        `/reports/${reportId}/render`
+      );
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || 'Failed to queue report for rendering');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error queuing report ${reportId} for rendering:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the latest render jobs of a report and when it was last rendered
+   * @param reportId Report ID
+   * @returns Promise with jobs, newest first
+   */
+  getRenderJobs: async (reportId: number): Promise<{
+    jobs: ReportRenderJob[];
+    rendered_at: string | null;
+    rendered_file_size: number | null;
+  }> => {
+    try {
+      const response = await api.get(`/reports/${reportId}/render-jobs`);
+
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to get render jobs');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error getting render jobs for report ${reportId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Cancel a render job that has not started
+   * @param reportId Report ID
+   * @param jobId Render job ID
+   * @returns Promise with success status
+   */
+  cancelRenderJob: async (reportId: number, jobId: number): Promise<boolean> => {
+    try {
+      const response = await api.delete(`/reports/${reportId}/render-jobs/${jobId}`);
       return response.data.success;
     } catch (error) {
-      console.error(`Error revoking public link for report ${reportId}:`, error);
+      console.error(`Error cancelling render job ${jobId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Download the last server-rendered PDF of a report
+   * @param reportId Report ID
+   * @returns Promise with the PDF file
+   */
+  downloadRenderedReport: async (reportId: number): Promise<Blob> => {
+    try {
+      const response = await api.get(`/reports/${reportId}/rendered`, {
+        responseType: 'blob'
+      });
+      return response.data;
+    } catch (error) {
+      console.error(`Error downloading rendered report ${reportId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the version history of a report
+   * @param reportId Report ID
+   * @returns Promise with versions, newest first
+   */
+  getReportVersions: async (reportId: number): Promise<ReportVersion[]> => {
+    try {
+      const response = await api.get<{ success: boolean; message?: string; data?: ReportVersion[] }>(
+        `/reports/${reportId}/versions`
+      );
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || 'Failed to get report versions');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error getting versions of report ${reportId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get one version of a report with its snapshot
+   * @param reportId Report ID
+   * @param version Version number
+   * @returns Promise with the version
+   */
+  getReportVersion: async (reportId: number, version: number): Promise<ReportVersionDetail> => {
+    try {
+      const response = await api.get<{ success: boolean; message?: string; data?: ReportVersionDetail }>(
+        `/reports/${reportId}/versions/${version}`
+      );
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || 'Failed to get report version');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error getting version ${version} of report ${reportId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Restore an earlier version; it is saved as the newest version
+   * @param reportId Report ID
+   * @param version Version number to restore
+   * @returns Promise with the restored report
+   */
+  restoreReportVersion: async (reportId: number, version: number): Promise<Report> => {
+    try {
+      const response = await api.post<ReportApiResponse>(
+        `/reports/${reportId}/versions/${version}/restore`
+      );
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || 'Failed to restore report version');
+      }
+
+      reportCache[reportId] = {
+        report: response.data.data,
+        timestamp: Date.now(),
+        expiresIn: CACHE_EXPIRATION
+      };
+
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error restoring version ${version} of report ${reportId}:`, error);
       throw error;
     }
   },
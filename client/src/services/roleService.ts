@@ -0,0 +1,85 @@
+import api from './api';
+
+// Mirrors the registry in server/src/utils/permissions.ts
+export type Permission =
+  | 'users.manage'
+  | 'roles.manage'
+  | 'settings.manage'
+  | 'auditlog.view'
+  | 'workflow.manage'
+  | 'audit.view_all'
+  | 'audit.create'
+  | 'audit.edit'
+  | 'audit.assign'
+  | 'audit.approve'
+  | 'audit.archive'
+  | 'findings.manage'
+  | 'report.create'
+  | 'report.export'
+  | 'report.sign'
+  | 'report.share'
+  | 'standards.manage'
+  | 'benchmarks.manage'
+  | 'tariffs.manage'
+  | 'meters.view'
+  | 'meters.manage'
+  | 'bills.manage'
+  | 'attachments.manage';
+
+export interface PermissionDefinition {
+  key: Permission;
+  group: string;
+  label: string;
+  description: string;
+}
+
+export interface Role {
+  id: number;
+  name: string;
+  description: string | null;
+  isSystem: boolean;
+  // ADMIN always has every permission
+  isEditable: boolean;
+  // A built-in role that still has its default permissions
+  usesDefaults: boolean;
+  permissions: Permission[];
+  userCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RoleInput {
+  name?: string;
+  description?: string | null;
+  // null restores a built-in role's defaults
+  permissions?: Permission[] | null;
+}
+
+const roleService = {
+  getRoles: async (): Promise<Role[]> => {
+    const response = await api.get<Role[]>('/roles');
+    return response.data;
+  },
+
+  getPermissionRegistry: async (): Promise<PermissionDefinition[]> => {
+    const response = await api.get<PermissionDefinition[]>('/roles/permissions');
+    return response.data;
+  },
+
+  createRole: async (role: RoleInput): Promise<Role> => {
+    const response = await api.post<Role>('/roles', role);
+    return response.data;
+  },
+
+  updateRole: async (id: number, role: RoleInput): Promise<Role> => {
+    const response = await api.put<Role>(`/roles/${id}`, role);
+    return response.data;
+  },
+
+  deleteRole: async (id: number): Promise<{ message: string; reassignedUsers: number }> => {
+    const response = await api.delete(`/roles/${id}`);
+    return response.data;
+  }
+};
+
+export default roleService;
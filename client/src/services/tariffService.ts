@@ -0,0 +1,167 @@
+import api from './api';
+
+export type TariffChargeUnit = 'kwh' | 'kw' | 'month';
+export type TariffComponent =
+  | 'generation'
+  | 'transmission'
+  | 'system_loss'
+  | 'distribution'
+  | 'supply'
+  | 'metering'
+  | 'subsidy'
+  | 'universal'
+  | 'other';
+export type CustomerClass = 'residential' | 'general_service' | 'industrial';
+
+export interface TariffCharge {
+  key: string;
+  label: string;
+  component: TariffComponent;
+  unit: TariffChargeUnit;
+  rate: number;
+  // Time-of-use period the charge is limited to
+  period?: string;
+  vatable: boolean;
+  discountable: boolean;
+}
+
+export interface TimeOfUsePeriod {
+  key: string;
+  label: string;
+  // 0 = Sunday
+  weekdays: number[];
+  startHour: number;
+  endHour: number;
+}
+
+export interface DiscountBracket {
+  maxKwh: number;
+  discountPercent: number;
+}
+
+export interface TariffVersion {
+  id?: number;
+  tariffId?: number;
+  effectiveFrom: string;
+  charges: TariffCharge[];
+  timeOfUsePeriods: TimeOfUsePeriod[];
+  vatRate: number;
+  lifeline: { brackets: DiscountBracket[] } | null;
+  seniorCitizen: DiscountBracket | null;
+  notes: string | null;
+}
+
+export interface Tariff {
+  id: number;
+  code: string;
+  name: string;
+  utility: string | null;
+  customerClass: CustomerClass;
+  description: string | null;
+  isDefault: boolean;
+  isActive: boolean;
+  currentVersion: TariffVersion | null;
+  versions?: TariffVersion[];
+}
+
+export type TariffInput = Pick<Tariff, 'code' | 'name' | 'utility' | 'customerClass' | 'description' | 'isDefault'> & {
+  version: TariffVersion;
+};
+
+export interface BillLine {
+  key: string;
+  label: string;
+  component: TariffComponent;
+  unit: TariffChargeUnit;
+  period: string | null;
+  quantity: number;
+  rate: number;
+  amount: number;
+  discount: number;
+  vat: number;
+}
+
+export interface BillRequest {
+  kwh?: number;
+  kw?: number;
+  kwhByPeriod?: Record<string, number>;
+  kwByPeriod?: Record<string, number>;
+  billingDate?: string;
+  // Bill a meter's interval data instead of a monthly kWh/kW pair
+  meterId?: number;
+  from?: string;
+  to?: string;
+  lifeline?: boolean;
+  seniorCitizen?: boolean;
+}
+
+export interface Bill {
+  tariff: { id: number; code: string; name: string };
+  versionId: number;
+  effectiveFrom: string;
+  meterId?: number;
+  from?: string;
+  to?: string;
+  usage: {
+    kwh: number;
+    kw: number;
+    kwhByPeriod: Record<string, number>;
+    kwByPeriod: Record<string, number>;
+  };
+  lines: BillLine[];
+  subtotal: number;
+  discounts: { lifeline: number; seniorCitizen: number; total: number };
+  vat: number;
+  total: number;
+  averageRate: number | null;
+  // Cost of one more kWh: kWh charges with VAT, excluding demand and fixed charges
+  energyRate: number;
+  assumptions: string[];
+}
+
+/**
+ * Tariff Service
+ *
+ * Manages utility tariff schedules and prices usage against them
+ */
+const tariffService = {
+  getTariffs: async (): Promise<Tariff[]> => {
+    const response = await api.get('/tariffs');
+    return response.data;
+  },
+
+  getTariff: async (id: number): Promise<Tariff> => {
+    const response = await api.get(`/tariffs/${id}`);
+    return response.data;
+  },
+
+  createTariff: async (tariff: TariffInput): Promise<Tariff> => {
+    const response = await api.post('/tariffs', tariff);
+    return response.data;
+  },
+
+  updateTariff: async (
+    id: number,
+    changes: Partial<Pick<Tariff, 'name' | 'utility' | 'customerClass' | 'description' | 'isDefault' | 'isActive'>>
+  ): Promise<Tariff> => {
+    const response = await api.put(`/tariffs/${id}`, changes);
+    return response.data;
+  },
+
+  addVersion: async (id: number, version: TariffVersion): Promise<TariffVersion> => {
+    const response = await api.post(`/tariffs/${id}/versions`, version);
+    return response.data;
+  },
+
+  deleteVersion: async (id: number, versionId: number) => {
+    const response = await api.delete(`/tariffs/${id}/versions/${versionId}`);
+    return response.data;
+  },
+
+  calculateBill: async (id: number, request: BillRequest): Promise<Bill> => {
+    const response = await api.post(`/tariffs/${id}/calculate`, request);
+    return response.data;
+  }
+};
+
+export default tariffService;
@@ -0,0 +1,102 @@
+import api from './api';
+
+export interface UtilityBill {
+  id: number;
+  buildingId: number;
+  // Meter measuring the same service; the building's main meters are used when null
+  meterId: number | null;
+  meterName: string | null;
+  accountNumber: string;
+  periodStart: string;
+  // Last day of the billing period, inclusive
+  periodEnd: string;
+  billingDays: number;
+  kwh: number;
+  kwDemand: number | null;
+  powerFactor: number | null;
+  amount: number;
+  notes: string | null;
+  source: 'manual' | 'csv';
+}
+
+export type UtilityBillInput = Pick<
+  UtilityBill,
+  'meterId' | 'accountNumber' | 'periodStart' | 'periodEnd' | 'kwh' | 'kwDemand' | 'powerFactor' | 'amount' | 'notes'
+>;
+
+export interface BillImportResult {
+  received: number;
+  inserted: number;
+  // Rows matching or overlapping a stored bill
+  duplicates: number;
+  rejected: Array<{ row: number; reason: string }>;
+}
+
+export type BillReconciliationStatus = 'matched' | 'variance' | 'incomplete' | 'no_meter';
+
+export interface BillReconciliation {
+  bill: UtilityBill;
+  metered: {
+    meterIds: number[];
+    energyKwh: number;
+    peakDemandKw: number | null;
+    powerFactor: number | null;
+    // Share of the billing period covered by readings, 0 to 1
+    coverage: number;
+  } | null;
+  varianceKwh: number | null;
+  // (billed - metered) / billed
+  variancePercent: number | null;
+  demandVariancePercent: number | null;
+  status: BillReconciliationStatus;
+}
+
+export interface BillReconciliationReport {
+  buildingId: number;
+  tolerancePercent: number;
+  bills: BillReconciliation[];
+}
+
+/**
+ * Utility Bill Service
+ *
+ * Stores a building's electric bills and reconciles them against metered consumption
+ */
+const utilityBillService = {
+  getBills: async (buildingId: number): Promise<UtilityBill[]> => {
+    const response = await api.get('/utility-bills', { params: { buildingId } });
+    return response.data;
+  },
+
+  createBill: async (buildingId: number, bill: UtilityBillInput): Promise<UtilityBill> => {
+    const response = await api.post('/utility-bills', { ...bill, buildingId });
+    return response.data;
+  },
+
+  updateBill: async (id: number, changes: Partial<UtilityBillInput>): Promise<UtilityBill> => {
+    const response = await api.put(`/utility-bills/${id}`, changes);
+    return response.data;
+  },
+
+  deleteBill: async (id: number) => {
+    const response = await api.delete(`/utility-bills/${id}`);
+    return response.data;
+  },
+
+  uploadBills: async (buildingId: number, file: File): Promise<BillImportResult> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    const response = await api.post('/utility-bills/upload', formData, {
+      params: { buildingId },
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+    return response.data;
+  },
+
+  getReconciliation: async (buildingId: number, tolerancePercent?: number): Promise<BillReconciliationReport> => {
+    const response = await api.get('/utility-bills/reconciliation', { params: { buildingId, tolerancePercent } });
+    return response.data;
+  }
+};
+
+export default utilityBillService;
@@ -0,0 +1,81 @@
+import api from './api';
+import { Permission } from './roleService';
+
+export type WorkflowEntityType = 'audit' | 'finding';
+
+export interface WorkflowState {
+  key: string;
+  label: string;
+  description: string | null;
+  sortOrder: number;
+  isInitial: boolean;
+  isFinal: boolean;
+}
+
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  label: string;
+  // Permission needed to trigger the transition; null lets anyone who can work on the record
+  permission: Permission | null;
+  requiresComment: boolean;
+}
+
+export interface WorkflowDefinition {
+  entityType: WorkflowEntityType;
+  states: WorkflowState[];
+  transitions: WorkflowTransition[];
+}
+
+export interface WorkflowHistoryEntry {
+  id: number;
+  from: string;
+  to: string;
+  label: string;
+  comment: string | null;
+  userId: number | null;
+  user: string;
+  date: string;
+}
+
+export interface WorkflowStatus {
+  status: string;
+  availableTransitions: WorkflowTransition[];
+  history: WorkflowHistoryEntry[];
+}
+
+// Audits live under /energy-audit; findings under /findings
+const entityPath = (entityType: WorkflowEntityType, id: number | string) =>
+  entityType === 'audit' ? `/energy-audit/${id}` : `/findings/${id}`;
+
+/**
+ * Workflow Service
+ *
+ * Reads the configurable lifecycle for audits and findings and moves records between its states
+ */
+const workflowService = {
+  getDefinition: async (entityType: WorkflowEntityType): Promise<WorkflowDefinition> => {
+    const response = await api.get(`/workflows/${entityType}`);
+    return response.data;
+  },
+
+  updateDefinition: async (
+    entityType: WorkflowEntityType,
+    definition: Pick<WorkflowDefinition, 'states' | 'transitions'>
+  ): Promise<WorkflowDefinition> => {
+    const response = await api.put(`/workflows/${entityType}`, definition);
+    return response.data;
+  },
+
+  getStatus: async (entityType: WorkflowEntityType, id: number | string): Promise<WorkflowStatus> => {
+    const response = await api.get(`${entityPath(entityType, id)}/transitions`);
+    return response.data;
+  },
+
+  transition: async (entityType: WorkflowEntityType, id: number | string, toState: string, comment?: string) => {
+    const response = await api.post(`${entityPath(entityType, id)}/transitions`, { toState, comment });
+    return response.data;
+  }
+};
+
+export default workflowService;
@@ -44,7 +44,8 @@ export interface DigitalSignature {
 
 /**
  * Interface defining role-based access control permissions
- * for the energy audit system.
+ * for the energy audit system. The flags are derived from the
+ * user's permissions by the usePermissions hook.
  */
 export interface RoleBasedAccess {
   role: string;
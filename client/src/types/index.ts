@@ -51,6 +51,8 @@ export interface User {
   createdAt: Date;
   updatedAt: Date;
   lastLogin?: Date;
+  // Custom role replacing the built-in role's permissions
+  roleId?: number | null;
   permissions?: string[];
   notificationPreferences?: NotificationPreferences;
   team?: string;
@@ -97,6 +99,11 @@ export interface PasswordPolicy {
   requireLowercase: boolean;
 }
 
+export interface TwoFactorPolicy {
+  requireForAdmins: boolean;
+  requireForManagers: boolean;
+}
+
 export interface SystemSettings {
   siteName: string;
   maxUsers?: number;
@@ -113,6 +120,7 @@ export interface SystemSettings {
   defaultRole: UserRole;
   passwordPolicy: PasswordPolicy;
   maxLoginAttempts: number;
+  twoFactorPolicy: TwoFactorPolicy;
 }
 
 export interface ProfileUpdateData {
@@ -28,6 +28,10 @@ export interface Report {
   shares: ReportSharing[];
   comments_count?: number;
   unresolved_comments_count?: number;
+  audit_id?: number | null;
+  audit_title?: string;
+  rendered_at?: string | null;
+  rendered_file_size?: number | null;
 }
 
 /**
@@ -187,6 +191,175 @@ export interface ReportTemplate {
 /**
  * Report API response interfaces
  */
+/**
+ * Server-side render job; progress arrives as reportRenderProgress socket events
+ */
+export type ReportRenderStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ReportRenderJob {
+  id: number;
+  report_id: number;
+  requested_by: number | null;
+  status: ReportRenderStatus;
+  progress: number;
+  message: string | null;
+  error: string | null;
+  file_size: number | null;
+  has_file: boolean;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+/**
+ * Immutable snapshot stored on every save or publish of a report
+ */
+export interface ReportVersion {
+  id: number;
+  report_id: number;
+  version: number;
+  title: string;
+  status: ReportStatus;
+  change_note: string | null;
+  restored_from: number | null;
+  created_by: number | null;
+  created_by_name?: string | null;
+  created_at: string;
+}
+
+export interface ReportSnapshot {
+  title: string;
+  description: string | null;
+  type: ReportType;
+  status: ReportStatus;
+  contents: ReportContent[];
+  metadata: Partial<ReportMetadata>;
+}
+
+export interface ReportVersionDetail extends ReportVersion {
+  snapshot: ReportSnapshot;
+}
+
+export type ReportShareLinkStatus = 'active' | 'expired' | 'exhausted' | 'revoked';
+
+/**
+ * Tokenized link that opens a report read-only without an account
+ */
+export interface ReportShareLink {
+  id: number;
+  report_id: number;
+  label: string | null;
+  has_password: boolean;
+  expires_at: string | null;
+  max_views: number | null;
+  view_count: number;
+  failed_attempts: number;
+  locked_until: string | null;
+  last_viewed_at: string | null;
+  created_by: number | null;
+  created_by_name?: string | null;
+  created_at: string;
+  revoked_at: string | null;
+  revoked_by: number | null;
+  status: ReportShareLinkStatus;
+}
+
+export type ReportShareLinkAction =
+  | 'REPORT_LINK_CREATED'
+  | 'REPORT_LINK_REVOKED'
+  | 'REPORT_LINK_VIEWED'
+  | 'REPORT_LINK_DENIED'
+  | 'REPORT_LINK_PASSWORD_FAILED';
+
+/**
+ * Share link entry of the audit log; anonymous viewers are identified by address and browser
+ */
+export interface ReportShareLinkEvent {
+  id: number;
+  user_id: number | null;
+  username: string | null;
+  action: ReportShareLinkAction;
+  details: {
+    linkId: number;
+    label: string | null;
+    ip?: string | null;
+    userAgent?: string | null;
+    reason?: string;
+    [key: string]: unknown;
+  };
+  created_at: string;
+}
+
+export interface ReportShareLinkInput {
+  label?: string;
+  password?: string;
+  expires_at?: string;
+  max_views?: number;
+}
+
+/**
+ * What a share link tells about itself before it is opened
+ */
+export interface SharedReportInfo {
+  title: string | null;
+  requires_password: boolean;
+  expires_at: string | null;
+  views_remaining: number | null;
+}
+
+/**
+ * Report as seen through a share link
+ */
+export type SharedReport = Pick<
+  Report,
+  'title' | 'description' | 'type' | 'status' | 'version' | 'created_at' | 'updated_at' | 'contents' | 'metadata'
+>;
+
+/**
+ * A manager's sign-off on a report, checked against the report's current content
+ */
+export interface ReportSignature {
+  id: number;
+  report_id: number;
+  report_version: number | null;
+  content_hash: string;
+  signer_id: number | null;
+  signer_name: string;
+  signer_role: string;
+  signature_image: string | null;
+  comments: string | null;
+  verification_code: string;
+  signed_at: string;
+  // The signature record has not been altered since it was written
+  seal_valid: boolean;
+  // The report still has the content that was signed
+  content_matches: boolean;
+  verification_url: string;
+  // PNG data URL of a QR code for verification_url
+  qr_code: string;
+}
+
+export interface ReportSignatureStatus {
+  signatures: ReportSignature[];
+  content_hash: string;
+  modified_after_signing: boolean;
+}
+
+/**
+ * Result of checking a signature from the code on an exported report
+ */
+export interface SignatureVerification {
+  valid: boolean;
+  seal_valid: boolean;
+  content_matches: boolean;
+  report_title: string | null;
+  report_version: number | null;
+  content_hash: string;
+  signer_name: string;
+  signer_role: string;
+  signed_at: string;
+}
+
 export interface ReportApiResponse {
   success: boolean;
   message?: string;
@@ -0,0 +1,216 @@
+import { Packer } from 'docx';
+import JSZip from 'jszip';
+import Chart from 'chart.js/auto';
+import { DOCXExporter } from '../docxExporter';
+import { Report, ReportContentType } from '../../types/reports';
+
+jest.mock('chart.js/auto', () => jest.fn());
+
+describe('DOCXExporter', () => {
+  // Sample report for testing
+  const mockReport: Report = {
+    id: 1,
+    title: 'Test Report',
+    description: 'Test description',
+    type: 'energy_audit',
+    status: 'published',
+    created_at: '2023-01-01T00:00:00Z',
+    updated_at: '2023-01-02T00:00:00Z',
+    created_by: 1,
+    is_template: false,
+    is_public: false,
+    version: 1,
+    contents: [
+      {
+        id: 1,
+        report_id: 1,
+        content_type: 'text',
+        order_index: 0,
+        content: {
+          text: 'Sample text content',
+          isHtml: false
+        }
+      },
+      {
+        id: 2,
+        report_id: 1,
+        content_type: 'section_header',
+        order_index: 1,
+        content: {
+          title: 'Sample Section',
+          level: 2
+        }
+      },
+      {
+        id: 3,
+        report_id: 1,
+        content_type: 'table',
+        order_index: 2,
+        content: {
+          caption: 'Sample Table',
+          headers: ['Header 1', 'Header 2'],
+          rows: [
+            ['Cell 1', 'Cell 2'],
+            ['Cell 3', 'Cell 4']
+          ]
+        }
+      }
+    ],
+    metadata: {
+      client_name: 'Test Client',
+      facility_name: 'Test Facility',
+      audit_date: '2023-01-01',
+      auditor_name: 'Test Auditor',
+      executive_summary: 'This is a test executive summary',
+      include_toc: false,
+      include_appendices: false
+    },
+    public_link: null,
+    shares: []
+  };
+
+  // Capture the document handed to the packer and return its main XML part
+  const generateDocumentXml = async (report: Report): Promise<string> => {
+    const toBlob = jest.spyOn(Packer, 'toBlob');
+    await DOCXExporter.generateDOCX(report);
+    const buffer = await Packer.toBuffer(toBlob.mock.calls[0][0]);
+    toBlob.mockRestore();
+    const zip = await JSZip.loadAsync(buffer);
+    return zip.file('word/document.xml')!.async('string');
+  };
+
+  beforeEach(() => {
+    // jsdom has no canvas, so charts fall back to a note
+    (Chart as unknown as jest.Mock).mockImplementation(() => {
+      throw new Error('Canvas is not available');
+    });
+    global.fetch = jest.fn().mockResolvedValue({ ok: false }) as jest.Mock;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should generate a DOCX successfully', async () => {
+    const result = await DOCXExporter.generateDOCX(mockReport);
+
+    expect(result).toBeInstanceOf(Blob);
+    expect(result.size).toBeGreaterThan(0);
+  });
+
+  it('should put report metadata on the cover page', async () => {
+    const xml = await generateDocumentXml(mockReport);
+
+    expect(xml).toContain('Test Client');
+    expect(xml).toContain('Test Facility');
+    expect(xml).toContain('Test Auditor');
+    expect(xml).toContain('Executive Summary');
+    expect(xml).toContain('This is a test executive summary');
+  });
+
+  it('should map section headers to heading styles and tables to Word tables', async () => {
+    const xml = await generateDocumentXml(mockReport);
+
+    expect(xml).toContain('<w:pStyle w:val="Heading2"/>');
+    expect(xml).toContain('<w:tblHeader/>');
+    expect(xml).toContain('Cell 4');
+  });
+
+  it('should add a Word TOC field when the metadata asks for one', async () => {
+    const xml = await generateDocumentXml({
+      ...mockReport,
+      metadata: { ...mockReport.metadata!, include_toc: true }
+    });
+
+    expect(xml).toContain('TOC \\h \\o &quot;1-3&quot;');
+  });
+
+  it('should handle errors during DOCX generation', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(Packer, 'toBlob').mockRejectedValueOnce(new Error('Test error'));
+
+    await expect(DOCXExporter.generateDOCX(mockReport)).rejects.toThrow('Failed to generate DOCX');
+  });
+
+  it('should render all content types', async () => {
+    const fullContentReport: Report = {
+      ...mockReport,
+      contents: [
+        {
+          id: 1,
+          report_id: 1,
+          content_type: 'toc',
+          order_index: 0,
+          content: {
+            title: 'Contents',
+            maxDepth: 2
+          }
+        },
+        {
+          id: 2,
+          report_id: 1,
+          content_type: 'text',
+          order_index: 1,
+          content: {
+            text: '<p>Sample <strong>HTML</strong> content</p><ol><li>First</li><li>Second</li></ol>',
+            isHtml: true
+          }
+        },
+        {
+          id: 3,
+          report_id: 1,
+          content_type: 'image',
+          order_index: 2,
+          content: {
+            url: 'https://example.com/image.jpg',
+            caption: 'Sample Image',
+            altText: 'Alt text',
+            width: 300,
+            height: 200
+          }
+        },
+        {
+          id: 4,
+          report_id: 1,
+          content_type: 'chart',
+          order_index: 3,
+          content: {
+            chartType: 'bar',
+            caption: 'Sample Chart',
+            data: {},
+            options: {},
+            height: 300
+          }
+        },
+        {
+          id: 5,
+          report_id: 1,
+          content_type: 'page_break',
+          order_index: 4,
+          content: {
+            type: 'page'
+          }
+        },
+        {
+          id: 6,
+          report_id: 1,
+          content_type: 'custom' as ReportContentType,
+          order_index: 5,
+          content: {}
+        }
+      ]
+    };
+
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const xml = await generateDocumentXml(fullContentReport);
+
+    expect(xml).toContain('TOC \\h \\o &quot;1-2&quot;');
+    expect(xml).toContain('<w:b/>');
+    expect(xml).toContain('<w:numPr>');
+    expect(xml).toContain('Sample Image');
+    expect(xml).toContain('(Chart could not be rendered)');
+    expect(xml).toContain('<w:br w:type="page"/>');
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Unsupported content type'));
+  });
+});
@@ -0,0 +1,35 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import { getErrorMessage } from '../errorMessages';
+
+describe('getErrorMessage', () => {
+  const requestError = (data: unknown) => {
+    const config = { headers: new AxiosHeaders() };
+    return new AxiosError('Request failed with status code 409', 'ERR_BAD_REQUEST', config, null, {
+      data,
+      status: 409,
+      statusText: 'Conflict',
+      headers: {},
+      config
+    });
+  };
+
+  it('uses the message the server sent', () => {
+    expect(getErrorMessage(requestError({ message: 'Link has expired' }), 'Failed')).toBe('Link has expired');
+  });
+
+  it('falls back instead of showing the generic axios message', () => {
+    expect(getErrorMessage(requestError({}), 'Failed to load links')).toBe('Failed to load links');
+  });
+
+  it('reads the server message through errors from the shared api instance', () => {
+    const wrapped = Object.assign(new Error('Link has expired'), {
+      originalError: requestError({ message: 'Link has expired' })
+    });
+    expect(getErrorMessage(wrapped, 'Failed')).toBe('Link has expired');
+  });
+
+  it('keeps the message of errors thrown by services', () => {
+    expect(getErrorMessage(new Error('Failed to create share link'), 'Failed')).toBe('Failed to create share link');
+    expect(getErrorMessage('boom', 'Failed')).toBe('Failed');
+  });
+});
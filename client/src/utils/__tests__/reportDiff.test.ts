@@ -0,0 +1,107 @@
+import { diffReports, diffTableCells } from '../reportDiff';
+import { ReportContent, ReportSnapshot } from '../../types/reports';
+
+describe('reportDiff', () => {
+  const header = (title: string, order_index: number): ReportContent => ({
+    content_type: 'section_header',
+    order_index,
+    content: { title, level: 1 }
+  });
+
+  const text = (value: string, order_index: number): ReportContent => ({
+    content_type: 'text',
+    order_index,
+    content: { text: value, isHtml: false }
+  });
+
+  const table = (rows: string[][], order_index: number, headers = ['Item', 'kWh']): ReportContent => ({
+    content_type: 'table',
+    order_index,
+    content: { headers, rows }
+  });
+
+  const snapshot = (contents: ReportContent[], overrides: Partial<ReportSnapshot> = {}): ReportSnapshot => ({
+    title: 'Audit Report',
+    description: null,
+    type: 'energy_audit',
+    status: 'draft',
+    contents,
+    metadata: { client_name: 'Acme' },
+    ...overrides
+  });
+
+  it('should report no changes for identical versions', () => {
+    const contents = [header('Intro', 0), text('Hello', 1)];
+    const diff = diffReports(snapshot(contents), snapshot(contents));
+
+    expect(diff.fields).toEqual([]);
+    expect(diff.blocks.map(block => block.status)).toEqual(['unchanged', 'unchanged']);
+    expect(diff.summary).toEqual({ added: 0, removed: 0, changed: 0 });
+  });
+
+  it('should ignore key order inside content', () => {
+    const before = snapshot([{ content_type: 'text', order_index: 0, content: { text: 'A', isHtml: false } }]);
+    const after = snapshot([{ content_type: 'text', order_index: 0, content: { isHtml: false, text: 'A' } }]);
+
+    expect(diffReports(before, after).blocks[0].status).toBe('unchanged');
+  });
+
+  it('should detect added, removed and changed blocks', () => {
+    const before = snapshot([header('Intro', 0), text('Old findings', 1), text('Appendix', 2)]);
+    const after = snapshot([header('Intro', 0), text('New findings', 1), header('Savings', 2)]);
+
+    const diff = diffReports(before, after);
+
+    expect(diff.blocks.map(block => block.status)).toEqual(['unchanged', 'changed', 'removed', 'added']);
+    expect(diff.blocks[1].before?.content.text).toBe('Old findings');
+    expect(diff.blocks[1].after?.content.text).toBe('New findings');
+    expect(diff.summary).toEqual({ added: 1, removed: 1, changed: 1 });
+  });
+
+  it('should follow order_index rather than array order', () => {
+    const before = snapshot([text('B', 1), text('A', 0)]);
+    const after = snapshot([text('A', 0), text('B', 1)]);
+
+    expect(diffReports(before, after).blocks.every(block => block.status === 'unchanged')).toBe(true);
+  });
+
+  it('should highlight changed table cells', () => {
+    const before = table([['Lighting', '120'], ['HVAC', '300']], 0);
+    const after = table([['Lighting', '95'], ['HVAC', '300'], ['Pumps', '40']], 0);
+
+    const diff = diffReports(snapshot([before]), snapshot([after]));
+
+    expect(diff.blocks[0].status).toBe('changed');
+    expect(diff.blocks[0].cells).toEqual(diffTableCells(before, after));
+    expect(diff.blocks[0].cells?.after).toEqual([
+      ['unchanged', 'unchanged'],
+      ['unchanged', 'changed'],
+      ['unchanged', 'unchanged'],
+      ['added', 'added']
+    ]);
+    expect(diff.blocks[0].cells?.before[1]).toEqual(['unchanged', 'changed']);
+  });
+
+  it('should mark cells of removed columns', () => {
+    const cells = diffTableCells(
+      table([['Lighting', '120']], 0, ['Item', 'kWh']),
+      table([['Lighting']], 0, ['Item'])
+    );
+
+    expect(cells.before).toEqual([['unchanged', 'removed'], ['unchanged', 'removed']]);
+    expect(cells.after).toEqual([['unchanged'], ['unchanged']]);
+  });
+
+  it('should list changed fields and metadata', () => {
+    const diff = diffReports(
+      snapshot([], { status: 'draft' }),
+      snapshot([], { status: 'published', metadata: { client_name: 'Acme Corp', project_number: 'P-7' } })
+    );
+
+    expect(diff.fields).toEqual([
+      { field: 'status', label: 'Status', before: 'draft', after: 'published' },
+      { field: 'metadata.client_name', label: 'Client name', before: 'Acme', after: 'Acme Corp' },
+      { field: 'metadata.project_number', label: 'Project number', before: '', after: 'P-7' }
+    ]);
+  });
+});
@@ -0,0 +1,634 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  Header,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  Packer,
+  PageBreak,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableOfContents,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx';
+import Chart from 'chart.js/auto';
+import { ChartTypeRegistry } from 'chart.js';
+import {
+  Report,
+  ReportContent,
+  ChartReportContent,
+  TableReportContent,
+  TextReportContent,
+  ImageReportContent,
+  SectionHeaderReportContent,
+  TocReportContent
+} from '../types/reports';
+
+type FileChild = Paragraph | Table | TableOfContents;
+type DocxImageType = 'png' | 'jpg' | 'gif' | 'bmp';
+
+interface LoadedImage {
+  data: Uint8Array;
+  type: DocxImageType;
+  width: number;
+  height: number;
+}
+
+interface RunFormat {
+  bold?: boolean;
+  italics?: boolean;
+  underline?: boolean;
+}
+
+/**
+ * Utility for exporting reports to editable Word (DOCX) documents
+ */
+export class DOCXExporter {
+  // Same palette as the PDF export
+  private static readonly BRAND_COLOR = '142864';
+  private static readonly TABLE_HEADER_COLOR = '3C82C8';
+  private static readonly MUTED_COLOR = '646464';
+  private static readonly FONT = 'Calibri';
+  // Usable width of an A4 page with 1 inch margins, in pixels at 96 dpi
+  private static readonly CONTENT_WIDTH_PX = 600;
+  private static readonly NUMBERED_LIST = 'report-numbered-list';
+
+  private static readonly HEADING_LEVELS = [
+    HeadingLevel.HEADING_1,
+    HeadingLevel.HEADING_2,
+    HeadingLevel.HEADING_3,
+    HeadingLevel.HEADING_4,
+    HeadingLevel.HEADING_5,
+    HeadingLevel.HEADING_6
+  ];
+
+  /**
+   * Generate a Word document from a report
+   * @param report The report to export
+   * @returns Promise with the generated DOCX as Blob
+   */
+  static async generateDOCX(report: Report): Promise<Blob> {
+    try {
+      const sortedContents = [...(report.contents || [])].sort((a, b) => a.order_index - b.order_index);
+      const body: FileChild[] = [];
+
+      // A report without its own TOC block gets one up front when the metadata asks for it
+      if (report.metadata?.include_toc && !sortedContents.some(content => content.content_type === 'toc')) {
+        body.push(...this.renderTableOfContents({ title: 'Table of Contents' }), this.pageBreak());
+      }
+
+      let numberedListCount = 0;
+      const nextListInstance = () => ++numberedListCount;
+      for (const content of sortedContents) {
+        const rendered = await this.renderContent(content, nextListInstance);
+        body.push(...rendered);
+      }
+
+      const doc = new Document({
+        title: report.title,
+        description: report.description,
+        creator: report.metadata?.auditor_name || 'Energy Audit Platform',
+        subject: 'Energy Audit Report',
+        keywords: 'energy, audit, report',
+        // Word fills in the table of contents and page numbers when the file is opened
+        features: { updateFields: true },
+        styles: this.getStyles(),
+        numbering: {
+          config: [{
+            reference: this.NUMBERED_LIST,
+            levels: [0, 1, 2].map(level => ({
+              level,
+              format: LevelFormat.DECIMAL,
+              text: `%${level + 1}.`,
+              alignment: AlignmentType.START,
+              style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } }
+            }))
+          }]
+        },
+        sections: [
+          {
+            children: await this.renderCoverPage(report)
+          },
+          {
+            properties: { page: { pageNumbers: { start: 1 } } },
+            headers: { default: this.createHeader(report) },
+            footers: { default: this.createFooter() },
+            children: body.length > 0 ? body : [new Paragraph('')]
+          }
+        ]
+      });
+
+      return await Packer.toBlob(doc);
+    } catch (error) {
+      console.error('Error generating DOCX:', error);
+      throw new Error('Failed to generate DOCX');
+    }
+  }
+
+  /**
+   * Heading, title and body styles so the document looks branded and Word's style pane works
+   */
+  private static getStyles() {
+    const heading = (size: number, color: string = this.BRAND_COLOR) => ({
+      run: { font: this.FONT, size, bold: true, color },
+      paragraph: { spacing: { before: 240, after: 120 }, keepNext: true }
+    });
+
+    return {
+      default: {
+        document: { run: { font: this.FONT, size: 22 }, paragraph: { spacing: { after: 120 } } },
+        title: { run: { font: this.FONT, size: 56, bold: true, color: this.BRAND_COLOR }, paragraph: { spacing: { after: 240 } } },
+        heading1: heading(36),
+        heading2: heading(30, '283C78'),
+        heading3: heading(26, '3C508C'),
+        heading4: heading(24, '5064A0'),
+        heading5: heading(22, '5064A0'),
+        heading6: heading(22, '5064A0')
+      }
+    };
+  }
+
+  /**
+   * Build the cover page from the report metadata: logo, title, client and facility details,
+   * cover image and executive summary
+   */
+  private static async renderCoverPage(report: Report): Promise<FileChild[]> {
+    const metadata = report.metadata;
+    const children: FileChild[] = [];
+
+    if (metadata?.company_logo) {
+      const logo = await this.loadImage(metadata.company_logo);
+      if (logo) {
+        children.push(new Paragraph({
+          alignment: AlignmentType.RIGHT,
+          children: [this.createImageRun(logo, 200, 60, 'Company logo')]
+        }));
+      }
+    }
+
+    children.push(
+      new Paragraph({ spacing: { before: 1200 } }),
+      new Paragraph({ heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER, text: report.title })
+    );
+
+    if (report.description) {
+      children.push(new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [new TextRun({ text: report.description, size: 28, color: this.MUTED_COLOR })]
+      }));
+    }
+
+    // Brand rule under the title
+    children.push(new Paragraph({
+      spacing: { after: 360 },
+      border: { bottom: { style: BorderStyle.SINGLE, size: 12, color: this.BRAND_COLOR, space: 1 } }
+    }));
+
+    if (metadata?.cover_image) {
+      const cover = await this.loadImage(metadata.cover_image);
+      if (cover) {
+        children.push(new Paragraph({
+          alignment: AlignmentType.CENTER,
+          spacing: { after: 360 },
+          children: [this.createImageRun(cover, 480, 300, 'Cover image')]
+        }));
+      }
+    }
+
+    const details: [string, string | undefined][] = [
+      ['Client', metadata?.client_name],
+      ['Facility', metadata?.facility_name],
+      ['Audit', report.audit_title],
+      ['Audit Date', metadata?.audit_date ? new Date(metadata.audit_date).toLocaleDateString() : undefined],
+      ['Auditor', metadata?.auditor_name],
+      ['Project Number', metadata?.project_number],
+      ...Object.entries(metadata?.custom_fields || {}) as [string, string][]
+    ];
+    const rows = details.filter(([, value]) => value);
+    if (rows.length > 0) {
+      children.push(this.createDetailsTable(rows as [string, string][]));
+    }
+
+    if (metadata?.executive_summary) {
+      children.push(
+        new Paragraph({
+          spacing: { before: 480, after: 120 },
+          children: [new TextRun({ text: 'Executive Summary', bold: true, size: 28, color: this.BRAND_COLOR })]
+        }),
+        ...this.textToParagraphs(metadata.executive_summary)
+      );
+    }
+
+    const company = [metadata?.company_address, metadata?.company_contact, metadata?.company_website].filter(Boolean).join('  |  ');
+    children.push(new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { before: 720 },
+      children: [
+        ...(company ? [new TextRun({ text: company, size: 18, color: this.MUTED_COLOR })] : []),
+        new TextRun({ text: `Generated on ${new Date().toLocaleDateString()}`, size: 18, color: this.MUTED_COLOR, break: company ? 1 : undefined })
+      ]
+    }));
+
+    return children;
+  }
+
+  /**
+   * Borderless two-column table of cover page details
+   */
+  private static createDetailsTable(rows: [string, string][]): Table {
+    const none = { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' };
+    const borders = { top: none, bottom: none, left: none, right: none, insideHorizontal: none, insideVertical: none };
+
+    return new Table({
+      width: { size: 70, type: WidthType.PERCENTAGE },
+      alignment: AlignmentType.CENTER,
+      borders,
+      rows: rows.map(([label, value]) => new TableRow({
+        children: [
+          new TableCell({
+            width: { size: 35, type: WidthType.PERCENTAGE },
+            borders,
+            children: [new Paragraph({ children: [new TextRun({ text: `${label}:`, bold: true, color: this.BRAND_COLOR })] })]
+          }),
+          new TableCell({
+            width: { size: 65, type: WidthType.PERCENTAGE },
+            borders,
+            children: [new Paragraph(value)]
+          })
+        ]
+      }))
+    });
+  }
+
+  private static createHeader(report: Report): Header {
+    return new Header({
+      children: [new Paragraph({
+        alignment: AlignmentType.RIGHT,
+        children: [new TextRun({ text: report.title, size: 16, color: this.MUTED_COLOR })]
+      })]
+    });
+  }
+
+  private static createFooter(): Footer {
+    return new Footer({
+      children: [new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [
+          new TextRun({ children: ['Page ', PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES_IN_SECTION], size: 18, color: this.MUTED_COLOR })
+        ]
+      })]
+    });
+  }
+
+  /**
+   * Render content to Word elements based on content type
+   * @param content Report content
+   * @param nextListInstance Returns a new numbering instance so each numbered list starts at 1
+   */
+  private static async renderContent(content: ReportContent, nextListInstance: () => number): Promise<FileChild[]> {
+    try {
+      switch (content.content_type) {
+        case 'section_header':
+          return [this.renderSectionHeader(content as SectionHeaderReportContent)];
+
+        case 'text': {
+          const { text = '', isHtml } = (content as TextReportContent).content;
+          // Older text blocks hold editor HTML without the isHtml flag
+          return isHtml || /<\/?[a-z][^>]*>/i.test(text)
+            ? this.htmlToParagraphs(text, nextListInstance)
+            : this.textToParagraphs(text);
+        }
+
+        case 'table':
+          return this.renderTableContent(content as TableReportContent);
+
+        case 'chart':
+          return await this.renderChartContent(content as ChartReportContent);
+
+        case 'image':
+          return await this.renderImageContent(content as ImageReportContent);
+
+        case 'toc':
+          return this.renderTableOfContents((content as TocReportContent).content);
+
+        case 'page_break':
+          return [this.pageBreak()];
+
+        default:
+          console.warn(`Unsupported content type: ${content.content_type}`);
+          return [];
+      }
+    } catch (error) {
+      console.error(`Error rendering content (${content.content_type}) to DOCX:`, error);
+      return [];
+    }
+  }
+
+  private static renderSectionHeader(content: SectionHeaderReportContent): Paragraph {
+    const level = Math.min(Math.max(Number(content.content.level) || 1, 1), 6);
+    return new Paragraph({ heading: this.HEADING_LEVELS[level - 1], text: content.content.title });
+  }
+
+  /**
+   * A real TOC field built from the heading styles; Word fills in its entries and page numbers
+   */
+  private static renderTableOfContents(content: TocReportContent['content']): FileChild[] {
+    const depth = Math.min(Math.max(Number(content.maxDepth) || 3, 1), 6);
+    return [
+      new Paragraph({
+        spacing: { after: 240 },
+        children: [new TextRun({ text: content.title || 'Table of Contents', bold: true, size: 32, color: this.BRAND_COLOR })]
+      }),
+      new TableOfContents(content.title || 'Table of Contents', {
+        hyperlink: true,
+        headingStyleRange: `1-${depth}`
+      })
+    ];
+  }
+
+  private static pageBreak(): Paragraph {
+    return new Paragraph({ children: [new PageBreak()] });
+  }
+
+  /**
+   * Plain text: blank lines separate paragraphs, single line breaks are kept
+   */
+  private static textToParagraphs(text: string): Paragraph[] {
+    return text.split(/\n\s*\n/).filter(block => block.trim()).map(block => new Paragraph({
+      children: block.split('\n').map((line, index) => new TextRun({ text: line, break: index > 0 ? 1 : undefined }))
+    }));
+  }
+
+  /**
+   * Convert the rich text editor's HTML to paragraphs, keeping bold, italics, underline,
+   * headings and lists as Word formatting
+   */
+  private static htmlToParagraphs(html: string, nextListInstance: () => number): Paragraph[] {
+    const body = new DOMParser().parseFromString(html, 'text/html').body;
+    const paragraphs: Paragraph[] = [];
+    let inlineRuns: TextRun[] = [];
+
+    const flushInline = () => {
+      if (inlineRuns.length > 0) {
+        paragraphs.push(new Paragraph({ children: inlineRuns }));
+        inlineRuns = [];
+      }
+    };
+
+    const addList = (list: Element, level: number) => {
+      const numbered = list.tagName === 'OL';
+      const instance = numbered ? nextListInstance() : 0;
+      Array.from(list.children).forEach(item => {
+        if (item.tagName !== 'LI') return;
+        const nested = Array.from(item.children).filter(child => child.tagName === 'UL' || child.tagName === 'OL');
+        const runs = Array.from(item.childNodes)
+          .filter(child => !nested.includes(child as Element))
+          .flatMap(child => this.collectRuns(child, {}));
+        paragraphs.push(new Paragraph({
+          children: runs,
+          ...(numbered
+            ? { numbering: { reference: this.NUMBERED_LIST, level: Math.min(level, 2), instance } }
+            : { bullet: { level: Math.min(level, 2) } })
+        }));
+        nested.forEach(child => addList(child, level + 1));
+      });
+    };
+
+    Array.from(body.childNodes).forEach(node => {
+      const element = node.nodeType === Node.ELEMENT_NODE ? node as Element : null;
+      const tag = element?.tagName;
+
+      if (tag === 'UL' || tag === 'OL') {
+        flushInline();
+        addList(element!, 0);
+      } else if (tag && /^H[1-6]$/.test(tag)) {
+        flushInline();
+        paragraphs.push(new Paragraph({
+          heading: this.HEADING_LEVELS[Number(tag[1]) - 1],
+          children: this.collectRuns(element!, {})
+        }));
+      } else if (tag === 'P' || tag === 'DIV' || tag === 'BLOCKQUOTE') {
+        flushInline();
+        paragraphs.push(new Paragraph({
+          children: this.collectRuns(element!, {}),
+          ...(tag === 'BLOCKQUOTE' ? { indent: { left: 720 } } : {})
+        }));
+      } else {
+        inlineRuns.push(...this.collectRuns(node, {}));
+      }
+    });
+    flushInline();
+
+    return paragraphs;
+  }
+
+  private static collectRuns(node: Node, format: RunFormat): TextRun[] {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = (node.textContent || '').replace(/\s+/g, ' ');
+      return text
+        ? [new TextRun({ text, bold: format.bold || undefined, italics: format.italics || undefined, underline: format.underline ? {} : undefined })]
+        : [];
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return [];
+    }
+
+    const tag = (node as Element).tagName;
+    if (tag === 'BR') {
+      return [new TextRun({ text: '', break: 1 })];
+    }
+    const childFormat: RunFormat = {
+      bold: format.bold || tag === 'B' || tag === 'STRONG',
+      italics: format.italics || tag === 'I' || tag === 'EM',
+      underline: format.underline || tag === 'U'
+    };
+    return Array.from(node.childNodes).flatMap(child => this.collectRuns(child, childFormat));
+  }
+
+  /**
+   * Render table content as a native Word table whose header row repeats on each page
+   */
+  private static renderTableContent(content: TableReportContent): FileChild[] {
+    const { headers = [], rows = [], caption } = content.content;
+    const columnCount = Math.max(headers.length, ...rows.map(row => row.length), 1);
+    const cellMargins = { top: 60, bottom: 60, left: 100, right: 100 };
+    const cellText = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+    const headerRow = new TableRow({
+      tableHeader: true,
+      children: Array.from({ length: columnCount }, (_, i) => new TableCell({
+        margins: cellMargins,
+        shading: { type: ShadingType.CLEAR, fill: this.TABLE_HEADER_COLOR, color: 'auto' },
+        children: [new Paragraph({ children: [new TextRun({ text: cellText(headers[i]), bold: true, color: 'FFFFFF' })] })]
+      }))
+    });
+
+    const bodyRows = rows.map(row => new TableRow({
+      children: Array.from({ length: columnCount }, (_, i) => new TableCell({
+        margins: cellMargins,
+        children: [new Paragraph(cellText(row[i]))]
+      }))
+    }));
+
+    const elements: FileChild[] = [];
+    if (caption) {
+      elements.push(new Paragraph({ keepNext: true, children: [new TextRun({ text: caption, bold: true })] }));
+    }
+    elements.push(
+      new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows: [headerRow, ...bodyRows] }),
+      new Paragraph('')
+    );
+    return elements;
+  }
+
+  /**
+   * Render the chart off-screen with Chart.js and embed it as a picture
+   */
+  private static async renderChartContent(content: ChartReportContent): Promise<FileChild[]> {
+    const chartContent = content.content;
+    const image = this.renderChartImage(chartContent);
+
+    const elements: FileChild[] = [image
+      ? new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [this.createImageRun(image, this.CONTENT_WIDTH_PX, image.height, chartContent.caption || 'Chart')]
+      })
+      : new Paragraph({ children: [new TextRun({ text: '(Chart could not be rendered)', italics: true, color: this.MUTED_COLOR })] })
+    ];
+    if (chartContent.caption) {
+      elements.push(this.createCaption(chartContent.caption));
+    }
+    return elements;
+  }
+
+  private static renderChartImage(chartContent: ChartReportContent['content']): LoadedImage | null {
+    const width = this.CONTENT_WIDTH_PX * 2;
+    const height = Math.round((chartContent.height || 300) * 2);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    let chart: Chart | null = null;
+    try {
+      chart = new Chart(canvas, {
+        type: chartContent.chartType as keyof ChartTypeRegistry,
+        data: chartContent.data,
+        options: { ...chartContent.options, responsive: false, animation: false, devicePixelRatio: 1 }
+      });
+      const dataUrl = canvas.toDataURL('image/png');
+      const data = this.dataUrlToBytes(dataUrl);
+      return data ? { data, type: 'png', width: width / 2, height: height / 2 } : null;
+    } catch (error) {
+      console.warn('Failed to render chart for DOCX', error);
+      return null;
+    } finally {
+      chart?.destroy();
+    }
+  }
+
+  private static async renderImageContent(content: ImageReportContent): Promise<FileChild[]> {
+    const imageContent = content.content;
+    const image = await this.loadImage(imageContent.url);
+
+    const elements: FileChild[] = [image
+      ? new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [this.createImageRun(
+          image,
+          imageContent.width || this.CONTENT_WIDTH_PX,
+          imageContent.height || image.height,
+          imageContent.altText || imageContent.caption || 'Report image'
+        )]
+      })
+      : new Paragraph({ children: [new TextRun({ text: '(Image could not be loaded)', italics: true, color: this.MUTED_COLOR })] })
+    ];
+    if (imageContent.caption) {
+      elements.push(this.createCaption(imageContent.caption));
+    }
+    return elements;
+  }
+
+  private static createCaption(caption: string): Paragraph {
+    return new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { after: 240 },
+      children: [new TextRun({ text: caption, italics: true, size: 20, color: this.MUTED_COLOR })]
+    });
+  }
+
+  /**
+   * Scale an image to fit the given box, and the page width, keeping its aspect ratio
+   */
+  private static createImageRun(image: LoadedImage, maxWidth: number, maxHeight: number, name: string): ImageRun {
+    const scale = Math.min(1, Math.min(maxWidth, this.CONTENT_WIDTH_PX) / image.width, maxHeight / image.height);
+    return new ImageRun({
+      type: image.type,
+      data: image.data,
+      transformation: { width: Math.round(image.width * scale), height: Math.round(image.height * scale) },
+      altText: { name, title: name, description: name }
+    });
+  }
+
+  private static dataUrlToBytes(dataUrl: string): Uint8Array | null {
+    const base64 = dataUrl.split(',')[1];
+    if (!base64) return null;
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  // Word embeds PNG, JPEG, GIF and BMP; the type is read from the file itself
+  private static detectImageType(bytes: Uint8Array): DocxImageType | null {
+    if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'png';
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpg';
+    if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) return 'gif';
+    if (bytes[0] === 0x42 && bytes[1] === 0x4d) return 'bmp';
+    return null;
+  }
+
+  /**
+   * Fetch an image (URL or data URL) with its pixel size
+   */
+  private static async loadImage(url: string): Promise<LoadedImage | null> {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) return null;
+      const data = new Uint8Array(await response.arrayBuffer());
+      const type = this.detectImageType(data);
+      if (!type) return null;
+
+      const size = await this.getImageSize(new Blob([data]));
+      return { data, type, ...size };
+    } catch (error) {
+      console.warn(`Failed to load image for DOCX: ${url}`, error);
+      return null;
+    }
+  }
+
+  private static getImageSize(blob: Blob): Promise<{ width: number; height: number }> {
+    return new Promise((resolve, reject) => {
+      const objectUrl = URL.createObjectURL(blob);
+      const img = new Image();
+      img.onload = () => {
+        URL.revokeObjectURL(objectUrl);
+        resolve({ width: img.naturalWidth || this.CONTENT_WIDTH_PX, height: img.naturalHeight || 300 });
+      };
+      img.onerror = () => {
+        URL.revokeObjectURL(objectUrl);
+        reject(new Error('Image could not be decoded'));
+      };
+      img.src = objectUrl;
+    });
+  }
+}
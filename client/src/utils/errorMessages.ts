@@ -0,0 +1,14 @@
+import axios from 'axios';
+
+/**
+ * Message to show for a failed request: the server's message when it sent one, otherwise the
+ * fallback. Errors thrown by services with their own message keep that message.
+ */
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  // The shared api instance rejects with an error wrapping the original axios error
+  const requestError = (error as { originalError?: unknown } | null)?.originalError ?? error;
+  if (axios.isAxiosError<{ message?: string }>(requestError)) {
+    return requestError.response?.data?.message || fallback;
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+};
@@ -1,6 +1,6 @@
 import { jsPDF } from 'jspdf';
 import 'jspdf-autotable';
-import { Report, ReportContent, ChartReportContent, TableReportContent, TextReportContent, ImageReportContent } from '../types/reports';
+import { Report, ReportContent, ChartReportContent, TableReportContent, TextReportContent, ImageReportContent, ReportSignature } from '../types/reports';
 
 /**
  * Utility for exporting reports to PDF format
@@ -11,13 +11,15 @@ export class PDFExporter {
   private static readonly PAGE_HEIGHT = 297; // A4 height in mm
   private static readonly MARGIN = 20; // margin in mm
   private static readonly CONTENT_WIDTH = 170; // width of content area in mm
+  private static readonly QR_SIZE = 28; // verification QR code size in mm
 
   /**
    * Generate a PDF document from a report
    * @param report The report to export
+   * @param signatures Signatures to print in a verification block after the content
    * @returns Promise with the generated PDF as Blob
    */
-  static async generatePDF(report: Report): Promise<Blob> {
+  static async generatePDF(report: Report, signatures: ReportSignature[] = []): Promise<Blob> {
     // Create new PDF document
     const doc = new jsPDF({
       orientation: 'portrait',
@@ -56,6 +58,10 @@ export class PDFExporter {
         }
       }
 
+      if (signatures.length > 0) {
+        this.addSignatures(doc, signatures, yPos);
+      }
+
       // Add page numbers
       this.addPageNumbers(doc);
       
@@ -202,6 +208,82 @@ export class PDFExporter {
     }
   }
   
+  /**
+   * Add the verification block: each signature with its content hash and a QR code of its
+   * verification page, so a printed copy can be checked against the platform
+   * @param doc PDF document
+   * @param signatures Signatures checked against the report's current content
+   * @param yPos Current Y position
+   */
+  private static addSignatures(doc: jsPDF, signatures: ReportSignature[], yPos: number): void {
+    if (yPos > this.PAGE_HEIGHT - this.MARGIN - 60) {
+      doc.addPage();
+      yPos = this.MARGIN;
+    }
+
+    doc.setFontSize(16);
+    doc.setTextColor(20, 40, 100);
+    doc.text('Signatures', this.MARGIN, yPos);
+    yPos += 10;
+
+    const textX = this.MARGIN + this.QR_SIZE + 5;
+    const textWidth = this.CONTENT_WIDTH - this.QR_SIZE - 5 - 45;
+
+    for (const signature of signatures) {
+      if (yPos > this.PAGE_HEIGHT - this.MARGIN - this.QR_SIZE - 10) {
+        doc.addPage();
+        yPos = this.MARGIN;
+      }
+
+      try {
+        doc.addImage(signature.qr_code, 'PNG', this.MARGIN, yPos, this.QR_SIZE, this.QR_SIZE);
+      } catch (err) {
+        console.warn('Failed to add verification QR code to PDF', err);
+      }
+      if (signature.signature_image) {
+        try {
+          doc.addImage(signature.signature_image, 'PNG', this.MARGIN + this.CONTENT_WIDTH - 40, yPos, 40, 15);
+        } catch (err) {
+          console.warn('Failed to add signature image to PDF', err);
+        }
+      }
+
+      let textY = yPos + 4;
+      doc.setFontSize(11);
+      doc.setTextColor(0, 0, 0);
+      doc.text(`${signature.signer_name} (${signature.signer_role})`, textX, textY);
+      textY += 5;
+
+      doc.setFontSize(8);
+      doc.setTextColor(60, 60, 60);
+      const details = [
+        `Signed on ${new Date(signature.signed_at).toLocaleString()}${signature.report_version ? ` · version ${signature.report_version}` : ''}`,
+        `SHA-256: ${signature.content_hash}`,
+        `Verify: ${signature.verification_url}`,
+        ...(signature.comments ? [signature.comments] : [])
+      ];
+      for (const detail of details) {
+        const lines = doc.splitTextToSize(detail, textWidth);
+        doc.text(lines, textX, textY);
+        textY += lines.length * 3.5;
+      }
+
+      if (!signature.seal_valid || !signature.content_matches) {
+        doc.setTextColor(198, 40, 40);
+        doc.text(
+          !signature.seal_valid
+            ? 'The signature record has been altered and cannot be trusted.'
+            : 'The report was modified after this signature.',
+          textX,
+          textY
+        );
+        textY += 3.5;
+      }
+
+      yPos = Math.max(yPos + this.QR_SIZE, textY) + 8;
+    }
+  }
+
   /**
    * Add page numbers to all pages
    * @param doc PDF document
@@ -0,0 +1,188 @@
+import { ReportContent, ReportSnapshot } from '../types/reports';
+
+export type DiffStatus = 'unchanged' | 'added' | 'removed' | 'changed';
+
+/**
+ * Status of every table cell on each side of a diff; the header row comes first
+ */
+export interface TableCellDiff {
+  before: DiffStatus[][];
+  after: DiffStatus[][];
+}
+
+export interface ContentBlockDiff {
+  status: DiffStatus;
+  before?: ReportContent;
+  after?: ReportContent;
+  // Only for tables that changed
+  cells?: TableCellDiff;
+}
+
+export interface FieldDiff {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface ReportDiff {
+  fields: FieldDiff[];
+  blocks: ContentBlockDiff[];
+  summary: Record<Exclude<DiffStatus, 'unchanged'>, number>;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  type: 'Type',
+  status: 'Status'
+};
+
+// Metadata keys read as labels: client_name -> Client name
+const toLabel = (key: string) => {
+  const words = key.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const sortKeys = (value: any): any => {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map(key => [key, sortKeys(value[key])]));
+  }
+  return value;
+};
+
+const blockKey = (block: ReportContent) => `${block.content_type}:${JSON.stringify(sortKeys(block.content))}`;
+
+const fieldText = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(sortKeys(value)) : String(value);
+};
+
+const sortBlocks = (contents: ReportContent[] = []) =>
+  [...contents].sort((a, b) => (a.order_index ?? 0) - (b.order_index ?? 0));
+
+/**
+ * Compare two tables cell by cell; rows and columns are matched by position
+ */
+export const diffTableCells = (before: ReportContent, after: ReportContent): TableCellDiff => {
+  const toGrid = (block: ReportContent): unknown[][] => [block.content?.headers || [], ...(block.content?.rows || [])];
+  const beforeGrid = toGrid(before);
+  const afterGrid = toGrid(after);
+
+  const mark = (grid: unknown[][], other: unknown[][], missing: DiffStatus): DiffStatus[][] =>
+    grid.map((row, r) => row.map((cell, c) => {
+      if (!other[r] || c >= other[r].length) return missing;
+      return fieldText(cell) === fieldText(other[r][c]) ? 'unchanged' : 'changed';
+    }));
+
+  return {
+    before: mark(beforeGrid, afterGrid, 'removed'),
+    after: mark(afterGrid, beforeGrid, 'added')
+  };
+};
+
+/**
+ * Align two lists of content blocks with a longest common subsequence. Blocks left over between
+ * two matches are paired up as changed when they have the same content type.
+ */
+const diffBlocks = (beforeBlocks: ReportContent[], afterBlocks: ReportContent[]): ContentBlockDiff[] => {
+  const beforeKeys = beforeBlocks.map(blockKey);
+  const afterKeys = afterBlocks.map(blockKey);
+  const n = beforeKeys.length;
+  const m = afterKeys.length;
+
+  // lengths[i][j]: longest common run of beforeKeys[i..] and afterKeys[j..]
+  const lengths: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] = beforeKeys[i] === afterKeys[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: ContentBlockDiff[] = [];
+  let removed: ReportContent[] = [];
+  let added: ReportContent[] = [];
+
+  const flushGap = () => {
+    let nextAdded = 0;
+    removed.forEach(block => {
+      const match = added.findIndex((candidate, index) => index >= nextAdded && candidate.content_type === block.content_type);
+      if (match === -1) {
+        result.push({ status: 'removed', before: block });
+        return;
+      }
+      added.slice(nextAdded, match).forEach(after => result.push({ status: 'added', after }));
+      const after = added[match];
+      result.push({
+        status: 'changed',
+        before: block,
+        after,
+        ...(block.content_type === 'table' ? { cells: diffTableCells(block, after) } : {})
+      });
+      nextAdded = match + 1;
+    });
+    added.slice(nextAdded).forEach(after => result.push({ status: 'added', after }));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && beforeKeys[i] === afterKeys[j]) {
+      flushGap();
+      result.push({ status: 'unchanged', before: beforeBlocks[i], after: afterBlocks[j] });
+      i++;
+      j++;
+    } else if (j >= m || (i < n && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      removed.push(beforeBlocks[i++]);
+    } else {
+      added.push(afterBlocks[j++]);
+    }
+  }
+  flushGap();
+
+  return result;
+};
+
+/**
+ * Compare two versions of a report: changed report fields and metadata, and content blocks that
+ * were added, removed or changed
+ * @param before Older snapshot
+ * @param after Newer snapshot
+ */
+export const diffReports = (before: ReportSnapshot, after: ReportSnapshot): ReportDiff => {
+  const fields: FieldDiff[] = [];
+
+  Object.keys(FIELD_LABELS).forEach(field => {
+    const beforeValue = fieldText((before as any)[field]);
+    const afterValue = fieldText((after as any)[field]);
+    if (beforeValue !== afterValue) {
+      fields.push({ field, label: FIELD_LABELS[field], before: beforeValue, after: afterValue });
+    }
+  });
+
+  const beforeMetadata: Record<string, unknown> = before.metadata || {};
+  const afterMetadata: Record<string, unknown> = after.metadata || {};
+  Array.from(new Set([...Object.keys(beforeMetadata), ...Object.keys(afterMetadata)])).sort().forEach(key => {
+    const beforeValue = fieldText(beforeMetadata[key]);
+    const afterValue = fieldText(afterMetadata[key]);
+    if (beforeValue !== afterValue) {
+      fields.push({ field: `metadata.${key}`, label: toLabel(key), before: beforeValue, after: afterValue });
+    }
+  });
+
+  const blocks = diffBlocks(sortBlocks(before.contents), sortBlocks(after.contents));
+  const count = (status: DiffStatus) => blocks.filter(block => block.status === status).length;
+
+  return {
+    fields,
+    blocks,
+    summary: { added: count('added'), removed: count('removed'), changed: count('changed') }
+  };
+};
@@ -8,7 +8,7 @@ import logger from './utils/logger';
 dotenv.config();
 
 // Import routes
-import authRoutes from './routes/auth';
+import authRoutes from './routes/authRoutes';
 import userRoutes from './routes/userRoutes';
 import findingsRoutes from './routes/findings';
 import attachmentsRoutes from './routes/attachments';
@@ -21,12 +21,18 @@ import searchRoutes from './routes/searchRoutes';
 import standardsRoutes from './routes/standardsRoutes';
 import tagRoutes from './routes/tagRoutes';
 import complianceRoutes from './routes/complianceRoutes';
+import calculationsRoutes from './routes/calculationsRoutes';
+import workflowRouter from './routes/workflowRoutes';
+import meterRouter from './routes/meterRoutes';
+import energyRoutes from './routes/energyRoutes';
+import tariffRouter from './routes/tariffRoutes';
+import utilityBillRouter from './routes/utilityBillRoutes';
 
 const app = express();
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: true }));
 
 // Request logging middleware
@@ -49,6 +55,12 @@ app.use('/api/search', searchRoutes);
 app.use('/api/standards', standardsRoutes);
 app.use('/api/tags', tagRoutes);
 app.use('/api/compliance', complianceRoutes);
+app.use('/api/calculations', calculationsRoutes);
+app.use('/api/workflows', workflowRouter);
+app.use('/api/meters', meterRouter);
+app.use('/api/energy', energyRoutes);
+app.use('/api/tariffs', tariffRouter);
+app.use('/api/utility-bills', utilityBillRouter);
 
 // Custom error handling middleware
 app.use(errorMiddleware);
@@ -23,6 +23,9 @@ interface UserConnection {
 // Track active connections
 const activeConnections = new Map<string, UserConnection>();
 
+// Server the handlers were attached to, for pushing events from outside a socket handler
+let attachedServer: Server | null = null;
+
 export const createWebSocketServer = (httpServer: HTTPServer): Server => {
   const allowedOrigins = [
     'http://localhost:3000',
@@ -71,6 +74,7 @@ export const createWebSocketServer = (httpServer: HTTPServer): Server => {
 };
 
 export const attachWebSocketHandlers = (io: Server): Server => {
+  attachedServer = io;
   io.on('connection', (socket: Socket) => {
     const timestamp = new Date().toISOString();
     console.log(`[${timestamp}] Client connected: ${socket.id}`);
@@ -152,4 +156,12 @@ export const attachWebSocketHandlers = (io: Server): Server => {
   });
 
   return io;
-}; 
\ No newline at end of file
+}; 
+
+/**
+ * Send an event to every socket a user has announced with userOnline. Does nothing when the
+ * WebSocket server is not running, e.g. in scripts
+ */
+export const emitToUser = (userId: number | string, event: string, payload: unknown) => {
+  attachedServer?.to(`user:${userId}`).emit(event, payload);
+};
@@ -4,6 +4,7 @@ import * as path from 'path';
 import * as crypto from 'crypto';
 import { pool } from '../config/database';
 import { RowDataPacket } from 'mysql2';
+import { canViewFinding } from '../utils/auditTeams';
 
 // Define custom interface for multer request
 interface MulterRequest extends Request {
@@ -17,6 +18,12 @@ if (!fs.existsSync(UPLOAD_DIR)) {
   fs.mkdirSync(UPLOAD_DIR, { recursive: true });
 }
 
+// Attachments are visible to whoever can see their finding
+const canViewAttachment = async (req: Request, findingId: number) => {
+  const [findings] = await pool.query<RowDataPacket[]>('SELECT * FROM findings WHERE id = ?', [findingId]);
+  return findings.length > 0 && canViewFinding(req.user!, findings[0]);
+};
+
 export const uploadAttachment = async (req: MulterRequest, res: Response) => {
   try {
     console.log('Upload request received:', {
@@ -36,7 +43,7 @@ export const uploadAttachment = async (req: MulterRequest, res: Response) => {
     // Check if finding exists
     console.log('Checking if finding exists:', findingId);
     const [findings] = await pool.query<RowDataPacket[]>(
-      'SELECT id FROM findings WHERE id = ?',
+      'SELECT * FROM findings WHERE id = ?',
       [findingId]
     );
 
@@ -46,6 +53,10 @@ export const uploadAttachment = async (req: MulterRequest, res: Response) => {
       fs.unlinkSync(req.file.path);
       return res.status(404).json({ message: 'Finding not found' });
     }
+    if (!(await canViewFinding(req.user!, findings[0]))) {
+      fs.unlinkSync(req.file.path);
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
 
     // Generate unique filename
     const fileExtension = path.extname(req.file.originalname);
@@ -143,6 +154,9 @@ export const downloadAttachment = async (req: Request, res: Response) => {
     }
 
     const attachment = attachments[0];
+    if (!(await canViewAttachment(req, attachment.finding_id))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
     const filePath = path.join(UPLOAD_DIR, attachment.filename);
 
     if (!fs.existsSync(filePath)) {
@@ -202,6 +216,9 @@ export const deleteAttachment = async (req: Request, res: Response) => {
     }
 
     const attachment = attachments[0];
+    if (!(await canViewAttachment(req, attachment.finding_id))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
 
     // Delete file from filesystem
     const filePath = path.join(UPLOAD_DIR, attachment.filename);
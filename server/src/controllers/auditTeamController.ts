@@ -0,0 +1,397 @@
+import { Request, Response } from 'express';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+import { pool, transaction } from '../config/database';
+import { AuditTeamInvitation, AuditTeamMember, AuditTeamRole, EnergyAuditRecord } from '../types';
+import {
+  AUDIT_TEAM_ROLES,
+  addTeamMember,
+  canManageTeam,
+  canViewAuditData,
+  getTeamRole,
+  isAuditTeamRole
+} from '../utils/auditTeams';
+import { notifyUsers } from '../utils/workflow';
+
+// How long an invitation can be accepted for
+const INVITATION_TTL_DAYS = 14;
+
+const ROLE_LABELS: Record<AuditTeamRole, string> = {
+  lead_auditor: 'lead auditor',
+  auditor: 'auditor',
+  client_viewer: 'client viewer'
+};
+
+const displayName = (firstName?: string | null, lastName?: string | null, username?: string | null) =>
+  [firstName, lastName].filter(Boolean).join(' ') || username || '';
+
+const formatMember = (member: AuditTeamMember) => ({
+  userId: member.user_id,
+  username: member.username,
+  email: member.email,
+  name: displayName(member.first_name, member.last_name, member.username),
+  role: member.team_role,
+  addedAt: member.created_at
+});
+
+const formatInvitation = (invitation: AuditTeamInvitation) => ({
+  id: invitation.id,
+  auditId: invitation.audit_id,
+  auditTitle: invitation.audit_title,
+  email: invitation.email,
+  userId: invitation.user_id,
+  role: invitation.team_role,
+  status: invitation.status,
+  invitedBy: invitation.invited_by_username,
+  expiresAt: invitation.expires_at,
+  createdAt: invitation.created_at
+});
+
+const findAudit = async (id: string | number) => {
+  const [audits] = await pool.query<EnergyAuditRecord[]>('SELECT * FROM energy_audits WHERE id = ?', [id]);
+  return audits.length > 0 ? audits[0] : null;
+};
+
+const getMembers = async (auditId: number) => {
+  const [members] = await pool.query<AuditTeamMember[]>(
+    `SELECT m.*, u.username, u.email, u.first_name, u.last_name
+     FROM audit_team_members m
+     JOIN users u ON m.user_id = u.id
+     WHERE m.audit_id = ?
+     ORDER BY FIELD(m.team_role, 'lead_auditor', 'auditor', 'client_viewer'), u.username`,
+    [auditId]
+  );
+  return members;
+};
+
+const countLeads = async (auditId: number) => {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    "SELECT COUNT(*) AS total FROM audit_team_members WHERE audit_id = ? AND team_role = 'lead_auditor'",
+    [auditId]
+  );
+  return Number(rows[0].total);
+};
+
+const recordTeamChange = (userId: number, action: string, auditId: number, details: Record<string, unknown>) =>
+  pool.query<ResultSetHeader>(
+    'INSERT INTO audit_logs (user_id, action, details, entity_type, entity_id) VALUES (?, ?, ?, ?, ?)',
+    [userId, action, JSON.stringify(details), 'audit', String(auditId)]
+  );
+
+/**
+ * Team members of an audit; pending invitations are included for those who can manage the team
+ * @route GET /api/energy-audit/:id/team
+ */
+export const getAuditTeam = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const audit = await findAudit(req.params.id);
+
+    if (!audit) {
+      return res.status(404).json({ message: 'Energy audit not found' });
+    }
+    if (!(await canViewAuditData(user, audit.id))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
+    const canManage = await canManageTeam(user, audit.id);
+    let invitations: AuditTeamInvitation[] = [];
+    if (canManage) {
+      [invitations] = await pool.query<AuditTeamInvitation[]>(
+        `SELECT i.*, u.username AS invited_by_username
+         FROM audit_team_invitations i
+         LEFT JOIN users u ON i.invited_by = u.id
+         WHERE i.audit_id = ? AND i.status = 'pending' AND i.expires_at > NOW()
+         ORDER BY i.created_at DESC`,
+        [audit.id]
+      );
+    }
+
+    return res.json({
+      auditId: audit.id,
+      myRole: await getTeamRole(user.id, audit.id),
+      canManage,
+      members: (await getMembers(audit.id)).map(formatMember),
+      invitations: invitations.map(formatInvitation)
+    });
+  } catch (error) {
+    console.error('Error fetching audit team:', error);
+    return res.status(500).json({ message: 'Error fetching audit team' });
+  }
+};
+
+/**
+ * Invite someone to an audit team by username or email. An email with no account yet can accept
+ * after signing up with it.
+ * @route POST /api/energy-audit/:id/team/invitations
+ */
+export const inviteTeamMember = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const audit = await findAudit(req.params.id);
+    const invitee = typeof req.body.invitee === 'string' ? req.body.invitee.trim() : '';
+    const { role } = req.body;
+
+    if (!audit) {
+      return res.status(404).json({ message: 'Energy audit not found' });
+    }
+    if (!(await canManageTeam(user, audit.id))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+    if (!invitee) {
+      return res.status(400).json({ message: 'A username or email is required' });
+    }
+    if (!isAuditTeamRole(role)) {
+      return res.status(400).json({ message: `Role must be one of: ${AUDIT_TEAM_ROLES.join(', ')}` });
+    }
+
+    const byEmail = invitee.includes('@');
+    const [users] = await pool.query<RowDataPacket[]>(
+      `SELECT id, email FROM users WHERE ${byEmail ? 'LOWER(email) = LOWER(?)' : 'username = ?'} AND is_active = true`,
+      [invitee]
+    );
+    if (!byEmail && users.length === 0) {
+      return res.status(404).json({ message: 'No active user has that username' });
+    }
+    const inviteeId: number | null = users.length > 0 ? users[0].id : null;
+    const email = String(users.length > 0 ? users[0].email : invitee).toLowerCase();
+
+    if (inviteeId !== null && (await getTeamRole(inviteeId, audit.id))) {
+      return res.status(409).json({ message: 'This user is already on the audit team' });
+    }
+    const [pending] = await pool.query<RowDataPacket[]>(
+      `SELECT id FROM audit_team_invitations
+       WHERE audit_id = ? AND status = 'pending' AND expires_at > NOW() AND (email = ? OR user_id = ?)`,
+      [audit.id, email, inviteeId]
+    );
+    if (pending.length > 0) {
+      return res.status(409).json({ message: 'An invitation is already pending for this user' });
+    }
+
+    const [result] = await pool.query<ResultSetHeader>(
+      `INSERT INTO audit_team_invitations (audit_id, email, user_id, team_role, invited_by, expires_at)
+       VALUES (?, ?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL ? DAY))`,
+      [audit.id, email, inviteeId, role, user.id, INVITATION_TTL_DAYS]
+    );
+    await notifyUsers(pool, [inviteeId], user.id, {
+      type: 'TEAM_INVITATION',
+      auditId: audit.id,
+      message: `${user.username} invited you to join audit "${audit.title}" as ${ROLE_LABELS[role]}`
+    });
+    await recordTeamChange(user.id, 'INVITE_TEAM_MEMBER', audit.id, { email, role });
+
+    const [invitations] = await pool.query<AuditTeamInvitation[]>(
+      'SELECT * FROM audit_team_invitations WHERE id = ?',
+      [result.insertId]
+    );
+    return res.status(201).json(formatInvitation(invitations[0]));
+  } catch (error) {
+    console.error('Error inviting team member:', error);
+    return res.status(500).json({ message: 'Error inviting team member' });
+  }
+};
+
+/**
+ * Withdraw a pending invitation
+ * @route DELETE /api/energy-audit/:id/team/invitations/:invitationId
+ */
+export const cancelInvitation = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    if (!(await canManageTeam(user, req.params.id))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
+    const [result] = await pool.query<ResultSetHeader>(
+      `UPDATE audit_team_invitations SET status = 'cancelled', responded_at = NOW()
+       WHERE id = ? AND audit_id = ? AND status = 'pending'`,
+      [req.params.invitationId, req.params.id]
+    );
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ message: 'Pending invitation not found' });
+    }
+
+    await recordTeamChange(user.id, 'CANCEL_TEAM_INVITATION', Number(req.params.id), {
+      invitationId: Number(req.params.invitationId)
+    });
+    return res.json({ message: 'Invitation cancelled' });
+  } catch (error) {
+    console.error('Error cancelling invitation:', error);
+    return res.status(500).json({ message: 'Error cancelling invitation' });
+  }
+};
+
+/**
+ * Change a member's team role. An audit always keeps at least one lead auditor.
+ * @route PUT /api/energy-audit/:id/team/members/:userId
+ */
+export const updateTeamMember = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const auditId = Number(req.params.id);
+    const memberId = Number(req.params.userId);
+    const { role } = req.body;
+
+    if (!(await canManageTeam(user, auditId))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+    if (!isAuditTeamRole(role)) {
+      return res.status(400).json({ message: `Role must be one of: ${AUDIT_TEAM_ROLES.join(', ')}` });
+    }
+
+    const current = await getTeamRole(memberId, auditId);
+    if (!current) {
+      return res.status(404).json({ message: 'Team member not found' });
+    }
+    if (current === 'lead_auditor' && role !== 'lead_auditor' && (await countLeads(auditId)) <= 1) {
+      return res.status(409).json({ message: 'An audit must keep at least one lead auditor' });
+    }
+
+    await pool.query<ResultSetHeader>(
+      'UPDATE audit_team_members SET team_role = ? WHERE audit_id = ? AND user_id = ?',
+      [role, auditId, memberId]
+    );
+    await recordTeamChange(user.id, 'UPDATE_TEAM_MEMBER', auditId, { userId: memberId, from: current, to: role });
+
+    return res.json((await getMembers(auditId)).map(formatMember));
+  } catch (error) {
+    console.error('Error updating team member:', error);
+    return res.status(500).json({ message: 'Error updating team member' });
+  }
+};
+
+/**
+ * Take a member off an audit team
+ * @route DELETE /api/energy-audit/:id/team/members/:userId
+ */
+export const removeTeamMember = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const auditId = Number(req.params.id);
+    const memberId = Number(req.params.userId);
+
+    if (!(await canManageTeam(user, auditId))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
+    const current = await getTeamRole(memberId, auditId);
+    if (!current) {
+      return res.status(404).json({ message: 'Team member not found' });
+    }
+    if (current === 'lead_auditor' && (await countLeads(auditId)) <= 1) {
+      return res.status(409).json({ message: 'An audit must keep at least one lead auditor' });
+    }
+
+    await pool.query<ResultSetHeader>(
+      'DELETE FROM audit_team_members WHERE audit_id = ? AND user_id = ?',
+      [auditId, memberId]
+    );
+    await recordTeamChange(user.id, 'REMOVE_TEAM_MEMBER', auditId, { userId: memberId, role: current });
+
+    return res.json((await getMembers(auditId)).map(formatMember));
+  } catch (error) {
+    console.error('Error removing team member:', error);
+    return res.status(500).json({ message: 'Error removing team member' });
+  }
+};
+
+const findOpenInvitation = async (req: Request) => {
+  const user = req.user!;
+  const [invitations] = await pool.query<AuditTeamInvitation[]>(
+    `SELECT i.* FROM audit_team_invitations i
+     JOIN users u ON u.id = ?
+     WHERE i.id = ? AND i.status = 'pending' AND i.expires_at > NOW()
+       AND (i.user_id = u.id OR (i.user_id IS NULL AND i.email = LOWER(u.email)))`,
+    [user.id, req.params.invitationId]
+  );
+  return invitations.length > 0 ? invitations[0] : null;
+};
+
+/**
+ * Pending invitations addressed to the current user
+ * @route GET /api/energy-audit/invitations
+ */
+export const getMyInvitations = async (req: Request, res: Response) => {
+  try {
+    const [invitations] = await pool.query<AuditTeamInvitation[]>(
+      `SELECT i.*, ea.title AS audit_title, inviter.username AS invited_by_username
+       FROM audit_team_invitations i
+       JOIN users u ON u.id = ?
+       JOIN energy_audits ea ON i.audit_id = ea.id
+       LEFT JOIN users inviter ON i.invited_by = inviter.id
+       WHERE i.status = 'pending' AND i.expires_at > NOW()
+         AND (i.user_id = u.id OR (i.user_id IS NULL AND i.email = LOWER(u.email)))
+       ORDER BY i.created_at DESC`,
+      [req.user!.id]
+    );
+
+    return res.json(invitations.map(formatInvitation));
+  } catch (error) {
+    console.error('Error fetching invitations:', error);
+    return res.status(500).json({ message: 'Error fetching invitations' });
+  }
+};
+
+/**
+ * Join the audit team an invitation is for
+ * @route POST /api/energy-audit/invitations/:invitationId/accept
+ */
+export const acceptInvitation = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const invitation = await findOpenInvitation(req);
+    if (!invitation) {
+      return res.status(404).json({ message: 'Invitation not found or expired' });
+    }
+
+    await transaction(async connection => {
+      await connection.query(
+        "UPDATE audit_team_invitations SET status = 'accepted', user_id = ?, responded_at = NOW() WHERE id = ?",
+        [user.id, invitation.id]
+      );
+      await addTeamMember(connection, invitation.audit_id, user.id, invitation.team_role, invitation.invited_by);
+      await notifyUsers(connection, [invitation.invited_by], user.id, {
+        type: 'TEAM_INVITATION_ACCEPTED',
+        auditId: invitation.audit_id,
+        message: `${user.username} joined the audit team as ${ROLE_LABELS[invitation.team_role]}`
+      });
+    });
+    await recordTeamChange(user.id, 'JOIN_TEAM', invitation.audit_id, {
+      invitationId: invitation.id,
+      role: invitation.team_role
+    });
+
+    return res.json({ auditId: invitation.audit_id, role: await getTeamRole(user.id, invitation.audit_id) });
+  } catch (error) {
+    console.error('Error accepting invitation:', error);
+    return res.status(500).json({ message: 'Error accepting invitation' });
+  }
+};
+
+/**
+ * Turn down an invitation
+ * @route POST /api/energy-audit/invitations/:invitationId/decline
+ */
+export const declineInvitation = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const invitation = await findOpenInvitation(req);
+    if (!invitation) {
+      return res.status(404).json({ message: 'Invitation not found or expired' });
+    }
+
+    await pool.query<ResultSetHeader>(
+      "UPDATE audit_team_invitations SET status = 'declined', user_id = ?, responded_at = NOW() WHERE id = ?",
+      [user.id, invitation.id]
+    );
+    await notifyUsers(pool, [invitation.invited_by], user.id, {
+      type: 'TEAM_INVITATION_DECLINED',
+      auditId: invitation.audit_id,
+      message: `${user.username} declined the invitation to the audit team`
+    });
+
+    return res.json({ message: 'Invitation declined' });
+  } catch (error) {
+    console.error('Error declining invitation:', error);
+    return res.status(500).json({ message: 'Error declining invitation' });
+  }
+};
@@ -1,8 +1,129 @@
 import { Request, Response } from 'express';
-import * as jwt from 'jsonwebtoken';
 import * as bcrypt from 'bcrypt';
+import * as jwt from 'jsonwebtoken';
 import { pool } from '../config/database';
-import { RowDataPacket } from 'mysql2';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+import { UserRole, UserSession } from '../types';
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  createSession,
+  formatSession,
+  getLockoutMinutes,
+  getMaxLoginAttempts,
+  getSessionClient,
+  hashToken,
+  recordAuthEvent,
+  revokeSession as revokeUserSession,
+  revokeUserSessions,
+  rotateSession,
+  SessionClient,
+  signAccessToken
+} from '../utils/authSessions';
+import { getUserPermissions } from '../utils/permissions';
+import {
+  acceptTotpCode,
+  CHALLENGE_TTL_SECONDS,
+  getChallengeSecret,
+  getTwoFactorPolicy,
+  isTwoFactorRequiredForRole,
+  redeemRecoveryCode
+} from '../utils/twoFactor';
+
+const LOGIN_USER_COLUMNS =
+  'id, username, student_id, password, email, first_name as firstName, last_name as lastName, role, is_active, failed_login_attempts, locked_until, totp_secret, totp_enabled, totp_last_used_step, created_at as createdAt, updated_at as updatedAt';
+
+interface ChallengePayload {
+  id: number;
+  purpose: 'two_factor_login';
+}
+
+const isLocked = (user: RowDataPacket) => !!user.locked_until && new Date(user.locked_until).getTime() > Date.now();
+
+const sendLocked = async (res: Response, user: RowDataPacket, client: SessionClient) => {
+  await recordAuthEvent(user.id, 'LOGIN_LOCKED', { ip: client.ipAddress, lockedUntil: user.locked_until });
+  return res.status(423).json({
+    message: 'Account locked after too many failed login attempts. Try again later.',
+    code: 'ACCOUNT_LOCKED',
+    lockedUntil: user.locked_until
+  });
+};
+
+const sendInactive = async (res: Response, user: RowDataPacket, client: SessionClient) => {
+  await recordAuthEvent(user.id, 'LOGIN_FAILED', { ip: client.ipAddress, reason: 'inactive' });
+  return res.status(403).json({ message: 'This account has been deactivated', code: 'ACCOUNT_INACTIVE' });
+};
+
+/**
+ * Count a wrong password or authentication code towards the account lockout
+ */
+const recordFailedLogin = async (user: RowDataPacket, client: SessionClient, reason: string) => {
+  // Counted in the database so parallel guesses cannot overwrite each other's count;
+  // LAST_INSERT_ID() hands the new count back with the result
+  const [result] = await pool.query<ResultSetHeader>(
+    'UPDATE users SET failed_login_attempts = LAST_INSERT_ID(failed_login_attempts + 1) WHERE id = ?',
+    [user.id]
+  );
+  const failedAttempts = result.insertId;
+  const lockMinutes = getLockoutMinutes(failedAttempts, await getMaxLoginAttempts());
+  if (lockMinutes > 0) {
+    // A shorter lock from a parallel request must not cut a longer one short
+    await pool.query(
+      'UPDATE users SET locked_until = GREATEST(COALESCE(locked_until, NOW()), DATE_ADD(NOW(), INTERVAL ? MINUTE)) WHERE id = ?',
+      [lockMinutes, user.id]
+    );
+  }
+  await recordAuthEvent(user.id, lockMinutes > 0 ? 'ACCOUNT_LOCKED' : 'LOGIN_FAILED', {
+    ip: client.ipAddress,
+    reason,
+    failedAttempts,
+    lockMinutes
+  });
+};
+
+/**
+ * Start a session for a user who has passed every login step and send the tokens
+ */
+const completeLogin = async (res: Response, user: RowDataPacket, client: SessionClient, twoFactorVerified: boolean) => {
+  if (user.failed_login_attempts > 0 || user.locked_until) {
+    await pool.query('UPDATE users SET failed_login_attempts = 0, locked_until = NULL WHERE id = ?', [user.id]);
+  }
+
+  const { sessionId, refreshToken } = await createSession(user.id, client, twoFactorVerified);
+  const token = signAccessToken(user as { id: number; username: string; role: UserRole }, sessionId, twoFactorVerified);
+  await recordAuthEvent(user.id, 'LOGIN', { ip: client.ipAddress, sessionId, twoFactor: twoFactorVerified });
+
+  // The client asks users whose role requires two-factor authentication to set it up
+  const twoFactorSetupRequired = !user.totp_enabled && isTwoFactorRequiredForRole(await getTwoFactorPolicy(), user.role);
+
+  // Exclude password and login state from user object in response
+  const {
+    password: _pw,
+    is_active: _active,
+    failed_login_attempts: _attempts,
+    locked_until: _lock,
+    totp_secret: _secret,
+    totp_enabled: totpEnabled,
+    totp_last_used_step: _step,
+    ...userWithoutPassword
+  } = user;
+
+  // Add isActive field to match client's expected format
+  const userResponse = {
+    ...userWithoutPassword,
+    isActive: true,
+    twoFactorEnabled: !!totpEnabled,
+    permissions: await getUserPermissions(user.id)
+  };
+
+  // Update last login time
+  try {
+    await pool.query('UPDATE users SET last_login = NOW() WHERE id = ?', [user.id]);
+  } catch (updateErr) {
+    console.warn('Could not update last login time:', updateErr);
+  }
+
+  return res.json({ user: userResponse, token, refreshToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS, twoFactorSetupRequired });
+};
 
 export const login = async (req: Request, res: Response) => {
   try {
@@ -16,53 +137,268 @@ export const login = async (req: Request, res: Response) => {
 
     // Get user from database - with case insensitive username match or student_id match
     const [users] = await pool.query<RowDataPacket[]>(
-      'SELECT id, username, student_id, password, email, first_name as firstName, last_name as lastName, role, created_at as createdAt, updated_at as updatedAt FROM users WHERE LOWER(username) = LOWER(?) OR student_id = ?',
+      `SELECT ${LOGIN_USER_COLUMNS} FROM users WHERE LOWER(username) = LOWER(?) OR student_id = ?`,
       [username, username]
     );
 
+    const client = getSessionClient(req);
+
     if (users.length === 0) {
+      await recordAuthEvent(null, 'LOGIN_FAILED', { username, reason: 'unknown_user', ip: client.ipAddress });
       return res.status(401).json({ message: 'Invalid credentials' });
     }
 
     const user = users[0];
 
+    // Refuse locked accounts before checking the password, so guessing cannot continue during the lock
+    if (isLocked(user)) {
+      return sendLocked(res, user, client);
+    }
+
     // Verify password with bcrypt
     const validPassword = await bcrypt.compare(password, user.password);
 
     if (!validPassword) {
+      await recordFailedLogin(user, client, 'invalid_password');
       return res.status(401).json({ message: 'Invalid credentials' });
     }
 
-    // Create JWT token
-    const token = jwt.sign(
-      { 
-        id: user.id,
-        username: user.username,
-        role: user.role 
-      },
-      process.env.JWT_SECRET || 'e465aa6a212abe4bb21fb3218aa044ed2be68720b46298c20b22f861ab7324f3d299f35ec4720e2ab57a03e4810a7a885e5aac6c1',
-      { expiresIn: '24h' }
-    );
+    if (!user.is_active) {
+      return sendInactive(res, user, client);
+    }
 
-    // Exclude password from user object in response
-    const { password: _pw, ...userWithoutPassword } = user;
+    // Users with two-factor authentication finish signing in with a code from /login/2fa
+    if (user.totp_enabled) {
+      const challengeToken = jwt.sign(
+        { id: user.id, purpose: 'two_factor_login' } as ChallengePayload,
+        getChallengeSecret(),
+        { expiresIn: CHALLENGE_TTL_SECONDS }
+      );
+      return res.json({ twoFactorRequired: true, challengeToken });
+    }
 
-    // Add isActive field to match client's expected format
-    const userResponse = {
-      ...userWithoutPassword,
-      isActive: true
-    };
+    return completeLogin(res, user, client, false);
+  } catch (error) {
+    console.error('LOGIN ERROR:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+/**
+ * Second login step: an authenticator code or a recovery code
+ * @route POST /api/auth/login/2fa
+ */
+export const verifyTwoFactorLogin = async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      return res.status(400).json({ message: 'Challenge token and an authentication or recovery code are required' });
+    }
 
-    // Update last login time
+    let challenge: ChallengePayload;
     try {
-      await pool.query('UPDATE users SET last_login = NOW() WHERE id = ?', [user.id]);
-    } catch (updateErr) {
-      console.warn('Could not update last login time:', updateErr);
+      challenge = jwt.verify(String(challengeToken), getChallengeSecret()) as ChallengePayload;
+    } catch {
+      return res.status(401).json({ message: 'Sign-in timed out. Enter your password again.', code: 'CHALLENGE_EXPIRED' });
+    }
+    if (challenge.purpose !== 'two_factor_login') {
+      return res.status(401).json({ message: 'Sign-in timed out. Enter your password again.', code: 'CHALLENGE_EXPIRED' });
+    }
+
+    const [users] = await pool.query<RowDataPacket[]>(
+      `SELECT ${LOGIN_USER_COLUMNS} FROM users WHERE id = ?`,
+      [challenge.id]
+    );
+    if (users.length === 0 || !users[0].totp_enabled) {
+      return res.status(401).json({ message: 'Sign-in timed out. Enter your password again.', code: 'CHALLENGE_EXPIRED' });
+    }
+
+    const user = users[0];
+    const client = getSessionClient(req);
+
+    if (isLocked(user)) {
+      return sendLocked(res, user, client);
+    }
+    if (!user.is_active) {
+      return sendInactive(res, user, client);
+    }
+
+    const verified = code
+      ? await acceptTotpCode(user as { id: number; totp_secret: string; totp_last_used_step: number | null }, String(code))
+      : await redeemRecoveryCode(user.id, String(recoveryCode));
+
+    if (!verified) {
+      await recordFailedLogin(user, client, code ? 'invalid_2fa_code' : 'invalid_recovery_code');
+      return res.status(401).json({ message: code ? 'Invalid authentication code' : 'Invalid recovery code' });
     }
 
-    return res.json({ user: userResponse, token });
+    if (!code) {
+      await recordAuthEvent(user.id, 'RECOVERY_CODE_USED', { ip: client.ipAddress });
+    }
+
+    return completeLogin(res, user, client, true);
   } catch (error) {
-    console.error('LOGIN ERROR:', error);
+    console.error('Error verifying two-factor login:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+/**
+ * Exchange a refresh token for a new access token and refresh token
+ * @route POST /api/auth/refresh
+ */
+export const refreshToken = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken: token } = req.body;
+
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({ message: 'Refresh token is required' });
+    }
+
+    const client = getSessionClient(req);
+    const result = await rotateSession(token, client);
+
+    if (result.status === 'superseded') {
+      // Another request rotated this token moments ago; the client should use the token it received
+      return res.status(409).json({ message: 'Refresh token already rotated', code: 'TOKEN_SUPERSEDED' });
+    }
+    if (result.status === 'reused') {
+      await recordAuthEvent(result.session.user_id, 'SESSION_TOKEN_REUSE', {
+        ip: client.ipAddress,
+        sessionId: result.session.id
+      });
+    }
+    if (result.status !== 'rotated') {
+      return res.status(401).json({ message: 'Session expired', code: 'SESSION_REVOKED' });
+    }
+
+    // Read the role again so a role change applies from the next refresh
+    const [users] = await pool.query<RowDataPacket[]>(
+      'SELECT id, username, role, is_active FROM users WHERE id = ?',
+      [result.session.user_id]
+    );
+    if (users.length === 0 || !users[0].is_active) {
+      await revokeUserSession(result.session.id, users.length === 0 ? 'user_deleted' : 'user_deactivated');
+      return res.status(401).json({ message: 'Session expired', code: 'SESSION_REVOKED' });
+    }
+
+    const user = users[0] as { id: number; username: string; role: UserRole };
+    return res.json({
+      token: signAccessToken(user, result.session.id, !!result.session.two_factor_verified),
+      refreshToken: result.refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS
+    });
+  } catch (error) {
+    console.error('Error refreshing token:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+/**
+ * End the current session
+ * @route POST /api/auth/logout
+ */
+export const logout = async (req: Request, res: Response) => {
+  try {
+    let sessionId = req.user?.sessionId;
+    let userId = req.user?.id ?? null;
+
+    // The access token may already have expired; the refresh token still identifies the session
+    if (sessionId === undefined && typeof req.body?.refreshToken === 'string') {
+      const [sessions] = await pool.query<UserSession[]>(
+        'SELECT * FROM user_sessions WHERE refresh_token_hash = ? AND revoked_at IS NULL',
+        [hashToken(req.body.refreshToken)]
+      );
+      if (sessions.length > 0) {
+        sessionId = sessions[0].id;
+        userId = sessions[0].user_id;
+      }
+    }
+
+    if (sessionId !== undefined) {
+      await revokeUserSession(sessionId, 'logout');
+      await recordAuthEvent(userId, 'LOGOUT', { sessionId });
+    }
+
+    return res.json({ message: 'Logged out' });
+  } catch (error) {
+    console.error('Error logging out:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+/**
+ * Permissions granted by the signed-in user's role, so the client can hide actions it would refuse
+ * @route GET /api/auth/permissions
+ */
+export const getPermissions = async (req: Request, res: Response) => {
+  try {
+    return res.json({ permissions: await getUserPermissions(req.user!.id) });
+  } catch (error) {
+    console.error('Error fetching permissions:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+/**
+ * List the signed-in user's active sessions
+ * @route GET /api/auth/sessions
+ */
+export const getSessions = async (req: Request, res: Response) => {
+  try {
+    const [sessions] = await pool.query<UserSession[]>(
+      `SELECT * FROM user_sessions
+       WHERE user_id = ? AND revoked_at IS NULL AND expires_at > NOW()
+       ORDER BY last_used_at DESC`,
+      [req.user!.id]
+    );
+
+    return res.json(sessions.map(session => formatSession(session, req.user!.sessionId)));
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+/**
+ * Sign out one of the user's sessions, such as a lost device
+ * @route DELETE /api/auth/sessions/:sessionId
+ */
+export const revokeSession = async (req: Request, res: Response) => {
+  try {
+    const sessionId = Number(req.params.sessionId);
+
+    const [sessions] = await pool.query<UserSession[]>(
+      'SELECT * FROM user_sessions WHERE id = ? AND user_id = ? AND revoked_at IS NULL',
+      [sessionId, req.user!.id]
+    );
+    if (sessions.length === 0) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+
+    await revokeUserSession(sessionId, 'revoked_by_user');
+    await recordAuthEvent(req.user!.id, 'SESSION_REVOKED', { sessionId });
+
+    return res.json({ message: 'Session revoked' });
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+/**
+ * Sign out every session of the user except the current one
+ * @route DELETE /api/auth/sessions
+ */
+export const revokeOtherSessions = async (req: Request, res: Response) => {
+  try {
+    const [result] = await revokeUserSessions(req.user!.id, 'revoked_by_user', req.user!.sessionId ?? null);
+    await recordAuthEvent(req.user!.id, 'SESSIONS_REVOKED', { count: result.affectedRows });
+
+    return res.json({ message: 'Other sessions revoked', count: result.affectedRows });
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
     return res.status(500).json({ message: 'Internal server error' });
   }
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,390 @@
+import { Request, Response } from 'express';
+import { PoolConnection } from 'mysql2/promise';
+import { ResultSetHeader } from 'mysql2';
+import { pool, transaction } from '../config/database';
+import { Calculation, CalculationVersion } from '../types';
+import { canViewAuditData } from '../utils/auditTeams';
+import { hasPermission } from '../utils/permissions';
+
+// Largest number of calculations accepted in one import request
+const MAX_IMPORT_BATCH = 1000;
+
+/**
+ * Format a calculation row in the shape the client calculators store
+ */
+const formatCalculation = (calculation: Calculation) => ({
+  id: calculation.id,
+  name: calculation.name,
+  type: calculation.type,
+  timestamp: new Date(calculation.created_at).getTime(),
+  data: typeof calculation.data === 'string' ? JSON.parse(calculation.data) : calculation.data,
+  version: calculation.version,
+  auditId: calculation.audit_id,
+  userId: calculation.user_id,
+  updatedAt: calculation.updated_at
+});
+
+/**
+ * Owners can read and change a calculation, as can users who edit audits if they can see its
+ * audit; calculations linked to an audit can also be read by the rest of the audit team
+ */
+const canModify = async (calculation: Calculation, user: NonNullable<Request['user']>) => {
+  if (calculation.user_id === user.id) {
+    return true;
+  }
+  if (!(await hasPermission(user, 'audit.edit'))) {
+    return false;
+  }
+  return calculation.audit_id !== null
+    ? canViewAuditData(user, calculation.audit_id)
+    : hasPermission(user, 'audit.view_all');
+};
+
+const canRead = async (calculation: Calculation, user: NonNullable<Request['user']>) =>
+  calculation.audit_id !== null
+    ? calculation.user_id === user.id || canViewAuditData(user, calculation.audit_id)
+    : canModify(calculation, user);
+
+const findCalculation = async (id: string, connection?: PoolConnection) => {
+  const [calculations] = connection
+    ? await connection.query<Calculation[]>('SELECT * FROM calculations WHERE id = ?', [id])
+    : await pool.query<Calculation[]>('SELECT * FROM calculations WHERE id = ?', [id]);
+  return calculations.length > 0 ? calculations[0] : null;
+};
+
+const insertVersion = (
+  connection: PoolConnection,
+  calculationId: string,
+  version: number,
+  name: string,
+  data: any,
+  userId: number
+) =>
+  connection.query<ResultSetHeader>(
+    'INSERT INTO calculation_versions (calculation_id, version, name, data, created_by) VALUES (?, ?, ?, ?, ?)',
+    [calculationId, version, name, JSON.stringify(data), userId]
+  );
+
+export const getCalculations = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { type, auditId } = req.query;
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    // An audit's calculations are shared with its team; otherwise list the caller's own
+    if (auditId) {
+      if (!(await canViewAuditData(user, String(auditId)))) {
+        return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+      }
+      conditions.push('audit_id = ?');
+      params.push(Number(auditId));
+    } else {
+      conditions.push('user_id = ?');
+      params.push(user.id);
+    }
+
+    if (type) {
+      conditions.push('type = ?');
+      params.push(String(type));
+    }
+
+    const [calculations] = await pool.query<Calculation[]>(
+      `SELECT * FROM calculations WHERE ${conditions.join(' AND ')} ORDER BY created_at DESC`,
+      params
+    );
+
+    return res.json(calculations.map(formatCalculation));
+  } catch (error) {
+    console.error('Error fetching calculations:', error);
+    return res.status(500).json({ message: 'Error fetching calculations' });
+  }
+};
+
+export const getCalculationById = async (req: Request, res: Response) => {
+  try {
+    const calculation = await findCalculation(req.params.id);
+
+    if (!calculation) {
+      return res.status(404).json({ message: 'Calculation not found' });
+    }
+    if (!(await canRead(calculation, req.user!))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
+    return res.json(formatCalculation(calculation));
+  } catch (error) {
+    console.error('Error fetching calculation:', error);
+    return res.status(500).json({ message: 'Error fetching calculation' });
+  }
+};
+
+export const createCalculation = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { type, name, data, auditId, timestamp } = req.body;
+
+    if (!type || typeof type !== 'string' || data === undefined) {
+      return res.status(400).json({ message: 'Calculation type and data are required' });
+    }
+
+    if (auditId && !(await canViewAuditData(user, auditId))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
+    const id: string = req.body.id || `calc_${type.replace(/-/g, '')}_${Date.now()}`;
+    const displayName: string = name || `${type} Calculation - ${new Date().toLocaleString()}`;
+
+    if (await findCalculation(id)) {
+      return res.status(409).json({ message: 'A calculation with this ID already exists' });
+    }
+
+    await transaction(async (connection) => {
+      await connection.query(
+        'INSERT INTO calculations (id, user_id, audit_id, type, name, data, version, created_at) VALUES (?, ?, ?, ?, ?, ?, 1, ?)',
+        [id, user.id, auditId || null, type, displayName, JSON.stringify(data), timestamp ? new Date(timestamp) : new Date()]
+      );
+      await insertVersion(connection, id, 1, displayName, data, user.id);
+    });
+
+    const calculation = await findCalculation(id);
+    return res.status(201).json(formatCalculation(calculation!));
+  } catch (error) {
+    console.error('Error creating calculation:', error);
+    return res.status(500).json({ message: 'Error creating calculation' });
+  }
+};
+
+export const updateCalculation = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { id } = req.params;
+    const { name, data, auditId, expectedVersion } = req.body;
+
+    const result = await transaction(async (connection) => {
+      const [rows] = await connection.query<Calculation[]>(
+        'SELECT * FROM calculations WHERE id = ? FOR UPDATE',
+        [id]
+      );
+      const calculation = rows[0];
+
+      if (!calculation) {
+        return { status: 404, message: 'Calculation not found' };
+      }
+      if (!(await canModify(calculation, user)) ||
+          (auditId && auditId !== calculation.audit_id && !(await canViewAuditData(user, auditId)))) {
+        return { status: 403, message: 'Forbidden: Insufficient permissions' };
+      }
+      // Reject edits made against an older version, e.g. from a second laptop
+      if (expectedVersion !== undefined && Number(expectedVersion) !== calculation.version) {
+        return { status: 409, message: `Calculation was changed to version ${calculation.version}` };
+      }
+
+      const version = calculation.version + 1;
+      const nextName = name ?? calculation.name;
+      const nextData = data ?? calculation.data;
+
+      await connection.query(
+        'UPDATE calculations SET name = ?, data = ?, audit_id = ?, version = ? WHERE id = ?',
+        [nextName, JSON.stringify(nextData), auditId !== undefined ? auditId : calculation.audit_id, version, id]
+      );
+      await insertVersion(connection, id, version, nextName, nextData, user.id);
+
+      return { status: 200, message: 'Calculation updated successfully' };
+    });
+
+    if (result.status !== 200) {
+      return res.status(result.status).json({ message: result.message });
+    }
+
+    const calculation = await findCalculation(id);
+    return res.json(formatCalculation(calculation!));
+  } catch (error) {
+    console.error('Error updating calculation:', error);
+    return res.status(500).json({ message: 'Error updating calculation' });
+  }
+};
+
+export const deleteCalculation = async (req: Request, res: Response) => {
+  try {
+    const calculation = await findCalculation(req.params.id);
+
+    if (!calculation) {
+      return res.status(404).json({ message: 'Calculation not found' });
+    }
+    if (!(await canModify(calculation, req.user!))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
+    await pool.query<ResultSetHeader>('DELETE FROM calculations WHERE id = ?', [calculation.id]);
+
+    return res.json({ message: 'Calculation deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting calculation:', error);
+    return res.status(500).json({ message: 'Error deleting calculation' });
+  }
+};
+
+export const getCalculationVersions = async (req: Request, res: Response) => {
+  try {
+    const calculation = await findCalculation(req.params.id);
+
+    if (!calculation) {
+      return res.status(404).json({ message: 'Calculation not found' });
+    }
+    if (!(await canRead(calculation, req.user!))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
+    const [versions] = await pool.query<CalculationVersion[]>(
+      `SELECT cv.version, cv.name, cv.created_by AS createdBy, u.username AS createdByUsername, cv.created_at AS createdAt
+       FROM calculation_versions cv
+       LEFT JOIN users u ON cv.created_by = u.id
+       WHERE cv.calculation_id = ?
+       ORDER BY cv.version DESC`,
+      [calculation.id]
+    );
+
+    return res.json(versions);
+  } catch (error) {
+    console.error('Error fetching calculation versions:', error);
+    return res.status(500).json({ message: 'Error fetching calculation versions' });
+  }
+};
+
+export const getCalculationVersion = async (req: Request, res: Response) => {
+  try {
+    const calculation = await findCalculation(req.params.id);
+
+    if (!calculation) {
+      return res.status(404).json({ message: 'Calculation not found' });
+    }
+    if (!(await canRead(calculation, req.user!))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
+    const [versions] = await pool.query<CalculationVersion[]>(
+      'SELECT * FROM calculation_versions WHERE calculation_id = ? AND version = ?',
+      [calculation.id, Number(req.params.version)]
+    );
+
+    if (versions.length === 0) {
+      return res.status(404).json({ message: 'Calculation version not found' });
+    }
+
+    const version = versions[0];
+    return res.json({
+      version: version.version,
+      name: version.name,
+      data: typeof version.data === 'string' ? JSON.parse(version.data) : version.data,
+      createdBy: version.created_by,
+      createdAt: version.created_at
+    });
+  } catch (error) {
+    console.error('Error fetching calculation version:', error);
+    return res.status(500).json({ message: 'Error fetching calculation version' });
+  }
+};
+
+export const restoreCalculationVersion = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { id } = req.params;
+
+    const result = await transaction(async (connection) => {
+      const [rows] = await connection.query<Calculation[]>(
+        'SELECT * FROM calculations WHERE id = ? FOR UPDATE',
+        [id]
+      );
+      const calculation = rows[0];
+
+      if (!calculation) {
+        return { status: 404, message: 'Calculation not found' };
+      }
+      if (!(await canModify(calculation, user))) {
+        return { status: 403, message: 'Forbidden: Insufficient permissions' };
+      }
+
+      const [versions] = await connection.query<CalculationVersion[]>(
+        'SELECT * FROM calculation_versions WHERE calculation_id = ? AND version = ?',
+        [id, Number(req.params.version)]
+      );
+      if (versions.length === 0) {
+        return { status: 404, message: 'Calculation version not found' };
+      }
+
+      // Restoring records a new version so the history is never rewritten
+      const restored = versions[0];
+      const version = calculation.version + 1;
+      const data = typeof restored.data === 'string' ? JSON.parse(restored.data) : restored.data;
+
+      await connection.query(
+        'UPDATE calculations SET name = ?, data = ?, version = ? WHERE id = ?',
+        [restored.name, JSON.stringify(data), version, id]
+      );
+      await insertVersion(connection, id, version, restored.name, data, user.id);
+
+      return { status: 200, message: 'Calculation version restored successfully' };
+    });
+
+    if (result.status !== 200) {
+      return res.status(result.status).json({ message: result.message });
+    }
+
+    const calculation = await findCalculation(id);
+    return res.json(formatCalculation(calculation!));
+  } catch (error) {
+    console.error('Error restoring calculation version:', error);
+    return res.status(500).json({ message: 'Error restoring calculation version' });
+  }
+};
+
+/**
+ * Import calculations saved in a browser's localStorage
+ * Entries whose ID already exists are skipped, so the import can safely be repeated
+ */
+export const importCalculations = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { calculations } = req.body;
+
+    if (!Array.isArray(calculations)) {
+      return res.status(400).json({ message: 'calculations must be an array' });
+    }
+    if (calculations.length > MAX_IMPORT_BATCH) {
+      return res.status(400).json({ message: `At most ${MAX_IMPORT_BATCH} calculations can be imported at once` });
+    }
+
+    const valid = calculations.filter(calc =>
+      calc && typeof calc.id === 'string' && typeof calc.type === 'string' && calc.data !== undefined
+    );
+
+    const imported = await transaction(async (connection) => {
+      let count = 0;
+
+      for (const calc of valid) {
+        const name = calc.name || `${calc.type} Calculation`;
+        const [result] = await connection.query<ResultSetHeader>(
+          'INSERT IGNORE INTO calculations (id, user_id, type, name, data, version, created_at) VALUES (?, ?, ?, ?, ?, 1, ?)',
+          [calc.id, user.id, calc.type, name, JSON.stringify(calc.data), calc.timestamp ? new Date(calc.timestamp) : new Date()]
+        );
+
+        if (result.affectedRows > 0) {
+          await insertVersion(connection, calc.id, 1, name, calc.data, user.id);
+          count++;
+        }
+      }
+
+      return count;
+    });
+
+    return res.json({
+      message: 'Calculations imported successfully',
+      imported,
+      skipped: calculations.length - imported
+    });
+  } catch (error) {
+    console.error('Error importing calculations:', error);
+    return res.status(500).json({ message: 'Error importing calculations' });
+  }
+};
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { pool } from '../config/database';
 import { RowDataPacket } from 'mysql2';
+import { canViewFinding } from '../utils/auditTeams';
 
 export const getComments = async (req: Request, res: Response) => {
   try {
@@ -10,6 +11,16 @@ export const getComments = async (req: Request, res: Response) => {
     });
 
     const { findingId } = req.params;
+
+    // Comments are visible to whoever can see the finding
+    const [findings] = await pool.query<RowDataPacket[]>('SELECT * FROM findings WHERE id = ?', [findingId]);
+    if (findings.length === 0) {
+      return res.status(404).json({ message: 'Finding not found' });
+    }
+    if (!(await canViewFinding(req.user!, findings[0]))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
     console.log('Fetching comments for finding:', findingId);
 
     const [comments] = await pool.query<RowDataPacket[]>(
@@ -59,7 +70,7 @@ export const createComment = async (req: Request, res: Response) => {
     // Check if finding exists
     console.log('Checking if finding exists:', findingId);
     const [findings] = await pool.query<RowDataPacket[]>(
-      'SELECT id FROM findings WHERE id = ?',
+      'SELECT * FROM findings WHERE id = ?',
       [findingId]
     );
 
@@ -67,6 +78,9 @@ export const createComment = async (req: Request, res: Response) => {
       console.log('Finding not found:', findingId);
       return res.status(404).json({ message: 'Finding not found' });
     }
+    if (!(await canViewFinding(req.user!, findings[0]))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
 
     // Create comment
     console.log('Creating comment');
@@ -1,13 +1,14 @@
 import { Request, Response } from 'express';
 import { pool } from '../config/database';
 import { RowDataPacket } from 'mysql2';
+import { getAuditScope, getFindingScope } from '../utils/auditTeams';
 
 export const getTotalEnergyUsage = async (_req: Request, res: Response) => {
   try {
     const [rows] = await pool.query<RowDataPacket[]>(
       `SELECT COALESCE(SUM(power_usage), 0) as total 
        FROM energy_audits 
-       WHERE status = 'APPROVED' 
+       WHERE status IN ('approved', 'closed') 
        AND created_at >= DATE_SUB(NOW(), INTERVAL 30 DAY)`
     );
     return res.json({ total: Number(rows[0]?.total) || 0 });
@@ -38,7 +39,7 @@ export const getCompletedAudits = async (_req: Request, res: Response) => {
     const [rows] = await pool.query<RowDataPacket[]>(
       `SELECT COUNT(*) as count 
        FROM energy_audits 
-       WHERE status = 'APPROVED' 
+       WHERE status IN ('approved', 'closed') 
        AND created_at >= DATE_SUB(NOW(), INTERVAL 30 DAY)`
     );
     return res.json({ count: Number(rows[0]?.count) || 0 });
@@ -48,14 +49,17 @@ export const getCompletedAudits = async (_req: Request, res: Response) => {
   }
 };
 
-export const getAlertsCount = async (_req: Request, res: Response) => {
+export const getAlertsCount = async (req: Request, res: Response) => {
   try {
+    const scope = await getFindingScope(req.user!);
     const [rows] = await pool.query<RowDataPacket[]>(
       `SELECT COUNT(*) as count 
-       FROM findings 
-       WHERE status != 'Closed' 
-       AND severity IN ('High', 'Medium') 
-       AND created_at >= DATE_SUB(NOW(), INTERVAL 30 DAY)`
+       FROM findings f
+       WHERE f.status != 'Closed' 
+       AND f.severity IN ('High', 'Medium') 
+       AND f.created_at >= DATE_SUB(NOW(), INTERVAL 30 DAY)
+       ${scope ? `AND ${scope.clause}` : ''}`,
+      scope ? scope.params : []
     );
     return res.json({ count: Number(rows[0]?.count) || 0 });
   } catch (error) {
@@ -72,7 +76,7 @@ export const getEnergyUsageTrend = async (_req: Request, res: Response) => {
         DATE_FORMAT(created_at, '%b %Y') as name,
         COALESCE(SUM(power_usage), 0) as value
        FROM energy_audits
-       WHERE status = 'APPROVED' 
+       WHERE status IN ('approved', 'closed') 
        AND created_at >= DATE_SUB(NOW(), INTERVAL 6 MONTH)
        GROUP BY month, name
        ORDER BY month ASC`
@@ -116,11 +120,14 @@ export const getRecentActivity = async (_req: Request, res: Response) => {
   }
 };
 
-export const getAllEnergyAudits = async (_req: Request, res: Response) => {
+export const getAllEnergyAudits = async (req: Request, res: Response) => {
   try {
+    const scope = await getAuditScope(req.user!, 'id');
     const [rows] = await pool.query<RowDataPacket[]>(
       `SELECT id, user_id, title, power_usage, lighting_efficiency, hvac_efficiency, status, created_at, updated_at
-       FROM energy_audits`
+       FROM energy_audits
+       ${scope ? `WHERE ${scope.clause}` : ''}`,
+      scope ? scope.params : []
     );
     return res.json({ audits: rows });
   } catch (error) {
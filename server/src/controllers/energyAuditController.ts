@@ -1,27 +1,882 @@
 import { Request, Response } from 'express';
-const EnergyAudit = require('../../models/EnergyAudit');
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+import { pool, transaction } from '../config/database';
+import {
+  AuditTask,
+  AuditTaskApprovalStatus,
+  AuditTaskComment,
+  AuditTaskPriority,
+  AuditTaskStatus,
+  EnergyAuditRecord
+} from '../types';
+import { AppError } from '../utils/errorHandler';
+import { addTeamMember, canViewAuditData, filterAuditViewers, getAuditScope } from '../utils/auditTeams';
+import { getUsersWithPermission, hasPermission, loadPermissions } from '../utils/permissions';
+import {
+  applyTransition,
+  getAvailableTransitions,
+  getInitialState,
+  getWorkflowDefinition,
+  notifyUsers,
+  recordTransition
+} from '../utils/workflow';
+
+type AuthUser = NonNullable<Request['user']>;
+
+const TASK_STATUSES: AuditTaskStatus[] = ['not_started', 'in_progress', 'completed', 'blocked'];
+const TASK_PRIORITIES: AuditTaskPriority[] = ['low', 'medium', 'high'];
+
+// Audit workflow phases shown in the AuditWorkflow stepper (Planning through Follow-up)
+const AUDIT_PHASE_COUNT = 7;
+
+const AUDIT_SELECT = `
+  SELECT ea.*, u.username AS created_by_username,
+    (SELECT COUNT(*) FROM audit_tasks t WHERE t.audit_id = ea.id) AS task_count,
+    (SELECT COUNT(*) FROM audit_tasks t WHERE t.audit_id = ea.id AND t.status = 'completed') AS completed_task_count
+  FROM energy_audits ea
+  LEFT JOIN users u ON ea.user_id = u.id`;
+
+const TASK_SELECT = `
+  SELECT t.*, ea.title AS audit_title,
+    a.username AS assignee_username, a.first_name AS assignee_first_name, a.last_name AS assignee_last_name,
+    ap.username AS approver_username
+  FROM audit_tasks t
+  JOIN energy_audits ea ON t.audit_id = ea.id
+  LEFT JOIN users a ON t.assignee_id = a.id
+  LEFT JOIN users ap ON t.approved_by = ap.id`;
+
+const displayName = (firstName?: string | null, lastName?: string | null, username?: string | null) =>
+  [firstName, lastName].filter(Boolean).join(' ') || username || '';
+
+/**
+ * Format a DATE column as YYYY-MM-DD without shifting it through UTC
+ */
+const toDateString = (value: Date | string | null) => {
+  if (!value) return null;
+  if (typeof value === 'string') return value.slice(0, 10);
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+  return `${value.getFullYear()}-${month}-${day}`;
+};
+
+const formatAudit = (audit: EnergyAuditRecord) => ({
+  id: audit.id,
+  title: audit.title,
+  description: audit.description,
+  location: audit.location,
+  status: audit.status,
+  currentPhase: audit.current_phase,
+  startDate: toDateString(audit.start_date),
+  endDate: toDateString(audit.end_date),
+  powerUsage: audit.power_usage !== null ? Number(audit.power_usage) : null,
+  lightingEfficiency: audit.lighting_efficiency !== null ? Number(audit.lighting_efficiency) : null,
+  hvacEfficiency: audit.hvac_efficiency !== null ? Number(audit.hvac_efficiency) : null,
+  archived: audit.archived_at !== null,
+  archivedAt: audit.archived_at,
+  createdBy: audit.user_id,
+  createdByUsername: audit.created_by_username,
+  taskCount: Number(audit.task_count) || 0,
+  completedTaskCount: Number(audit.completed_task_count) || 0,
+  createdAt: audit.created_at,
+  updatedAt: audit.updated_at
+});
+
+const formatComment = (comment: AuditTaskComment) => ({
+  id: comment.id,
+  text: comment.content,
+  author: displayName(comment.first_name, comment.last_name, comment.username),
+  authorId: comment.user_id,
+  date: comment.created_at
+});
+
+const formatTask = (task: AuditTask, comments: AuditTaskComment[] = []) => ({
+  id: task.id,
+  auditId: task.audit_id,
+  auditTitle: task.audit_title,
+  title: task.title,
+  description: task.description || '',
+  assigneeId: task.assignee_id,
+  assignedTo: task.assignee_id
+    ? displayName(task.assignee_first_name, task.assignee_last_name, task.assignee_username)
+    : 'Unassigned',
+  status: task.status,
+  priority: task.priority,
+  dueDate: toDateString(task.due_date),
+  completedDate: toDateString(task.completed_date),
+  approvalStatus: task.approval_status,
+  approvedBy: task.approver_username,
+  approvedAt: task.approved_at,
+  createdBy: task.created_by,
+  comments: comments.filter(comment => comment.task_id === task.id).map(formatComment),
+  createdAt: task.created_at,
+  updatedAt: task.updated_at
+});
+
+const findAudit = async (id: string | number) => {
+  const [audits] = await pool.query<EnergyAuditRecord[]>(`${AUDIT_SELECT} WHERE ea.id = ?`, [id]);
+  return audits.length > 0 ? audits[0] : null;
+};
+
+const findTask = async (id: string | number) => {
+  const [tasks] = await pool.query<AuditTask[]>(`${TASK_SELECT} WHERE t.id = ?`, [id]);
+  return tasks.length > 0 ? tasks[0] : null;
+};
+
+/**
+ * Users with audit.view_all see every audit; others see audits they are a lead auditor or auditor on
+ */
+const canAccessAudit = (audit: EnergyAuditRecord, user: AuthUser) => canViewAuditData(user, audit.id);
+
+const canAccessTask = async (task: AuditTask, user: AuthUser) =>
+  task.assignee_id === user.id || canViewAuditData(user, task.audit_id);
+
+const getComments = async (taskIds: number[]) => {
+  if (taskIds.length === 0) {
+    return [];
+  }
+  const [comments] = await pool.query<AuditTaskComment[]>(
+    `SELECT c.*, u.username, u.first_name, u.last_name
+     FROM audit_task_comments c
+     JOIN users u ON c.user_id = u.id
+     WHERE c.task_id IN (?)
+     ORDER BY c.created_at ASC, c.id ASC`,
+    [taskIds]
+  );
+  return comments;
+};
+
+const formatTasksWithComments = async (tasks: AuditTask[]) => {
+  const comments = await getComments(tasks.map(task => task.id));
+  return tasks.map(task => formatTask(task, comments));
+};
+
+const addComment = (taskId: number, userId: number, content: string) =>
+  pool.query<ResultSetHeader>(
+    'INSERT INTO audit_task_comments (task_id, user_id, content) VALUES (?, ?, ?)',
+    [taskId, userId, content]
+  );
+
+const respondWithTask = async (res: Response, taskId: number, status = 200) => {
+  const task = await findTask(taskId);
+  const [formatted] = await formatTasksWithComments([task!]);
+  return res.status(status).json(formatted);
+};
+
+// Audits
+
+export const getEnergyAudits = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { status, search, includeArchived } = req.query;
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (includeArchived !== 'true') {
+      conditions.push('ea.archived_at IS NULL');
+    }
+    if (status) {
+      conditions.push('ea.status = ?');
+      params.push(String(status));
+    }
+    if (search) {
+      conditions.push('(ea.title LIKE ? OR ea.location LIKE ?)');
+      params.push(`%${search}%`, `%${search}%`);
+    }
+    const scope = await getAuditScope(user, 'ea.id');
+    if (scope) {
+      conditions.push(scope.clause);
+      params.push(...scope.params);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const [audits] = await pool.query<EnergyAuditRecord[]>(
+      `${AUDIT_SELECT} ${where} ORDER BY ea.created_at DESC`,
+      params
+    );
+
+    return res.json(audits.map(formatAudit));
+  } catch (error) {
+    console.error('Error fetching energy audits:', error);
+    return res.status(500).json({ message: 'Error fetching energy audits' });
+  }
+};
+
+export const getEnergyAuditById = async (req: Request, res: Response) => {
+  try {
+    const audit = await findAudit(req.params.id);
+
+    if (!audit) {
+      return res.status(404).json({ message: 'Energy audit not found' });
+    }
+    if (!(await canAccessAudit(audit, req.user!))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
+    const [tasks] = await pool.query<AuditTask[]>(
+      `${TASK_SELECT} WHERE t.audit_id = ? ORDER BY t.due_date IS NULL, t.due_date ASC, t.id ASC`,
+      [audit.id]
+    );
+
+    return res.json({ ...formatAudit(audit), tasks: await formatTasksWithComments(tasks) });
+  } catch (error) {
+    console.error('Error fetching energy audit:', error);
+    return res.status(500).json({ message: 'Error fetching energy audit' });
+  }
+};
 
 export const createEnergyAudit = async (req: Request, res: Response) => {
   try {
-    const { title, description, status, startDate, endDate, location, findings, recommendations } = req.body;
+    const { title, description, location, startDate, endDate, powerUsage, lightingEfficiency, hvacEfficiency } = req.body;
     const createdBy = req.user?.id;
     if (!createdBy) {
       return res.status(400).json({ message: 'User not found in request' });
     }
-    const newAudit = await EnergyAudit.create({
-      title,
-      description,
-      status,
-      startDate,
-      endDate,
-      location,
-      findings,
-      recommendations,
-      createdBy
-    });
-    return res.status(201).json(newAudit);
+    if (!title || typeof title !== 'string') {
+      return res.status(400).json({ message: 'Audit title is required' });
+    }
+
+    // New audits always start in the workflow's initial state
+    const status = getInitialState(await getWorkflowDefinition('audit'));
+
+    const [result] = await pool.query<ResultSetHeader>(
+      `INSERT INTO energy_audits
+        (user_id, title, description, location, status, start_date, end_date, power_usage, lighting_efficiency, hvac_efficiency)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        createdBy,
+        title,
+        description || null,
+        location || null,
+        status,
+        startDate || null,
+        endDate || null,
+        powerUsage ?? null,
+        lightingEfficiency ?? null,
+        hvacEfficiency ?? null
+      ]
+    );
+
+    await addTeamMember(pool, result.insertId, createdBy, 'lead_auditor', createdBy);
+
+    const audit = await findAudit(result.insertId);
+    return res.status(201).json(formatAudit(audit!));
   } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
     console.error('Error creating energy audit:', error);
-    return res.status(500).json({ message: 'Failed to create energy audit', error });
+    return res.status(500).json({ message: 'Failed to create energy audit' });
+  }
+};
+
+export const updateEnergyAudit = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const audit = await findAudit(req.params.id);
+
+    if (!audit) {
+      return res.status(404).json({ message: 'Energy audit not found' });
+    }
+    if (!(await canAccessAudit(audit, user)) ||
+        (!(await hasPermission(user, 'audit.edit')) && audit.user_id !== user.id)) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
+    const { status, currentPhase } = req.body;
+    if (status !== undefined && status !== audit.status) {
+      return res.status(409).json({ message: 'Audit status can only change through a workflow transition' });
+    }
+    if (currentPhase !== undefined &&
+        (!Number.isInteger(currentPhase) || currentPhase < 0 || currentPhase >= AUDIT_PHASE_COUNT)) {
+      return res.status(400).json({ message: `currentPhase must be an integer from 0 to ${AUDIT_PHASE_COUNT - 1}` });
+    }
+
+    const fields: Record<string, string> = {
+      title: 'title',
+      description: 'description',
+      location: 'location',
+      currentPhase: 'current_phase',
+      startDate: 'start_date',
+      endDate: 'end_date',
+      powerUsage: 'power_usage',
+      lightingEfficiency: 'lighting_efficiency',
+      hvacEfficiency: 'hvac_efficiency'
+    };
+    const updates = Object.keys(fields).filter(key => req.body[key] !== undefined);
+
+    if (updates.length === 0) {
+      return res.status(400).json({ message: 'No fields to update' });
+    }
+    if (req.body.title !== undefined && !req.body.title) {
+      return res.status(400).json({ message: 'Audit title is required' });
+    }
+
+    await pool.query<ResultSetHeader>(
+      `UPDATE energy_audits SET ${updates.map(key => `${fields[key]} = ?`).join(', ')} WHERE id = ?`,
+      [...updates.map(key => req.body[key] === '' ? null : req.body[key]), audit.id]
+    );
+
+    return res.json(formatAudit((await findAudit(audit.id))!));
+  } catch (error) {
+    console.error('Error updating energy audit:', error);
+    return res.status(500).json({ message: 'Error updating energy audit' });
+  }
+};
+
+/**
+ * Archived audits drop out of the default list but keep their tasks and history
+ */
+export const archiveEnergyAudit = async (req: Request, res: Response) => {
+  try {
+    const audit = await findAudit(req.params.id);
+    if (!audit) {
+      return res.status(404).json({ message: 'Energy audit not found' });
+    }
+    if (!(await canAccessAudit(audit, req.user!))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
+    const [result] = await pool.query<ResultSetHeader>(
+      'UPDATE energy_audits SET archived_at = CURRENT_TIMESTAMP WHERE id = ? AND archived_at IS NULL',
+      [audit.id]
+    );
+    if (result.affectedRows === 0) {
+      return res.status(409).json({ message: 'Energy audit is already archived' });
+    }
+
+    return res.json(formatAudit((await findAudit(audit.id))!));
+  } catch (error) {
+    console.error('Error archiving energy audit:', error);
+    return res.status(500).json({ message: 'Error archiving energy audit' });
+  }
+};
+
+export const restoreEnergyAudit = async (req: Request, res: Response) => {
+  try {
+    const audit = await findAudit(req.params.id);
+    if (!audit) {
+      return res.status(404).json({ message: 'Energy audit not found' });
+    }
+    if (!(await canAccessAudit(audit, req.user!))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
+    const [result] = await pool.query<ResultSetHeader>(
+      'UPDATE energy_audits SET archived_at = NULL WHERE id = ? AND archived_at IS NOT NULL',
+      [audit.id]
+    );
+    if (result.affectedRows === 0) {
+      return res.status(409).json({ message: 'Energy audit is not archived' });
+    }
+
+    return res.json(formatAudit((await findAudit(audit.id))!));
+  } catch (error) {
+    console.error('Error restoring energy audit:', error);
+    return res.status(500).json({ message: 'Error restoring energy audit' });
+  }
+};
+
+const formatHistoryEntry = (log: RowDataPacket) => {
+  const details = typeof log.details === 'string' ? JSON.parse(log.details) : log.details || {};
+  return {
+    id: log.id,
+    from: details.from,
+    to: details.to,
+    label: details.label,
+    comment: details.comment || null,
+    userId: log.user_id,
+    user: displayName(log.first_name, log.last_name, log.username),
+    date: log.created_at
+  };
+};
+
+/**
+ * Current workflow state, the transitions the caller may trigger, and the transition history
+ */
+export const getEnergyAuditTransitions = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const audit = await findAudit(req.params.id);
+
+    if (!audit) {
+      return res.status(404).json({ message: 'Energy audit not found' });
+    }
+    if (!(await canAccessAudit(audit, user))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
+    const definition = await getWorkflowDefinition('audit');
+    const [logs] = await pool.query<RowDataPacket[]>(
+      `SELECT l.*, u.username, u.first_name, u.last_name
+       FROM audit_logs l
+       LEFT JOIN users u ON l.user_id = u.id
+       WHERE l.entity_type = 'audit' AND l.entity_id = ? AND l.action = 'WORKFLOW_TRANSITION'
+       ORDER BY l.id ASC`,
+      [String(audit.id)]
+    );
+
+    return res.json({
+      status: audit.status,
+      availableTransitions: audit.archived_at ? [] : getAvailableTransitions(definition, audit.status, await loadPermissions(user)),
+      history: logs.map(formatHistoryEntry)
+    });
+  } catch (error) {
+    console.error('Error fetching audit transitions:', error);
+    return res.status(500).json({ message: 'Error fetching audit transitions' });
+  }
+};
+
+/**
+ * Move an audit to another workflow state and notify the people working on it
+ */
+export const transitionEnergyAudit = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { toState, comment } = req.body;
+    const audit = await findAudit(req.params.id);
+
+    if (!audit) {
+      return res.status(404).json({ message: 'Energy audit not found' });
+    }
+    if (!(await canAccessAudit(audit, user))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+    if (audit.archived_at) {
+      return res.status(409).json({ message: 'Archived audits cannot change state' });
+    }
+    if (!toState || typeof toState !== 'string') {
+      return res.status(400).json({ message: 'Target state is required' });
+    }
+
+    await transaction(async connection => {
+      // Lock the row so two reviewers cannot move the audit from the same state at once
+      const [rows] = await connection.query<EnergyAuditRecord[]>(
+        'SELECT * FROM energy_audits WHERE id = ? FOR UPDATE',
+        [audit.id]
+      );
+      const fromState = rows[0].status;
+      const { transition } = await applyTransition(connection, {
+        entityType: 'audit',
+        entityId: audit.id,
+        fromState,
+        toState,
+        actor: user,
+        comment: comment ? String(comment) : undefined
+      });
+
+      await connection.query('UPDATE energy_audits SET status = ? WHERE id = ?', [toState, audit.id]);
+
+      // Everyone on the audit hears about it; so do the holders of a permission the next step needs
+      const definition = await getWorkflowDefinition('audit', connection);
+      const nextTransitions = definition.transitions.filter(t => t.from === toState);
+      const [assignees] = await connection.query<RowDataPacket[]>(
+        'SELECT DISTINCT assignee_id FROM audit_tasks WHERE audit_id = ? AND assignee_id IS NOT NULL',
+        [audit.id]
+      );
+      let reviewers: number[] = [];
+      if (nextTransitions.length > 0 && nextTransitions.every(t => t.permission)) {
+        const nextPermissions = Array.from(new Set(nextTransitions.map(t => t.permission!)));
+        reviewers = (await Promise.all(nextPermissions.map(getUsersWithPermission))).flat();
+      }
+
+      const toLabel = definition.states.find(state => state.key === toState)?.label || toState;
+      await notifyUsers(
+        connection,
+        [
+          audit.user_id,
+          ...assignees.map(row => row.assignee_id),
+          ...(await filterAuditViewers(reviewers, audit.id))
+        ],
+        user.id,
+        {
+          type: 'STATUS_CHANGED',
+          auditId: audit.id,
+          message: `${user.username} moved audit "${audit.title}" to ${toLabel} (${transition.label})` +
+            (comment ? `: ${comment}` : '')
+        }
+      );
+    });
+
+    return res.json(formatAudit((await findAudit(audit.id))!));
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error('Error changing audit state:', error);
+    return res.status(500).json({ message: 'Error changing audit state' });
+  }
+};
+
+/**
+ * Active users that tasks can be assigned to
+ */
+export const getAssignableUsers = async (_req: Request, res: Response) => {
+  try {
+    const [users] = await pool.query<RowDataPacket[]>(
+      `SELECT id, username, first_name, last_name, role, position
+       FROM users WHERE is_active = true ORDER BY first_name, last_name, username`
+    );
+
+    return res.json(users.map(user => ({
+      id: user.id,
+      username: user.username,
+      name: displayName(user.first_name, user.last_name, user.username),
+      role: user.role,
+      position: user.position
+    })));
+  } catch (error) {
+    console.error('Error fetching assignable users:', error);
+    return res.status(500).json({ message: 'Error fetching assignable users' });
+  }
+};
+
+// Tasks
+
+export const getAuditTasks = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { auditId, assignee, approvalStatus, status } = req.query;
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (auditId) {
+      conditions.push('t.audit_id = ?');
+      params.push(Number(auditId));
+    } else {
+      conditions.push('ea.archived_at IS NULL');
+    }
+    if (assignee === 'me') {
+      conditions.push('t.assignee_id = ?');
+      params.push(user.id);
+    }
+    if (approvalStatus) {
+      conditions.push('t.approval_status = ?');
+      params.push(String(approvalStatus));
+    }
+    if (status) {
+      conditions.push('t.status = ?');
+      params.push(String(status));
+    }
+    // Assignees keep seeing their own tasks even if they were since taken off the team
+    const scope = await getAuditScope(user, 't.audit_id');
+    if (scope) {
+      conditions.push(`(${scope.clause} OR t.assignee_id = ?)`);
+      params.push(...scope.params, user.id);
+    }
+
+    const [tasks] = await pool.query<AuditTask[]>(
+      `${TASK_SELECT} WHERE ${conditions.join(' AND ')}
+       ORDER BY t.due_date IS NULL, t.due_date ASC, t.id ASC`,
+      params
+    );
+
+    return res.json(await formatTasksWithComments(tasks));
+  } catch (error) {
+    console.error('Error fetching audit tasks:', error);
+    return res.status(500).json({ message: 'Error fetching audit tasks' });
+  }
+};
+
+export const createAuditTask = async (req: Request, res: Response) => {
+  try {
+    const audit = await findAudit(req.params.id);
+    if (!audit) {
+      return res.status(404).json({ message: 'Energy audit not found' });
+    }
+    if (!(await canAccessAudit(audit, req.user!))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+    if (audit.archived_at) {
+      return res.status(409).json({ message: 'Tasks cannot be added to an archived audit' });
+    }
+
+    const { title, description, assigneeId, status, priority, dueDate } = req.body;
+    if (!title || typeof title !== 'string') {
+      return res.status(400).json({ message: 'Task title is required' });
+    }
+    if (status && !TASK_STATUSES.includes(status)) {
+      return res.status(400).json({ message: `Status must be one of: ${TASK_STATUSES.join(', ')}` });
+    }
+    if (priority && !TASK_PRIORITIES.includes(priority)) {
+      return res.status(400).json({ message: `Priority must be one of: ${TASK_PRIORITIES.join(', ')}` });
+    }
+
+    const [result] = await pool.query<ResultSetHeader>(
+      `INSERT INTO audit_tasks
+        (audit_id, title, description, assignee_id, status, priority, due_date, completed_date, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        audit.id,
+        title,
+        description || null,
+        assigneeId || null,
+        status || 'not_started',
+        priority || 'medium',
+        dueDate || null,
+        status === 'completed' ? new Date() : null,
+        req.user!.id
+      ]
+    );
+    // Assigning a task puts the assignee on the audit team
+    if (assigneeId) {
+      await addTeamMember(pool, audit.id, Number(assigneeId), 'auditor', req.user!.id);
+    }
+
+    return respondWithTask(res, result.insertId, 201);
+  } catch (error) {
+    console.error('Error creating audit task:', error);
+    return res.status(500).json({ message: 'Error creating audit task' });
+  }
+};
+
+/**
+ * Managers can change any field; an assignee can only move their own task's status
+ */
+export const updateAuditTask = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const task = await findTask(req.params.taskId);
+
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    const { title, description, assigneeId, status, priority, dueDate } = req.body;
+    const editor = await hasPermission(user, 'audit.edit');
+
+    if (editor && !(await canViewAuditData(user, task.audit_id))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+    if (!editor) {
+      const editsOtherFields = [title, description, assigneeId, priority, dueDate].some(value => value !== undefined);
+      if (task.assignee_id !== user.id || editsOtherFields) {
+        return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+      }
+    }
+    if (status !== undefined && !TASK_STATUSES.includes(status)) {
+      return res.status(400).json({ message: `Status must be one of: ${TASK_STATUSES.join(', ')}` });
+    }
+    if (priority !== undefined && !TASK_PRIORITIES.includes(priority)) {
+      return res.status(400).json({ message: `Priority must be one of: ${TASK_PRIORITIES.join(', ')}` });
+    }
+    if (title !== undefined && !title) {
+      return res.status(400).json({ message: 'Task title is required' });
+    }
+
+    const nextStatus: AuditTaskStatus = status ?? task.status;
+    let completedDate = task.completed_date;
+    if (nextStatus === 'completed' && task.status !== 'completed') {
+      completedDate = new Date();
+    } else if (nextStatus !== 'completed') {
+      completedDate = null;
+    }
+
+    await pool.query<ResultSetHeader>(
+      `UPDATE audit_tasks
+       SET title = ?, description = ?, assignee_id = ?, status = ?, priority = ?, due_date = ?, completed_date = ?
+       WHERE id = ?`,
+      [
+        title ?? task.title,
+        description !== undefined ? description || null : task.description,
+        assigneeId !== undefined ? assigneeId || null : task.assignee_id,
+        nextStatus,
+        priority ?? task.priority,
+        dueDate !== undefined ? dueDate || null : task.due_date,
+        completedDate,
+        task.id
+      ]
+    );
+    if (assigneeId && assigneeId !== task.assignee_id) {
+      await addTeamMember(pool, task.audit_id, Number(assigneeId), 'auditor', user.id);
+    }
+
+    return respondWithTask(res, task.id);
+  } catch (error) {
+    console.error('Error updating audit task:', error);
+    return res.status(500).json({ message: 'Error updating audit task' });
+  }
+};
+
+export const deleteAuditTask = async (req: Request, res: Response) => {
+  try {
+    const task = await findTask(req.params.taskId);
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+    if (!(await canViewAuditData(req.user!, task.audit_id))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
+    await pool.query<ResultSetHeader>('DELETE FROM audit_tasks WHERE id = ?', [task.id]);
+
+    return res.json({ message: 'Task deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting audit task:', error);
+    return res.status(500).json({ message: 'Error deleting audit task' });
+  }
+};
+
+/**
+ * Submit a task for approval
+ */
+export const submitAuditTask = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const task = await findTask(req.params.taskId);
+
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+    if (task.assignee_id !== user.id &&
+        (!(await hasPermission(user, 'audit.edit')) || !(await canViewAuditData(user, task.audit_id)))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
+    const submittable: AuditTaskApprovalStatus[] = ['not_submitted', 'rejected'];
+    if (!submittable.includes(task.approval_status)) {
+      return res.status(409).json({ message: `Task is already ${task.approval_status}` });
+    }
+
+    await pool.query<ResultSetHeader>(
+      "UPDATE audit_tasks SET approval_status = 'pending', approved_by = NULL, approved_at = NULL WHERE id = ?",
+      [task.id]
+    );
+    if (req.body.comment) {
+      await addComment(task.id, user.id, String(req.body.comment));
+    }
+    await recordTransition(pool, 'audit_task', task.id, user.id, {
+      from: task.approval_status,
+      to: 'pending',
+      label: 'Submit for Approval',
+      comment: req.body.comment
+    });
+
+    const audit = await findAudit(task.audit_id);
+    const approvers = await filterAuditViewers(await getUsersWithPermission('audit.approve'), task.audit_id);
+    await notifyUsers(pool, [audit?.user_id, ...approvers], user.id, {
+      type: 'APPROVAL_REQUESTED',
+      auditId: task.audit_id,
+      message: `${user.username} submitted task "${task.title}" for approval`
+    });
+
+    return respondWithTask(res, task.id);
+  } catch (error) {
+    console.error('Error submitting audit task:', error);
+    return res.status(500).json({ message: 'Error submitting audit task' });
+  }
+};
+
+const reviewAuditTask = async (req: Request, res: Response, decision: 'approved' | 'rejected') => {
+  const user = req.user!;
+  const task = await findTask(req.params.taskId);
+
+  if (!task) {
+    return res.status(404).json({ message: 'Task not found' });
+  }
+  if (!(await canViewAuditData(user, task.audit_id))) {
+    return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+  }
+  if (task.approval_status !== 'pending') {
+    return res.status(409).json({ message: 'Only tasks pending approval can be reviewed' });
+  }
+
+  if (decision === 'approved') {
+    await pool.query<ResultSetHeader>(
+      "UPDATE audit_tasks SET approval_status = 'approved', approved_by = ?, approved_at = CURRENT_TIMESTAMP WHERE id = ?",
+      [user.id, task.id]
+    );
+  } else {
+    await pool.query<ResultSetHeader>(
+      "UPDATE audit_tasks SET approval_status = 'rejected', approved_by = NULL, approved_at = NULL WHERE id = ?",
+      [task.id]
+    );
+  }
+
+  const defaultComment = decision === 'approved' ? 'Task approved' : 'Task rejected - needs revisions';
+  const comment = req.body.comment ? String(req.body.comment) : defaultComment;
+  await addComment(task.id, user.id, comment);
+  await recordTransition(pool, 'audit_task', task.id, user.id, {
+    from: 'pending',
+    to: decision,
+    label: decision === 'approved' ? 'Approve' : 'Reject',
+    comment
+  });
+  await notifyUsers(pool, [task.assignee_id], user.id, {
+    type: decision === 'approved' ? 'TASK_APPROVED' : 'TASK_REJECTED',
+    auditId: task.audit_id,
+    message: `${user.username} ${decision} task "${task.title}": ${comment}`
+  });
+
+  return respondWithTask(res, task.id);
+};
+
+export const approveAuditTask = async (req: Request, res: Response) => {
+  try {
+    return await reviewAuditTask(req, res, 'approved');
+  } catch (error) {
+    console.error('Error approving audit task:', error);
+    return res.status(500).json({ message: 'Error approving audit task' });
+  }
+};
+
+export const rejectAuditTask = async (req: Request, res: Response) => {
+  try {
+    return await reviewAuditTask(req, res, 'rejected');
+  } catch (error) {
+    console.error('Error rejecting audit task:', error);
+    return res.status(500).json({ message: 'Error rejecting audit task' });
+  }
+};
+
+// Task comments
+
+export const getAuditTaskComments = async (req: Request, res: Response) => {
+  try {
+    const task = await findTask(req.params.taskId);
+
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+    if (!(await canAccessTask(task, req.user!))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
+    const comments = await getComments([task.id]);
+    return res.json(comments.map(formatComment));
+  } catch (error) {
+    console.error('Error fetching task comments:', error);
+    return res.status(500).json({ message: 'Error fetching task comments' });
+  }
+};
+
+export const addAuditTaskComment = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { content } = req.body;
+    const task = await findTask(req.params.taskId);
+
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+    if (!(await canAccessTask(task, user))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+    if (!content || typeof content !== 'string' || !content.trim()) {
+      return res.status(400).json({ message: 'Comment content is required' });
+    }
+
+    const [result] = await addComment(task.id, user.id, content.trim());
+    const [comments] = await pool.query<AuditTaskComment[]>(
+      `SELECT c.*, u.username, u.first_name, u.last_name
+       FROM audit_task_comments c
+       JOIN users u ON c.user_id = u.id
+       WHERE c.id = ?`,
+      [result.insertId]
+    );
+
+    return res.status(201).json(formatComment(comments[0]));
+  } catch (error) {
+    console.error('Error adding task comment:', error);
+    return res.status(500).json({ message: 'Error adding task comment' });
   }
-}; 
\ No newline at end of file
+};
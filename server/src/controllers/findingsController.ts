@@ -1,11 +1,38 @@
 import { Request, Response } from 'express';
-import { pool } from '../config/database';
-import { ResultSetHeader } from 'mysql2';
+import { pool, transaction } from '../config/database';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
 import { Finding } from '../types';
+import { canViewAuditData, canViewFinding, getFindingScope } from '../utils/auditTeams';
+import { AppError } from '../utils/errorHandler';
+import { loadPermissions } from '../utils/permissions';
+import {
+  applyTransition,
+  getAvailableTransitions,
+  getInitialState,
+  getWorkflowDefinition,
+  notifyUsers
+} from '../utils/workflow';
 
-export const getAllFindings = async (_req: Request, res: Response) => {
+/**
+ * Findings of the audits the caller works on, optionally narrowed with ?auditId=
+ */
+export const getAllFindings = async (req: Request, res: Response) => {
   try {
-    const [findings] = await pool.query<Finding[]>('SELECT * FROM findings');
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (req.query.auditId) {
+      conditions.push('f.audit_id = ?');
+      params.push(Number(req.query.auditId));
+    }
+    const scope = await getFindingScope(req.user!);
+    if (scope) {
+      conditions.push(scope.clause);
+      params.push(...scope.params);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const [findings] = await pool.query<Finding[]>(`SELECT f.* FROM findings f ${where}`, params);
     return res.json(findings);
   } catch (error) {
     console.error('Error fetching findings:', error);
@@ -24,6 +51,9 @@ export const getFindingById = async (req: Request, res: Response) => {
     if (findings.length === 0) {
       return res.status(404).json({ message: 'Finding not found' });
     }
+    if (!(await canViewFinding(req.user!, findings[0]))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
 
     return res.json(findings[0]);
   } catch (error) {
@@ -34,9 +64,16 @@ export const getFindingById = async (req: Request, res: Response) => {
 
 export const createFinding = async (req: Request, res: Response) => {
   try {
-    const { title, description, type, status, severity, auditId } = req.body;
+    const { title, description, type, severity, auditId } = req.body;
     const userId = req.user?.id;
 
+    if (auditId && !(await canViewAuditData(req.user!, auditId))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
+    // New findings always start in the workflow's initial state
+    const status = getInitialState(await getWorkflowDefinition('finding'));
+
     const [result] = await pool.query<ResultSetHeader>(
       'INSERT INTO findings (title, description, type, status, severity, audit_id, created_by) VALUES (?, ?, ?, ?, ?, ?, ?)',
       [title, description, type, status, severity, auditId, userId]
@@ -47,6 +84,9 @@ export const createFinding = async (req: Request, res: Response) => {
       findingId: result.insertId
     });
   } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
     console.error('Error creating finding:', error);
     return res.status(500).json({ message: 'Error creating finding' });
   }
@@ -57,14 +97,21 @@ export const updateFinding = async (req: Request, res: Response) => {
     const { id } = req.params;
     const { title, description, type, status, severity } = req.body;
 
-    const [result] = await pool.query<ResultSetHeader>(
-      'UPDATE findings SET title = ?, description = ?, type = ?, status = ?, severity = ? WHERE id = ?',
-      [title, description, type, status, severity, id]
-    );
-
-    if (result.affectedRows === 0) {
+    const [findings] = await pool.query<Finding[]>('SELECT * FROM findings WHERE id = ?', [id]);
+    if (findings.length === 0) {
       return res.status(404).json({ message: 'Finding not found' });
     }
+    if (!(await canViewFinding(req.user!, findings[0]))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+    if (status !== undefined && status !== findings[0].status) {
+      return res.status(409).json({ message: 'Finding status can only change through a workflow transition' });
+    }
+
+    await pool.query<ResultSetHeader>(
+      'UPDATE findings SET title = ?, description = ?, type = ?, severity = ? WHERE id = ?',
+      [title, description, type, severity, id]
+    );
 
     return res.json({ message: 'Finding updated successfully' });
   } catch (error) {
@@ -76,14 +123,15 @@ export const updateFinding = async (req: Request, res: Response) => {
 export const deleteFinding = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const [result] = await pool.query<ResultSetHeader>(
-      'DELETE FROM findings WHERE id = ?',
-      [id]
-    );
-
-    if (result.affectedRows === 0) {
+    const [findings] = await pool.query<Finding[]>('SELECT * FROM findings WHERE id = ?', [id]);
+    if (findings.length === 0) {
       return res.status(404).json({ message: 'Finding not found' });
     }
+    if (!(await canViewFinding(req.user!, findings[0]))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
+    await pool.query<ResultSetHeader>('DELETE FROM findings WHERE id = ?', [id]);
 
     return res.json({ message: 'Finding deleted successfully' });
   } catch (error) {
@@ -97,18 +145,128 @@ export const assignFinding = async (req: Request, res: Response) => {
     const { id } = req.params;
     const { assignedTo } = req.body;
 
-    const [result] = await pool.query<ResultSetHeader>(
-      'UPDATE findings SET assigned_to = ? WHERE id = ?',
-      [assignedTo, id]
-    );
-
-    if (result.affectedRows === 0) {
+    const [findings] = await pool.query<Finding[]>('SELECT * FROM findings WHERE id = ?', [id]);
+    if (findings.length === 0) {
       return res.status(404).json({ message: 'Finding not found' });
     }
+    if (!(await canViewFinding(req.user!, findings[0]))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+    // A finding can only be handed to someone who can see it
+    if (assignedTo && findings[0].audit_id && !(await canViewAuditData({ id: Number(assignedTo) }, findings[0].audit_id))) {
+      return res.status(400).json({ message: 'Findings can only be assigned to members of the audit team' });
+    }
+
+    await pool.query<ResultSetHeader>('UPDATE findings SET assigned_to = ? WHERE id = ?', [assignedTo, id]);
 
     return res.json({ message: 'Finding assigned successfully' });
   } catch (error) {
     console.error('Error assigning finding:', error);
     return res.status(500).json({ message: 'Error assigning finding' });
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Current workflow state of a finding and the transitions the caller may trigger
+ */
+export const getFindingTransitions = async (req: Request, res: Response) => {
+  try {
+    const [findings] = await pool.query<Finding[]>('SELECT * FROM findings WHERE id = ?', [req.params.id]);
+    if (findings.length === 0) {
+      return res.status(404).json({ message: 'Finding not found' });
+    }
+    if (!(await canViewFinding(req.user!, findings[0]))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
+    const definition = await getWorkflowDefinition('finding');
+    const [logs] = await pool.query<RowDataPacket[]>(
+      `SELECT l.*, u.username
+       FROM audit_logs l
+       LEFT JOIN users u ON l.user_id = u.id
+       WHERE l.entity_type = 'finding' AND l.entity_id = ? AND l.action = 'WORKFLOW_TRANSITION'
+       ORDER BY l.id ASC`,
+      [String(findings[0].id)]
+    );
+
+    return res.json({
+      status: findings[0].status,
+      availableTransitions: getAvailableTransitions(definition, findings[0].status, await loadPermissions(req.user!)),
+      history: logs.map(log => {
+        const details = typeof log.details === 'string' ? JSON.parse(log.details) : log.details || {};
+        return {
+          id: log.id,
+          from: details.from,
+          to: details.to,
+          label: details.label,
+          comment: details.comment || null,
+          userId: log.user_id,
+          user: log.username || '',
+          date: log.created_at
+        };
+      })
+    });
+  } catch (error) {
+    console.error('Error fetching finding transitions:', error);
+    return res.status(500).json({ message: 'Error fetching finding transitions' });
+  }
+};
+
+/**
+ * Move a finding to another workflow state and notify its creator and assignee
+ */
+export const transitionFinding = async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { toState, comment } = req.body;
+    if (!toState || typeof toState !== 'string') {
+      return res.status(400).json({ message: 'Target state is required' });
+    }
+
+    const [visible] = await pool.query<Finding[]>('SELECT * FROM findings WHERE id = ?', [req.params.id]);
+    if (visible.length > 0 && !(await canViewFinding(user, visible[0]))) {
+      return res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
+    }
+
+    const found = await transaction(async connection => {
+      const [rows] = await connection.query<RowDataPacket[]>(
+        'SELECT * FROM findings WHERE id = ? FOR UPDATE',
+        [req.params.id]
+      );
+      if (rows.length === 0) {
+        return false;
+      }
+
+      const finding = rows[0];
+      const { transition } = await applyTransition(connection, {
+        entityType: 'finding',
+        entityId: finding.id,
+        fromState: finding.status,
+        toState,
+        actor: user,
+        comment: comment ? String(comment) : undefined
+      });
+      await connection.query('UPDATE findings SET status = ? WHERE id = ?', [toState, finding.id]);
+      await notifyUsers(connection, [finding.created_by, finding.assigned_to], user.id, {
+        type: 'STATUS_CHANGED',
+        findingId: finding.id,
+        message: `${user.username} moved finding "${finding.title}" to ${toState} (${transition.label})` +
+          (comment ? `: ${comment}` : '')
+      });
+      return true;
+    });
+
+    if (!found) {
+      return res.status(404).json({ message: 'Finding not found' });
+    }
+
+    const [findings] = await pool.query<Finding[]>('SELECT * FROM findings WHERE id = ?', [req.params.id]);
+    return res.json(findings[0]);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error('Error changing finding state:', error);
+    return res.status(500).json({ message: 'Error changing finding state' });
+  }
+};
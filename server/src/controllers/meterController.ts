@@ -0,0 +1,426 @@
+import { Request, Response } from 'express';
+import { ResultSetHeader } from 'mysql2';
+import { pool } from '../config/database';
+import { Building, Meter, MeterProtocol, Panel, PowerReading } from '../types';
+import { canViewBuilding, canViewMeter, getBuildingScope } from '../utils/buildingAccess';
+import {
+  formatReading,
+  ingestReadings,
+  MAX_READINGS_PER_REQUEST,
+  parseReadingsCsv
+} from '../utils/meterReadings';
+import { validateRegisterMap } from '../utils/modbus';
+
+const METER_PROTOCOLS: MeterProtocol[] = ['manual', 'modbus_tcp'];
+const DEFAULT_READING_LIMIT = 1000;
+
+const METER_SELECT = `
+  SELECT m.*, b.name AS building_name, p.name AS panel_name
+  FROM meters m
+  JOIN buildings b ON m.building_id = b.id
+  LEFT JOIN panels p ON m.panel_id = p.id`;
+
+const formatBuilding = (building: Building) => ({
+  id: building.id,
+  name: building.name,
+  address: building.address,
+  buildingType: building.building_type,
+  floorArea: building.floor_area !== null ? Number(building.floor_area) : null,
+  createdAt: building.created_at,
+  updatedAt: building.updated_at
+});
+
+const formatPanel = (panel: Panel) => ({
+  id: panel.id,
+  buildingId: panel.building_id,
+  parentPanelId: panel.parent_panel_id,
+  name: panel.name,
+  location: panel.location,
+  voltageRating: panel.voltage_rating !== null ? Number(panel.voltage_rating) : null
+});
+
+const formatMeter = (meter: Meter) => ({
+  id: meter.id,
+  buildingId: meter.building_id,
+  buildingName: meter.building_name,
+  panelId: meter.panel_id,
+  panelName: meter.panel_name || null,
+  name: meter.name,
+  serialNumber: meter.serial_number,
+  intervalMinutes: meter.interval_minutes,
+  protocol: meter.protocol,
+  modbusHost: meter.modbus_host,
+  modbusPort: meter.modbus_port,
+  modbusUnitId: meter.modbus_unit_id,
+  modbusRegisterMap: typeof meter.modbus_register_map === 'string'
+    ? JSON.parse(meter.modbus_register_map)
+    : meter.modbus_register_map,
+  pollIntervalSeconds: meter.poll_interval_seconds,
+  isActive: Boolean(meter.is_active),
+  lastReadingAt: meter.last_reading_at,
+  lastError: meter.last_error,
+  createdAt: meter.created_at,
+  updatedAt: meter.updated_at
+});
+
+const findMeter = async (id: string | number) => {
+  const [meters] = await pool.query<Meter[]>(`${METER_SELECT} WHERE m.id = ?`, [id]);
+  return meters.length > 0 ? meters[0] : null;
+};
+
+/**
+ * Check meter settings shared by create and update; returns an error message or null
+ */
+const validateMeterSettings = async (settings: Record<string, any>, buildingId: number) => {
+  const { panelId, protocol, modbusHost, modbusRegisterMap, intervalMinutes, pollIntervalSeconds } = settings;
+
+  if (protocol !== undefined && !METER_PROTOCOLS.includes(protocol)) {
+    return `Protocol must be one of: ${METER_PROTOCOLS.join(', ')}`;
+  }
+  if (protocol === 'modbus_tcp' && !modbusHost) {
+    return 'Modbus host is required for Modbus-TCP meters';
+  }
+  if (modbusRegisterMap) {
+    const registerError = validateRegisterMap(modbusRegisterMap);
+    if (registerError) return registerError;
+  }
+  if (intervalMinutes !== undefined && (!Number.isInteger(intervalMinutes) || intervalMinutes < 1 || intervalMinutes > 1440)) {
+    return 'intervalMinutes must be an integer from 1 to 1440';
+  }
+  if (pollIntervalSeconds !== undefined && (!Number.isInteger(pollIntervalSeconds) || pollIntervalSeconds < 5)) {
+    return 'pollIntervalSeconds must be an integer of at least 5';
+  }
+  if (panelId) {
+    const [panels] = await pool.query<Panel[]>('SELECT * FROM panels WHERE id = ? AND building_id = ?', [panelId, buildingId]);
+    if (panels.length === 0) {
+      return 'Panel does not belong to the selected building';
+    }
+  }
+  return null;
+};
+
+// Buildings and panels
+
+export const getBuildings = async (req: Request, res: Response) => {
+  try {
+    const scope = await getBuildingScope(req.user!, 'id');
+    const [buildings] = await pool.query<Building[]>(
+      `SELECT * FROM buildings ${scope ? `WHERE ${scope.clause}` : ''} ORDER BY name`,
+      scope?.params ?? []
+    );
+    return res.json(buildings.map(formatBuilding));
+  } catch (error) {
+    console.error('Error fetching buildings:', error);
+    return res.status(500).json({ message: 'Error fetching buildings' });
+  }
+};
+
+export const createBuilding = async (req: Request, res: Response) => {
+  try {
+    const { name, address, buildingType, floorArea } = req.body;
+    if (!name || typeof name !== 'string') {
+      return res.status(400).json({ message: 'Building name is required' });
+    }
+
+    const [result] = await pool.query<ResultSetHeader>(
+      'INSERT INTO buildings (name, address, building_type, floor_area, created_by) VALUES (?, ?, ?, ?, ?)',
+      [name, address || null, buildingType || null, floorArea ?? null, req.user!.id]
+    );
+
+    const [buildings] = await pool.query<Building[]>('SELECT * FROM buildings WHERE id = ?', [result.insertId]);
+    return res.status(201).json(formatBuilding(buildings[0]));
+  } catch (error) {
+    console.error('Error creating building:', error);
+    return res.status(500).json({ message: 'Error creating building' });
+  }
+};
+
+export const getPanels = async (req: Request, res: Response) => {
+  try {
+    if (!(await canViewBuilding(req.user!, req.params.buildingId))) {
+      return res.status(404).json({ message: 'Building not found' });
+    }
+    const [panels] = await pool.query<Panel[]>(
+      'SELECT * FROM panels WHERE building_id = ? ORDER BY name',
+      [req.params.buildingId]
+    );
+    return res.json(panels.map(formatPanel));
+  } catch (error) {
+    console.error('Error fetching panels:', error);
+    return res.status(500).json({ message: 'Error fetching panels' });
+  }
+};
+
+export const createPanel = async (req: Request, res: Response) => {
+  try {
+    const { name, location, parentPanelId, voltageRating } = req.body;
+    const buildingId = Number(req.params.buildingId);
+    if (!name || typeof name !== 'string') {
+      return res.status(400).json({ message: 'Panel name is required' });
+    }
+
+    const [buildings] = await pool.query<Building[]>('SELECT id FROM buildings WHERE id = ?', [buildingId]);
+    if (buildings.length === 0) {
+      return res.status(404).json({ message: 'Building not found' });
+    }
+
+    const [result] = await pool.query<ResultSetHeader>(
+      'INSERT INTO panels (building_id, parent_panel_id, name, location, voltage_rating) VALUES (?, ?, ?, ?, ?)',
+      [buildingId, parentPanelId || null, name, location || null, voltageRating ?? null]
+    );
+
+    const [panels] = await pool.query<Panel[]>('SELECT * FROM panels WHERE id = ?', [result.insertId]);
+    return res.status(201).json(formatPanel(panels[0]));
+  } catch (error: any) {
+    if (error?.code === 'ER_DUP_ENTRY') {
+      return res.status(409).json({ message: 'A panel with this name already exists in the building' });
+    }
+    console.error('Error creating panel:', error);
+    return res.status(500).json({ message: 'Error creating panel' });
+  }
+};
+
+// Meters
+
+export const getMeters = async (req: Request, res: Response) => {
+  try {
+    const { buildingId } = req.query;
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (buildingId) {
+      conditions.push('m.building_id = ?');
+      params.push(Number(buildingId));
+    }
+    const scope = await getBuildingScope(req.user!, 'm.building_id');
+    if (scope) {
+      conditions.push(scope.clause);
+      params.push(...scope.params);
+    }
+    const [meters] = await pool.query<Meter[]>(
+      `${METER_SELECT} ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY ${buildingId ? 'm.name' : 'b.name, m.name'}`,
+      params
+    );
+    return res.json(meters.map(formatMeter));
+  } catch (error) {
+    console.error('Error fetching meters:', error);
+    return res.status(500).json({ message: 'Error fetching meters' });
+  }
+};
+
+export const getMeterById = async (req: Request, res: Response) => {
+  try {
+    const meter = await findMeter(req.params.meterId);
+    if (!meter || !(await canViewMeter(req.user!, meter.id))) {
+      return res.status(404).json({ message: 'Meter not found' });
+    }
+    return res.json(formatMeter(meter));
+  } catch (error) {
+    console.error('Error fetching meter:', error);
+    return res.status(500).json({ message: 'Error fetching meter' });
+  }
+};
+
+export const createMeter = async (req: Request, res: Response) => {
+  try {
+    const {
+      buildingId, panelId, name, serialNumber, intervalMinutes, protocol,
+      modbusHost, modbusPort, modbusUnitId, modbusRegisterMap, pollIntervalSeconds
+    } = req.body;
+
+    if (!name || typeof name !== 'string') {
+      return res.status(400).json({ message: 'Meter name is required' });
+    }
+    const [buildings] = await pool.query<Building[]>('SELECT id FROM buildings WHERE id = ?', [buildingId]);
+    if (buildings.length === 0) {
+      return res.status(400).json({ message: 'A valid building is required' });
+    }
+    const validationError = await validateMeterSettings(req.body, Number(buildingId));
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    const [result] = await pool.query<ResultSetHeader>(
+      `INSERT INTO meters
+        (building_id, panel_id, name, serial_number, interval_minutes, protocol,
+         modbus_host, modbus_port, modbus_unit_id, modbus_register_map, poll_interval_seconds)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        buildingId,
+        panelId || null,
+        name,
+        serialNumber || null,
+        intervalMinutes ?? 15,
+        protocol || 'manual',
+        modbusHost || null,
+        modbusPort ?? 502,
+        modbusUnitId ?? 1,
+        modbusRegisterMap ? JSON.stringify(modbusRegisterMap) : null,
+        pollIntervalSeconds ?? 60
+      ]
+    );
+
+    return res.status(201).json(formatMeter((await findMeter(result.insertId))!));
+  } catch (error: any) {
+    if (error?.code === 'ER_DUP_ENTRY') {
+      return res.status(409).json({ message: 'A meter with this serial number already exists' });
+    }
+    console.error('Error creating meter:', error);
+    return res.status(500).json({ message: 'Error creating meter' });
+  }
+};
+
+export const updateMeter = async (req: Request, res: Response) => {
+  try {
+    const meter = await findMeter(req.params.meterId);
+    if (!meter) {
+      return res.status(404).json({ message: 'Meter not found' });
+    }
+
+    const settings = {
+      protocol: meter.protocol,
+      modbusHost: meter.modbus_host,
+      ...req.body
+    };
+    const validationError = await validateMeterSettings(settings, meter.building_id);
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    const fields: Record<string, string> = {
+      panelId: 'panel_id',
+      name: 'name',
+      serialNumber: 'serial_number',
+      intervalMinutes: 'interval_minutes',
+      protocol: 'protocol',
+      modbusHost: 'modbus_host',
+      modbusPort: 'modbus_port',
+      modbusUnitId: 'modbus_unit_id',
+      modbusRegisterMap: 'modbus_register_map',
+      pollIntervalSeconds: 'poll_interval_seconds',
+      isActive: 'is_active'
+    };
+    const updates = Object.keys(fields).filter(key => req.body[key] !== undefined);
+    if (updates.length === 0) {
+      return res.status(400).json({ message: 'No fields to update' });
+    }
+
+    const values = updates.map(key => {
+      if (key === 'modbusRegisterMap') {
+        return req.body[key] ? JSON.stringify(req.body[key]) : null;
+      }
+      return req.body[key] === '' ? null : req.body[key];
+    });
+    await pool.query<ResultSetHeader>(
+      `UPDATE meters SET ${updates.map(key => `${fields[key]} = ?`).join(', ')} WHERE id = ?`,
+      [...values, meter.id]
+    );
+
+    return res.json(formatMeter((await findMeter(meter.id))!));
+  } catch (error: any) {
+    if (error?.code === 'ER_DUP_ENTRY') {
+      return res.status(409).json({ message: 'A meter with this serial number already exists' });
+    }
+    console.error('Error updating meter:', error);
+    return res.status(500).json({ message: 'Error updating meter' });
+  }
+};
+
+// Readings
+
+export const getMeterReadings = async (req: Request, res: Response) => {
+  try {
+    if (!(await canViewMeter(req.user!, req.params.meterId))) {
+      return res.status(404).json({ message: 'Meter not found' });
+    }
+
+    const { from, to, limit } = req.query;
+    const conditions = ['meter_id = ?'];
+    const params: any[] = [Number(req.params.meterId)];
+
+    if (from) {
+      conditions.push('timestamp >= ?');
+      params.push(new Date(String(from)));
+    }
+    if (to) {
+      conditions.push('timestamp <= ?');
+      params.push(new Date(String(to)));
+    }
+    const rowLimit = Math.min(Number(limit) || DEFAULT_READING_LIMIT, MAX_READINGS_PER_REQUEST);
+
+    const [readings] = await pool.query<PowerReading[]>(
+      `SELECT * FROM power_readings WHERE ${conditions.join(' AND ')} ORDER BY timestamp DESC LIMIT ?`,
+      [...params, rowLimit]
+    );
+    return res.json(readings.reverse().map(formatReading));
+  } catch (error) {
+    console.error('Error fetching meter readings:', error);
+    return res.status(500).json({ message: 'Error fetching meter readings' });
+  }
+};
+
+/**
+ * Bulk JSON ingestion: either an array of readings or { readings: [...] }
+ */
+export const ingestMeterReadings = async (req: Request, res: Response) => {
+  try {
+    const meter = await findMeter(req.params.meterId);
+    if (!meter) {
+      return res.status(404).json({ message: 'Meter not found' });
+    }
+    if (!meter.is_active) {
+      return res.status(409).json({ message: 'Meter is inactive' });
+    }
+
+    const readings = Array.isArray(req.body) ? req.body : req.body.readings;
+    if (!Array.isArray(readings) || readings.length === 0) {
+      return res.status(400).json({ message: 'Readings must be a non-empty array' });
+    }
+    if (readings.length > MAX_READINGS_PER_REQUEST) {
+      return res.status(413).json({ message: `At most ${MAX_READINGS_PER_REQUEST} readings can be sent per request` });
+    }
+
+    const result = await ingestReadings(
+      meter.id,
+      readings.map((raw, index) => ({ row: index + 1, raw })),
+      'api'
+    );
+    return res.status(result.inserted > 0 ? 201 : 200).json(result);
+  } catch (error) {
+    console.error('Error ingesting meter readings:', error);
+    return res.status(500).json({ message: 'Error ingesting meter readings' });
+  }
+};
+
+/**
+ * CSV or interval-data upload; ?intervalMinutes overrides the meter's interval for kWh-only files
+ */
+export const uploadMeterReadings = async (req: Request, res: Response) => {
+  try {
+    const meter = await findMeter(req.params.meterId);
+    if (!meter) {
+      return res.status(404).json({ message: 'Meter not found' });
+    }
+    if (!meter.is_active) {
+      return res.status(409).json({ message: 'Meter is inactive' });
+    }
+    if (!req.file) {
+      return res.status(400).json({ message: 'No file uploaded' });
+    }
+
+    const intervalMinutes = Number(req.query.intervalMinutes) || meter.interval_minutes;
+    const { rows, error } = parseReadingsCsv(req.file.buffer.toString('utf-8'), intervalMinutes);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    if (rows.length > MAX_READINGS_PER_REQUEST * 10) {
+      return res.status(413).json({ message: `Files can contain at most ${MAX_READINGS_PER_REQUEST * 10} readings` });
+    }
+
+    const result = await ingestReadings(meter.id, rows, 'csv');
+    return res.status(result.inserted > 0 ? 201 : 200).json(result);
+  } catch (error) {
+    console.error('Error uploading meter readings:', error);
+    return res.status(500).json({ message: 'Error uploading meter readings' });
+  }
+};
@@ -31,9 +31,11 @@ export const getNotifications = async (req: Request, res: Response) => {
         n.*,
         f.title as finding_title,
         f.severity as finding_severity,
-        f.status as finding_status
+        f.status as finding_status,
+        ea.title as audit_title
       FROM notifications n
-      JOIN findings f ON n.finding_id = f.id
+      LEFT JOIN findings f ON n.finding_id = f.id
+      LEFT JOIN energy_audits ea ON n.audit_id = ea.id
       WHERE n.user_id = ?
       ORDER BY n.created_at DESC
       LIMIT ? OFFSET ?`,
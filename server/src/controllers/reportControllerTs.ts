@@ -1,3 +1,4 @@
+import path from 'path';
 import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
 import { pool } from '../config/database';
@@ -5,6 +6,36 @@ import { UserRole } from '../types';
 
 // Import models
 import Report from '../models/Report';
+import { canEditAuditData, canViewAuditData, getTeamRole } from '../utils/auditTeams';
+import { UPLOAD_DIR } from '../utils/reportRenderer';
+import {
+  cancelRenderJob as cancelQueuedRenderJob,
+  enqueueRenderJob,
+  getRenderJob,
+  getRenderJobsForReport,
+  toPublicJob
+} from '../utils/reportRenderQueue';
+import {
+  ensureBaselineVersion,
+  getReportVersion as findReportVersion,
+  getReportVersions as findReportVersions,
+  recordReportVersion,
+  restoreReportVersion as restoreVersion
+} from '../utils/reportVersions';
+import {
+  createShareLink as createReportShareLink,
+  getShareLink,
+  getShareLinkAccessLog,
+  getShareLinksForReport,
+  revokeShareLink as revokeReportShareLink,
+  toPublicShareLink
+} from '../utils/reportShareLinks';
+import {
+  createReportSignature,
+  getReportSignatures as findReportSignatures,
+  hashReportContent,
+  toPublicSignature
+} from '../utils/reportSignatures';
 
 interface AuthenticatedRequest extends Request {
   user: {
@@ -14,6 +45,68 @@ interface AuthenticatedRequest extends Request {
   };
 }
 
+/**
+ * Reports linked to an audit are readable by its team, client viewers included once the report is
+ * published; others keep the sharing and public rules
+ * @param report Report row
+ * @param user Signed-in user
+ */
+const canViewReport = async (report: any, user: AuthenticatedRequest['user']): Promise<boolean> => {
+  if (report.created_by === user.id) {
+    return true;
+  }
+  if (report.audit_id) {
+    if (await canViewAuditData(user, report.audit_id)) {
+      return true;
+    }
+    if ((await getTeamRole(user.id, report.audit_id)) === 'client_viewer') {
+      return report.status === 'published';
+    }
+    return Report.checkUserAccess(report.id, user.id);
+  }
+  return Boolean(report.is_public) || Report.checkUserAccess(report.id, user.id);
+};
+
+/**
+ * Audit reports can be edited by the audit's working team and users with audit.edit, never by its
+ * client viewers
+ * @param report Report row
+ * @param user Signed-in user
+ */
+const canEditReport = async (report: any, user: AuthenticatedRequest['user']): Promise<boolean> => {
+  if (report.created_by === user.id) {
+    return true;
+  }
+  if (report.audit_id) {
+    if (await canEditAuditData(user, report.audit_id)) {
+      return true;
+    }
+    if ((await getTeamRole(user.id, report.audit_id)) === 'client_viewer') {
+      return false;
+    }
+  }
+  return Report.checkUserEditAccess(report.id, user.id);
+};
+
+/**
+ * Share links expose a report outside the platform, so they are managed by its owner, admins and
+ * users the report was shared with as admin
+ * @param report Report row
+ * @param user Signed-in user
+ */
+const canManageShareLinks = async (report: any, user: AuthenticatedRequest['user']): Promise<boolean> =>
+  report.created_by === user.id || user.role === UserRole.ADMIN || Report.checkUserAdminAccess(report.id, user.id);
+
+/**
+ * Keep only the reports a user can read
+ * @param reports Report rows
+ * @param user Signed-in user
+ */
+const filterVisibleReports = async (reports: any[], user: AuthenticatedRequest['user']) => {
+  const visible = await Promise.all(reports.map(report => canViewReport(report, user)));
+  return reports.filter((_, index) => visible[index]);
+};
+
 /**
  * Create a new report
  * @param {AuthenticatedRequest} req - Express request object
@@ -27,7 +120,15 @@ export const createReport = async (req: AuthenticatedRequest, res: Response): Pr
       return res.status(400).json({ success: false, errors: errors.array() });
     }
 
-    const { title, description, type, contents, metadata } = req.body;
+    const { title, description, type, contents, metadata, audit_id } = req.body;
+
+    // Only the audit's working team and users with audit.edit can file reports against it
+    if (audit_id && !(await canEditAuditData(req.user, audit_id))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to add reports to this audit'
+      });
+    }
     
     // Create report
     const reportId = await Report.create({
@@ -35,6 +136,7 @@ export const createReport = async (req: AuthenticatedRequest, res: Response): Pr
       description,
       type,
       created_by: req.user.id, // Assuming user info is added by auth middleware
+      audit_id: audit_id || null,
       is_template: req.body.is_template || false,
       is_public: req.body.is_public || false
     });
@@ -49,6 +151,8 @@ export const createReport = async (req: AuthenticatedRequest, res: Response): Pr
       await Report.updateMetadata(reportId, metadata);
     }
 
+    await recordReportVersion(reportId, req.user.id, { note: 'Created' });
+
     // Get the created report
     const report = await Report.getById(reportId);
 
@@ -85,16 +189,11 @@ export const getReportById = async (req: AuthenticatedRequest, res: Response): P
     }
 
     // Check if user has permission to access this report
-    // If not the creator, check sharing permissions
-    if (report.created_by !== req.user.id) {
-      const hasAccess = await Report.checkUserAccess(reportId, req.user.id);
-      
-      if (!hasAccess && !report.is_public) {
-        return res.status(403).json({
-          success: false,
-          message: 'You do not have permission to access this report'
-        });
-      }
+    if (!(await canViewReport(report, req.user))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to access this report'
+      });
     }
 
     return res.status(200).json({
@@ -118,10 +217,26 @@ export const getReportById = async (req: AuthenticatedRequest, res: Response): P
  */
 export const getAllReports = async (req: AuthenticatedRequest, res: Response): Promise<Response | void> => {
   try {
+    const auditId = req.query.audit_id ? Number(req.query.audit_id) : undefined;
+    let onlyPublished = false;
+
+    // An audit's reports are listed for its team; client viewers only see published ones
+    if (auditId && !(await canViewAuditData(req.user, auditId))) {
+      if ((await getTeamRole(req.user.id, auditId)) !== 'client_viewer') {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have permission to view reports of this audit'
+        });
+      }
+      onlyPublished = true;
+    }
+
     const filters: any = {
-      created_by: req.query.created_by || req.user.id, // Default to current user's reports
+      // Default to current user's reports unless listing an audit's
+      created_by: req.query.created_by || (auditId ? undefined : req.user.id),
+      audit_id: auditId,
       type: req.query.type,
-      status: req.query.status,
+      status: onlyPublished ? 'published' : req.query.status,
       is_template: req.query.is_template !== undefined 
         ? req.query.is_template === 'true' 
         : undefined,
@@ -137,7 +252,7 @@ export const getAllReports = async (req: AuthenticatedRequest, res: Response): P
       }
     });
 
-    const reports = await Report.getAll(filters);
+    const reports = await filterVisibleReports(await Report.getAll(filters), req.user);
 
     return res.status(200).json({
       success: true,
@@ -162,7 +277,7 @@ export const getAllReports = async (req: AuthenticatedRequest, res: Response): P
 export const updateReport = async (req: AuthenticatedRequest, res: Response): Promise<Response | void> => {
   try {
     const reportId = req.params.id;
-    const { title, description, type, contents, metadata, is_template, is_public, status, version } = req.body;
+    const { title, description, type, contents, metadata, is_template, is_public, status, version_note } = req.body;
 
     // Get existing report to check permissions
     const existingReport = await Report.getById(reportId);
@@ -175,26 +290,24 @@ export const updateReport = async (req: AuthenticatedRequest, res: Response): Pr
     }
 
     // Check if user has permission to update this report
-    if (existingReport.created_by !== req.user.id) {
-      const hasEditAccess = await Report.checkUserEditAccess(reportId, req.user.id);
-      
-      if (!hasEditAccess) {
-        return res.status(403).json({
-          success: false,
-          message: 'You do not have permission to update this report'
-        });
-      }
+    if (!(await canEditReport(existingReport, req.user))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to update this report'
+      });
     }
 
-    // Update report metadata
+    // Keep the state before this save if the report has no history yet
+    await ensureBaselineVersion(existingReport);
+
+    // Update report metadata; the version number is set when the new version is recorded
     await Report.update(reportId, {
       title,
       description,
       type,
       is_template,
       is_public,
-      status,
-      version
+      status
     });
 
     // Update contents if provided
@@ -213,6 +326,11 @@ export const updateReport = async (req: AuthenticatedRequest, res: Response): Pr
       await Report.updateMetadata(reportId, metadata);
     }
 
+    const publishing = status === 'published' && existingReport.status !== 'published';
+    await recordReportVersion(Number(reportId), req.user.id, {
+      note: version_note || (publishing ? 'Published' : null)
+    });
+
     // Get the updated report
     const updatedReport = await Report.getById(reportId);
 
@@ -338,7 +456,7 @@ export const shareReport = async (req: AuthenticatedRequest, res: Response): Pro
 export const getSharedReports = async (req: AuthenticatedRequest, res: Response): Promise<Response | void> => {
   try {
     const userId = req.user.id;
-    const reports = await Report.getSharedWithUser(userId);
+    const reports = await filterVisibleReports(await Report.getSharedWithUser(userId), req.user);
 
     return res.status(200).json({
       success: true,
@@ -353,4 +471,614 @@ export const getSharedReports = async (req: AuthenticatedRequest, res: Response)
       error: error.message
     });
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Get the published reports of audits the current user is a client viewer on
+ * @param {AuthenticatedRequest} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getClientReports = async (req: AuthenticatedRequest, res: Response): Promise<Response | void> => {
+  try {
+    const reports = await Report.getPublishedForClient(req.user.id);
+
+    return res.status(200).json({
+      success: true,
+      count: reports.length,
+      data: reports
+    });
+  } catch (error: any) {
+    console.error('Error in getClientReports:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve client reports',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Queue a report to be rendered to PDF on the server. Progress is pushed to the requesting user
+ * as reportRenderProgress socket events.
+ * @param {AuthenticatedRequest} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const renderReport = async (req: AuthenticatedRequest, res: Response): Promise<Response | void> => {
+  try {
+    const report = await Report.getById(req.params.id);
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report not found'
+      });
+    }
+
+    if (!(await canViewReport(report, req.user))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to render this report'
+      });
+    }
+
+    const { job, created } = await enqueueRenderJob(report.id, req.user.id);
+
+    return res.status(created ? 202 : 200).json({
+      success: true,
+      message: created ? 'Report queued for rendering' : 'Report is already being rendered',
+      data: toPublicJob(job)
+    });
+  } catch (error: any) {
+    console.error('Error in renderReport:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to queue report for rendering',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get the latest render jobs of a report
+ * @param {AuthenticatedRequest} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getRenderJobs = async (req: AuthenticatedRequest, res: Response): Promise<Response | void> => {
+  try {
+    const report = await Report.getById(req.params.id);
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report not found'
+      });
+    }
+
+    if (!(await canViewReport(report, req.user))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to access this report'
+      });
+    }
+
+    const jobs = await getRenderJobsForReport(report.id);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        jobs: jobs.map(toPublicJob),
+        rendered_at: report.rendered_at || null,
+        rendered_file_size: report.rendered_file_size || null
+      }
+    });
+  } catch (error: any) {
+    console.error('Error in getRenderJobs:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve render jobs',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Cancel a render job that has not started. Only the user who queued it or an editor of the
+ * report may cancel it.
+ * @param {AuthenticatedRequest} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const cancelRenderJob = async (req: AuthenticatedRequest, res: Response): Promise<Response | void> => {
+  try {
+    const job = await getRenderJob(req.params.jobId);
+
+    if (!job || String(job.report_id) !== String(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Render job not found'
+      });
+    }
+
+    const report = await Report.getById(job.report_id);
+    if (job.requested_by !== req.user.id && !(report && (await canEditReport(report, req.user)))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to cancel this render job'
+      });
+    }
+
+    if (!(await cancelQueuedRenderJob(job.id))) {
+      return res.status(409).json({
+        success: false,
+        message: 'Only jobs that are still queued can be cancelled'
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'Render job cancelled'
+    });
+  } catch (error: any) {
+    console.error('Error in cancelRenderJob:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to cancel render job',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Download the last server-rendered PDF of a report
+ * @param {AuthenticatedRequest} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const downloadRenderedReport = async (req: AuthenticatedRequest, res: Response): Promise<Response | void> => {
+  try {
+    const report = await Report.getById(req.params.id);
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report not found'
+      });
+    }
+
+    if (!(await canViewReport(report, req.user))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to access this report'
+      });
+    }
+
+    if (!report.rendered_file_path) {
+      return res.status(404).json({
+        success: false,
+        message: 'This report has not been rendered yet'
+      });
+    }
+
+    const renderedDate = new Date(report.rendered_at || Date.now()).toISOString().split('T')[0];
+    const fileName = `${String(report.title).replace(/[^\w.-]+/g, '_')}_${renderedDate}.pdf`;
+    return res.download(path.join(UPLOAD_DIR, report.rendered_file_path), fileName, (error) => {
+      if (error && !res.headersSent) {
+        console.error('Error sending rendered report:', error);
+        res.status(404).json({
+          success: false,
+          message: 'Rendered file is no longer available'
+        });
+      }
+    });
+  } catch (error: any) {
+    console.error('Error in downloadRenderedReport:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to download rendered report',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get the version history of a report, newest first. History includes unpublished drafts, so it
+ * is limited to users who can edit the report.
+ * @param {AuthenticatedRequest} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getReportVersions = async (req: AuthenticatedRequest, res: Response): Promise<Response | void> => {
+  try {
+    const report = await Report.getById(req.params.id);
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report not found'
+      });
+    }
+
+    if (!(await canEditReport(report, req.user))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to view the history of this report'
+      });
+    }
+
+    const versions = await findReportVersions(report.id);
+
+    return res.status(200).json({
+      success: true,
+      count: versions.length,
+      data: versions
+    });
+  } catch (error: any) {
+    console.error('Error in getReportVersions:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve report versions',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get one version of a report with its snapshot
+ * @param {AuthenticatedRequest} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getReportVersion = async (req: AuthenticatedRequest, res: Response): Promise<Response | void> => {
+  try {
+    const report = await Report.getById(req.params.id);
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report not found'
+      });
+    }
+
+    if (!(await canEditReport(report, req.user))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to view the history of this report'
+      });
+    }
+
+    const version = await findReportVersion(report.id, req.params.version);
+
+    if (!version) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report version not found'
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: version
+    });
+  } catch (error: any) {
+    console.error('Error in getReportVersion:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve report version',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Restore an earlier version of a report. The restore is stored as a new version, so the
+ * versions after it stay in the history.
+ * @param {AuthenticatedRequest} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const restoreReportVersion = async (req: AuthenticatedRequest, res: Response): Promise<Response | void> => {
+  try {
+    const report = await Report.getById(req.params.id);
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report not found'
+      });
+    }
+
+    if (!(await canEditReport(report, req.user))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to update this report'
+      });
+    }
+
+    await ensureBaselineVersion(report);
+    const version = await restoreVersion(report.id, Number(req.params.version), req.user.id);
+
+    if (version === null) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report version not found'
+      });
+    }
+
+    const restoredReport = await Report.getById(report.id);
+
+    return res.status(200).json({
+      success: true,
+      message: `Version ${req.params.version} restored as version ${version}`,
+      data: restoredReport
+    });
+  } catch (error: any) {
+    console.error('Error in restoreReportVersion:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to restore report version',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get the share links of a report with their access log
+ * @param {AuthenticatedRequest} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getShareLinks = async (req: AuthenticatedRequest, res: Response): Promise<Response | void> => {
+  try {
+    const report = await Report.getById(req.params.id);
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report not found'
+      });
+    }
+
+    if (!(await canManageShareLinks(report, req.user))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to manage share links of this report'
+      });
+    }
+
+    const [links, accessLog] = await Promise.all([
+      getShareLinksForReport(report.id),
+      getShareLinkAccessLog(report.id)
+    ]);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        links: links.map(toPublicShareLink),
+        access_log: accessLog
+      }
+    });
+  } catch (error: any) {
+    console.error('Error in getShareLinks:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve share links',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Create a share link. The response carries the link's token, which cannot be retrieved later.
+ * @param {AuthenticatedRequest} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const createShareLink = async (req: AuthenticatedRequest, res: Response): Promise<Response | void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const report = await Report.getById(req.params.id);
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report not found'
+      });
+    }
+
+    if (!(await canManageShareLinks(report, req.user))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to manage share links of this report'
+      });
+    }
+
+    const { label, password, expires_at, max_views } = req.body;
+    const expiresAt = expires_at ? new Date(expires_at) : null;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Expiry date must be in the future'
+      });
+    }
+
+    const { link, token } = await createReportShareLink(report.id, req.user.id, {
+      label: label ? String(label).trim() : null,
+      password: password || null,
+      expiresAt,
+      maxViews: max_views ? Number(max_views) : null
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Share link created',
+      data: {
+        link: toPublicShareLink(link),
+        token
+      }
+    });
+  } catch (error: any) {
+    console.error('Error in createShareLink:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to create share link',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Revoke a share link; it stops working immediately
+ * @param {AuthenticatedRequest} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const revokeShareLink = async (req: AuthenticatedRequest, res: Response): Promise<Response | void> => {
+  try {
+    const link = await getShareLink(req.params.linkId);
+
+    if (!link || String(link.report_id) !== String(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Share link not found'
+      });
+    }
+
+    const report = await Report.getById(link.report_id);
+    if (!report || !(await canManageShareLinks(report, req.user))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to manage share links of this report'
+      });
+    }
+
+    if (!(await revokeReportShareLink(link, req.user.id))) {
+      return res.status(409).json({
+        success: false,
+        message: 'Share link is already revoked'
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'Share link revoked'
+    });
+  } catch (error: any) {
+    console.error('Error in revokeShareLink:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to revoke share link',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get the signatures of a report, each checked against the report's current content
+ * @param {AuthenticatedRequest} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getReportSignatures = async (req: AuthenticatedRequest, res: Response): Promise<Response | void> => {
+  try {
+    const report = await Report.getById(req.params.id);
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report not found'
+      });
+    }
+
+    if (!(await canViewReport(report, req.user))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to view this report'
+      });
+    }
+
+    const currentHash = hashReportContent(report);
+    const signatures = await Promise.all(
+      (await findReportSignatures(report.id)).map(signature => toPublicSignature(signature, currentHash))
+    );
+    // Older signatures of edited content keep their own status; signing again clears the warning
+    const latest = signatures[signatures.length - 1];
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        signatures,
+        content_hash: currentHash,
+        modified_after_signing: Boolean(latest) && !latest.content_matches
+      }
+    });
+  } catch (error: any) {
+    console.error('Error in getReportSignatures:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve signatures',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Approve a report by signing its content. The client sends the hash of the content the signer
+ * reviewed, so an edit made in the meantime is refused rather than signed unseen.
+ * @param {AuthenticatedRequest} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const signReport = async (req: AuthenticatedRequest, res: Response): Promise<Response | void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const report = await Report.getById(req.params.id);
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report not found'
+      });
+    }
+
+    if (!(await canViewReport(report, req.user))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to sign this report'
+      });
+    }
+
+    const currentHash = hashReportContent(report);
+    if (req.body.content_hash !== currentHash) {
+      return res.status(409).json({
+        success: false,
+        message: 'The report has changed since you opened it. Review the current version before signing.',
+        code: 'REPORT_CHANGED'
+      });
+    }
+
+    const existing = await findReportSignatures(report.id);
+    if (existing.some(signature => signature.signer_id === req.user.id && signature.content_hash === currentHash)) {
+      return res.status(409).json({
+        success: false,
+        message: 'You have already signed this version of the report'
+      });
+    }
+
+    const { signature_image, comments } = req.body;
+    const signature = await createReportSignature(report, req.user, {
+      signatureImage: signature_image || null,
+      comments: comments ? String(comments).trim() : null
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Report signed',
+      data: await toPublicSignature(signature, currentHash)
+    });
+  } catch (error: any) {
+    console.error('Error in signReport:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to sign report',
+      error: error.message
+    });
+  }
+};
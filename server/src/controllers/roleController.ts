@@ -0,0 +1,216 @@
+import { Request, Response } from 'express';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+import { pool } from '../config/database';
+import { Role, UserRole } from '../types';
+import { getRolePermissions, isPermission, normalizeRoleName, PERMISSIONS } from '../utils/permissions';
+
+const MAX_ROLE_NAME_LENGTH = 50;
+
+const formatRole = (role: Role, userCount: number = 0) => ({
+  id: role.id,
+  name: role.name,
+  description: role.description,
+  isSystem: Boolean(role.is_system),
+  // ADMIN always has every permission
+  isEditable: normalizeRoleName(role.name) !== UserRole.ADMIN,
+  usesDefaults: role.permissions === null,
+  permissions: getRolePermissions(role),
+  userCount,
+  createdAt: role.created_at,
+  updatedAt: role.updated_at
+});
+
+const findRole = async (id: string | number) => {
+  const [roles] = await pool.query<Role[]>('SELECT * FROM roles WHERE id = ?', [id]);
+  return roles.length > 0 ? roles[0] : null;
+};
+
+/**
+ * Registry keys from a request body, or an error message
+ */
+const readPermissions = (value: unknown): { permissions: string[] } | { error: string } => {
+  if (!Array.isArray(value)) {
+    return { error: 'Permissions must be a list' };
+  }
+  const unknown = value.filter(permission => !isPermission(permission));
+  if (unknown.length > 0) {
+    return { error: `Unknown permissions: ${unknown.join(', ')}` };
+  }
+  return { permissions: Array.from(new Set(value as string[])) };
+};
+
+const recordRoleChange = (userId: number, action: string, roleId: number, details: Record<string, unknown>) =>
+  pool.query<ResultSetHeader>(
+    'INSERT INTO audit_logs (user_id, action, details, entity_type, entity_id) VALUES (?, ?, ?, ?, ?)',
+    [userId, action, JSON.stringify(details), 'role', String(roleId)]
+  );
+
+/**
+ * List roles with their effective permissions and how many users hold each
+ * @route GET /api/roles
+ */
+export const getRoles = async (_req: Request, res: Response) => {
+  try {
+    const [roles] = await pool.query<Role[]>('SELECT * FROM roles ORDER BY is_system DESC, name ASC');
+    const [counts] = await pool.query<RowDataPacket[]>(
+      `SELECT r.id, COUNT(u.id) AS user_count
+       FROM roles r
+       JOIN users u ON u.role_id = r.id OR (u.role_id IS NULL AND r.is_system = 1 AND UPPER(u.role) = r.name)
+       GROUP BY r.id`
+    );
+    const userCounts = new Map(counts.map(row => [row.id as number, Number(row.user_count)]));
+
+    return res.json(roles.map(role => formatRole(role, userCounts.get(role.id))));
+  } catch (error) {
+    console.error('Error fetching roles:', error);
+    return res.status(500).json({ message: 'Error fetching roles' });
+  }
+};
+
+/**
+ * The permissions a role can grant, grouped for display
+ * @route GET /api/roles/permissions
+ */
+export const getPermissionRegistry = async (_req: Request, res: Response) => {
+  return res.json(PERMISSIONS);
+};
+
+/**
+ * Create a custom role
+ * @route POST /api/roles
+ */
+export const createRole = async (req: Request, res: Response) => {
+  try {
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+    const description = typeof req.body.description === 'string' ? req.body.description.trim() || null : null;
+
+    if (!name) {
+      return res.status(400).json({ message: 'Role name is required' });
+    }
+    if (name.length > MAX_ROLE_NAME_LENGTH) {
+      return res.status(400).json({ message: `Role name must be at most ${MAX_ROLE_NAME_LENGTH} characters` });
+    }
+    const parsed = readPermissions(req.body.permissions ?? []);
+    if ('error' in parsed) {
+      return res.status(400).json({ message: parsed.error });
+    }
+
+    // Names are compared without case so a custom role cannot shadow a built-in one
+    const [existing] = await pool.query<RowDataPacket[]>('SELECT id FROM roles WHERE UPPER(name) = UPPER(?)', [name]);
+    if (existing.length > 0) {
+      return res.status(409).json({ message: 'A role with this name already exists' });
+    }
+
+    const [result] = await pool.query<ResultSetHeader>(
+      'INSERT INTO roles (name, description, is_system, permissions) VALUES (?, ?, 0, ?)',
+      [name, description, JSON.stringify(parsed.permissions)]
+    );
+    await recordRoleChange(req.user!.id, 'CREATE_ROLE', result.insertId, { name, permissions: parsed.permissions });
+
+    const role = await findRole(result.insertId);
+    return res.status(201).json(formatRole(role!));
+  } catch (error) {
+    console.error('Error creating role:', error);
+    return res.status(500).json({ message: 'Error creating role' });
+  }
+};
+
+/**
+ * Change a role's name, description or permissions. Built-in roles keep their name; sending
+ * null permissions for one restores its defaults.
+ * @route PUT /api/roles/:roleId
+ */
+export const updateRole = async (req: Request, res: Response) => {
+  try {
+    const role = await findRole(req.params.roleId);
+    if (!role) {
+      return res.status(404).json({ message: 'Role not found' });
+    }
+    if (normalizeRoleName(role.name) === UserRole.ADMIN) {
+      return res.status(403).json({ message: 'The ADMIN role always has every permission' });
+    }
+
+    const { name, description, permissions } = req.body;
+    const updates: string[] = [];
+    const params: unknown[] = [];
+
+    if (name !== undefined && name !== role.name) {
+      const trimmed = typeof name === 'string' ? name.trim() : '';
+      if (role.is_system) {
+        return res.status(400).json({ message: 'Built-in roles cannot be renamed' });
+      }
+      if (!trimmed || trimmed.length > MAX_ROLE_NAME_LENGTH) {
+        return res.status(400).json({ message: `Role name must be 1 to ${MAX_ROLE_NAME_LENGTH} characters` });
+      }
+      const [existing] = await pool.query<RowDataPacket[]>(
+        'SELECT id FROM roles WHERE UPPER(name) = UPPER(?) AND id <> ?',
+        [trimmed, role.id]
+      );
+      if (existing.length > 0) {
+        return res.status(409).json({ message: 'A role with this name already exists' });
+      }
+      updates.push('name = ?');
+      params.push(trimmed);
+    }
+
+    if (description !== undefined) {
+      updates.push('description = ?');
+      params.push(typeof description === 'string' ? description.trim() || null : null);
+    }
+
+    if (permissions === null) {
+      if (!role.is_system) {
+        return res.status(400).json({ message: 'Only built-in roles have default permissions' });
+      }
+      updates.push('permissions = NULL');
+    } else if (permissions !== undefined) {
+      const parsed = readPermissions(permissions);
+      if ('error' in parsed) {
+        return res.status(400).json({ message: parsed.error });
+      }
+      updates.push('permissions = ?');
+      params.push(JSON.stringify(parsed.permissions));
+    }
+
+    if (updates.length === 0) {
+      return res.status(400).json({ message: 'No updates provided' });
+    }
+
+    await pool.query(`UPDATE roles SET ${updates.join(', ')} WHERE id = ?`, [...params, role.id]);
+    await recordRoleChange(req.user!.id, 'UPDATE_ROLE', role.id, {
+      name: role.name,
+      updatedFields: Object.keys(req.body),
+      permissions: permissions === undefined ? undefined : permissions
+    });
+
+    return res.json(formatRole((await findRole(role.id))!));
+  } catch (error) {
+    console.error('Error updating role:', error);
+    return res.status(500).json({ message: 'Error updating role' });
+  }
+};
+
+/**
+ * Delete a custom role; its users go back to their built-in role
+ * @route DELETE /api/roles/:roleId
+ */
+export const deleteRole = async (req: Request, res: Response) => {
+  try {
+    const role = await findRole(req.params.roleId);
+    if (!role) {
+      return res.status(404).json({ message: 'Role not found' });
+    }
+    if (role.is_system) {
+      return res.status(400).json({ message: 'Built-in roles cannot be deleted' });
+    }
+
+    const [result] = await pool.query<ResultSetHeader>('UPDATE users SET role_id = NULL WHERE role_id = ?', [role.id]);
+    await pool.query('DELETE FROM roles WHERE id = ?', [role.id]);
+    await recordRoleChange(req.user!.id, 'DELETE_ROLE', role.id, { name: role.name, reassignedUsers: result.affectedRows });
+
+    return res.json({ message: 'Role deleted', reassignedUsers: result.affectedRows });
+  } catch (error) {
+    console.error('Error deleting role:', error);
+    return res.status(500).json({ message: 'Error deleting role' });
+  }
+};
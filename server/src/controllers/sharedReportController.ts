@@ -0,0 +1,213 @@
+import { Request, Response } from 'express';
+import Report from '../models/Report';
+import { ReportShareLink, ReportShareLinkStatus } from '../types';
+import { getSessionClient, SessionClient } from '../utils/authSessions';
+import {
+  consumeShareLinkView,
+  findShareLinkByToken,
+  getShareLinkStatus,
+  isShareLinkLocked,
+  recordShareLinkEvent,
+  verifyShareLinkPassword
+} from '../utils/reportShareLinks';
+import { checkSignature, findSignatureByCode, hashReportContent } from '../utils/reportSignatures';
+
+// These handlers are reached without signing in; the token or code in the URL is the only credential.
+
+const UNAVAILABLE_MESSAGES: Record<Exclude<ReportShareLinkStatus, 'active'>, string> = {
+  expired: 'This link has expired.',
+  exhausted: 'This link has reached its view limit.',
+  revoked: 'This link has been revoked.'
+};
+
+const sendNotFound = (res: Response) =>
+  res.status(404).json({
+    success: false,
+    message: 'This link is not valid.',
+    code: 'LINK_NOT_FOUND'
+  });
+
+const sendUnavailable = async (
+  res: Response,
+  link: ReportShareLink,
+  status: Exclude<ReportShareLinkStatus, 'active'>,
+  client: SessionClient
+) => {
+  await recordShareLinkEvent(link, 'REPORT_LINK_DENIED', null, client, { reason: status });
+  return res.status(410).json({
+    success: false,
+    message: UNAVAILABLE_MESSAGES[status],
+    code: `LINK_${status.toUpperCase()}`
+  });
+};
+
+/**
+ * Describe a share link before it is opened, so the viewer knows whether to ask for a password.
+ * The report title is only disclosed for links without a password.
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getSharedReportInfo = async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const link = await findShareLinkByToken(req.params.token);
+    if (!link) {
+      return sendNotFound(res);
+    }
+
+    const status = getShareLinkStatus(link);
+    if (status !== 'active') {
+      return sendUnavailable(res, link, status, getSessionClient(req));
+    }
+
+    const report = link.password_hash ? null : await Report.getById(link.report_id);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        title: report ? report.title : null,
+        requires_password: Boolean(link.password_hash),
+        expires_at: link.expires_at,
+        views_remaining: link.max_views !== null ? link.max_views - link.view_count : null
+      }
+    });
+  } catch (error: any) {
+    console.error('Error in getSharedReportInfo:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to open shared report',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Open a shared report read-only. Each successful call counts as one view.
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const viewSharedReport = async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const client = getSessionClient(req);
+    const link = await findShareLinkByToken(req.params.token);
+    if (!link) {
+      return sendNotFound(res);
+    }
+
+    const status = getShareLinkStatus(link);
+    if (status !== 'active') {
+      return sendUnavailable(res, link, status, client);
+    }
+
+    if (link.password_hash) {
+      if (isShareLinkLocked(link)) {
+        await recordShareLinkEvent(link, 'REPORT_LINK_DENIED', null, client, { reason: 'locked' });
+        return res.status(423).json({
+          success: false,
+          message: 'Too many wrong passwords. Try again later.',
+          code: 'LINK_LOCKED',
+          lockedUntil: link.locked_until
+        });
+      }
+
+      const password = typeof req.body.password === 'string' ? req.body.password : '';
+      if (!password) {
+        return res.status(401).json({
+          success: false,
+          message: 'This report is protected by a password.',
+          code: 'PASSWORD_REQUIRED'
+        });
+      }
+
+      const { valid, failedAttempts } = await verifyShareLinkPassword(link, password);
+      if (!valid) {
+        await recordShareLinkEvent(link, 'REPORT_LINK_PASSWORD_FAILED', null, client, { failedAttempts });
+        return res.status(401).json({
+          success: false,
+          message: 'Incorrect password.',
+          code: 'INVALID_PASSWORD'
+        });
+      }
+    }
+
+    // Expiry and the view limit are checked again when the view is counted, in case they changed
+    if (!(await consumeShareLinkView(link))) {
+      const current = (await findShareLinkByToken(req.params.token)) || link;
+      const currentStatus = getShareLinkStatus(current);
+      return sendUnavailable(res, current, currentStatus === 'active' ? 'exhausted' : currentStatus, client);
+    }
+
+    const report = await Report.getById(link.report_id);
+    if (!report) {
+      return sendNotFound(res);
+    }
+
+    await recordShareLinkEvent(link, 'REPORT_LINK_VIEWED', null, client, { view: link.view_count + 1 });
+
+    // Only the document itself; sharing and ownership details stay private
+    return res.status(200).json({
+      success: true,
+      data: {
+        title: report.title,
+        description: report.description,
+        type: report.type,
+        status: report.status,
+        version: report.version,
+        created_at: report.created_at,
+        updated_at: report.updated_at,
+        contents: report.contents,
+        metadata: report.metadata
+      }
+    });
+  } catch (error: any) {
+    console.error('Error in viewSharedReport:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to open shared report',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Check a signature from the code printed on an exported report. Tells whether the signature
+ * record is intact and whether the report has changed since it was signed; the report itself is
+ * not disclosed.
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const verifyReportSignature = async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const signature = await findSignatureByCode(req.params.code);
+    if (!signature) {
+      return res.status(404).json({
+        success: false,
+        message: 'No signature matches this code.',
+        code: 'SIGNATURE_NOT_FOUND'
+      });
+    }
+
+    const report = await Report.getById(signature.report_id);
+    const check = checkSignature(signature, report ? hashReportContent(report) : null);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        valid: check.seal_valid && check.content_matches,
+        ...check,
+        report_title: report ? report.title : null,
+        report_version: signature.report_version,
+        content_hash: signature.content_hash,
+        signer_name: signature.signer_name,
+        signer_role: signature.signer_role,
+        signed_at: signature.signed_at
+      }
+    });
+  } catch (error: any) {
+    console.error('Error in verifyReportSignature:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to verify signature',
+      error: error.message
+    });
+  }
+};
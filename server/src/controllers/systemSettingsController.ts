@@ -80,6 +80,10 @@ export const getSystemSettings = async (_req: Request, res: Response) => {
           : true,
       },
       maxLoginAttempts: settings.maxLoginAttempts || 5,
+      twoFactorPolicy: {
+        requireForAdmins: settings.twoFactorPolicy?.requireForAdmins === true,
+        requireForManagers: settings.twoFactorPolicy?.requireForManagers === true
+      },
     };
     
     return res.json(systemSettings);
@@ -119,6 +123,12 @@ export const updateSystemSettings = async (req: Request, res: Response) => {
           operations.push([`passwordPolicy.${key}`, value?.toString()]);
         }
       }
+
+      if (settings.twoFactorPolicy) {
+        for (const [key, value] of Object.entries(settings.twoFactorPolicy)) {
+          operations.push([`twoFactorPolicy.${key}`, value?.toString()]);
+        }
+      }
       
       // Execute batch operations
       if (operations.length > 0) {
@@ -0,0 +1,316 @@
+import { Request, Response } from 'express';
+import { PoolConnection } from 'mysql2/promise';
+import { ResultSetHeader } from 'mysql2';
+import { pool, transaction } from '../config/database';
+import { Meter, Tariff, TariffVersion } from '../types';
+import {
+  calculateBill,
+  BillUsage,
+  CUSTOMER_CLASSES,
+  formatTariffVersion,
+  getMeterUsage,
+  getTariffSchedule,
+  normalizeTariffVersion,
+  TariffSchedule,
+  toDateString
+} from '../utils/tariffEngine';
+
+// Monthly charges are billed once, so interval-data bills are limited to about one billing period
+const MAX_BILLING_DAYS = 45;
+
+const formatTariff = (tariff: Tariff) => ({
+  id: tariff.id,
+  code: tariff.code,
+  name: tariff.name,
+  utility: tariff.utility,
+  customerClass: tariff.customer_class,
+  description: tariff.description,
+  isDefault: Boolean(tariff.is_default),
+  isActive: Boolean(tariff.is_active),
+  createdAt: tariff.created_at,
+  updatedAt: tariff.updated_at
+});
+
+const findTariff = async (id: string | number) => {
+  const [tariffs] = await pool.query<Tariff[]>('SELECT * FROM tariffs WHERE id = ?', [id]);
+  return tariffs.length > 0 ? tariffs[0] : null;
+};
+
+const insertVersion = (connection: PoolConnection, tariffId: number, version: TariffSchedule, userId: number) =>
+  connection.query<ResultSetHeader>(
+    `INSERT INTO tariff_versions
+      (tariff_id, effective_from, charges, time_of_use_periods, vat_rate, lifeline, senior_citizen, notes, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      tariffId,
+      version.effectiveFrom,
+      JSON.stringify(version.charges),
+      version.timeOfUsePeriods.length > 0 ? JSON.stringify(version.timeOfUsePeriods) : null,
+      version.vatRate,
+      version.lifeline ? JSON.stringify(version.lifeline) : null,
+      version.seniorCitizen ? JSON.stringify(version.seniorCitizen) : null,
+      version.notes,
+      userId
+    ]
+  );
+
+// Only one tariff is the default at a time
+const clearDefault = (connection: PoolConnection, exceptId: number) =>
+  connection.query('UPDATE tariffs SET is_default = false WHERE id <> ?', [exceptId]);
+
+const isNonNegative = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isPeriodValues = (value: unknown) =>
+  value === undefined ||
+  (typeof value === 'object' && value !== null && !Array.isArray(value) && Object.values(value).every(isNonNegative));
+
+/**
+ * List tariffs with the version currently in force
+ */
+export const getTariffs = async (_req: Request, res: Response) => {
+  try {
+    const [tariffs] = await pool.query<Tariff[]>('SELECT * FROM tariffs ORDER BY is_active DESC, name ASC');
+    const result = [];
+    for (const tariff of tariffs) {
+      result.push({ ...formatTariff(tariff), currentVersion: await getTariffSchedule(tariff.id) });
+    }
+    return res.json(result);
+  } catch (error) {
+    console.error('Error fetching tariffs:', error);
+    return res.status(500).json({ message: 'Error fetching tariffs' });
+  }
+};
+
+/**
+ * Get a tariff with every version, newest first
+ */
+export const getTariffById = async (req: Request, res: Response) => {
+  try {
+    const tariff = await findTariff(req.params.tariffId);
+    if (!tariff) {
+      return res.status(404).json({ message: 'Tariff not found' });
+    }
+
+    const [versions] = await pool.query<TariffVersion[]>(
+      'SELECT * FROM tariff_versions WHERE tariff_id = ? ORDER BY effective_from DESC',
+      [tariff.id]
+    );
+    return res.json({
+      ...formatTariff(tariff),
+      currentVersion: await getTariffSchedule(tariff.id),
+      versions: versions.map(formatTariffVersion)
+    });
+  } catch (error) {
+    console.error('Error fetching tariff:', error);
+    return res.status(500).json({ message: 'Error fetching tariff' });
+  }
+};
+
+/**
+ * Create a tariff together with its first version (admins only)
+ */
+export const createTariff = async (req: Request, res: Response) => {
+  try {
+    const { code, name, utility, customerClass = 'residential', description, isDefault = false } = req.body;
+    if (!code || typeof code !== 'string' || !name || typeof name !== 'string') {
+      return res.status(400).json({ message: 'Tariff code and name are required' });
+    }
+    if (!CUSTOMER_CLASSES.includes(customerClass)) {
+      return res.status(400).json({ message: `Customer class must be one of: ${CUSTOMER_CLASSES.join(', ')}` });
+    }
+    const version = normalizeTariffVersion(req.body.version);
+    if (typeof version === 'string') {
+      return res.status(400).json({ message: version });
+    }
+
+    const tariffId = await transaction(async (connection) => {
+      const [result] = await connection.query<ResultSetHeader>(
+        `INSERT INTO tariffs (code, name, utility, customer_class, description, is_default, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [code.trim(), name.trim(), utility || null, customerClass, description || null, Boolean(isDefault), req.user!.id]
+      );
+      await insertVersion(connection, result.insertId, version, req.user!.id);
+      if (isDefault) await clearDefault(connection, result.insertId);
+      return result.insertId;
+    });
+
+    const tariff = await findTariff(tariffId);
+    return res.status(201).json({ ...formatTariff(tariff!), currentVersion: await getTariffSchedule(tariffId) });
+  } catch (error: any) {
+    if (error?.code === 'ER_DUP_ENTRY') {
+      return res.status(409).json({ message: 'A tariff with this code already exists' });
+    }
+    console.error('Error creating tariff:', error);
+    return res.status(500).json({ message: 'Error creating tariff' });
+  }
+};
+
+/**
+ * Update tariff details; rates are changed by adding a version (admins only)
+ */
+export const updateTariff = async (req: Request, res: Response) => {
+  try {
+    const tariff = await findTariff(req.params.tariffId);
+    if (!tariff) {
+      return res.status(404).json({ message: 'Tariff not found' });
+    }
+
+    const { name, utility, customerClass, description, isActive, isDefault } = req.body;
+    if (customerClass !== undefined && !CUSTOMER_CLASSES.includes(customerClass)) {
+      return res.status(400).json({ message: `Customer class must be one of: ${CUSTOMER_CLASSES.join(', ')}` });
+    }
+    if (isDefault && isActive === false) {
+      return res.status(400).json({ message: 'An inactive tariff cannot be the default' });
+    }
+
+    await transaction(async (connection) => {
+      await connection.query(
+        `UPDATE tariffs SET name = ?, utility = ?, customer_class = ?, description = ?, is_active = ?, is_default = ?
+         WHERE id = ?`,
+        [
+          name ?? tariff.name,
+          utility !== undefined ? utility || null : tariff.utility,
+          customerClass ?? tariff.customer_class,
+          description !== undefined ? description || null : tariff.description,
+          isActive ?? tariff.is_active,
+          isActive === false ? false : isDefault ?? tariff.is_default,
+          tariff.id
+        ]
+      );
+      if (isDefault) await clearDefault(connection, tariff.id);
+    });
+
+    const updated = await findTariff(tariff.id);
+    return res.json({ ...formatTariff(updated!), currentVersion: await getTariffSchedule(tariff.id) });
+  } catch (error) {
+    console.error('Error updating tariff:', error);
+    return res.status(500).json({ message: 'Error updating tariff' });
+  }
+};
+
+/**
+ * Add a version that takes effect on its effective date (admins only)
+ */
+export const addTariffVersion = async (req: Request, res: Response) => {
+  try {
+    const tariff = await findTariff(req.params.tariffId);
+    if (!tariff) {
+      return res.status(404).json({ message: 'Tariff not found' });
+    }
+    const version = normalizeTariffVersion(req.body);
+    if (typeof version === 'string') {
+      return res.status(400).json({ message: version });
+    }
+
+    const [result] = await transaction(connection => insertVersion(connection, tariff.id, version, req.user!.id));
+    const [versions] = await pool.query<TariffVersion[]>('SELECT * FROM tariff_versions WHERE id = ?', [result.insertId]);
+    return res.status(201).json(formatTariffVersion(versions[0]));
+  } catch (error: any) {
+    if (error?.code === 'ER_DUP_ENTRY') {
+      return res.status(409).json({ message: 'A version already takes effect on this date' });
+    }
+    console.error('Error adding tariff version:', error);
+    return res.status(500).json({ message: 'Error adding tariff version' });
+  }
+};
+
+/**
+ * Delete a version that hasn't taken effect yet; versions already used for billing are kept (admins only)
+ */
+export const deleteTariffVersion = async (req: Request, res: Response) => {
+  try {
+    const [versions] = await pool.query<TariffVersion[]>(
+      'SELECT * FROM tariff_versions WHERE id = ? AND tariff_id = ?',
+      [req.params.versionId, req.params.tariffId]
+    );
+    if (versions.length === 0) {
+      return res.status(404).json({ message: 'Tariff version not found' });
+    }
+    if (toDateString(versions[0].effective_from) <= toDateString(new Date())) {
+      return res.status(409).json({ message: 'Versions already in effect cannot be deleted' });
+    }
+
+    const [counts] = await pool.query<any[]>(
+      'SELECT COUNT(*) AS count FROM tariff_versions WHERE tariff_id = ?',
+      [req.params.tariffId]
+    );
+    if (counts[0].count <= 1) {
+      return res.status(409).json({ message: 'A tariff needs at least one version' });
+    }
+
+    await pool.query<ResultSetHeader>('DELETE FROM tariff_versions WHERE id = ?', [versions[0].id]);
+    return res.json({ message: 'Tariff version deleted' });
+  } catch (error) {
+    console.error('Error deleting tariff version:', error);
+    return res.status(500).json({ message: 'Error deleting tariff version' });
+  }
+};
+
+/**
+ * Bill calculator. Takes either a monthly usage pair ({ kwh, kw }, optionally split by time-of-use period)
+ * or a meter and billing period ({ meterId, from, to }), plus lifeline / seniorCitizen eligibility.
+ */
+export const calculateTariffBill = async (req: Request, res: Response) => {
+  try {
+    const tariff = await findTariff(req.params.tariffId);
+    if (!tariff) {
+      return res.status(404).json({ message: 'Tariff not found' });
+    }
+
+    const { meterId, lifeline, seniorCitizen } = req.body;
+    let schedule: TariffSchedule | null;
+    let usage: BillUsage;
+    let period: { meterId: number; from: string; to: string } | null = null;
+
+    if (meterId !== undefined) {
+      const from = new Date(req.body.from);
+      const to = new Date(req.body.to);
+      if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+        return res.status(400).json({ message: 'A valid from and to are required when billing a meter' });
+      }
+      if (to.getTime() - from.getTime() > MAX_BILLING_DAYS * 24 * 60 * 60 * 1000) {
+        return res.status(400).json({ message: `A billing period can be at most ${MAX_BILLING_DAYS} days` });
+      }
+      const [meters] = await pool.query<Meter[]>('SELECT id FROM meters WHERE id = ?', [meterId]);
+      if (meters.length === 0) {
+        return res.status(404).json({ message: 'Meter not found' });
+      }
+
+      // The version in force when the billing period started applies to the whole bill
+      schedule = await getTariffSchedule(tariff.id, from);
+      usage = schedule ? await getMeterUsage(meters[0].id, from, to, schedule.timeOfUsePeriods) : { kwh: 0 };
+      period = { meterId: meters[0].id, from: from.toISOString(), to: to.toISOString() };
+    } else {
+      const { kwh, kw, kwhByPeriod, kwByPeriod, billingDate } = req.body;
+      if (!isNonNegative(kwh)) {
+        return res.status(400).json({ message: 'kwh must be a non-negative number' });
+      }
+      if (kw !== undefined && !isNonNegative(kw)) {
+        return res.status(400).json({ message: 'kw must be a non-negative number' });
+      }
+      if (!isPeriodValues(kwhByPeriod) || !isPeriodValues(kwByPeriod)) {
+        return res.status(400).json({ message: 'kwhByPeriod and kwByPeriod must map period keys to non-negative numbers' });
+      }
+      if (billingDate !== undefined && Number.isNaN(new Date(billingDate).getTime())) {
+        return res.status(400).json({ message: 'billingDate must be a valid date' });
+      }
+
+      schedule = await getTariffSchedule(tariff.id, billingDate || new Date());
+      usage = { kwh, kw, kwhByPeriod, kwByPeriod };
+    }
+
+    if (!schedule) {
+      return res.status(404).json({ message: 'The tariff has no version in effect for this date' });
+    }
+
+    return res.json({
+      tariff: { id: tariff.id, code: tariff.code, name: tariff.name },
+      versionId: schedule.id,
+      ...period,
+      ...calculateBill(schedule, usage, { lifeline: Boolean(lifeline), seniorCitizen: Boolean(seniorCitizen) })
+    });
+  } catch (error) {
+    console.error('Error calculating bill:', error);
+    return res.status(500).json({ message: 'Error calculating bill' });
+  }
+};
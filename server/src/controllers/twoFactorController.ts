@@ -0,0 +1,199 @@
+import { Request, Response } from 'express';
+import * as bcrypt from 'bcrypt';
+import { RowDataPacket } from 'mysql2';
+import { pool } from '../config/database';
+import { markSessionTwoFactorVerified, recordAuthEvent, revokeUserSessions, signAccessToken } from '../utils/authSessions';
+import {
+  acceptTotpCode,
+  generateTotpSecret,
+  getOtpauthUrl,
+  getTwoFactorPolicy,
+  isTwoFactorRequiredForRole,
+  redeemRecoveryCode,
+  replaceRecoveryCodes
+} from '../utils/twoFactor';
+
+const getTwoFactorUser = async (userId: number) => {
+  const [users] = await pool.query<RowDataPacket[]>(
+    'SELECT id, username, password, role, totp_secret, totp_enabled, totp_enabled_at, totp_last_used_step FROM users WHERE id = ?',
+    [userId]
+  );
+  return users[0] as RowDataPacket | undefined;
+};
+
+/**
+ * Get the current user's two-factor authentication status
+ * @route GET /api/auth/2fa
+ */
+export const getTwoFactorStatus = async (req: Request, res: Response) => {
+  try {
+    const user = await getTwoFactorUser(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const [codes] = await pool.query<RowDataPacket[]>(
+      'SELECT COUNT(*) AS remaining FROM user_recovery_codes WHERE user_id = ? AND used_at IS NULL',
+      [user.id]
+    );
+
+    return res.json({
+      enabled: !!user.totp_enabled,
+      enabledAt: user.totp_enabled_at,
+      recoveryCodesRemaining: Number(codes[0].remaining),
+      required: isTwoFactorRequiredForRole(await getTwoFactorPolicy(), user.role)
+    });
+  } catch (error) {
+    console.error('Error fetching two-factor status:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+/**
+ * Generate a secret for the user to add to an authenticator app
+ * @route POST /api/auth/2fa/setup
+ */
+export const startTwoFactorSetup = async (req: Request, res: Response) => {
+  try {
+    const user = await getTwoFactorUser(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (user.totp_enabled) {
+      return res.status(409).json({ message: 'Two-factor authentication is already enabled' });
+    }
+
+    // Replaces any enrollment that was started but never confirmed
+    const secret = generateTotpSecret();
+    await pool.query('UPDATE users SET totp_secret = ?, totp_last_used_step = NULL WHERE id = ?', [secret, user.id]);
+
+    return res.json({ secret, otpauthUrl: getOtpauthUrl(secret, user.username) });
+  } catch (error) {
+    console.error('Error starting two-factor setup:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+/**
+ * Confirm enrollment with a code from the authenticator app
+ * @route POST /api/auth/2fa/enable
+ */
+export const enableTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { code } = req.body;
+    if (!code) {
+      return res.status(400).json({ message: 'Authentication code is required' });
+    }
+
+    const user = await getTwoFactorUser(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (user.totp_enabled) {
+      return res.status(409).json({ message: 'Two-factor authentication is already enabled' });
+    }
+    if (!user.totp_secret) {
+      return res.status(400).json({ message: 'Start two-factor setup first' });
+    }
+
+    if (!(await acceptTotpCode(user as { id: number; totp_secret: string; totp_last_used_step: number | null }, String(code)))) {
+      return res.status(400).json({ message: 'Invalid authentication code' });
+    }
+
+    await pool.query('UPDATE users SET totp_enabled = 1, totp_enabled_at = NOW() WHERE id = ?', [user.id]);
+    const recoveryCodes = await replaceRecoveryCodes(user.id);
+    await recordAuthEvent(user.id, 'TWO_FACTOR_ENABLED', { sessionId: req.user!.sessionId });
+
+    // The session that enrolled has proven the second factor; give it a token that says so
+    let token: string | undefined;
+    if (req.user!.sessionId !== undefined) {
+      await markSessionTwoFactorVerified(req.user!.sessionId);
+      token = signAccessToken(req.user!, req.user!.sessionId, true);
+    }
+
+    return res.json({ message: 'Two-factor authentication enabled', recoveryCodes, token });
+  } catch (error) {
+    console.error('Error enabling two-factor authentication:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+/**
+ * Turn off two-factor authentication; needs the password and a current or recovery code
+ * @route POST /api/auth/2fa/disable
+ */
+export const disableTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { password, code, recoveryCode } = req.body;
+    if (!password || (!code && !recoveryCode)) {
+      return res.status(400).json({ message: 'Password and an authentication or recovery code are required' });
+    }
+
+    const user = await getTwoFactorUser(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (!user.totp_enabled) {
+      return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+    }
+    if (isTwoFactorRequiredForRole(await getTwoFactorPolicy(), user.role)) {
+      return res.status(403).json({ message: 'Two-factor authentication is required for your role' });
+    }
+
+    if (!(await bcrypt.compare(String(password), user.password))) {
+      return res.status(401).json({ message: 'Incorrect password' });
+    }
+    const verified = code
+      ? await acceptTotpCode(user as { id: number; totp_secret: string; totp_last_used_step: number | null }, String(code))
+      : await redeemRecoveryCode(user.id, String(recoveryCode));
+    if (!verified) {
+      return res.status(400).json({ message: code ? 'Invalid authentication code' : 'Invalid recovery code' });
+    }
+
+    await pool.query(
+      'UPDATE users SET totp_enabled = 0, totp_secret = NULL, totp_enabled_at = NULL, totp_last_used_step = NULL WHERE id = ?',
+      [user.id]
+    );
+    await pool.query('DELETE FROM user_recovery_codes WHERE user_id = ?', [user.id]);
+    // Other sessions passed two-factor authentication that no longer protects the account
+    await revokeUserSessions(user.id, 'two_factor_disabled', req.user!.sessionId ?? null);
+    await recordAuthEvent(user.id, 'TWO_FACTOR_DISABLED', { sessionId: req.user!.sessionId });
+
+    return res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('Error disabling two-factor authentication:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+/**
+ * Replace the recovery codes, invalidating the old ones
+ * @route POST /api/auth/2fa/recovery-codes
+ */
+export const regenerateRecoveryCodes = async (req: Request, res: Response) => {
+  try {
+    const { code } = req.body;
+    if (!code) {
+      return res.status(400).json({ message: 'Authentication code is required' });
+    }
+
+    const user = await getTwoFactorUser(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (!user.totp_enabled) {
+      return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+    }
+    if (!(await acceptTotpCode(user as { id: number; totp_secret: string; totp_last_used_step: number | null }, String(code)))) {
+      return res.status(400).json({ message: 'Invalid authentication code' });
+    }
+
+    const recoveryCodes = await replaceRecoveryCodes(user.id);
+    await recordAuthEvent(user.id, 'RECOVERY_CODES_REGENERATED', { sessionId: req.user!.sessionId });
+
+    return res.json({ recoveryCodes });
+  } catch (error) {
+    console.error('Error regenerating recovery codes:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -2,7 +2,8 @@ import { Request, Response } from 'express';
 import { pool } from '../config/database';
 import * as bcrypt from 'bcrypt';
 import { RowDataPacket, ResultSetHeader } from 'mysql2';
-import { UserRole } from '../types';
+import { revokeUserSessions } from '../utils/authSessions';
+import { canManageUser, hasPermission } from '../utils/permissions';
 
 // Custom type for requests with authentication info, but not extending Express.Request
 interface AuthenticatedRequest extends Omit<Request, 'user'> {
@@ -10,27 +11,27 @@ interface AuthenticatedRequest extends Omit<Request, 'user'> {
     id: number;
     username: string;
     role: string; // Keep as string to accommodate all role values used in the codebase
+    sessionId?: number;
   };
 }
 
 /**
  * Get all users
  * @route GET /api/users
- * @access Admin only
+ * @access Requires users.manage
  */
 export const getAllUsers = async (req: AuthenticatedRequest, res: Response) => {
   try {
     console.log('Getting all users. Requester:', req.user?.username);
     
-    // Check if user is admin
-    if (req.user?.role !== UserRole.ADMIN && req.user?.role !== 'admin') {
+    if (!(await hasPermission(req.user, 'users.manage'))) {
       return res.status(403).json({ message: 'Not authorized to view all users' });
     }
     
     // Get all users from the database
     const [users] = await pool.query<RowDataPacket[]>(
       `SELECT id, username, email, student_id, first_name AS firstName, 
-       last_name AS lastName, role, is_active AS isActive, 
+       last_name AS lastName, role, role_id AS roleId, is_active AS isActive, 
        created_at AS createdAt, updated_at AS updatedAt 
        FROM users ORDER BY username`
     );
@@ -45,21 +46,21 @@ export const getAllUsers = async (req: AuthenticatedRequest, res: Response) => {
 /**
  * Get user by ID
  * @route GET /api/users/:id
- * @access Admin or self only
+ * @access Requires users.manage, or self
  */
 export const getUserById = async (req: AuthenticatedRequest, res: Response) => {
   try {
     const userId = parseInt(req.params.id, 10);
     
-    // Check if user is admin or self
-    if (req.user?.role !== UserRole.ADMIN && req.user?.role !== 'admin' && req.user?.id !== userId) {
+    // Check if user manages users or is viewing themselves
+    if (req.user?.id !== userId && !(await hasPermission(req.user, 'users.manage'))) {
       return res.status(403).json({ message: 'Not authorized to view this user' });
     }
     
     // Get user from database
     const [users] = await pool.query<RowDataPacket[]>(
       `SELECT id, username, email, student_id, first_name AS firstName, 
-       last_name AS lastName, role, is_active AS isActive, 
+       last_name AS lastName, role, role_id AS roleId, is_active AS isActive, 
        created_at AS createdAt, updated_at AS updatedAt 
        FROM users WHERE id = ?`,
       [userId]
@@ -79,12 +80,11 @@ export const getUserById = async (req: AuthenticatedRequest, res: Response) => {
 /**
  * Create a new user
  * @route POST /api/users
- * @access Admin only
+ * @access Requires users.manage
  */
 export const createUser = async (req: AuthenticatedRequest, res: Response) => {
   try {
-    // Check if user is admin
-    if (req.user?.role !== UserRole.ADMIN && req.user?.role !== 'admin') {
+    if (!(await hasPermission(req.user, 'users.manage'))) {
       return res.status(403).json({ message: 'Not authorized to create users' });
     }
     
@@ -109,6 +109,11 @@ export const createUser = async (req: AuthenticatedRequest, res: Response) => {
       return res.status(400).json({ message: 'Invalid role' });
     }
     
+    // Only users who manage roles may create accounts above the basic role
+    if (role.toLowerCase() !== 'user' && !(await hasPermission(req.user, 'roles.manage'))) {
+      return res.status(403).json({ message: 'You cannot assign this role' });
+    }
+    
     // Validate student_id if provided
     if (student_id && (student_id.length !== 8 || !/^\d+$/.test(student_id))) {
       return res.status(400).json({ message: 'Student ID must be an 8-digit number' });
@@ -150,7 +155,7 @@ export const createUser = async (req: AuthenticatedRequest, res: Response) => {
     // Get the created user
     const [newUsers] = await pool.query<RowDataPacket[]>(
       `SELECT id, username, email, student_id, first_name AS firstName, 
-       last_name AS lastName, role, is_active AS isActive,
+       last_name AS lastName, role, role_id AS roleId, is_active AS isActive,
        created_at AS createdAt, updated_at AS updatedAt 
        FROM users WHERE id = ?`,
       [result.insertId]
@@ -166,17 +171,17 @@ export const createUser = async (req: AuthenticatedRequest, res: Response) => {
 /**
  * Update an existing user
  * @route PUT /api/users/:id
- * @access Admin or self only (with restrictions)
+ * @access Requires users.manage, or self (with restrictions)
  */
 export const updateUser = async (req: AuthenticatedRequest, res: Response) => {
   try {
     const userId = parseInt(req.params.id, 10);
     
-    // Check if user is admin or self
+    // Check if user manages users or is updating themselves
     const isSelf = req.user?.id === userId;
-    const isAdmin = req.user?.role === UserRole.ADMIN || req.user?.role === 'admin';
+    const canManageUsers = await hasPermission(req.user, 'users.manage');
     
-    if (!isAdmin && !isSelf) {
+    if (!canManageUsers && !isSelf) {
       return res.status(403).json({ message: 'Not authorized to update this user' });
     }
     
@@ -200,14 +205,28 @@ export const updateUser = async (req: AuthenticatedRequest, res: Response) => {
       role, 
       password, 
       isActive,
+      roleId,
       student_id 
     } = req.body;
     
-    // Only admins can change roles or status
-    if (!isAdmin && (role !== undefined || isActive !== undefined)) {
+    // Only user managers can change roles or status
+    if (!canManageUsers && (role !== undefined || roleId !== undefined || isActive !== undefined)) {
       return res.status(403).json({ message: 'You cannot change roles or status' });
     }
     
+    // A role can grant any permission, so assigning one also needs roles.manage
+    const changesRole = (role !== undefined && String(role).toUpperCase() !== String(currentUser.role).toUpperCase()) ||
+      (roleId !== undefined && (roleId ?? null) !== (currentUser.role_id ?? null));
+    if (changesRole && !(await hasPermission(req.user, 'roles.manage'))) {
+      return res.status(403).json({ message: 'You cannot change roles' });
+    }
+    
+    // Setting another user's password or status hands over their account
+    if (!isSelf && (password || isActive !== undefined) &&
+        !(await canManageUser(req.user!, { id: userId, role: currentUser.role }))) {
+      return res.status(403).json({ message: 'Not authorized to manage this user' });
+    }
+    
     // Validate student_id if provided
     if (student_id && (student_id.length !== 8 || !/^\d+$/.test(student_id))) {
       return res.status(400).json({ message: 'Student ID must be an 8-digit number' });
@@ -254,7 +273,7 @@ export const updateUser = async (req: AuthenticatedRequest, res: Response) => {
       queryParams.push(lastName);
     }
     
-    if (role !== undefined && isAdmin) {
+    if (role !== undefined && canManageUsers) {
       // Validate role
       const validRoles = ['admin', 'manager', 'auditor', 'reviewer', 'viewer', 'staff', 'moderator', 'user'];
       if (!validRoles.includes(role.toLowerCase())) {
@@ -265,7 +284,20 @@ export const updateUser = async (req: AuthenticatedRequest, res: Response) => {
       queryParams.push(role);
     }
     
-    if (isActive !== undefined && isAdmin) {
+    // A custom role replaces the built-in role's permissions; null returns the user to them
+    if (roleId !== undefined) {
+      if (roleId !== null) {
+        const [roles] = await pool.query<RowDataPacket[]>('SELECT id FROM roles WHERE id = ?', [roleId]);
+        if (roles.length === 0) {
+          return res.status(400).json({ message: 'Invalid role' });
+        }
+      }
+      
+      updates.push('role_id = ?');
+      queryParams.push(roleId);
+    }
+    
+    if (isActive !== undefined && canManageUsers) {
       updates.push('is_active = ?');
       queryParams.push(isActive ? 1 : 0);
     }
@@ -298,6 +330,14 @@ export const updateUser = async (req: AuthenticatedRequest, res: Response) => {
       queryParams
     );
     
+    // Sign the user out everywhere once deactivated or given a new password; users changing their
+    // own password stay signed in on this device
+    if (isActive !== undefined && canManageUsers && !isActive) {
+      await revokeUserSessions(userId, 'user_deactivated');
+    } else if (password) {
+      await revokeUserSessions(userId, 'password_changed', isSelf ? req.user?.sessionId ?? null : null);
+    }
+    
     // Log the action for audit trail
     await pool.query(
       `INSERT INTO audit_logs (user_id, action, details, ip_address, timestamp)
@@ -317,7 +357,7 @@ export const updateUser = async (req: AuthenticatedRequest, res: Response) => {
     // Get the updated user
     const [updatedUsers] = await pool.query<RowDataPacket[]>(
       `SELECT id, username, email, student_id, first_name AS firstName, 
-       last_name AS lastName, role, is_active AS isActive,
+       last_name AS lastName, role, role_id AS roleId, is_active AS isActive,
        created_at AS createdAt, updated_at AS updatedAt 
        FROM users WHERE id = ?`,
       [userId]
@@ -333,20 +373,19 @@ export const updateUser = async (req: AuthenticatedRequest, res: Response) => {
 /**
  * Delete a user
  * @route DELETE /api/users/:id
- * @access Admin only
+ * @access Requires users.manage
  */
 export const deleteUser = async (req: AuthenticatedRequest, res: Response) => {
   try {
     const userId = parseInt(req.params.id, 10);
     
-    // Check if user is admin
-    if (req.user?.role !== UserRole.ADMIN && req.user?.role !== 'admin') {
+    if (!(await hasPermission(req.user, 'users.manage'))) {
       return res.status(403).json({ message: 'Not authorized to delete users' });
     }
     
     // Get user before deleting for audit log
     const [users] = await pool.query<RowDataPacket[]>(
-      'SELECT username, email FROM users WHERE id = ?',
+      'SELECT username, email, role FROM users WHERE id = ?',
       [userId]
     );
     
@@ -361,7 +400,12 @@ export const deleteUser = async (req: AuthenticatedRequest, res: Response) => {
       return res.status(400).json({ message: 'You cannot delete your own account' });
     }
     
+    if (!(await canManageUser(req.user!, { id: userId, role: userToDelete.role }))) {
+      return res.status(403).json({ message: 'Not authorized to delete this user' });
+    }
+    
     // Delete user from database
+    await revokeUserSessions(userId, 'user_deleted');
     await pool.query('DELETE FROM users WHERE id = ?', [userId]);
     
     // Log the action for audit trail
@@ -391,20 +435,19 @@ export const deleteUser = async (req: AuthenticatedRequest, res: Response) => {
 /**
  * Toggle user status (activate/deactivate)
  * @route PUT /api/users/:id/toggle-status
- * @access Admin only
+ * @access Requires users.manage
  */
 export const toggleUserStatus = async (req: AuthenticatedRequest, res: Response) => {
   try {
     const userId = parseInt(req.params.id, 10);
     
-    // Check if user is admin
-    if (req.user?.role !== UserRole.ADMIN && req.user?.role !== 'admin') {
+    if (!(await hasPermission(req.user, 'users.manage'))) {
       return res.status(403).json({ message: 'Not authorized to change user status' });
     }
     
     // Get current user data
     const [users] = await pool.query<RowDataPacket[]>(
-      'SELECT id, username, is_active FROM users WHERE id = ?',
+      'SELECT id, username, role, is_active FROM users WHERE id = ?',
       [userId]
     );
     
@@ -419,6 +462,10 @@ export const toggleUserStatus = async (req: AuthenticatedRequest, res: Response)
       return res.status(400).json({ message: 'You cannot change your own status' });
     }
     
+    if (!(await canManageUser(req.user!, { id: userId, role: user.role }))) {
+      return res.status(403).json({ message: 'Not authorized to change this user\'s status' });
+    }
+    
     // Toggle status
     const newStatus = user.is_active ? 0 : 1;
     
@@ -427,6 +474,9 @@ export const toggleUserStatus = async (req: AuthenticatedRequest, res: Response)
       'UPDATE users SET is_active = ? WHERE id = ?',
       [newStatus, userId]
     );
+    if (!newStatus) {
+      await revokeUserSessions(userId, 'user_deactivated');
+    }
     
     // Log the action for audit trail
     await pool.query(
@@ -447,7 +497,7 @@ export const toggleUserStatus = async (req: AuthenticatedRequest, res: Response)
     // Get the updated user
     const [updatedUsers] = await pool.query<RowDataPacket[]>(
       `SELECT id, username, email, student_id, first_name AS firstName, 
-       last_name AS lastName, role, is_active AS isActive,
+       last_name AS lastName, role, role_id AS roleId, is_active AS isActive,
        created_at AS createdAt, updated_at AS updatedAt 
        FROM users WHERE id = ?`,
       [userId]
@@ -463,15 +513,14 @@ export const toggleUserStatus = async (req: AuthenticatedRequest, res: Response)
 /**
  * Reset a user's password
  * @route POST /api/users/:id/reset-password
- * @access Admin only
+ * @access Requires users.manage
  */
 export const resetPassword = async (req: AuthenticatedRequest, res: Response) => {
   try {
     const userId = parseInt(req.params.id, 10);
     const { newPassword } = req.body;
     
-    // Check if user is admin
-    if (req.user?.role !== UserRole.ADMIN && req.user?.role !== 'admin') {
+    if (!(await hasPermission(req.user, 'users.manage'))) {
       return res.status(403).json({ message: 'Not authorized to reset passwords' });
     }
     
@@ -481,7 +530,7 @@ export const resetPassword = async (req: AuthenticatedRequest, res: Response) =>
     
     // Get user to reset
     const [users] = await pool.query<RowDataPacket[]>(
-      'SELECT username FROM users WHERE id = ?',
+      'SELECT username, role FROM users WHERE id = ?',
       [userId]
     );
     
@@ -489,6 +538,10 @@ export const resetPassword = async (req: AuthenticatedRequest, res: Response) =>
       return res.status(404).json({ message: 'User not found' });
     }
     
+    if (!(await canManageUser(req.user!, { id: userId, role: users[0].role }))) {
+      return res.status(403).json({ message: 'Not authorized to reset this user\'s password' });
+    }
+    
     // Hash new password
     const salt = await bcrypt.genSalt(10);
     const hashedPassword = await bcrypt.hash(newPassword, salt);
@@ -498,6 +551,7 @@ export const resetPassword = async (req: AuthenticatedRequest, res: Response) =>
       'UPDATE users SET password = ? WHERE id = ?',
       [hashedPassword, userId]
     );
+    await revokeUserSessions(userId, 'password_reset');
     
     // Log the action for audit trail
     await pool.query(
@@ -525,14 +579,13 @@ export const resetPassword = async (req: AuthenticatedRequest, res: Response) =>
 /**
  * Bulk update users
  * @route PATCH /api/users/bulk
- * @access Admin only
+ * @access Requires users.manage
  */
 export const bulkUpdateUsers = async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { userIds, updates } = req.body;
     
-    // Check if user is admin
-    if (req.user?.role !== UserRole.ADMIN && req.user?.role !== 'admin') {
+    if (!(await hasPermission(req.user, 'users.manage'))) {
       return res.status(403).json({ message: 'Not authorized for bulk operations' });
     }
     
@@ -566,6 +619,10 @@ export const bulkUpdateUsers = async (req: AuthenticatedRequest, res: Response)
     const queryParams = [];
     
     if (updates.role !== undefined) {
+      if (!(await hasPermission(req.user, 'roles.manage'))) {
+        return res.status(403).json({ message: 'You cannot change roles' });
+      }
+      
       // Validate role
       const validRoles = ['admin', 'manager', 'auditor', 'reviewer', 'viewer', 'staff', 'moderator', 'user'];
       if (!validRoles.includes(String(updates.role).toLowerCase())) {
@@ -577,6 +634,16 @@ export const bulkUpdateUsers = async (req: AuthenticatedRequest, res: Response)
     }
     
     if (updates.is_active !== undefined) {
+      const [targets] = await pool.query<RowDataPacket[]>(
+        `SELECT id, role FROM users WHERE id IN (${userIds.map(() => '?').join(',')})`,
+        userIds
+      );
+      for (const target of targets) {
+        if (!(await canManageUser(req.user!, { id: target.id, role: target.role }))) {
+          return res.status(403).json({ message: 'Not authorized to change the status of every selected user' });
+        }
+      }
+      
       updateClauses.push('is_active = ?');
       queryParams.push(updates.is_active ? 1 : 0);
     }
@@ -590,6 +657,11 @@ export const bulkUpdateUsers = async (req: AuthenticatedRequest, res: Response)
       `UPDATE users SET ${updateClauses.join(', ')} WHERE id IN (${userIdPlaceholders})`,
       queryParams
     );
+    if (updates.is_active !== undefined && !updates.is_active) {
+      for (const id of userIds) {
+        await revokeUserSessions(id, 'user_deactivated');
+      }
+    }
     
     // Log the action for audit trail
     await pool.query(
@@ -610,7 +682,7 @@ export const bulkUpdateUsers = async (req: AuthenticatedRequest, res: Response)
     // Get updated users
     const [updatedUsers] = await pool.query<RowDataPacket[]>(
       `SELECT id, username, email, student_id, first_name AS firstName, 
-       last_name AS lastName, role, is_active AS isActive,
+       last_name AS lastName, role, role_id AS roleId, is_active AS isActive,
        created_at AS createdAt, updated_at AS updatedAt 
        FROM users WHERE id IN (${userIdPlaceholders})`,
       userIds
@@ -626,14 +698,13 @@ export const bulkUpdateUsers = async (req: AuthenticatedRequest, res: Response)
 /**
  * Get audit logs for a user
  * @route GET /api/users/:id/audit-logs
- * @access Admin only
+ * @access Requires users.manage
  */
 export const getUserAuditLogs = async (req: AuthenticatedRequest, res: Response) => {
   try {
     const userId = parseInt(req.params.id, 10);
     
-    // Check if user is admin
-    if (req.user?.role !== UserRole.ADMIN && req.user?.role !== 'admin') {
+    if (!(await hasPermission(req.user, 'users.manage'))) {
       return res.status(403).json({ message: 'Not authorized to view audit logs' });
     }
     
@@ -0,0 +1,270 @@
+import { Request, Response } from 'express';
+import { ResultSetHeader } from 'mysql2';
+import { pool } from '../config/database';
+import { Building, Meter, UtilityBill, UtilityBillSource } from '../types';
+import {
+  BillInput,
+  DEFAULT_TOLERANCE_PERCENT,
+  formatBill,
+  MAX_BILLS_PER_UPLOAD,
+  normalizeBill,
+  parseBillsCsv,
+  reconcileBills
+} from '../utils/utilityBills';
+
+const BILL_SELECT = `
+  SELECT ub.*, m.name AS meter_name
+  FROM utility_bills ub
+  LEFT JOIN meters m ON ub.meter_id = m.id`;
+
+const findBill = async (id: string | number) => {
+  const [bills] = await pool.query<UtilityBill[]>(`${BILL_SELECT} WHERE ub.id = ?`, [id]);
+  return bills.length > 0 ? bills[0] : null;
+};
+
+const findBuilding = async (id: unknown) => {
+  const [buildings] = await pool.query<Building[]>('SELECT id FROM buildings WHERE id = ?', [Number(id)]);
+  return buildings.length > 0 ? buildings[0] : null;
+};
+
+/**
+ * Check a bill against the building's meters and its other bills; returns an error message or null
+ */
+const checkBill = async (buildingId: number, bill: BillInput, excludeId: number | null = null) => {
+  if (bill.meterId) {
+    const [meters] = await pool.query<Meter[]>(
+      'SELECT id FROM meters WHERE id = ? AND building_id = ?',
+      [bill.meterId, buildingId]
+    );
+    if (meters.length === 0) {
+      return 'The meter does not belong to this building';
+    }
+  }
+
+  // Billing periods of one account follow each other; an overlap is usually a bill entered twice
+  const [overlapping] = await pool.query<UtilityBill[]>(
+    `SELECT period_start, period_end FROM utility_bills
+     WHERE building_id = ? AND account_number = ? AND period_start <= ? AND period_end >= ? AND id <> ?`,
+    [buildingId, bill.accountNumber, bill.periodEnd, bill.periodStart, excludeId ?? 0]
+  );
+  if (overlapping.length > 0) {
+    return 'The billing period overlaps another bill for this account';
+  }
+  return null;
+};
+
+const insertBill = (buildingId: number, bill: BillInput, source: UtilityBillSource, userId: number) =>
+  pool.query<ResultSetHeader>(
+    `INSERT INTO utility_bills
+      (building_id, meter_id, account_number, period_start, period_end, kwh, kw_demand, power_factor,
+       amount, notes, source, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      buildingId,
+      bill.meterId,
+      bill.accountNumber,
+      bill.periodStart,
+      bill.periodEnd,
+      bill.kwh,
+      bill.kwDemand,
+      bill.powerFactor,
+      bill.amount,
+      bill.notes,
+      source,
+      userId
+    ]
+  );
+
+/**
+ * List a building's bills, oldest first; ?from and ?to narrow to billing periods that overlap the range
+ */
+export const getUtilityBills = async (req: Request, res: Response) => {
+  try {
+    const { buildingId, from, to } = req.query;
+    if (!buildingId) {
+      return res.status(400).json({ message: 'buildingId is required' });
+    }
+
+    const conditions = ['ub.building_id = ?'];
+    const params: any[] = [Number(buildingId)];
+    if (from) {
+      conditions.push('ub.period_end >= ?');
+      params.push(String(from));
+    }
+    if (to) {
+      conditions.push('ub.period_start <= ?');
+      params.push(String(to));
+    }
+
+    const [bills] = await pool.query<UtilityBill[]>(
+      `${BILL_SELECT} WHERE ${conditions.join(' AND ')} ORDER BY ub.period_start, ub.account_number`,
+      params
+    );
+    return res.json(bills.map(formatBill));
+  } catch (error) {
+    console.error('Error fetching utility bills:', error);
+    return res.status(500).json({ message: 'Error fetching utility bills' });
+  }
+};
+
+export const createUtilityBill = async (req: Request, res: Response) => {
+  try {
+    const building = await findBuilding(req.body.buildingId);
+    if (!building) {
+      return res.status(400).json({ message: 'A valid building is required' });
+    }
+    const bill = normalizeBill(req.body);
+    if (typeof bill === 'string') {
+      return res.status(400).json({ message: bill });
+    }
+    const conflict = await checkBill(building.id, bill);
+    if (conflict) {
+      return res.status(409).json({ message: conflict });
+    }
+
+    const [result] = await insertBill(building.id, bill, 'manual', req.user!.id);
+    return res.status(201).json(formatBill((await findBill(result.insertId))!));
+  } catch (error: any) {
+    if (error?.code === 'ER_DUP_ENTRY') {
+      return res.status(409).json({ message: 'A bill for this account and period already exists' });
+    }
+    console.error('Error creating utility bill:', error);
+    return res.status(500).json({ message: 'Error creating utility bill' });
+  }
+};
+
+export const updateUtilityBill = async (req: Request, res: Response) => {
+  try {
+    const existing = await findBill(req.params.billId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Utility bill not found' });
+    }
+
+    // Fields left out of the request keep their stored values
+    const current = formatBill(existing);
+    const bill = normalizeBill({ ...current, ...req.body });
+    if (typeof bill === 'string') {
+      return res.status(400).json({ message: bill });
+    }
+    const conflict = await checkBill(existing.building_id, bill, existing.id);
+    if (conflict) {
+      return res.status(409).json({ message: conflict });
+    }
+
+    await pool.query(
+      `UPDATE utility_bills
+       SET meter_id = ?, account_number = ?, period_start = ?, period_end = ?, kwh = ?, kw_demand = ?,
+           power_factor = ?, amount = ?, notes = ?
+       WHERE id = ?`,
+      [
+        bill.meterId,
+        bill.accountNumber,
+        bill.periodStart,
+        bill.periodEnd,
+        bill.kwh,
+        bill.kwDemand,
+        bill.powerFactor,
+        bill.amount,
+        bill.notes,
+        existing.id
+      ]
+    );
+    return res.json(formatBill((await findBill(existing.id))!));
+  } catch (error: any) {
+    if (error?.code === 'ER_DUP_ENTRY') {
+      return res.status(409).json({ message: 'A bill for this account and period already exists' });
+    }
+    console.error('Error updating utility bill:', error);
+    return res.status(500).json({ message: 'Error updating utility bill' });
+  }
+};
+
+export const deleteUtilityBill = async (req: Request, res: Response) => {
+  try {
+    const [result] = await pool.query<ResultSetHeader>('DELETE FROM utility_bills WHERE id = ?', [req.params.billId]);
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ message: 'Utility bill not found' });
+    }
+    return res.json({ message: 'Utility bill deleted' });
+  } catch (error) {
+    console.error('Error deleting utility bill:', error);
+    return res.status(500).json({ message: 'Error deleting utility bill' });
+  }
+};
+
+/**
+ * Import a spreadsheet of bills for one building (?buildingId).
+ * Rows that fail validation or repeat a stored bill are reported and skipped; the rest are stored.
+ */
+export const uploadUtilityBills = async (req: Request, res: Response) => {
+  try {
+    const building = await findBuilding(req.query.buildingId);
+    if (!building) {
+      return res.status(400).json({ message: 'A valid building is required' });
+    }
+    if (!req.file) {
+      return res.status(400).json({ message: 'No file uploaded' });
+    }
+
+    const { rows, error } = parseBillsCsv(req.file.buffer.toString('utf-8'));
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    if (rows.length > MAX_BILLS_PER_UPLOAD) {
+      return res.status(413).json({ message: `Files can contain at most ${MAX_BILLS_PER_UPLOAD} bills` });
+    }
+
+    const result = { received: rows.length, inserted: 0, duplicates: 0, rejected: [] as Array<{ row: number; reason: string }> };
+    for (const { row, raw } of rows) {
+      const bill = normalizeBill(raw);
+      if (typeof bill === 'string') {
+        result.rejected.push({ row, reason: bill });
+        continue;
+      }
+      const conflict = await checkBill(building.id, bill);
+      if (conflict) {
+        result.duplicates++;
+        continue;
+      }
+      await insertBill(building.id, bill, 'csv', req.user!.id);
+      result.inserted++;
+    }
+
+    return res.status(result.inserted > 0 ? 201 : 200).json(result);
+  } catch (error) {
+    console.error('Error uploading utility bills:', error);
+    return res.status(500).json({ message: 'Error uploading utility bills' });
+  }
+};
+
+/**
+ * Compare a building's bills with metered consumption over each billing period.
+ * ?tolerancePercent sets how far a bill may differ from the meter before it is flagged.
+ */
+export const getBillReconciliation = async (req: Request, res: Response) => {
+  try {
+    const building = await findBuilding(req.query.buildingId);
+    if (!building) {
+      return res.status(404).json({ message: 'Building not found' });
+    }
+    const tolerancePercent = req.query.tolerancePercent !== undefined
+      ? Number(req.query.tolerancePercent)
+      : DEFAULT_TOLERANCE_PERCENT;
+    if (!Number.isFinite(tolerancePercent) || tolerancePercent < 0 || tolerancePercent > 100) {
+      return res.status(400).json({ message: 'tolerancePercent must be a number from 0 to 100' });
+    }
+
+    const [bills] = await pool.query<UtilityBill[]>(
+      `${BILL_SELECT} WHERE ub.building_id = ? ORDER BY ub.period_start, ub.account_number`,
+      [building.id]
+    );
+    return res.json({
+      buildingId: building.id,
+      tolerancePercent,
+      bills: await reconcileBills(building.id, bills, tolerancePercent)
+    });
+  } catch (error) {
+    console.error('Error reconciling utility bills:', error);
+    return res.status(500).json({ message: 'Error reconciling utility bills' });
+  }
+};
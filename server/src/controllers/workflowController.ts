@@ -0,0 +1,107 @@
+import { Request, Response } from 'express';
+import { RowDataPacket } from 'mysql2';
+import { transaction } from '../config/database';
+import { WorkflowEntityType } from '../types';
+import { AppError, createConflictError } from '../utils/errorHandler';
+import {
+  getWorkflowDefinition,
+  isWorkflowEntityType,
+  validateWorkflowDefinition,
+  WORKFLOW_ENTITY_TYPES
+} from '../utils/workflow';
+
+// Table and status column holding each entity's current workflow state
+const ENTITY_TABLES: Record<WorkflowEntityType, string> = {
+  audit: 'energy_audits',
+  finding: 'findings'
+};
+
+export const getWorkflow = async (req: Request, res: Response) => {
+  try {
+    const { entityType } = req.params;
+    if (!isWorkflowEntityType(entityType)) {
+      return res.status(404).json({ message: `Workflow must be one of: ${WORKFLOW_ENTITY_TYPES.join(', ')}` });
+    }
+
+    return res.json(await getWorkflowDefinition(entityType));
+  } catch (error) {
+    console.error('Error fetching workflow:', error);
+    return res.status(500).json({ message: 'Error fetching workflow' });
+  }
+};
+
+/**
+ * Replace a workflow's states and transitions; states still held by records cannot be removed
+ */
+export const updateWorkflow = async (req: Request, res: Response) => {
+  try {
+    const { entityType } = req.params;
+    if (!isWorkflowEntityType(entityType)) {
+      return res.status(404).json({ message: `Workflow must be one of: ${WORKFLOW_ENTITY_TYPES.join(', ')}` });
+    }
+
+    const { states, transitions } = validateWorkflowDefinition(req.body.states, req.body.transitions);
+    const keys = states.map(state => state.key);
+
+    const definition = await transaction(async connection => {
+      const [inUse] = await connection.query<RowDataPacket[]>(
+        `SELECT status, COUNT(*) AS count FROM ${ENTITY_TABLES[entityType]} WHERE status NOT IN (?) GROUP BY status`,
+        [keys]
+      );
+      if (inUse.length > 0) {
+        const removed = inUse.map(row => `${row.status} (${row.count})`).join(', ');
+        throw createConflictError(`States still in use cannot be removed: ${removed}`);
+      }
+
+      await connection.query('DELETE FROM workflow_transitions WHERE entity_type = ?', [entityType]);
+      await connection.query('DELETE FROM workflow_states WHERE entity_type = ?', [entityType]);
+      await connection.query(
+        `INSERT INTO workflow_states (entity_type, state_key, label, description, sort_order, is_initial, is_final)
+         VALUES ?`,
+        [states.map((state, index) => [
+          entityType,
+          state.key,
+          state.label,
+          state.description || null,
+          index,
+          Boolean(state.isInitial),
+          Boolean(state.isFinal)
+        ])]
+      );
+      if (transitions.length > 0) {
+        await connection.query(
+          `INSERT INTO workflow_transitions (entity_type, from_state, to_state, label, permission, requires_comment)
+           VALUES ?`,
+          [transitions.map(transition => [
+            entityType,
+            transition.from,
+            transition.to,
+            transition.label || transition.to,
+            transition.permission || null,
+            Boolean(transition.requiresComment)
+          ])]
+        );
+      }
+      await connection.query(
+        'INSERT INTO audit_logs (user_id, action, details, entity_type, entity_id) VALUES (?, ?, ?, ?, ?)',
+        [
+          req.user!.id,
+          'WORKFLOW_UPDATED',
+          JSON.stringify({ states: keys.length, transitions: transitions.length }),
+          'workflow',
+          entityType
+        ]
+      );
+
+      return getWorkflowDefinition(entityType, connection);
+    });
+
+    return res.json(definition);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error('Error updating workflow:', error);
+    return res.status(500).json({ message: 'Error updating workflow' });
+  }
+};
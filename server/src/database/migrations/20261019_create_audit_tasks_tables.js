@@ -0,0 +1,161 @@
+/**
+ * Migration: Create Audit Tasks Tables
+ * Brings energy_audits to the shape used by the audit API and creates the audit task and
+ * task comment tables
+ */
+
+const mysql = require('mysql2/promise');
+const config = require('../../config/db');
+const logger = require('../../utils/logger');
+
+// Columns the audit API needs, with definitions that are safe to add to an existing table
+const ENERGY_AUDIT_COLUMNS = [
+  ['user_id', 'INT NULL'],
+  ['title', 'VARCHAR(255) NULL'],
+  ['description', 'TEXT NULL'],
+  ['location', 'VARCHAR(255) NULL'],
+  ['status', "VARCHAR(20) NOT NULL DEFAULT 'DRAFT'"],
+  ['current_phase', 'TINYINT UNSIGNED NOT NULL DEFAULT 0'],
+  ['start_date', 'DATE NULL'],
+  ['end_date', 'DATE NULL'],
+  ['power_usage', 'DECIMAL(12,2) NULL'],
+  ['lighting_efficiency', 'DECIMAL(5,2) NULL'],
+  ['hvac_efficiency', 'DECIMAL(5,2) NULL'],
+  ['archived_at', 'TIMESTAMP NULL'],
+  ['created_at', 'TIMESTAMP DEFAULT CURRENT_TIMESTAMP'],
+  ['updated_at', 'TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP']
+];
+
+async function getColumns(connection, table) {
+  const [rows] = await connection.execute(
+    'SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ?',
+    [table]
+  );
+  return rows.map(row => row.COLUMN_NAME);
+}
+
+async function up() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Running migration: Create Audit Tasks Tables');
+
+    // Create energy_audits table if an earlier migration has not
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS energy_audits (
+        id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NULL,
+        title VARCHAR(255) NOT NULL,
+        description TEXT NULL,
+        location VARCHAR(255) NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'DRAFT',
+        current_phase TINYINT UNSIGNED NOT NULL DEFAULT 0,
+        start_date DATE NULL,
+        end_date DATE NULL,
+        power_usage DECIMAL(12,2) NULL,
+        lighting_efficiency DECIMAL(5,2) NULL,
+        hvac_efficiency DECIMAL(5,2) NULL,
+        archived_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        INDEX(user_id),
+        INDEX(status)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    // Upgrade a table created by 20240513_create_energy_audits_table
+    const existing = await getColumns(connection, 'energy_audits');
+    for (const [column, definition] of ENERGY_AUDIT_COLUMNS) {
+      if (!existing.includes(column)) {
+        await connection.execute(`ALTER TABLE energy_audits ADD COLUMN ${column} ${definition}`);
+      }
+    }
+    if (existing.includes('status')) {
+      await connection.execute(`ALTER TABLE energy_audits MODIFY status VARCHAR(20) NOT NULL DEFAULT 'DRAFT'`);
+      await connection.execute(`UPDATE energy_audits SET status = 'DRAFT' WHERE status = 'Pending'`);
+      await connection.execute(`UPDATE energy_audits SET status = 'APPROVED' WHERE status = 'Completed'`);
+    }
+    if (existing.includes('name')) {
+      await connection.execute('ALTER TABLE energy_audits MODIFY name VARCHAR(255) NULL');
+      await connection.execute('UPDATE energy_audits SET title = name WHERE title IS NULL');
+    }
+    if (existing.includes('createdAt') && !existing.includes('created_at')) {
+      await connection.execute('UPDATE energy_audits SET created_at = createdAt WHERE createdAt IS NOT NULL');
+    }
+    if (existing.includes('dueDate') && !existing.includes('end_date')) {
+      await connection.execute('UPDATE energy_audits SET end_date = DATE(dueDate) WHERE dueDate IS NOT NULL');
+    }
+
+    // Create audit_tasks table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS audit_tasks (
+        id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+        audit_id INT UNSIGNED NOT NULL,
+        title VARCHAR(255) NOT NULL,
+        description TEXT NULL,
+        assignee_id INT NULL,
+        status ENUM('not_started', 'in_progress', 'completed', 'blocked') NOT NULL DEFAULT 'not_started',
+        priority ENUM('low', 'medium', 'high') NOT NULL DEFAULT 'medium',
+        due_date DATE NULL,
+        completed_date DATE NULL,
+        approval_status ENUM('not_submitted', 'pending', 'approved', 'rejected') NOT NULL DEFAULT 'not_submitted',
+        approved_by INT NULL,
+        approved_at TIMESTAMP NULL,
+        created_by INT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (audit_id) REFERENCES energy_audits(id) ON DELETE CASCADE,
+        FOREIGN KEY (assignee_id) REFERENCES users(id) ON DELETE SET NULL,
+        FOREIGN KEY (approved_by) REFERENCES users(id) ON DELETE SET NULL,
+        INDEX(audit_id, status),
+        INDEX(assignee_id),
+        INDEX(approval_status)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    // Create audit_task_comments table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS audit_task_comments (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        task_id INT UNSIGNED NOT NULL,
+        user_id INT NOT NULL,
+        content TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (task_id) REFERENCES audit_tasks(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        INDEX(task_id)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    logger.info('Migration completed successfully');
+  } catch (error) {
+    logger.error('Migration failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+async function down() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Rolling back migration: Create Audit Tasks Tables');
+
+    // Drop tables in reverse order; energy_audits predates this migration and is kept
+    await connection.execute(`DROP TABLE IF EXISTS audit_task_comments;`);
+    await connection.execute(`DROP TABLE IF EXISTS audit_tasks;`);
+
+    logger.info('Rollback completed successfully');
+  } catch (error) {
+    logger.error('Rollback failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+module.exports = { up, down };
@@ -0,0 +1,124 @@
+/**
+ * Migration: Create Audit Teams Tables
+ * Audit team members (lead auditor, auditor or client viewer) decide who can see an audit's
+ * findings, comments, attachments, reports and calculations. Creates the member and invitation
+ * tables, links findings and reports to an audit, and puts existing audit creators and task
+ * assignees on their audits' teams
+ */
+
+const mysql = require('mysql2/promise');
+const config = require('../../config/db');
+const logger = require('../../utils/logger');
+
+async function getColumns(connection, table) {
+  const [rows] = await connection.execute(
+    'SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ?',
+    [table]
+  );
+  return rows.map(row => row.COLUMN_NAME);
+}
+
+async function up() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Running migration: Create Audit Teams Tables');
+
+    // Create audit_team_members table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS audit_team_members (
+        id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+        audit_id INT UNSIGNED NOT NULL,
+        user_id INT NOT NULL,
+        team_role ENUM('lead_auditor', 'auditor', 'client_viewer') NOT NULL,
+        added_by INT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (audit_id) REFERENCES energy_audits(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (added_by) REFERENCES users(id) ON DELETE SET NULL,
+        UNIQUE KEY(audit_id, user_id),
+        INDEX(user_id, team_role)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    // Create audit_team_invitations table; user_id is NULL until someone with the email signs up
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS audit_team_invitations (
+        id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+        audit_id INT UNSIGNED NOT NULL,
+        email VARCHAR(255) NOT NULL,
+        user_id INT NULL,
+        team_role ENUM('lead_auditor', 'auditor', 'client_viewer') NOT NULL,
+        status ENUM('pending', 'accepted', 'declined', 'cancelled') NOT NULL DEFAULT 'pending',
+        invited_by INT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        responded_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (audit_id) REFERENCES energy_audits(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (invited_by) REFERENCES users(id) ON DELETE SET NULL,
+        INDEX(audit_id, status),
+        INDEX(email, status),
+        INDEX(user_id, status)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    // Findings and reports belong to an audit so they can be scoped to its team
+    for (const table of ['findings', 'reports']) {
+      const columns = await getColumns(connection, table);
+      if (columns.length > 0 && !columns.includes('audit_id')) {
+        await connection.execute(`ALTER TABLE ${table} ADD COLUMN audit_id INT UNSIGNED NULL`);
+        await connection.execute(`ALTER TABLE ${table} ADD INDEX idx_${table}_audit_id (audit_id)`);
+      }
+    }
+
+    // Existing audits keep the people who could already see them
+    await connection.execute(`
+      INSERT IGNORE INTO audit_team_members (audit_id, user_id, team_role)
+      SELECT ea.id, ea.user_id, 'lead_auditor' FROM energy_audits ea
+      JOIN users u ON u.id = ea.user_id
+    `);
+    await connection.execute(`
+      INSERT IGNORE INTO audit_team_members (audit_id, user_id, team_role)
+      SELECT DISTINCT t.audit_id, t.assignee_id, 'auditor' FROM audit_tasks t
+      WHERE t.assignee_id IS NOT NULL
+    `);
+
+    logger.info('Migration completed successfully');
+  } catch (error) {
+    logger.error('Migration failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+async function down() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Rolling back migration: Create Audit Teams Tables');
+
+    // findings.audit_id predates this migration in some schemas and is kept
+    const reportColumns = await getColumns(connection, 'reports');
+    if (reportColumns.includes('audit_id')) {
+      await connection.execute('ALTER TABLE reports DROP INDEX idx_reports_audit_id');
+      await connection.execute('ALTER TABLE reports DROP COLUMN audit_id');
+    }
+
+    await connection.execute(`DROP TABLE IF EXISTS audit_team_invitations;`);
+    await connection.execute(`DROP TABLE IF EXISTS audit_team_members;`);
+
+    logger.info('Rollback completed successfully');
+  } catch (error) {
+    logger.error('Rollback failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+module.exports = { up, down };
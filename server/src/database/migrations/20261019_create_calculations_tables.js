@@ -0,0 +1,80 @@
+/**
+ * Migration: Create Calculations Tables
+ * Creates tables for storing saved calculator results per user and per audit, with version history
+ */
+
+const mysql = require('mysql2/promise');
+const config = require('../../config/db');
+const logger = require('../../utils/logger');
+
+async function up() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Running migration: Create Calculations Tables');
+
+    // Create calculations table - the current version of each saved calculation
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS calculations (
+        id VARCHAR(64) PRIMARY KEY,
+        user_id INT NOT NULL,
+        audit_id INT UNSIGNED NULL,
+        type VARCHAR(50) NOT NULL,
+        name VARCHAR(255) NOT NULL,
+        data JSON NOT NULL,
+        version INT NOT NULL DEFAULT 1,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        INDEX(user_id, type),
+        INDEX(audit_id)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    // Create calculation_versions table - every saved version, including the current one
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS calculation_versions (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        calculation_id VARCHAR(64) NOT NULL,
+        version INT NOT NULL,
+        name VARCHAR(255) NOT NULL,
+        data JSON NOT NULL,
+        created_by INT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (calculation_id) REFERENCES calculations(id) ON DELETE CASCADE,
+        UNIQUE KEY(calculation_id, version),
+        INDEX(created_by)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    logger.info('Migration completed successfully');
+  } catch (error) {
+    logger.error('Migration failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+async function down() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Rolling back migration: Create Calculations Tables');
+
+    // Drop tables in reverse order
+    await connection.execute(`DROP TABLE IF EXISTS calculation_versions;`);
+    await connection.execute(`DROP TABLE IF EXISTS calculations;`);
+
+    logger.info('Rollback completed successfully');
+  } catch (error) {
+    logger.error('Rollback failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+module.exports = { up, down };
@@ -0,0 +1,158 @@
+/**
+ * Migration: Create Meters Tables
+ * Creates buildings, electrical panels and meters, and links power_readings to the meter that
+ * produced them so ingested and polled data replace the simulated readings
+ */
+
+const mysql = require('mysql2/promise');
+const config = require('../../config/db');
+const logger = require('../../utils/logger');
+
+// Readings written by the old simulator keep a NULL meter_id and are tagged so they can be filtered out
+const READING_COLUMNS = [
+  ['meter_id', 'INT UNSIGNED NULL AFTER id'],
+  ['source', "VARCHAR(20) NOT NULL DEFAULT 'simulated' AFTER meter_id"],
+  ['energy_kwh', 'DECIMAL(14, 3) NULL AFTER power_usage']
+];
+
+// Meters may not report every quantity, so these become optional
+const OPTIONAL_READING_COLUMNS = [
+  ['voltage', 'DECIMAL(7, 2) NULL'],
+  ['current', 'DECIMAL(9, 2) NULL'],
+  ['power_factor', 'DECIMAL(4, 3) NULL'],
+  ['frequency', 'DECIMAL(5, 2) NULL'],
+  ['temperature', 'DECIMAL(4, 1) NULL'],
+  ['humidity', 'DECIMAL(4, 1) NULL']
+];
+
+async function getColumns(connection, table) {
+  const [rows] = await connection.execute(
+    'SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ?',
+    [table]
+  );
+  return rows.map(row => row.COLUMN_NAME);
+}
+
+async function up() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Running migration: Create Meters Tables');
+
+    // Create buildings table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS buildings (
+        id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        address VARCHAR(255) NULL,
+        building_type VARCHAR(100) NULL,
+        floor_area DECIMAL(12, 2) NULL COMMENT 'Gross floor area in square meters',
+        created_by INT UNSIGNED NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    // Create panels table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS panels (
+        id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+        building_id INT UNSIGNED NOT NULL,
+        parent_panel_id INT UNSIGNED NULL,
+        name VARCHAR(100) NOT NULL,
+        location VARCHAR(255) NULL,
+        voltage_rating DECIMAL(7, 2) NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY(building_id, name),
+        FOREIGN KEY (building_id) REFERENCES buildings(id) ON DELETE CASCADE,
+        FOREIGN KEY (parent_panel_id) REFERENCES panels(id) ON DELETE SET NULL
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    // Create meters table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS meters (
+        id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+        building_id INT UNSIGNED NOT NULL,
+        panel_id INT UNSIGNED NULL,
+        name VARCHAR(100) NOT NULL,
+        serial_number VARCHAR(100) NULL UNIQUE,
+        interval_minutes INT NOT NULL DEFAULT 15,
+        protocol ENUM('manual', 'modbus_tcp') NOT NULL DEFAULT 'manual',
+        modbus_host VARCHAR(255) NULL,
+        modbus_port INT NULL DEFAULT 502,
+        modbus_unit_id INT NULL DEFAULT 1,
+        modbus_register_map JSON NULL,
+        poll_interval_seconds INT NOT NULL DEFAULT 60,
+        is_active BOOLEAN NOT NULL DEFAULT true,
+        last_reading_at DATETIME NULL,
+        last_error VARCHAR(255) NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (building_id) REFERENCES buildings(id) ON DELETE CASCADE,
+        FOREIGN KEY (panel_id) REFERENCES panels(id) ON DELETE SET NULL
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    // Link readings to meters
+    const readingColumns = await getColumns(connection, 'power_readings');
+    for (const [column, definition] of READING_COLUMNS) {
+      if (!readingColumns.includes(column)) {
+        await connection.execute(`ALTER TABLE power_readings ADD COLUMN ${column} ${definition}`);
+      }
+    }
+    for (const [column, definition] of OPTIONAL_READING_COLUMNS) {
+      await connection.execute(`ALTER TABLE power_readings MODIFY ${column} ${definition}`);
+    }
+    if (!readingColumns.includes('meter_id')) {
+      // One reading per meter per timestamp; simulated rows have no meter and are unaffected
+      await connection.execute('ALTER TABLE power_readings ADD UNIQUE KEY uq_power_readings_meter_time (meter_id, timestamp)');
+      await connection.execute(`
+        ALTER TABLE power_readings
+        ADD CONSTRAINT fk_power_readings_meter FOREIGN KEY (meter_id) REFERENCES meters(id) ON DELETE CASCADE
+      `);
+    }
+
+    logger.info('Migration completed successfully');
+  } catch (error) {
+    logger.error('Migration failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+async function down() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Rolling back migration: Create Meters Tables');
+
+    const readingColumns = await getColumns(connection, 'power_readings');
+    if (readingColumns.includes('meter_id')) {
+      await connection.execute('ALTER TABLE power_readings DROP FOREIGN KEY fk_power_readings_meter');
+      await connection.execute('ALTER TABLE power_readings DROP INDEX uq_power_readings_meter_time');
+      await connection.execute('DELETE FROM power_readings WHERE meter_id IS NOT NULL');
+      for (const [column] of READING_COLUMNS) {
+        await connection.execute(`ALTER TABLE power_readings DROP COLUMN ${column}`);
+      }
+    }
+
+    // Drop tables in reverse order
+    await connection.execute(`DROP TABLE IF EXISTS meters;`);
+    await connection.execute(`DROP TABLE IF EXISTS panels;`);
+    await connection.execute(`DROP TABLE IF EXISTS buildings;`);
+
+    logger.info('Rollback completed successfully');
+  } catch (error) {
+    logger.error('Rollback failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+module.exports = { up, down };
@@ -0,0 +1,133 @@
+/**
+ * Migration: Create Power Rollup Tables
+ * Records how long each reading's demand was held for, and adds 15-minute, hourly and daily
+ * rollups of metered readings so long-range charts and metrics don't scan power_readings
+ */
+
+const mysql = require('mysql2/promise');
+const config = require('../../config/db');
+const logger = require('../../utils/logger');
+
+const ROLLUP_TABLES = ['power_rollups_15min', 'power_rollups_hourly', 'power_rollups_daily'];
+
+async function getColumns(connection, table) {
+  const [rows] = await connection.execute(
+    'SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ?',
+    [table]
+  );
+  return rows.map(row => row.COLUMN_NAME);
+}
+
+async function up() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Running migration: Create Power Rollup Tables');
+
+    // Seconds of demand a reading stands for; existing rows take their meter's interval (or poll period for Modbus)
+    const readingColumns = await getColumns(connection, 'power_readings');
+    if (!readingColumns.includes('interval_seconds')) {
+      await connection.execute('ALTER TABLE power_readings ADD COLUMN interval_seconds INT UNSIGNED NULL AFTER power_usage');
+      await connection.execute(`
+        UPDATE power_readings r
+        JOIN meters m ON r.meter_id = m.id
+        SET r.interval_seconds = CASE WHEN r.source = 'modbus' THEN m.poll_interval_seconds ELSE m.interval_minutes * 60 END
+      `);
+    }
+
+    // The three tables share one layout; bucket_start is the local start of the 15 minutes, hour or day
+    for (const table of ROLLUP_TABLES) {
+      await connection.execute(`
+        CREATE TABLE IF NOT EXISTS ${table} (
+          meter_id INT UNSIGNED NOT NULL,
+          bucket_start DATETIME NOT NULL,
+          energy_kwh DECIMAL(16, 4) NOT NULL DEFAULT 0,
+          covered_seconds INT UNSIGNED NOT NULL DEFAULT 0 COMMENT 'Seconds of the bucket covered by readings',
+          min_kw DECIMAL(12, 3) NULL,
+          max_kw DECIMAL(12, 3) NULL COMMENT 'Highest single reading',
+          peak_demand_kw DECIMAL(12, 3) NULL COMMENT 'Highest 15-minute average demand',
+          power_factor_sum DECIMAL(14, 3) NOT NULL DEFAULT 0,
+          power_factor_samples INT UNSIGNED NOT NULL DEFAULT 0,
+          sample_count INT UNSIGNED NOT NULL DEFAULT 0,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+          PRIMARY KEY (meter_id, bucket_start),
+          INDEX idx_${table}_bucket (bucket_start),
+          FOREIGN KEY (meter_id) REFERENCES meters(id) ON DELETE CASCADE
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `);
+    }
+
+    // Backfill from readings already stored; later readings are rolled up as they are ingested
+    await connection.execute(`
+      INSERT IGNORE INTO power_rollups_15min
+        (meter_id, bucket_start, energy_kwh, covered_seconds, min_kw, max_kw, peak_demand_kw,
+         power_factor_sum, power_factor_samples, sample_count)
+      SELECT meter_id, bucket_start, energy_kwh, covered_seconds, min_kw, max_kw,
+        energy_kwh * 3600 / NULLIF(covered_seconds, 0), power_factor_sum, power_factor_samples, sample_count
+      FROM (
+        SELECT meter_id,
+          TIMESTAMP(DATE(timestamp), MAKETIME(HOUR(timestamp), MINUTE(timestamp) DIV 15 * 15, 0)) AS bucket_start,
+          SUM(power_usage * interval_seconds / 3600) AS energy_kwh,
+          SUM(interval_seconds) AS covered_seconds,
+          MIN(power_usage) AS min_kw,
+          MAX(power_usage) AS max_kw,
+          COALESCE(SUM(power_factor), 0) AS power_factor_sum,
+          COUNT(power_factor) AS power_factor_samples,
+          COUNT(*) AS sample_count
+        FROM power_readings
+        WHERE meter_id IS NOT NULL AND interval_seconds IS NOT NULL
+        GROUP BY meter_id, bucket_start
+      ) buckets
+    `);
+    for (const [table, source, bucket] of [
+      ['power_rollups_hourly', 'power_rollups_15min', "DATE_FORMAT(bucket_start, '%Y-%m-%d %H:00:00')"],
+      ['power_rollups_daily', 'power_rollups_hourly', 'DATE(bucket_start)']
+    ]) {
+      await connection.execute(`
+        INSERT IGNORE INTO ${table}
+          (meter_id, bucket_start, energy_kwh, covered_seconds, min_kw, max_kw, peak_demand_kw,
+           power_factor_sum, power_factor_samples, sample_count)
+        SELECT meter_id, ${bucket}, SUM(energy_kwh), SUM(covered_seconds), MIN(min_kw), MAX(max_kw),
+          MAX(peak_demand_kw), SUM(power_factor_sum), SUM(power_factor_samples), SUM(sample_count)
+        FROM ${source}
+        GROUP BY meter_id, ${bucket}
+      `);
+    }
+
+    logger.info('Migration completed successfully');
+  } catch (error) {
+    logger.error('Migration failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+async function down() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Rolling back migration: Create Power Rollup Tables');
+
+    // Drop tables in reverse order
+    for (const table of [...ROLLUP_TABLES].reverse()) {
+      await connection.execute(`DROP TABLE IF EXISTS ${table};`);
+    }
+
+    const readingColumns = await getColumns(connection, 'power_readings');
+    if (readingColumns.includes('interval_seconds')) {
+      await connection.execute('ALTER TABLE power_readings DROP COLUMN interval_seconds');
+    }
+
+    logger.info('Rollback completed successfully');
+  } catch (error) {
+    logger.error('Rollback failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+module.exports = { up, down };
@@ -0,0 +1,96 @@
+/**
+ * Migration: Create Report Render Jobs Table
+ * Reports are rendered to PDF on the server by a background worker. Creates the job queue table
+ * and adds the columns that point a report at its last rendered file
+ */
+
+const mysql = require('mysql2/promise');
+const config = require('../../config/db');
+const logger = require('../../utils/logger');
+
+async function getColumns(connection, table) {
+  const [rows] = await connection.execute(
+    'SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ?',
+    [table]
+  );
+  return rows.map(row => row.COLUMN_NAME);
+}
+
+async function up() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Running migration: Create Report Render Jobs Table');
+
+    // Create report_render_jobs table; the worker claims the oldest queued row
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS report_render_jobs (
+        id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+        report_id INT NOT NULL,
+        requested_by INT NULL,
+        status ENUM('queued', 'running', 'completed', 'failed', 'cancelled') NOT NULL DEFAULT 'queued',
+        progress TINYINT UNSIGNED NOT NULL DEFAULT 0,
+        message VARCHAR(255) NULL,
+        error TEXT NULL,
+        file_path VARCHAR(500) NULL,
+        file_size INT UNSIGNED NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        started_at TIMESTAMP NULL,
+        completed_at TIMESTAMP NULL,
+        FOREIGN KEY (report_id) REFERENCES reports(id) ON DELETE CASCADE,
+        FOREIGN KEY (requested_by) REFERENCES users(id) ON DELETE SET NULL,
+        INDEX(status, created_at),
+        INDEX(report_id, created_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    // The finished file is stored against the report for later download
+    const columns = await getColumns(connection, 'reports');
+    if (!columns.includes('rendered_file_path')) {
+      await connection.execute(`
+        ALTER TABLE reports
+          ADD COLUMN rendered_file_path VARCHAR(500) NULL,
+          ADD COLUMN rendered_file_size INT UNSIGNED NULL,
+          ADD COLUMN rendered_at TIMESTAMP NULL
+      `);
+    }
+
+    logger.info('Migration completed successfully');
+  } catch (error) {
+    logger.error('Migration failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+async function down() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Rolling back migration: Create Report Render Jobs Table');
+
+    const columns = await getColumns(connection, 'reports');
+    if (columns.includes('rendered_file_path')) {
+      await connection.execute(`
+        ALTER TABLE reports
+          DROP COLUMN rendered_file_path,
+          DROP COLUMN rendered_file_size,
+          DROP COLUMN rendered_at
+      `);
+    }
+
+    await connection.execute(`DROP TABLE IF EXISTS report_render_jobs;`);
+
+    logger.info('Rollback completed successfully');
+  } catch (error) {
+    logger.error('Rollback failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+module.exports = { up, down };
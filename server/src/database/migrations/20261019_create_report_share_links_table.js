@@ -0,0 +1,71 @@
+/**
+ * Migration: Create Report Share Links Table
+ * Reports can be shared with people who have no account through tokenized links, optionally
+ * protected by a password, an expiry date and a view limit. Only a hash of each token is stored.
+ */
+
+const mysql = require('mysql2/promise');
+const config = require('../../config/db');
+const logger = require('../../utils/logger');
+
+async function up() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Running migration: Create Report Share Links Table');
+
+    // Accesses are written to audit_logs against the report (entity_type 'report')
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS report_share_links (
+        id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+        report_id INT NOT NULL,
+        token_hash CHAR(64) NOT NULL,
+        label VARCHAR(255) NULL,
+        password_hash VARCHAR(255) NULL,
+        expires_at DATETIME NULL,
+        max_views INT UNSIGNED NULL,
+        view_count INT UNSIGNED NOT NULL DEFAULT 0,
+        failed_attempts INT UNSIGNED NOT NULL DEFAULT 0,
+        locked_until DATETIME NULL,
+        last_viewed_at TIMESTAMP NULL,
+        created_by INT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        revoked_at TIMESTAMP NULL,
+        revoked_by INT NULL,
+        FOREIGN KEY (report_id) REFERENCES reports(id) ON DELETE CASCADE,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
+        FOREIGN KEY (revoked_by) REFERENCES users(id) ON DELETE SET NULL,
+        UNIQUE KEY uq_report_share_links_token (token_hash),
+        INDEX(report_id, created_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    logger.info('Migration completed successfully');
+  } catch (error) {
+    logger.error('Migration failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+async function down() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Rolling back migration: Create Report Share Links Table');
+
+    await connection.execute(`DROP TABLE IF EXISTS report_share_links;`);
+
+    logger.info('Rollback completed successfully');
+  } catch (error) {
+    logger.error('Rollback failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+module.exports = { up, down };
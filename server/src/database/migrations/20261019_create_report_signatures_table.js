@@ -0,0 +1,67 @@
+/**
+ * Migration: Create Report Signatures Table
+ * A manager's sign-off on a report, bound to a hash of the report content at the time of signing
+ * so later edits can be detected.
+ */
+
+const mysql = require('mysql2/promise');
+const config = require('../../config/db');
+const logger = require('../../utils/logger');
+
+async function up() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Running migration: Create Report Signatures Table');
+
+    // Signer name and role are copied so the record still reads correctly after the user changes
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS report_signatures (
+        id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+        report_id INT NOT NULL,
+        report_version INT UNSIGNED NULL,
+        content_hash CHAR(64) NOT NULL,
+        signer_id INT NULL,
+        signer_name VARCHAR(255) NOT NULL,
+        signer_role VARCHAR(50) NOT NULL,
+        signature_image MEDIUMTEXT NULL,
+        comments TEXT NULL,
+        verification_code CHAR(32) NOT NULL,
+        seal CHAR(64) NULL,
+        signed_at DATETIME NOT NULL,
+        FOREIGN KEY (report_id) REFERENCES reports(id) ON DELETE CASCADE,
+        FOREIGN KEY (signer_id) REFERENCES users(id) ON DELETE SET NULL,
+        UNIQUE KEY uq_report_signatures_code (verification_code),
+        INDEX(report_id, signed_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    logger.info('Migration completed successfully');
+  } catch (error) {
+    logger.error('Migration failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+async function down() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Rolling back migration: Create Report Signatures Table');
+
+    await connection.execute(`DROP TABLE IF EXISTS report_signatures;`);
+
+    logger.info('Rollback completed successfully');
+  } catch (error) {
+    logger.error('Rollback failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+module.exports = { up, down };
@@ -0,0 +1,64 @@
+/**
+ * Migration: Create Report Versions Table
+ * Every save or publish of a report stores an immutable snapshot of its title, contents and
+ * metadata, so earlier versions can be compared and restored
+ */
+
+const mysql = require('mysql2/promise');
+const config = require('../../config/db');
+const logger = require('../../utils/logger');
+
+async function up() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Running migration: Create Report Versions Table');
+
+    // Rows are only ever inserted; a restore adds a new version instead of rewriting history
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS report_versions (
+        id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+        report_id INT NOT NULL,
+        version INT NOT NULL,
+        title VARCHAR(255) NOT NULL,
+        status ENUM('draft', 'published', 'archived') NOT NULL DEFAULT 'draft',
+        snapshot JSON NOT NULL,
+        change_note VARCHAR(255) NULL,
+        restored_from INT NULL,
+        created_by INT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (report_id) REFERENCES reports(id) ON DELETE CASCADE,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
+        UNIQUE KEY uq_report_version (report_id, version)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    logger.info('Migration completed successfully');
+  } catch (error) {
+    logger.error('Migration failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+async function down() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Rolling back migration: Create Report Versions Table');
+
+    await connection.execute(`DROP TABLE IF EXISTS report_versions;`);
+
+    logger.info('Rollback completed successfully');
+  } catch (error) {
+    logger.error('Rollback failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+module.exports = { up, down };
@@ -0,0 +1,89 @@
+/**
+ * Migration: Create Roles Table
+ * Roles grant permissions from the registry in utils/permissions.ts. The built-in ADMIN, MANAGER and
+ * USER roles are seeded with a NULL permission list, meaning their defaults; users may be given a
+ * custom role through users.role_id
+ */
+
+const mysql = require('mysql2/promise');
+const config = require('../../config/db');
+const logger = require('../../utils/logger');
+
+async function getColumns(connection, table) {
+  const [rows] = await connection.execute(
+    'SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ?',
+    [table]
+  );
+  return rows.map(row => row.COLUMN_NAME);
+}
+
+async function up() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Running migration: Create Roles Table');
+
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS roles (
+        id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+        name VARCHAR(50) NOT NULL,
+        description VARCHAR(255) NULL,
+        is_system TINYINT(1) NOT NULL DEFAULT 0,
+        permissions JSON NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY(name)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    await connection.execute(`
+      INSERT IGNORE INTO roles (name, description, is_system) VALUES
+        ('ADMIN', 'Full access to every part of the system', 1),
+        ('MANAGER', 'Runs audits, approves submissions and maintains reference data', 1),
+        ('USER', 'Works on assigned audits and tasks', 1)
+    `);
+
+    const userColumns = await getColumns(connection, 'users');
+    // NULL keeps the user on the built-in role named by users.role
+    if (!userColumns.includes('role_id')) {
+      await connection.execute('ALTER TABLE users ADD COLUMN role_id INT UNSIGNED NULL AFTER role');
+      await connection.execute(
+        'ALTER TABLE users ADD CONSTRAINT fk_users_role_id FOREIGN KEY (role_id) REFERENCES roles(id) ON DELETE SET NULL'
+      );
+    }
+
+    logger.info('Migration completed successfully');
+  } catch (error) {
+    logger.error('Migration failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+async function down() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Rolling back migration: Create Roles Table');
+
+    const userColumns = await getColumns(connection, 'users');
+    if (userColumns.includes('role_id')) {
+      await connection.execute('ALTER TABLE users DROP FOREIGN KEY fk_users_role_id');
+      await connection.execute('ALTER TABLE users DROP COLUMN role_id');
+    }
+
+    await connection.execute(`DROP TABLE IF EXISTS roles;`);
+
+    logger.info('Rollback completed successfully');
+  } catch (error) {
+    logger.error('Rollback failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+module.exports = { up, down };
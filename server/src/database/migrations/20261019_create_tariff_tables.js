@@ -0,0 +1,187 @@
+/**
+ * Migration: Create Tariff Tables
+ * Creates utility tariff schedules with versions by effective date, and seeds two sample
+ * Philippine distribution-utility tariffs that admins can copy and update from published rates
+ */
+
+const mysql = require('mysql2/promise');
+const config = require('../../config/db');
+const logger = require('../../utils/logger');
+
+// Lifeline rate discounts (RA 11552) for registered low-income residential customers
+const LIFELINE_BRACKETS = [
+  { maxKwh: 20, discountPercent: 100 },
+  { maxKwh: 50, discountPercent: 50 },
+  { maxKwh: 70, discountPercent: 35 },
+  { maxKwh: 100, discountPercent: 20 }
+];
+
+// Senior citizen discount (RA 9994) on residential accounts up to 100 kWh a month
+const SENIOR_CITIZEN_DISCOUNT = { maxKwh: 100, discountPercent: 5 };
+
+const charge = (key, label, component, unit, rate, options = {}) => ({
+  key,
+  label,
+  component,
+  unit,
+  rate,
+  vatable: options.vatable !== false,
+  discountable: options.discountable !== false,
+  ...(options.period ? { period: options.period } : {})
+});
+
+// Government pass-through charges are neither subject to VAT nor covered by discounts
+const PASS_THROUGH = { vatable: false, discountable: false };
+
+// Rates are illustrative; replace them with the utility's current published schedule
+const SAMPLE_TARIFFS = [
+  {
+    code: 'SAMPLE-RES',
+    name: 'Residential (sample)',
+    utility: 'Sample Distribution Utility',
+    customerClass: 'residential',
+    description: 'Flat-rate residential schedule with lifeline and senior citizen discounts. Illustrative rates.',
+    isDefault: false,
+    charges: [
+      charge('generation', 'Generation Charge', 'generation', 'kwh', 7.02),
+      charge('transmission', 'Transmission Charge', 'transmission', 'kwh', 0.89),
+      charge('system_loss', 'System Loss Charge', 'system_loss', 'kwh', 0.62),
+      charge('distribution', 'Distribution Charge', 'distribution', 'kwh', 1.43),
+      charge('supply', 'Supply Charge', 'supply', 'kwh', 0.5),
+      charge('supply_fixed', 'Supply Charge (fixed)', 'supply', 'month', 16.38),
+      charge('metering', 'Metering Charge', 'metering', 'kwh', 0.33),
+      charge('metering_fixed', 'Metering Charge (fixed)', 'metering', 'month', 5),
+      charge('lifeline_subsidy', 'Lifeline Rate Subsidy', 'subsidy', 'kwh', 0.08, { discountable: false }),
+      charge('universal', 'Universal Charges', 'universal', 'kwh', 0.18, PASS_THROUGH),
+      charge('fit_all', 'FIT-All', 'universal', 'kwh', 0.08, PASS_THROUGH)
+    ],
+    timeOfUsePeriods: null,
+    lifeline: { brackets: LIFELINE_BRACKETS },
+    seniorCitizen: SENIOR_CITIZEN_DISCOUNT
+  },
+  {
+    code: 'SAMPLE-GS-TOU',
+    name: 'General Service, time-of-use (sample)',
+    utility: 'Sample Distribution Utility',
+    customerClass: 'general_service',
+    description: 'Commercial time-of-use schedule with kW demand charges. Illustrative rates.',
+    isDefault: true,
+    charges: [
+      charge('generation_peak', 'Generation Charge (peak)', 'generation', 'kwh', 7.85, { period: 'peak' }),
+      charge('generation_off_peak', 'Generation Charge (off-peak)', 'generation', 'kwh', 5.95, { period: 'off_peak' }),
+      charge('transmission_demand', 'Transmission Demand Charge', 'transmission', 'kw', 420),
+      charge('system_loss', 'System Loss Charge', 'system_loss', 'kwh', 0.62),
+      charge('distribution_demand', 'Distribution Demand Charge', 'distribution', 'kw', 396.5),
+      charge('supply_fixed', 'Supply Charge (fixed)', 'supply', 'month', 330),
+      charge('metering_fixed', 'Metering Charge (fixed)', 'metering', 'month', 310),
+      charge('lifeline_subsidy', 'Lifeline Rate Subsidy', 'subsidy', 'kwh', 0.08),
+      charge('universal', 'Universal Charges', 'universal', 'kwh', 0.18, PASS_THROUGH),
+      charge('fit_all', 'FIT-All', 'universal', 'kwh', 0.08, PASS_THROUGH)
+    ],
+    // First matching period wins, so the all-week off-peak period catches everything outside peak hours
+    timeOfUsePeriods: [
+      { key: 'peak', label: 'Peak', weekdays: [1, 2, 3, 4, 5], startHour: 8, endHour: 21 },
+      { key: 'off_peak', label: 'Off-peak', weekdays: [0, 1, 2, 3, 4, 5, 6], startHour: 0, endHour: 24 }
+    ],
+    lifeline: null,
+    seniorCitizen: null
+  }
+];
+
+async function up() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Running migration: Create Tariff Tables');
+
+    // Create tariffs table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS tariffs (
+        id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+        code VARCHAR(50) NOT NULL UNIQUE,
+        name VARCHAR(255) NOT NULL,
+        utility VARCHAR(255) NULL,
+        customer_class VARCHAR(30) NOT NULL DEFAULT 'residential',
+        description TEXT NULL,
+        is_default BOOLEAN NOT NULL DEFAULT false COMMENT 'Used where no tariff is chosen, e.g. live cost metrics',
+        is_active BOOLEAN NOT NULL DEFAULT true,
+        created_by INT UNSIGNED NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    // Create tariff_versions table; a version applies from its effective date until the next one
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS tariff_versions (
+        id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+        tariff_id INT UNSIGNED NOT NULL,
+        effective_from DATE NOT NULL,
+        charges JSON NOT NULL,
+        time_of_use_periods JSON NULL,
+        vat_rate DECIMAL(5, 4) NOT NULL DEFAULT 0.1200,
+        lifeline JSON NULL,
+        senior_citizen JSON NULL,
+        notes VARCHAR(255) NULL,
+        created_by INT UNSIGNED NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY(tariff_id, effective_from),
+        FOREIGN KEY (tariff_id) REFERENCES tariffs(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    // Seed sample tariffs
+    for (const tariff of SAMPLE_TARIFFS) {
+      const [existing] = await connection.execute('SELECT id FROM tariffs WHERE code = ?', [tariff.code]);
+      if (existing.length > 0) continue;
+
+      const [result] = await connection.execute(
+        `INSERT INTO tariffs (code, name, utility, customer_class, description, is_default)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [tariff.code, tariff.name, tariff.utility, tariff.customerClass, tariff.description, tariff.isDefault]
+      );
+      await connection.execute(
+        `INSERT INTO tariff_versions
+          (tariff_id, effective_from, charges, time_of_use_periods, vat_rate, lifeline, senior_citizen, notes)
+         VALUES (?, '2026-01-01', ?, ?, 0.12, ?, ?, 'Sample rates')`,
+        [
+          result.insertId,
+          JSON.stringify(tariff.charges),
+          tariff.timeOfUsePeriods ? JSON.stringify(tariff.timeOfUsePeriods) : null,
+          tariff.lifeline ? JSON.stringify(tariff.lifeline) : null,
+          tariff.seniorCitizen ? JSON.stringify(tariff.seniorCitizen) : null
+        ]
+      );
+    }
+
+    logger.info('Migration completed successfully');
+  } catch (error) {
+    logger.error('Migration failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+async function down() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Rolling back migration: Create Tariff Tables');
+
+    // Drop tables in reverse order
+    await connection.execute(`DROP TABLE IF EXISTS tariff_versions;`);
+    await connection.execute(`DROP TABLE IF EXISTS tariffs;`);
+
+    logger.info('Rollback completed successfully');
+  } catch (error) {
+    logger.error('Rollback failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+module.exports = { up, down };
@@ -0,0 +1,91 @@
+/**
+ * Migration: Create User Sessions Table
+ * Stores a row per signed-in device so refresh tokens can be rotated and revoked, and adds the
+ * failed-login counters used to lock accounts against password guessing
+ */
+
+const mysql = require('mysql2/promise');
+const config = require('../../config/db');
+const logger = require('../../utils/logger');
+
+async function getColumns(connection, table) {
+  const [rows] = await connection.execute(
+    'SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ?',
+    [table]
+  );
+  return rows.map(row => row.COLUMN_NAME);
+}
+
+async function up() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Running migration: Create User Sessions Table');
+
+    // Only hashes of refresh tokens are stored; the previous hash lets a replayed token be recognized
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS user_sessions (
+        id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        refresh_token_hash CHAR(64) NOT NULL,
+        previous_token_hash CHAR(64) NULL,
+        rotated_at DATETIME NULL,
+        user_agent VARCHAR(255) NULL,
+        ip_address VARCHAR(45) NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        last_used_at DATETIME NOT NULL,
+        expires_at DATETIME NOT NULL,
+        revoked_at DATETIME NULL,
+        revoked_reason VARCHAR(30) NULL,
+        UNIQUE KEY(refresh_token_hash),
+        INDEX(previous_token_hash),
+        INDEX(user_id, revoked_at),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    const userColumns = await getColumns(connection, 'users');
+    if (!userColumns.includes('failed_login_attempts')) {
+      await connection.execute('ALTER TABLE users ADD COLUMN failed_login_attempts INT UNSIGNED NOT NULL DEFAULT 0');
+    }
+    if (!userColumns.includes('locked_until')) {
+      await connection.execute('ALTER TABLE users ADD COLUMN locked_until DATETIME NULL');
+    }
+
+    logger.info('Migration completed successfully');
+  } catch (error) {
+    logger.error('Migration failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+async function down() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Rolling back migration: Create User Sessions Table');
+
+    await connection.execute(`DROP TABLE IF EXISTS user_sessions;`);
+
+    const userColumns = await getColumns(connection, 'users');
+    if (userColumns.includes('locked_until')) {
+      await connection.execute('ALTER TABLE users DROP COLUMN locked_until');
+    }
+    if (userColumns.includes('failed_login_attempts')) {
+      await connection.execute('ALTER TABLE users DROP COLUMN failed_login_attempts');
+    }
+
+    logger.info('Rollback completed successfully');
+  } catch (error) {
+    logger.error('Rollback failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+module.exports = { up, down };
@@ -0,0 +1,118 @@
+/**
+ * Migration: Create User Two-Factor Tables
+ * Adds TOTP enrollment to users, single-use recovery codes, a flag marking sessions that passed the
+ * second factor, and the system settings that require two-factor authentication for a role
+ */
+
+const mysql = require('mysql2/promise');
+const config = require('../../config/db');
+const logger = require('../../utils/logger');
+
+async function getColumns(connection, table) {
+  const [rows] = await connection.execute(
+    'SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ?',
+    [table]
+  );
+  return rows.map(row => row.COLUMN_NAME);
+}
+
+async function up() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Running migration: Create User Two-Factor Tables');
+
+    const userColumns = await getColumns(connection, 'users');
+    // The secret is kept while enrollment is pending; totp_enabled is set once a code has been confirmed
+    if (!userColumns.includes('totp_secret')) {
+      await connection.execute('ALTER TABLE users ADD COLUMN totp_secret VARCHAR(64) NULL');
+    }
+    if (!userColumns.includes('totp_enabled')) {
+      await connection.execute('ALTER TABLE users ADD COLUMN totp_enabled TINYINT(1) NOT NULL DEFAULT 0');
+    }
+    if (!userColumns.includes('totp_enabled_at')) {
+      await connection.execute('ALTER TABLE users ADD COLUMN totp_enabled_at DATETIME NULL');
+    }
+    // Time step of the last accepted code, so a code cannot be used twice
+    if (!userColumns.includes('totp_last_used_step')) {
+      await connection.execute('ALTER TABLE users ADD COLUMN totp_last_used_step BIGINT NULL');
+    }
+
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS user_recovery_codes (
+        id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        code_hash CHAR(64) NOT NULL,
+        used_at DATETIME NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY(user_id, code_hash),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    const sessionColumns = await getColumns(connection, 'user_sessions');
+    if (!sessionColumns.includes('two_factor_verified')) {
+      await connection.execute(
+        'ALTER TABLE user_sessions ADD COLUMN two_factor_verified TINYINT(1) NOT NULL DEFAULT 0 AFTER user_id'
+      );
+    }
+
+    const [settingsTables] = await connection.execute(
+      "SELECT TABLE_NAME FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'system_settings'"
+    );
+    if (settingsTables.length > 0) {
+      await connection.execute(`
+        INSERT IGNORE INTO system_settings (setting_key, setting_value) VALUES
+          ('twoFactorPolicy.requireForAdmins', 'false'),
+          ('twoFactorPolicy.requireForManagers', 'false')
+      `);
+    }
+
+    logger.info('Migration completed successfully');
+  } catch (error) {
+    logger.error('Migration failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+async function down() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Rolling back migration: Create User Two-Factor Tables');
+
+    await connection.execute(`DROP TABLE IF EXISTS user_recovery_codes;`);
+
+    const sessionColumns = await getColumns(connection, 'user_sessions');
+    if (sessionColumns.includes('two_factor_verified')) {
+      await connection.execute('ALTER TABLE user_sessions DROP COLUMN two_factor_verified');
+    }
+
+    const userColumns = await getColumns(connection, 'users');
+    for (const column of ['totp_last_used_step', 'totp_enabled_at', 'totp_enabled', 'totp_secret']) {
+      if (userColumns.includes(column)) {
+        await connection.execute(`ALTER TABLE users DROP COLUMN ${column}`);
+      }
+    }
+
+    const [settingsTables] = await connection.execute(
+      "SELECT TABLE_NAME FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'system_settings'"
+    );
+    if (settingsTables.length > 0) {
+      await connection.execute("DELETE FROM system_settings WHERE setting_key LIKE 'twoFactorPolicy.%'");
+    }
+
+    logger.info('Rollback completed successfully');
+  } catch (error) {
+    logger.error('Rollback failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+module.exports = { up, down };
@@ -0,0 +1,70 @@
+/**
+ * Migration: Create Utility Bills Table
+ * Stores the electric bills auditors collect for a building, so they can be reconciled against
+ * metered consumption and the consumption estimated from schedules of loads
+ */
+
+const mysql = require('mysql2/promise');
+const config = require('../../config/db');
+const logger = require('../../utils/logger');
+
+async function up() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Running migration: Create Utility Bills Table');
+
+    // Create utility_bills table; a building may have more than one utility account
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS utility_bills (
+        id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+        building_id INT UNSIGNED NOT NULL,
+        meter_id INT UNSIGNED NULL COMMENT 'Meter measuring the same service; the building main meters are used when NULL',
+        account_number VARCHAR(50) NOT NULL DEFAULT '',
+        period_start DATE NOT NULL,
+        period_end DATE NOT NULL COMMENT 'Last day of the billing period, inclusive',
+        kwh DECIMAL(14, 3) NOT NULL,
+        kw_demand DECIMAL(10, 3) NULL,
+        power_factor DECIMAL(4, 3) NULL,
+        amount DECIMAL(14, 2) NOT NULL,
+        notes VARCHAR(255) NULL,
+        source VARCHAR(20) NOT NULL DEFAULT 'manual',
+        created_by INT UNSIGNED NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY(building_id, account_number, period_start),
+        INDEX(building_id, period_start),
+        FOREIGN KEY (building_id) REFERENCES buildings(id) ON DELETE CASCADE,
+        FOREIGN KEY (meter_id) REFERENCES meters(id) ON DELETE SET NULL
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    logger.info('Migration completed successfully');
+  } catch (error) {
+    logger.error('Migration failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+async function down() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Rolling back migration: Create Utility Bills Table');
+
+    await connection.execute(`DROP TABLE IF EXISTS utility_bills;`);
+
+    logger.info('Rollback completed successfully');
+  } catch (error) {
+    logger.error('Rollback failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+module.exports = { up, down };
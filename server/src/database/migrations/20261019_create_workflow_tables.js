@@ -0,0 +1,176 @@
+/**
+ * Migration: Create Workflow Tables
+ * Creates the configurable lifecycle definitions for audits and findings, seeds the default
+ * workflows, and extends audit_logs and notifications so transitions can be recorded and announced
+ */
+
+const mysql = require('mysql2/promise');
+const config = require('../../config/db');
+const logger = require('../../utils/logger');
+
+// [state_key, label, description, is_initial, is_final]
+const AUDIT_STATES = [
+  ['planned', 'Planned', 'Scope, team and schedule are being prepared', true, false],
+  ['field_work', 'Field Work', 'Site walkthroughs, measurements and data collection', false, false],
+  ['analysis', 'Analysis', 'Calculations, findings and recommendations are being prepared', false, false],
+  ['review', 'Review', 'Waiting for manager review', false, false],
+  ['approved', 'Approved', 'Audit results approved', false, false],
+  ['closed', 'Closed', 'Audit completed and archived for reference', false, true]
+];
+
+// [from_state, to_state, label, permission, requires_comment]; a null permission lets the audit team trigger it
+const AUDIT_TRANSITIONS = [
+  ['planned', 'field_work', 'Start Field Work', 'audit.edit', false],
+  ['field_work', 'analysis', 'Start Analysis', null, false],
+  ['analysis', 'field_work', 'Return to Field Work', null, true],
+  ['analysis', 'review', 'Submit for Review', null, false],
+  ['review', 'analysis', 'Request Changes', 'audit.approve', true],
+  ['review', 'approved', 'Approve', 'audit.approve', false],
+  ['approved', 'closed', 'Close Audit', 'audit.edit', false]
+];
+
+// Finding state keys match the status strings already stored in findings
+const FINDING_STATES = [
+  ['Open', 'Open', 'Finding recorded and awaiting action', true, false],
+  ['In Progress', 'In Progress', 'Corrective action under way', false, false],
+  ['Resolved', 'Resolved', 'Corrective action completed, awaiting verification', false, false],
+  ['Closed', 'Closed', 'Resolution verified', false, true]
+];
+
+const FINDING_TRANSITIONS = [
+  ['Open', 'In Progress', 'Start Work', null, false],
+  ['In Progress', 'Resolved', 'Mark Resolved', null, false],
+  ['Resolved', 'In Progress', 'Reopen', 'audit.edit', true],
+  ['Resolved', 'Closed', 'Verify and Close', 'audit.edit', false],
+  ['Open', 'Closed', 'Close Without Action', 'audit.edit', true]
+];
+
+// Audit statuses used before the workflow existed
+const LEGACY_AUDIT_STATUSES = [
+  ['DRAFT', 'planned'],
+  ['SUBMITTED', 'review'],
+  ['APPROVED', 'approved'],
+  ['REJECTED', 'analysis']
+];
+
+async function getColumns(connection, table) {
+  const [rows] = await connection.execute(
+    'SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ?',
+    [table]
+  );
+  return rows.map(row => row.COLUMN_NAME);
+}
+
+async function seedWorkflow(connection, entityType, states, transitions) {
+  for (const [index, [key, label, description, isInitial, isFinal]] of states.entries()) {
+    await connection.execute(
+      `INSERT IGNORE INTO workflow_states (entity_type, state_key, label, description, sort_order, is_initial, is_final)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [entityType, key, label, description, index, isInitial, isFinal]
+    );
+  }
+  for (const [from, to, label, permission, requiresComment] of transitions) {
+    await connection.execute(
+      `INSERT IGNORE INTO workflow_transitions (entity_type, from_state, to_state, label, permission, requires_comment)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [entityType, from, to, label, permission, requiresComment]
+    );
+  }
+}
+
+async function up() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Running migration: Create Workflow Tables');
+
+    // Create workflow_states table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS workflow_states (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        entity_type VARCHAR(30) NOT NULL,
+        state_key VARCHAR(50) NOT NULL,
+        label VARCHAR(100) NOT NULL,
+        description VARCHAR(255) NULL,
+        sort_order INT NOT NULL DEFAULT 0,
+        is_initial BOOLEAN NOT NULL DEFAULT false,
+        is_final BOOLEAN NOT NULL DEFAULT false,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY(entity_type, state_key)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    // Create workflow_transitions table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS workflow_transitions (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        entity_type VARCHAR(30) NOT NULL,
+        from_state VARCHAR(50) NOT NULL,
+        to_state VARCHAR(50) NOT NULL,
+        label VARCHAR(100) NOT NULL,
+        permission VARCHAR(50) NULL,
+        requires_comment BOOLEAN NOT NULL DEFAULT false,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY(entity_type, from_state, to_state)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    await seedWorkflow(connection, 'audit', AUDIT_STATES, AUDIT_TRANSITIONS);
+    await seedWorkflow(connection, 'finding', FINDING_STATES, FINDING_TRANSITIONS);
+
+    // Move audits onto the workflow state keys
+    await connection.execute(`ALTER TABLE energy_audits MODIFY status VARCHAR(50) NOT NULL DEFAULT 'planned'`);
+    for (const [legacy, state] of LEGACY_AUDIT_STATUSES) {
+      await connection.execute('UPDATE energy_audits SET status = ? WHERE status = ?', [state, legacy]);
+    }
+
+    // Record which entity each audit log entry is about
+    const auditLogColumns = await getColumns(connection, 'audit_logs');
+    if (!auditLogColumns.includes('entity_type')) {
+      await connection.execute('ALTER TABLE audit_logs ADD COLUMN entity_type VARCHAR(30) NULL');
+      await connection.execute('ALTER TABLE audit_logs ADD COLUMN entity_id VARCHAR(64) NULL');
+      await connection.execute('ALTER TABLE audit_logs ADD INDEX idx_audit_logs_entity (entity_type, entity_id)');
+    }
+
+    // Allow notifications about audits as well as findings
+    const notificationColumns = await getColumns(connection, 'notifications');
+    await connection.execute('ALTER TABLE notifications MODIFY finding_id INT NULL');
+    await connection.execute('ALTER TABLE notifications MODIFY type VARCHAR(30) NOT NULL');
+    if (!notificationColumns.includes('audit_id')) {
+      await connection.execute('ALTER TABLE notifications ADD COLUMN audit_id INT UNSIGNED NULL');
+      await connection.execute('ALTER TABLE notifications ADD INDEX idx_notifications_audit_id (audit_id)');
+    }
+
+    logger.info('Migration completed successfully');
+  } catch (error) {
+    logger.error('Migration failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+async function down() {
+  let connection;
+  try {
+    connection = await mysql.createConnection(config);
+
+    logger.info('Rolling back migration: Create Workflow Tables');
+
+    // Drop tables in reverse order; the added log and notification columns are kept
+    await connection.execute(`DROP TABLE IF EXISTS workflow_transitions;`);
+    await connection.execute(`DROP TABLE IF EXISTS workflow_states;`);
+
+    logger.info('Rollback completed successfully');
+  } catch (error) {
+    logger.error('Rollback failed:', error);
+    throw error;
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+module.exports = { up, down };
@@ -16,6 +16,7 @@ import { RowDataPacket } from 'mysql2';
 import userRouter from './routes/userRoutes';
 import { authenticateToken } from './middleware/auth';
 import debugRouter from './routes/debugRoutes';
+import { startReportRenderWorker, stopReportRenderWorker } from './utils/reportRenderQueue';
 
 // Load environment variables
 dotenv.config();
@@ -586,6 +587,7 @@ io.on('error', (error) => {
 // Graceful shutdown
 const gracefulShutdown = () => {
   console.log('SIGTERM/SIGINT received. Closing HTTP and WebSocket servers...');
+  stopReportRenderWorker();
   httpServer.close(() => {
     console.log('HTTP and WebSocket servers closed.');
     process.exit(0);
@@ -606,4 +608,9 @@ httpServer.listen(PORT, () => {
   console.log(`- http://localhost:${PORT}/api/auth/login`);
   console.log(`- http://localhost:${PORT}/api/login`);
   console.log(`- http://localhost:3001/auth/login (minimal server)`);
-}); 
\ No newline at end of file
+});
+
+// Render queued reports to PDF; set REPORT_RENDER_WORKER=false on extra server processes
+if (process.env.REPORT_RENDER_WORKER !== 'false') {
+  startReportRenderWorker();
+} 
\ No newline at end of file
@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import * as jwt from 'jsonwebtoken';
 import { UserRole } from '../types';
+import { AccessTokenPayload, getJwtSecret, isSessionActive } from '../utils/authSessions';
+import { hasPermission, Permission } from '../utils/permissions';
+import { getTwoFactorPolicy, isTwoFactorRequiredForRole } from '../utils/twoFactor';
 
 // Extend Request type to include user property
 declare global {
@@ -10,6 +13,10 @@ declare global {
         id: number;
         username: string;
         role: UserRole;
+        sessionId?: number;
+        twoFactorVerified?: boolean;
+        // Loaded on first use by requirePermission() or hasPermission()
+        permissions?: string[];
       };
     }
   }
@@ -50,8 +57,8 @@ export const authenticateToken = (options: AuthOptions = { optional: false }) =>
 
       jwt.verify(
         token, 
-        process.env.JWT_SECRET || 'e465aa6a212abe4bb21fb3218aa044ed2be68720b46298c20b22f861ab7324f3d299f35ec4720e2ab57a03e4810a7a885e5aac6c1', 
-        (err: any, decoded: any) => {
+        getJwtSecret(), 
+        async (err: any, decoded: any) => {
           if (err) {
             console.error('Token verification error:', err);
             
@@ -74,10 +81,26 @@ export const authenticateToken = (options: AuthOptions = { optional: false }) =>
           }
 
           // Token is valid
-          req.user = decoded as {
-            id: number;
-            username: string;
-            role: UserRole;
+          const payload = decoded as AccessTokenPayload;
+
+          // Every token belongs to a session and stops working as soon as the session is revoked;
+          // tokens without one could not be revoked, so they are refused
+          try {
+            if (payload.sid === undefined || !(await isSessionActive(payload.sid))) {
+              if (options.optional) return next();
+              return res.status(401).json({ message: 'Session revoked', code: 'SESSION_REVOKED' });
+            }
+          } catch (sessionError) {
+            console.error('Session check error:', sessionError);
+            return res.status(500).json({ message: 'Internal server error' });
+          }
+
+          req.user = {
+            id: payload.id,
+            username: payload.username,
+            role: payload.role,
+            sessionId: payload.sid,
+            twoFactorVerified: payload.mfa === true
           };
           next();
         }
@@ -122,4 +145,65 @@ export const authorizeRole = (roles: UserRole | UserRole[]) => {
     
     res.status(403).json({ message: 'Forbidden: Insufficient permissions' });
   };
-}; 
\ No newline at end of file
+};
+
+/**
+ * Allow the request only if the user's role grants every listed permission.
+ * Use after authenticateToken; the role's permissions are looked up on each request, so edits apply at once.
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      res.status(401).json({ message: 'Unauthorized' });
+      return;
+    }
+
+    try {
+      for (const permission of permissions) {
+        if (!(await hasPermission(req.user, permission))) {
+          res.status(403).json({
+            message: 'Forbidden: Insufficient permissions',
+            code: 'PERMISSION_DENIED',
+            permission
+          });
+          return;
+        }
+      }
+      next();
+    } catch (error) {
+      console.error('Permission check error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+};
+
+/**
+ * Refuse a request when the system settings require two-factor authentication for the user's role
+ * and the session did not pass it. Use after authenticateToken on privileged actions.
+ */
+export const requireTwoFactor = async (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    res.status(401).json({ message: 'Unauthorized' });
+    return;
+  }
+
+  if (req.user.twoFactorVerified) {
+    next();
+    return;
+  }
+
+  try {
+    const policy = await getTwoFactorPolicy();
+    if (isTwoFactorRequiredForRole(policy, req.user.role)) {
+      res.status(403).json({
+        message: 'Two-factor authentication is required for this action. Set it up in your profile to continue.',
+        code: 'TWO_FACTOR_REQUIRED'
+      });
+      return;
+    }
+    next();
+  } catch (error) {
+    console.error('Two-factor policy check error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -7,6 +7,7 @@ interface ReportData {
   description?: string;
   type: string;
   created_by: number;
+  audit_id?: number | null;
   is_template?: boolean;
   is_public?: boolean;
   status?: string;
@@ -28,11 +29,11 @@ class Report {
    */
   static async create(data: ReportData): Promise<number> {
     try {
-      const { title, description, type, created_by, is_template, is_public } = data;
+      const { title, description, type, created_by, audit_id, is_template, is_public } = data;
       
       const query = `
-        INSERT INTO reports (title, description, type, created_by, is_template, is_public)
-        VALUES (?, ?, ?, ?, ?, ?)
+        INSERT INTO reports (title, description, type, created_by, audit_id, is_template, is_public)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
       `;
       
       const [result] = await pool.query<ResultSetHeader>(query, [
@@ -40,6 +41,7 @@ class Report {
         description || null, 
         type, 
         created_by, 
+        audit_id || null,
         is_template || false, 
         is_public || false
       ]);
@@ -145,7 +147,7 @@ class Report {
   static async update(id: number | string, data: Partial<ReportData>): Promise<void> {
     try {
       const validFields = [
-        'title', 'description', 'type', 'is_template', 
+        'title', 'description', 'type', 'audit_id', 'is_template', 
         'is_public', 'status', 'version'
       ];
       
@@ -403,6 +405,31 @@ class Report {
       throw error;
     }
   }
+
+  /**
+   * Get the published reports of audits a user is a client viewer on
+   * @param userId User ID
+   * @returns Array of published reports
+   */
+  static async getPublishedForClient(userId: number): Promise<any[]> {
+    try {
+      const query = `
+        SELECT r.*, u.username as creator_name, ea.title as audit_title
+        FROM reports r
+        JOIN users u ON r.created_by = u.id
+        JOIN energy_audits ea ON r.audit_id = ea.id
+        JOIN audit_team_members m ON m.audit_id = r.audit_id
+        WHERE m.user_id = ? AND m.team_role = 'client_viewer' AND r.status = 'published'
+        ORDER BY r.updated_at DESC
+      `;
+      
+      const [result] = await pool.query<RowDataPacket[]>(query, [userId]);
+      return result;
+    } catch (error) {
+      console.error('Error getting client reports:', error);
+      throw error;
+    }
+  }
 }
 
 export default Report;
\ No newline at end of file
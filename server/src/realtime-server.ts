@@ -1,8 +1,13 @@
-import { Server } from 'socket.io';
+import { Server, Socket } from 'socket.io';
 import { createServer } from 'http';
-import { PowerUsageData, EnergyMetrics } from '../../client/src/services/realTimeService';
 import { pool } from './config/database';
 import { RowDataPacket } from 'mysql2/promise';
+import { EnergyMetrics, PowerReading, UserRole } from './types';
+import { isSessionActive, verifyAccessToken } from './utils/authSessions';
+import { getMeterScope } from './utils/buildingAccess';
+import { formatReading } from './utils/meterReadings';
+import { startMeterPolling } from './utils/meterPoller';
+import { getDefaultTariffRate } from './utils/tariffEngine';
 
 const httpServer = createServer();
 const io = new Server(httpServer, {
@@ -12,13 +17,34 @@ const io = new Server(httpServer, {
   }
 });
 
+interface SocketUser {
+  id: number;
+  username: string;
+  role: UserRole;
+  sessionId: number;
+  // Loaded on first use by hasPermission(); each subscription starts from a fresh copy
+  permissions?: string[];
+}
+
 interface MonitoringState {
   isMonitoring: boolean;
   interval: NodeJS.Timeout | null;
 }
 
+interface MonitoringOptions {
+  // Limit the stream to one meter; all metered readings are streamed when omitted
+  meterId?: number;
+}
+
 const monitoringStates = new Map<string, MonitoringState>();
 
+// How often new rows are looked for and how many are sent per check
+const STREAM_INTERVAL_MS = 2000;
+const STREAM_BATCH_SIZE = 100;
+const METRICS_INTERVAL_MS = 60000;
+// Most readings one getHistoricalData request may return
+const HISTORY_MAX_ROWS = 10000;
+
 interface PowerReadingResult extends RowDataPacket {
   daily_usage: number;
   weekly_usage: number;
@@ -27,52 +53,57 @@ interface PowerReadingResult extends RowDataPacket {
   avg_power_factor: number;
 }
 
-// Simulated power usage data generation
-const generatePowerUsageData = (): PowerUsageData => {
-  const baseLoad = 50; // Base load in kW
-  const randomVariation = Math.random() * 20 - 10; // Random variation ±10 kW
-  const timeVariation = Math.sin(Date.now() / 3600000 * Math.PI * 2) * 15; // Daily pattern
-
-  return {
-    timestamp: new Date().toISOString(),
-    powerUsage: Math.max(0, baseLoad + randomVariation + timeVariation),
-    voltage: 220 + (Math.random() * 10 - 5),
-    current: (baseLoad + randomVariation + timeVariation) / 220,
-    powerFactor: 0.85 + (Math.random() * 0.1),
-    frequency: 60 + (Math.random() * 0.2 - 0.1),
-    temperature: 25 + (Math.random() * 5),
-    humidity: 50 + (Math.random() * 20),
-  };
+// Readings from meters in buildings the user can see only; rows left by the old simulator have no meter
+const meterFilter = async (user: SocketUser, meterId?: number, alias = 'r'): Promise<[string, any[]]> => {
+  const conditions = [meterId ? `${alias}.meter_id = ?` : `${alias}.meter_id IS NOT NULL`];
+  const params: any[] = meterId ? [meterId] : [];
+  const scope = await getMeterScope(user, `${alias}.meter_id`);
+  if (scope) {
+    conditions.push(scope.clause);
+    params.push(...scope.params);
+  }
+  return [conditions.join(' AND '), params];
 };
 
-// Calculate energy metrics
-const calculateEnergyMetrics = async (): Promise<EnergyMetrics> => {
+// Role permissions are looked up again for every request, so edits apply to the next one
+const freshUser = (socket: Socket): SocketUser => ({ ...socket.data.user, permissions: undefined });
+
+/**
+ * Usage over the last day, week and month from the hourly rollups, in one query.
+ * Peak demand is the highest 15-minute demand of the last day, summed across meters for the same 15 minutes.
+ */
+const calculateEnergyMetrics = async (user: SocketUser, meterId?: number): Promise<EnergyMetrics> => {
   try {
-    // In a real application, you would fetch this data from your database
-    const [dailyUsageResult] = await pool.query<PowerReadingResult[]>(
-      'SELECT SUM(power_usage) as daily_usage FROM power_readings WHERE timestamp > DATE_SUB(NOW(), INTERVAL 1 DAY)'
-    );
-    const [weeklyUsageResult] = await pool.query<PowerReadingResult[]>(
-      'SELECT SUM(power_usage) as weekly_usage FROM power_readings WHERE timestamp > DATE_SUB(NOW(), INTERVAL 1 WEEK)'
-    );
-    const [monthlyUsageResult] = await pool.query<PowerReadingResult[]>(
-      'SELECT SUM(power_usage) as monthly_usage FROM power_readings WHERE timestamp > DATE_SUB(NOW(), INTERVAL 1 MONTH)'
-    );
-    const [peakDemandResult] = await pool.query<PowerReadingResult[]>(
-      'SELECT MAX(power_usage) as peak_demand FROM power_readings WHERE timestamp > DATE_SUB(NOW(), INTERVAL 1 DAY)'
-    );
-    const [powerFactorResult] = await pool.query<PowerReadingResult[]>(
-      'SELECT AVG(power_factor) as avg_power_factor FROM power_readings WHERE timestamp > DATE_SUB(NOW(), INTERVAL 1 DAY)'
+    const [hourlyFilter, hourlyParams] = await meterFilter(user, meterId, 'h');
+    const [quarterFilter, quarterParams] = await meterFilter(user, meterId, 'q');
+    const lastDay = 'h.bucket_start >= DATE_SUB(NOW(), INTERVAL 1 DAY)';
+
+    const [results] = await pool.query<PowerReadingResult[]>(
+      `SELECT
+        SUM(CASE WHEN ${lastDay} THEN h.energy_kwh ELSE 0 END) AS daily_usage,
+        SUM(CASE WHEN h.bucket_start >= DATE_SUB(NOW(), INTERVAL 1 WEEK) THEN h.energy_kwh ELSE 0 END) AS weekly_usage,
+        SUM(h.energy_kwh) AS monthly_usage,
+        SUM(CASE WHEN ${lastDay} THEN h.power_factor_sum ELSE 0 END)
+          / NULLIF(SUM(CASE WHEN ${lastDay} THEN h.power_factor_samples ELSE 0 END), 0) AS avg_power_factor,
+        (SELECT MAX(demand) FROM (
+          SELECT SUM(q.peak_demand_kw) AS demand
+          FROM power_rollups_15min q
+          WHERE ${quarterFilter} AND q.bucket_start >= DATE_SUB(NOW(), INTERVAL 1 DAY)
+          GROUP BY q.bucket_start
+        ) demands) AS peak_demand
+       FROM power_rollups_hourly h
+       WHERE ${hourlyFilter} AND h.bucket_start >= DATE_SUB(NOW(), INTERVAL 1 MONTH)`,
+      [...quarterParams, ...hourlyParams]
     );
 
-    const dailyUsage = dailyUsageResult[0]?.daily_usage || 0;
-    const weeklyUsage = weeklyUsageResult[0]?.weekly_usage || 0;
-    const monthlyUsage = monthlyUsageResult[0]?.monthly_usage || 0;
-    const peakDemand = peakDemandResult[0]?.peak_demand || 0;
-    const avgPowerFactor = powerFactorResult[0]?.avg_power_factor || 0;
+    const dailyUsage = Number(results[0]?.daily_usage) || 0;
+    const weeklyUsage = Number(results[0]?.weekly_usage) || 0;
+    const monthlyUsage = Number(results[0]?.monthly_usage) || 0;
+    const peakDemand = Number(results[0]?.peak_demand) || 0;
+    const avgPowerFactor = Number(results[0]?.avg_power_factor) || 0;
 
-    // Calculate cost based on rate (₱8.50/kWh)
-    const rate = 8.50;
+    // Price the day at the default tariff's average rate for a month like the last one
+    const rate = await getDefaultTariffRate({ kwh: monthlyUsage, kw: peakDemand });
     const totalCost = dailyUsage * rate;
 
     return {
@@ -96,48 +127,115 @@ const calculateEnergyMetrics = async (): Promise<EnergyMetrics> => {
   }
 };
 
-// Store power usage data
-const storePowerUsageData = async (data: PowerUsageData) => {
+// Fetch readings stored after lastId, oldest first
+const fetchNewReadings = async (user: SocketUser, lastId: number, meterId?: number) => {
+  const [filter, params] = await meterFilter(user, meterId);
+  const [rows] = await pool.query<PowerReading[]>(
+    `SELECT r.* FROM power_readings r WHERE ${filter} AND r.id > ? ORDER BY r.id ASC LIMIT ?`,
+    [...params, lastId, STREAM_BATCH_SIZE]
+  );
+  return rows.map(formatReading);
+};
+
+// Latest reading so a new subscriber sees the current value straight away
+const fetchLatestReading = async (user: SocketUser, meterId?: number) => {
+  const [filter, params] = await meterFilter(user, meterId);
+  const [rows] = await pool.query<PowerReading[]>(
+    `SELECT r.* FROM power_readings r WHERE ${filter} ORDER BY r.id DESC LIMIT 1`,
+    params
+  );
+  return rows.length > 0 ? rows[0] : null;
+};
+
+/**
+ * Clients connect with the same access token as the API: io(url, { auth: { token } }).
+ * The connection is refused unless the token is valid and its session active.
+ */
+io.use(async (socket: Socket, next: (error?: Error) => void) => {
   try {
-    await pool.query(
-      'INSERT INTO power_readings (timestamp, power_usage, voltage, current, power_factor, frequency, temperature, humidity) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-      [
-        data.timestamp,
-        data.powerUsage,
-        data.voltage,
-        data.current,
-        data.powerFactor,
-        data.frequency,
-        data.temperature,
-        data.humidity,
-      ]
-    );
+    const token = socket.handshake.auth?.token;
+    const payload = typeof token === 'string' ? await verifyAccessToken(token) : null;
+    if (!payload) {
+      return next(new Error('Unauthorized'));
+    }
+    const user: SocketUser = { id: payload.id, username: payload.username, role: payload.role, sessionId: payload.sid! };
+    socket.data.user = user;
+    next();
   } catch (error) {
-    console.error('Error storing power usage data:', error);
+    console.error('Socket authentication error:', error);
+    next(new Error('Unauthorized'));
   }
+});
+
+/**
+ * Sessions can be revoked while the socket stays open; close it once its session has ended.
+ * A pending request is answered with an error first so the client is not left waiting.
+ */
+const ensureSessionActive = async (socket: Socket, callback?: (response: { error: string }) => void) => {
+  if (await isSessionActive(socket.data.user.sessionId)) {
+    return true;
+  }
+  callback?.({ error: 'Session expired' });
+  socket.disconnect(true);
+  return false;
 };
 
-io.on('connection', (socket) => {
+io.on('connection', (socket: Socket) => {
   console.log('Client connected');
 
-  socket.on('startMonitoring', () => {
+  socket.on('startMonitoring', async (options: MonitoringOptions = {}) => {
     if (monitoringStates.has(socket.id)) {
       return;
     }
+    const state: MonitoringState = { isMonitoring: true, interval: null };
+    monitoringStates.set(socket.id, state);
 
-    const interval = setInterval(async () => {
-      const powerData = generatePowerUsageData();
-      await storePowerUsageData(powerData);
-      socket.emit('powerUsage', powerData);
-
-      // Update energy metrics every minute
-      if (Date.now() % 60000 < 1000) {
-        const metrics = await calculateEnergyMetrics();
-        socket.emit('energyMetrics', metrics);
+    const meterId = Number(options?.meterId) || undefined;
+    let user = freshUser(socket);
+    let lastId = 0;
+    let lastMetricsAt = 0;
+    try {
+      const latest = await fetchLatestReading(user, meterId);
+      if (latest) {
+        lastId = latest.id;
+        socket.emit('powerUsage', formatReading(latest));
       }
-    }, 1000);
+    } catch (error) {
+      console.error('Error fetching latest reading:', error);
+    }
+
+    // The client may have stopped monitoring while the latest reading was loading
+    if (monitoringStates.get(socket.id) !== state) {
+      return;
+    }
+
+    state.interval = setInterval(async () => {
+      try {
+        // Every minute, end the stream if the session was revoked and pick up role changes
+        if (Date.now() - lastMetricsAt >= METRICS_INTERVAL_MS) {
+          if (!(await ensureSessionActive(socket))) {
+            return;
+          }
+          user = freshUser(socket);
+        }
+
+        const readings = await fetchNewReadings(user, lastId, meterId);
+        for (const reading of readings) {
+          socket.emit('powerUsage', reading);
+        }
+        if (readings.length > 0) {
+          lastId = readings[readings.length - 1].id;
+        }
 
-    monitoringStates.set(socket.id, { isMonitoring: true, interval });
+        // Update energy metrics every minute
+        if (Date.now() - lastMetricsAt >= METRICS_INTERVAL_MS) {
+          lastMetricsAt = Date.now();
+          socket.emit('energyMetrics', await calculateEnergyMetrics(user, meterId));
+        }
+      } catch (error) {
+        console.error('Error streaming power readings:', error);
+      }
+    }, STREAM_INTERVAL_MS);
   });
 
   socket.on('stopMonitoring', () => {
@@ -148,22 +246,45 @@ io.on('connection', (socket) => {
     monitoringStates.delete(socket.id);
   });
 
-  socket.on('getHistoricalData', async ({ startDate, endDate }, callback) => {
+  socket.on('getHistoricalData', async (
+    { startDate, endDate, meterId }: { startDate: string; endDate: string; meterId?: number },
+    callback: (response: { data?: ReturnType<typeof formatReading>[]; error?: string }) => void
+  ) => {
     try {
-      const [rows] = await pool.query(
-        'SELECT * FROM power_readings WHERE timestamp BETWEEN ? AND ? ORDER BY timestamp ASC',
-        [startDate, endDate]
+      if (!(await ensureSessionActive(socket, callback))) {
+        return;
+      }
+      const [filter, params] = await meterFilter(freshUser(socket), Number(meterId) || undefined);
+      // One extra row tells a full range apart from one that was cut off
+      const [rows] = await pool.query<PowerReading[]>(
+        `SELECT r.* FROM power_readings r
+         WHERE ${filter} AND r.timestamp BETWEEN ? AND ?
+         ORDER BY r.timestamp ASC
+         LIMIT ?`,
+        [...params, new Date(startDate), new Date(endDate), HISTORY_MAX_ROWS + 1]
       );
-      callback({ data: rows });
+      if (rows.length > HISTORY_MAX_ROWS) {
+        callback({
+          error: `The range holds more than ${HISTORY_MAX_ROWS} readings; choose a shorter range or use /api/energy/series`
+        });
+        return;
+      }
+      callback({ data: rows.map(formatReading) });
     } catch (error) {
       console.error('Error fetching historical data:', error);
       callback({ error: 'Failed to fetch historical data' });
     }
   });
 
-  socket.on('getEnergyMetrics', async (callback) => {
+  // Accepts either (callback) or ({ meterId }, callback)
+  socket.on('getEnergyMetrics', async (...args: any[]) => {
+    const callback = args[args.length - 1] as (response: { data?: EnergyMetrics; error?: string }) => void;
+    const options: MonitoringOptions = args.length > 1 ? args[0] || {} : {};
     try {
-      const metrics = await calculateEnergyMetrics();
+      if (!(await ensureSessionActive(socket, callback))) {
+        return;
+      }
+      const metrics = await calculateEnergyMetrics(freshUser(socket), Number(options.meterId) || undefined);
       callback({ data: metrics });
     } catch (error) {
       console.error('Error fetching energy metrics:', error);
@@ -184,4 +305,9 @@ io.on('connection', (socket) => {
 const PORT = process.env.WS_PORT || 8000;
 httpServer.listen(PORT, () => {
   console.log(`Real-time server running on port ${PORT}`);
-}); 
\ No newline at end of file
+});
+
+// Poll configured Modbus-TCP meters; set METER_POLLING=false to run the stream without polling
+if (process.env.METER_POLLING !== 'false') {
+  startMeterPolling();
+} 
\ No newline at end of file
@@ -1,13 +1,12 @@
 import express from 'express';
 import { getAllSettings, getSetting, upsertSetting } from '../controllers/adminSettingsController';
-import { authenticateToken, authorizeRole } from '../middleware/auth';
-import { UserRole } from '../types';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 
 const router = express.Router();
 
-// All routes require authentication and admin role
-router.use(authenticateToken);
-router.use(authorizeRole([UserRole.ADMIN]));
+// All routes require authentication and the settings permission
+router.use(authenticateToken());
+router.use(requirePermission('settings.manage'));
 
 router.get('/', getAllSettings);
 router.get('/:key', getSetting);
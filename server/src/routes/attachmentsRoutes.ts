@@ -5,8 +5,7 @@ import {
   downloadAttachment, 
   deleteAttachment 
 } from '../controllers/attachmentsController';
-import { authenticateToken, authorizeRole } from '../middleware/auth';
-import { UserRole } from '../types';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 import * as path from 'path';
 
 const attachmentsRouter = express.Router();
@@ -31,12 +30,12 @@ const upload = multer({
 });
 
 // Apply authentication middleware to all routes
-attachmentsRouter.use(authenticateToken);
+attachmentsRouter.use(authenticateToken());
 
-// Upload attachment (admin only)
+// Upload attachment
 attachmentsRouter.post(
   '/:findingId',
-  authorizeRole([UserRole.ADMIN]),
+  requirePermission('attachments.manage'),
   upload.single('file'),
   uploadAttachment
 );
@@ -44,10 +43,10 @@ attachmentsRouter.post(
 // Download attachment
 attachmentsRouter.get('/:attachmentId', downloadAttachment);
 
-// Delete attachment (admin only)
+// Delete attachment
 attachmentsRouter.delete(
   '/:attachmentId',
-  authorizeRole([UserRole.ADMIN]),
+  requirePermission('attachments.manage'),
   deleteAttachment
 );
 
@@ -1,12 +1,11 @@
 import express from 'express';
 import { getAuditLogs } from '../controllers/auditLogController';
-import { authenticateToken, authorizeRole } from '../middleware/auth';
-import { UserRole } from '../types';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 
 const router = express.Router();
 
 router.use(authenticateToken());
-router.use(authorizeRole([UserRole.ADMIN]));
+router.use(requirePermission('auditlog.view'));
 
 router.get('/', getAuditLogs);
 
@@ -1,46 +0,0 @@
-import express from 'express';
-import jwt from 'jsonwebtoken';
-import bcrypt from 'bcryptjs';
-import { pool } from '../config/database';
-import { User } from '../types';
-
-const router = express.Router();
-
-// Login route
-router.post('/login', async (req, res) => {
-  try {
-    const { email, password } = req.body;
-
-    // Get user from database (support email, username, or student_id)
-    const [users] = await pool.query<User[]>(
-      'SELECT * FROM users WHERE email = ? OR username = ? OR student_id = ?',
-      [email, email, email]
-    );
-
-    const user = users[0];
-
-    if (!user) {
-      return res.status(401).json({ error: 'Invalid credentials' });
-    }
-
-    // Check password
-    const isValidPassword = await bcrypt.compare(password, user.password);
-    if (!isValidPassword) {
-      return res.status(401).json({ error: 'Invalid credentials' });
-    }
-
-    // Generate JWT token
-    const token = jwt.sign(
-      { id: user.id, username: user.username, role: user.role },
-      process.env.JWT_SECRET || 'test-secret-key',
-      { expiresIn: '24h' }
-    );
-
-    return res.json({ token });
-  } catch (error) {
-    console.error('Login error:', error);
-    return res.status(500).json({ error: 'Internal server error' });
-  }
-});
-
-export default router; 
\ No newline at end of file
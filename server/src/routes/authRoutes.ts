@@ -1,22 +1,24 @@
 import express, { Request, Response } from 'express';
-import { login } from '../controllers/authController';
+import {
+  getPermissions,
+  getSessions,
+  login,
+  logout,
+  refreshToken,
+  revokeOtherSessions,
+  revokeSession,
+  verifyTwoFactorLogin
+} from '../controllers/authController';
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup
+} from '../controllers/twoFactorController';
 import { authenticateToken } from '../middleware/auth';
 import { pool } from '../config/database';
 import { RowDataPacket } from 'mysql2';
-import { UserRole } from '../types';
-
-// Extend Express Request type to include user property
-declare global {
-  namespace Express {
-    interface Request {
-      user?: {
-        id: number;
-        username: string;
-        role: UserRole;
-      };
-    }
-  }
-}
 
 const authRouter = express.Router();
 
@@ -27,6 +29,26 @@ authRouter.post('/login', (req: Request, res: Response) => {
   return login(req, res);
 });
 
+// Second login step for users with two-factor authentication
+authRouter.post('/login/2fa', verifyTwoFactorLogin);
+
+// Two-factor enrollment for the signed-in user
+authRouter.get('/2fa', authenticateToken(), getTwoFactorStatus);
+authRouter.post('/2fa/setup', authenticateToken(), startTwoFactorSetup);
+authRouter.post('/2fa/enable', authenticateToken(), enableTwoFactor);
+authRouter.post('/2fa/disable', authenticateToken(), disableTwoFactor);
+authRouter.post('/2fa/recovery-codes', authenticateToken(), regenerateRecoveryCodes);
+
+// Session lifecycle: refresh tokens are exchanged without an access token, which may have expired
+authRouter.post('/refresh', refreshToken);
+authRouter.post('/logout', authenticateToken({ optional: true }), logout);
+authRouter.get('/sessions', authenticateToken(), getSessions);
+authRouter.delete('/sessions', authenticateToken(), revokeOtherSessions);
+authRouter.delete('/sessions/:sessionId(\\d+)', authenticateToken(), revokeSession);
+
+// What the signed-in user's role allows
+authRouter.get('/permissions', authenticateToken(), getPermissions);
+
 // Echo route to help diagnose issues
 authRouter.post('/echo', (req: Request, res: Response) => {
   console.log('AUTH ECHO: Endpoint hit');
@@ -0,0 +1,43 @@
+import express from 'express';
+import {
+  getCalculations,
+  getCalculationById,
+  createCalculation,
+  updateCalculation,
+  deleteCalculation,
+  getCalculationVersions,
+  getCalculationVersion,
+  restoreCalculationVersion,
+  importCalculations
+} from '../controllers/calculationsController';
+import { authenticateToken } from '../middleware/auth';
+
+const calculationsRouter = express.Router();
+
+// Apply authentication middleware to all routes
+calculationsRouter.use(authenticateToken());
+
+// List the caller's calculations, or an audit's calculations with ?auditId=
+calculationsRouter.get('/', getCalculations);
+
+// Create a calculation
+calculationsRouter.post('/', createCalculation);
+
+// Import calculations saved in the browser's localStorage
+calculationsRouter.post('/import', importCalculations);
+
+// Get a calculation
+calculationsRouter.get('/:id', getCalculationById);
+
+// Update a calculation, recording a new version
+calculationsRouter.put('/:id', updateCalculation);
+
+// Delete a calculation and its history
+calculationsRouter.delete('/:id', deleteCalculation);
+
+// Version history
+calculationsRouter.get('/:id/versions', getCalculationVersions);
+calculationsRouter.get('/:id/versions/:version', getCalculationVersion);
+calculationsRouter.post('/:id/versions/:version/restore', restoreCalculationVersion);
+
+export default calculationsRouter;
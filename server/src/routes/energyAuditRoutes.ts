@@ -1,13 +1,98 @@
 import express from 'express';
-import { createEnergyAudit } from '../controllers/energyAuditController';
-import { authenticateToken, authorizeRole } from '../middleware/auth';
-import { UserRole } from '../types';
+import {
+  addAuditTaskComment,
+  approveAuditTask,
+  archiveEnergyAudit,
+  createAuditTask,
+  createEnergyAudit,
+  deleteAuditTask,
+  getAssignableUsers,
+  getAuditTaskComments,
+  getAuditTasks,
+  getEnergyAuditById,
+  getEnergyAuditTransitions,
+  getEnergyAudits,
+  rejectAuditTask,
+  restoreEnergyAudit,
+  submitAuditTask,
+  transitionEnergyAudit,
+  updateAuditTask,
+  updateEnergyAudit
+} from '../controllers/energyAuditController';
+import {
+  acceptInvitation,
+  cancelInvitation,
+  declineInvitation,
+  getAuditTeam,
+  getMyInvitations,
+  inviteTeamMember,
+  removeTeamMember,
+  updateTeamMember
+} from '../controllers/auditTeamController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 
 const energyAuditRouter = express.Router();
 
 energyAuditRouter.use(authenticateToken());
 
-// Create new energy audit (admin only)
-energyAuditRouter.post('/', authorizeRole([UserRole.ADMIN]), createEnergyAudit);
+// Get energy audits visible to the current user
+energyAuditRouter.get('/', getEnergyAudits);
 
-export default energyAuditRouter; 
\ No newline at end of file
+// Create new energy audit
+energyAuditRouter.post('/', requirePermission('audit.create'), createEnergyAudit);
+
+// Get users that tasks can be assigned to
+energyAuditRouter.get('/assignees', requirePermission('audit.assign'), getAssignableUsers);
+
+// Get tasks across audits; ?assignee=me lists the current user's tasks
+energyAuditRouter.get('/tasks', getAuditTasks);
+
+// Update task (audit editors: any field; assignees: status only)
+energyAuditRouter.put('/tasks/:taskId(\\d+)', updateAuditTask);
+
+// Delete task
+energyAuditRouter.delete('/tasks/:taskId(\\d+)', requirePermission('audit.archive'), deleteAuditTask);
+
+// Submit task for approval
+energyAuditRouter.post('/tasks/:taskId(\\d+)/submit', submitAuditTask);
+
+// Approve or reject a submitted task
+energyAuditRouter.post('/tasks/:taskId(\\d+)/approve', requirePermission('audit.approve'), approveAuditTask);
+energyAuditRouter.post('/tasks/:taskId(\\d+)/reject', requirePermission('audit.approve'), rejectAuditTask);
+
+// Get and add task comments
+energyAuditRouter.get('/tasks/:taskId(\\d+)/comments', getAuditTaskComments);
+energyAuditRouter.post('/tasks/:taskId(\\d+)/comments', addAuditTaskComment);
+
+// Get the current user's pending team invitations, and accept or decline one
+energyAuditRouter.get('/invitations', getMyInvitations);
+energyAuditRouter.post('/invitations/:invitationId(\\d+)/accept', acceptInvitation);
+energyAuditRouter.post('/invitations/:invitationId(\\d+)/decline', declineInvitation);
+
+// Get energy audit with its tasks
+energyAuditRouter.get('/:id(\\d+)', getEnergyAuditById);
+
+// Update energy audit (audit editors and the audit creator)
+energyAuditRouter.put('/:id(\\d+)', updateEnergyAudit);
+
+// Get workflow state, available transitions and history
+energyAuditRouter.get('/:id(\\d+)/transitions', getEnergyAuditTransitions);
+
+// Move energy audit to another workflow state (roles checked against the workflow definition)
+energyAuditRouter.post('/:id(\\d+)/transitions', transitionEnergyAudit);
+
+// Archive or restore energy audit
+energyAuditRouter.post('/:id(\\d+)/archive', requirePermission('audit.archive'), archiveEnergyAudit);
+energyAuditRouter.post('/:id(\\d+)/restore', requirePermission('audit.archive'), restoreEnergyAudit);
+
+// Create task on an audit
+energyAuditRouter.post('/:id(\\d+)/tasks', requirePermission('audit.edit'), createAuditTask);
+
+// Audit team (lead auditors and users with audit.assign manage it; checked in the controller)
+energyAuditRouter.get('/:id(\\d+)/team', getAuditTeam);
+energyAuditRouter.post('/:id(\\d+)/team/invitations', inviteTeamMember);
+energyAuditRouter.delete('/:id(\\d+)/team/invitations/:invitationId(\\d+)', cancelInvitation);
+energyAuditRouter.put('/:id(\\d+)/team/members/:userId(\\d+)', updateTeamMember);
+energyAuditRouter.delete('/:id(\\d+)/team/members/:userId(\\d+)', removeTeamMember);
+
+export default energyAuditRouter;
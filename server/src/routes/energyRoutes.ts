@@ -2,11 +2,22 @@ import express from 'express';
 import { authenticateToken } from '../middleware/auth';
 import { pool } from '../config/database';
 import { RowDataPacket } from 'mysql2';
+import { Meter } from '../types';
+import { canViewMeter } from '../utils/buildingAccess';
+import { readingIntervalSeconds } from '../utils/meterReadings';
+import {
+  chooseResolution,
+  estimatePoints,
+  getEnergySeries,
+  SERIES_MAX_POINTS,
+  SERIES_RESOLUTIONS,
+  SeriesResolution
+} from '../utils/powerRollups';
 
 const router = express.Router();
 
 // Protected route middleware
-router.use(authenticateToken);
+router.use(authenticateToken());
 
 /**
  * GET /api/energy/consumption
@@ -69,6 +80,58 @@ router.get('/metrics', (_req, res) => {
   res.json(metrics);
 });
 
+/**
+ * GET /api/energy/series?meterId&from&to&resolution
+ * Energy and demand series for a meter. resolution is raw, 15min, hour, day or auto (the default),
+ * which picks the finest resolution that keeps the chart to a manageable number of points.
+ * from and to default to the last 7 days.
+ */
+router.get('/series', async (req, res) => {
+  try {
+    const meterId = Number(req.query.meterId);
+    if (!Number.isInteger(meterId) || meterId <= 0) {
+      return res.status(400).json({ message: 'meterId is required' });
+    }
+
+    const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+    const from = req.query.from ? new Date(String(req.query.from)) : new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000);
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      return res.status(400).json({ message: 'from and to must be valid dates' });
+    }
+    if (from >= to) {
+      return res.status(400).json({ message: 'from must be before to' });
+    }
+
+    const requested = String(req.query.resolution || 'auto');
+    if (requested !== 'auto' && !SERIES_RESOLUTIONS.includes(requested as SeriesResolution)) {
+      return res.status(400).json({ message: `resolution must be auto or one of: ${SERIES_RESOLUTIONS.join(', ')}` });
+    }
+
+    const [meters] = await pool.query<Meter[]>(
+      'SELECT id, protocol, interval_minutes, poll_interval_seconds FROM meters WHERE id = ?',
+      [meterId]
+    );
+    if (meters.length === 0 || !(await canViewMeter(req.user!, meterId))) {
+      return res.status(404).json({ message: 'Meter not found' });
+    }
+    const readingSeconds = readingIntervalSeconds(meters[0], meters[0].protocol === 'modbus_tcp' ? 'modbus' : 'api');
+
+    const resolution = requested === 'auto'
+      ? chooseResolution(from, to, readingSeconds)
+      : requested as SeriesResolution;
+    if (estimatePoints(from, to, resolution, readingSeconds) > SERIES_MAX_POINTS) {
+      return res.status(400).json({
+        message: `The range is too long for ${resolution} resolution; choose a coarser resolution or a shorter range`
+      });
+    }
+
+    return res.json(await getEnergySeries(meterId, from, to, resolution));
+  } catch (error) {
+    console.error('Error fetching energy series:', error);
+    return res.status(500).json({ message: 'Error fetching energy series' });
+  }
+});
+
 // Get energy audit findings
 router.get('/audit/findings', async (req, res) => {
   try {
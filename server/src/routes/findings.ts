@@ -2,6 +2,8 @@ import express from 'express';
 import { pool } from '../config/database';
 import { authenticateToken } from '../middleware/auth';
 import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { getFindingTransitions, transitionFinding } from '../controllers/findingsController';
+import { getInitialState, getWorkflowDefinition } from '../utils/workflow';
 
 const router = express.Router();
 
@@ -38,7 +40,7 @@ router.post('/', authenticateToken, async (req, res) => {
       user: req.user
     });
 
-    const { title, description, type, status, auditId } = req.body;
+    const { title, description, type, auditId } = req.body;
     const userId = req.user?.id;
 
     if (!userId) {
@@ -47,6 +49,7 @@ router.post('/', authenticateToken, async (req, res) => {
     }
 
     console.log('Creating finding');
+    const status = getInitialState(await getWorkflowDefinition('finding'));
     const [result] = await pool.query<ResultSetHeader>(
       'INSERT INTO findings (title, description, type, status, auditId, createdBy) VALUES (?, ?, ?, ?, ?, ?)',
       [title, description, type, status, auditId, userId]
@@ -105,4 +108,10 @@ router.delete('/:id', authenticateToken, async (req, res) => {
   }
 });
 
+// Get workflow state, available transitions and history
+router.get('/:id/transitions', authenticateToken(), getFindingTransitions);
+
+// Move finding to another workflow state
+router.post('/:id/transitions', authenticateToken(), transitionFinding);
+
 export default router; 
\ No newline at end of file
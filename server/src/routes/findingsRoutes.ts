@@ -4,10 +4,11 @@ import {
   createFinding, 
   updateFinding, 
   deleteFinding,
-  assignFinding
+  assignFinding,
+  getFindingTransitions,
+  transitionFinding
 } from '../controllers/findingsController';
-import { authenticateToken, authorizeRole } from '../middleware/auth';
-import { UserRole } from '../types';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 
 const findingsRouter = express.Router();
 
@@ -17,16 +18,22 @@ findingsRouter.use(authenticateToken());
 // Get all findings
 findingsRouter.get('/', getAllFindings);
 
-// Create new finding (admin only)
-findingsRouter.post('/', authorizeRole([UserRole.ADMIN]), createFinding);
+// Create new finding
+findingsRouter.post('/', requirePermission('findings.manage'), createFinding);
 
-// Update finding (admin only)
-findingsRouter.put('/:id', authorizeRole([UserRole.ADMIN]), updateFinding);
+// Update finding
+findingsRouter.put('/:id', requirePermission('findings.manage'), updateFinding);
 
-// Delete finding (admin only)
-findingsRouter.delete('/:id', authorizeRole([UserRole.ADMIN]), deleteFinding);
+// Delete finding
+findingsRouter.delete('/:id', requirePermission('findings.manage'), deleteFinding);
 
-// Assign finding (admin only)
-findingsRouter.post('/:id/assign', authorizeRole([UserRole.ADMIN]), assignFinding);
+// Assign finding
+findingsRouter.post('/:id/assign', requirePermission('findings.manage'), assignFinding);
+
+// Get workflow state, available transitions and history
+findingsRouter.get('/:id/transitions', getFindingTransitions);
+
+// Move finding to another workflow state (roles checked against the workflow definition)
+findingsRouter.post('/:id/transitions', transitionFinding);
 
 export default findingsRouter; 
\ No newline at end of file
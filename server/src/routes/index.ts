@@ -14,6 +14,14 @@ import standardsRoutes from './standardsRoutes';
 import searchRoutes from './searchRoutes';
 import complianceRoutes from './complianceRoutes';
 import systemSettingsRoutes from './systemSettingsRoutes';
+import calculationsRouter from './calculationsRoutes';
+import energyAuditRouter from './energyAuditRoutes';
+import workflowRouter from './workflowRoutes';
+import meterRouter from './meterRoutes';
+import tariffRouter from './tariffRoutes';
+import utilityBillRouter from './utilityBillRoutes';
+import roleRouter from './roleRoutes';
+import sharedReportRouter from './sharedReportRoutes';
 
 // Import JavaScript modules
 const complianceVerificationRoutes = require('./compliance-verification');
@@ -39,5 +47,13 @@ router.use('/search', searchRoutes);
 router.use('/compliance', complianceRoutes);
 router.use('/compliance-verification', complianceVerificationRoutes);
 router.use('/admin/settings', systemSettingsRoutes);
+router.use('/calculations', calculationsRouter);
+router.use('/energy-audit', energyAuditRouter);
+router.use('/workflows', workflowRouter);
+router.use('/meters', meterRouter);
+router.use('/tariffs', tariffRouter);
+router.use('/utility-bills', utilityBillRouter);
+router.use('/roles', roleRouter);
+router.use('/shared/reports', sharedReportRouter);
 
 export default router; 
\ No newline at end of file
@@ -0,0 +1,64 @@
+import express from 'express';
+import multer from 'multer';
+import {
+  createBuilding,
+  createMeter,
+  createPanel,
+  getBuildings,
+  getMeterById,
+  getMeterReadings,
+  getMeters,
+  getPanels,
+  ingestMeterReadings,
+  updateMeter,
+  uploadMeterReadings
+} from '../controllers/meterController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+
+const meterRouter = express.Router();
+
+// Uploaded interval files are parsed in memory and never written to disk
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 20 * 1024 * 1024 // 20MB limit
+  }
+});
+
+meterRouter.use(authenticateToken());
+
+// Get buildings
+meterRouter.get('/buildings', getBuildings);
+
+// Create building
+meterRouter.post('/buildings', requirePermission('meters.manage'), createBuilding);
+
+// Get and create panels in a building
+meterRouter.get('/buildings/:buildingId(\\d+)/panels', getPanels);
+meterRouter.post('/buildings/:buildingId(\\d+)/panels', requirePermission('meters.manage'), createPanel);
+
+// Get meters; ?buildingId narrows to one building
+meterRouter.get('/', getMeters);
+
+// Create meter
+meterRouter.post('/', requirePermission('meters.manage'), createMeter);
+
+// Get and update meter
+meterRouter.get('/:meterId(\\d+)', getMeterById);
+meterRouter.put('/:meterId(\\d+)', requirePermission('meters.manage'), updateMeter);
+
+// Get stored readings for a time range
+meterRouter.get('/:meterId(\\d+)/readings', getMeterReadings);
+
+// Bulk reading ingestion
+meterRouter.post('/:meterId(\\d+)/readings', requirePermission('meters.manage'), ingestMeterReadings);
+
+// CSV or interval-data upload
+meterRouter.post(
+  '/:meterId(\\d+)/readings/upload',
+  requirePermission('meters.manage'),
+  upload.single('file'),
+  uploadMeterReadings
+);
+
+export default meterRouter;
@@ -15,7 +15,7 @@ router.get('/', authenticateToken, async (req, res) => {
     const userId = req.user?.id;
     console.log('Fetching notifications for user:', userId);
     const [notifications] = await pool.query<RowDataPacket[]>(
-      'SELECT n.*, f.title as finding_title FROM notifications n JOIN findings f ON n.finding_id = f.id WHERE n.user_id = ? ORDER BY n.created_at DESC',
+      'SELECT n.*, f.title as finding_title, ea.title as audit_title FROM notifications n LEFT JOIN findings f ON n.finding_id = f.id LEFT JOIN energy_audits ea ON n.audit_id = ea.id WHERE n.user_id = ? ORDER BY n.created_at DESC',
       [userId]
     );
 
@@ -53,7 +53,7 @@ router.post('/', authenticateToken, async (req, res) => {
 
     console.log('Fetching new notification');
     const [newNotification] = await pool.query<RowDataPacket[]>(
-      'SELECT n.*, f.title as finding_title FROM notifications n JOIN findings f ON n.finding_id = f.id WHERE n.id = ?',
+      'SELECT n.*, f.title as finding_title, ea.title as audit_title FROM notifications n LEFT JOIN findings f ON n.finding_id = f.id LEFT JOIN energy_audits ea ON n.audit_id = ea.id WHERE n.id = ?',
       [result.insertId]
     );
 
@@ -108,7 +108,7 @@ router.put('/:id/read', authenticateToken, async (req, res) => {
 
     console.log('Fetching updated notification');
     const [updatedNotification] = await pool.query<RowDataPacket[]>(
-      'SELECT n.*, f.title as finding_title FROM notifications n JOIN findings f ON n.finding_id = f.id WHERE n.id = ?',
+      'SELECT n.*, f.title as finding_title, ea.title as audit_title FROM notifications n LEFT JOIN findings f ON n.finding_id = f.id LEFT JOIN energy_audits ea ON n.audit_id = ea.id WHERE n.id = ?',
       [id]
     );
 
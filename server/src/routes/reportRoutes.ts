@@ -1,7 +1,7 @@
 import express, { Request, Response, RequestHandler } from 'express';
 import { body } from 'express-validator';
 import * as reportController from '../controllers/reportControllerTs';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 import { UserRole } from '../types';
 
 // Define interface for authenticated requests to match controller expectations
@@ -16,7 +16,7 @@ interface AuthenticatedRequest extends Request {
 const router = express.Router();
 
 // Apply authentication middleware to all routes
-router.use(authenticateToken);
+router.use(authenticateToken());
 
 // Helper function to cast controller functions to RequestHandler
 const asyncHandler = (fn: (req: AuthenticatedRequest, res: Response) => Promise<any>): RequestHandler => 
@@ -25,6 +25,7 @@ const asyncHandler = (fn: (req: AuthenticatedRequest, res: Response) => Promise<
 // Create a new report
 router.post(
   '/',
+  requirePermission('report.create'),
   [
     body('title').notEmpty().withMessage('Title is required'),
     body('type').notEmpty().withMessage('Report type is required'),
@@ -39,7 +40,7 @@ router.get('/', asyncHandler(reportController.getAllReports));
 router.get('/:id', asyncHandler(reportController.getReportById));
 
 // Update a report
-router.put('/:id', asyncHandler(reportController.updateReport));
+router.put('/:id', requirePermission('report.create'), asyncHandler(reportController.updateReport));
 
 // Delete a report
 router.delete('/:id', asyncHandler(reportController.deleteReport));
@@ -54,7 +55,74 @@ router.post(
   asyncHandler(reportController.shareReport)
 );
 
+// Queue a report to be rendered to PDF on the server
+router.post('/:id/render', asyncHandler(reportController.renderReport));
+
+// Render jobs of a report, newest first
+router.get('/:id/render-jobs', asyncHandler(reportController.getRenderJobs));
+
+// Cancel a queued render job
+router.delete('/:id/render-jobs/:jobId', asyncHandler(reportController.cancelRenderJob));
+
+// Download the last rendered PDF
+router.get('/:id/rendered', asyncHandler(reportController.downloadRenderedReport));
+
+// Version history of a report, newest first
+router.get('/:id/versions', asyncHandler(reportController.getReportVersions));
+
+// A single version with its snapshot
+router.get('/:id/versions/:version', asyncHandler(reportController.getReportVersion));
+
+// Restore an earlier version as the newest one
+router.post(
+  '/:id/versions/:version/restore',
+  requirePermission('report.create'),
+  asyncHandler(reportController.restoreReportVersion)
+);
+
+// Share links of a report, with their access log
+router.get('/:id/share-links', requirePermission('report.share'), asyncHandler(reportController.getShareLinks));
+
+// Create a share link for people without an account
+router.post(
+  '/:id/share-links',
+  requirePermission('report.share'),
+  [
+    body('label').optional({ nullable: true }).isString().isLength({ max: 255 }).withMessage('Label must be at most 255 characters'),
+    body('password').optional({ nullable: true, checkFalsy: true }).isString().isLength({ min: 6, max: 128 }).withMessage('Password must be 6 to 128 characters'),
+    body('expires_at').optional({ nullable: true, checkFalsy: true }).isISO8601().withMessage('Expiry must be a valid date'),
+    body('max_views').optional({ nullable: true, checkFalsy: true }).isInt({ min: 1 }).withMessage('View limit must be a positive number'),
+  ],
+  asyncHandler(reportController.createShareLink)
+);
+
+// Revoke a share link
+router.delete('/:id/share-links/:linkId', requirePermission('report.share'), asyncHandler(reportController.revokeShareLink));
+
+// Signatures of a report, checked against its current content
+router.get('/:id/signatures', asyncHandler(reportController.getReportSignatures));
+
+// Approve and sign the report's content, as the signer reviewed it
+router.post(
+  '/:id/signatures',
+  requirePermission('report.sign'),
+  [
+    body('content_hash').isString().matches(/^[0-9a-f]{64}$/).withMessage('The hash of the reviewed content is required'),
+    body('signature_image')
+      .optional({ nullable: true, checkFalsy: true })
+      .matches(/^data:image\/png;base64,[A-Za-z0-9+/=]+$/)
+      .withMessage('Signature must be a PNG image')
+      .isLength({ max: 2 * 1024 * 1024 })
+      .withMessage('Signature image is too large'),
+    body('comments').optional({ nullable: true }).isString().isLength({ max: 2000 }).withMessage('Comments must be at most 2000 characters'),
+  ],
+  asyncHandler(reportController.signReport)
+);
+
 // Get reports shared with the current user
 router.get('/shared/list', asyncHandler(reportController.getSharedReports));
 
+// Get published reports of audits the current user is a client viewer on
+router.get('/client/list', asyncHandler(reportController.getClientReports));
+
 export default router; 
\ No newline at end of file
@@ -0,0 +1,28 @@
+import express from 'express';
+import {
+  createRole,
+  deleteRole,
+  getPermissionRegistry,
+  getRoles,
+  updateRole
+} from '../controllers/roleController';
+import { authenticateToken, requirePermission, requireTwoFactor } from '../middleware/auth';
+
+const roleRouter = express.Router();
+
+// Apply authentication middleware to all routes; role changes also need two-factor
+// authentication when the system settings require it
+roleRouter.use(authenticateToken());
+
+// List roles, e.g. to choose one for a user
+roleRouter.get('/', getRoles);
+
+// The permission registry
+roleRouter.get('/permissions', getPermissionRegistry);
+
+// Create, edit or delete a role
+roleRouter.post('/', requirePermission('roles.manage'), requireTwoFactor, createRole);
+roleRouter.put('/:roleId(\\d+)', requirePermission('roles.manage'), requireTwoFactor, updateRole);
+roleRouter.delete('/:roleId(\\d+)', requirePermission('roles.manage'), requireTwoFactor, deleteRole);
+
+export default roleRouter;
@@ -0,0 +1,18 @@
+import express from 'express';
+import { getSharedReportInfo, verifyReportSignature, viewSharedReport } from '../controllers/sharedReportController';
+
+const sharedReportRouter = express.Router();
+
+// Reports opened through share links and signature checks from exported PDFs; no authentication,
+// the token grants read-only access
+
+// Whether a link works and needs a password
+sharedReportRouter.get('/:token([0-9a-f]{64})', getSharedReportInfo);
+
+// Open the report, with the password when the link has one
+sharedReportRouter.post('/:token([0-9a-f]{64})/view', viewSharedReport);
+
+// Check a signature from the code on an exported PDF
+sharedReportRouter.get('/signatures/:code([0-9a-f]{32})', verifyReportSignature);
+
+export default sharedReportRouter;
@@ -1,6 +1,6 @@
 import express from 'express';
 import * as standardsController from '../controllers/standardsController';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 
 const router = express.Router();
 
@@ -13,15 +13,15 @@ router.get('/search/sections', standardsController.searchSections);
 router.get('/resources', standardsController.getResources);
 
 // Protected routes - authentication required
-router.use(authenticateToken);
+router.use(authenticateToken());
 
 // Standard and section management
-router.post('/standards', standardsController.createStandard);
-router.post('/standards/:standardId/sections', standardsController.createSection);
-router.post('/sections/:sectionId/tables', standardsController.addTable);
-router.post('/sections/:sectionId/figures', standardsController.addFigure);
-router.post('/sections/:sectionId/requirements', standardsController.addComplianceRequirement);
-router.post('/sections/:sectionId/resources', standardsController.addResource);
+router.post('/standards', requirePermission('standards.manage'), standardsController.createStandard);
+router.post('/standards/:standardId/sections', requirePermission('standards.manage'), standardsController.createSection);
+router.post('/sections/:sectionId/tables', requirePermission('standards.manage'), standardsController.addTable);
+router.post('/sections/:sectionId/figures', requirePermission('standards.manage'), standardsController.addFigure);
+router.post('/sections/:sectionId/requirements', requirePermission('standards.manage'), standardsController.addComplianceRequirement);
+router.post('/sections/:sectionId/resources', requirePermission('standards.manage'), standardsController.addResource);
 
 // Bookmarks
 router.post('/bookmarks', standardsController.addBookmark);
@@ -1,16 +1,15 @@
 import express from 'express';
 import { getSystemSettings, updateSystemSettings } from '../controllers/systemSettingsController';
-import { authenticateToken, authorizeRole } from '../middleware/auth';
-import { UserRole } from '../types';
+import { authenticateToken, requirePermission, requireTwoFactor } from '../middleware/auth';
 
 const router = express.Router();
 
-// Require admin authentication for all settings routes
-router.use(authenticateToken);
-router.use(authorizeRole([UserRole.ADMIN]));
+// Require authentication and the settings permission for all settings routes
+router.use(authenticateToken());
+router.use(requirePermission('settings.manage'));
 
 // Settings routes
 router.get('/', getSystemSettings);
-router.put('/', updateSystemSettings);
+router.put('/', requireTwoFactor, updateSystemSettings);
 
 export default router; 
\ No newline at end of file
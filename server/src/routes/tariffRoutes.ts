@@ -0,0 +1,36 @@
+import express from 'express';
+import {
+  addTariffVersion,
+  calculateTariffBill,
+  createTariff,
+  deleteTariffVersion,
+  getTariffById,
+  getTariffs,
+  updateTariff
+} from '../controllers/tariffController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+
+const tariffRouter = express.Router();
+
+tariffRouter.use(authenticateToken());
+
+// Get tariffs with the version currently in force
+tariffRouter.get('/', getTariffs);
+
+// Create tariff with its first version
+tariffRouter.post('/', requirePermission('tariffs.manage'), createTariff);
+
+// Get tariff with all versions
+tariffRouter.get('/:tariffId(\\d+)', getTariffById);
+
+// Update tariff details
+tariffRouter.put('/:tariffId(\\d+)', requirePermission('tariffs.manage'), updateTariff);
+
+// Add a version with new rates, or delete one that hasn't taken effect
+tariffRouter.post('/:tariffId(\\d+)/versions', requirePermission('tariffs.manage'), addTariffVersion);
+tariffRouter.delete('/:tariffId(\\d+)/versions/:versionId(\\d+)', requirePermission('tariffs.manage'), deleteTariffVersion);
+
+// Calculate a bill from monthly usage or a meter's interval data
+tariffRouter.post('/:tariffId(\\d+)/calculate', calculateTariffBill);
+
+export default tariffRouter;
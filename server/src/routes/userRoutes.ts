@@ -1,4 +1,4 @@
-import express from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import {
   getAllUsers,
   getUserById,
@@ -10,39 +10,44 @@ import {
   resetPassword,
   getUserAuditLogs
 } from '../controllers/userController';
-import { authenticateToken, authorizeRole } from '../middleware/auth';
-import { UserRole } from '../types';
+import { authenticateToken, requirePermission, requireTwoFactor } from '../middleware/auth';
 
 const userRouter = express.Router();
 
-// Apply authentication middleware to all routes
-userRouter.use(authenticateToken);
+// Apply authentication middleware to all routes; account changes also need two-factor
+// authentication when the system settings require it
+userRouter.use(authenticateToken());
 
-// Get all users (admin only)
-userRouter.get('/', authorizeRole([UserRole.ADMIN]), getAllUsers);
+// Users may edit their own profile before setting up two-factor authentication; changing anyone
+// else's account needs it like the other account actions
+const requireTwoFactorForOthers = (req: Request, res: Response, next: NextFunction) =>
+  req.user?.id === parseInt(req.params.id, 10) ? next() : requireTwoFactor(req, res, next);
 
-// Get user by ID (admin or self)
+// Get all users
+userRouter.get('/', requirePermission('users.manage'), getAllUsers);
+
+// Get user by ID (user managers or self)
 userRouter.get('/:id', getUserById);
 
-// Create new user (admin only)
-userRouter.post('/', authorizeRole([UserRole.ADMIN]), createUser);
+// Create new user
+userRouter.post('/', requirePermission('users.manage'), requireTwoFactor, createUser);
 
-// Update existing user (admin or self with restrictions)
-userRouter.put('/:id', updateUser);
+// Update existing user (user managers or self with restrictions)
+userRouter.put('/:id', requireTwoFactorForOthers, updateUser);
 
-// Delete user (admin only)
-userRouter.delete('/:id', authorizeRole([UserRole.ADMIN]), deleteUser);
+// Delete user
+userRouter.delete('/:id', requirePermission('users.manage'), requireTwoFactor, deleteUser);
 
-// Toggle user status (admin only)
-userRouter.put('/:id/toggle-status', authorizeRole([UserRole.ADMIN]), toggleUserStatus);
+// Toggle user status
+userRouter.put('/:id/toggle-status', requirePermission('users.manage'), requireTwoFactor, toggleUserStatus);
 
-// Reset password (admin only)
-userRouter.post('/:id/reset-password', authorizeRole([UserRole.ADMIN]), resetPassword);
+// Reset password
+userRouter.post('/:id/reset-password', requirePermission('users.manage'), requireTwoFactor, resetPassword);
 
-// Bulk update users (admin only)
-userRouter.patch('/bulk', authorizeRole([UserRole.ADMIN]), bulkUpdateUsers);
+// Bulk update users
+userRouter.patch('/bulk', requirePermission('users.manage'), requireTwoFactor, bulkUpdateUsers);
 
-// Get user audit logs (admin only)
-userRouter.get('/:id/audit-logs', authorizeRole([UserRole.ADMIN]), getUserAuditLogs);
+// Get user audit logs
+userRouter.get('/:id/audit-logs', requirePermission('users.manage'), getUserAuditLogs);
 
 export default userRouter; 
\ No newline at end of file
@@ -0,0 +1,43 @@
+import express from 'express';
+import multer from 'multer';
+import {
+  createUtilityBill,
+  deleteUtilityBill,
+  getBillReconciliation,
+  getUtilityBills,
+  updateUtilityBill,
+  uploadUtilityBills
+} from '../controllers/utilityBillController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+
+const utilityBillRouter = express.Router();
+
+// Uploaded bill spreadsheets are parsed in memory and never written to disk
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 2 * 1024 * 1024 // 2MB limit
+  }
+});
+
+utilityBillRouter.use(authenticateToken());
+
+// Get a building's bills (?buildingId, optional ?from and ?to)
+utilityBillRouter.get('/', getUtilityBills);
+
+// Compare a building's bills with metered consumption (?buildingId)
+utilityBillRouter.get('/reconciliation', getBillReconciliation);
+
+// Create bill
+utilityBillRouter.post('/', createUtilityBill);
+
+// CSV bill import (?buildingId)
+utilityBillRouter.post('/upload', upload.single('file'), uploadUtilityBills);
+
+// Update bill
+utilityBillRouter.put('/:billId(\\d+)', updateUtilityBill);
+
+// Delete bill
+utilityBillRouter.delete('/:billId(\\d+)', requirePermission('bills.manage'), deleteUtilityBill);
+
+export default utilityBillRouter;
@@ -0,0 +1,15 @@
+import express from 'express';
+import { getWorkflow, updateWorkflow } from '../controllers/workflowController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+
+const workflowRouter = express.Router();
+
+workflowRouter.use(authenticateToken());
+
+// Get the states and transitions for audits or findings
+workflowRouter.get('/:entityType', getWorkflow);
+
+// Replace the workflow definition
+workflowRouter.put('/:entityType', requirePermission('workflow.manage'), updateWorkflow);
+
+export default workflowRouter;
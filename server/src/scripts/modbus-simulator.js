@@ -0,0 +1,93 @@
+/**
+ * Modbus-TCP Meter Simulator
+ *
+ * Serves holding and input registers (function codes 3 and 4) laid out like the default meter
+ * register map, so the meter poller can be tested without hardware:
+ *
+ *   0 power (kW), 2 line-to-line voltage (V), 4 current (A),
+ *   6 power factor, 8 frequency (Hz), 10 energy register (kWh)
+ *
+ * Every value is a big-endian float32 spread over two registers.
+ *
+ * Usage: node src/scripts/modbus-simulator.js [port]
+ * Then create a meter with protocol "modbus_tcp", host 127.0.0.1 and the same port.
+ */
+
+const net = require('net');
+
+const PORT = Number(process.argv[2] || process.env.MODBUS_SIMULATOR_PORT || 5020);
+const REGISTER_COUNT = 12;
+
+let energyKwh = 0;
+let lastUpdate = Date.now();
+
+// Daily load shape around a 50 kW base with some noise
+const currentValues = () => {
+  const now = Date.now();
+  const hour = new Date(now).getHours() + new Date(now).getMinutes() / 60;
+  const powerKw = Math.max(0, 50 + Math.sin(((hour - 6) / 24) * Math.PI * 2) * 15 + (Math.random() * 6 - 3));
+  energyKwh += powerKw * (now - lastUpdate) / 3600000;
+  lastUpdate = now;
+
+  const voltage = 400 + (Math.random() * 4 - 2);
+  const powerFactor = 0.88 + Math.random() * 0.06;
+  return [powerKw, voltage, (powerKw * 1000) / (Math.sqrt(3) * 400 * powerFactor), powerFactor, 60 + (Math.random() * 0.1 - 0.05), energyKwh];
+};
+
+const registerBlock = () => {
+  const buffer = Buffer.alloc(REGISTER_COUNT * 2);
+  currentValues().forEach((value, index) => buffer.writeFloatBE(value, index * 4));
+  return buffer;
+};
+
+const exceptionResponse = (header, functionCode, code) => {
+  const response = Buffer.alloc(9);
+  header.copy(response, 0, 0, 4);
+  response.writeUInt16BE(3, 4);
+  response.writeUInt8(header.readUInt8(6), 6);
+  response.writeUInt8(functionCode | 0x80, 7);
+  response.writeUInt8(code, 8);
+  return response;
+};
+
+const handleRequest = (frame) => {
+  const functionCode = frame.readUInt8(7);
+  if (functionCode !== 3 && functionCode !== 4) {
+    return exceptionResponse(frame, functionCode, 1); // illegal function
+  }
+
+  const address = frame.readUInt16BE(8);
+  const quantity = frame.readUInt16BE(10);
+  if (quantity < 1 || address + quantity > REGISTER_COUNT) {
+    return exceptionResponse(frame, functionCode, 2); // illegal data address
+  }
+
+  const data = registerBlock().subarray(address * 2, (address + quantity) * 2);
+  const response = Buffer.alloc(9 + data.length);
+  frame.copy(response, 0, 0, 4);
+  response.writeUInt16BE(3 + data.length, 4);
+  response.writeUInt8(frame.readUInt8(6), 6);
+  response.writeUInt8(functionCode, 7);
+  response.writeUInt8(data.length, 8);
+  data.copy(response, 9);
+  return response;
+};
+
+const server = net.createServer(socket => {
+  let pending = Buffer.alloc(0);
+
+  socket.on('data', chunk => {
+    pending = Buffer.concat([pending, chunk]);
+    while (pending.length >= 6) {
+      const frameLength = 6 + pending.readUInt16BE(4);
+      if (pending.length < frameLength) break;
+      socket.write(handleRequest(pending.subarray(0, frameLength)));
+      pending = pending.subarray(frameLength);
+    }
+  });
+  socket.on('error', error => console.error('Simulator connection error:', error.message));
+});
+
+server.listen(PORT, () => {
+  console.log(`Modbus-TCP meter simulator listening on port ${PORT}`);
+});
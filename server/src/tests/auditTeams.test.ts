@@ -0,0 +1,79 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../config/database', () => require('./helpers/database').databaseMock);
+
+import { canEditAuditData, canManageTeam, canViewAuditData, getFindingScope } from '../utils/auditTeams';
+import { mockQuery } from './helpers/database';
+import { makeUser } from './helpers/fixtures';
+
+const query = mockQuery();
+
+const teamRole = (role: string | null) => query.mockResolvedValueOnce([role ? [{ team_role: role }] : []]);
+
+describe('canViewAuditData', () => {
+  it('lets users with audit.view_all see any audit without a team lookup', async () => {
+    expect(await canViewAuditData(makeUser('audit.view_all'), 3)).toBe(true);
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('lets lead auditors and auditors see their audit', async () => {
+    teamRole('lead_auditor');
+    expect(await canViewAuditData(makeUser(), 3)).toBe(true);
+    teamRole('auditor');
+    expect(await canViewAuditData(makeUser(), 3)).toBe(true);
+    expect(query).toHaveBeenCalledWith(expect.stringContaining('audit_team_members'), [3, 7]);
+  });
+
+  it('keeps client viewers and outsiders out of the audit data', async () => {
+    teamRole('client_viewer');
+    expect(await canViewAuditData(makeUser(), 3)).toBe(false);
+    teamRole(null);
+    expect(await canViewAuditData(makeUser(), 3)).toBe(false);
+  });
+});
+
+describe('canEditAuditData', () => {
+  it('lets users with audit.edit change any audit', async () => {
+    expect(await canEditAuditData(makeUser('audit.edit'), 3)).toBe(true);
+  });
+
+  it('does not let audit.view_all alone change audits the user is not on', async () => {
+    teamRole(null);
+    expect(await canEditAuditData(makeUser('audit.view_all'), 3)).toBe(false);
+    teamRole('auditor');
+    expect(await canEditAuditData(makeUser('audit.view_all'), 3)).toBe(true);
+  });
+});
+
+describe('getFindingScope', () => {
+  it('does not limit users with audit.view_all', async () => {
+    expect(await getFindingScope(makeUser('audit.view_all'))).toBeNull();
+  });
+
+  it('keeps findings without an audit visible to their creator and assignee', async () => {
+    const scope = await getFindingScope(makeUser());
+    expect(scope?.clause).toContain('f.audit_id IS NULL AND (f.created_by = ? OR f.assigned_to = ?)');
+    expect(scope?.params).toEqual([7, 7, 7]);
+  });
+});
+
+describe('canManageTeam', () => {
+  it('lets the lead auditor manage their own audit team', async () => {
+    teamRole('lead_auditor');
+    teamRole('lead_auditor');
+    expect(await canManageTeam(makeUser(), 3)).toBe(true);
+  });
+
+  it('does not let a plain auditor manage the team', async () => {
+    teamRole('auditor');
+    teamRole('auditor');
+    expect(await canManageTeam(makeUser(), 3)).toBe(false);
+  });
+
+  it('lets audit.assign manage the team of audits the user can see only', async () => {
+    teamRole('auditor');
+    expect(await canManageTeam(makeUser('audit.assign'), 3)).toBe(true);
+    teamRole(null);
+    expect(await canManageTeam(makeUser('audit.assign'), 3)).toBe(false);
+  });
+});
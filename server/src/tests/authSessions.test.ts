@@ -0,0 +1,116 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import * as jwt from 'jsonwebtoken';
+
+jest.mock('../config/database', () => require('./helpers/database').databaseMock);
+
+import { UserRole } from '../types';
+import {
+  getJwtSecret,
+  getLockoutMinutes,
+  hashToken,
+  LOCKOUT_MAX_MINUTES,
+  ROTATION_GRACE_SECONDS,
+  rotateSession,
+  signAccessToken,
+  verifyAccessToken
+} from '../utils/authSessions';
+import { mockQuery } from './helpers/database';
+import { makeSession } from './helpers/fixtures';
+
+const query = mockQuery();
+const client = { userAgent: 'jest', ipAddress: '127.0.0.1' };
+const user = { id: 1, username: 'jane', role: UserRole.USER };
+
+describe('getLockoutMinutes', () => {
+  it('does not lock below the threshold', () => {
+    expect(getLockoutMinutes(4, 5)).toBe(0);
+  });
+
+  it('doubles the lock with every further failure up to the maximum', () => {
+    expect(getLockoutMinutes(5, 5)).toBe(1);
+    expect(getLockoutMinutes(6, 5)).toBe(2);
+    expect(getLockoutMinutes(9, 5)).toBe(16);
+    expect(getLockoutMinutes(20, 5)).toBe(LOCKOUT_MAX_MINUTES);
+  });
+});
+
+describe('verifyAccessToken', () => {
+  it('returns the payload of a token whose session is active', async () => {
+    query.mockResolvedValueOnce([[{ id: 10 }]]);
+
+    const payload = await verifyAccessToken(signAccessToken(user, 10, true));
+
+    expect(payload).toMatchObject({ id: 1, username: 'jane', sid: 10, mfa: true });
+  });
+
+  it('refuses a token whose session was revoked', async () => {
+    query.mockResolvedValueOnce([[]]);
+
+    expect(await verifyAccessToken(signAccessToken(user, 10))).toBeNull();
+  });
+
+  it('refuses tokens without a session, with another signature or that are malformed', async () => {
+    expect(await verifyAccessToken(jwt.sign({ ...user }, getJwtSecret()))).toBeNull();
+    expect(await verifyAccessToken(jwt.sign({ ...user, sid: 10 }, 'another-secret'))).toBeNull();
+    expect(await verifyAccessToken('not-a-token')).toBeNull();
+    expect(query).not.toHaveBeenCalled();
+  });
+});
+
+describe('rotateSession', () => {
+  it('issues a new refresh token for the current one', async () => {
+    query
+      .mockResolvedValueOnce([[makeSession()]])
+      .mockResolvedValueOnce([{ affectedRows: 1 }]);
+
+    const result = await rotateSession('current', client);
+
+    expect(result.status).toBe('rotated');
+    if (result.status !== 'rotated') return;
+    expect(result.refreshToken).not.toBe('current');
+    // The old hash is kept to recognize reuse and the update only applies if no one rotated first
+    expect(query.mock.calls[1][1]).toEqual(expect.arrayContaining([hashToken(result.refreshToken), hashToken('current'), 10]));
+  });
+
+  it('reports a token rotated by a concurrent request as superseded', async () => {
+    query
+      .mockResolvedValueOnce([[makeSession()]])
+      .mockResolvedValueOnce([{ affectedRows: 0 }]);
+
+    expect((await rotateSession('current', client)).status).toBe('superseded');
+  });
+
+  it('refuses unknown, revoked and expired tokens', async () => {
+    query.mockResolvedValueOnce([[]]).mockResolvedValueOnce([[]]);
+    expect((await rotateSession('unknown', client)).status).toBe('invalid');
+
+    query.mockResolvedValueOnce([[makeSession({ revoked_at: new Date() })]]);
+    expect((await rotateSession('current', client)).status).toBe('invalid');
+
+    query.mockResolvedValueOnce([[makeSession({ expires_at: new Date(Date.now() - 1000) })]]);
+    expect((await rotateSession('current', client)).status).toBe('invalid');
+  });
+
+  it('accepts the previous token within the grace period without revoking the session', async () => {
+    query
+      .mockResolvedValueOnce([[]])
+      .mockResolvedValueOnce([[makeSession({ rotated_at: new Date(Date.now() - 5 * 1000) })]]);
+
+    expect((await rotateSession('previous', client)).status).toBe('superseded');
+    expect(query).toHaveBeenCalledTimes(2);
+  });
+
+  it('revokes the session when the previous token is reused after the grace period', async () => {
+    const rotatedAt = new Date(Date.now() - (ROTATION_GRACE_SECONDS + 5) * 1000);
+    query
+      .mockResolvedValueOnce([[]])
+      .mockResolvedValueOnce([[makeSession({ rotated_at: rotatedAt })]])
+      .mockResolvedValueOnce([{ affectedRows: 1 }]);
+
+    const result = await rotateSession('previous', client);
+
+    expect(result.status).toBe('reused');
+    expect(query.mock.calls[2][0]).toContain('revoked_at = NOW()');
+    expect(query.mock.calls[2][1]).toEqual(['token_reuse', 10]);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { Request, Response } from 'express';
+
+jest.mock('../config/database', () => require('./helpers/database').databaseMock);
+
+import { transitionEnergyAudit, updateAuditTask, updateEnergyAudit } from '../controllers/energyAuditController';
+import { mockQuery, mockTransaction } from './helpers/database';
+import { makeAudit, makeTask, makeUser } from './helpers/fixtures';
+
+const query = mockQuery();
+const connectionQuery = mockTransaction();
+
+const mockRequest = (params: Record<string, string>, body: Record<string, unknown>, ...permissions: string[]) =>
+  ({ params, body, user: makeUser(...permissions) }) as unknown as Request;
+
+const mockResponse = () => {
+  const res = {} as Record<string, jest.Mock>;
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res as unknown as Response & Record<'status' | 'json', jest.Mock>;
+};
+
+const updateCalls = () => query.mock.calls.filter(([sql]) => String(sql).startsWith('UPDATE'));
+
+describe('updateAuditTask', () => {
+  it('returns 404 for an unknown task', async () => {
+    query.mockResolvedValueOnce([[]]);
+    const res = mockResponse();
+
+    await updateAuditTask(mockRequest({ taskId: '99' }, { status: 'completed' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+
+  it('lets the assignee move their own task and stamps the completion date', async () => {
+    query
+      .mockResolvedValueOnce([[makeTask()]])
+      .mockResolvedValueOnce([{ affectedRows: 1 }])
+      .mockResolvedValueOnce([[makeTask({ status: 'completed' })]])
+      .mockResolvedValueOnce([[]]);
+    const res = mockResponse();
+
+    await updateAuditTask(mockRequest({ taskId: '11' }, { status: 'completed' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    const [, params] = updateCalls()[0];
+    expect(params[3]).toBe('completed');
+    expect(params[6]).toBeInstanceOf(Date);
+  });
+
+  it('does not let the assignee change other fields without audit.edit', async () => {
+    query.mockResolvedValueOnce([[makeTask()]]);
+    const res = mockResponse();
+
+    await updateAuditTask(mockRequest({ taskId: '11' }, { status: 'completed', priority: 'high' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(updateCalls()).toHaveLength(0);
+  });
+
+  it('does not let other users without audit.edit change the task', async () => {
+    query.mockResolvedValueOnce([[makeTask({ assignee_id: 8 })]]);
+    const res = mockResponse();
+
+    await updateAuditTask(mockRequest({ taskId: '11' }, { status: 'completed' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('limits audit.edit to audits the user can see', async () => {
+    query.mockResolvedValueOnce([[makeTask({ assignee_id: 8 })]]).mockResolvedValueOnce([[]]);
+    const res = mockResponse();
+
+    await updateAuditTask(mockRequest({ taskId: '11' }, { priority: 'high' }, 'audit.edit'), res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(updateCalls()).toHaveLength(0);
+  });
+
+  it('rejects an unknown status', async () => {
+    query.mockResolvedValueOnce([[makeTask()]]);
+    const res = mockResponse();
+
+    await updateAuditTask(mockRequest({ taskId: '11' }, { status: 'done' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({
+      message: 'Status must be one of: not_started, in_progress, completed, blocked'
+    });
+  });
+});
+
+describe('updateEnergyAudit', () => {
+  it('does not let an audit change state outside the workflow', async () => {
+    query.mockResolvedValueOnce([[makeAudit()]]);
+    const res = mockResponse();
+
+    await updateEnergyAudit(mockRequest({ id: '3' }, { status: 'approved' }, 'audit.view_all', 'audit.edit'), res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(updateCalls()).toHaveLength(0);
+  });
+
+  it('requires audit.edit to change an audit someone else created', async () => {
+    query.mockResolvedValueOnce([[makeAudit()]]);
+    const res = mockResponse();
+
+    await updateEnergyAudit(mockRequest({ id: '3' }, { title: 'Renamed' }, 'audit.view_all'), res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
+
+describe('transitionEnergyAudit', () => {
+  const mockWorkflow = () => connectionQuery
+    .mockResolvedValueOnce([[makeAudit()]])
+    .mockResolvedValueOnce([[
+      { state_key: 'review', label: 'Review', sort_order: 0, is_initial: 1, is_final: 0 },
+      { state_key: 'approved', label: 'Approved', sort_order: 1, is_initial: 0, is_final: 0 }
+    ]])
+    .mockResolvedValueOnce([[
+      { from_state: 'review', to_state: 'approved', label: 'Approve', permission: 'audit.approve', requires_comment: 0 }
+    ]]);
+
+  it('returns 403 when the user lacks the permission of the transition', async () => {
+    query.mockResolvedValueOnce([[makeAudit()]]);
+    mockWorkflow();
+    const res = mockResponse();
+
+    await transitionEnergyAudit(mockRequest({ id: '3' }, { toState: 'approved' }, 'audit.view_all'), res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(connectionQuery).not.toHaveBeenCalledWith(expect.stringContaining('UPDATE energy_audits'), expect.anything());
+  });
+
+  it('moves the audit and logs the transition for users with the permission', async () => {
+    query
+      .mockResolvedValueOnce([[makeAudit()]])
+      .mockResolvedValueOnce([[makeAudit({ status: 'approved' })]]);
+    mockWorkflow();
+    connectionQuery.mockResolvedValue([[]]);
+    const res = mockResponse();
+
+    await transitionEnergyAudit(
+      mockRequest({ id: '3' }, { toState: 'approved' }, 'audit.view_all', 'audit.approve'),
+      res
+    );
+
+    expect(res.status).not.toHaveBeenCalled();
+    expect(connectionQuery).toHaveBeenCalledWith(
+      expect.stringContaining('INSERT INTO audit_logs'),
+      expect.arrayContaining(['WORKFLOW_TRANSITION', 'audit'])
+    );
+    expect(connectionQuery).toHaveBeenCalledWith('UPDATE energy_audits SET status = ? WHERE id = ?', ['approved', 3]);
+  });
+});
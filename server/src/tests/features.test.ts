@@ -17,7 +17,7 @@ describe('Features Integration Tests', () => {
     const loginResponse = await request(app)
       .post('/api/auth/login')
       .send({
-        email: 'test@example.com',
+        username: 'testuser',
         password: 'password123'
       });
     authToken = loginResponse.body.token;
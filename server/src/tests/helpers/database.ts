@@ -0,0 +1,36 @@
+import { beforeEach, jest } from '@jest/globals';
+
+/**
+ * Stand-in for config/database in unit tests. jest.mock() is hoisted within each test file, so
+ * every suite registers it itself:
+ *
+ *   jest.mock('../config/database', () => require('./helpers/database').databaseMock);
+ */
+export const databaseMock = {
+  pool: { query: jest.fn<(...args: any[]) => Promise<any>>() },
+  transaction: jest.fn<(callback: (connection: any) => Promise<any>) => Promise<any>>()
+};
+
+/**
+ * The mocked pool.query, reset before every test of the calling suite
+ */
+export const mockQuery = () => {
+  beforeEach(() => {
+    databaseMock.pool.query.mockReset();
+  });
+  return databaseMock.pool.query;
+};
+
+/**
+ * The mocked transaction(), running its callback against a connection whose query is returned.
+ * Both are reset before every test of the calling suite.
+ */
+export const mockTransaction = () => {
+  const connectionQuery = jest.fn<(...args: any[]) => Promise<any>>();
+  beforeEach(() => {
+    connectionQuery.mockReset();
+    databaseMock.transaction.mockReset();
+    databaseMock.transaction.mockImplementation(callback => callback({ query: connectionQuery }));
+  });
+  return connectionQuery;
+};
@@ -0,0 +1,96 @@
+import { ReportShareLink } from '../../types';
+import { hashToken } from '../../utils/authSessions';
+
+// Rows as pool.query returns them; each factory takes the columns a test cares about as overrides
+
+/**
+ * A signed-in user. Carrying the permissions keeps hasPermission() from querying them.
+ */
+export const makeUser = (...permissions: string[]) => ({ id: 7, username: 'auditor', role: 'USER', permissions });
+
+/**
+ * A live session whose refresh token is 'current', rotated from 'previous'
+ */
+export const makeSession = (overrides: Record<string, unknown> = {}) => ({
+  id: 10,
+  user_id: 1,
+  refresh_token_hash: hashToken('current'),
+  previous_token_hash: hashToken('previous'),
+  rotated_at: null,
+  revoked_at: null,
+  expires_at: new Date(Date.now() + 60 * 60 * 1000),
+  ...overrides
+});
+
+export const makeShareLink = (overrides: Record<string, unknown> = {}) => ({
+  id: 3,
+  report_id: 1,
+  token_hash: 'a'.repeat(64),
+  label: null,
+  password_hash: null,
+  expires_at: null,
+  max_views: null,
+  view_count: 0,
+  failed_attempts: 0,
+  locked_until: null,
+  last_viewed_at: null,
+  created_by: 1,
+  created_at: new Date(),
+  revoked_at: null,
+  revoked_by: null,
+  ...overrides
+}) as ReportShareLink;
+
+export const makeAudit = (overrides: Record<string, unknown> = {}) => ({
+  id: 3,
+  user_id: 1,
+  title: 'Plant audit',
+  description: null,
+  location: null,
+  status: 'review',
+  current_phase: 0,
+  start_date: null,
+  end_date: null,
+  power_usage: null,
+  lighting_efficiency: null,
+  hvac_efficiency: null,
+  archived_at: null,
+  created_at: new Date('2026-01-01T00:00:00Z'),
+  updated_at: new Date('2026-01-01T00:00:00Z'),
+  ...overrides
+});
+
+export const makeTask = (overrides: Record<string, unknown> = {}) => ({
+  id: 11,
+  audit_id: 3,
+  title: 'Measure lighting levels',
+  description: null,
+  assignee_id: 7,
+  status: 'in_progress',
+  priority: 'medium',
+  due_date: null,
+  completed_date: null,
+  approval_status: 'none',
+  approved_by: null,
+  approved_at: null,
+  created_by: 1,
+  created_at: new Date('2026-01-05T00:00:00Z'),
+  updated_at: new Date('2026-01-05T00:00:00Z'),
+  ...overrides
+});
+
+export const makeRenderJob = (overrides: Record<string, unknown> = {}) => ({
+  id: 5,
+  report_id: 12,
+  requested_by: 7,
+  status: 'queued',
+  progress: 0,
+  message: 'Waiting in queue',
+  error: null,
+  file_path: null,
+  file_size: null,
+  created_at: new Date('2026-01-05T00:00:00Z'),
+  started_at: null,
+  completed_at: null,
+  ...overrides
+});
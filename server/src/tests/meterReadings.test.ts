@@ -0,0 +1,81 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../config/database', () => require('./helpers/database').databaseMock);
+
+import { normalizeReading, parseReadingsCsv, readingIntervalSeconds, ReadingInput } from '../utils/meterReadings';
+
+describe('normalizeReading', () => {
+  it('cleans a valid reading and truncates the timestamp to whole seconds', () => {
+    const reading = normalizeReading({
+      timestamp: '2026-01-15T08:15:30.750Z',
+      powerUsage: '12.5',
+      voltage: 230,
+      powerFactor: 0.92
+    }) as ReadingInput;
+
+    expect(reading.timestamp.toISOString()).toBe('2026-01-15T08:15:30.000Z');
+    expect(reading.powerUsage).toBe(12.5);
+    expect(reading.voltage).toBe(230);
+    expect(reading.powerFactor).toBe(0.92);
+    expect(reading.current).toBeNull();
+  });
+
+  it('reads a space-separated timestamp as local time', () => {
+    const reading = normalizeReading({ timestamp: '2026-01-15 08:15', powerUsage: 1 }) as ReadingInput;
+
+    expect(reading.timestamp.getTime()).toBe(new Date(2026, 0, 15, 8, 15).getTime());
+  });
+
+  it('rejects missing, future and implausibly old timestamps', () => {
+    expect(normalizeReading({ powerUsage: 1 })).toBe('Invalid or missing timestamp');
+    expect(normalizeReading({ timestamp: Date.now() + 60 * 60 * 1000, powerUsage: 1 })).toBe('Timestamp is in the future');
+    expect(normalizeReading({ timestamp: '1999-12-31T00:00:00Z', powerUsage: 1 })).toBe('Timestamp is before 2000');
+  });
+
+  it('rejects missing or negative demand', () => {
+    const timestamp = '2026-01-15T08:15:00Z';
+
+    expect(normalizeReading({ timestamp })).toBe('powerUsage must be a non-negative number in kW');
+    expect(normalizeReading({ timestamp, powerUsage: -1 })).toBe('powerUsage must be a non-negative number in kW');
+    expect(normalizeReading({ timestamp, powerUsage: 'abc' })).toBe('powerUsage must be a non-negative number in kW');
+  });
+
+  it('rejects optional values outside their range', () => {
+    const timestamp = '2026-01-15T08:15:00Z';
+
+    expect(normalizeReading({ timestamp, powerUsage: 1, powerFactor: 1.5 })).toBe('powerFactor must be a number from -1 to 1');
+    expect(normalizeReading({ timestamp, powerUsage: 1, frequency: 'x' })).toBe('frequency must be a number from 40 to 70');
+  });
+});
+
+describe('parseReadingsCsv', () => {
+  it('maps header aliases and joins separate date and time columns', () => {
+    const { rows, error } = parseReadingsCsv('Date,Time,kW,PF\n2026-01-15,08:15,10,0.9\n', 15);
+
+    expect(error).toBeNull();
+    expect(rows).toHaveLength(1);
+    expect(rows[0].raw).toMatchObject({ timestamp: '2026-01-15 08:15', powerUsage: '10', powerFactor: '0.9' });
+  });
+
+  it('converts interval kWh to average kW over the interval', () => {
+    const { rows } = parseReadingsCsv('Interval Start,kWh\n2026-01-15 08:00,5\n', 15);
+
+    expect(rows[0].raw.powerUsage).toBe(20);
+  });
+
+  it('reports files without a timestamp or demand column', () => {
+    expect(parseReadingsCsv('kW\n10\n', 15).error).toBe('No timestamp column found');
+    expect(parseReadingsCsv('Timestamp,Voltage\n2026-01-15 08:00,230\n', 15).error).toBe('No kW or kWh column found');
+  });
+});
+
+describe('readingIntervalSeconds', () => {
+  it('uses the period the poller actually polls at for Modbus readings', () => {
+    expect(readingIntervalSeconds({ interval_minutes: 15, poll_interval_seconds: 30 }, 'modbus')).toBe(30);
+    expect(readingIntervalSeconds({ interval_minutes: 15, poll_interval_seconds: 1 }, 'modbus')).toBe(5);
+  });
+
+  it('uses the meter interval for other readings', () => {
+    expect(readingIntervalSeconds({ interval_minutes: 15, poll_interval_seconds: 1 }, 'csv')).toBe(900);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from '@jest/globals';
+import { decodeRegister, parseReadResponse, validateRegisterMap } from '../utils/modbus';
+
+// A read response frame: MBAP header, function code, byte count and register values
+const frame = (transactionId: number, functionCode: number, registers: number[], byteCount = registers.length * 2) => {
+  const buffer = Buffer.alloc(9 + registers.length * 2);
+  buffer.writeUInt16BE(transactionId, 0);
+  buffer.writeUInt16BE(0, 2);
+  buffer.writeUInt16BE(3 + registers.length * 2, 4);
+  buffer.writeUInt8(1, 6);
+  buffer.writeUInt8(functionCode, 7);
+  buffer.writeUInt8(byteCount, 8);
+  registers.forEach((register, index) => buffer.writeUInt16BE(register, 9 + index * 2));
+  return buffer;
+};
+
+describe('decodeRegister', () => {
+  // 230.5 as a big-endian float32 is 0x4366 0x8000
+  const registers = [0xfffe, 0x4366, 0x8000, 0x0001, 0x86a0];
+
+  it('decodes 16-bit values at their offset from the block start', () => {
+    expect(decodeRegister(registers, 100, { field: 'current', address: 100, type: 'uint16' })).toBe(0xfffe);
+    expect(decodeRegister(registers, 100, { field: 'current', address: 100, type: 'int16' })).toBe(-2);
+  });
+
+  it('decodes 32-bit values in either word order', () => {
+    expect(decodeRegister(registers, 100, { field: 'voltage', address: 101, type: 'float32' })).toBeCloseTo(230.5);
+    expect(decodeRegister(registers, 100, { field: 'energyKwh', address: 103, type: 'uint32' })).toBe(100000);
+    expect(decodeRegister([0x86a0, 0x0001], 0, { field: 'energyKwh', address: 0, type: 'uint32', wordOrder: 'little' }))
+      .toBe(100000);
+  });
+
+  it('applies the scale factor', () => {
+    expect(decodeRegister([2305], 0, { field: 'voltage', address: 0, type: 'uint16', scale: 0.1 })).toBeCloseTo(230.5);
+  });
+});
+
+describe('parseReadResponse', () => {
+  const request = { transactionId: 7, functionCode: 3, quantity: 2 };
+
+  it('returns the registers of a matching response', () => {
+    expect(parseReadResponse(frame(7, 3, [1, 2]), request)).toEqual([1, 2]);
+  });
+
+  it('rejects a response to another request', () => {
+    expect(() => parseReadResponse(frame(8, 3, [1, 2]), request)).toThrow('Modbus response does not match the request');
+  });
+
+  it('reports the exception code of an exception response', () => {
+    expect(() => parseReadResponse(frame(7, 0x83, [0x0200]), request)).toThrow('Modbus exception code 2');
+  });
+
+  it('rejects a response with another function code', () => {
+    expect(() => parseReadResponse(frame(7, 4, [1, 2]), request)).toThrow('function code 4, expected 3');
+  });
+
+  it('rejects a response without exactly the requested registers', () => {
+    expect(() => parseReadResponse(frame(7, 3, [1]), request)).toThrow('holds 2 bytes, expected 4');
+    expect(() => parseReadResponse(frame(7, 3, [1, 2], 6), request)).toThrow('holds 6 bytes, expected 4');
+  });
+});
+
+describe('validateRegisterMap', () => {
+  it('accepts a map with a powerUsage register', () => {
+    expect(validateRegisterMap([{ field: 'powerUsage', address: 0, type: 'float32' }])).toBeNull();
+  });
+
+  it('rejects empty maps, maps without powerUsage and invalid registers', () => {
+    expect(validateRegisterMap([])).toBe('Register map must be a non-empty array');
+    expect(validateRegisterMap([{ field: 'voltage', address: 0, type: 'float32' }]))
+      .toBe('Register map must include a powerUsage register');
+    expect(validateRegisterMap([{ field: 'powerUsage', address: 70000, type: 'float32' }]))
+      .toBe('Register address for powerUsage must be an integer from 0 to 65535');
+    expect(validateRegisterMap([{ field: 'powerUsage', address: 0, type: 'float32', functionCode: 6 }]))
+      .toBe('Register function code for powerUsage must be 3 or 4');
+  });
+
+  it('rejects registers of one function code that cannot be read in a single request', () => {
+    const spread = [
+      { field: 'powerUsage', address: 0, type: 'float32' },
+      { field: 'energyKwh', address: 124, type: 'uint32' }
+    ];
+    expect(validateRegisterMap(spread))
+      .toBe('Registers read with function code 3 must lie within 125 consecutive addresses, got 126');
+    expect(validateRegisterMap([spread[0], { ...spread[1], address: 123 }])).toBeNull();
+    expect(validateRegisterMap([spread[0], { ...spread[1], functionCode: 4 }])).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../config/database', () => require('./helpers/database').databaseMock);
+
+import { UserRole } from '../types';
+import {
+  ALL_PERMISSIONS,
+  canManageAccount,
+  DEFAULT_ROLE_PERMISSIONS,
+  getRolePermissions,
+  hasPermission,
+  parsePermissions,
+  PERMISSIONS
+} from '../utils/permissions';
+import { mockQuery } from './helpers/database';
+
+const query = mockQuery();
+
+describe('permission registry', () => {
+  it('has unique keys and only grants registered permissions by default', () => {
+    expect(new Set(ALL_PERMISSIONS).size).toBe(PERMISSIONS.length);
+    Object.values(DEFAULT_ROLE_PERMISSIONS).forEach(permissions => {
+      permissions.forEach(permission => expect(ALL_PERMISSIONS).toContain(permission));
+    });
+  });
+});
+
+describe('parsePermissions', () => {
+  it('reads JSON or arrays, dropping unknown and repeated keys', () => {
+    expect(parsePermissions('["report.create","report.create","no.such"]')).toEqual(['report.create']);
+    expect(parsePermissions(['audit.edit'])).toEqual(['audit.edit']);
+    expect(parsePermissions('{}')).toEqual([]);
+  });
+});
+
+describe('getRolePermissions', () => {
+  it('always gives administrators every permission', () => {
+    expect(getRolePermissions({ name: 'admin', permissions: '[]' })).toEqual(ALL_PERMISSIONS);
+  });
+
+  it('uses the built-in defaults until a role is edited', () => {
+    expect(getRolePermissions({ name: 'manager', permissions: null })).toEqual(DEFAULT_ROLE_PERMISSIONS[UserRole.MANAGER]);
+    expect(getRolePermissions({ name: 'MANAGER', permissions: '["report.create"]' })).toEqual(['report.create']);
+    expect(getRolePermissions({ name: 'Custom', permissions: null })).toEqual([]);
+  });
+});
+
+describe('hasPermission', () => {
+  it('loads the permission list once per user object', async () => {
+    query.mockResolvedValue([[{ user_role: 'user', name: 'USER', permissions: null }]]);
+    const user = { id: 1 } as { id: number; permissions?: string[] };
+
+    expect(await hasPermission(user, 'report.create')).toBe(true);
+    expect(await hasPermission(user, 'users.manage')).toBe(false);
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  it('is false without a user', async () => {
+    expect(await hasPermission(undefined, 'report.create')).toBe(false);
+  });
+});
+
+describe('canManageAccount', () => {
+  const manager = DEFAULT_ROLE_PERMISSIONS[UserRole.MANAGER];
+
+  it('lets a user manager manage accounts with no more rights than their own', () => {
+    expect(canManageAccount(['users.manage', ...manager], { role: 'user', permissions: ['report.create'] })).toBe(true);
+  });
+
+  it('refuses administrator accounts and accounts with rights the manager lacks', () => {
+    expect(canManageAccount(['users.manage', ...manager], { role: 'admin', permissions: ALL_PERMISSIONS })).toBe(false);
+    expect(canManageAccount(['users.manage'], { role: 'manager', permissions: manager })).toBe(false);
+  });
+
+  it('lets role managers manage every account', () => {
+    expect(canManageAccount(['roles.manage'], { role: 'admin', permissions: ALL_PERMISSIONS })).toBe(true);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../config/database', () => require('./helpers/database').databaseMock);
+
+import { bucketStart, chooseResolution, estimatePoints, SERIES_TARGET_POINTS } from '../utils/powerRollups';
+
+describe('bucketStart', () => {
+  const date = new Date(2026, 0, 15, 8, 37, 42, 500);
+
+  it('starts buckets on local quarter hours, hours and days', () => {
+    expect(bucketStart(date, '15min')).toEqual(new Date(2026, 0, 15, 8, 30));
+    expect(bucketStart(date, 'hour')).toEqual(new Date(2026, 0, 15, 8, 0));
+    expect(bucketStart(date, 'day')).toEqual(new Date(2026, 0, 15));
+  });
+
+  it('leaves a date already on a bucket boundary unchanged', () => {
+    const boundary = new Date(2026, 0, 15, 8, 45);
+
+    expect(bucketStart(boundary, '15min')).toEqual(boundary);
+  });
+
+  it('does not modify the date passed in', () => {
+    bucketStart(date, 'day');
+
+    expect(date.getMinutes()).toBe(37);
+  });
+});
+
+describe('chooseResolution', () => {
+  const from = new Date(2026, 0, 1);
+  const after = (hours: number) => new Date(from.getTime() + hours * 60 * 60 * 1000);
+
+  it('returns raw readings while they stay under the target point count', () => {
+    expect(chooseResolution(from, after(24), 60)).toBe('raw');
+  });
+
+  it('picks the finest rollup under the target point count', () => {
+    // 30 days of one-minute readings is 43,200 points; 15-minute buckets give 2,880 and hours 720
+    expect(chooseResolution(from, after(30 * 24), 60)).toBe('hour');
+    expect(chooseResolution(from, after(7 * 24), 60)).toBe('15min');
+  });
+
+  it('falls back to days for very long ranges', () => {
+    expect(chooseResolution(from, after(24 * (SERIES_TARGET_POINTS + 1)), 60)).toBe('day');
+  });
+});
+
+describe('estimatePoints', () => {
+  it('counts readings for raw data and buckets for rollups', () => {
+    const from = new Date(2026, 0, 1);
+    const to = new Date(2026, 0, 2);
+
+    expect(estimatePoints(from, to, 'raw', 300)).toBe(288);
+    expect(estimatePoints(from, to, '15min', 300)).toBe(96);
+    expect(estimatePoints(from, to, 'hour', 300)).toBe(24);
+    expect(estimatePoints(from, to, 'day', 300)).toBe(1);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+
+jest.mock('../config/database', () => require('./helpers/database').databaseMock);
+jest.mock('../config/websocket', () => ({ emitToUser: jest.fn() }));
+jest.mock('../utils/reportRenderer', () => ({
+  UPLOAD_DIR: '/tmp/uploads',
+  RENDER_DIR: 'reports',
+  renderReportPdf: jest.fn()
+}));
+
+import { emitToUser } from '../config/websocket';
+import {
+  cancelRenderJob,
+  enqueueRenderJob,
+  startReportRenderWorker,
+  stopReportRenderWorker
+} from '../utils/reportRenderQueue';
+import { renderReportPdf } from '../utils/reportRenderer';
+import { mockQuery } from './helpers/database';
+import { makeRenderJob } from './helpers/fixtures';
+
+const query = mockQuery();
+const emit = emitToUser as unknown as jest.Mock;
+const render = renderReportPdf as unknown as jest.Mock<(...args: any[]) => Promise<number>>;
+
+// The worker runs jobs without awaiting them; let those promise chains finish
+const flushQueue = async () => {
+  for (let i = 0; i < 20; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+};
+
+const sqlCalls = (fragment: string) => query.mock.calls.filter(([sql]) => String(sql).includes(fragment));
+
+beforeEach(() => {
+  emit.mockReset();
+  render.mockReset();
+  // Anything not set up by a test finds no rows and changes nothing
+  query.mockResolvedValue([[]]);
+});
+
+afterEach(async () => {
+  stopReportRenderWorker();
+  await flushQueue();
+});
+
+describe('enqueueRenderJob', () => {
+  it('returns the pending job of a report instead of queuing it twice', async () => {
+    const pending = makeRenderJob({ status: 'running' });
+    query.mockResolvedValueOnce([[pending]]);
+
+    expect(await enqueueRenderJob(12, 7)).toEqual({ job: pending, created: false });
+    expect(sqlCalls('INSERT INTO report_render_jobs')).toHaveLength(0);
+  });
+
+  it('queues a new job and tells the requester about it', async () => {
+    const job = makeRenderJob();
+    query
+      .mockResolvedValueOnce([[]])
+      .mockResolvedValueOnce([{ insertId: 5 }])
+      .mockResolvedValueOnce([[job]]);
+
+    expect(await enqueueRenderJob(12, 7)).toEqual({ job, created: true });
+    expect(sqlCalls('INSERT INTO report_render_jobs')[0][1]).toEqual([12, 7, 'Waiting in queue']);
+    expect(emit).toHaveBeenCalledWith(7, 'reportRenderProgress', expect.objectContaining({ id: 5, has_file: false }));
+  });
+});
+
+describe('cancelRenderJob', () => {
+  it('only cancels jobs that are still queued', async () => {
+    query.mockResolvedValueOnce([{ affectedRows: 0 }]);
+
+    expect(await cancelRenderJob(5)).toBe(false);
+    expect(query.mock.calls[0][0]).toContain("WHERE id = ? AND status = 'queued'");
+    expect(emit).not.toHaveBeenCalled();
+  });
+
+  it('reports the cancelled job to the requester', async () => {
+    query
+      .mockResolvedValueOnce([{ affectedRows: 1 }])
+      .mockResolvedValueOnce([[makeRenderJob({ status: 'cancelled' })]]);
+
+    expect(await cancelRenderJob(5)).toBe(true);
+    expect(emit).toHaveBeenCalledWith(7, 'reportRenderProgress', expect.objectContaining({ status: 'cancelled' }));
+  });
+});
+
+describe('startReportRenderWorker', () => {
+  it('queues jobs left running by a previous process again', async () => {
+    query.mockResolvedValueOnce([{ affectedRows: 2 }]);
+
+    await startReportRenderWorker();
+
+    expect(query.mock.calls[0][0]).toContain("SET status = 'queued'");
+    expect(query.mock.calls[0][0]).toContain("WHERE status = 'running'");
+  });
+
+  it('skips a job another worker claimed first and renders the next one', async () => {
+    render.mockResolvedValueOnce(2048);
+    query
+      .mockResolvedValueOnce([{ affectedRows: 0 }])
+      .mockResolvedValueOnce([[{ id: 4 }]])
+      .mockResolvedValueOnce([{ affectedRows: 0 }])
+      .mockResolvedValueOnce([[{ id: 5 }]])
+      .mockResolvedValueOnce([{ affectedRows: 1 }])
+      .mockResolvedValueOnce([[makeRenderJob({ status: 'running' })]]);
+
+    await startReportRenderWorker();
+    await flushQueue();
+
+    const claims = sqlCalls("SET status = 'running'");
+    expect(claims.map(([, params]) => params)).toEqual([[4], [5]]);
+    expect(claims[0][0]).toContain("AND status = 'queued'");
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(render).toHaveBeenCalledWith(12, '/tmp/uploads/reports/report-12-5.pdf', expect.any(Function));
+    expect(sqlCalls("SET status = 'completed'")[0][1]).toEqual(['reports/report-12-5.pdf', 2048, 5]);
+  });
+});
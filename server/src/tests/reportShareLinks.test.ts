@@ -0,0 +1,90 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import * as bcrypt from 'bcrypt';
+
+jest.mock('../config/database', () => require('./helpers/database').databaseMock);
+
+import {
+  consumeShareLinkView,
+  getShareLinkStatus,
+  isShareLinkLocked,
+  toPublicShareLink,
+  verifyShareLinkPassword
+} from '../utils/reportShareLinks';
+import { mockQuery } from './helpers/database';
+import { makeShareLink } from './helpers/fixtures';
+
+const query = mockQuery();
+const HOUR = 60 * 60 * 1000;
+
+describe('getShareLinkStatus', () => {
+  it('is active until revoked, expired or out of views', () => {
+    expect(getShareLinkStatus(makeShareLink({ expires_at: new Date(Date.now() + HOUR), max_views: 5, view_count: 4 }))).toBe('active');
+    expect(getShareLinkStatus(makeShareLink({ revoked_at: new Date() }))).toBe('revoked');
+    expect(getShareLinkStatus(makeShareLink({ expires_at: new Date(Date.now() - HOUR) }))).toBe('expired');
+    expect(getShareLinkStatus(makeShareLink({ max_views: 5, view_count: 5 }))).toBe('exhausted');
+  });
+
+  it('reports revocation before expiry', () => {
+    expect(getShareLinkStatus(makeShareLink({ revoked_at: new Date(), expires_at: new Date(Date.now() - HOUR) }))).toBe('revoked');
+  });
+});
+
+describe('isShareLinkLocked', () => {
+  it('is locked only until locked_until', () => {
+    expect(isShareLinkLocked(makeShareLink({ locked_until: new Date(Date.now() + HOUR) }))).toBe(true);
+    expect(isShareLinkLocked(makeShareLink({ locked_until: new Date(Date.now() - HOUR) }))).toBe(false);
+    expect(isShareLinkLocked(makeShareLink())).toBe(false);
+  });
+});
+
+describe('toPublicShareLink', () => {
+  it('hides the hashes and adds the status', () => {
+    const link = toPublicShareLink(makeShareLink({ password_hash: 'hash' }));
+
+    expect(link).not.toHaveProperty('token_hash');
+    expect(link).not.toHaveProperty('password_hash');
+    expect(link).toMatchObject({ has_password: true, status: 'active' });
+  });
+});
+
+describe('verifyShareLinkPassword', () => {
+  const passwordHash = bcrypt.hashSync('secret', 4);
+
+  it('accepts the right password and clears earlier failures', async () => {
+    query.mockResolvedValueOnce([{ affectedRows: 1 }]);
+
+    const result = await verifyShareLinkPassword(makeShareLink({ password_hash: passwordHash, failed_attempts: 2 }), 'secret');
+
+    expect(result).toEqual({ valid: true, failedAttempts: 0 });
+    expect(query.mock.calls[0][0]).toContain('failed_attempts = 0');
+  });
+
+  it('counts a wrong password in the database without locking below the threshold', async () => {
+    query.mockResolvedValueOnce([{ insertId: 2 }]);
+
+    const result = await verifyShareLinkPassword(makeShareLink({ password_hash: passwordHash }), 'wrong');
+
+    expect(result).toEqual({ valid: false, failedAttempts: 2 });
+    expect(query.mock.calls[0][0]).toContain('LAST_INSERT_ID(failed_attempts + 1)');
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  it('locks the link once the count reaches the threshold, never shortening a longer lock', async () => {
+    query.mockResolvedValueOnce([{ insertId: 6 }]).mockResolvedValueOnce([{ affectedRows: 1 }]);
+
+    await verifyShareLinkPassword(makeShareLink({ password_hash: passwordHash }), 'wrong');
+
+    expect(query.mock.calls[1][0]).toContain('GREATEST(COALESCE(locked_until, NOW())');
+    expect(query.mock.calls[1][1]).toEqual([2, 3]);
+  });
+});
+
+describe('consumeShareLinkView', () => {
+  it('allows the view only when the guarded update counted it', async () => {
+    query.mockResolvedValueOnce([{ affectedRows: 1 }]).mockResolvedValueOnce([{ affectedRows: 0 }]);
+
+    expect(await consumeShareLinkView(makeShareLink())).toBe(true);
+    expect(await consumeShareLinkView(makeShareLink())).toBe(false);
+    expect(query.mock.calls[0][0]).toContain('view_count < max_views');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../config/database', () => require('./helpers/database').databaseMock);
+jest.mock('../utils/reportVersions', () => ({
+  ...jest.requireActual<typeof import('../utils/reportVersions')>('../utils/reportVersions'),
+  ensureBaselineVersion: jest.fn()
+}));
+
+import { ReportSignature } from '../types';
+import { checkSignature, createReportSignature, hashReportContent } from '../utils/reportSignatures';
+import { mockQuery } from './helpers/database';
+
+const query = mockQuery();
+
+const report = {
+  id: 1,
+  title: 'Energy Audit Report',
+  description: 'Main building',
+  type: 'energy_audit',
+  status: 'draft',
+  contents: [{ id: 11, report_id: 1, content_type: 'text', content: { text: 'Findings', level: 1 }, order_index: 0 }],
+  metadata: { id: 5, report_id: 1, client_name: 'ACME', updated_at: '2026-01-01T00:00:00Z' },
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-02T00:00:00Z'
+};
+
+// Stores the inserted signature so reading it back returns what was written
+const mockSignatureTable = () => {
+  let stored: Record<string, unknown> = {};
+  query.mockImplementation(async (sql: string, params: any[] = []) => {
+    if (sql.startsWith('SELECT MAX(version)')) return [[{ version: 2 }]];
+    if (sql.includes('INSERT INTO report_signatures')) {
+      const [report_id, report_version, content_hash, signer_id, signer_name, signer_role, signature_image,
+        comments, verification_code, signed_at] = params;
+      stored = { id: 9, report_id, report_version, content_hash, signer_id, signer_name, signer_role,
+        signature_image, comments, verification_code, signed_at, seal: null };
+      return [{ insertId: 9 }];
+    }
+    if (sql.startsWith('SELECT * FROM report_signatures')) return [[{ ...stored }]];
+    return [{ affectedRows: 1 }];
+  });
+};
+
+const sign = () =>
+  createReportSignature(report, { id: 2, username: 'jane', role: 'MANAGER' }, { comments: 'Approved' }) as
+    Promise<ReportSignature>;
+
+describe('hashReportContent', () => {
+  it('is a SHA-256 hash that ignores key order, row fields and status', () => {
+    const reordered = {
+      ...report,
+      status: 'published',
+      updated_at: '2026-02-01T00:00:00Z',
+      metadata: { client_name: 'ACME', report_id: 1, id: 6 },
+      contents: [{ order_index: 0, content: { level: 1, text: 'Findings' }, content_type: 'text', id: 12 }]
+    };
+
+    expect(hashReportContent(report)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashReportContent(reordered)).toBe(hashReportContent(report));
+  });
+
+  it('changes when the content changes', () => {
+    expect(hashReportContent({ ...report, title: 'Revised' })).not.toBe(hashReportContent(report));
+    expect(hashReportContent({ ...report, metadata: { client_name: 'Other' } })).not.toBe(hashReportContent(report));
+  });
+});
+
+describe('createReportSignature and checkSignature', () => {
+  it('seals the stored record and records the signed content and version', async () => {
+    mockSignatureTable();
+
+    const signature = await sign();
+
+    expect(signature.report_version).toBe(2);
+    expect(signature.content_hash).toBe(hashReportContent(report));
+    expect(signature.verification_code).toMatch(/^[0-9a-f]{32}$/);
+    expect(signature.signed_at.getMilliseconds()).toBe(0);
+    expect(checkSignature(signature, hashReportContent(report))).toEqual({ seal_valid: true, content_matches: true });
+  });
+
+  it('detects a record edited after signing', async () => {
+    mockSignatureTable();
+    const signature = await sign();
+
+    expect(checkSignature({ ...signature, comments: 'Edited' } as ReportSignature, signature.content_hash).seal_valid).toBe(false);
+    expect(checkSignature({ ...signature, signer_name: 'mallory' } as ReportSignature, signature.content_hash).seal_valid)
+      .toBe(false);
+    expect(checkSignature({ ...signature, seal: null } as ReportSignature, signature.content_hash).seal_valid).toBe(false);
+  });
+
+  it('reports a report changed since it was signed', async () => {
+    mockSignatureTable();
+    const signature = await sign();
+
+    expect(checkSignature(signature, hashReportContent({ ...report, title: 'Revised' }))).toEqual({
+      seal_valid: true,
+      content_matches: false
+    });
+    expect(checkSignature(signature, null).content_matches).toBe(false);
+  });
+});
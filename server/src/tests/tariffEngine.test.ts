@@ -0,0 +1,124 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../config/database', () => require('./helpers/database').databaseMock);
+
+import { calculateBill, periodFor, summarizeIntervals, TariffSchedule } from '../utils/tariffEngine';
+import { TariffCharge, TimeOfUsePeriod } from '../types';
+
+const periods: TimeOfUsePeriod[] = [
+  { key: 'peak', label: 'Peak', weekdays: [1, 2, 3, 4, 5], startHour: 8, endHour: 18 },
+  { key: 'offpeak', label: 'Off-peak', weekdays: [0, 1, 2, 3, 4, 5, 6], startHour: 0, endHour: 24 }
+];
+
+const charge = (overrides: Partial<TariffCharge>): TariffCharge => ({
+  key: 'generation',
+  label: 'Generation',
+  component: 'generation',
+  unit: 'kwh',
+  rate: 5,
+  vatable: true,
+  discountable: true,
+  ...overrides
+});
+
+const schedule = (overrides: Partial<TariffSchedule> = {}): TariffSchedule => ({
+  effectiveFrom: '2026-01-01',
+  charges: [
+    charge({}),
+    charge({ key: 'demand', label: 'Distribution demand', component: 'distribution', unit: 'kw', rate: 300, discountable: false }),
+    charge({ key: 'metering', label: 'Metering', component: 'metering', unit: 'month', rate: 5, vatable: false, discountable: false })
+  ],
+  timeOfUsePeriods: [],
+  vatRate: 0.12,
+  lifeline: { brackets: [{ maxKwh: 20, discountPercent: 100 }, { maxKwh: 100, discountPercent: 50 }] },
+  seniorCitizen: { maxKwh: 100, discountPercent: 5 },
+  notes: null,
+  ...overrides
+});
+
+describe('calculateBill', () => {
+  it('itemizes energy, demand and fixed charges with VAT on vatable ones', () => {
+    const bill = calculateBill(schedule(), { kwh: 100, kw: 2 });
+
+    expect(bill.lines.map(line => [line.key, line.quantity, line.amount, line.vat])).toEqual([
+      ['generation', 100, 500, 60],
+      ['demand', 2, 600, 72],
+      ['metering', 1, 5, 0]
+    ]);
+    expect(bill.subtotal).toBe(1105);
+    expect(bill.vat).toBe(132);
+    expect(bill.total).toBe(1237);
+    expect(bill.averageRate).toBe(12.37);
+    // One more kWh costs the generation rate with VAT
+    expect(bill.energyRate).toBe(5.6);
+  });
+
+  it('applies the lifeline bracket and then the senior citizen discount before VAT', () => {
+    const bill = calculateBill(schedule(), { kwh: 100, kw: 2 }, { lifeline: true, seniorCitizen: true });
+
+    expect(bill.discounts).toEqual({ lifeline: 250, seniorCitizen: 12.5, total: 262.5 });
+    expect(bill.lines[0].vat).toBe(28.5);
+    expect(bill.total).toBe(1105 - 262.5 + 28.5 + 72);
+  });
+
+  it('gives no discount to customers above the brackets', () => {
+    const bill = calculateBill(schedule(), { kwh: 150, kw: 2 }, { lifeline: true, seniorCitizen: true });
+
+    expect(bill.discounts.total).toBe(0);
+  });
+
+  it('prices time-of-use charges from the per-period split', () => {
+    const touSchedule = schedule({
+      charges: [charge({ key: 'peak', period: 'peak', rate: 10 }), charge({ key: 'offpeak', period: 'offpeak', rate: 4 })],
+      timeOfUsePeriods: periods
+    });
+
+    const bill = calculateBill(touSchedule, { kwh: 100, kwhByPeriod: { peak: 30, offpeak: 70 } });
+
+    expect(bill.lines.map(line => line.amount)).toEqual([300, 280]);
+    expect(bill.assumptions).toEqual([]);
+  });
+
+  it('splits kWh by period hours when usage is not split and says so', () => {
+    const touSchedule = schedule({
+      charges: [charge({ key: 'peak', period: 'peak', rate: 10 }), charge({ key: 'offpeak', period: 'offpeak', rate: 4 })],
+      timeOfUsePeriods: periods
+    });
+
+    // 50 of the 168 hours in a week are peak
+    const bill = calculateBill(touSchedule, { kwh: 168 });
+
+    expect(bill.usage.kwhByPeriod).toEqual({ peak: 50, offpeak: 118 });
+    expect(bill.assumptions).toContain('kWh was split across time-of-use periods in proportion to their hours');
+  });
+
+  it('has no average rate without usage', () => {
+    expect(calculateBill(schedule(), { kwh: 0 }).averageRate).toBeNull();
+  });
+});
+
+describe('periodFor', () => {
+  it('returns the first period covering the local weekday and time', () => {
+    expect(periodFor(new Date(2026, 0, 12, 9, 30), periods)).toBe('peak');
+    expect(periodFor(new Date(2026, 0, 12, 18, 0), periods)).toBe('offpeak');
+    expect(periodFor(new Date(2026, 0, 11, 10, 0), periods)).toBe('offpeak');
+    expect(periodFor(new Date(2026, 0, 11, 10, 0), [])).toBeNull();
+  });
+});
+
+describe('summarizeIntervals', () => {
+  it('totals kWh and keeps the highest demand overall and per period', () => {
+    const usage = summarizeIntervals([
+      { start: new Date(2026, 0, 12, 9, 0), kwh: 5, demandKw: 20 },
+      { start: new Date(2026, 0, 12, 9, 15), kwh: 6, demandKw: 24 },
+      { start: new Date(2026, 0, 12, 22, 0), kwh: 2, demandKw: null }
+    ], periods);
+
+    expect(usage).toEqual({
+      kwh: 13,
+      kw: 24,
+      kwhByPeriod: { peak: 11, offpeak: 2 },
+      kwByPeriod: { peak: 24, offpeak: 0 }
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../config/database', () => require('./helpers/database').databaseMock);
+
+import { UserRole } from '../types';
+import {
+  acceptTotpCode,
+  base32Decode,
+  base32Encode,
+  generateRecoveryCodes,
+  generateTotp,
+  getTotpStep,
+  isTwoFactorRequiredForRole,
+  normalizeRecoveryCode,
+  verifyTotp
+} from '../utils/twoFactor';
+import { mockQuery } from './helpers/database';
+
+const query = mockQuery();
+
+// The RFC 6238 SHA-1 test key, "12345678901234567890"
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const at = (seconds: number) => seconds * 1000;
+
+describe('base32', () => {
+  it('round-trips bytes and matches the RFC 4648 encoding', () => {
+    expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(SECRET);
+    expect(base32Decode(SECRET).toString()).toBe('12345678901234567890');
+    expect(base32Decode(SECRET.toLowerCase()).toString()).toBe('12345678901234567890');
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character: 1');
+  });
+});
+
+describe('generateTotp', () => {
+  it('matches the RFC 6238 test vectors truncated to six digits', () => {
+    expect(generateTotp(SECRET, getTotpStep(at(59)))).toBe('287082');
+    expect(generateTotp(SECRET, getTotpStep(at(1111111109)))).toBe('081804');
+    expect(generateTotp(SECRET, getTotpStep(at(1234567890)))).toBe('005924');
+  });
+});
+
+describe('verifyTotp', () => {
+  const now = at(1234567890);
+  const step = getTotpStep(now);
+
+  it('returns the step of a current code, ignoring spaces', () => {
+    expect(verifyTotp(SECRET, '005 924', null, now)).toBe(step);
+  });
+
+  it('accepts codes one step either side for clock drift but not further', () => {
+    expect(verifyTotp(SECRET, generateTotp(SECRET, step - 1), null, now)).toBe(step - 1);
+    expect(verifyTotp(SECRET, generateTotp(SECRET, step + 1), null, now)).toBe(step + 1);
+    expect(verifyTotp(SECRET, generateTotp(SECRET, step - 2), null, now)).toBeNull();
+  });
+
+  it('refuses the last used step and earlier ones so a code cannot be replayed', () => {
+    expect(verifyTotp(SECRET, '005924', step, now)).toBeNull();
+    expect(verifyTotp(SECRET, generateTotp(SECRET, step - 1), step - 1, now)).toBeNull();
+    expect(verifyTotp(SECRET, '005924', step - 1, now)).toBe(step);
+  });
+
+  it('refuses malformed codes', () => {
+    expect(verifyTotp(SECRET, '05924', null, now)).toBeNull();
+    expect(verifyTotp(SECRET, 'abcdef', null, now)).toBeNull();
+  });
+});
+
+describe('acceptTotpCode', () => {
+  const user = { id: 1, totp_secret: SECRET, totp_last_used_step: null };
+
+  it('records the step of an accepted code only if no later code was used first', async () => {
+    query.mockResolvedValueOnce([{ affectedRows: 1 }]);
+    const step = getTotpStep();
+
+    expect(await acceptTotpCode(user, generateTotp(SECRET, step))).toBe(true);
+    expect(query.mock.calls[0][0]).toContain('totp_last_used_step < ?');
+    expect(query.mock.calls[0][1]).toEqual([step, 1, step]);
+  });
+
+  it('refuses a code a concurrent request has already used', async () => {
+    query.mockResolvedValueOnce([{ affectedRows: 0 }]);
+
+    expect(await acceptTotpCode(user, generateTotp(SECRET))).toBe(false);
+  });
+
+  it('refuses users without a secret and wrong codes without updating', async () => {
+    expect(await acceptTotpCode({ id: 1, totp_secret: null }, '123456')).toBe(false);
+    expect(await acceptTotpCode(user, 'abcdef')).toBe(false);
+    expect(query).not.toHaveBeenCalled();
+  });
+});
+
+describe('recovery codes', () => {
+  it('generates distinct codes formatted xxxxx-xxxxx', () => {
+    const codes = generateRecoveryCodes();
+
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach(code => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+  });
+
+  it('compares codes without case or separators', () => {
+    expect(normalizeRecoveryCode(' AB12C-34DEF ')).toBe('ab12c34def');
+  });
+});
+
+describe('isTwoFactorRequiredForRole', () => {
+  it('applies the policy to administrators and managers only', () => {
+    const policy = { requireForAdmins: true, requireForManagers: false };
+
+    expect(isTwoFactorRequiredForRole(policy, UserRole.ADMIN)).toBe(true);
+    expect(isTwoFactorRequiredForRole(policy, UserRole.MANAGER)).toBe(false);
+    expect(isTwoFactorRequiredForRole({ requireForAdmins: true, requireForManagers: true }, UserRole.USER)).toBe(false);
+  });
+});
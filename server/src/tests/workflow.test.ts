@@ -0,0 +1,117 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../config/database', () => require('./helpers/database').databaseMock);
+
+import { getRolePermissions } from '../utils/permissions';
+import {
+  canTrigger,
+  getAvailableTransitions,
+  validateTransition,
+  validateWorkflowDefinition,
+  WorkflowDefinition,
+  WorkflowTransition
+} from '../utils/workflow';
+
+const state = (key: string, isInitial = false) => ({
+  key,
+  label: key,
+  description: null,
+  sortOrder: 0,
+  isInitial,
+  isFinal: false
+});
+
+const transition = (from: string, to: string, overrides: Partial<WorkflowTransition> = {}): WorkflowTransition => ({
+  from,
+  to,
+  label: `Move to ${to}`,
+  permission: null,
+  requiresComment: false,
+  ...overrides
+});
+
+const definition: WorkflowDefinition = {
+  entityType: 'audit',
+  states: [state('analysis', true), state('review'), state('approved')],
+  transitions: [
+    transition('analysis', 'review'),
+    transition('review', 'approved', { label: 'Approve', permission: 'audit.approve' }),
+    transition('review', 'analysis', { label: 'Request Changes', permission: 'audit.approve', requiresComment: true })
+  ]
+};
+
+// A custom role that may approve audits but has nothing else
+const reviewerPermissions = getRolePermissions({ name: 'Reviewer', permissions: ['audit.approve'] });
+
+describe('canTrigger', () => {
+  it('lets anyone trigger a transition without a permission', () => {
+    expect(canTrigger(definition.transitions[0], [])).toBe(true);
+  });
+
+  it('requires the transition permission, whichever role grants it', () => {
+    expect(canTrigger(definition.transitions[1], [])).toBe(false);
+    expect(canTrigger(definition.transitions[1], reviewerPermissions)).toBe(true);
+    expect(canTrigger(definition.transitions[1], getRolePermissions({ name: 'admin', permissions: [] }))).toBe(true);
+  });
+
+  it('limits the available transitions to the ones the user may trigger', () => {
+    expect(getAvailableTransitions(definition, 'review', []).map(t => t.to)).toEqual([]);
+    expect(getAvailableTransitions(definition, 'review', reviewerPermissions).map(t => t.to))
+      .toEqual(['approved', 'analysis']);
+  });
+});
+
+describe('validateTransition', () => {
+  it('returns the configured transition', () => {
+    expect(validateTransition(definition, 'review', 'approved', reviewerPermissions)).toBe(definition.transitions[1]);
+  });
+
+  it('rejects unknown states and unconfigured moves', () => {
+    expect(() => validateTransition(definition, 'analysis', 'closed', reviewerPermissions))
+      .toThrow('Unknown audit state: closed');
+    expect(() => validateTransition(definition, 'analysis', 'approved', reviewerPermissions))
+      .toThrow('Cannot move audit from analysis to approved');
+  });
+
+  it('rejects users without the transition permission with a 403', () => {
+    expect(() => validateTransition(definition, 'review', 'approved', ['audit.edit']))
+      .toThrow(expect.objectContaining({ statusCode: 403 }));
+  });
+
+  it('requires a comment where the transition asks for one', () => {
+    expect(() => validateTransition(definition, 'review', 'analysis', reviewerPermissions, '  '))
+      .toThrow('A comment is required to request changes');
+    expect(validateTransition(definition, 'review', 'analysis', reviewerPermissions, 'Missing baseline').to)
+      .toBe('analysis');
+  });
+});
+
+describe('validateWorkflowDefinition', () => {
+  const states = [state('open', true), state('closed')];
+
+  it('accepts states with one initial state and transitions between them', () => {
+    const transitions = [transition('open', 'closed', { permission: 'findings.manage' })];
+    expect(validateWorkflowDefinition(states, transitions)).toEqual({ states, transitions });
+  });
+
+  it('rejects missing, duplicate or ambiguous states', () => {
+    expect(() => validateWorkflowDefinition([], [])).toThrow('At least one state is required');
+    expect(() => validateWorkflowDefinition([...states, state('open')], [])).toThrow('Duplicate state: open');
+    expect(() => validateWorkflowDefinition([state('open'), state('closed')], []))
+      .toThrow('Exactly one state must be marked as initial');
+  });
+
+  it('rejects transitions to unknown or the same states, and repeated ones', () => {
+    expect(() => validateWorkflowDefinition(states, [transition('open', 'done')]))
+      .toThrow('references an unknown state');
+    expect(() => validateWorkflowDefinition(states, [transition('open', 'open')]))
+      .toThrow('must lead to a different state');
+    expect(() => validateWorkflowDefinition(states, [transition('open', 'closed'), transition('open', 'closed')]))
+      .toThrow('Duplicate transition: open → closed');
+  });
+
+  it('rejects permissions that are not in the registry', () => {
+    expect(() => validateWorkflowDefinition(states, [{ ...transition('open', 'closed'), permission: 'MANAGER' }]))
+      .toThrow('Transition open→closed has an unknown permission: MANAGER');
+  });
+});
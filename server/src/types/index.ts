@@ -14,6 +14,7 @@ export interface User extends RowDataPacket {
   email: string;
   password: string;
   role: UserRole;
+  role_id?: number | null;
   permissions: string[];
   first_name?: string;
   last_name?: string;
@@ -21,6 +22,12 @@ export interface User extends RowDataPacket {
   position?: string;
   phone_number?: string;
   is_active: boolean;
+  failed_login_attempts?: number;
+  locked_until?: Date | null;
+  totp_secret?: string | null;
+  totp_enabled?: boolean;
+  totp_enabled_at?: Date | null;
+  totp_last_used_step?: number | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -67,7 +74,8 @@ export interface Attachment extends RowDataPacket {
 export interface Notification extends RowDataPacket {
   id: number;
   user_id: number;
-  finding_id: number;
+  finding_id: number | null;
+  audit_id: number | null;
   type: string;
   message: string;
   is_read: boolean;
@@ -76,6 +84,29 @@ export interface Notification extends RowDataPacket {
   finding_title?: string;
   finding_severity?: string;
   finding_status?: string;
+  audit_title?: string;
+}
+
+export interface Calculation extends RowDataPacket {
+  id: string;
+  user_id: number;
+  audit_id: number | null;
+  type: string;
+  name: string;
+  data: any;
+  version: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CalculationVersion extends RowDataPacket {
+  id: number;
+  calculation_id: string;
+  version: number;
+  name: string;
+  data: any;
+  created_by: number | null;
+  created_at: Date;
 }
 
 export interface EnergyAudit {
@@ -86,11 +117,411 @@ export interface EnergyAudit {
   powerUsage?: number;
   lightingEfficiency?: number;
   hvacEfficiency?: number;
-  status: 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'REJECTED';
+  status: EnergyAuditStatus;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Audit statuses are state keys from the configurable audit workflow
+export type EnergyAuditStatus = string;
+export type AuditTaskStatus = 'not_started' | 'in_progress' | 'completed' | 'blocked';
+export type AuditTaskPriority = 'low' | 'medium' | 'high';
+export type AuditTaskApprovalStatus = 'not_submitted' | 'pending' | 'approved' | 'rejected';
+
+export interface EnergyAuditRecord extends RowDataPacket {
+  id: number;
+  user_id: number | null;
+  title: string;
+  description: string | null;
+  location: string | null;
+  status: EnergyAuditStatus;
+  current_phase: number;
+  start_date: Date | null;
+  end_date: Date | null;
+  power_usage: number | null;
+  lighting_efficiency: number | null;
+  hvac_efficiency: number | null;
+  archived_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+  created_by_username?: string;
+  task_count?: number;
+  completed_task_count?: number;
+}
+
+export interface AuditTask extends RowDataPacket {
+  id: number;
+  audit_id: number;
+  title: string;
+  description: string | null;
+  assignee_id: number | null;
+  status: AuditTaskStatus;
+  priority: AuditTaskPriority;
+  due_date: Date | null;
+  completed_date: Date | null;
+  approval_status: AuditTaskApprovalStatus;
+  approved_by: number | null;
+  approved_at: Date | null;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+  audit_title?: string;
+  assignee_username?: string;
+  assignee_first_name?: string;
+  assignee_last_name?: string;
+  approver_username?: string;
+}
+
+export interface AuditTaskComment extends RowDataPacket {
+  id: number;
+  task_id: number;
+  user_id: number;
+  content: string;
+  created_at: Date;
+  updated_at: Date;
+  username?: string;
+  first_name?: string;
+  last_name?: string;
+}
+
+export type AuditTeamRole = 'lead_auditor' | 'auditor' | 'client_viewer';
+export type AuditTeamInvitationStatus = 'pending' | 'accepted' | 'declined' | 'cancelled';
+
+export interface AuditTeamMember extends RowDataPacket {
+  id: number;
+  audit_id: number;
+  user_id: number;
+  team_role: AuditTeamRole;
+  added_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+  username?: string;
+  email?: string;
+  first_name?: string;
+  last_name?: string;
+}
+
+export interface AuditTeamInvitation extends RowDataPacket {
+  id: number;
+  audit_id: number;
+  email: string;
+  // Set when the email belongs to an existing user, or once someone with it accepts
+  user_id: number | null;
+  team_role: AuditTeamRole;
+  status: AuditTeamInvitationStatus;
+  invited_by: number | null;
+  expires_at: Date;
+  responded_at: Date | null;
+  created_at: Date;
+  audit_title?: string;
+  invited_by_username?: string;
+}
+
+export type ReportRenderStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ReportRenderJob extends RowDataPacket {
+  id: number;
+  report_id: number;
+  requested_by: number | null;
+  status: ReportRenderStatus;
+  // 0-100, as last reported by the worker
+  progress: number;
+  message: string | null;
+  error: string | null;
+  // Relative to the uploads directory
+  file_path: string | null;
+  file_size: number | null;
+  created_at: Date;
+  started_at: Date | null;
+  completed_at: Date | null;
+}
+
+/**
+ * A report as it was saved: what the client needs to show or restore that version
+ */
+export interface ReportSnapshot {
+  title: string;
+  description: string | null;
+  type: string;
+  status: string;
+  contents: any[];
+  metadata: Record<string, any>;
+}
+
+export interface ReportVersion extends RowDataPacket {
+  id: number;
+  report_id: number;
+  version: number;
+  title: string;
+  status: 'draft' | 'published' | 'archived';
+  snapshot: ReportSnapshot;
+  change_note: string | null;
+  // Version whose snapshot this one was restored from
+  restored_from: number | null;
+  created_by: number | null;
+  created_by_name?: string | null;
+  created_at: Date;
+}
+
+export type ReportShareLinkStatus = 'active' | 'expired' | 'exhausted' | 'revoked';
+
+export interface ReportShareLink extends RowDataPacket {
+  id: number;
+  report_id: number;
+  // SHA-256 of the token in the link; the token itself is only shown once
+  token_hash: string;
+  label: string | null;
+  password_hash: string | null;
+  expires_at: Date | null;
+  max_views: number | null;
+  view_count: number;
+  // Wrong passwords lock the link the same way failed logins lock an account
+  failed_attempts: number;
+  locked_until: Date | null;
+  last_viewed_at: Date | null;
+  created_by: number | null;
+  created_by_name?: string | null;
+  created_at: Date;
+  revoked_at: Date | null;
+  revoked_by: number | null;
+}
+
+export interface ReportSignature extends RowDataPacket {
+  id: number;
+  report_id: number;
+  // Report version that was signed, for comparing with later edits
+  report_version: number | null;
+  // SHA-256 of the report's canonical content when it was signed
+  content_hash: string;
+  signer_id: number | null;
+  signer_name: string;
+  signer_role: string;
+  signature_image: string | null;
+  comments: string | null;
+  // Random code printed on exported PDFs to look the signature up
+  verification_code: string;
+  // HMAC over the record so edits made directly in the database are detected
+  seal: string | null;
+  signed_at: Date;
+}
+
+export type WorkflowEntityType = 'audit' | 'finding';
+
+export interface WorkflowStateRecord extends RowDataPacket {
+  id: number;
+  entity_type: WorkflowEntityType;
+  state_key: string;
+  label: string;
+  description: string | null;
+  sort_order: number;
+  is_initial: boolean;
+  is_final: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface WorkflowTransitionRecord extends RowDataPacket {
+  id: number;
+  entity_type: WorkflowEntityType;
+  from_state: string;
+  to_state: string;
+  label: string;
+  permission: string | null;
+  requires_comment: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface Building extends RowDataPacket {
+  id: number;
+  name: string;
+  address: string | null;
+  building_type: string | null;
+  floor_area: number | null;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface Panel extends RowDataPacket {
+  id: number;
+  building_id: number;
+  parent_panel_id: number | null;
+  name: string;
+  location: string | null;
+  voltage_rating: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type MeterProtocol = 'manual' | 'modbus_tcp';
+export type MeterRegisterField = 'powerUsage' | 'energyKwh' | 'voltage' | 'current' | 'powerFactor' | 'frequency';
+export type MeterRegisterType = 'uint16' | 'int16' | 'uint32' | 'int32' | 'float32';
+
+export interface MeterRegister {
+  field: MeterRegisterField;
+  address: number;
+  type: MeterRegisterType;
+  // Multiplier applied after decoding, e.g. 0.1 for a register in tenths of a volt
+  scale?: number;
+  functionCode?: 3 | 4;
+  wordOrder?: 'big' | 'little';
+}
+
+export interface Meter extends RowDataPacket {
+  id: number;
+  building_id: number;
+  panel_id: number | null;
+  name: string;
+  serial_number: string | null;
+  interval_minutes: number;
+  protocol: MeterProtocol;
+  modbus_host: string | null;
+  modbus_port: number | null;
+  modbus_unit_id: number | null;
+  modbus_register_map: string | MeterRegister[] | null;
+  poll_interval_seconds: number;
+  is_active: boolean;
+  last_reading_at: Date | null;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+  building_name?: string;
+  panel_name?: string;
+}
+
+export interface PowerReading extends RowDataPacket {
+  id: number;
+  meter_id: number | null;
+  source: string;
+  timestamp: Date;
+  power_usage: number;
+  interval_seconds: number | null;
+  energy_kwh: number | null;
+  voltage: number | null;
+  current: number | null;
+  power_factor: number | null;
+  frequency: number | null;
+  temperature: number | null;
+  humidity: number | null;
+  created_at: Date;
+}
+
+// Usage summary streamed to realtime clients; matches EnergyMetrics in the client's realTimeService
+export interface EnergyMetrics {
+  dailyUsage: number;
+  weeklyUsage: number;
+  monthlyUsage: number;
+  peakDemand: number;
+  averagePowerFactor: number;
+  totalCost: number;
+}
+
+export type TariffChargeUnit = 'kwh' | 'kw' | 'month';
+export type TariffComponent =
+  | 'generation'
+  | 'transmission'
+  | 'system_loss'
+  | 'distribution'
+  | 'supply'
+  | 'metering'
+  | 'subsidy'
+  | 'universal'
+  | 'other';
+
+export interface TariffCharge {
+  key: string;
+  label: string;
+  component: TariffComponent;
+  unit: TariffChargeUnit;
+  rate: number;
+  // Time-of-use period the charge is limited to; applies to all kWh or kW when omitted
+  period?: string;
+  vatable: boolean;
+  // Whether lifeline and senior citizen discounts reduce this charge
+  discountable: boolean;
+}
+
+export interface TimeOfUsePeriod {
+  key: string;
+  label: string;
+  // 0 = Sunday
+  weekdays: number[];
+  startHour: number;
+  endHour: number;
+}
+
+export interface DiscountBracket {
+  maxKwh: number;
+  discountPercent: number;
+}
+
+export interface Tariff extends RowDataPacket {
+  id: number;
+  code: string;
+  name: string;
+  utility: string | null;
+  customer_class: string;
+  description: string | null;
+  is_default: boolean;
+  is_active: boolean;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TariffVersion extends RowDataPacket {
+  id: number;
+  tariff_id: number;
+  effective_from: Date | string;
+  charges: string | TariffCharge[];
+  time_of_use_periods: string | TimeOfUsePeriod[] | null;
+  vat_rate: number;
+  lifeline: string | { brackets: DiscountBracket[] } | null;
+  senior_citizen: string | DiscountBracket | null;
+  notes: string | null;
+  created_by: number | null;
+  created_at: Date;
+}
+
+export type UtilityBillSource = 'manual' | 'csv';
+
+export interface UtilityBill extends RowDataPacket {
+  id: number;
+  building_id: number;
+  meter_id: number | null;
+  account_number: string;
+  period_start: Date | string;
+  period_end: Date | string;
+  kwh: number;
+  kw_demand: number | null;
+  power_factor: number | null;
+  amount: number;
+  notes: string | null;
+  source: UtilityBillSource;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+  meter_name?: string | null;
+}
+
+export interface UserSession extends RowDataPacket {
+  id: number;
+  user_id: number;
+  // Whether the sign-in passed two-factor authentication, or enrolled in it since
+  two_factor_verified: boolean;
+  refresh_token_hash: string;
+  previous_token_hash: string | null;
+  rotated_at: Date | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+  revoked_at: Date | null;
+  revoked_reason: string | null;
+}
+
 export interface Signature {
   id: number;
   auditId: number;
@@ -105,6 +536,8 @@ export interface AuditLog {
   userId: number;
   action: string;
   details: any;
+  entityType?: string | null;
+  entityId?: string | null;
   createdAt: Date;
 }
 
@@ -131,6 +564,23 @@ export interface PasswordPolicy {
   requireLowercase: boolean;
 }
 
+export interface Role extends RowDataPacket {
+  id: number;
+  name: string;
+  description: string | null;
+  // Built-in roles cannot be renamed or deleted
+  is_system: boolean;
+  // Registry keys from utils/permissions.ts; NULL means the built-in defaults for the role name
+  permissions: string[] | string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TwoFactorPolicy {
+  requireForAdmins: boolean;
+  requireForManagers: boolean;
+}
+
 export interface SystemSettings {
   siteName: string;
   maxUsers: number;
@@ -147,6 +597,7 @@ export interface SystemSettings {
   defaultRole: string;
   passwordPolicy: PasswordPolicy;
   maxLoginAttempts: number;
+  twoFactorPolicy: TwoFactorPolicy;
 }
 
 // Add Express Request type declaration
@@ -157,6 +608,10 @@ declare global {
         id: number;
         username: string;
         role: UserRole;
+        sessionId?: number;
+        twoFactorVerified?: boolean;
+        // Loaded on first use by requirePermission() or hasPermission()
+        permissions?: string[];
       };
     }
   }
@@ -0,0 +1,123 @@
+import { PoolConnection } from 'mysql2/promise';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+import { pool } from '../config/database';
+import { AuditTeamRole } from '../types';
+import { hasPermission } from './permissions';
+
+type Queryable = Pick<PoolConnection, 'query'>;
+type ScopedUser = { id: number; permissions?: string[] };
+
+export const AUDIT_TEAM_ROLES: AuditTeamRole[] = ['lead_auditor', 'auditor', 'client_viewer'];
+
+// Roles that work on the audit; client viewers only see its published reports
+const WORKING_ROLES: AuditTeamRole[] = ['lead_auditor', 'auditor'];
+
+// Audit ids whose data a user works on, for use in a SQL IN (...) condition
+const WORKING_AUDITS = `SELECT audit_id FROM audit_team_members
+  WHERE user_id = ? AND team_role IN ('lead_auditor', 'auditor')`;
+
+export const isAuditTeamRole = (value: unknown): value is AuditTeamRole =>
+  typeof value === 'string' && (AUDIT_TEAM_ROLES as string[]).includes(value);
+
+export const getTeamRole = async (userId: number, auditId: number | string): Promise<AuditTeamRole | null> => {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    'SELECT team_role FROM audit_team_members WHERE audit_id = ? AND user_id = ?',
+    [auditId, userId]
+  );
+  return rows.length > 0 ? rows[0].team_role : null;
+};
+
+/**
+ * Whether a user may see an audit and its tasks, findings, comments, attachments and calculations:
+ * users with audit.view_all see every audit, others only audits they are a lead auditor or auditor on
+ */
+export const canViewAuditData = async (user: ScopedUser, auditId: number | string) => {
+  if (await hasPermission(user, 'audit.view_all')) {
+    return true;
+  }
+  const role = await getTeamRole(user.id, auditId);
+  return role !== null && WORKING_ROLES.includes(role);
+};
+
+/**
+ * Whether a user may change an audit's reports and calculations: its lead auditors and auditors,
+ * and users with audit.edit. Seeing every audit does not allow editing its data.
+ */
+export const canEditAuditData = async (user: ScopedUser, auditId: number | string) => {
+  if (await hasPermission(user, 'audit.edit')) {
+    return true;
+  }
+  const role = await getTeamRole(user.id, auditId);
+  return role !== null && WORKING_ROLES.includes(role);
+};
+
+/**
+ * SQL condition limiting an audit id column to the audits a user works on, or null when the user
+ * may see every audit
+ */
+export const getAuditScope = async (user: ScopedUser, column: string) => {
+  if (await hasPermission(user, 'audit.view_all')) {
+    return null;
+  }
+  return { clause: `${column} IN (${WORKING_AUDITS})`, params: [user.id] };
+};
+
+/**
+ * Findings linked to an audit follow its team; ones that are not stay visible to their creator
+ * and assignee only
+ */
+export const canViewFinding = async (user: ScopedUser, finding: RowDataPacket) => {
+  if (finding.audit_id) {
+    return canViewAuditData(user, finding.audit_id);
+  }
+  return finding.created_by === user.id || finding.assigned_to === user.id ||
+    hasPermission(user, 'audit.view_all');
+};
+
+/**
+ * SQL condition limiting findings (aliased as f) to the ones a user can see
+ */
+export const getFindingScope = async (user: ScopedUser) => {
+  const scope = await getAuditScope(user, 'f.audit_id');
+  if (!scope) {
+    return null;
+  }
+  return {
+    clause: `(${scope.clause} OR (f.audit_id IS NULL AND (f.created_by = ? OR f.assigned_to = ?)))`,
+    params: [...scope.params, user.id, user.id]
+  };
+};
+
+/**
+ * Lead auditors manage their own audit's team; users with audit.assign manage the team of any
+ * audit they can see
+ */
+export const canManageTeam = async (user: ScopedUser, auditId: number | string) => {
+  if (!(await canViewAuditData(user, auditId))) {
+    return false;
+  }
+  return (await hasPermission(user, 'audit.assign')) || (await getTeamRole(user.id, auditId)) === 'lead_auditor';
+};
+
+/**
+ * Put a user on an audit team. An existing member keeps their role.
+ */
+export const addTeamMember = (
+  db: Queryable,
+  auditId: number,
+  userId: number,
+  role: AuditTeamRole,
+  addedBy: number | null
+) =>
+  db.query<ResultSetHeader>(
+    'INSERT IGNORE INTO audit_team_members (audit_id, user_id, team_role, added_by) VALUES (?, ?, ?, ?)',
+    [auditId, userId, role, addedBy]
+  );
+
+/**
+ * The users in a list who can see an audit, so notifications about it stay within its team
+ */
+export const filterAuditViewers = async (userIds: number[], auditId: number) => {
+  const visible = await Promise.all(userIds.map(id => canViewAuditData({ id }, auditId)));
+  return userIds.filter((_, index) => visible[index]);
+};
@@ -0,0 +1,216 @@
+import * as crypto from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+import { pool } from '../config/database';
+import { UserRole, UserSession } from '../types';
+
+// Access tokens are short-lived; the session's refresh token keeps the user signed in
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+// A refresh token expires when the session has been idle this long
+export const REFRESH_TOKEN_TTL_DAYS = 14;
+// A token replaced this recently was probably sent by another tab refreshing at the same time
+export const ROTATION_GRACE_SECONDS = 30;
+
+// Failed logins allowed before the account is locked, unless set in the system settings;
+// each further failure doubles the lock
+export const LOCKOUT_THRESHOLD = 5;
+export const LOCKOUT_MAX_MINUTES = 60;
+
+export interface AccessTokenPayload {
+  id: number;
+  username: string;
+  role: UserRole;
+  // Session the token was issued for; tokens issued before sessions existed lack it and are refused
+  sid?: number;
+  // Set when the session passed two-factor authentication
+  mfa?: boolean;
+}
+
+export interface SessionClient {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+export type RotationResult =
+  | { status: 'rotated'; session: UserSession; refreshToken: string }
+  | { status: 'superseded' }
+  | { status: 'reused'; session: UserSession }
+  | { status: 'invalid' };
+
+/**
+ * Read at call time; the environment is loaded after modules are imported
+ */
+export const getJwtSecret = () =>
+  process.env.JWT_SECRET || 'e465aa6a212abe4bb21fb3218aa044ed2be68720b46298c20b22f861ab7324f3d299f35ec4720e2ab57a03e4810a7a885e5aac6c1';
+
+export const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const refreshExpiry = () => new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+export const signAccessToken = (
+  user: { id: number; username: string; role: UserRole },
+  sessionId: number,
+  twoFactorVerified: boolean = false
+) =>
+  jwt.sign(
+    { id: user.id, username: user.username, role: user.role, sid: sessionId, mfa: twoFactorVerified } as AccessTokenPayload,
+    getJwtSecret(),
+    { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+  );
+
+/**
+ * Lock duration for a number of consecutive failed logins; 0 while under the threshold
+ */
+export const getLockoutMinutes = (failedAttempts: number, threshold: number = LOCKOUT_THRESHOLD) =>
+  failedAttempts < threshold
+    ? 0
+    : Math.min(LOCKOUT_MAX_MINUTES, 2 ** (failedAttempts - threshold));
+
+/**
+ * Failed logins allowed before locking, from the maxLoginAttempts system setting
+ */
+export const getMaxLoginAttempts = async () => {
+  try {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT setting_value FROM system_settings WHERE setting_key = ?',
+      ['maxLoginAttempts']
+    );
+    const value = rows.length > 0 ? Number(rows[0].setting_value) : NaN;
+    return Number.isInteger(value) && value > 0 ? value : LOCKOUT_THRESHOLD;
+  } catch (error) {
+    console.warn('Could not read maxLoginAttempts setting:', error);
+    return LOCKOUT_THRESHOLD;
+  }
+};
+
+export const getSessionClient = (req: { headers: Record<string, any>; ip?: string }): SessionClient => ({
+  userAgent: typeof req.headers['user-agent'] === 'string' ? req.headers['user-agent'].slice(0, 255) : null,
+  ipAddress: req.ip || null
+});
+
+/**
+ * Write a sign-in or session event to audit_logs
+ */
+export const recordAuthEvent = (userId: number | null, action: string, details: Record<string, unknown>) =>
+  pool.query<ResultSetHeader>(
+    'INSERT INTO audit_logs (user_id, action, details, entity_type, entity_id) VALUES (?, ?, ?, ?, ?)',
+    [userId, action, JSON.stringify(details), 'user', userId !== null ? String(userId) : null]
+  );
+
+/**
+ * Start a session for a user who has just signed in
+ * @returns The session ID and its first refresh token
+ */
+export const createSession = async (userId: number, client: SessionClient, twoFactorVerified: boolean = false) => {
+  const refreshToken = crypto.randomBytes(48).toString('hex');
+  const [result] = await pool.query<ResultSetHeader>(
+    `INSERT INTO user_sessions (user_id, two_factor_verified, refresh_token_hash, user_agent, ip_address, last_used_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, NOW(), ?)`,
+    [userId, twoFactorVerified, hashToken(refreshToken), client.userAgent, client.ipAddress, refreshExpiry()]
+  );
+  return { sessionId: result.insertId, refreshToken };
+};
+
+/**
+ * Exchange a refresh token for a new one. A token that was already exchanged means it was copied,
+ * so the session is revoked, unless the exchange happened moments ago in another tab.
+ */
+export const rotateSession = async (refreshToken: string, client: SessionClient): Promise<RotationResult> => {
+  const hash = hashToken(refreshToken);
+  const [current] = await pool.query<UserSession[]>(
+    'SELECT * FROM user_sessions WHERE refresh_token_hash = ?',
+    [hash]
+  );
+
+  if (current.length === 0) {
+    const [previous] = await pool.query<UserSession[]>(
+      'SELECT * FROM user_sessions WHERE previous_token_hash = ? AND revoked_at IS NULL',
+      [hash]
+    );
+    if (previous.length === 0) return { status: 'invalid' };
+
+    const session = previous[0];
+    const rotatedAgo = session.rotated_at ? (Date.now() - new Date(session.rotated_at).getTime()) / 1000 : Infinity;
+    if (rotatedAgo <= ROTATION_GRACE_SECONDS) return { status: 'superseded' };
+
+    await revokeSession(session.id, 'token_reuse');
+    return { status: 'reused', session };
+  }
+
+  const session = current[0];
+  if (session.revoked_at || new Date(session.expires_at).getTime() <= Date.now()) {
+    return { status: 'invalid' };
+  }
+
+  const nextToken = crypto.randomBytes(48).toString('hex');
+  // Only one request may rotate a token; a concurrent one finds the hash already changed
+  const [result] = await pool.query<ResultSetHeader>(
+    `UPDATE user_sessions
+     SET refresh_token_hash = ?, previous_token_hash = ?, rotated_at = NOW(), last_used_at = NOW(),
+         expires_at = ?, ip_address = ?, user_agent = COALESCE(?, user_agent)
+     WHERE id = ? AND refresh_token_hash = ?`,
+    [hashToken(nextToken), hash, refreshExpiry(), client.ipAddress, client.userAgent, session.id, hash]
+  );
+  if (result.affectedRows === 0) return { status: 'superseded' };
+
+  return { status: 'rotated', session, refreshToken: nextToken };
+};
+
+/**
+ * Record that a session has passed two-factor authentication, so refreshed tokens keep the claim
+ */
+export const markSessionTwoFactorVerified = (sessionId: number) =>
+  pool.query<ResultSetHeader>('UPDATE user_sessions SET two_factor_verified = 1 WHERE id = ?', [sessionId]);
+
+export const revokeSession = (sessionId: number, reason: string) =>
+  pool.query<ResultSetHeader>(
+    'UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = ? WHERE id = ? AND revoked_at IS NULL',
+    [reason, sessionId]
+  );
+
+/**
+ * Revoke every active session of a user, optionally keeping one
+ */
+export const revokeUserSessions = (userId: number, reason: string, exceptSessionId: number | null = null) =>
+  pool.query<ResultSetHeader>(
+    'UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = ? WHERE user_id = ? AND revoked_at IS NULL AND id <> ?',
+    [reason, userId, exceptSessionId ?? 0]
+  );
+
+/**
+ * Whether a session may still be used; checked on every request so revocation takes effect at once
+ */
+export const isSessionActive = async (sessionId: number) => {
+  const [sessions] = await pool.query<UserSession[]>(
+    'SELECT id FROM user_sessions WHERE id = ? AND revoked_at IS NULL AND expires_at > NOW()',
+    [sessionId]
+  );
+  return sessions.length > 0;
+};
+
+/**
+ * Payload of a valid access token whose session is still active, or null; for connections that
+ * cannot use authenticateToken(), such as the realtime socket
+ */
+export const verifyAccessToken = async (token: string): Promise<AccessTokenPayload | null> => {
+  let payload: AccessTokenPayload;
+  try {
+    payload = jwt.verify(token, getJwtSecret()) as AccessTokenPayload;
+  } catch {
+    return null;
+  }
+  if (payload.sid === undefined || !(await isSessionActive(payload.sid))) {
+    return null;
+  }
+  return payload;
+};
+
+export const formatSession = (session: UserSession, currentSessionId?: number) => ({
+  id: session.id,
+  userAgent: session.user_agent,
+  ipAddress: session.ip_address,
+  createdAt: session.created_at,
+  lastUsedAt: session.last_used_at,
+  expiresAt: session.expires_at,
+  current: session.id === currentSessionId
+});
@@ -0,0 +1,61 @@
+import { RowDataPacket } from 'mysql2';
+import { pool } from '../config/database';
+import { hasPermission } from './permissions';
+
+type ScopedUser = { id: number; permissions?: string[] };
+
+// Buildings a user set up, for use in a SQL IN (...) condition
+const OWN_BUILDINGS = 'SELECT id FROM buildings WHERE created_by = ?';
+
+/**
+ * Whether a user sees every building's meters and readings; others only see buildings they set up
+ */
+const seesAllBuildings = async (user: ScopedUser) =>
+  (await hasPermission(user, 'meters.view')) || (await hasPermission(user, 'meters.manage'));
+
+/**
+ * SQL condition limiting a building id column to the buildings a user can see, or null when the
+ * user may see every building
+ */
+export const getBuildingScope = async (user: ScopedUser, column: string) => {
+  if (await seesAllBuildings(user)) {
+    return null;
+  }
+  return { clause: `${column} IN (${OWN_BUILDINGS})`, params: [user.id] };
+};
+
+/**
+ * SQL condition limiting a meter id column to the meters in buildings a user can see
+ */
+export const getMeterScope = async (user: ScopedUser, column: string) => {
+  if (await seesAllBuildings(user)) {
+    return null;
+  }
+  return {
+    clause: `${column} IN (SELECT id FROM meters WHERE building_id IN (${OWN_BUILDINGS}))`,
+    params: [user.id]
+  };
+};
+
+export const canViewBuilding = async (user: ScopedUser, buildingId: number | string) => {
+  if (await seesAllBuildings(user)) {
+    return true;
+  }
+  const [rows] = await pool.query<RowDataPacket[]>(
+    'SELECT id FROM buildings WHERE id = ? AND created_by = ?',
+    [buildingId, user.id]
+  );
+  return rows.length > 0;
+};
+
+export const canViewMeter = async (user: ScopedUser, meterId: number | string) => {
+  if (await seesAllBuildings(user)) {
+    return true;
+  }
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT m.id FROM meters m JOIN buildings b ON b.id = m.building_id
+     WHERE m.id = ? AND b.created_by = ?`,
+    [meterId, user.id]
+  );
+  return rows.length > 0;
+};
@@ -0,0 +1,73 @@
+/**
+ * Minimal CSV reading shared by the meter-reading and utility-bill importers.
+ * Handles quoted cells, a byte-order mark and comma, semicolon or tab delimiters.
+ */
+
+export interface CsvRow {
+  // 1-based line number in the file, for error reports
+  row: number;
+  cells: string[];
+}
+
+export const splitCsvLine = (line: string, delimiter: string) => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+/**
+ * Split a file into its header and data rows.
+ * Headers are lower-cased with non-alphanumerics stripped, so "Power Factor" and "power_factor" match.
+ */
+export const readCsv = (text: string): { headers: string[]; rows: CsvRow[]; error: string | null } => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headerIndex = lines.findIndex(line => line.trim() !== '');
+  if (headerIndex === -1) {
+    return { headers: [], rows: [], error: 'File is empty' };
+  }
+
+  const headerLine = lines[headerIndex];
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+  const headers = splitCsvLine(headerLine, delimiter).map(header => header.toLowerCase().replace(/[^a-z0-9]/g, ''));
+
+  const rows: CsvRow[] = [];
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    rows.push({ row: i + 1, cells: splitCsvLine(lines[i], delimiter) });
+  }
+
+  return { headers, rows, error: null };
+};
+
+/**
+ * Find each field's column from its header aliases; missing fields get -1
+ */
+export const findColumns = <K extends string>(headers: string[], aliases: Record<K, string[]>) =>
+  (Object.keys(aliases) as K[]).reduce(
+    (found, key) => ({ ...found, [key]: headers.findIndex(header => aliases[key].includes(header)) }),
+    {} as Record<K, number>
+  );
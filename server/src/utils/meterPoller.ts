@@ -0,0 +1,124 @@
+import { ResultSetHeader } from 'mysql2';
+import { pool } from '../config/database';
+import { Meter, MeterRegister } from '../types';
+import logger from './logger';
+import { ingestReadings, pollIntervalSeconds } from './meterReadings';
+import { DEFAULT_REGISTER_MAP, readRegisterMap } from './modbus';
+
+// How often the list of Modbus meters is reloaded so added or edited meters are picked up
+const METER_REFRESH_MS = 60 * 1000;
+
+interface PolledMeter {
+  timer: NodeJS.Timeout;
+  // Settings the timer was created with; a change restarts the timer
+  signature: string;
+}
+
+const polledMeters = new Map<number, PolledMeter>();
+let refreshTimer: NodeJS.Timeout | null = null;
+
+const getRegisterMap = (meter: Meter): MeterRegister[] => {
+  if (!meter.modbus_register_map) return DEFAULT_REGISTER_MAP;
+  return typeof meter.modbus_register_map === 'string'
+    ? JSON.parse(meter.modbus_register_map)
+    : meter.modbus_register_map;
+};
+
+/**
+ * Read a meter once and store the values as a reading
+ */
+export const pollMeter = async (meter: Meter) => {
+  try {
+    const values = await readRegisterMap(
+      { host: meter.modbus_host!, port: meter.modbus_port || 502, unitId: meter.modbus_unit_id ?? 1 },
+      getRegisterMap(meter)
+    );
+    const result = await ingestReadings(meter.id, [{ row: 1, raw: { timestamp: new Date(), ...values } }], 'modbus');
+
+    const error = result.rejected[0]?.reason || null;
+    await pool.query<ResultSetHeader>('UPDATE meters SET last_error = ? WHERE id = ?', [error, meter.id]);
+    if (error) {
+      logger.warn(`Meter ${meter.id} returned an invalid reading: ${error}`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(`Polling meter ${meter.id} failed: ${message}`);
+    await pool.query<ResultSetHeader>(
+      'UPDATE meters SET last_error = ? WHERE id = ?',
+      [message.slice(0, 255), meter.id]
+    ).catch(() => undefined);
+  }
+};
+
+/**
+ * Poll a meter every intervalMs, counted from the end of the previous poll so a slow or
+ * unreachable meter never has two polls running at once
+ */
+const schedulePolling = (meter: Meter, intervalMs: number, signature: string) => {
+  const polled: PolledMeter = {
+    timer: setTimeout(async function poll() {
+      await pollMeter(meter);
+      // Stopped or restarted with new settings while the poll was running
+      if (polledMeters.get(meter.id) === polled) {
+        polled.timer = setTimeout(poll, intervalMs);
+      }
+    }, intervalMs),
+    signature
+  };
+  polledMeters.set(meter.id, polled);
+};
+
+const refreshMeters = async () => {
+  try {
+    const [meters] = await pool.query<Meter[]>(
+      "SELECT * FROM meters WHERE protocol = 'modbus_tcp' AND is_active = true AND modbus_host IS NOT NULL"
+    );
+    const active = new Set(meters.map(meter => meter.id));
+
+    for (const [meterId, polled] of polledMeters) {
+      if (!active.has(meterId)) {
+        clearTimeout(polled.timer);
+        polledMeters.delete(meterId);
+      }
+    }
+
+    for (const meter of meters) {
+      const signature = JSON.stringify([
+        meter.modbus_host,
+        meter.modbus_port,
+        meter.modbus_unit_id,
+        meter.modbus_register_map,
+        meter.poll_interval_seconds
+      ]);
+      const existing = polledMeters.get(meter.id);
+      if (existing?.signature === signature) continue;
+      if (existing) clearTimeout(existing.timer);
+
+      const intervalMs = pollIntervalSeconds(meter) * 1000;
+      schedulePolling(meter, intervalMs, signature);
+      logger.info(`Polling meter ${meter.id} at ${meter.modbus_host}:${meter.modbus_port} every ${intervalMs / 1000}s`);
+    }
+  } catch (error) {
+    logger.error('Error loading Modbus meters:', error);
+  }
+};
+
+/**
+ * Poll every active Modbus-TCP meter on its own interval until stopMeterPolling is called
+ */
+export const startMeterPolling = () => {
+  if (refreshTimer) return;
+  refreshMeters();
+  refreshTimer = setInterval(refreshMeters, METER_REFRESH_MS);
+};
+
+export const stopMeterPolling = () => {
+  if (refreshTimer) {
+    clearInterval(refreshTimer);
+    refreshTimer = null;
+  }
+  for (const polled of polledMeters.values()) {
+    clearTimeout(polled.timer);
+  }
+  polledMeters.clear();
+};
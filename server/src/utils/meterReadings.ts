@@ -0,0 +1,284 @@
+import { ResultSetHeader } from 'mysql2';
+import { pool } from '../config/database';
+import { Meter, PowerReading } from '../types';
+import { findColumns, readCsv } from './csv';
+import { updateRollups } from './powerRollups';
+
+export const MAX_READINGS_PER_REQUEST = 10000;
+// Shortest period a Modbus meter is polled at, whatever its poll_interval_seconds says
+export const MIN_POLL_INTERVAL_SECONDS = 5;
+
+export type ReadingSource = 'api' | 'csv' | 'modbus';
+
+export interface ReadingInput {
+  timestamp: Date;
+  powerUsage: number;
+  energyKwh: number | null;
+  voltage: number | null;
+  current: number | null;
+  powerFactor: number | null;
+  frequency: number | null;
+  temperature: number | null;
+  humidity: number | null;
+}
+
+export interface RejectedReading {
+  row: number;
+  reason: string;
+}
+
+export interface IngestResult {
+  received: number;
+  inserted: number;
+  duplicates: number;
+  rejected: RejectedReading[];
+}
+
+// Accepted range per optional field; values outside are almost always unit or wiring mistakes
+const OPTIONAL_RANGES: Array<[Exclude<keyof ReadingInput, 'timestamp' | 'powerUsage'>, number, number]> = [
+  ['energyKwh', 0, Number.MAX_SAFE_INTEGER],
+  ['voltage', 0, 100000],
+  ['current', 0, 100000],
+  ['powerFactor', -1, 1],
+  ['frequency', 40, 70],
+  ['temperature', -50, 100],
+  ['humidity', 0, 100]
+];
+
+// Readings more than this far in the future point at a meter or gateway with a wrong clock
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const toNumber = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return null;
+  const number = typeof value === 'number' ? value : Number(String(value).trim());
+  return Number.isFinite(number) ? number : NaN;
+};
+
+const parseTimestamp = (value: unknown) => {
+  if (value instanceof Date) return value;
+  if (typeof value === 'number') return new Date(value);
+  if (typeof value !== 'string' || !value.trim()) return null;
+  // "2026-10-19 08:15" is read as local time, like the rest of the database
+  return new Date(value.trim().replace(/^(\d{4}-\d{2}-\d{2}) (\d)/, '$1T$2'));
+};
+
+/**
+ * Validate one raw reading, returning the cleaned reading or the reason it was rejected.
+ * Timestamps are truncated to whole seconds to match the power_readings column.
+ */
+export const normalizeReading = (raw: Record<string, unknown>): ReadingInput | string => {
+  const timestamp = parseTimestamp(raw.timestamp);
+  if (!timestamp || Number.isNaN(timestamp.getTime())) {
+    return 'Invalid or missing timestamp';
+  }
+  if (timestamp.getTime() > Date.now() + CLOCK_SKEW_MS) {
+    return 'Timestamp is in the future';
+  }
+  if (timestamp.getFullYear() < 2000) {
+    return 'Timestamp is before 2000';
+  }
+  timestamp.setMilliseconds(0);
+
+  const powerUsage = toNumber(raw.powerUsage);
+  if (powerUsage === null || Number.isNaN(powerUsage) || powerUsage < 0) {
+    return 'powerUsage must be a non-negative number in kW';
+  }
+
+  const reading: ReadingInput = {
+    timestamp,
+    powerUsage,
+    energyKwh: null,
+    voltage: null,
+    current: null,
+    powerFactor: null,
+    frequency: null,
+    temperature: null,
+    humidity: null
+  };
+  for (const [field, min, max] of OPTIONAL_RANGES) {
+    const value = toNumber(raw[field]);
+    if (value !== null && (Number.isNaN(value) || value < min || value > max)) {
+      return `${field} must be a number from ${min} to ${max}`;
+    }
+    reading[field] = value;
+  }
+
+  return reading;
+};
+
+// CSV header aliases, compared after lower-casing and stripping non-alphanumerics
+const CSV_COLUMNS = {
+  timestamp: ['timestamp', 'time', 'datetime', 'readingtime', 'intervalstart', 'intervalend', 'start'],
+  date: ['date'],
+  powerUsage: ['powerusage', 'power', 'kw', 'powerkw', 'demand', 'demandkw'],
+  intervalKwh: ['kwh', 'intervalkwh', 'consumption', 'consumptionkwh', 'usage', 'usagekwh'],
+  energyKwh: ['energykwh', 'register', 'registerkwh', 'cumulativekwh'],
+  voltage: ['voltage', 'v', 'volts'],
+  current: ['current', 'a', 'amps', 'ampere'],
+  powerFactor: ['powerfactor', 'pf'],
+  frequency: ['frequency', 'hz'],
+  temperature: ['temperature', 'temp'],
+  humidity: ['humidity', 'rh']
+};
+
+/**
+ * Parse a CSV export or utility interval-data file into raw readings.
+ * Interval files that only carry kWh per interval are converted to average kW over the interval.
+ */
+export const parseReadingsCsv = (text: string, intervalMinutes: number) => {
+  const csv = readCsv(text);
+  if (csv.error) {
+    return { rows: [], error: csv.error };
+  }
+
+  const columns = findColumns(csv.headers, CSV_COLUMNS);
+  if (columns.timestamp === -1 && columns.date === -1) {
+    return { rows: [], error: 'No timestamp column found' };
+  }
+  if (columns.powerUsage === -1 && columns.intervalKwh === -1) {
+    return { rows: [], error: 'No kW or kWh column found' };
+  }
+
+  const rows: Array<{ row: number; raw: Record<string, unknown> }> = [];
+  for (const { row, cells } of csv.rows) {
+    const cell = (key: keyof typeof CSV_COLUMNS) => (columns[key] >= 0 ? cells[columns[key]] : undefined);
+
+    const timestamp = columns.timestamp >= 0 && columns.date >= 0
+      ? `${cell('date')} ${cell('timestamp')}`
+      : cell('timestamp') ?? cell('date');
+    const intervalKwh = toNumber(cell('intervalKwh'));
+    const powerUsage = columns.powerUsage >= 0
+      ? cell('powerUsage')
+      : intervalKwh !== null && !Number.isNaN(intervalKwh) ? intervalKwh * 60 / intervalMinutes : cell('intervalKwh');
+
+    rows.push({
+      row,
+      raw: {
+        timestamp,
+        powerUsage,
+        energyKwh: cell('energyKwh'),
+        voltage: cell('voltage'),
+        current: cell('current'),
+        powerFactor: cell('powerFactor'),
+        frequency: cell('frequency'),
+        temperature: cell('temperature'),
+        humidity: cell('humidity')
+      }
+    });
+  }
+
+  return { rows, error: null };
+};
+
+const chunk = <T>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+/**
+ * Seconds between two polls of a Modbus meter
+ */
+export const pollIntervalSeconds = (meter: Pick<Meter, 'poll_interval_seconds'>) =>
+  Math.max(meter.poll_interval_seconds, MIN_POLL_INTERVAL_SECONDS);
+
+/**
+ * Seconds of demand one reading from the meter stands for: the poll period for Modbus readings,
+ * otherwise the meter's interval length
+ */
+export const readingIntervalSeconds = (meter: Pick<Meter, 'interval_minutes' | 'poll_interval_seconds'>, source: string) =>
+  source === 'modbus' ? pollIntervalSeconds(meter) : meter.interval_minutes * 60;
+
+/**
+ * Validate, de-duplicate and store readings for a meter, then refresh the rollups they fall in.
+ * A timestamp already stored for the meter, or repeated within the batch, is counted as a duplicate and skipped.
+ */
+export const ingestReadings = async (
+  meterId: number,
+  rows: Array<{ row: number; raw: Record<string, unknown> }>,
+  source: ReadingSource
+): Promise<IngestResult> => {
+  const rejected: RejectedReading[] = [];
+  const unique = new Map<number, ReadingInput>();
+  let duplicates = 0;
+
+  for (const { row, raw } of rows) {
+    const reading = normalizeReading(raw);
+    if (typeof reading === 'string') {
+      rejected.push({ row, reason: reading });
+    } else if (unique.has(reading.timestamp.getTime())) {
+      duplicates++;
+    } else {
+      unique.set(reading.timestamp.getTime(), reading);
+    }
+  }
+
+  const readings = Array.from(unique.values()).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  let inserted = 0;
+
+  const [meters] = await pool.query<Meter[]>('SELECT interval_minutes, poll_interval_seconds FROM meters WHERE id = ?', [meterId]);
+  const intervalSeconds = readingIntervalSeconds(meters[0], source);
+
+  for (const batch of chunk(readings, 1000)) {
+    const [existing] = await pool.query<PowerReading[]>(
+      'SELECT timestamp FROM power_readings WHERE meter_id = ? AND timestamp IN (?)',
+      [meterId, batch.map(reading => reading.timestamp)]
+    );
+    const stored = new Set(existing.map(row => new Date(row.timestamp).getTime()));
+    const fresh = batch.filter(reading => !stored.has(reading.timestamp.getTime()));
+    duplicates += batch.length - fresh.length;
+    if (fresh.length === 0) continue;
+
+    // IGNORE covers a concurrent upload inserting the same timestamp between the check and the insert
+    const [result] = await pool.query<ResultSetHeader>(
+      `INSERT IGNORE INTO power_readings
+        (meter_id, source, timestamp, power_usage, interval_seconds, energy_kwh, voltage, current, power_factor, frequency, temperature, humidity)
+       VALUES ?`,
+      [fresh.map(reading => [
+        meterId,
+        source,
+        reading.timestamp,
+        reading.powerUsage,
+        intervalSeconds,
+        reading.energyKwh,
+        reading.voltage,
+        reading.current,
+        reading.powerFactor,
+        reading.frequency,
+        reading.temperature,
+        reading.humidity
+      ])]
+    );
+    inserted += result.affectedRows;
+    duplicates += fresh.length - result.affectedRows;
+  }
+
+  if (inserted > 0) {
+    await pool.query<ResultSetHeader>(
+      `UPDATE meters SET last_reading_at = GREATEST(COALESCE(last_reading_at, ?), ?) WHERE id = ?`,
+      [readings[0].timestamp, readings[readings.length - 1].timestamp, meterId]
+    );
+    await updateRollups(meterId, readings[0].timestamp, readings[readings.length - 1].timestamp);
+  }
+
+  return { received: rows.length, inserted, duplicates, rejected };
+};
+
+/**
+ * Shape a power_readings row the way the monitoring dashboards expect it
+ */
+export const formatReading = (row: PowerReading) => {
+  const optional = (value: number | null) => (value === null ? null : Number(value));
+  return {
+    id: row.id,
+    meterId: row.meter_id,
+    source: row.source,
+    timestamp: new Date(row.timestamp).toISOString(),
+    powerUsage: Number(row.power_usage),
+    intervalSeconds: row.interval_seconds,
+    energyKwh: optional(row.energy_kwh),
+    voltage: optional(row.voltage),
+    current: optional(row.current),
+    powerFactor: optional(row.power_factor),
+    frequency: optional(row.frequency),
+    temperature: optional(row.temperature),
+    humidity: optional(row.humidity)
+  };
+};
@@ -0,0 +1,231 @@
+import net from 'net';
+import { MeterRegister, MeterRegisterField, MeterRegisterType } from '../types';
+
+export const METER_REGISTER_FIELDS: MeterRegisterField[] = [
+  'powerUsage',
+  'energyKwh',
+  'voltage',
+  'current',
+  'powerFactor',
+  'frequency'
+];
+
+const REGISTER_WIDTHS: Record<MeterRegisterType, number> = {
+  uint16: 1,
+  int16: 1,
+  uint32: 2,
+  int32: 2,
+  float32: 2
+};
+
+// Largest quantity a single FC 3/4 request may ask for
+const MAX_REGISTERS_PER_READ = 125;
+
+/**
+ * Register layout used when a meter has none configured; matches scripts/modbus-simulator.js
+ */
+export const DEFAULT_REGISTER_MAP: MeterRegister[] = [
+  { field: 'powerUsage', address: 0, type: 'float32' },
+  { field: 'voltage', address: 2, type: 'float32' },
+  { field: 'current', address: 4, type: 'float32' },
+  { field: 'powerFactor', address: 6, type: 'float32' },
+  { field: 'frequency', address: 8, type: 'float32' },
+  { field: 'energyKwh', address: 10, type: 'float32' }
+];
+
+export interface ReadRegistersOptions {
+  host: string;
+  port: number;
+  unitId: number;
+  functionCode: 3 | 4;
+  address: number;
+  quantity: number;
+  timeoutMs?: number;
+}
+
+let transactionId = 0;
+
+/**
+ * Registers from a complete read response frame. Throws when the frame answers another request,
+ * reports an exception or does not hold exactly the requested registers.
+ */
+export const parseReadResponse = (
+  response: Buffer,
+  request: { transactionId: number; functionCode: number; quantity: number }
+): number[] => {
+  if (response.readUInt16BE(0) !== request.transactionId) {
+    throw new Error('Modbus response does not match the request');
+  }
+  const responseFunction = response.readUInt8(7);
+  if (responseFunction === (request.functionCode | 0x80)) {
+    throw new Error(`Modbus exception code ${response.readUInt8(8)}`);
+  }
+  if (responseFunction !== request.functionCode) {
+    throw new Error(`Modbus response has function code ${responseFunction}, expected ${request.functionCode}`);
+  }
+  const byteCount = response.readUInt8(8);
+  if (byteCount !== request.quantity * 2 || response.length < 9 + byteCount) {
+    throw new Error(`Modbus response holds ${byteCount} bytes, expected ${request.quantity * 2}`);
+  }
+
+  const registers: number[] = [];
+  for (let offset = 0; offset < byteCount; offset += 2) {
+    registers.push(response.readUInt16BE(9 + offset));
+  }
+  return registers;
+};
+
+/**
+ * Read holding (FC 3) or input (FC 4) registers from a Modbus-TCP device over a short-lived connection
+ */
+export const readRegisters = (options: ReadRegistersOptions): Promise<number[]> => {
+  const { host, port, unitId, functionCode, address, quantity, timeoutMs = 5000 } = options;
+  if (quantity < 1 || quantity > MAX_REGISTERS_PER_READ) {
+    return Promise.reject(
+      new Error(`Register quantity must be between 1 and ${MAX_REGISTERS_PER_READ}, got ${quantity}`)
+    );
+  }
+
+  // Kept per call; other requests may run while this one waits for its response
+  const requestId = transactionId = (transactionId + 1) % 0x10000;
+  const request = Buffer.alloc(12);
+  request.writeUInt16BE(requestId, 0);
+  request.writeUInt16BE(0, 2); // protocol identifier
+  request.writeUInt16BE(6, 4); // remaining length
+  request.writeUInt8(unitId, 6);
+  request.writeUInt8(functionCode, 7);
+  request.writeUInt16BE(address, 8);
+  request.writeUInt16BE(quantity, 10);
+
+  return new Promise((resolve, reject) => {
+    const socket = new net.Socket();
+    let response = Buffer.alloc(0);
+    let settled = false;
+
+    const finish = (error: Error | null, registers?: number[]) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(registers!);
+      }
+    };
+
+    socket.setTimeout(timeoutMs, () => finish(new Error(`Modbus request to ${host}:${port} timed out`)));
+    socket.on('error', error => finish(error));
+    socket.on('close', () => finish(new Error(`Modbus connection to ${host}:${port} closed before a response`)));
+    socket.on('data', chunk => {
+      response = Buffer.concat([response, chunk]);
+      if (response.length < 6) return;
+
+      const frameLength = 6 + response.readUInt16BE(4);
+      if (response.length < frameLength) return;
+
+      try {
+        finish(null, parseReadResponse(response.subarray(0, frameLength), { transactionId: requestId, functionCode, quantity }));
+      } catch (error) {
+        finish(error as Error);
+      }
+    });
+
+    socket.connect(port, host, () => socket.write(request));
+  });
+};
+
+/**
+ * Decode one value from a block of registers read starting at baseAddress
+ */
+export const decodeRegister = (registers: number[], baseAddress: number, register: MeterRegister) => {
+  const offset = register.address - baseAddress;
+  const words = registers.slice(offset, offset + REGISTER_WIDTHS[register.type]);
+  if (register.wordOrder === 'little') {
+    words.reverse();
+  }
+
+  const buffer = Buffer.alloc(words.length * 2);
+  words.forEach((word, index) => buffer.writeUInt16BE(word, index * 2));
+
+  let value: number;
+  switch (register.type) {
+    case 'int16': value = buffer.readInt16BE(0); break;
+    case 'uint32': value = buffer.readUInt32BE(0); break;
+    case 'int32': value = buffer.readInt32BE(0); break;
+    case 'float32': value = buffer.readFloatBE(0); break;
+    default: value = buffer.readUInt16BE(0);
+  }
+
+  return value * (register.scale ?? 1);
+};
+
+/**
+ * Group a register map by function code, with the block of registers each group spans
+ */
+const groupRegisterBlocks = (registerMap: MeterRegister[]) => {
+  const byFunction = new Map<3 | 4, MeterRegister[]>();
+  for (const register of registerMap) {
+    const functionCode = register.functionCode ?? 3;
+    byFunction.set(functionCode, [...(byFunction.get(functionCode) || []), register]);
+  }
+
+  return [...byFunction].map(([functionCode, registers]) => {
+    const start = Math.min(...registers.map(register => register.address));
+    const end = Math.max(...registers.map(register => register.address + REGISTER_WIDTHS[register.type]));
+    return { functionCode, registers, start, quantity: end - start };
+  });
+};
+
+/**
+ * Read every register in a map, grouped into one request per function code
+ */
+export const readRegisterMap = async (
+  connection: Omit<ReadRegistersOptions, 'functionCode' | 'address' | 'quantity'>,
+  registerMap: MeterRegister[]
+) => {
+  const values: Partial<Record<MeterRegisterField, number>> = {};
+  for (const { functionCode, registers, start, quantity } of groupRegisterBlocks(registerMap)) {
+    const block = await readRegisters({ ...connection, functionCode, address: start, quantity });
+    for (const register of registers) {
+      values[register.field] = decodeRegister(block, start, register);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Returns an error message for an invalid register map, or null when it can be polled
+ */
+export const validateRegisterMap = (registerMap: unknown): string | null => {
+  if (!Array.isArray(registerMap) || registerMap.length === 0) {
+    return 'Register map must be a non-empty array';
+  }
+  if (!registerMap.some(register => register?.field === 'powerUsage')) {
+    return 'Register map must include a powerUsage register';
+  }
+  for (const register of registerMap) {
+    if (!METER_REGISTER_FIELDS.includes(register?.field)) {
+      return `Register field must be one of: ${METER_REGISTER_FIELDS.join(', ')}`;
+    }
+    if (!Number.isInteger(register.address) || register.address < 0 || register.address > 0xffff) {
+      return `Register address for ${register.field} must be an integer from 0 to 65535`;
+    }
+    if (!(register.type in REGISTER_WIDTHS)) {
+      return `Register type for ${register.field} must be one of: ${Object.keys(REGISTER_WIDTHS).join(', ')}`;
+    }
+    if (register.functionCode !== undefined && register.functionCode !== 3 && register.functionCode !== 4) {
+      return `Register function code for ${register.field} must be 3 or 4`;
+    }
+    if (register.scale !== undefined && !Number.isFinite(register.scale)) {
+      return `Register scale for ${register.field} must be a number`;
+    }
+  }
+  // Each function code is read in one request, which cannot span more than 125 registers
+  for (const { functionCode, quantity } of groupRegisterBlocks(registerMap)) {
+    if (quantity > MAX_REGISTERS_PER_READ) {
+      return `Registers read with function code ${functionCode} must lie within ${MAX_REGISTERS_PER_READ} consecutive addresses, got ${quantity}`;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,171 @@
+import { RowDataPacket } from 'mysql2';
+import { pool } from '../config/database';
+import { UserRole } from '../types';
+
+/**
+ * Every permission a role can grant. Keys are stored in roles.permissions and checked by
+ * requirePermission(), so renaming one needs a migration.
+ */
+export const PERMISSIONS = [
+  { key: 'users.manage', group: 'Administration', label: 'Manage users', description: 'Create, edit, deactivate and delete user accounts' },
+  { key: 'roles.manage', group: 'Administration', label: 'Manage roles', description: 'Create custom roles and change what each role may do' },
+  { key: 'settings.manage', group: 'Administration', label: 'Manage settings', description: 'Change system and administrator settings' },
+  { key: 'auditlog.view', group: 'Administration', label: 'View audit log', description: 'Read the system activity log' },
+  { key: 'workflow.manage', group: 'Administration', label: 'Manage workflows', description: 'Define audit approval workflows' },
+  { key: 'audit.view_all', group: 'Audits', label: 'View all audits', description: 'See every audit and its findings, reports and calculations, not only ones the user is on the team of' },
+  { key: 'audit.create', group: 'Audits', label: 'Create audits', description: 'Start new energy audits' },
+  { key: 'audit.edit', group: 'Audits', label: 'Edit audits', description: 'Edit any audit and its tasks, not only assigned ones' },
+  { key: 'audit.assign', group: 'Audits', label: 'Assign audits', description: 'Assign tasks and manage the team of any audit the user can see' },
+  { key: 'audit.approve', group: 'Audits', label: 'Approve audits', description: 'Approve or reject submitted audits' },
+  { key: 'audit.archive', group: 'Audits', label: 'Archive audits', description: 'Archive and restore audits and delete tasks' },
+  { key: 'findings.manage', group: 'Audits', label: 'Manage findings', description: 'Record, edit, assign and delete findings' },
+  { key: 'report.create', group: 'Reports', label: 'Create reports', description: 'Generate and edit reports' },
+  { key: 'report.export', group: 'Reports', label: 'Export reports', description: 'Download reports and audit data' },
+  { key: 'report.sign', group: 'Reports', label: 'Sign reports', description: 'Sign off reports as the responsible engineer' },
+  { key: 'report.share', group: 'Reports', label: 'Share reports publicly', description: 'Create and revoke links that open a report without an account' },
+  { key: 'standards.manage', group: 'Reference data', label: 'Manage standards', description: 'Add and edit standards and their clauses' },
+  { key: 'benchmarks.manage', group: 'Reference data', label: 'Manage benchmarks', description: 'Edit energy performance benchmarks' },
+  { key: 'tariffs.manage', group: 'Reference data', label: 'Manage tariffs', description: 'Create tariffs and tariff versions' },
+  { key: 'meters.view', group: 'Metering', label: 'View all meters', description: 'See the meters and readings of every building, not only ones the user set up' },
+  { key: 'meters.manage', group: 'Metering', label: 'Manage meters', description: 'Set up buildings, panels and meters and enter readings' },
+  { key: 'bills.manage', group: 'Metering', label: 'Manage utility bills', description: 'Delete imported utility bills' },
+  { key: 'attachments.manage', group: 'Metering', label: 'Manage attachments', description: 'Delete attachments uploaded by other users' }
+] as const;
+
+export type Permission = typeof PERMISSIONS[number]['key'];
+
+export const ALL_PERMISSIONS: Permission[] = PERMISSIONS.map(permission => permission.key);
+
+// What the built-in roles could do before roles were configurable; used until an administrator edits them
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.ADMIN]: ALL_PERMISSIONS,
+  [UserRole.MANAGER]: [
+    'audit.view_all',
+    'audit.create',
+    'audit.edit',
+    'audit.assign',
+    'audit.approve',
+    'audit.archive',
+    'report.create',
+    'report.export',
+    'report.sign',
+    'report.share',
+    'standards.manage',
+    'benchmarks.manage',
+    'meters.view',
+    'meters.manage',
+    'bills.manage'
+  ],
+  [UserRole.USER]: ['report.create', 'report.export', 'report.share', 'meters.view']
+};
+
+export const isPermission = (value: unknown): value is Permission =>
+  typeof value === 'string' && (ALL_PERMISSIONS as string[]).includes(value);
+
+/**
+ * Registry keys from a stored list, dropping any that no longer exist
+ */
+export const parsePermissions = (value: unknown): Permission[] => {
+  const list = typeof value === 'string' ? JSON.parse(value) : value;
+  return Array.isArray(list) ? Array.from(new Set(list.filter(isPermission))) : [];
+};
+
+// users.role is lower case in older schemas
+export const normalizeRoleName = (role: string) => role.toUpperCase();
+
+/**
+ * Permissions granted by a role row; a NULL list means the built-in defaults for that name
+ */
+export const getRolePermissions = (role: { name: string; permissions: unknown }): Permission[] => {
+  const name = normalizeRoleName(role.name);
+  // Administrators can always do everything, so they cannot lock themselves out
+  if (name === UserRole.ADMIN) return ALL_PERMISSIONS;
+  if (role.permissions === null || role.permissions === undefined) {
+    return DEFAULT_ROLE_PERMISSIONS[name as UserRole] ?? [];
+  }
+  return parsePermissions(role.permissions);
+};
+
+// A built-in role the roles table has no row for keeps its defaults
+const toRole = (row: RowDataPacket) =>
+  row.name ? { name: String(row.name), permissions: row.permissions } : { name: String(row.user_role), permissions: null };
+
+/**
+ * Effective permissions of a user: their custom role if one is assigned, otherwise their built-in role
+ */
+export const getUserPermissions = async (userId: number): Promise<Permission[]> => {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT u.role AS user_role, r.name, r.permissions
+     FROM users u
+     LEFT JOIN roles r ON r.id = u.role_id OR (u.role_id IS NULL AND r.is_system = 1 AND r.name = UPPER(u.role))
+     WHERE u.id = ?
+     LIMIT 1`,
+    [userId]
+  );
+  if (rows.length === 0) return [];
+
+  return getRolePermissions(toRole(rows[0]));
+};
+
+/**
+ * Permissions of the signed-in user. The list is loaded once per request.
+ */
+export const loadPermissions = async (user: { id: number; permissions?: string[] }) => {
+  if (!user.permissions) {
+    user.permissions = await getUserPermissions(user.id);
+  }
+  return user.permissions as Permission[];
+};
+
+/**
+ * Whether the signed-in user has a permission
+ */
+export const hasPermission = async (
+  user: { id: number; permissions?: string[] } | undefined,
+  permission: Permission
+) => {
+  if (!user) return false;
+  return (await loadPermissions(user)).includes(permission);
+};
+
+/**
+ * Whether a user manager may take over another account by resetting its password, changing its
+ * status or deleting it. Administrator accounts, and accounts with permissions the manager lacks,
+ * are left to users who manage roles, so users.manage cannot be used to gain more rights.
+ */
+export const canManageAccount = (
+  managerPermissions: Permission[],
+  target: { role: string; permissions: Permission[] }
+) =>
+  managerPermissions.includes('roles.manage') ||
+  (normalizeRoleName(target.role) !== UserRole.ADMIN &&
+    target.permissions.every(permission => managerPermissions.includes(permission)));
+
+/**
+ * canManageAccount() for the signed-in user and an account by ID
+ */
+export const canManageUser = async (
+  manager: { id: number; permissions?: string[] },
+  target: { id: number; role: string }
+) => {
+  if (await hasPermission(manager, 'roles.manage')) return true;
+  return canManageAccount(manager.permissions as Permission[], {
+    role: target.role,
+    permissions: await getUserPermissions(target.id)
+  });
+};
+
+/**
+ * Active users holding a permission, e.g. everyone to notify when an audit needs approval
+ */
+export const getUsersWithPermission = async (permission: Permission) => {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT u.id, u.role AS user_role, r.name, r.permissions
+     FROM users u
+     LEFT JOIN roles r ON r.id = u.role_id OR (u.role_id IS NULL AND r.is_system = 1 AND r.name = UPPER(u.role))
+     WHERE u.is_active = 1`
+  );
+  return rows
+    .filter(row => getRolePermissions(toRole(row)).includes(permission))
+    .map(row => row.id as number);
+};
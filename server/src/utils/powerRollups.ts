@@ -0,0 +1,226 @@
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+import { pool } from '../config/database';
+
+export type SeriesResolution = 'raw' | '15min' | 'hour' | 'day';
+
+// Rollup table and bucket length per resolution, finest first
+export const ROLLUPS: Array<{ resolution: Exclude<SeriesResolution, 'raw'>; table: string; seconds: number }> = [
+  { resolution: '15min', table: 'power_rollups_15min', seconds: 15 * 60 },
+  { resolution: 'hour', table: 'power_rollups_hourly', seconds: 60 * 60 },
+  { resolution: 'day', table: 'power_rollups_daily', seconds: 24 * 60 * 60 }
+];
+
+export const SERIES_RESOLUTIONS: SeriesResolution[] = ['raw', ...ROLLUPS.map(rollup => rollup.resolution)];
+
+// Automatic resolution picks the finest one that stays under this many points
+export const SERIES_TARGET_POINTS = 1500;
+// An explicitly requested resolution may return at most this many points
+export const SERIES_MAX_POINTS = 20000;
+
+interface RollupRow extends RowDataPacket {
+  bucket_start: Date;
+  energy_kwh: number;
+  covered_seconds: number;
+  min_kw: number | null;
+  max_kw: number | null;
+  peak_demand_kw: number | null;
+  power_factor_sum: number;
+  power_factor_samples: number;
+  sample_count: number;
+}
+
+interface RawRow extends RowDataPacket {
+  timestamp: Date;
+  power_usage: number;
+  interval_seconds: number | null;
+  power_factor: number | null;
+}
+
+export interface SeriesPoint {
+  timestamp: string;
+  energyKwh: number | null;
+  averageKw: number | null;
+  minKw: number | null;
+  maxKw: number | null;
+  peakDemandKw: number | null;
+  powerFactor: number | null;
+  samples: number;
+}
+
+const ROLLUP_COLUMNS = [
+  'energy_kwh',
+  'covered_seconds',
+  'min_kw',
+  'max_kw',
+  'peak_demand_kw',
+  'power_factor_sum',
+  'power_factor_samples',
+  'sample_count'
+];
+
+// Write the buckets produced by a SELECT of meter_id, bucket_start and ROLLUP_COLUMNS, replacing existing ones
+const upsertRollup = (table: string, select: string) => `
+  INSERT INTO ${table} (meter_id, bucket_start, ${ROLLUP_COLUMNS.join(', ')})
+  ${select}
+  ON DUPLICATE KEY UPDATE ${ROLLUP_COLUMNS.map(column => `${column} = VALUES(${column})`).join(', ')}`;
+
+// Buckets follow the local wall-clock time readings are stored and read in, like bucketStart();
+// counting quarters from the epoch instead would align them to UTC, not to local hours and days
+const QUARTER_BUCKET = 'TIMESTAMP(DATE(timestamp), MAKETIME(HOUR(timestamp), MINUTE(timestamp) DIV 15 * 15, 0))';
+
+// Each coarser rollup is rebuilt from the one below it rather than from raw readings
+const COARSER_ROLLUPS = [
+  { table: 'power_rollups_hourly', source: 'power_rollups_15min', bucket: "DATE_FORMAT(bucket_start, '%Y-%m-%d %H:00:00')" },
+  { table: 'power_rollups_daily', source: 'power_rollups_hourly', bucket: 'DATE(bucket_start)' }
+];
+
+/**
+ * Start of the local 15-minute, hour or day bucket containing the date
+ */
+export const bucketStart = (date: Date, resolution: Exclude<SeriesResolution, 'raw'>) => {
+  const start = new Date(date);
+  start.setSeconds(0, 0);
+  if (resolution === '15min') {
+    start.setMinutes(start.getMinutes() - (start.getMinutes() % 15));
+  } else {
+    start.setMinutes(0);
+    if (resolution === 'day') start.setHours(0);
+  }
+  return start;
+};
+
+const addSeconds = (date: Date, seconds: number) => new Date(date.getTime() + seconds * 1000);
+
+/**
+ * Recompute every rollup bucket touched by readings between from and to (inclusive) for a meter.
+ * Buckets are rebuilt from scratch, so calling this again for the same range is harmless.
+ */
+export const updateRollups = async (meterId: number, from: Date, to: Date) => {
+  const [quarter, ...coarser] = ROLLUPS.map(({ resolution, seconds }) => ({
+    start: bucketStart(from, resolution),
+    end: addSeconds(bucketStart(to, resolution), seconds)
+  }));
+
+  // A reading's energy is its demand held for interval_seconds
+  await pool.query<ResultSetHeader>(
+    upsertRollup('power_rollups_15min', `
+      SELECT meter_id, bucket_start, energy_kwh, covered_seconds, min_kw, max_kw,
+        energy_kwh * 3600 / NULLIF(covered_seconds, 0), power_factor_sum, power_factor_samples, sample_count
+      FROM (
+        SELECT meter_id,
+          ${QUARTER_BUCKET} AS bucket_start,
+          SUM(power_usage * interval_seconds / 3600) AS energy_kwh,
+          SUM(interval_seconds) AS covered_seconds,
+          MIN(power_usage) AS min_kw,
+          MAX(power_usage) AS max_kw,
+          COALESCE(SUM(power_factor), 0) AS power_factor_sum,
+          COUNT(power_factor) AS power_factor_samples,
+          COUNT(*) AS sample_count
+        FROM power_readings
+        WHERE meter_id = ? AND timestamp >= ? AND timestamp < ? AND interval_seconds IS NOT NULL
+        GROUP BY meter_id, bucket_start
+      ) buckets`),
+    [meterId, quarter.start, quarter.end]
+  );
+
+  for (const [index, { table, source, bucket }] of COARSER_ROLLUPS.entries()) {
+    await pool.query<ResultSetHeader>(
+      upsertRollup(table, `
+        SELECT meter_id, ${bucket}, SUM(energy_kwh), SUM(covered_seconds), MIN(min_kw), MAX(max_kw),
+          MAX(peak_demand_kw), SUM(power_factor_sum), SUM(power_factor_samples), SUM(sample_count)
+        FROM ${source}
+        WHERE meter_id = ? AND bucket_start >= ? AND bucket_start < ?
+        GROUP BY meter_id, ${bucket}`),
+      [meterId, coarser[index].start, coarser[index].end]
+    );
+  }
+};
+
+/**
+ * Finest resolution whose point count for the range stays under SERIES_TARGET_POINTS.
+ * readingSeconds is how often the meter reports, used to estimate the raw point count.
+ */
+export const chooseResolution = (from: Date, to: Date, readingSeconds: number): SeriesResolution => {
+  const rangeSeconds = (to.getTime() - from.getTime()) / 1000;
+  if (rangeSeconds / readingSeconds <= SERIES_TARGET_POINTS) return 'raw';
+  const rollup = ROLLUPS.find(({ seconds }) => rangeSeconds / seconds <= SERIES_TARGET_POINTS);
+  return rollup ? rollup.resolution : 'day';
+};
+
+/**
+ * Number of points a resolution would return for the range
+ */
+export const estimatePoints = (from: Date, to: Date, resolution: SeriesResolution, readingSeconds: number) => {
+  const seconds = resolution === 'raw'
+    ? readingSeconds
+    : ROLLUPS.find(rollup => rollup.resolution === resolution)!.seconds;
+  return Math.ceil((to.getTime() - from.getTime()) / 1000 / seconds);
+};
+
+const round = (value: number, digits = 3) => Number(value.toFixed(digits));
+const optional = (value: number | null) => (value === null ? null : Number(value));
+
+/**
+ * Energy series for one meter between from (inclusive) and to (exclusive).
+ * Rollup points start at their bucket, so the first bucket may begin before from.
+ */
+export const getEnergySeries = async (meterId: number, from: Date, to: Date, resolution: SeriesResolution) => {
+  let points: SeriesPoint[];
+
+  if (resolution === 'raw') {
+    const [rows] = await pool.query<RawRow[]>(
+      `SELECT timestamp, power_usage, interval_seconds, power_factor
+       FROM power_readings
+       WHERE meter_id = ? AND timestamp >= ? AND timestamp < ?
+       ORDER BY timestamp ASC`,
+      [meterId, from, to]
+    );
+    points = rows.map(row => {
+      const kw = Number(row.power_usage);
+      return {
+        timestamp: new Date(row.timestamp).toISOString(),
+        energyKwh: row.interval_seconds ? round(kw * row.interval_seconds / 3600, 4) : null,
+        averageKw: kw,
+        minKw: kw,
+        maxKw: kw,
+        peakDemandKw: null,
+        powerFactor: optional(row.power_factor),
+        samples: 1
+      };
+    });
+  } else {
+    const { table } = ROLLUPS.find(rollup => rollup.resolution === resolution)!;
+    const [rows] = await pool.query<RollupRow[]>(
+      `SELECT * FROM ${table}
+       WHERE meter_id = ? AND bucket_start >= ? AND bucket_start < ?
+       ORDER BY bucket_start ASC`,
+      [meterId, bucketStart(from, resolution), to]
+    );
+    points = rows.map(row => ({
+      timestamp: new Date(row.bucket_start).toISOString(),
+      energyKwh: round(Number(row.energy_kwh), 4),
+      // Average over the part of the bucket that has readings, so gaps don't drag it down
+      averageKw: row.covered_seconds > 0 ? round(Number(row.energy_kwh) * 3600 / row.covered_seconds) : null,
+      minKw: optional(row.min_kw),
+      maxKw: optional(row.max_kw),
+      peakDemandKw: optional(row.peak_demand_kw),
+      powerFactor: row.power_factor_samples > 0
+        ? round(Number(row.power_factor_sum) / row.power_factor_samples)
+        : null,
+      samples: Number(row.sample_count)
+    }));
+  }
+
+  const demands = points.map(point => point.peakDemandKw).filter((value): value is number => value !== null);
+  return {
+    meterId,
+    resolution,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    points,
+    totals: {
+      energyKwh: round(points.reduce((sum, point) => sum + (point.energyKwh || 0), 0), 4),
+      peakDemandKw: demands.length > 0 ? Math.max(...demands) : null
+    }
+  };
+};
@@ -0,0 +1,344 @@
+/**
+ * Chart drawing for server-rendered reports. Stored chart contents use the Chart.js configuration
+ * the report builder saves ({ chartType, data: { labels, datasets }, options }); they are drawn as
+ * PDF vector graphics so output does not depend on a browser canvas or the machine it runs on.
+ */
+
+type Doc = PDFKit.PDFDocument;
+type RGB = [number, number, number];
+
+export interface ChartConfig {
+  chartType: string;
+  data?: {
+    labels?: unknown[];
+    datasets?: Array<{
+      label?: string;
+      data?: unknown[];
+      backgroundColor?: string | string[];
+      borderColor?: string | string[];
+      fill?: boolean | string;
+    }>;
+  };
+  options?: any;
+}
+
+interface Series {
+  label: string;
+  values: number[];
+  colors: string[];
+}
+
+// Same order as the default chart theme on the client
+const PALETTE = ['#4C68D7', '#5CC668', '#8A5CC6', '#F9BF31', '#E74C5E', '#607D8B', '#2196F3', '#FF9800', '#9C27B0', '#00BCD4'];
+
+const AXIS_COLOR = '#9E9E9E';
+const GRID_COLOR = '#E0E0E0';
+const TEXT_COLOR = '#424242';
+const FONT_SIZE = 7;
+const Y_AXIS_WIDTH = 40;
+const X_AXIS_HEIGHT = 14;
+const LEGEND_ROW_HEIGHT = 12;
+
+export const SUPPORTED_CHART_TYPES = ['bar', 'line', 'area', 'pie', 'doughnut'];
+
+/**
+ * Parse the colour notations Chart.js accepts that PDFKit does not (rgb/rgba, #rrggbbaa).
+ * Opacity is ignored: translucent fills would differ between PDF viewers.
+ */
+const parseColor = (color: string | undefined, fallback: string): string | RGB => {
+  if (!color) return fallback;
+  const rgb = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i);
+  if (rgb) {
+    return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])];
+  }
+  if (/^#[0-9a-f]{8}$/i.test(color)) {
+    return color.slice(0, 7);
+  }
+  return /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color) ? color : fallback;
+};
+
+const toNumber = (value: unknown): number => {
+  if (value && typeof value === 'object' && 'y' in (value as Record<string, unknown>)) {
+    return Number((value as Record<string, unknown>).y) || 0;
+  }
+  return Number(value) || 0;
+};
+
+const getSeries = (config: ChartConfig): Series[] =>
+  (config.data?.datasets || []).map((dataset, index) => {
+    const fallback = PALETTE[index % PALETTE.length];
+    const source = dataset.backgroundColor ?? dataset.borderColor;
+    const colors = Array.isArray(source) ? source : [source || fallback];
+    return {
+      label: dataset.label || `Series ${index + 1}`,
+      values: (dataset.data || []).map(toNumber),
+      colors: colors.map((color, i) => (typeof color === 'string' ? color : PALETTE[i % PALETTE.length]))
+    };
+  });
+
+const getLabels = (config: ChartConfig, series: Series[]): string[] => {
+  const labels = (config.data?.labels || []).map(label => (Array.isArray(label) ? label.join(' ') : String(label)));
+  const count = Math.max(labels.length, ...series.map(s => s.values.length), 0);
+  return Array.from({ length: count }, (_, i) => labels[i] ?? String(i + 1));
+};
+
+const formatTick = (value: number): string => {
+  const abs = Math.abs(value);
+  if (abs >= 1e6) return `${+(value / 1e6).toFixed(1)}M`;
+  if (abs >= 1e4) return `${+(value / 1e3).toFixed(1)}k`;
+  return String(+value.toFixed(2));
+};
+
+/**
+ * Round axis bounds out to a step of 1, 2 or 5 times a power of ten
+ */
+const niceScale = (min: number, max: number, tickCount = 5) => {
+  if (min === max) {
+    max = min === 0 ? 1 : min + Math.abs(min);
+  }
+  const rough = (max - min) / tickCount;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 5, 10].map(f => f * magnitude).find(s => s >= rough) || rough;
+  const niceMin = Math.floor(min / step) * step;
+  const niceMax = Math.ceil(max / step) * step;
+  const ticks: number[] = [];
+  for (let tick = niceMin; tick <= niceMax + step / 2; tick += step) {
+    ticks.push(tick);
+  }
+  return { min: niceMin, max: niceMax, ticks };
+};
+
+const getTitle = (config: ChartConfig): string | undefined => {
+  const title = config.options?.plugins?.title ?? config.options?.title;
+  if (!title || title.display === false) return undefined;
+  return Array.isArray(title.text) ? title.text.join(' ') : title.text;
+};
+
+const drawLegend = (doc: Doc, entries: Array<{ label: string; color: string }>, x: number, y: number, width: number) => {
+  doc.font('Helvetica').fontSize(FONT_SIZE);
+  let cursorX = x;
+  let cursorY = y;
+  for (const entry of entries) {
+    const itemWidth = 12 + doc.widthOfString(entry.label) + 10;
+    if (cursorX + itemWidth > x + width && cursorX > x) {
+      cursorX = x;
+      cursorY += LEGEND_ROW_HEIGHT;
+    }
+    doc.rect(cursorX, cursorY + 1, 8, 6).fill(parseColor(entry.color, PALETTE[0]));
+    doc.fillColor(TEXT_COLOR).text(entry.label, cursorX + 12, cursorY, { lineBreak: false });
+    cursorX += itemWidth;
+  }
+  return cursorY + LEGEND_ROW_HEIGHT - y;
+};
+
+// Rows the legend needs at the given width, so the plot can be sized before it is drawn
+const legendHeight = (doc: Doc, labels: string[], width: number) => {
+  doc.font('Helvetica').fontSize(FONT_SIZE);
+  let rows = 1;
+  let cursor = 0;
+  for (const label of labels) {
+    const itemWidth = 12 + doc.widthOfString(label) + 10;
+    if (cursor + itemWidth > width && cursor > 0) {
+      rows++;
+      cursor = 0;
+    }
+    cursor += itemWidth;
+  }
+  return rows * LEGEND_ROW_HEIGHT;
+};
+
+const drawCartesian = (
+  doc: Doc,
+  type: 'bar' | 'line' | 'area',
+  labels: string[],
+  series: Series[],
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) => {
+  const values = series.flatMap(s => s.values);
+  const scale = niceScale(Math.min(0, ...values), Math.max(0, ...values));
+  const plotX = x + Y_AXIS_WIDTH;
+  const plotWidth = width - Y_AXIS_WIDTH;
+  const plotHeight = height - X_AXIS_HEIGHT;
+  const toY = (value: number) => y + plotHeight - ((value - scale.min) / (scale.max - scale.min)) * plotHeight;
+
+  // Grid lines and y-axis labels
+  doc.font('Helvetica').fontSize(FONT_SIZE).lineWidth(0.5);
+  for (const tick of scale.ticks) {
+    const tickY = toY(tick);
+    doc.moveTo(plotX, tickY).lineTo(plotX + plotWidth, tickY).strokeColor(tick === 0 ? AXIS_COLOR : GRID_COLOR).stroke();
+    doc.fillColor(TEXT_COLOR).text(formatTick(tick), x, tickY - FONT_SIZE / 2, {
+      width: Y_AXIS_WIDTH - 4,
+      align: 'right',
+      lineBreak: false
+    });
+  }
+  doc.moveTo(plotX, y).lineTo(plotX, y + plotHeight).strokeColor(AXIS_COLOR).stroke();
+
+  // x-axis labels, thinned out so they do not overlap
+  const slot = labels.length > 0 ? plotWidth / labels.length : plotWidth;
+  const widest = Math.max(1, ...labels.map(label => doc.widthOfString(label)));
+  const every = Math.max(1, Math.ceil((widest + 4) / slot));
+  labels.forEach((label, i) => {
+    if (i % every !== 0) return;
+    doc.fillColor(TEXT_COLOR).text(label, plotX + i * slot - (every * slot - slot) / 2, y + plotHeight + 3, {
+      width: every * slot,
+      align: 'center',
+      lineBreak: false,
+      ellipsis: true,
+      height: FONT_SIZE + 2
+    });
+  });
+
+  if (type === 'bar') {
+    const groupWidth = slot * 0.8;
+    const barWidth = groupWidth / Math.max(1, series.length);
+    const zeroY = toY(Math.max(scale.min, 0));
+    series.forEach((s, seriesIndex) => {
+      s.values.forEach((value, i) => {
+        const barX = plotX + i * slot + (slot - groupWidth) / 2 + seriesIndex * barWidth;
+        const top = Math.min(toY(value), zeroY);
+        const color = s.colors[i % s.colors.length] ?? PALETTE[seriesIndex % PALETTE.length];
+        doc.rect(barX, top, Math.max(barWidth - 1, 0.5), Math.abs(toY(value) - zeroY))
+          .fill(parseColor(color, PALETTE[seriesIndex % PALETTE.length]));
+      });
+    });
+    return;
+  }
+
+  series.forEach((s, seriesIndex) => {
+    if (s.values.length === 0) return;
+    const color = parseColor(s.colors[0], PALETTE[seriesIndex % PALETTE.length]);
+    const points = s.values.map((value, i) => [plotX + i * slot + slot / 2, toY(value)] as const);
+
+    if (type === 'area') {
+      const baseline = toY(Math.max(scale.min, 0));
+      doc.moveTo(points[0][0], baseline);
+      points.forEach(([px, py]) => doc.lineTo(px, py));
+      doc.lineTo(points[points.length - 1][0], baseline).closePath().fillOpacity(0.25).fill(color).fillOpacity(1);
+    }
+
+    doc.lineWidth(1.25).moveTo(points[0][0], points[0][1]);
+    points.slice(1).forEach(([px, py]) => doc.lineTo(px, py));
+    doc.strokeColor(color).stroke();
+    if (points.length <= 60) {
+      points.forEach(([px, py]) => doc.circle(px, py, 1.5).fill(color));
+    }
+  });
+};
+
+const drawPie = (doc: Doc, s: Series, cutout: number, x: number, y: number, width: number, height: number) => {
+  const total = s.values.reduce((sum, value) => sum + Math.max(value, 0), 0);
+  const radius = Math.min(width, height) / 2;
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+
+  if (total <= 0) {
+    doc.circle(cx, cy, radius).lineWidth(0.5).strokeColor(GRID_COLOR).stroke();
+    return;
+  }
+
+  // Start at twelve o'clock and go clockwise like Chart.js
+  let angle = -Math.PI / 2;
+  s.values.forEach((value, i) => {
+    if (value <= 0) return;
+    const sweep = (value / total) * Math.PI * 2;
+    const color = parseColor(s.colors[i % s.colors.length] ?? PALETTE[i % PALETTE.length], PALETTE[i % PALETTE.length]);
+    if (sweep >= Math.PI * 2 - 1e-6) {
+      doc.circle(cx, cy, radius).fill(color);
+    } else {
+      const [x1, y1] = [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)];
+      const [x2, y2] = [cx + radius * Math.cos(angle + sweep), cy + radius * Math.sin(angle + sweep)];
+      doc.path(`M ${cx} ${cy} L ${x1} ${y1} A ${radius} ${radius} 0 ${sweep > Math.PI ? 1 : 0} 1 ${x2} ${y2} Z`).fill(color);
+    }
+    angle += sweep;
+  });
+
+  // Slice borders, then the hole for doughnuts
+  doc.lineWidth(1).strokeColor('#FFFFFF');
+  angle = -Math.PI / 2;
+  s.values.forEach(value => {
+    if (value <= 0) return;
+    doc.moveTo(cx, cy).lineTo(cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)).stroke();
+    angle += (value / total) * Math.PI * 2;
+  });
+  if (cutout > 0) {
+    doc.circle(cx, cy, radius * cutout).fill('#FFFFFF');
+  }
+
+  // Percentages on slices big enough to hold them
+  doc.font('Helvetica').fontSize(FONT_SIZE);
+  angle = -Math.PI / 2;
+  s.values.forEach(value => {
+    if (value <= 0) return;
+    const sweep = (value / total) * Math.PI * 2;
+    if (sweep > 0.35) {
+      const mid = angle + sweep / 2;
+      const labelRadius = radius * (cutout > 0 ? (1 + cutout) / 2 : 0.65);
+      const text = `${Math.round((value / total) * 100)}%`;
+      doc.fillColor('#FFFFFF').text(
+        text,
+        cx + labelRadius * Math.cos(mid) - 15,
+        cy + labelRadius * Math.sin(mid) - FONT_SIZE / 2,
+        { width: 30, align: 'center', lineBreak: false }
+      );
+    }
+    angle += sweep;
+  });
+  doc.fillColor(TEXT_COLOR);
+};
+
+/**
+ * Draw a chart into the given box. Returns false, drawing nothing, when the chart type is not
+ * supported so the caller can fall back to a table of its data.
+ */
+export const drawChart = (doc: Doc, config: ChartConfig, x: number, y: number, width: number, height: number): boolean => {
+  // Filled line charts are drawn as area charts
+  const isArea = config.chartType === 'line' && Boolean(config.data?.datasets?.some(dataset => dataset.fill));
+  const type = isArea ? 'area' : config.chartType;
+  if (!SUPPORTED_CHART_TYPES.includes(type)) {
+    return false;
+  }
+
+  const series = getSeries(config);
+  const labels = getLabels(config, series);
+  const title = getTitle(config);
+  let top = y;
+
+  if (title) {
+    doc.font('Helvetica-Bold').fontSize(9).fillColor(TEXT_COLOR).text(title, x, top, { width, align: 'center', lineBreak: false });
+    top += 14;
+  }
+
+  if (type === 'pie' || type === 'doughnut') {
+    const s = series[0] || { label: '', values: [], colors: [] };
+    const entries = labels.map((label, i) => ({ label, color: s.colors[i % s.colors.length] ?? PALETTE[i % PALETTE.length] }));
+    const legend = legendHeight(doc, labels, width);
+    drawPie(doc, s, type === 'doughnut' ? 0.5 : 0, x, top, width, y + height - top - legend - 6);
+    drawLegend(doc, entries, x, y + height - legend, width);
+  } else {
+    const showLegend = series.length > 1 || config.options?.plugins?.legend?.display === true;
+    const legend = showLegend ? legendHeight(doc, series.map(s => s.label), width) : 0;
+    drawCartesian(doc, type as 'bar' | 'line' | 'area', labels, series, x, top, width, y + height - top - legend - (showLegend ? 6 : 0));
+    if (showLegend) {
+      drawLegend(doc, series.map((s, i) => ({ label: s.label, color: s.colors[0] ?? PALETTE[i % PALETTE.length] })), x, y + height - legend, width);
+    }
+  }
+
+  doc.fillColor('#000000').strokeColor('#000000').lineWidth(1);
+  return true;
+};
+
+/**
+ * A chart's data as table headers and rows, for chart types that cannot be drawn
+ */
+export const chartToTable = (config: ChartConfig): { headers: string[]; rows: string[][] } => {
+  const series = getSeries(config);
+  const labels = getLabels(config, series);
+  return {
+    headers: ['', ...series.map(s => s.label)],
+    rows: labels.map((label, i) => [label, ...series.map(s => (s.values[i] === undefined ? '' : String(s.values[i])))])
+  };
+};
@@ -0,0 +1,201 @@
+import fs from 'fs';
+import path from 'path';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+import { pool } from '../config/database';
+import { emitToUser } from '../config/websocket';
+import { ReportRenderJob } from '../types';
+import logger from './logger';
+import { RENDER_DIR, UPLOAD_DIR, renderReportPdf } from './reportRenderer';
+
+// How often the queue is checked for jobs added by another server process
+const POLL_INTERVAL_MS = 5000;
+// Progress is saved at most this often; socket events go out on every update
+const PROGRESS_SAVE_INTERVAL_MS = 1000;
+const MAX_CONCURRENT_JOBS = Math.max(1, Number(process.env.REPORT_RENDER_CONCURRENCY) || 1);
+
+let pollTimer: NodeJS.Timeout | null = null;
+let runningJobs = 0;
+
+/**
+ * A job as sent to clients; the stored file path stays on the server
+ */
+export const toPublicJob = ({ file_path, ...job }: ReportRenderJob) => ({
+  ...job,
+  has_file: Boolean(file_path)
+});
+
+const emitJobUpdate = (job: ReportRenderJob) => {
+  if (job.requested_by) {
+    emitToUser(job.requested_by, 'reportRenderProgress', toPublicJob(job));
+  }
+};
+
+export const getRenderJob = async (jobId: number | string) => {
+  const [rows] = await pool.query<ReportRenderJob[]>('SELECT * FROM report_render_jobs WHERE id = ?', [jobId]);
+  return rows.length > 0 ? rows[0] : null;
+};
+
+export const getRenderJobsForReport = async (reportId: number | string, limit = 20) => {
+  const [rows] = await pool.query<ReportRenderJob[]>(
+    'SELECT * FROM report_render_jobs WHERE report_id = ? ORDER BY created_at DESC, id DESC LIMIT ?',
+    [reportId, limit]
+  );
+  return rows;
+};
+
+/**
+ * Queue a report for rendering. A report already waiting or being rendered is not queued twice;
+ * the pending job is returned instead.
+ */
+export const enqueueRenderJob = async (reportId: number, requestedBy: number) => {
+  const [pending] = await pool.query<ReportRenderJob[]>(
+    `SELECT * FROM report_render_jobs
+     WHERE report_id = ? AND status IN ('queued', 'running')
+     ORDER BY id DESC LIMIT 1`,
+    [reportId]
+  );
+  if (pending.length > 0) {
+    return { job: pending[0], created: false };
+  }
+
+  const [result] = await pool.query<ResultSetHeader>(
+    'INSERT INTO report_render_jobs (report_id, requested_by, message) VALUES (?, ?, ?)',
+    [reportId, requestedBy, 'Waiting in queue']
+  );
+  const job = (await getRenderJob(result.insertId))!;
+  emitJobUpdate(job);
+  processQueue();
+  return { job, created: true };
+};
+
+/**
+ * Cancel a job that has not started yet
+ * @returns Whether the job was cancelled
+ */
+export const cancelRenderJob = async (jobId: number) => {
+  const [result] = await pool.query<ResultSetHeader>(
+    "UPDATE report_render_jobs SET status = 'cancelled', message = 'Cancelled', completed_at = NOW() WHERE id = ? AND status = 'queued'",
+    [jobId]
+  );
+  if (result.affectedRows === 0) {
+    return false;
+  }
+  const job = await getRenderJob(jobId);
+  if (job) emitJobUpdate(job);
+  return true;
+};
+
+// Take the oldest queued job; the status check keeps two workers from claiming the same row
+const claimNextJob = async (): Promise<ReportRenderJob | null> => {
+  for (;;) {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      "SELECT id FROM report_render_jobs WHERE status = 'queued' ORDER BY created_at ASC, id ASC LIMIT 1"
+    );
+    if (rows.length === 0) {
+      return null;
+    }
+    const [result] = await pool.query<ResultSetHeader>(
+      "UPDATE report_render_jobs SET status = 'running', progress = 0, message = 'Starting', started_at = NOW() WHERE id = ? AND status = 'queued'",
+      [rows[0].id]
+    );
+    if (result.affectedRows > 0) {
+      return getRenderJob(rows[0].id);
+    }
+  }
+};
+
+const runJob = async (job: ReportRenderJob) => {
+  const relativePath = path.join(RENDER_DIR, `report-${job.report_id}-${job.id}.pdf`);
+  const outputPath = path.join(UPLOAD_DIR, relativePath);
+  let lastSavedAt = 0;
+
+  emitJobUpdate(job);
+  try {
+    const size = await renderReportPdf(job.report_id, outputPath, async (progress, message) => {
+      Object.assign(job, { progress, message });
+      emitJobUpdate(job);
+      if (Date.now() - lastSavedAt >= PROGRESS_SAVE_INTERVAL_MS) {
+        lastSavedAt = Date.now();
+        await pool.query('UPDATE report_render_jobs SET progress = ?, message = ? WHERE id = ?', [progress, message, job.id]);
+      }
+    });
+
+    // The report keeps only its latest rendering
+    const [reports] = await pool.query<RowDataPacket[]>('SELECT rendered_file_path FROM reports WHERE id = ?', [job.report_id]);
+    const previous: string | null = reports[0]?.rendered_file_path || null;
+
+    await pool.query(
+      "UPDATE report_render_jobs SET status = 'completed', progress = 100, message = 'Ready to download', file_path = ?, file_size = ?, completed_at = NOW() WHERE id = ?",
+      [relativePath, size, job.id]
+    );
+    await pool.query(
+      'UPDATE reports SET rendered_file_path = ?, rendered_file_size = ?, rendered_at = NOW() WHERE id = ?',
+      [relativePath, size, job.report_id]
+    );
+    if (previous && previous !== relativePath) {
+      fs.promises.unlink(path.join(UPLOAD_DIR, previous)).catch(() => undefined);
+      await pool.query('UPDATE report_render_jobs SET file_path = NULL WHERE report_id = ? AND file_path = ?', [job.report_id, previous]);
+    }
+    logger.info(`Rendered report ${job.report_id} (job ${job.id}, ${size} bytes)`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Rendering report ${job.report_id} failed (job ${job.id}):`, error);
+    await pool.query(
+      "UPDATE report_render_jobs SET status = 'failed', message = 'Rendering failed', error = ?, completed_at = NOW() WHERE id = ?",
+      [message, job.id]
+    ).catch(() => undefined);
+  }
+
+  const finished = await getRenderJob(job.id).catch(() => null);
+  if (finished) emitJobUpdate(finished);
+};
+
+/**
+ * Start queued jobs until the concurrency limit is reached
+ */
+const processQueue = async () => {
+  while (runningJobs < MAX_CONCURRENT_JOBS) {
+    runningJobs++;
+    let job: ReportRenderJob | null = null;
+    try {
+      job = await claimNextJob();
+    } catch (error) {
+      logger.error('Error claiming report render job:', error);
+    }
+    if (!job) {
+      runningJobs--;
+      return;
+    }
+    runJob(job).finally(() => {
+      runningJobs--;
+      processQueue();
+    });
+  }
+};
+
+/**
+ * Render queued reports in the background until stopReportRenderWorker is called. Jobs left
+ * running by a previous process are queued again, so only one server process should run the worker.
+ */
+export const startReportRenderWorker = async () => {
+  if (pollTimer) return;
+  pollTimer = setInterval(processQueue, POLL_INTERVAL_MS);
+  try {
+    const [result] = await pool.query<ResultSetHeader>(
+      "UPDATE report_render_jobs SET status = 'queued', progress = 0, message = 'Waiting in queue' WHERE status = 'running'"
+    );
+    if (result.affectedRows > 0) {
+      logger.info(`Requeued ${result.affectedRows} interrupted report render job(s)`);
+    }
+  } catch (error) {
+    logger.error('Error requeuing interrupted report render jobs:', error);
+  }
+  processQueue();
+};
+
+export const stopReportRenderWorker = () => {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+};
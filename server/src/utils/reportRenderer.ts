@@ -0,0 +1,500 @@
+import fs from 'fs';
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import { RowDataPacket } from 'mysql2';
+import { pool } from '../config/database';
+import Report from '../models/Report';
+import { ReportSignature } from '../types';
+import { chartToTable, ChartConfig, drawChart } from './reportCharts';
+import {
+  checkSignature,
+  getReportSignatures,
+  getVerificationQrCode,
+  getVerificationUrl,
+  hashReportContent,
+  SIGNATURE_HASH_ALGORITHM
+} from './reportSignatures';
+
+type Doc = PDFKit.PDFDocument;
+
+export const UPLOAD_DIR = path.join(__dirname, '../../uploads');
+export const RENDER_DIR = 'reports';
+
+// A4 with the 15 mm margins the browser generator uses, in points
+const MARGIN = 42.5;
+const HEADING_SIZES: Record<number, number> = { 1: 16, 2: 13, 3: 12, 4: 11, 5: 10, 6: 10 };
+const TABLE_HEADER_FILL = '#2C3E50';
+const TABLE_BORDER = '#BDBDBD';
+const TABLE_FONT_SIZE = 8;
+const CELL_PADDING = 5;
+const DEFAULT_CHART_HEIGHT = 300;
+const SIGNATURE_QR_SIZE = 72;
+const SIGNATURE_IMAGE_SIZE: [number, number] = [120, 40];
+const WARNING_COLOR = '#C62828';
+
+export type RenderProgressCallback = (progress: number, message: string) => Promise<void> | void;
+
+interface ReportContentRow extends RowDataPacket {
+  id: number;
+  content_type: string;
+  content: any;
+  order_index: number;
+}
+
+interface Heading {
+  title: string;
+  level: number;
+  page?: number;
+}
+
+interface TocEntry {
+  heading: Heading;
+  page: number;
+  y: number;
+}
+
+interface RenderState {
+  headings: Heading[];
+  tocEntries: TocEntry[];
+  // Zero-based page being written, kept current by a pageAdded listener
+  pageIndex: number;
+}
+
+const parseContent = (content: unknown) => {
+  if (typeof content !== 'string') return content || {};
+  try {
+    return JSON.parse(content);
+  } catch {
+    return { text: content };
+  }
+};
+
+// Text content may be HTML from the rich text editor; PDF output is plain text with its line breaks
+const htmlToText = (html: string) =>
+  html
+    .replace(/<\s*br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li)>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '• ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const contentWidth = (doc: Doc) => doc.page.width - MARGIN * 2;
+const pageBottom = (doc: Doc) => doc.page.height - MARGIN;
+
+// Start a new page when less than the given height is left on this one
+const ensureSpace = (doc: Doc, height: number) => {
+  if (doc.y + height > pageBottom(doc)) {
+    doc.addPage();
+  }
+};
+
+const addSectionHeading = (doc: Doc, heading: Heading, state: RenderState) => {
+  const size = HEADING_SIZES[heading.level] || 12;
+  ensureSpace(doc, size + 40);
+  doc.moveDown(0.5);
+  heading.page = state.pageIndex;
+  doc.font('Helvetica-Bold').fontSize(size).fillColor('#000000').text(heading.title, MARGIN, doc.y, { width: contentWidth(doc) });
+  if (heading.level <= 2) {
+    const lineY = doc.y + 1;
+    doc.moveTo(MARGIN, lineY).lineTo(MARGIN + contentWidth(doc), lineY).lineWidth(0.5).strokeColor('#000000').stroke();
+  }
+  doc.moveDown(0.6);
+};
+
+// PDFKit flows long text onto new pages itself
+const addParagraph = (doc: Doc, text: string) => {
+  doc.font('Helvetica').fontSize(10).fillColor('#000000');
+  ensureSpace(doc, doc.currentLineHeight(true) * 2);
+  doc.text(text, MARGIN, doc.y, { width: contentWidth(doc), lineGap: 2 });
+  doc.moveDown(0.8);
+};
+
+const addCaption = (doc: Doc, caption: string) => {
+  doc.font('Helvetica').fontSize(9).fillColor('#646464')
+    .text(caption, MARGIN, doc.y + 4, { width: contentWidth(doc), align: 'center' });
+  doc.fillColor('#000000');
+};
+
+const addTable = (doc: Doc, headers: string[], rows: unknown[][], caption?: string) => {
+  const width = contentWidth(doc);
+  const columnCount = Math.max(headers.length, ...rows.map(row => row.length), 1);
+  const columnWidth = width / columnCount;
+  const cells = (row: unknown[]) => Array.from({ length: columnCount }, (_, i) => (row[i] === null || row[i] === undefined ? '' : String(row[i])));
+
+  const rowHeight = (values: string[], font: string) => {
+    doc.font(font).fontSize(TABLE_FONT_SIZE);
+    return Math.max(...values.map(value => doc.heightOfString(value, { width: columnWidth - CELL_PADDING * 2 }))) + CELL_PADDING * 2;
+  };
+
+  const drawRow = (values: string[], header: boolean) => {
+    const font = header ? 'Helvetica-Bold' : 'Helvetica';
+    const height = rowHeight(values, font);
+    const top = doc.y;
+    values.forEach((value, i) => {
+      const x = MARGIN + i * columnWidth;
+      if (header) {
+        doc.rect(x, top, columnWidth, height).fill(TABLE_HEADER_FILL);
+      }
+      doc.rect(x, top, columnWidth, height).lineWidth(0.5).strokeColor(TABLE_BORDER).stroke();
+      doc.font(font).fontSize(TABLE_FONT_SIZE).fillColor(header ? '#FFFFFF' : '#000000')
+        .text(value, x + CELL_PADDING, top + CELL_PADDING, { width: columnWidth - CELL_PADDING * 2 });
+    });
+    doc.x = MARGIN;
+    doc.y = top + height;
+  };
+
+  const headerValues = cells(headers);
+  const headerHeight = rowHeight(headerValues, 'Helvetica-Bold');
+
+  if (caption) {
+    ensureSpace(doc, headerHeight * 2 + 20);
+    doc.font('Helvetica-Bold').fontSize(10).fillColor('#000000').text(caption, MARGIN, doc.y, { width });
+    doc.moveDown(0.3);
+  }
+
+  ensureSpace(doc, headerHeight * 2);
+  drawRow(headerValues, true);
+  for (const row of rows) {
+    const values = cells(row);
+    // Repeat the header at the top of each page the table continues on
+    if (doc.y + rowHeight(values, 'Helvetica') > pageBottom(doc)) {
+      doc.addPage();
+      drawRow(headerValues, true);
+    }
+    drawRow(values, false);
+  }
+  doc.fillColor('#000000');
+  doc.moveDown(1);
+};
+
+const addChart = (doc: Doc, content: any) => {
+  const height = Math.min(Number(content.height) || DEFAULT_CHART_HEIGHT, pageBottom(doc) - MARGIN - 30) * 0.75;
+  ensureSpace(doc, height + (content.caption ? 25 : 10));
+
+  const top = doc.y;
+  const config: ChartConfig = { chartType: content.chartType, data: content.data, options: content.options };
+  if (!drawChart(doc, config, MARGIN, top, contentWidth(doc), height)) {
+    // Chart types without a vector renderer are shown as their data
+    const table = chartToTable(config);
+    addTable(doc, table.headers, table.rows, content.caption);
+    return;
+  }
+  doc.x = MARGIN;
+  doc.y = top + height;
+  if (content.caption) {
+    addCaption(doc, content.caption);
+  }
+  doc.moveDown(1);
+};
+
+/**
+ * Images are read from the uploads directory or a data URL; remote images are not fetched
+ */
+const loadImage = (url: string): Buffer | null => {
+  const dataUrl = url.match(/^data:image\/(png|jpe?g);base64,(.+)$/i);
+  if (dataUrl) {
+    return Buffer.from(dataUrl[2], 'base64');
+  }
+  const uploadPath = url.replace(/^https?:\/\/[^/]+/i, '').match(/^\/uploads\/(.+)$/);
+  if (uploadPath) {
+    const filePath = path.resolve(UPLOAD_DIR, decodeURIComponent(uploadPath[1]));
+    if (filePath.startsWith(UPLOAD_DIR + path.sep) && fs.existsSync(filePath)) {
+      return fs.readFileSync(filePath);
+    }
+  }
+  return null;
+};
+
+const addImage = (doc: Doc, content: any) => {
+  const image = content.url ? loadImage(content.url) : null;
+  if (!image) {
+    addParagraph(doc, `[Image not available${content.caption ? `: ${content.caption}` : ''}]`);
+    return;
+  }
+  const maxWidth = Math.min(Number(content.width) * 0.75 || contentWidth(doc), contentWidth(doc));
+  const maxHeight = Math.min(Number(content.height) * 0.75 || 350, pageBottom(doc) - MARGIN - 30);
+  ensureSpace(doc, maxHeight + (content.caption ? 25 : 10));
+
+  const top = doc.y;
+  try {
+    doc.image(image, MARGIN + (contentWidth(doc) - maxWidth) / 2, top, { fit: [maxWidth, maxHeight], align: 'center' });
+  } catch {
+    // Only PNG and JPEG can be embedded
+    addParagraph(doc, `[Image could not be embedded${content.caption ? `: ${content.caption}` : ''}]`);
+    return;
+  }
+  doc.x = MARGIN;
+  doc.y = top + maxHeight;
+  if (content.caption) {
+    addCaption(doc, content.caption);
+  }
+  doc.moveDown(1);
+};
+
+// Lists the report's headings now; page numbers are filled in once every page exists
+const addTableOfContents = (doc: Doc, content: any, state: RenderState) => {
+  const maxDepth = Number(content.maxDepth) || 3;
+  addSectionHeading(doc, { title: content.title || 'Table of Contents', level: 1 }, state);
+  doc.font('Helvetica').fontSize(10);
+  for (const heading of state.headings.filter(item => item.level <= maxDepth)) {
+    ensureSpace(doc, 16);
+    const y = doc.y;
+    doc.fillColor('#000000').text(heading.title, MARGIN + (heading.level - 1) * 12, y, {
+      width: contentWidth(doc) - 40 - (heading.level - 1) * 12,
+      lineBreak: false,
+      ellipsis: true
+    });
+    state.tocEntries.push({ heading, page: state.pageIndex, y });
+    doc.x = MARGIN;
+    doc.y = y + 16;
+  }
+  doc.moveDown(1);
+};
+
+/**
+ * Verification block: each signature with its hash, state and a QR code of its verification page,
+ * so a printed copy can be checked against the platform
+ */
+const addSignatures = async (doc: Doc, signatures: ReportSignature[], currentHash: string | null, state: RenderState) => {
+  ensureSpace(doc, 140);
+  addSectionHeading(doc, { title: 'Signatures', level: 1 }, state);
+
+  for (const signature of signatures) {
+    const check = checkSignature(signature, currentHash);
+    const blockHeight = 96 + (signature.comments ? 14 : 0);
+    ensureSpace(doc, blockHeight + 12);
+    const top = doc.y;
+    const textLeft = MARGIN + SIGNATURE_QR_SIZE + 12;
+    const textWidth = contentWidth(doc) - SIGNATURE_QR_SIZE - 12 - SIGNATURE_IMAGE_SIZE[0] - 8;
+
+    doc.image(await getVerificationQrCode(signature.verification_code), MARGIN, top, {
+      width: SIGNATURE_QR_SIZE,
+      height: SIGNATURE_QR_SIZE
+    });
+    if (signature.signature_image) {
+      try {
+        doc.image(
+          Buffer.from(signature.signature_image.replace(/^data:image\/png;base64,/, ''), 'base64'),
+          MARGIN + contentWidth(doc) - SIGNATURE_IMAGE_SIZE[0],
+          top,
+          { fit: SIGNATURE_IMAGE_SIZE, align: 'right' }
+        );
+      } catch {
+        // A damaged drawing leaves the rest of the block readable
+      }
+    }
+
+    doc.font('Helvetica-Bold').fontSize(10).fillColor('#000000')
+      .text(`${signature.signer_name} (${signature.signer_role})`, textLeft, top, { width: textWidth });
+    doc.font('Helvetica').fontSize(8).fillColor('#333333')
+      .text(`Signed on ${new Date(signature.signed_at).toLocaleString('en-US')}${signature.report_version ? ` · version ${signature.report_version}` : ''}`, { width: textWidth })
+      .text(`${SIGNATURE_HASH_ALGORITHM.toUpperCase()}: ${signature.content_hash}`, { width: textWidth })
+      .text(`Verify: ${getVerificationUrl(signature.verification_code)}`, { width: textWidth });
+    if (signature.comments) {
+      doc.font('Helvetica-Oblique').text(signature.comments, { width: textWidth });
+    }
+    if (!check.seal_valid || !check.content_matches) {
+      doc.font('Helvetica-Bold').fillColor(WARNING_COLOR).text(
+        !check.seal_valid
+          ? 'The signature record has been altered and cannot be trusted.'
+          : 'The report was modified after this signature.',
+        { width: textWidth }
+      );
+    }
+
+    doc.fillColor('#000000');
+    doc.x = MARGIN;
+    doc.y = Math.max(doc.y, top + SIGNATURE_QR_SIZE) + 12;
+  }
+};
+
+const addHeader = (doc: Doc, report: RowDataPacket) => {
+  doc.font('Helvetica').fontSize(8).fillColor('#646464')
+    .text(`Generated on: ${new Date().toLocaleString('en-US')}`, MARGIN, MARGIN - 20, { width: contentWidth(doc), align: 'right' });
+  doc.font('Helvetica-Bold').fontSize(18).fillColor('#000000')
+    .text(report.title, MARGIN, MARGIN, { width: contentWidth(doc), align: 'center' });
+
+  const details = [
+    report.audit_title && `Audit: ${report.audit_title}`,
+    report.creator_name && `Prepared by: ${report.creator_name}`,
+    `Version ${report.version || 1}`
+  ].filter(Boolean).join('   ·   ');
+  doc.font('Helvetica').fontSize(9).fillColor('#646464').text(details, { width: contentWidth(doc), align: 'center' });
+  doc.moveDown(0.5);
+
+  if (report.description) {
+    doc.font('Helvetica-Oblique').fontSize(10).fillColor('#000000')
+      .text(report.description, MARGIN, doc.y, { width: contentWidth(doc), align: 'center' });
+  }
+  doc.fillColor('#000000');
+  doc.moveDown(1.5);
+};
+
+// Page numbers in the footer and in the table of contents
+const addPageNumbers = (doc: Doc, state: RenderState) => {
+  const range = doc.bufferedPageRange();
+  for (const entry of state.tocEntries) {
+    doc.switchToPage(range.start + entry.page);
+    doc.font('Helvetica').fontSize(10).fillColor('#000000').text(
+      String((entry.heading.page ?? 0) + 1),
+      MARGIN + contentWidth(doc) - 40,
+      entry.y,
+      { width: 40, align: 'right', lineBreak: false }
+    );
+  }
+  for (let i = 0; i < range.count; i++) {
+    doc.switchToPage(range.start + i);
+    // Writing inside the bottom margin would otherwise start a new page
+    const bottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.font('Helvetica').fontSize(8).fillColor('#646464').text(
+      `Page ${i + 1} of ${range.count}`,
+      MARGIN,
+      doc.page.height - MARGIN / 2 - 8,
+      { width: contentWidth(doc), align: 'center', lineBreak: false }
+    );
+    doc.page.margins.bottom = bottom;
+  }
+};
+
+/**
+ * Load a report with its audit, author and ordered contents
+ * @param reportId Report ID
+ */
+export const loadReportForRendering = async (reportId: number) => {
+  const [reports] = await pool.query<RowDataPacket[]>(
+    `SELECT r.*, u.username AS creator_name, ea.title AS audit_title
+     FROM reports r
+     LEFT JOIN users u ON r.created_by = u.id
+     LEFT JOIN energy_audits ea ON r.audit_id = ea.id
+     WHERE r.id = ?`,
+    [reportId]
+  );
+  if (reports.length === 0) {
+    return null;
+  }
+  const [contents] = await pool.query<ReportContentRow[]>(
+    'SELECT id, content_type, content, order_index FROM report_contents WHERE report_id = ? ORDER BY order_index ASC, id ASC',
+    [reportId]
+  );
+  return {
+    report: reports[0],
+    contents: contents.map(row => ({ ...row, content: parseContent(row.content) }))
+  };
+};
+
+/**
+ * Render a report's stored contents to a PDF file.
+ * @param reportId Report ID
+ * @param outputPath Absolute path of the file to write
+ * @param onProgress Called after each content block with a percentage of the work done
+ * @returns Size of the written file in bytes
+ */
+export const renderReportPdf = async (
+  reportId: number,
+  outputPath: string,
+  onProgress: RenderProgressCallback = () => undefined
+): Promise<number> => {
+  const loaded = await loadReportForRendering(reportId);
+  if (!loaded) {
+    throw new Error('Report not found');
+  }
+  const { report, contents } = loaded;
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: MARGIN,
+    bufferPages: true,
+    info: {
+      Title: report.title,
+      Author: report.creator_name || 'Energy Audit Platform',
+      Subject: 'Energy Audit Report',
+      Keywords: 'energy, audit, report',
+      Creator: 'Energy Audit Platform'
+    }
+  });
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  const output = fs.createWriteStream(outputPath);
+  const finished = new Promise<void>((resolve, reject) => {
+    output.on('finish', resolve);
+    output.on('error', reject);
+  });
+  doc.pipe(output);
+
+  try {
+    const state: RenderState = {
+      // Headings are known up front so a table of contents can come before them
+      headings: contents
+        .filter(item => item.content_type === 'section_header')
+        .map(item => ({ title: String(item.content.title || ''), level: Number(item.content.level) || 1 })),
+      tocEntries: [],
+      pageIndex: 0
+    };
+    doc.on('pageAdded', () => {
+      state.pageIndex++;
+    });
+    let headingIndex = 0;
+
+    addHeader(doc, report);
+    await onProgress(5, 'Laying out report');
+
+    for (let i = 0; i < contents.length; i++) {
+      const { content_type: type, content } = contents[i];
+      switch (type) {
+        case 'section_header':
+          addSectionHeading(doc, state.headings[headingIndex++], state);
+          break;
+        case 'text':
+          addParagraph(doc, content.isHtml ? htmlToText(String(content.text || '')) : String(content.text || ''));
+          break;
+        case 'table':
+          addTable(doc, content.headers || [], content.rows || [], content.caption);
+          break;
+        case 'chart':
+          addChart(doc, content);
+          break;
+        case 'image':
+          addImage(doc, content);
+          break;
+        case 'page_break':
+          doc.addPage();
+          break;
+        case 'toc':
+          addTableOfContents(doc, content, state);
+          break;
+        default:
+          // Custom blocks have no fixed shape; show any text they carry
+          if (content.text) {
+            addParagraph(doc, String(content.text));
+          }
+      }
+      await onProgress(5 + Math.round(((i + 1) / Math.max(contents.length, 1)) * 85), `Rendered ${i + 1} of ${contents.length} blocks`);
+    }
+
+    const signatures = await getReportSignatures(reportId);
+    if (signatures.length > 0) {
+      const current = await Report.getById(reportId);
+      await addSignatures(doc, signatures, current ? hashReportContent(current) : null, state);
+    }
+
+    addPageNumbers(doc, state);
+    await onProgress(95, 'Writing file');
+    doc.end();
+    await finished;
+  } catch (error) {
+    doc.end();
+    await finished.catch(() => undefined);
+    fs.promises.unlink(outputPath).catch(() => undefined);
+    throw error;
+  }
+
+  return (await fs.promises.stat(outputPath)).size;
+};
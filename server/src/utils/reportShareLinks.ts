@@ -0,0 +1,221 @@
+import * as bcrypt from 'bcrypt';
+import * as crypto from 'crypto';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+import { pool } from '../config/database';
+import { ReportShareLink, ReportShareLinkStatus } from '../types';
+import { getLockoutMinutes, hashToken, SessionClient } from './authSessions';
+
+// Wrong passwords allowed before a link is locked; each further one doubles the lock
+export const SHARE_LINK_LOCKOUT_THRESHOLD = 5;
+// Entries of the access log returned to the report owner
+const ACCESS_LOG_LIMIT = 200;
+
+export type ShareLinkAction =
+  | 'REPORT_LINK_CREATED'
+  | 'REPORT_LINK_REVOKED'
+  | 'REPORT_LINK_VIEWED'
+  | 'REPORT_LINK_DENIED'
+  | 'REPORT_LINK_PASSWORD_FAILED';
+
+export interface ShareLinkOptions {
+  label?: string | null;
+  password?: string | null;
+  expiresAt?: Date | null;
+  maxViews?: number | null;
+}
+
+export const getShareLinkStatus = (link: ReportShareLink): ReportShareLinkStatus => {
+  if (link.revoked_at) return 'revoked';
+  if (link.expires_at && new Date(link.expires_at).getTime() <= Date.now()) return 'expired';
+  if (link.max_views !== null && link.view_count >= link.max_views) return 'exhausted';
+  return 'active';
+};
+
+export const isShareLinkLocked = (link: ReportShareLink) =>
+  !!link.locked_until && new Date(link.locked_until).getTime() > Date.now();
+
+/**
+ * A link as shown to the report owner; hashes stay on the server
+ */
+export const toPublicShareLink = ({ token_hash, password_hash, ...link }: ReportShareLink) => ({
+  ...link,
+  has_password: Boolean(password_hash),
+  status: getShareLinkStatus({ token_hash, password_hash, ...link } as ReportShareLink)
+});
+
+/**
+ * Write a share link event to audit_logs against the report. Anonymous viewers have no user ID;
+ * their address and browser are kept in the details.
+ */
+export const recordShareLinkEvent = (
+  link: Pick<ReportShareLink, 'id' | 'report_id' | 'label'>,
+  action: ShareLinkAction,
+  userId: number | null,
+  client: SessionClient | null,
+  details: Record<string, unknown> = {}
+) =>
+  pool.query<ResultSetHeader>(
+    'INSERT INTO audit_logs (user_id, action, details, entity_type, entity_id) VALUES (?, ?, ?, ?, ?)',
+    [
+      userId,
+      action,
+      JSON.stringify({
+        linkId: link.id,
+        label: link.label,
+        ...(client ? { ip: client.ipAddress, userAgent: client.userAgent } : {}),
+        ...details
+      }),
+      'report',
+      String(link.report_id)
+    ]
+  );
+
+/**
+ * Create a share link for a report
+ * @returns The stored link and its token, which is not kept and cannot be shown again
+ */
+export const createShareLink = async (reportId: number, userId: number, options: ShareLinkOptions) => {
+  const token = crypto.randomBytes(32).toString('hex');
+  const passwordHash = options.password ? await bcrypt.hash(options.password, await bcrypt.genSalt(10)) : null;
+
+  const [result] = await pool.query<ResultSetHeader>(
+    `INSERT INTO report_share_links (report_id, token_hash, label, password_hash, expires_at, max_views, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      reportId,
+      hashToken(token),
+      options.label || null,
+      passwordHash,
+      options.expiresAt || null,
+      options.maxViews || null,
+      userId
+    ]
+  );
+  const link = (await getShareLink(result.insertId))!;
+  await recordShareLinkEvent(link, 'REPORT_LINK_CREATED', userId, null, {
+    hasPassword: Boolean(passwordHash),
+    expiresAt: link.expires_at,
+    maxViews: link.max_views
+  });
+  return { link, token };
+};
+
+export const getShareLink = async (linkId: number | string) => {
+  const [rows] = await pool.query<ReportShareLink[]>(
+    `SELECT l.*, u.username AS created_by_name
+     FROM report_share_links l
+     LEFT JOIN users u ON l.created_by = u.id
+     WHERE l.id = ?`,
+    [linkId]
+  );
+  return rows.length > 0 ? rows[0] : null;
+};
+
+export const findShareLinkByToken = async (token: string) => {
+  const [rows] = await pool.query<ReportShareLink[]>(
+    'SELECT * FROM report_share_links WHERE token_hash = ?',
+    [hashToken(token)]
+  );
+  return rows.length > 0 ? rows[0] : null;
+};
+
+export const getShareLinksForReport = async (reportId: number | string) => {
+  const [rows] = await pool.query<ReportShareLink[]>(
+    `SELECT l.*, u.username AS created_by_name
+     FROM report_share_links l
+     LEFT JOIN users u ON l.created_by = u.id
+     WHERE l.report_id = ?
+     ORDER BY l.created_at DESC, l.id DESC`,
+    [reportId]
+  );
+  return rows;
+};
+
+/**
+ * Revoke a link; links already revoked are left as they were
+ * @returns Whether the link was revoked
+ */
+export const revokeShareLink = async (link: ReportShareLink, userId: number) => {
+  const [result] = await pool.query<ResultSetHeader>(
+    'UPDATE report_share_links SET revoked_at = NOW(), revoked_by = ? WHERE id = ? AND revoked_at IS NULL',
+    [userId, link.id]
+  );
+  if (result.affectedRows === 0) {
+    return false;
+  }
+  await recordShareLinkEvent(link, 'REPORT_LINK_REVOKED', userId, null);
+  return true;
+};
+
+/**
+ * Check a password against a protected link. Wrong passwords count towards locking the link;
+ * a correct one clears the count.
+ * @returns Whether the password was right, and the count of wrong ones including this attempt
+ */
+export const verifyShareLinkPassword = async (link: ReportShareLink, password: string) => {
+  if (await bcrypt.compare(password, link.password_hash || '')) {
+    if (link.failed_attempts > 0) {
+      await pool.query('UPDATE report_share_links SET failed_attempts = 0, locked_until = NULL WHERE id = ?', [link.id]);
+    }
+    return { valid: true, failedAttempts: 0 };
+  }
+
+  // Counted in the database so parallel guesses are all counted; LAST_INSERT_ID() hands the new
+  // count back with the result
+  const [result] = await pool.query<ResultSetHeader>(
+    'UPDATE report_share_links SET failed_attempts = LAST_INSERT_ID(failed_attempts + 1) WHERE id = ?',
+    [link.id]
+  );
+  const failedAttempts = result.insertId;
+  const lockMinutes = getLockoutMinutes(failedAttempts, SHARE_LINK_LOCKOUT_THRESHOLD);
+  if (lockMinutes > 0) {
+    // A shorter lock from a parallel request must not cut a longer one short
+    await pool.query(
+      'UPDATE report_share_links SET locked_until = GREATEST(COALESCE(locked_until, NOW()), DATE_ADD(NOW(), INTERVAL ? MINUTE)) WHERE id = ?',
+      [lockMinutes, link.id]
+    );
+  }
+  return { valid: false, failedAttempts };
+};
+
+/**
+ * Count a view. The view limit is checked in the same statement, so parallel requests cannot
+ * go over it.
+ * @returns Whether the view was allowed
+ */
+export const consumeShareLinkView = async (link: ReportShareLink) => {
+  const [result] = await pool.query<ResultSetHeader>(
+    `UPDATE report_share_links
+     SET view_count = view_count + 1, last_viewed_at = NOW()
+     WHERE id = ? AND revoked_at IS NULL
+       AND (expires_at IS NULL OR expires_at > NOW())
+       AND (max_views IS NULL OR view_count < max_views)`,
+    [link.id]
+  );
+  return result.affectedRows > 0;
+};
+
+const parseDetails = (details: unknown) => {
+  if (typeof details !== 'string') return details;
+  try {
+    return JSON.parse(details);
+  } catch {
+    return { message: details };
+  }
+};
+
+/**
+ * Share link events of a report, newest first
+ */
+export const getShareLinkAccessLog = async (reportId: number | string) => {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT l.id, l.user_id, u.username, l.action, l.details, l.created_at
+     FROM audit_logs l
+     LEFT JOIN users u ON l.user_id = u.id
+     WHERE l.entity_type = 'report' AND l.entity_id = ? AND l.action LIKE 'REPORT\\_LINK\\_%'
+     ORDER BY l.created_at DESC, l.id DESC
+     LIMIT ?`,
+    [String(reportId), ACCESS_LOG_LIMIT]
+  );
+  return rows.map(row => ({ ...row, details: parseDetails(row.details) }));
+};
@@ -0,0 +1,173 @@
+import * as crypto from 'crypto';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+import QRCode from 'qrcode';
+import { pool } from '../config/database';
+import { ReportSignature } from '../types';
+import { getJwtSecret } from './authSessions';
+import { ensureBaselineVersion, sortKeys, toSnapshot } from './reportVersions';
+
+export const SIGNATURE_HASH_ALGORITHM = 'sha256';
+const QR_CODE_OPTIONS = { margin: 1, width: 240, errorCorrectionLevel: 'M' as const };
+
+export interface SignatureCheck {
+  // The record is as it was written when the report was signed
+  seal_valid: boolean;
+  // The report still has the content that was signed
+  content_matches: boolean;
+}
+
+// Signature seals use their own key so they cannot be produced with any other token
+const getSealSecret = () =>
+  crypto.createHmac('sha256', getJwtSecret()).update('report-signature').digest('hex');
+
+/**
+ * Read at call time; the environment is loaded after modules are imported
+ */
+const getClientUrl = () => (process.env.CLIENT_URL || 'http://localhost:3000').replace(/\/+$/, '');
+
+export const getVerificationUrl = (code: string) => `${getClientUrl()}/verify/signatures/${code}`;
+
+/**
+ * Hash of what a signature vouches for: title, description, type, contents and metadata, with
+ * object keys sorted. Status is left out so publishing or archiving a signed report keeps it signed.
+ * @param report Report as returned by Report.getById
+ */
+export const hashReportContent = (report: any) => {
+  const { status, ...content } = toSnapshot(report);
+  return crypto.createHash(SIGNATURE_HASH_ALGORITHM).update(JSON.stringify(sortKeys(content))).digest('hex');
+};
+
+const toIso = (value: Date | string) => new Date(value).toISOString();
+
+/**
+ * HMAC over every field of a stored signature, including its ID and time as read back from the
+ * database
+ */
+const sealSignature = (signature: ReportSignature) =>
+  crypto
+    .createHmac('sha256', getSealSecret())
+    .update(
+      JSON.stringify([
+        signature.id,
+        signature.report_id,
+        signature.report_version,
+        signature.content_hash,
+        signature.signer_id,
+        signature.signer_name,
+        signature.signer_role,
+        signature.signature_image
+          ? crypto.createHash('sha256').update(signature.signature_image).digest('hex')
+          : null,
+        signature.comments,
+        signature.verification_code,
+        toIso(signature.signed_at)
+      ])
+    )
+    .digest('hex');
+
+export const checkSignature = (signature: ReportSignature, currentHash: string | null): SignatureCheck => {
+  const expected = sealSignature(signature);
+  return {
+    seal_valid:
+      !!signature.seal &&
+      signature.seal.length === expected.length &&
+      crypto.timingSafeEqual(Buffer.from(signature.seal), Buffer.from(expected)),
+    content_matches: currentHash !== null && signature.content_hash === currentHash
+  };
+};
+
+/**
+ * A signature as shown in the app, with the result of checking it against the current report and
+ * the QR code that exported PDFs print next to it
+ */
+export const toPublicSignature = async (signature: ReportSignature, currentHash: string | null) => {
+  const verificationUrl = getVerificationUrl(signature.verification_code);
+  return {
+    ...signature,
+    ...checkSignature(signature, currentHash),
+    verification_url: verificationUrl,
+    qr_code: await QRCode.toDataURL(verificationUrl, QR_CODE_OPTIONS)
+  };
+};
+
+export const getReportSignatures = async (reportId: number | string) => {
+  const [rows] = await pool.query<ReportSignature[]>(
+    'SELECT * FROM report_signatures WHERE report_id = ? ORDER BY signed_at ASC, id ASC',
+    [reportId]
+  );
+  return rows;
+};
+
+export const findSignatureByCode = async (code: string) => {
+  const [rows] = await pool.query<ReportSignature[]>(
+    'SELECT * FROM report_signatures WHERE verification_code = ?',
+    [code]
+  );
+  return rows.length > 0 ? rows[0] : null;
+};
+
+/**
+ * Sign the report's current content. The signed content is also kept as a report version, so it
+ * can be compared with later edits.
+ * @param report Report as returned by Report.getById
+ * @param signer Signing user
+ * @param options Drawn signature as a PNG data URL, and comments
+ * @returns The stored signature
+ */
+export const createReportSignature = async (
+  report: any,
+  signer: { id: number; username: string; role: string },
+  options: { signatureImage?: string | null; comments?: string | null } = {}
+) => {
+  await ensureBaselineVersion(report);
+  const [versions] = await pool.query<RowDataPacket[]>(
+    'SELECT MAX(version) AS version FROM report_versions WHERE report_id = ?',
+    [report.id]
+  );
+  const contentHash = hashReportContent(report);
+  // Whole seconds, since DATETIME drops milliseconds and the seal covers the stored value
+  const signedAt = new Date(Math.floor(Date.now() / 1000) * 1000);
+
+  const [result] = await pool.query<ResultSetHeader>(
+    `INSERT INTO report_signatures
+       (report_id, report_version, content_hash, signer_id, signer_name, signer_role, signature_image,
+        comments, verification_code, signed_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      report.id,
+      versions[0]?.version ?? null,
+      contentHash,
+      signer.id,
+      signer.username,
+      signer.role,
+      options.signatureImage || null,
+      options.comments || null,
+      crypto.randomBytes(16).toString('hex'),
+      signedAt
+    ]
+  );
+
+  const [rows] = await pool.query<ReportSignature[]>('SELECT * FROM report_signatures WHERE id = ?', [result.insertId]);
+  const signature = rows[0];
+  signature.seal = sealSignature(signature);
+  await pool.query('UPDATE report_signatures SET seal = ? WHERE id = ?', [signature.seal, signature.id]);
+
+  await pool.query<ResultSetHeader>(
+    'INSERT INTO audit_logs (user_id, action, details, entity_type, entity_id) VALUES (?, ?, ?, ?, ?)',
+    [
+      signer.id,
+      'REPORT_SIGNED',
+      JSON.stringify({ signatureId: signature.id, version: signature.report_version, contentHash }),
+      'report',
+      String(report.id)
+    ]
+  );
+
+  return signature;
+};
+
+/**
+ * QR code of a signature's verification page, as a PNG
+ */
+export const getVerificationQrCode = (code: string) =>
+  QRCode.toBuffer(getVerificationUrl(code), { ...QR_CODE_OPTIONS, type: 'png' });
@@ -0,0 +1,174 @@
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+import { pool } from '../config/database';
+import Report from '../models/Report';
+import { ReportSnapshot, ReportVersion } from '../types';
+
+// Row fields that change on every save without being part of the report itself
+const ROW_FIELDS = ['id', 'report_id', 'created_at', 'updated_at'];
+// Attempts at taking the next version number when two saves race for it
+const MAX_VERSION_ATTEMPTS = 3;
+
+const withoutRowFields = (row: Record<string, any>) =>
+  Object.fromEntries(Object.entries(row || {}).filter(([key]) => !ROW_FIELDS.includes(key)));
+
+/**
+ * The parts of a report that make up a version
+ * @param report Report as returned by Report.getById
+ */
+export const toSnapshot = (report: any): ReportSnapshot => ({
+  title: report.title,
+  description: report.description ?? null,
+  type: report.type,
+  status: report.status,
+  contents: (report.contents || []).map(withoutRowFields),
+  metadata: withoutRowFields(report.metadata)
+});
+
+const parseSnapshot = (value: unknown): ReportSnapshot =>
+  (typeof value === 'string' ? JSON.parse(value) : value) as ReportSnapshot;
+
+// MySQL stores JSON objects with their keys reordered, so snapshots are compared key-sorted
+export const sortKeys = (value: any): any => {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map(key => [key, sortKeys(value[key])]));
+  }
+  return value;
+};
+
+const isSameSnapshot = (a: ReportSnapshot, b: ReportSnapshot) =>
+  JSON.stringify(sortKeys(a)) === JSON.stringify(sortKeys(b));
+
+/**
+ * Versions of a report, newest first, without their snapshots
+ */
+export const getReportVersions = async (reportId: number | string) => {
+  const [rows] = await pool.query<ReportVersion[]>(
+    `SELECT v.id, v.report_id, v.version, v.title, v.status, v.change_note, v.restored_from,
+            v.created_by, u.username AS created_by_name, v.created_at
+     FROM report_versions v
+     LEFT JOIN users u ON v.created_by = u.id
+     WHERE v.report_id = ?
+     ORDER BY v.version DESC`,
+    [reportId]
+  );
+  return rows;
+};
+
+export const getReportVersion = async (reportId: number | string, version: number | string) => {
+  const [rows] = await pool.query<ReportVersion[]>(
+    `SELECT v.*, u.username AS created_by_name
+     FROM report_versions v
+     LEFT JOIN users u ON v.created_by = u.id
+     WHERE v.report_id = ? AND v.version = ?`,
+    [reportId, version]
+  );
+  return rows.length > 0 ? { ...rows[0], snapshot: parseSnapshot(rows[0].snapshot) } as ReportVersion : null;
+};
+
+/**
+ * Store the report's current state as its next version and keep reports.version in step.
+ * Nothing is stored when the report is unchanged since the latest version.
+ * @param reportId Report ID
+ * @param userId User who saved the report
+ * @param options Note shown in the history, and the version a restore came from
+ * @returns The stored version number, or null when nothing changed
+ */
+export const recordReportVersion = async (
+  reportId: number,
+  userId: number | null,
+  options: { note?: string | null; restoredFrom?: number | null } = {}
+): Promise<number | null> => {
+  const report = await Report.getById(reportId);
+  if (!report) {
+    throw new Error('Report not found');
+  }
+  const snapshot = toSnapshot(report);
+
+  for (let attempt = 1; ; attempt++) {
+    const [latest] = await pool.query<RowDataPacket[]>(
+      'SELECT version, snapshot FROM report_versions WHERE report_id = ? ORDER BY version DESC LIMIT 1',
+      [reportId]
+    );
+    if (latest.length > 0 && !options.restoredFrom && isSameSnapshot(parseSnapshot(latest[0].snapshot), snapshot)) {
+      return null;
+    }
+    const version = latest.length > 0 ? Number(latest[0].version) + 1 : Number(report.version) || 1;
+
+    try {
+      await pool.query<ResultSetHeader>(
+        `INSERT INTO report_versions (report_id, version, title, status, snapshot, change_note, restored_from, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          reportId,
+          version,
+          snapshot.title,
+          snapshot.status || 'draft',
+          JSON.stringify(snapshot),
+          options.note ? String(options.note).slice(0, 255) : null,
+          options.restoredFrom || null,
+          userId
+        ]
+      );
+    } catch (error: any) {
+      if (error?.code === 'ER_DUP_ENTRY' && attempt < MAX_VERSION_ATTEMPTS) {
+        continue;
+      }
+      throw error;
+    }
+
+    // updated_at is left alone; a version number is not an edit
+    await pool.query('UPDATE reports SET version = ?, updated_at = updated_at WHERE id = ?', [version, reportId]);
+    return version;
+  }
+};
+
+/**
+ * Reports saved before versioning existed have no history yet; keep their state as the first
+ * version before it is overwritten
+ * @param report Report as returned by Report.getById
+ */
+export const ensureBaselineVersion = async (report: any) => {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    'SELECT COUNT(*) AS count FROM report_versions WHERE report_id = ?',
+    [report.id]
+  );
+  if (Number(rows[0]?.count) === 0) {
+    await recordReportVersion(report.id, report.created_by, { note: 'Before version history' });
+  }
+};
+
+/**
+ * Write an earlier version's title, contents and metadata back to the report and record the
+ * result as a new version. The report keeps its current status.
+ * @param reportId Report ID
+ * @param version Version to restore
+ * @param userId User restoring it
+ * @returns The new version number, or null when the version does not exist
+ */
+export const restoreReportVersion = async (reportId: number, version: number, userId: number) => {
+  const target = await getReportVersion(reportId, version);
+  if (!target) {
+    return null;
+  }
+  const { snapshot } = target;
+
+  await Report.update(reportId, {
+    title: snapshot.title,
+    // null clears the description, as it was in that version
+    description: snapshot.description as string,
+    type: snapshot.type
+  });
+  await pool.query('DELETE FROM report_contents WHERE report_id = ?', [reportId]);
+  if (snapshot.contents.length > 0) {
+    await Report.addContents(reportId, snapshot.contents);
+  }
+  await Report.updateMetadata(reportId, snapshot.metadata || {});
+
+  return recordReportVersion(reportId, userId, {
+    note: `Restored from version ${version}`,
+    restoredFrom: version
+  });
+};
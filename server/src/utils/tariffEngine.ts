@@ -0,0 +1,399 @@
+import { RowDataPacket } from 'mysql2';
+import { pool } from '../config/database';
+import {
+  DiscountBracket,
+  TariffCharge,
+  TariffChargeUnit,
+  TariffComponent,
+  TariffVersion,
+  TimeOfUsePeriod
+} from '../types';
+
+export const TARIFF_COMPONENTS: TariffComponent[] = [
+  'generation',
+  'transmission',
+  'system_loss',
+  'distribution',
+  'supply',
+  'metering',
+  'subsidy',
+  'universal',
+  'other'
+];
+export const TARIFF_CHARGE_UNITS: TariffChargeUnit[] = ['kwh', 'kw', 'month'];
+export const CUSTOMER_CLASSES = ['residential', 'general_service', 'industrial'];
+
+export interface TariffSchedule {
+  id?: number;
+  tariffId?: number;
+  effectiveFrom: string;
+  charges: TariffCharge[];
+  timeOfUsePeriods: TimeOfUsePeriod[];
+  vatRate: number;
+  lifeline: { brackets: DiscountBracket[] } | null;
+  seniorCitizen: DiscountBracket | null;
+  notes: string | null;
+}
+
+export interface BillUsage {
+  kwh: number;
+  // Billing demand; the highest 15-minute demand when calculated from interval data
+  kw?: number;
+  kwhByPeriod?: Record<string, number>;
+  kwByPeriod?: Record<string, number>;
+}
+
+export interface BillOptions {
+  lifeline?: boolean;
+  seniorCitizen?: boolean;
+}
+
+export interface BillLine {
+  key: string;
+  label: string;
+  component: TariffComponent;
+  unit: TariffChargeUnit;
+  period: string | null;
+  quantity: number;
+  rate: number;
+  amount: number;
+  discount: number;
+  vat: number;
+}
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+const roundValues = (values: Record<string, number>) =>
+  Object.keys(values).reduce<Record<string, number>>((rounded, key) => ({ ...rounded, [key]: round(values[key], 3) }), {});
+const parseJson = <T>(value: string | T | null): T | null =>
+  value === null ? null : typeof value === 'string' ? JSON.parse(value) : value;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Local calendar date as YYYY-MM-DD, matching how DATE columns are stored
+ */
+export const toDateString = (value: Date | string) => {
+  if (typeof value === 'string') return value.slice(0, 10);
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+};
+
+export const formatTariffVersion = (row: TariffVersion): TariffSchedule => ({
+  id: row.id,
+  tariffId: row.tariff_id,
+  effectiveFrom: toDateString(row.effective_from),
+  charges: parseJson<TariffCharge[]>(row.charges) || [],
+  timeOfUsePeriods: parseJson<TimeOfUsePeriod[]>(row.time_of_use_periods) || [],
+  vatRate: Number(row.vat_rate),
+  lifeline: parseJson<{ brackets: DiscountBracket[] }>(row.lifeline),
+  seniorCitizen: parseJson<DiscountBracket>(row.senior_citizen),
+  notes: row.notes
+});
+
+/**
+ * Version of a tariff in force on the given date, or null if the tariff had no version yet
+ */
+export const getTariffSchedule = async (tariffId: number, date: Date | string = new Date()) => {
+  const [rows] = await pool.query<TariffVersion[]>(
+    `SELECT * FROM tariff_versions WHERE tariff_id = ? AND effective_from <= ?
+     ORDER BY effective_from DESC LIMIT 1`,
+    [tariffId, toDateString(date)]
+  );
+  return rows.length > 0 ? formatTariffVersion(rows[0]) : null;
+};
+
+/**
+ * Time-of-use period a moment falls in; the first matching period wins
+ */
+export const periodFor = (date: Date, periods: TimeOfUsePeriod[]) => {
+  const hour = date.getHours() + date.getMinutes() / 60;
+  const period = periods.find(candidate =>
+    candidate.weekdays.includes(date.getDay()) && hour >= candidate.startHour && hour < candidate.endHour
+  );
+  return period ? period.key : null;
+};
+
+// Share of the 168 hours in a week that falls in each period, used when usage isn't split by period
+const hourShares = (periods: TimeOfUsePeriod[]) => {
+  const shares: Record<string, number> = {};
+  for (let day = 0; day < 7; day++) {
+    for (let hour = 0; hour < 24; hour++) {
+      const period = periods.find(candidate =>
+        candidate.weekdays.includes(day) && hour >= candidate.startHour && hour < candidate.endHour
+      );
+      if (period) shares[period.key] = (shares[period.key] || 0) + 1 / 168;
+    }
+  }
+  return shares;
+};
+
+/**
+ * Total and per-period kWh and demand from interval data
+ */
+export const summarizeIntervals = (
+  intervals: Array<{ start: Date; kwh: number; demandKw: number | null }>,
+  periods: TimeOfUsePeriod[]
+): Required<BillUsage> => {
+  const usage: Required<BillUsage> = { kwh: 0, kw: 0, kwhByPeriod: {}, kwByPeriod: {} };
+  for (const interval of intervals) {
+    usage.kwh += interval.kwh;
+    usage.kw = Math.max(usage.kw, interval.demandKw || 0);
+
+    const period = periodFor(interval.start, periods);
+    if (period) {
+      usage.kwhByPeriod[period] = (usage.kwhByPeriod[period] || 0) + interval.kwh;
+      usage.kwByPeriod[period] = Math.max(usage.kwByPeriod[period] || 0, interval.demandKw || 0);
+    }
+  }
+  return usage;
+};
+
+/**
+ * Billing usage for a meter between from and to, read from its 15-minute rollups
+ */
+export const getMeterUsage = async (meterId: number, from: Date, to: Date, periods: TimeOfUsePeriod[]) => {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT bucket_start, energy_kwh, peak_demand_kw FROM power_rollups_15min
+     WHERE meter_id = ? AND bucket_start >= ? AND bucket_start < ?`,
+    [meterId, from, to]
+  );
+  return summarizeIntervals(
+    rows.map(row => ({
+      start: new Date(row.bucket_start),
+      kwh: Number(row.energy_kwh),
+      demandKw: row.peak_demand_kw === null ? null : Number(row.peak_demand_kw)
+    })),
+    periods
+  );
+};
+
+/**
+ * Itemized bill for one billing month under a tariff version.
+ * Lifeline and senior citizen discounts apply to discountable charges when the customer qualifies,
+ * and VAT is charged on what remains of each vatable charge.
+ */
+export const calculateBill = (schedule: TariffSchedule, usage: BillUsage, options: BillOptions = {}) => {
+  const assumptions: string[] = [];
+  const kwh = usage.kwh;
+  const kw = usage.kw || 0;
+
+  // Without a per-period split, kWh is spread over the periods in proportion to their hours
+  let kwhByPeriod = usage.kwhByPeriod;
+  if (!kwhByPeriod && schedule.charges.some(charge => charge.period && charge.unit === 'kwh')) {
+    const shares = hourShares(schedule.timeOfUsePeriods);
+    kwhByPeriod = Object.keys(shares).reduce<Record<string, number>>(
+      (split, period) => ({ ...split, [period]: kwh * shares[period] }),
+      {}
+    );
+    assumptions.push('kWh was split across time-of-use periods in proportion to their hours');
+  }
+  if (!usage.kwByPeriod && schedule.charges.some(charge => charge.period && charge.unit === 'kw')) {
+    assumptions.push('Peak demand was used for every time-of-use demand charge');
+  }
+
+  const lifelineBracket = options.lifeline && schedule.lifeline
+    ? schedule.lifeline.brackets.find(bracket => kwh <= bracket.maxKwh)
+    : undefined;
+  const lifelineRate = lifelineBracket ? lifelineBracket.discountPercent / 100 : 0;
+  const seniorRate = options.seniorCitizen && schedule.seniorCitizen && kwh <= schedule.seniorCitizen.maxKwh
+    ? schedule.seniorCitizen.discountPercent / 100
+    : 0;
+
+  let lifelineDiscount = 0;
+  let seniorCitizenDiscount = 0;
+  const lines: BillLine[] = schedule.charges.map(charge => {
+    let quantity: number;
+    if (charge.unit === 'month') {
+      quantity = 1;
+    } else if (charge.unit === 'kw') {
+      quantity = charge.period ? usage.kwByPeriod?.[charge.period] ?? kw : kw;
+    } else {
+      quantity = charge.period ? kwhByPeriod?.[charge.period] || 0 : kwh;
+    }
+
+    const amount = round(quantity * charge.rate);
+    let discount = 0;
+    if (charge.discountable) {
+      const lifeline = amount * lifelineRate;
+      const senior = (amount - lifeline) * seniorRate;
+      lifelineDiscount += lifeline;
+      seniorCitizenDiscount += senior;
+      discount = round(lifeline + senior);
+    }
+
+    return {
+      key: charge.key,
+      label: charge.label,
+      component: charge.component,
+      unit: charge.unit,
+      period: charge.period || null,
+      quantity: round(quantity, 3),
+      rate: charge.rate,
+      amount,
+      discount,
+      vat: charge.vatable ? round((amount - discount) * schedule.vatRate) : 0
+    };
+  });
+
+  const subtotal = round(lines.reduce((sum, line) => sum + line.amount, 0));
+  const discounts = round(lines.reduce((sum, line) => sum + line.discount, 0));
+  const vat = round(lines.reduce((sum, line) => sum + line.vat, 0));
+  const total = round(subtotal - discounts + vat);
+
+  // What one more kWh costs with this usage profile: kWh charges with VAT, without demand or fixed charges
+  const energyRate = schedule.charges
+    .filter(charge => charge.unit === 'kwh')
+    .reduce((sum, charge) => {
+      const share = !charge.period ? 1 : kwh > 0 ? (kwhByPeriod?.[charge.period] || 0) / kwh : 0;
+      return sum + charge.rate * share * (charge.vatable ? 1 + schedule.vatRate : 1);
+    }, 0);
+
+  return {
+    effectiveFrom: schedule.effectiveFrom,
+    usage: {
+      kwh: round(kwh, 3),
+      kw: round(kw, 3),
+      kwhByPeriod: roundValues(kwhByPeriod || {}),
+      kwByPeriod: roundValues(usage.kwByPeriod || {})
+    },
+    lines,
+    subtotal,
+    discounts: {
+      lifeline: round(lifelineDiscount),
+      seniorCitizen: round(seniorCitizenDiscount),
+      total: discounts
+    },
+    vat,
+    total,
+    averageRate: kwh > 0 ? round(total / kwh, 4) : null,
+    energyRate: round(energyRate, 4),
+    assumptions
+  };
+};
+
+export type Bill = ReturnType<typeof calculateBill>;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const normalizeBracket = (value: any, name: string): DiscountBracket | string => {
+  if (!value || !isNumber(value.maxKwh) || value.maxKwh <= 0) {
+    return `${name} maxKwh must be a positive number`;
+  }
+  if (!isNumber(value.discountPercent) || value.discountPercent < 0 || value.discountPercent > 100) {
+    return `${name} discountPercent must be from 0 to 100`;
+  }
+  return { maxKwh: value.maxKwh, discountPercent: value.discountPercent };
+};
+
+/**
+ * Validate a tariff version sent by an admin, returning the cleaned version or the reason it was rejected
+ */
+export const normalizeTariffVersion = (input: any): TariffSchedule | string => {
+  if (!input || typeof input !== 'object') return 'Version details are required';
+
+  const { effectiveFrom, charges, timeOfUsePeriods = [], vatRate = 0.12, lifeline = null, seniorCitizen = null } = input;
+  if (typeof effectiveFrom !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(effectiveFrom) ||
+      Number.isNaN(new Date(effectiveFrom).getTime())) {
+    return 'effectiveFrom must be a date in YYYY-MM-DD format';
+  }
+  if (!isNumber(vatRate) || vatRate < 0 || vatRate >= 1) {
+    return 'vatRate must be a fraction from 0 to 1, e.g. 0.12';
+  }
+
+  if (!Array.isArray(timeOfUsePeriods)) return 'timeOfUsePeriods must be an array';
+  const periods: TimeOfUsePeriod[] = [];
+  for (const period of timeOfUsePeriods) {
+    if (!period?.key || !period.label) return 'Each time-of-use period needs a key and label';
+    if (periods.some(existing => existing.key === period.key)) return `Duplicate time-of-use period "${period.key}"`;
+    if (!Array.isArray(period.weekdays) || period.weekdays.length === 0 ||
+        period.weekdays.some((day: unknown) => !Number.isInteger(day) || (day as number) < 0 || (day as number) > 6)) {
+      return `Period "${period.key}" weekdays must be a list of days from 0 (Sunday) to 6`;
+    }
+    if (!isNumber(period.startHour) || !isNumber(period.endHour) ||
+        period.startHour < 0 || period.endHour > 24 || period.startHour >= period.endHour) {
+      return `Period "${period.key}" must start before it ends, within 0 to 24 hours`;
+    }
+    periods.push({
+      key: String(period.key),
+      label: String(period.label),
+      weekdays: period.weekdays,
+      startHour: period.startHour,
+      endHour: period.endHour
+    });
+  }
+
+  if (!Array.isArray(charges) || charges.length === 0) return 'At least one charge is required';
+  const cleaned: TariffCharge[] = [];
+  for (const charge of charges) {
+    if (!charge?.key || !charge.label) return 'Each charge needs a key and label';
+    if (cleaned.some(existing => existing.key === charge.key)) return `Duplicate charge "${charge.key}"`;
+    if (!TARIFF_COMPONENTS.includes(charge.component)) {
+      return `Charge "${charge.key}" component must be one of: ${TARIFF_COMPONENTS.join(', ')}`;
+    }
+    if (!TARIFF_CHARGE_UNITS.includes(charge.unit)) {
+      return `Charge "${charge.key}" unit must be one of: ${TARIFF_CHARGE_UNITS.join(', ')}`;
+    }
+    if (!isNumber(charge.rate)) return `Charge "${charge.key}" rate must be a number`;
+    if (charge.period) {
+      if (charge.unit === 'month') return `Fixed monthly charge "${charge.key}" cannot be limited to a period`;
+      if (!periods.some(period => period.key === charge.period)) {
+        return `Charge "${charge.key}" refers to unknown time-of-use period "${charge.period}"`;
+      }
+    }
+    cleaned.push({
+      key: String(charge.key),
+      label: String(charge.label),
+      component: charge.component,
+      unit: charge.unit,
+      rate: charge.rate,
+      ...(charge.period ? { period: String(charge.period) } : {}),
+      vatable: charge.vatable !== false,
+      discountable: charge.discountable !== false
+    });
+  }
+
+  let lifelineBrackets: DiscountBracket[] | null = null;
+  if (lifeline) {
+    if (!Array.isArray(lifeline.brackets) || lifeline.brackets.length === 0) {
+      return 'lifeline brackets must be a non-empty array';
+    }
+    lifelineBrackets = [];
+    for (const bracket of lifeline.brackets) {
+      const normalized = normalizeBracket(bracket, 'Lifeline bracket');
+      if (typeof normalized === 'string') return normalized;
+      lifelineBrackets.push(normalized);
+    }
+    lifelineBrackets.sort((a, b) => a.maxKwh - b.maxKwh);
+  }
+
+  let senior: DiscountBracket | null = null;
+  if (seniorCitizen) {
+    const normalized = normalizeBracket(seniorCitizen, 'Senior citizen discount');
+    if (typeof normalized === 'string') return normalized;
+    senior = normalized;
+  }
+
+  return {
+    effectiveFrom,
+    charges: cleaned,
+    timeOfUsePeriods: periods,
+    vatRate,
+    lifeline: lifelineBrackets ? { brackets: lifelineBrackets } : null,
+    seniorCitizen: senior,
+    notes: input.notes ? String(input.notes).slice(0, 255) : null
+  };
+};
+
+// Used for live cost figures when no tariff is marked as the default
+export const FALLBACK_RATE_PER_KWH = 8.5;
+
+/**
+ * Average cost per kWh under the default tariff for a month with the given usage
+ */
+export const getDefaultTariffRate = async (usage: BillUsage) => {
+  const [tariffs] = await pool.query<RowDataPacket[]>(
+    'SELECT id FROM tariffs WHERE is_default = true AND is_active = true LIMIT 1'
+  );
+  const schedule = tariffs.length > 0 ? await getTariffSchedule(tariffs[0].id) : null;
+  if (!schedule || usage.kwh <= 0) return FALLBACK_RATE_PER_KWH;
+  return calculateBill(schedule, usage).averageRate ?? FALLBACK_RATE_PER_KWH;
+};
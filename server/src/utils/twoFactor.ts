@@ -0,0 +1,189 @@
+import * as crypto from 'crypto';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+import { pool } from '../config/database';
+import { TwoFactorPolicy, UserRole } from '../types';
+import { getJwtSecret, hashToken } from './authSessions';
+
+// RFC 6238 defaults, which every authenticator app supports
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+// Codes from one step either side are accepted to allow for clock drift
+const TOTP_WINDOW = 1;
+
+export const TOTP_ISSUER = 'Energy Audit System';
+export const RECOVERY_CODE_COUNT = 10;
+
+// The password step of a two-step login must be completed within this time
+export const CHALLENGE_TTL_SECONDS = 5 * 60;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const base32Encode = (buffer: Buffer) => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+};
+
+export const base32Decode = (encoded: string) => {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of encoded.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character: ${char}`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+/**
+ * A new 160-bit TOTP secret, base32-encoded for authenticator apps
+ */
+export const generateTotpSecret = () => base32Encode(crypto.randomBytes(20));
+
+export const getTotpStep = (time: number = Date.now()) => Math.floor(time / 1000 / TOTP_PERIOD_SECONDS);
+
+/**
+ * The code for a time step (RFC 4226 HOTP with the step as counter)
+ */
+export const generateTotp = (secret: string, step: number = getTotpStep()) => {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 2 ** 32), 0);
+  counter.writeUInt32BE(step % 2 ** 32, 4);
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Check a code against the steps around now
+ * @param lastUsedStep Step of the last accepted code; it and earlier steps are refused so a code cannot be replayed
+ * @returns The matching step, or null
+ */
+export const verifyTotp = (secret: string, code: string, lastUsedStep: number | null = null, time: number = Date.now()) => {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) return null;
+
+  const currentStep = getTotpStep(time);
+  for (let step = currentStep - TOTP_WINDOW; step <= currentStep + TOTP_WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    const expected = generateTotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) return step;
+  }
+  return null;
+};
+
+/**
+ * otpauth:// URI encoded in the enrollment QR code
+ */
+export const getOtpauthUrl = (secret: string, accountName: string) => {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+/**
+ * Single-use codes for signing in without the authenticator, formatted xxxxx-xxxxx
+ */
+export const generateRecoveryCodes = (count: number = RECOVERY_CODE_COUNT) =>
+  Array.from({ length: count }, () => {
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+/**
+ * Recovery codes are compared without case or separators
+ */
+export const normalizeRecoveryCode = (code: string) => code.replace(/[^0-9a-z]/gi, '').toLowerCase();
+
+// Challenge tokens use their own key so they can never pass as access tokens
+export const getChallengeSecret = () =>
+  crypto.createHmac('sha256', getJwtSecret()).update('two-factor-challenge').digest('hex');
+
+/**
+ * Roles that must use two-factor authentication, from the twoFactorPolicy system settings
+ */
+export const getTwoFactorPolicy = async (): Promise<TwoFactorPolicy> => {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    "SELECT setting_key, setting_value FROM system_settings WHERE setting_key LIKE 'twoFactorPolicy.%'"
+  );
+  const values = new Map(rows.map(row => [row.setting_key as string, row.setting_value === 'true']));
+  return {
+    requireForAdmins: values.get('twoFactorPolicy.requireForAdmins') ?? false,
+    requireForManagers: values.get('twoFactorPolicy.requireForManagers') ?? false
+  };
+};
+
+export const isTwoFactorRequiredForRole = (policy: TwoFactorPolicy, role: UserRole) =>
+  (role === UserRole.ADMIN && policy.requireForAdmins) || (role === UserRole.MANAGER && policy.requireForManagers);
+
+/**
+ * Accept a code from the user's authenticator, recording its step so it cannot be used again
+ * @returns Whether the code was valid and unused
+ */
+export const acceptTotpCode = async (
+  user: { id: number; totp_secret?: string | null; totp_last_used_step?: number | null },
+  code: string
+) => {
+  if (!user.totp_secret) return false;
+  const lastUsedStep = user.totp_last_used_step ?? null;
+  const step = verifyTotp(user.totp_secret, code, lastUsedStep === null ? null : Number(lastUsedStep));
+  if (step === null) return false;
+
+  // A concurrent request may have used the same or a later code
+  const [result] = await pool.query<ResultSetHeader>(
+    'UPDATE users SET totp_last_used_step = ? WHERE id = ? AND (totp_last_used_step IS NULL OR totp_last_used_step < ?)',
+    [step, user.id, step]
+  );
+  return result.affectedRows > 0;
+};
+
+/**
+ * Mark a recovery code as used
+ * @returns Whether the code was valid and unused
+ */
+export const redeemRecoveryCode = async (userId: number, code: string) => {
+  const [result] = await pool.query<ResultSetHeader>(
+    'UPDATE user_recovery_codes SET used_at = NOW() WHERE user_id = ? AND code_hash = ? AND used_at IS NULL',
+    [userId, hashToken(normalizeRecoveryCode(code))]
+  );
+  return result.affectedRows > 0;
+};
+
+/**
+ * Replace a user's recovery codes with a new set
+ * @returns The new codes, which are shown once and only stored hashed
+ */
+export const replaceRecoveryCodes = async (userId: number) => {
+  const codes = generateRecoveryCodes();
+  await pool.query('DELETE FROM user_recovery_codes WHERE user_id = ?', [userId]);
+  await pool.query(
+    'INSERT INTO user_recovery_codes (user_id, code_hash) VALUES ?',
+    [codes.map(code => [userId, hashToken(normalizeRecoveryCode(code))])]
+  );
+  return codes;
+};
+
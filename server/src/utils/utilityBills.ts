@@ -0,0 +1,288 @@
+import { RowDataPacket } from 'mysql2';
+import { pool } from '../config/database';
+import { UtilityBill } from '../types';
+import { findColumns, readCsv } from './csv';
+import { toDateString } from './tariffEngine';
+
+export const MAX_BILLING_PERIOD_DAYS = 62;
+export const MAX_BILLS_PER_UPLOAD = 1000;
+
+// A bill is within tolerance of the meter when the two differ by no more than this
+export const DEFAULT_TOLERANCE_PERCENT = 5;
+
+// Below this share of the billing period covered by readings, a variance says more about the data than the bill
+export const MIN_METERED_COVERAGE = 0.9;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BillInput {
+  accountNumber: string;
+  meterId: number | null;
+  periodStart: string;
+  periodEnd: string;
+  kwh: number;
+  kwDemand: number | null;
+  powerFactor: number | null;
+  amount: number;
+  notes: string | null;
+}
+
+export type ReconciliationStatus = 'matched' | 'variance' | 'incomplete' | 'no_meter';
+
+export interface MeteredUsage {
+  meterIds: number[];
+  energyKwh: number;
+  peakDemandKw: number | null;
+  powerFactor: number | null;
+  // Share of the billing period covered by readings, 0 to 1
+  coverage: number;
+}
+
+interface MeteredUsageRow extends RowDataPacket {
+  energy_kwh: number | null;
+  covered_seconds: number | null;
+  power_factor: number | null;
+  peak_demand_kw: number | null;
+}
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+// Bills and spreadsheets often carry currency signs and thousands separators
+const toNumber = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : NaN;
+  const cleaned = String(value).replace(/[^0-9.\-]/g, '');
+  return cleaned ? Number(cleaned) : NaN;
+};
+
+/**
+ * Read a billing date as YYYY-MM-DD. Accepts ISO dates, MM/DD/YYYY as printed on Philippine bills,
+ * and anything else Date can parse such as "Oct 19, 2026".
+ */
+export const parseBillDate = (value: unknown) => {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : toDateString(value);
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const text = value.trim();
+
+  let date: Date;
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const slashed = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (iso) {
+    date = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+  } else if (slashed) {
+    date = new Date(Number(slashed[3]), Number(slashed[1]) - 1, Number(slashed[2]));
+  } else {
+    date = new Date(text);
+  }
+  return Number.isNaN(date.getTime()) ? null : toDateString(date);
+};
+
+/**
+ * Days in a billing period, counting both the first and last day
+ */
+export const billingDays = (periodStart: string, periodEnd: string) =>
+  Math.round((new Date(`${periodEnd}T00:00:00`).getTime() - new Date(`${periodStart}T00:00:00`).getTime()) / DAY_MS) + 1;
+
+/**
+ * Validate one bill, returning the cleaned bill or the reason it was rejected
+ */
+export const normalizeBill = (raw: Record<string, unknown>): BillInput | string => {
+  const periodStart = parseBillDate(raw.periodStart);
+  const periodEnd = parseBillDate(raw.periodEnd);
+  if (!periodStart || !periodEnd) {
+    return 'periodStart and periodEnd must be valid dates';
+  }
+  const days = billingDays(periodStart, periodEnd);
+  if (days < 1) {
+    return 'periodEnd must not be before periodStart';
+  }
+  if (days > MAX_BILLING_PERIOD_DAYS) {
+    return `A billing period can be at most ${MAX_BILLING_PERIOD_DAYS} days`;
+  }
+  if (new Date(`${periodStart}T00:00:00`).getTime() > Date.now()) {
+    return 'The billing period cannot start in the future';
+  }
+
+  const kwh = toNumber(raw.kwh);
+  if (kwh === null || Number.isNaN(kwh) || kwh < 0) {
+    return 'kwh must be a non-negative number';
+  }
+  const amount = toNumber(raw.amount);
+  if (amount === null || Number.isNaN(amount) || amount < 0) {
+    return 'amount must be a non-negative number';
+  }
+  const kwDemand = toNumber(raw.kwDemand);
+  if (kwDemand !== null && (Number.isNaN(kwDemand) || kwDemand < 0)) {
+    return 'kwDemand must be a non-negative number';
+  }
+  const powerFactor = toNumber(raw.powerFactor);
+  if (powerFactor !== null && (Number.isNaN(powerFactor) || powerFactor <= 0 || powerFactor > 1)) {
+    return 'powerFactor must be a number above 0 and at most 1';
+  }
+  const meterId = toNumber(raw.meterId);
+  if (meterId !== null && (Number.isNaN(meterId) || !Number.isInteger(meterId))) {
+    return 'meterId must be a meter id';
+  }
+
+  return {
+    accountNumber: raw.accountNumber ? String(raw.accountNumber).trim().slice(0, 50) : '',
+    meterId,
+    periodStart,
+    periodEnd,
+    kwh,
+    kwDemand,
+    powerFactor,
+    amount,
+    notes: raw.notes ? String(raw.notes).trim().slice(0, 255) : null
+  };
+};
+
+// CSV header aliases, compared after lower-casing and stripping non-alphanumerics
+const CSV_COLUMNS = {
+  accountNumber: ['account', 'accountnumber', 'accountno', 'can', 'customeraccountnumber'],
+  periodStart: ['periodstart', 'startdate', 'from', 'fromdate', 'billingstart', 'start', 'readingfrom'],
+  periodEnd: ['periodend', 'enddate', 'to', 'todate', 'billingend', 'end', 'readingto'],
+  kwh: ['kwh', 'energy', 'energykwh', 'consumption', 'consumptionkwh', 'usage', 'usagekwh', 'kwhused'],
+  kwDemand: ['kw', 'demand', 'demandkw', 'kwdemand', 'billeddemand', 'peakdemand'],
+  powerFactor: ['powerfactor', 'pf'],
+  amount: ['amount', 'total', 'totalamount', 'amountdue', 'billamount', 'totalbill'],
+  notes: ['notes', 'remarks']
+};
+
+/**
+ * Parse a spreadsheet of bills, one bill per row
+ */
+export const parseBillsCsv = (text: string) => {
+  const csv = readCsv(text);
+  if (csv.error) {
+    return { rows: [], error: csv.error };
+  }
+
+  const columns = findColumns(csv.headers, CSV_COLUMNS);
+  const missing = (['periodStart', 'periodEnd', 'kwh', 'amount'] as const).filter(key => columns[key] === -1);
+  if (missing.length > 0) {
+    return { rows: [], error: `Missing columns: ${missing.join(', ')}` };
+  }
+
+  const rows = csv.rows.map(({ row, cells }) => ({
+    row,
+    raw: (Object.keys(CSV_COLUMNS) as Array<keyof typeof CSV_COLUMNS>).reduce<Record<string, unknown>>(
+      (raw, key) => ({ ...raw, [key]: columns[key] >= 0 ? cells[columns[key]] : undefined }),
+      {}
+    )
+  }));
+
+  return { rows, error: null };
+};
+
+export const formatBill = (bill: UtilityBill) => {
+  const periodStart = toDateString(bill.period_start);
+  const periodEnd = toDateString(bill.period_end);
+  return {
+    id: bill.id,
+    buildingId: bill.building_id,
+    meterId: bill.meter_id,
+    meterName: bill.meter_name ?? null,
+    accountNumber: bill.account_number,
+    periodStart,
+    periodEnd,
+    billingDays: billingDays(periodStart, periodEnd),
+    kwh: Number(bill.kwh),
+    kwDemand: bill.kw_demand !== null ? Number(bill.kw_demand) : null,
+    powerFactor: bill.power_factor !== null ? Number(bill.power_factor) : null,
+    amount: Number(bill.amount),
+    notes: bill.notes,
+    source: bill.source,
+    createdAt: bill.created_at,
+    updatedAt: bill.updated_at
+  };
+};
+
+/**
+ * Meters that measure a building's whole supply: those not installed on a sub-panel
+ */
+export const getMainMeterIds = async (buildingId: number) => {
+  const [meters] = await pool.query<RowDataPacket[]>(
+    `SELECT m.id FROM meters m
+     LEFT JOIN panels p ON m.panel_id = p.id
+     WHERE m.building_id = ? AND (m.panel_id IS NULL OR p.parent_panel_id IS NULL)`,
+    [buildingId]
+  );
+  return meters.map(meter => meter.id as number);
+};
+
+/**
+ * Metered energy, coincident peak demand and power factor over a billing period, from the rollups
+ */
+export const getMeteredUsage = async (meterIds: number[], periodStart: string, periodEnd: string): Promise<MeteredUsage> => {
+  const [rows] = await pool.query<MeteredUsageRow[]>(
+    `SELECT
+      SUM(d.energy_kwh) AS energy_kwh,
+      SUM(d.covered_seconds) AS covered_seconds,
+      SUM(d.power_factor_sum) / NULLIF(SUM(d.power_factor_samples), 0) AS power_factor,
+      (SELECT MAX(demand) FROM (
+        SELECT SUM(q.peak_demand_kw) AS demand
+        FROM power_rollups_15min q
+        WHERE q.meter_id IN (?) AND q.bucket_start >= ? AND q.bucket_start < DATE_ADD(?, INTERVAL 1 DAY)
+        GROUP BY q.bucket_start
+      ) demands) AS peak_demand_kw
+     FROM power_rollups_daily d
+     WHERE d.meter_id IN (?) AND d.bucket_start >= ? AND d.bucket_start < DATE_ADD(?, INTERVAL 1 DAY)`,
+    [meterIds, periodStart, periodEnd, meterIds, periodStart, periodEnd]
+  );
+
+  const periodSeconds = billingDays(periodStart, periodEnd) * 24 * 60 * 60 * meterIds.length;
+  const row = rows[0];
+  return {
+    meterIds,
+    energyKwh: round(Number(row?.energy_kwh) || 0, 3),
+    peakDemandKw: row?.peak_demand_kw !== null && row?.peak_demand_kw !== undefined ? round(Number(row.peak_demand_kw), 3) : null,
+    powerFactor: row?.power_factor !== null && row?.power_factor !== undefined ? round(Number(row.power_factor), 3) : null,
+    coverage: round(Math.min(1, (Number(row?.covered_seconds) || 0) / periodSeconds), 3)
+  };
+};
+
+const percentDifference = (billed: number, measured: number) =>
+  billed > 0 ? round(((billed - measured) / billed) * 100) : null;
+
+/**
+ * Compare each bill with the meters measuring the same service.
+ * Bills name their meter; otherwise the building's main meters are used.
+ */
+export const reconcileBills = async (
+  buildingId: number,
+  bills: UtilityBill[],
+  tolerancePercent = DEFAULT_TOLERANCE_PERCENT
+) => {
+  const mainMeterIds = await getMainMeterIds(buildingId);
+
+  const results = [];
+  for (const row of bills) {
+    const bill = formatBill(row);
+    const meterIds = bill.meterId ? [bill.meterId] : mainMeterIds;
+    const metered = meterIds.length > 0 ? await getMeteredUsage(meterIds, bill.periodStart, bill.periodEnd) : null;
+
+    const variancePercent = metered ? percentDifference(bill.kwh, metered.energyKwh) : null;
+    let status: ReconciliationStatus;
+    if (!metered) {
+      status = 'no_meter';
+    } else if (metered.coverage < MIN_METERED_COVERAGE) {
+      status = 'incomplete';
+    } else {
+      status = variancePercent !== null && Math.abs(variancePercent) > tolerancePercent ? 'variance' : 'matched';
+    }
+
+    results.push({
+      bill,
+      metered,
+      varianceKwh: metered ? round(bill.kwh - metered.energyKwh, 3) : null,
+      variancePercent,
+      demandVariancePercent: metered?.peakDemandKw !== null && metered?.peakDemandKw !== undefined && bill.kwDemand !== null
+        ? percentDifference(bill.kwDemand, metered.peakDemandKw)
+        : null,
+      status
+    });
+  }
+
+  return results;
+};
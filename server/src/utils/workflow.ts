@@ -0,0 +1,252 @@
+import { PoolConnection } from 'mysql2/promise';
+import { ResultSetHeader } from 'mysql2';
+import { pool } from '../config/database';
+import {
+  WorkflowEntityType,
+  WorkflowStateRecord,
+  WorkflowTransitionRecord
+} from '../types';
+import { createAuthorizationError, createConflictError, createValidationError } from './errorHandler';
+import { getUserPermissions, isPermission, Permission } from './permissions';
+
+type Queryable = Pick<PoolConnection, 'query'>;
+
+export const WORKFLOW_ENTITY_TYPES: WorkflowEntityType[] = ['audit', 'finding'];
+
+export interface WorkflowState {
+  key: string;
+  label: string;
+  description: string | null;
+  sortOrder: number;
+  isInitial: boolean;
+  isFinal: boolean;
+}
+
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  label: string;
+  // Permission needed to trigger the transition; null lets anyone who can work on the record
+  permission: Permission | null;
+  requiresComment: boolean;
+}
+
+export interface WorkflowDefinition {
+  entityType: WorkflowEntityType;
+  states: WorkflowState[];
+  transitions: WorkflowTransition[];
+}
+
+export interface WorkflowActor {
+  id: number;
+  permissions?: string[];
+}
+
+export interface TransitionResult {
+  from: string;
+  to: string;
+  transition: WorkflowTransition;
+}
+
+export const isWorkflowEntityType = (value: unknown): value is WorkflowEntityType =>
+  WORKFLOW_ENTITY_TYPES.includes(value as WorkflowEntityType);
+
+/**
+ * Load the states and transitions configured for an entity type
+ */
+export const getWorkflowDefinition = async (
+  entityType: WorkflowEntityType,
+  db: Queryable = pool
+): Promise<WorkflowDefinition> => {
+  const [states] = await db.query<WorkflowStateRecord[]>(
+    'SELECT * FROM workflow_states WHERE entity_type = ? ORDER BY sort_order ASC, id ASC',
+    [entityType]
+  );
+  const [transitions] = await db.query<WorkflowTransitionRecord[]>(
+    'SELECT * FROM workflow_transitions WHERE entity_type = ? ORDER BY id ASC',
+    [entityType]
+  );
+
+  return {
+    entityType,
+    states: states.map(state => ({
+      key: state.state_key,
+      label: state.label,
+      description: state.description,
+      sortOrder: state.sort_order,
+      isInitial: Boolean(state.is_initial),
+      isFinal: Boolean(state.is_final)
+    })),
+    transitions: transitions.map(transition => ({
+      from: transition.from_state,
+      to: transition.to_state,
+      label: transition.label,
+      permission: isPermission(transition.permission) ? transition.permission : null,
+      requiresComment: Boolean(transition.requires_comment)
+    }))
+  };
+};
+
+export const getInitialState = (definition: WorkflowDefinition) => {
+  const initial = definition.states.find(state => state.isInitial);
+  if (!initial) {
+    throw createConflictError(`No initial state is configured for the ${definition.entityType} workflow`);
+  }
+  return initial.key;
+};
+
+/**
+ * Whether a user with the given permissions may trigger a transition
+ */
+export const canTrigger = (transition: WorkflowTransition, permissions: string[]) =>
+  !transition.permission || permissions.includes(transition.permission);
+
+/**
+ * Transitions out of a state that a user with the given permissions may trigger
+ */
+export const getAvailableTransitions = (definition: WorkflowDefinition, fromState: string, permissions: string[]) =>
+  definition.transitions.filter(transition => transition.from === fromState && canTrigger(transition, permissions));
+
+/**
+ * Check a requested transition against the definition, throwing an AppError when it is not allowed
+ */
+export const validateTransition = (
+  definition: WorkflowDefinition,
+  fromState: string,
+  toState: string,
+  permissions: string[],
+  comment?: string
+) => {
+  if (!definition.states.some(state => state.key === toState)) {
+    throw createValidationError(`Unknown ${definition.entityType} state: ${toState}`);
+  }
+
+  const transition = definition.transitions.find(t => t.from === fromState && t.to === toState);
+  if (!transition) {
+    throw createConflictError(`Cannot move ${definition.entityType} from ${fromState} to ${toState}`);
+  }
+  if (!canTrigger(transition, permissions)) {
+    throw createAuthorizationError(`You do not have permission to perform "${transition.label}"`);
+  }
+  if (transition.requiresComment && !comment?.trim()) {
+    throw createValidationError(`A comment is required to ${transition.label.toLowerCase()}`);
+  }
+
+  return transition;
+};
+
+/**
+ * Write a state change to audit_logs so the entity's history can be rebuilt
+ */
+export const recordTransition = (
+  db: Queryable,
+  entityType: string,
+  entityId: number,
+  userId: number,
+  details: { from: string; to: string; label: string; comment?: string | null }
+) =>
+  db.query<ResultSetHeader>(
+    'INSERT INTO audit_logs (user_id, action, details, entity_type, entity_id) VALUES (?, ?, ?, ?, ?)',
+    [userId, 'WORKFLOW_TRANSITION', JSON.stringify({ ...details, comment: details.comment || null }), entityType, String(entityId)]
+  );
+
+/**
+ * Validate and log a transition inside the caller's transaction; the caller updates the entity row
+ */
+export const applyTransition = async (
+  connection: PoolConnection,
+  options: {
+    entityType: WorkflowEntityType;
+    entityId: number;
+    fromState: string;
+    toState: string;
+    actor: WorkflowActor;
+    comment?: string;
+  }
+): Promise<TransitionResult> => {
+  const { entityType, entityId, fromState, toState, actor, comment } = options;
+  const definition = await getWorkflowDefinition(entityType, connection);
+  const permissions = actor.permissions ?? await getUserPermissions(actor.id);
+  const transition = validateTransition(definition, fromState, toState, permissions, comment);
+
+  await recordTransition(connection, entityType, entityId, actor.id, {
+    from: fromState,
+    to: toState,
+    label: transition.label,
+    comment
+  });
+
+  return { from: fromState, to: toState, transition };
+};
+
+/**
+ * Insert one notification per recipient, skipping the user who triggered the change
+ */
+export const notifyUsers = async (
+  db: Queryable,
+  userIds: Array<number | null | undefined>,
+  actorId: number,
+  notification: { type: string; message: string; auditId?: number | null; findingId?: number | null }
+) => {
+  const recipients = Array.from(new Set(userIds.filter((id): id is number => !!id && id !== actorId)));
+  if (recipients.length === 0) {
+    return;
+  }
+
+  await db.query<ResultSetHeader>(
+    'INSERT INTO notifications (user_id, finding_id, audit_id, type, message) VALUES ?',
+    [recipients.map(userId => [
+      userId,
+      notification.findingId ?? null,
+      notification.auditId ?? null,
+      notification.type,
+      notification.message
+    ])]
+  );
+};
+
+/**
+ * Check an admin-submitted definition before it replaces the stored one
+ */
+export const validateWorkflowDefinition = (states: unknown, transitions: unknown) => {
+  if (!Array.isArray(states) || states.length === 0) {
+    throw createValidationError('At least one state is required');
+  }
+  if (!Array.isArray(transitions)) {
+    throw createValidationError('Transitions must be an array');
+  }
+
+  const keys = new Set<string>();
+  for (const state of states) {
+    if (!state?.key || typeof state.key !== 'string' || !state.label) {
+      throw createValidationError('Every state needs a key and a label');
+    }
+    if (keys.has(state.key)) {
+      throw createValidationError(`Duplicate state: ${state.key}`);
+    }
+    keys.add(state.key);
+  }
+  if (states.filter(state => state.isInitial).length !== 1) {
+    throw createValidationError('Exactly one state must be marked as initial');
+  }
+
+  const pairs = new Set<string>();
+  for (const transition of transitions) {
+    if (!keys.has(transition?.from) || !keys.has(transition?.to)) {
+      throw createValidationError(`Transition ${transition?.from} → ${transition?.to} references an unknown state`);
+    }
+    if (transition.from === transition.to) {
+      throw createValidationError(`Transition from ${transition.from} must lead to a different state`);
+    }
+    const pair = `${transition.from}→${transition.to}`;
+    if (pairs.has(pair)) {
+      throw createValidationError(`Duplicate transition: ${transition.from} → ${transition.to}`);
+    }
+    pairs.add(pair);
+    if (transition.permission != null && !isPermission(transition.permission)) {
+      throw createValidationError(`Transition ${pair} has an unknown permission: ${transition.permission}`);
+    }
+  }
+
+  return { states: states as WorkflowState[], transitions: transitions as WorkflowTransition[] };
+};